@@ -2,6 +2,7 @@ import { MongoClient } from 'mongodb';
 import { MongoGenealogyGraphRepository } from './src/infrastructure/repositories/genealogy-graph.mongo.repository';
 import { GenealogyGraph } from './src/domain/genealogy-graph';
 import { PersonHasRelationshipsError } from './src/domain/errors';
+import { GenealogicalDate } from './src/domain/genealogical-date';
 
 /**
  * End-to-End Smoke Test: Domain → Repository → MongoDB
@@ -42,7 +43,7 @@ async function runSmokeTest() {
       personId: 'person-a',
       name: 'Alice',
       gender: 'FEMALE',
-      birthDate: new Date('1960-01-01'),
+      birthDate: GenealogicalDate.parse('1960-01-01'),
       birthPlace: 'New York',
       deathDate: null,
     });
@@ -51,7 +52,7 @@ async function runSmokeTest() {
       personId: 'person-b',
       name: 'Bob',
       gender: 'MALE',
-      birthDate: new Date('1962-05-15'),
+      birthDate: GenealogicalDate.parse('1962-05-15'),
       birthPlace: 'Boston',
       deathDate: null,
     });
@@ -60,7 +61,7 @@ async function runSmokeTest() {
       personId: 'person-c',
       name: 'Charlie',
       gender: 'MALE',
-      birthDate: new Date('1985-03-20'),
+      birthDate: GenealogicalDate.parse('1985-03-20'),
       birthPlace: 'Chicago',
       deathDate: null,
     });
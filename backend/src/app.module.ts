@@ -14,6 +14,7 @@ import { MongoAuditLogRepository } from './infrastructure/repositories/audit-log
 import { AuthService } from './infrastructure/services/auth.service';
 import { JwtGuard } from './infrastructure/guards/jwt.guard';
 import { GenealogyGraph } from './domain/genealogy-graph';
+import { LocalMediaStorage } from './infrastructure/storage';
 
 /**
  * Ensure audit collection indexes exist.
@@ -163,6 +164,12 @@ const auditLogRepositoryProvider = {
   inject: ['MONGO_CLIENT'],
 };
 
+// Media storage provider: uploaded files on the local filesystem
+const mediaStorageProvider = {
+  provide: 'MEDIA_STORAGE',
+  useFactory: () => new LocalMediaStorage(process.env.MEDIA_STORAGE_DIR || './data/media'),
+};
+
 // Auth Service provider
 const authServiceProvider = {
   provide: AuthService,
@@ -191,16 +198,17 @@ const getPersonHistoryHandlerProvider = {
 // Application service provider
 const appServiceProvider = {
   provide: GenealogyApplicationService,
-  useFactory: (repository: any, auditLogRepository: any, readRepository: any) => {
+  useFactory: (repository: any, auditLogRepository: any, readRepository: any, mediaStorage: any) => {
     return new GenealogyApplicationService(
       repository,
       genealogyGraphFactory,
       false,
       auditLogRepository,
       readRepository,
+      mediaStorage,
     );
   },
-  inject: ['GENEALOGY_REPOSITORY', 'AUDIT_LOG_REPOSITORY', 'READ_GENEALOGY_REPOSITORY'],
+  inject: ['GENEALOGY_REPOSITORY', 'AUDIT_LOG_REPOSITORY', 'READ_GENEALOGY_REPOSITORY', 'MEDIA_STORAGE'],
 };
 
 @Module({
@@ -212,6 +220,7 @@ const appServiceProvider = {
     readGenealogyRepositoryProvider,
     userRepositoryProvider,
     auditLogRepositoryProvider,
+    mediaStorageProvider,
     authServiceProvider,
     getTreeActivityHandlerProvider,
     getPersonHistoryHandlerProvider,
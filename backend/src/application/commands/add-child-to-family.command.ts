@@ -0,0 +1,27 @@
+import { NotFoundError } from '../../domain/errors';
+import type { Family } from '../../domain/family';
+import type { ParentChildType } from '../../domain/relationship';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+
+export interface AddChildToFamilyCommand {
+  treeId: string;
+  familyId: string;
+  childId: string;
+  type?: ParentChildType; // for parent links not yet recorded; defaults to BIOLOGICAL
+  position?: number; // 0-based among the family's children; appended when omitted
+}
+
+export class AddChildToFamilyHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(command: AddChildToFamilyCommand): Promise<Family> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    aggregate.addChildToFamily(command.familyId, command.childId, command.type ?? 'BIOLOGICAL', command.position);
+    await this.repository.save(aggregate);
+    return aggregate.getFamily(command.familyId)!;
+  }
+}
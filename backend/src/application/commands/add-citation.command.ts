@@ -0,0 +1,35 @@
+import { NotFoundError } from '../../domain/errors';
+import type { Citation, CitationQuality, CitationTarget } from '../../domain/citation';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+
+export interface AddCitationCommand {
+  treeId: string;
+  citationId?: string; // generated when omitted
+  sourceId: string;
+  target: CitationTarget;
+  page?: string | null;
+  quality?: CitationQuality | null;
+  transcription?: string | null;
+}
+
+export class AddCitationHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(command: AddCitationCommand): Promise<Citation> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    const citation = aggregate.addCitation({
+      citationId: command.citationId,
+      sourceId: command.sourceId,
+      target: command.target,
+      page: command.page,
+      quality: command.quality,
+      transcription: command.transcription,
+    });
+    await this.repository.save(aggregate);
+    return citation;
+  }
+}
@@ -0,0 +1,39 @@
+import { NotFoundError } from '../../domain/errors';
+import type { GenealogicalDate } from '../../domain/genealogical-date';
+import type { LifeEvent, LifeEventType } from '../../domain/life-event';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+
+export interface AddPersonEventCommand {
+  treeId: string;
+  personId: string;
+  eventId?: string; // generated when omitted
+  type: LifeEventType;
+  customType?: string | null; // CUSTOM only
+  date?: GenealogicalDate | null;
+  place?: string | null;
+  placeId?: string | null; // gazetteer entry; sets place to its full name
+  description?: string | null;
+}
+
+export class AddPersonEventHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(command: AddPersonEventCommand): Promise<LifeEvent> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    const event = aggregate.addPersonEvent(command.personId, {
+      eventId: command.eventId,
+      type: command.type,
+      customType: command.customType,
+      date: command.date,
+      place: command.place,
+      placeId: command.placeId,
+      description: command.description,
+    });
+    await this.repository.save(aggregate);
+    return event;
+  }
+}
@@ -18,9 +18,11 @@ export class AddPersonToTreeHandler {
     aggregate.addPerson({
       personId: command.personId,
       name: command.name,
+      names: command.names ?? [],
       gender: command.gender,
       birthDate: command.birthDate ?? null,
       birthPlace: command.birthPlace ?? null,
+      birthPlaceId: command.birthPlaceId ?? null,
       deathDate: command.deathDate ?? null,
     });
 
@@ -0,0 +1,24 @@
+import { NotFoundError } from '../../domain/errors';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+
+export interface CreateFamilyCommand {
+  treeId: string;
+  familyId?: string; // generated when omitted
+  parent1Id: string;
+  parent2Id?: string | null; // omit for a single-parent family
+}
+
+export class CreateFamilyHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(command: CreateFamilyCommand): Promise<string> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    const familyId = aggregate.createFamily(command.parent1Id, command.parent2Id ?? null, command.familyId);
+    await this.repository.save(aggregate);
+    return familyId;
+  }
+}
@@ -0,0 +1,38 @@
+import { NotFoundError } from '../../domain/errors';
+import type { PlaceName, PlaceType } from '../../domain/place';
+import { placeWithUsage, type PlaceWithUsage } from '../queries/get-places.query';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+
+export interface CreatePlaceCommand {
+  treeId: string;
+  placeId?: string; // generated when omitted
+  name: string;
+  type?: PlaceType | null;
+  parentId?: string | null;
+  alternateNames?: PlaceName[] | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export class CreatePlaceHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(command: CreatePlaceCommand): Promise<PlaceWithUsage> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    const place = aggregate.addPlace({
+      placeId: command.placeId,
+      name: command.name,
+      type: command.type,
+      parentId: command.parentId,
+      alternateNames: command.alternateNames,
+      latitude: command.latitude,
+      longitude: command.longitude,
+    });
+    await this.repository.save(aggregate);
+    return placeWithUsage(aggregate, place);
+  }
+}
@@ -0,0 +1,33 @@
+import { NotFoundError } from '../../domain/errors';
+import type { Source } from '../../domain/source';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+
+export interface CreateSourceCommand {
+  treeId: string;
+  sourceId?: string; // generated when omitted
+  title: string;
+  author?: string | null;
+  repository?: string | null;
+  reference?: string | null;
+}
+
+export class CreateSourceHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(command: CreateSourceCommand): Promise<Source> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    const source = aggregate.addSource({
+      sourceId: command.sourceId,
+      title: command.title,
+      author: command.author,
+      repository: command.repository,
+      reference: command.reference,
+    });
+    await this.repository.save(aggregate);
+    return source;
+  }
+}
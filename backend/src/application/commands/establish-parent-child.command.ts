@@ -1,10 +1,12 @@
 import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { ParentChildType } from '../../domain/relationship';
 import { enforceRelationshipShape } from '../validation';
 
 export interface EstablishParentChildCommand {
   treeId: string;
   parentId: string;
   childId: string;
+  type?: ParentChildType; // defaults to BIOLOGICAL
 }
 
 export class EstablishParentChildHandler {
@@ -23,7 +25,7 @@ export class EstablishParentChildHandler {
       childId: command.childId,
     });
 
-    aggregate.addParentChildRelationship(command.parentId, command.childId);
+    aggregate.addParentChildRelationship(command.parentId, command.childId, command.type ?? 'BIOLOGICAL');
     await this.repository.save(aggregate);
   }
 }
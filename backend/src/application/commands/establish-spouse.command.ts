@@ -1,10 +1,12 @@
 import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { MarriageProps } from '../../domain/marriage';
 import { enforceRelationshipShape, canonicalSpouseOrder } from '../validation';
 
 export interface EstablishSpouseCommand {
   treeId: string;
   spouseAId: string;
   spouseBId: string;
+  marriage?: MarriageProps; // spouse1Order is spouseA's, spouse2Order spouseB's
 }
 
 export class EstablishSpouseHandler {
@@ -25,7 +27,8 @@ export class EstablishSpouseHandler {
       spouse2Id,
     });
 
-    aggregate.addSpouseRelationship(spouse1Id, spouse2Id);
+    // The aggregate canonicalizes itself; pass the request order so per-spouse orders stay attached
+    aggregate.addSpouseRelationship(command.spouseAId, command.spouseBId, command.marriage);
     await this.repository.save(aggregate);
   }
 }
@@ -1,44 +1,67 @@
+import type { CsvColumns } from '../../domain/csv-import';
+
 /**
- * Command to import persons from CSV into a family tree.
- * CSV format (header required):
- * 
+ * Command to import persons, and relationships between them, from CSV into
+ * a family tree.
+ * CSV format (header required; columns in any order, found by header):
+ *
  * personId,name,gender,birthDate,birthPlace,deathDate
- * p1,Alice Smith,FEMALE,1990-01-15,New York,,
- * p2,Bob Smith,MALE,1988-06-20,Boston,2020-12-01,
- * 
+ * p1,Alice Smith,FEMALE,1990-01-15,New York,
+ * p2,Bob Smith,MALE,1988-06-20,Boston,2020-12-01
+ * p3,Carol Smith,FEMALE,2015,,
+ *
+ * type,personAId,personBId,subtype
+ * spouse,p1,p2,
+ * parent-child,p1,p3,BIOLOGICAL
+ * parent-child,p2,p3,STEP
+ *
+ * Relationships follow the persons below a blank line, or come as
+ * relationshipsCsv; parentId,childId,subtype or spouse1Id,spouse2Id
+ * headers need no type column. Headers such as "Person ID", "Sex" or
+ * "Date of birth" are recognised; `columns` names others.
+ *
  * Rules:
  * - personId must be unique and non-empty
  * - name must be non-empty
- * - gender must be MALE, FEMALE, or UNKNOWN
- * - dates must be valid ISO 8601 (YYYY-MM-DD) or empty
- * - Entire import fails if ANY row is invalid (all-or-nothing)
- * - Existing persons with same personId are SKIPPED (idempotent)
+ * - gender must be MALE, FEMALE, or UNKNOWN (or M, F, U)
+ * - dates must be ISO 8601 (YYYY-MM-DD, YYYY-MM, YYYY), a genealogical
+ *   date (e.g. ABT 1890, BEF 1750, BET 1850 AND 1860, MAR 1823), or empty
+ * - subtype is a parent-child type (BIOLOGICAL when empty)
+ * - strict (default): entire import fails if ANY row is invalid or refused
+ *   by the tree (all-or-nothing); lenient: the other rows are imported and
+ *   each failed row is reported
+ * - Existing persons with same personId are SKIPPED (idempotent), or
+ *   updated from the CSV's columns with upsert
+ * - Relationships already in the tree are SKIPPED
  */
 export interface ImportPersonsCommand {
   treeId: string;
   csvContent: string; // Raw CSV string with header
+  relationshipsCsv?: string | null; // Raw CSV string with header, when not a section of csvContent
+  mode?: ImportPersonsMode; // default strict
+  upsert?: boolean; // default false
+  columns?: CsvColumns; // field -> header, for headers not recognised
 }
 
-/**
- * Parsed row from CSV
- */
-export interface CsvPersonRow {
-  personId: string;
-  name: string;
-  gender: 'MALE' | 'FEMALE' | 'UNKNOWN';
-  birthDate: Date | null;
-  birthPlace: string | null;
-  deathDate: Date | null;
-}
+export type ImportPersonsMode = 'strict' | 'lenient';
+
+export const IMPORT_PERSONS_MODES: ImportPersonsMode[] = ['strict', 'lenient'];
 
 /**
  * Import result with counts and errors
  */
 export interface ImportPersonsResult {
   imported: number;
+  updated: number;
   skipped: number;
   total: number;
+  relationships: {
+    imported: number;
+    skipped: number;
+    total: number;
+  };
   errors: Array<{
+    section: 'persons' | 'relationships';
     row: number;
     personId?: string;
     message: string;
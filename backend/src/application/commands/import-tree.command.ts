@@ -0,0 +1,153 @@
+import type { GenealogyGraph } from '../../domain/types';
+import { InvariantViolationError } from '../../domain/errors';
+import { GEDCOM_FILE_EXTENSIONS, importGedcom, isGedcomFile } from '../../domain/gedcom-import';
+import {
+  TREE_JSON_FILE_EXTENSIONS,
+  importTreeJson,
+  isTreeJsonFile,
+  treeJsonName,
+  type DuplicateHandling,
+} from '../../domain/tree-json-import';
+
+/**
+ * Command to import a family tree file, into a new tree or beside the
+ * persons of an existing one.
+ *
+ * Formats: GEDCOM 5.5.1 (.ged, .gedcom) in UTF-8, UTF-16, ANSEL, ASCII or
+ * ANSI; tree JSON version 1.0 (.json), as the export dialog writes it.
+ *
+ * Rules:
+ * - The file is read into the tree through the tree's own checks (cycles,
+ *   parent limits, age consistency)
+ * - Entire import fails if ANY record is refused by those checks, or is a
+ *   JSON row that cannot be read (all-or-nothing); the preview lists them
+ *   with the line or row and the reason
+ * - Records the tree has no place for (sources, notes, media, unknown JSON
+ *   fields) and GEDCOM dates that cannot be read are left out; the preview
+ *   lists them as warnings
+ * - JSON persons already in the target tree are matched by name and birth
+ *   year and handled by `handleDuplicates`: skipped, merged (the tree's
+ *   empty fields filled) or replaced by the file's; their relationships
+ *   attach to the person in the tree. GEDCOM persons are always added.
+ * - A new tree's id is made from its name (the file's tree name for JSON),
+ *   with a suffix when it is taken
+ */
+export interface ImportTreeCommand {
+  fileName: string;
+  data: Buffer;
+  createNewTree: boolean;
+  newTreeName?: string | null; // defaults to the tree name in the file, else the file name
+  targetTreeId?: string | null; // required unless createNewTree
+  handleDuplicates?: DuplicateHandling; // default skip
+}
+
+export interface ImportTreeResult {
+  treeId: string;
+  imported: number; // persons added
+  skipped: number; // persons left out as already in the tree
+  merged: number; // persons already in the tree, merged or replaced from the file
+}
+
+/**
+ * What an import would do, in the shape the import dialog reads: the file
+ * as tree data, every record refused (errors) or left out (warnings) with
+ * its line or JSON row as `row`, and the persons already in the target
+ * tree.
+ */
+export interface TreeImportPreview {
+  data: {
+    version: '1.0';
+    tree: { id: string; name: string; description?: string };
+    persons: Array<{
+      id: string;
+      name: string;
+      gender: 'MALE' | 'FEMALE' | 'UNKNOWN';
+      birthDate?: string;
+      deathDate?: string;
+      birthPlace?: string;
+    }>;
+    relationships: Array<{ type: 'parent-child' | 'spouse'; personAId: string; personBId: string }>;
+  };
+  validation: {
+    valid: boolean;
+    errors: Array<{ row: number; field: string; message: string }>;
+    warnings: Array<{ row: number; message: string }>;
+    summary: { personCount: number; relationshipCount: number; duplicateCount: number; conflictCount: number };
+  };
+  existingDuplicates: Array<{
+    importId: string;
+    importName: string;
+    existingId: string;
+    existingName: string;
+    similarity: number; // 0-1
+  }>;
+}
+
+/**
+ * Largest file accepted for import (50 MB).
+ */
+export const MAX_IMPORT_SIZE = 50 * 1024 * 1024;
+
+/**
+ * What reading a file did, whatever its format. `row` is the line for
+ * GEDCOM, the position in the persons or relationships list (named by
+ * `field`) for JSON.
+ */
+export interface TreeImportReport {
+  format: 'GEDCOM' | 'JSON';
+  treeName: string | null; // the tree's name in the file
+  personIds: string[]; // the persons added, in file order
+  skipped: string[]; // persons already in the tree, left as they were
+  merged: string[]; // persons already in the tree, updated from the file
+  duplicates: TreeImportPreview['existingDuplicates'];
+  errors: TreeImportPreview['validation']['errors'];
+  warnings: TreeImportPreview['validation']['warnings'];
+}
+
+/**
+ * The name an uploaded file gives its tree, if any.
+ */
+export function readImportTreeName(fileName: string, data: Buffer): string | null {
+  return isTreeJsonFile(fileName) ? treeJsonName(data) : null;
+}
+
+/**
+ * Read an uploaded file into `graph` by its format.
+ */
+export function readImportFile(
+  fileName: string,
+  data: Buffer,
+  graph: GenealogyGraph,
+  handleDuplicates: DuplicateHandling = 'skip',
+): TreeImportReport {
+  if (isTreeJsonFile(fileName)) {
+    const report = importTreeJson(data, graph, handleDuplicates);
+    return {
+      format: 'JSON',
+      treeName: report.treeName,
+      personIds: report.personIds,
+      skipped: report.skipped,
+      merged: report.merged,
+      duplicates: report.duplicates,
+      errors: report.rejected,
+      warnings: report.ignored.map(({ row, message }) => ({ row, message })),
+    };
+  }
+  if (!isGedcomFile(fileName)) {
+    throw new InvariantViolationError(
+      `only GEDCOM files (${GEDCOM_FILE_EXTENSIONS.join(', ')}) ` +
+        `and tree JSON files (${TREE_JSON_FILE_EXTENSIONS.join(', ')}) can be imported`,
+    );
+  }
+  const report = importGedcom(data, graph);
+  return {
+    format: 'GEDCOM',
+    treeName: null,
+    personIds: report.personIds,
+    skipped: [],
+    merged: [],
+    duplicates: [],
+    errors: report.rejected.map(({ line, tag, message }) => ({ row: line, field: tag, message })),
+    warnings: report.ignored.map(({ line, message }) => ({ row: line, message })),
+  };
+}
@@ -0,0 +1,80 @@
+import type { GenealogyGraph, GenealogyGraphFactory } from '../../domain/types';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import { InvariantViolationError, NotFoundError } from '../../domain/errors';
+import {
+  readImportFile,
+  readImportTreeName,
+  type ImportTreeCommand,
+  type ImportTreeResult,
+} from './import-tree.command';
+
+/**
+ * Handler for importing a family tree file.
+ *
+ * Strategy:
+ * 1. Create the new tree in memory, or load the target tree
+ * 2. Read the file into it through the tree's invariant checks, matching
+ *    JSON persons already in the tree
+ * 3. Fail without saving if any record was refused
+ * 4. Save the tree once, so the import lands whole or not at all
+ */
+export class ImportTreeHandler {
+  constructor(
+    private readonly repository: GenealogyGraphRepository,
+    private readonly factory: GenealogyGraphFactory,
+  ) {}
+
+  async execute(cmd: ImportTreeCommand): Promise<ImportTreeResult> {
+    let tree: GenealogyGraph | null;
+    if (cmd.createNewTree) {
+      const name =
+        cmd.newTreeName?.trim() || readImportTreeName(cmd.fileName, cmd.data) || cmd.fileName.replace(/\.[^.]*$/, '');
+      tree = this.factory.create(await this.newTreeId(name));
+    } else {
+      if (!cmd.targetTreeId) {
+        throw new InvariantViolationError('targetTreeId is required unless createNewTree is set');
+      }
+      tree = await this.repository.findById(cmd.targetTreeId);
+      if (!tree) {
+        throw new NotFoundError(`Tree ${cmd.targetTreeId} not found`);
+      }
+    }
+
+    const report = readImportFile(cmd.fileName, cmd.data, tree, cmd.handleDuplicates);
+    if (report.errors.length > 0) {
+      const [first] = report.errors;
+      const at = report.format === 'GEDCOM' ? `line ${first.row}` : `row ${first.row} of ${first.field}`;
+      throw new InvariantViolationError(
+        `the file cannot be imported: ${report.errors.length} record(s) break the tree's rules, ` +
+          `the first at ${at}: ${first.message}`,
+      );
+    }
+
+    await this.repository.save(tree);
+    return {
+      treeId: tree.treeId,
+      imported: report.personIds.length,
+      skipped: report.skipped.length,
+      merged: report.merged.length,
+    };
+  }
+
+  /**
+   * A tree id from a name: lower case, words joined by dashes, with -2,
+   * -3, ... when the id is taken.
+   */
+  private async newTreeId(name: string): Promise<string> {
+    const base =
+      name
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '') || 'imported-tree';
+    let treeId = base;
+    for (let n = 2; await this.repository.findById(treeId); n++) {
+      treeId = `${base}-${n}`;
+    }
+    return treeId;
+  }
+}
@@ -0,0 +1,34 @@
+import { NotFoundError } from '../../domain/errors';
+import type { Place } from '../../domain/place';
+import { placeWithUsage, type PlaceWithUsage } from '../queries/get-places.query';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+
+export interface MergePlacesCommand {
+  treeId: string;
+  placeId: string; // the duplicate, removed by the merge
+  intoPlaceId: string;
+}
+
+export interface MergePlacesResult {
+  merged: Place; // the duplicate as it was
+  into: PlaceWithUsage; // the place kept, with the duplicate's names
+  personIds: string[]; // persons whose births or events moved
+}
+
+export class MergePlacesHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(command: MergePlacesCommand): Promise<MergePlacesResult> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    const merged = aggregate.getPlace(command.placeId);
+    const personIds = merged ? aggregate.getPlacePersonIds(command.placeId, true) : [];
+    const into = aggregate.mergePlaces(command.placeId, command.intoPlaceId);
+
+    await this.repository.save(aggregate);
+    return { merged: merged!, into: placeWithUsage(aggregate, into), personIds };
+  }
+}
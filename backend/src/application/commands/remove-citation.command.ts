@@ -0,0 +1,23 @@
+import { NotFoundError } from '../../domain/errors';
+import type { Citation } from '../../domain/citation';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+
+export interface RemoveCitationCommand {
+  treeId: string;
+  citationId: string;
+}
+
+export class RemoveCitationHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(command: RemoveCitationCommand): Promise<Citation> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    const removed = aggregate.removeCitation(command.citationId);
+    await this.repository.save(aggregate);
+    return removed;
+  }
+}
@@ -0,0 +1,33 @@
+import { NotFoundError } from '../../domain/errors';
+import type { MediaObject } from '../../domain/media';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { MediaStorage } from '../../infrastructure/storage/media-storage';
+
+export interface RemoveMediaCommand {
+  treeId: string;
+  mediaId: string;
+}
+
+export class RemoveMediaHandler {
+  constructor(
+    private readonly repository: GenealogyGraphRepository,
+    private readonly storage: MediaStorage,
+  ) {}
+
+  /**
+   * The stored bytes are deleted once the tree no longer refers to them.
+   */
+  async execute(command: RemoveMediaCommand): Promise<MediaObject> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    const removed = aggregate.removeMedia(command.mediaId);
+    await this.repository.save(aggregate);
+
+    await this.storage.delete(removed.storageKey);
+    if (removed.thumbnailKey) await this.storage.delete(removed.thumbnailKey);
+    return removed;
+  }
+}
@@ -0,0 +1,24 @@
+import { NotFoundError } from '../../domain/errors';
+import type { LifeEvent } from '../../domain/life-event';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+
+export interface RemovePersonEventCommand {
+  treeId: string;
+  personId: string;
+  eventId: string;
+}
+
+export class RemovePersonEventHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(command: RemovePersonEventCommand): Promise<LifeEvent> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    const removed = aggregate.removePersonEvent(command.personId, command.eventId);
+    await this.repository.save(aggregate);
+    return removed;
+  }
+}
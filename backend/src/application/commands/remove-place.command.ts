@@ -0,0 +1,23 @@
+import { NotFoundError } from '../../domain/errors';
+import type { Place } from '../../domain/place';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+
+export interface RemovePlaceCommand {
+  treeId: string;
+  placeId: string;
+}
+
+export class RemovePlaceHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(command: RemovePlaceCommand): Promise<Place> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    const removed = aggregate.removePlace(command.placeId);
+    await this.repository.save(aggregate);
+    return removed;
+  }
+}
@@ -0,0 +1,23 @@
+import { NotFoundError } from '../../domain/errors';
+import type { Source } from '../../domain/source';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+
+export interface RemoveSourceCommand {
+  treeId: string;
+  sourceId: string;
+}
+
+export class RemoveSourceHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(command: RemoveSourceCommand): Promise<Source> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    const removed = aggregate.removeSource(command.sourceId);
+    await this.repository.save(aggregate);
+    return removed;
+  }
+}
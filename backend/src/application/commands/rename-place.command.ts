@@ -0,0 +1,38 @@
+import { NotFoundError } from '../../domain/errors';
+import type { Place } from '../../domain/place';
+import { placeWithUsage, type PlaceWithUsage } from '../queries/get-places.query';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+
+export interface RenamePlaceCommand {
+  treeId: string;
+  placeId: string;
+  name: string;
+  keepFormerName?: boolean; // keep the current name as a historical name
+}
+
+export interface RenamePlaceResult {
+  before: Place;
+  after: PlaceWithUsage;
+  personIds: string[]; // persons whose births or events were renamed
+}
+
+export class RenamePlaceHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(command: RenamePlaceCommand): Promise<RenamePlaceResult> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    const before = aggregate.getPlace(command.placeId);
+    const after = aggregate.renamePlace(command.placeId, command.name, command.keepFormerName === true);
+
+    await this.repository.save(aggregate);
+    return {
+      before: before!,
+      after: placeWithUsage(aggregate, after),
+      personIds: aggregate.getPlacePersonIds(command.placeId, true),
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { NotFoundError } from '../../domain/errors';
+import type { Citation, CitationQuality } from '../../domain/citation';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+
+/**
+ * Partial update of a citation; the source and the cited fact are fixed.
+ * Omitted fields are left unchanged; `null` clears an optional field.
+ */
+export interface UpdateCitationCommand {
+  treeId: string;
+  citationId: string;
+  page?: string | null;
+  quality?: CitationQuality | null;
+  transcription?: string | null;
+}
+
+export interface UpdateCitationResult {
+  before: Citation;
+  after: Citation;
+}
+
+export class UpdateCitationHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(command: UpdateCitationCommand): Promise<UpdateCitationResult> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    const before = aggregate.getCitation(command.citationId);
+    const after = aggregate.updateCitation(command.citationId, {
+      page: command.page,
+      quality: command.quality,
+      transcription: command.transcription,
+    });
+
+    await this.repository.save(aggregate);
+    return { before: before!, after };
+  }
+}
@@ -0,0 +1,43 @@
+import { NotFoundError } from '../../domain/errors';
+import type { GenealogicalDate } from '../../domain/genealogical-date';
+import type { MediaLink, MediaObject } from '../../domain/media';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+
+/**
+ * Partial update of a media object's description; the file is fixed.
+ * Omitted fields are left unchanged; `null` clears an optional field and
+ * `links` replaces the links as a whole.
+ */
+export interface UpdateMediaCommand {
+  treeId: string;
+  mediaId: string;
+  caption?: string | null;
+  date?: GenealogicalDate | null;
+  links?: MediaLink[] | null;
+}
+
+export interface UpdateMediaResult {
+  before: MediaObject;
+  after: MediaObject;
+}
+
+export class UpdateMediaHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(command: UpdateMediaCommand): Promise<UpdateMediaResult> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    const before = aggregate.getMedia(command.mediaId);
+    const after = aggregate.updateMedia(command.mediaId, {
+      caption: command.caption,
+      date: command.date,
+      links: command.links,
+    });
+
+    await this.repository.save(aggregate);
+    return { before: before!, after };
+  }
+}
@@ -0,0 +1,49 @@
+import { NotFoundError } from '../../domain/errors';
+import type { GenealogicalDate } from '../../domain/genealogical-date';
+import type { LifeEvent, LifeEventType } from '../../domain/life-event';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+
+/**
+ * Partial update of a life event.
+ * Omitted fields are left unchanged; `null` clears an optional field.
+ */
+export interface UpdatePersonEventCommand {
+  treeId: string;
+  personId: string;
+  eventId: string;
+  type?: LifeEventType;
+  customType?: string | null;
+  date?: GenealogicalDate | null;
+  place?: string | null;
+  placeId?: string | null; // gazetteer entry; sets place to its full name
+  description?: string | null;
+}
+
+export interface UpdatePersonEventResult {
+  before: LifeEvent;
+  after: LifeEvent;
+}
+
+export class UpdatePersonEventHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(command: UpdatePersonEventCommand): Promise<UpdatePersonEventResult> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    const before = aggregate.getPersonEvent(command.personId, command.eventId);
+    const after = aggregate.updatePersonEvent(command.personId, command.eventId, {
+      type: command.type,
+      customType: command.customType,
+      date: command.date,
+      place: command.place,
+      placeId: command.placeId,
+      description: command.description,
+    });
+
+    await this.repository.save(aggregate);
+    return { before: before!, after };
+  }
+}
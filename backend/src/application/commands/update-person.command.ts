@@ -0,0 +1,55 @@
+import { NotFoundError } from '../../domain/errors';
+import type { GenealogicalDate } from '../../domain/genealogical-date';
+import type { PersonName } from '../../domain/person-name';
+import type { PersonProps } from '../../domain/types';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+
+/**
+ * Partial update of a person's attributes.
+ * Omitted fields are left unchanged; `null` clears an optional field.
+ */
+export interface UpdatePersonCommand {
+  treeId: string;
+  personId: string;
+  name?: string;
+  names?: PersonName[] | null;
+  gender?: PersonProps['gender'];
+  birthDate?: GenealogicalDate | null;
+  birthPlace?: string | null;
+  birthPlaceId?: string | null;
+  deathDate?: GenealogicalDate | null;
+}
+
+export interface UpdatePersonResult {
+  before: PersonProps;
+  after: PersonProps;
+}
+
+export class UpdatePersonHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(command: UpdatePersonCommand): Promise<UpdatePersonResult> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    const before = aggregate.getPerson(command.personId);
+    if (!before) {
+      throw new NotFoundError(`person ${command.personId} not found`);
+    }
+
+    const after = aggregate.updatePerson(command.personId, {
+      name: command.name,
+      names: command.names,
+      gender: command.gender,
+      birthDate: command.birthDate,
+      birthPlace: command.birthPlace,
+      birthPlaceId: command.birthPlaceId,
+      deathDate: command.deathDate,
+    });
+
+    await this.repository.save(aggregate);
+    return { before, after };
+  }
+}
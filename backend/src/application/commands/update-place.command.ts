@@ -0,0 +1,48 @@
+import { NotFoundError } from '../../domain/errors';
+import type { Place, PlaceName, PlaceType } from '../../domain/place';
+import { placeWithUsage, type PlaceWithUsage } from '../queries/get-places.query';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+
+/**
+ * Partial update of a place.
+ * Omitted fields are left unchanged; `null` clears an optional field.
+ */
+export interface UpdatePlaceCommand {
+  treeId: string;
+  placeId: string;
+  name?: string;
+  type?: PlaceType | null;
+  parentId?: string | null;
+  alternateNames?: PlaceName[] | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export interface UpdatePlaceResult {
+  before: Place;
+  after: PlaceWithUsage;
+}
+
+export class UpdatePlaceHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(command: UpdatePlaceCommand): Promise<UpdatePlaceResult> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    const before = aggregate.getPlace(command.placeId);
+    const after = aggregate.updatePlace(command.placeId, {
+      name: command.name,
+      type: command.type,
+      parentId: command.parentId,
+      alternateNames: command.alternateNames,
+      latitude: command.latitude,
+      longitude: command.longitude,
+    });
+
+    await this.repository.save(aggregate);
+    return { before: before!, after: placeWithUsage(aggregate, after) };
+  }
+}
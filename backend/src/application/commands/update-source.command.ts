@@ -0,0 +1,43 @@
+import { NotFoundError } from '../../domain/errors';
+import type { Source } from '../../domain/source';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+
+/**
+ * Partial update of a source.
+ * Omitted fields are left unchanged; `null` clears an optional field.
+ */
+export interface UpdateSourceCommand {
+  treeId: string;
+  sourceId: string;
+  title?: string;
+  author?: string | null;
+  repository?: string | null;
+  reference?: string | null;
+}
+
+export interface UpdateSourceResult {
+  before: Source;
+  after: Source;
+}
+
+export class UpdateSourceHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(command: UpdateSourceCommand): Promise<UpdateSourceResult> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    const before = aggregate.getSource(command.sourceId);
+    const after = aggregate.updateSource(command.sourceId, {
+      title: command.title,
+      author: command.author,
+      repository: command.repository,
+      reference: command.reference,
+    });
+
+    await this.repository.save(aggregate);
+    return { before: before!, after };
+  }
+}
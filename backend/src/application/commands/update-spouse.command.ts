@@ -0,0 +1,62 @@
+import { NotFoundError } from '../../domain/errors';
+import type { GenealogicalDate } from '../../domain/genealogical-date';
+import type { Marriage, MarriageStatus } from '../../domain/marriage';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import { canonicalSpouseOrder } from '../validation';
+
+/**
+ * Partial update of a marriage's details.
+ * Omitted fields are left unchanged; `null` clears an optional field.
+ */
+export interface UpdateSpouseCommand {
+  treeId: string;
+  spouseAId: string;
+  spouseBId: string;
+  status?: MarriageStatus;
+  marriageDate?: GenealogicalDate | null;
+  marriagePlace?: string | null;
+  divorceDate?: GenealogicalDate | null;
+  divorcePlace?: string | null;
+  spouseAOrder?: number | null;
+  spouseBOrder?: number | null;
+}
+
+/**
+ * Both sides oriented as spouse1/spouse2 (canonical order).
+ */
+export interface UpdateSpouseResult {
+  spouse1Id: string;
+  spouse2Id: string;
+  before: Marriage;
+  after: Marriage;
+}
+
+export class UpdateSpouseHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(command: UpdateSpouseCommand): Promise<UpdateSpouseResult> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    const before = aggregate.getMarriage(command.spouseAId, command.spouseBId);
+    if (!before) {
+      throw new NotFoundError('spouse relationship not found');
+    }
+
+    const after = aggregate.updateSpouseRelationship(command.spouseAId, command.spouseBId, {
+      status: command.status,
+      marriageDate: command.marriageDate,
+      marriagePlace: command.marriagePlace,
+      divorceDate: command.divorceDate,
+      divorcePlace: command.divorcePlace,
+      spouse1Order: command.spouseAOrder,
+      spouse2Order: command.spouseBOrder,
+    });
+
+    await this.repository.save(aggregate);
+    const [spouse1Id, spouse2Id] = canonicalSpouseOrder(command.spouseAId, command.spouseBId);
+    return { spouse1Id, spouse2Id, before, after };
+  }
+}
@@ -0,0 +1,64 @@
+import { randomUUID } from 'crypto';
+import { NotFoundError } from '../../domain/errors';
+import type { GenealogicalDate } from '../../domain/genealogical-date';
+import type { MediaLink, MediaObject } from '../../domain/media';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { MediaStorage, ThumbnailGenerator } from '../../infrastructure/storage/media-storage';
+import { createImageThumbnail } from '../../infrastructure/storage/image-thumbnail';
+
+export interface UploadMediaCommand {
+  treeId: string;
+  mediaId?: string; // generated when omitted
+  fileName: string;
+  mimeType: string;
+  data: Buffer;
+  caption?: string | null;
+  date?: GenealogicalDate | null;
+  links?: MediaLink[] | null;
+}
+
+export class UploadMediaHandler {
+  constructor(
+    private readonly repository: GenealogyGraphRepository,
+    private readonly storage: MediaStorage,
+    private readonly thumbnails: ThumbnailGenerator = createImageThumbnail,
+  ) {}
+
+  /**
+   * The file is recorded in the aggregate first, so that an invalid upload
+   * stores nothing; its bytes are removed again if the tree cannot be saved.
+   */
+  async execute(command: UploadMediaCommand): Promise<MediaObject> {
+    const aggregate = await this.repository.findById(command.treeId);
+    if (!aggregate) {
+      throw new NotFoundError('Family tree not found');
+    }
+
+    const storageKey = `${command.treeId.replace(/[^A-Za-z0-9_-]/g, '_')}/${randomUUID()}`;
+    const thumbnail = await this.thumbnails(command.data, command.mimeType);
+    const thumbnailKey = thumbnail ? `${storageKey}.thumb.jpg` : null;
+
+    const media = aggregate.addMedia({
+      mediaId: command.mediaId,
+      fileName: command.fileName,
+      mimeType: command.mimeType,
+      size: command.data.length,
+      storageKey,
+      thumbnailKey,
+      caption: command.caption,
+      date: command.date,
+      links: command.links,
+    });
+
+    try {
+      await this.storage.put(storageKey, command.data);
+      if (thumbnail && thumbnailKey) await this.storage.put(thumbnailKey, thumbnail);
+      await this.repository.save(aggregate);
+    } catch (err) {
+      await this.storage.delete(storageKey).catch(() => undefined);
+      if (thumbnailKey) await this.storage.delete(thumbnailKey).catch(() => undefined);
+      throw err;
+    }
+    return media;
+  }
+}
@@ -1,3 +1,7 @@
+import type { ParentChildType } from '../../domain/relationship';
+import type { GenealogicalDateJSON } from '../../domain/genealogical-date';
+import type { MarriageStatus } from '../../domain/marriage';
+
 /**
  * TreeRenderDTO v1
  *
@@ -10,7 +14,8 @@
  * - No ordering guarantee on arrays.
  *
  * Non-Guarantees:
- * - No derived computations (generation, ancestry, transitive closure).
+ * - No derived computations (generation, ancestry, transitive closure),
+ *   except the grouping of children into families.
  * - No layout coordinates or visual metadata.
  * - Cycles, dangling references, or duplicates may exist and must be handled gracefully.
  */
@@ -42,6 +47,13 @@ export interface TreeRenderDTO {
    * No ordering guarantee. Transitive closure not computed.
    */
   parentChildEdges: RelationshipEdge[];
+
+  /**
+   * Children grouped by the union they belong to: recorded families, and
+   * families inferred from the parent-child edges of children not attached
+   * to one. Omitted when the tree has no families.
+   */
+  families?: RenderedFamily[];
 }
 
 /**
@@ -61,6 +73,19 @@ export interface TreeNode {
    * For presentation only. Must not be used for identity, sorting, or business logic.
    */
   displayName: string;
+
+  /**
+   * Other recorded names and script variants (e.g. Arabic script, kunya, maiden name).
+   * For search matching only. Omitted when the person has no names besides displayName.
+   */
+  altNames?: string[];
+
+  /**
+   * Media id of the person's portrait, whose thumbnail is served at
+   * /public/trees/:treeId/media/:mediaId/thumbnail.
+   * Omitted when the person has no portrait with a thumbnail.
+   */
+  portraitMediaId?: string;
 }
 
 /**
@@ -82,4 +107,44 @@ export interface RelationshipEdge {
    * For parent-child edges: child side of the relationship.
    */
   personBId: string;
+
+  /**
+   * Parent-child edges only: how the parent is related (ADOPTIVE, STEP, FOSTER, GUARDIAN, MILK).
+   * Omitted for biological parents.
+   */
+  subtype?: ParentChildType;
+
+  /**
+   * Spouse edges only: marriage details. Omitted for a first marriage of both
+   * spouses, still in force, with no date or place recorded.
+   */
+  marriage?: RenderedMarriage;
+}
+
+/**
+ * RenderedMarriage v1
+ *
+ * Details of a spouse edge. Orders are each spouse's count of marriages
+ * (1 = first marriage) and follow personAId/personBId.
+ */
+export interface RenderedMarriage {
+  status: MarriageStatus;
+  marriageDate: GenealogicalDateJSON | null;
+  marriagePlace: string | null;
+  divorceDate: GenealogicalDateJSON | null;
+  divorcePlace: string | null;
+  personAOrder: number;
+  personBOrder: number;
+}
+
+/**
+ * RenderedFamily v1
+ *
+ * A couple or single parent and their children, in order. Inferred families
+ * have the parents' ids joined by "~" as id.
+ */
+export interface RenderedFamily {
+  id: string;
+  parentIds: string[];
+  childIds: string[];
 }
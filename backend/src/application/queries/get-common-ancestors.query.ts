@@ -0,0 +1,28 @@
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { CommonAncestor } from '../../domain/pedigree';
+
+export interface GetCommonAncestorsQuery {
+  treeId: string;
+  personIds: string[];
+}
+
+export interface CommonAncestorsResult {
+  personIds: string[];
+  ancestors: (CommonAncestor & { name: string })[];
+}
+
+export class GetCommonAncestorsHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(query: GetCommonAncestorsQuery): Promise<CommonAncestorsResult | null> {
+    const aggregate = await this.repository.findById(query.treeId);
+    if (!aggregate) {
+      return null;
+    }
+    const ancestors = aggregate.getCommonAncestors(query.personIds);
+    return {
+      personIds: [...new Set(query.personIds)],
+      ancestors: ancestors.map((a) => ({ ...a, name: aggregate.getPerson(a.ancestorId)!.name })),
+    };
+  }
+}
@@ -0,0 +1,18 @@
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { FamilyUnit } from '../../domain/family';
+
+export interface GetFamiliesQuery {
+  treeId: string;
+}
+
+export class GetFamiliesHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(query: GetFamiliesQuery): Promise<FamilyUnit[] | null> {
+    const aggregate = await this.repository.findById(query.treeId);
+    if (!aggregate) {
+      return null;
+    }
+    return aggregate.getFamilies();
+  }
+}
@@ -0,0 +1,30 @@
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { ConsanguinityPath, Inbreeding } from '../../domain/consanguinity';
+
+export interface GetInbreedingQuery {
+  treeId: string;
+  personId: string;
+}
+
+export interface InbreedingResult extends Omit<Inbreeding, 'paths'> {
+  paths: (Omit<ConsanguinityPath, 'personIds'> & { path: { personId: string; name: string }[] })[];
+}
+
+export class GetInbreedingHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(query: GetInbreedingQuery): Promise<InbreedingResult | null> {
+    const aggregate = await this.repository.findById(query.treeId);
+    if (!aggregate) {
+      return null;
+    }
+    const inbreeding = aggregate.getInbreeding(query.personId);
+    return {
+      ...inbreeding,
+      paths: inbreeding.paths.map(({ personIds, ...path }) => ({
+        ...path,
+        path: personIds.map((personId) => ({ personId, name: aggregate.getPerson(personId)!.name })),
+      })),
+    };
+  }
+}
@@ -0,0 +1,88 @@
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { GenealogyGraph } from '../../domain/types';
+import { InvariantViolationError, NotFoundError } from '../../domain/errors';
+import {
+  distributeEstate,
+  findHeirs,
+  type EstateDistribution,
+  type FaraidLookup,
+  type HeirShare,
+} from '../../domain/faraid';
+import type { MarriageStatus } from '../../domain/marriage';
+
+export interface GetInheritanceQuery {
+  treeId: string;
+  personId: string; // the deceased
+}
+
+export interface InheritanceResult extends Omit<EstateDistribution, 'heirs'> {
+  deceasedId: string;
+  deceasedName: string;
+  deathDate: string; // as recorded, GEDCOM style
+  heirs: (HeirShare & { name: string })[];
+  genderUnknown: { personId: string; name: string }[];
+  sideUnknown: { personId: string; name: string }[];
+}
+
+/**
+ * Farāʾiḍ shares of a deceased person's estate: the relatives who outlived
+ * them, found from the tree's parent-child and spouse edges and death
+ * dates, and the fraction each inherits.
+ */
+export class GetInheritanceHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(query: GetInheritanceQuery): Promise<InheritanceResult | null> {
+    const aggregate = await this.repository.findById(query.treeId);
+    if (!aggregate) {
+      return null;
+    }
+    const deceased = aggregate.getPerson(query.personId);
+    if (!deceased) {
+      throw new NotFoundError(`person ${query.personId} not found`);
+    }
+    if (!deceased.deathDate) {
+      throw new InvariantViolationError(`person ${query.personId} has no recorded date of death`);
+    }
+
+    const { heirs, genderUnknown, sideUnknown } = findHeirs(
+      this.lookup(aggregate),
+      deceased.personId,
+      deceased.deathDate,
+    );
+    const nameOf = (personId: string) => aggregate.getPerson(personId)!.name;
+    const distribution = distributeEstate(heirs);
+    return {
+      deceasedId: deceased.personId,
+      deceasedName: deceased.name,
+      deathDate: deceased.deathDate.toString(),
+      ...distribution,
+      heirs: distribution.heirs.map((heir) => ({ ...heir, name: nameOf(heir.personId) })),
+      genderUnknown: genderUnknown.map((personId) => ({ personId, name: nameOf(personId) })),
+      sideUnknown: sideUnknown.map((personId) => ({ personId, name: nameOf(personId) })),
+    };
+  }
+
+  private lookup(aggregate: GenealogyGraph): FaraidLookup {
+    const persons = new Map(aggregate.getPersonsSnapshot().map((person) => [person.personId, person]));
+    const parents = new Map<string, string[]>();
+    const children = new Map<string, string[]>();
+    for (const { parentId, childId, type } of aggregate.getParentChildEdgesSnapshot()) {
+      if (type !== 'BIOLOGICAL') continue;
+      parents.set(childId, [...(parents.get(childId) ?? []), parentId]);
+      children.set(parentId, [...(children.get(parentId) ?? []), childId]);
+    }
+    const spouses = new Map<string, { spouseId: string; status: MarriageStatus }[]>();
+    for (const { spouse1Id, spouse2Id, marriage } of aggregate.getSpouseEdgesSnapshot()) {
+      spouses.set(spouse1Id, [...(spouses.get(spouse1Id) ?? []), { spouseId: spouse2Id, status: marriage.status }]);
+      spouses.set(spouse2Id, [...(spouses.get(spouse2Id) ?? []), { spouseId: spouse1Id, status: marriage.status }]);
+    }
+    return {
+      genderOf: (personId) => persons.get(personId)?.gender ?? 'UNKNOWN',
+      deathDateOf: (personId) => persons.get(personId)?.deathDate ?? null,
+      parentsOf: (personId) => parents.get(personId) ?? [],
+      childrenOf: (personId) => children.get(personId) ?? [],
+      spousesOf: (personId) => spouses.get(personId) ?? [],
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { KinPathStep } from '../../domain/kin-path';
+
+export interface GetKinPathQuery {
+  treeId: string;
+  fromId: string;
+  toId: string;
+  includeSpouses: boolean;
+}
+
+export interface KinPathResult {
+  fromId: string;
+  toId: string;
+  includeSpouses: boolean;
+  found: boolean;
+  hops: number | null;
+  path: (KinPathStep & { name: string })[];
+}
+
+export class GetKinPathHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(query: GetKinPathQuery): Promise<KinPathResult | null> {
+    const aggregate = await this.repository.findById(query.treeId);
+    if (!aggregate) {
+      return null;
+    }
+    const { fromId, toId, includeSpouses } = query;
+    const path = aggregate.getKinPath(fromId, toId, { includeSpouses });
+    return {
+      fromId,
+      toId,
+      includeSpouses,
+      found: path !== null,
+      hops: path ? path.length - 1 : null,
+      path: (path ?? []).map((step) => ({ ...step, name: aggregate.getPerson(step.personId)!.name })),
+    };
+  }
+}
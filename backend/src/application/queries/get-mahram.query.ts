@@ -0,0 +1,34 @@
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { KinPathStep } from '../../domain/kin-path';
+import type { Mahram } from '../../domain/mahram';
+
+export interface GetMahramQuery {
+  treeId: string;
+  fromId: string;
+  toId: string;
+}
+
+export interface MahramResult extends Omit<Mahram, 'path'> {
+  fromId: string;
+  toId: string;
+  path: (KinPathStep & { name: string })[];
+}
+
+export class GetMahramHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(query: GetMahramQuery): Promise<MahramResult | null> {
+    const aggregate = await this.repository.findById(query.treeId);
+    if (!aggregate) {
+      return null;
+    }
+    const { fromId, toId } = query;
+    const mahram = aggregate.getMahram(fromId, toId);
+    return {
+      fromId,
+      toId,
+      ...mahram,
+      path: mahram.path.map((step) => ({ ...step, name: aggregate.getPerson(step.personId)!.name })),
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { NotFoundError } from '../../domain/errors';
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { MediaObject } from '../../domain/media';
+import type { MediaStorage } from '../../infrastructure/storage/media-storage';
+
+export interface GetMediaFileQuery {
+  treeId: string;
+  mediaId: string;
+  variant: 'original' | 'thumbnail';
+}
+
+export interface MediaFile {
+  media: MediaObject;
+  data: Buffer;
+  mimeType: string; // thumbnails are JPEG whatever the original
+}
+
+export class GetMediaFileHandler {
+  constructor(
+    private readonly repository: GenealogyGraphRepository,
+    private readonly storage: MediaStorage,
+  ) {}
+
+  async execute(query: GetMediaFileQuery): Promise<MediaFile | null> {
+    const aggregate = await this.repository.findById(query.treeId);
+    if (!aggregate) {
+      return null;
+    }
+    const media = aggregate.getMedia(query.mediaId);
+    if (!media) {
+      throw new NotFoundError(`media ${query.mediaId} not found`);
+    }
+
+    const key = query.variant === 'thumbnail' ? media.thumbnailKey : media.storageKey;
+    const data = key ? await this.storage.get(key) : null;
+    if (!data) {
+      throw new NotFoundError(`media ${query.mediaId} has no ${query.variant === 'thumbnail' ? 'thumbnail' : 'stored file'}`);
+    }
+    return { media, data, mimeType: query.variant === 'thumbnail' ? 'image/jpeg' : media.mimeType };
+  }
+}
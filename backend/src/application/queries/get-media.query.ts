@@ -0,0 +1,19 @@
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { MediaObject } from '../../domain/media';
+
+export interface GetMediaQuery {
+  treeId: string;
+  personId?: string; // only the files showing this person or their events
+}
+
+export class GetMediaHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(query: GetMediaQuery): Promise<MediaObject[] | null> {
+    const aggregate = await this.repository.findById(query.treeId);
+    if (!aggregate) {
+      return null;
+    }
+    return query.personId ? aggregate.getPersonMedia(query.personId) : aggregate.getMediaObjects();
+  }
+}
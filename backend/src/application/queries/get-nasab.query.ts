@@ -0,0 +1,27 @@
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import { renderNasab, type NasabChain, type NasabStyle } from '../../domain/nasab';
+
+export interface GetNasabQuery {
+  treeId: string;
+  personId: string;
+  depth: number;
+  style: NasabStyle;
+}
+
+export interface NasabResult extends NasabChain {
+  style: NasabStyle;
+  text: string;
+}
+
+export class GetNasabHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(query: GetNasabQuery): Promise<NasabResult | null> {
+    const aggregate = await this.repository.findById(query.treeId);
+    if (!aggregate) {
+      return null;
+    }
+    const chain = aggregate.getNasab(query.personId, query.depth);
+    return { ...chain, style: query.style, text: renderNasab(chain, query.style) };
+  }
+}
@@ -0,0 +1,27 @@
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { AncestorLines, PedigreeCollapse } from '../../domain/pedigree';
+
+export interface GetPedigreeCollapseQuery {
+  treeId: string;
+  personId: string;
+}
+
+export interface PedigreeCollapseResult extends Omit<PedigreeCollapse, 'repeated'> {
+  repeated: (AncestorLines & { name: string })[];
+}
+
+export class GetPedigreeCollapseHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(query: GetPedigreeCollapseQuery): Promise<PedigreeCollapseResult | null> {
+    const aggregate = await this.repository.findById(query.treeId);
+    if (!aggregate) {
+      return null;
+    }
+    const collapse = aggregate.getPedigreeCollapse(query.personId);
+    return {
+      ...collapse,
+      repeated: collapse.repeated.map((line) => ({ ...line, name: aggregate.getPerson(line.ancestorId)!.name })),
+    };
+  }
+}
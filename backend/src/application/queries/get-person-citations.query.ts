@@ -0,0 +1,19 @@
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { Citation } from '../../domain/citation';
+
+export interface GetPersonCitationsQuery {
+  treeId: string;
+  personId: string;
+}
+
+export class GetPersonCitationsHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(query: GetPersonCitationsQuery): Promise<Citation[] | null> {
+    const aggregate = await this.repository.findById(query.treeId);
+    if (!aggregate) {
+      return null;
+    }
+    return aggregate.getPersonCitations(query.personId);
+  }
+}
@@ -0,0 +1,19 @@
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { LifeEvent } from '../../domain/life-event';
+
+export interface GetPersonEventsQuery {
+  treeId: string;
+  personId: string;
+}
+
+export class GetPersonEventsHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(query: GetPersonEventsQuery): Promise<LifeEvent[] | null> {
+    const aggregate = await this.repository.findById(query.treeId);
+    if (!aggregate) {
+      return null;
+    }
+    return aggregate.getPersonEvents(query.personId);
+  }
+}
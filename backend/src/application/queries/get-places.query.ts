@@ -0,0 +1,41 @@
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { GenealogyGraph } from '../../domain/types';
+import type { Place, PlaceJSON } from '../../domain/place';
+
+export interface GetPlacesQuery {
+  treeId: string;
+}
+
+/**
+ * A gazetteer entry with its full name ("Tarim, Hadramaut, Yemen") and the
+ * number of persons born or with an event there, and there or below.
+ */
+export interface PlaceWithUsage extends PlaceJSON {
+  fullName: string;
+  personCount: number;
+  totalPersonCount: number;
+}
+
+export function placeWithUsage(aggregate: GenealogyGraph, place: Place): PlaceWithUsage {
+  return {
+    ...place.toJSON(),
+    fullName: aggregate.getPlaceFullName(place.placeId),
+    personCount: aggregate.getPlacePersonIds(place.placeId).length,
+    totalPersonCount: aggregate.getPlacePersonIds(place.placeId, true).length,
+  };
+}
+
+export class GetPlacesHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(query: GetPlacesQuery): Promise<PlaceWithUsage[] | null> {
+    const aggregate = await this.repository.findById(query.treeId);
+    if (!aggregate) {
+      return null;
+    }
+    return aggregate
+      .getPlaces()
+      .map((place) => placeWithUsage(aggregate, place))
+      .sort((a, b) => a.fullName.localeCompare(b.fullName));
+  }
+}
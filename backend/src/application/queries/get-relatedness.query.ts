@@ -0,0 +1,31 @@
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { ConsanguinityPath, Relatedness } from '../../domain/consanguinity';
+
+export interface GetRelatednessQuery {
+  treeId: string;
+  fromId: string;
+  toId: string;
+}
+
+export interface RelatednessResult extends Omit<Relatedness, 'paths'> {
+  paths: (Omit<ConsanguinityPath, 'personIds'> & { path: { personId: string; name: string }[] })[];
+}
+
+export class GetRelatednessHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(query: GetRelatednessQuery): Promise<RelatednessResult | null> {
+    const aggregate = await this.repository.findById(query.treeId);
+    if (!aggregate) {
+      return null;
+    }
+    const relatedness = aggregate.getRelatedness(query.fromId, query.toId);
+    return {
+      ...relatedness,
+      paths: relatedness.paths.map(({ personIds, ...path }) => ({
+        ...path,
+        path: personIds.map((personId) => ({ personId, name: aggregate.getPerson(personId)!.name })),
+      })),
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { Kinship, KinshipStep } from '../../domain/kinship';
+import type { KinLocale } from '../../domain/kin-terms';
+
+export interface GetRelationshipQuery {
+  treeId: string;
+  fromId: string;
+  toId: string;
+  locale?: KinLocale;
+}
+
+export interface RelationshipResult extends Omit<Kinship, 'path'> {
+  path: (KinshipStep & { name: string })[];
+}
+
+export class GetRelationshipHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(query: GetRelationshipQuery): Promise<RelationshipResult | null> {
+    const aggregate = await this.repository.findById(query.treeId);
+    if (!aggregate) {
+      return null;
+    }
+    const kinship = aggregate.getKinship(query.fromId, query.toId, query.locale);
+    return {
+      ...kinship,
+      path: kinship.path.map((step) => ({ ...step, name: aggregate.getPerson(step.personId)!.name })),
+    };
+  }
+}
@@ -0,0 +1,19 @@
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { Siblings } from '../../domain/family';
+
+export interface GetSiblingsQuery {
+  treeId: string;
+  personId: string;
+}
+
+export class GetSiblingsHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(query: GetSiblingsQuery): Promise<Siblings | null> {
+    const aggregate = await this.repository.findById(query.treeId);
+    if (!aggregate) {
+      return null;
+    }
+    return aggregate.getSiblings(query.personId);
+  }
+}
@@ -0,0 +1,18 @@
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { Source } from '../../domain/source';
+
+export interface GetSourcesQuery {
+  treeId: string;
+}
+
+export class GetSourcesHandler {
+  constructor(private readonly repository: GenealogyGraphRepository) {}
+
+  async execute(query: GetSourcesQuery): Promise<Source[] | null> {
+    const aggregate = await this.repository.findById(query.treeId);
+    if (!aggregate) {
+      return null;
+    }
+    return aggregate.getSources();
+  }
+}
@@ -0,0 +1,83 @@
+import type { GenealogyGraphRepository } from '../../infrastructure/repositories/genealogy-graph.repository';
+import type { GenealogyGraph, GenealogyGraphFactory } from '../../domain/types';
+import type { DuplicateHandling } from '../../domain/tree-json-import';
+import { readImportFile, type TreeImportPreview } from '../commands/import-tree.command';
+
+export interface PreviewTreeImportQuery {
+  fileName: string;
+  data: Buffer;
+  targetTreeId?: string | null; // checked against this tree; a new tree when omitted
+  handleDuplicates?: DuplicateHandling; // default skip
+}
+
+// Id of the scratch tree a file is read into when no target is given
+const PREVIEW_TREE_ID = 'import-preview';
+
+/**
+ * What importing a file would do, without saving anything: the file is
+ * read into a scratch copy of the target tree (or an empty tree) through
+ * the same checks as the import itself.
+ */
+export class PreviewTreeImportHandler {
+  constructor(
+    private readonly repository: GenealogyGraphRepository,
+    private readonly factory: GenealogyGraphFactory,
+  ) {}
+
+  async execute(query: PreviewTreeImportQuery): Promise<TreeImportPreview | null> {
+    let tree: GenealogyGraph | null = this.factory.create(PREVIEW_TREE_ID);
+    if (query.targetTreeId) {
+      tree = await this.repository.findById(query.targetTreeId);
+      if (!tree) {
+        return null;
+      }
+    }
+
+    const report = readImportFile(query.fileName, query.data, tree, query.handleDuplicates);
+    const imported = new Set(report.personIds);
+    const persons = report.personIds.map((personId) => {
+      const person = tree!.getPerson(personId)!;
+      return {
+        id: person.personId,
+        name: person.name,
+        gender: person.gender,
+        ...(person.birthDate ? { birthDate: person.birthDate.toString() } : {}),
+        ...(person.deathDate ? { deathDate: person.deathDate.toString() } : {}),
+        ...(person.birthPlace ? { birthPlace: person.birthPlace } : {}),
+      };
+    });
+    // Relationships with an added person at either end; those between
+    // persons already in the tree are left out
+    const relationships = [
+      ...tree
+        .getParentChildEdgesSnapshot()
+        .filter(({ parentId, childId }) => imported.has(parentId) || imported.has(childId))
+        .map(({ parentId, childId }) => ({ type: 'parent-child' as const, personAId: parentId, personBId: childId })),
+      ...tree
+        .getSpouseEdgesSnapshot()
+        .filter(({ spouse1Id, spouse2Id }) => imported.has(spouse1Id) || imported.has(spouse2Id))
+        .map(({ spouse1Id, spouse2Id }) => ({ type: 'spouse' as const, personAId: spouse1Id, personBId: spouse2Id })),
+    ];
+
+    return {
+      data: {
+        version: '1.0',
+        tree: { id: query.targetTreeId ?? '', name: report.treeName ?? query.fileName.replace(/\.[^.]*$/, '') },
+        persons,
+        relationships,
+      },
+      validation: {
+        valid: report.errors.length === 0,
+        errors: report.errors,
+        warnings: report.warnings,
+        summary: {
+          personCount: persons.length,
+          relationshipCount: relationships.length,
+          duplicateCount: report.duplicates.length,
+          conflictCount: report.errors.length,
+        },
+      },
+      existingDuplicates: report.duplicates,
+    };
+  }
+}
@@ -7,37 +7,132 @@ import {
   InvariantViolationError,
 } from '../../domain/errors';
 import type { AuditLogRepository, GenealogyGraphRepository } from '../../infrastructure/repositories';
+import type { MediaStorage } from '../../infrastructure/storage';
+import { createZipArchive } from '../../infrastructure/storage/zip-archive';
 import { AuditAction } from '../../domain/constants/audit-actions';
+import { GenealogicalDate } from '../../domain/genealogical-date';
+import { PersonName } from '../../domain/person-name';
+import type { ParentChildType } from '../../domain/relationship';
+import { Marriage, type StoredMarriage } from '../../domain/marriage';
+import { resolveFamilies, type StoredFamily } from '../../domain/family';
+import { Source } from '../../domain/source';
+import { Citation, citationTargetPersons, type CitationTarget } from '../../domain/citation';
+import { MediaObject, type MediaLink, type StoredMedia } from '../../domain/media';
+import type { GedcomVersion } from '../../domain/gedcom-writer';
+import { exportGedcom } from '../../domain/gedcom-export';
+import { Place } from '../../domain/place';
 import { CreateFamilyTreeHandler, type CreateFamilyTreeCommand } from '../commands/create-family-tree.command';
 import { AddPersonToTreeHandler, type AddPersonToTreeCommand } from '../commands/add-person-to-tree.command';
 import { EstablishParentChildHandler, type EstablishParentChildCommand } from '../commands/establish-parent-child.command';
 import { EstablishSpouseHandler, type EstablishSpouseCommand } from '../commands/establish-spouse.command';
+import { UpdatePersonHandler, type UpdatePersonCommand } from '../commands/update-person.command';
+import { UpdateSpouseHandler, type UpdateSpouseCommand } from '../commands/update-spouse.command';
+import { CreateFamilyHandler, type CreateFamilyCommand } from '../commands/create-family.command';
+import { AddChildToFamilyHandler, type AddChildToFamilyCommand } from '../commands/add-child-to-family.command';
+import { AddPersonEventHandler, type AddPersonEventCommand } from '../commands/add-person-event.command';
+import { UpdatePersonEventHandler, type UpdatePersonEventCommand } from '../commands/update-person-event.command';
+import { RemovePersonEventHandler, type RemovePersonEventCommand } from '../commands/remove-person-event.command';
+import { CreateSourceHandler, type CreateSourceCommand } from '../commands/create-source.command';
+import { UpdateSourceHandler, type UpdateSourceCommand } from '../commands/update-source.command';
+import { RemoveSourceHandler, type RemoveSourceCommand } from '../commands/remove-source.command';
+import { AddCitationHandler, type AddCitationCommand } from '../commands/add-citation.command';
+import { UpdateCitationHandler, type UpdateCitationCommand } from '../commands/update-citation.command';
+import { RemoveCitationHandler, type RemoveCitationCommand } from '../commands/remove-citation.command';
+import { UploadMediaHandler, type UploadMediaCommand } from '../commands/upload-media.command';
+import { UpdateMediaHandler, type UpdateMediaCommand } from '../commands/update-media.command';
+import { RemoveMediaHandler, type RemoveMediaCommand } from '../commands/remove-media.command';
+import { CreatePlaceHandler, type CreatePlaceCommand } from '../commands/create-place.command';
+import { UpdatePlaceHandler, type UpdatePlaceCommand } from '../commands/update-place.command';
+import { RenamePlaceHandler, type RenamePlaceCommand } from '../commands/rename-place.command';
+import { MergePlacesHandler, type MergePlacesCommand } from '../commands/merge-places.command';
+import { RemovePlaceHandler, type RemovePlaceCommand } from '../commands/remove-place.command';
 import { RemoveRelationshipHandler, type RemoveRelationshipCommand } from '../commands/remove-relationship.command';
 import { RemovePersonHandler, type RemovePersonCommand } from '../commands/remove-person.command';
 import { ImportPersonsHandler } from '../commands/import-persons.handler';
 import { type ImportPersonsCommand, type ImportPersonsResult } from '../commands/import-persons.command';
+import { ImportTreeHandler } from '../commands/import-tree.handler';
+import { type ImportTreeCommand, type ImportTreeResult, type TreeImportPreview } from '../commands/import-tree.command';
 import { GetPersonHandler, type GetPersonQuery } from '../queries/get-person.query';
 import { GetAncestorsHandler, type GetAncestorsQuery } from '../queries/get-ancestors.query';
 import { GetDescendantsHandler, type GetDescendantsQuery } from '../queries/get-descendants.query';
+import { GetNasabHandler, type GetNasabQuery } from '../queries/get-nasab.query';
+import { GetPersonEventsHandler, type GetPersonEventsQuery } from '../queries/get-person-events.query';
+import { GetSourcesHandler, type GetSourcesQuery } from '../queries/get-sources.query';
+import { GetPersonCitationsHandler, type GetPersonCitationsQuery } from '../queries/get-person-citations.query';
+import { GetMediaHandler, type GetMediaQuery } from '../queries/get-media.query';
+import { GetMediaFileHandler, type GetMediaFileQuery } from '../queries/get-media-file.query';
+import { GetPlacesHandler, type GetPlacesQuery } from '../queries/get-places.query';
+import { GetFamiliesHandler, type GetFamiliesQuery } from '../queries/get-families.query';
+import { GetSiblingsHandler, type GetSiblingsQuery } from '../queries/get-siblings.query';
+import { GetRelationshipHandler, type GetRelationshipQuery } from '../queries/get-relationship.query';
+import { GetKinPathHandler, type GetKinPathQuery } from '../queries/get-kin-path.query';
+import { GetMahramHandler, type GetMahramQuery } from '../queries/get-mahram.query';
+import { GetInheritanceHandler, type GetInheritanceQuery } from '../queries/get-inheritance.query';
+import { GetCommonAncestorsHandler, type GetCommonAncestorsQuery } from '../queries/get-common-ancestors.query';
+import { GetPedigreeCollapseHandler, type GetPedigreeCollapseQuery } from '../queries/get-pedigree-collapse.query';
+import { GetRelatednessHandler, type GetRelatednessQuery } from '../queries/get-relatedness.query';
+import { GetInbreedingHandler, type GetInbreedingQuery } from '../queries/get-inbreeding.query';
 import { RenderGenealogyTreeHandler, type RenderGenealogyTreeQuery } from '../queries/render-genealogy-tree.query';
-import type { TreeRenderDTO } from '../dtos/tree-render.dto';
+import { PreviewTreeImportHandler, type PreviewTreeImportQuery } from '../queries/preview-tree-import.query';
+import type { RenderedFamily, RenderedMarriage, TreeNode, TreeRenderDTO } from '../dtos/tree-render.dto';
 import type { TreeListItemDTO, TreeListResponseDTO } from '../dtos/tree-list.dto';
 
 export class GenealogyApplicationService {
   private readonly createFamilyTree: CreateFamilyTreeHandler;
   private readonly addPersonToTree: AddPersonToTreeHandler;
+  private readonly updatePerson: UpdatePersonHandler;
   private readonly establishParentChild: EstablishParentChildHandler;
   private readonly establishSpouse: EstablishSpouseHandler;
+  private readonly updateSpouse: UpdateSpouseHandler;
+  private readonly createFamily: CreateFamilyHandler;
+  private readonly addChildToFamily: AddChildToFamilyHandler;
+  private readonly addPersonEvent: AddPersonEventHandler;
+  private readonly updatePersonEvent: UpdatePersonEventHandler;
+  private readonly removePersonEvent: RemovePersonEventHandler;
+  private readonly createSource: CreateSourceHandler;
+  private readonly updateSource: UpdateSourceHandler;
+  private readonly removeSource: RemoveSourceHandler;
+  private readonly addCitation: AddCitationHandler;
+  private readonly updateCitation: UpdateCitationHandler;
+  private readonly removeCitation: RemoveCitationHandler;
+  private readonly uploadMedia?: UploadMediaHandler;
+  private readonly updateMedia: UpdateMediaHandler;
+  private readonly removeMedia?: RemoveMediaHandler;
+  private readonly createPlace: CreatePlaceHandler;
+  private readonly updatePlace: UpdatePlaceHandler;
+  private readonly renamePlace: RenamePlaceHandler;
+  private readonly mergePlaces: MergePlacesHandler;
+  private readonly removePlace: RemovePlaceHandler;
   private readonly removeRelationship: RemoveRelationshipHandler;
   private readonly removePerson: RemovePersonHandler;
   private readonly importPersons: ImportPersonsHandler;
+  private readonly importTree: ImportTreeHandler;
   private readonly getPerson: GetPersonHandler;
   private readonly getAncestors: GetAncestorsHandler;
   private readonly getDescendants: GetDescendantsHandler;
+  private readonly getNasab: GetNasabHandler;
+  private readonly getPersonEvents: GetPersonEventsHandler;
+  private readonly getSources: GetSourcesHandler;
+  private readonly getPersonCitations: GetPersonCitationsHandler;
+  private readonly getMedia: GetMediaHandler;
+  private readonly getMediaFile?: GetMediaFileHandler;
+  private readonly getPlaces: GetPlacesHandler;
+  private readonly getFamilies: GetFamiliesHandler;
+  private readonly getSiblings: GetSiblingsHandler;
+  private readonly getRelationship: GetRelationshipHandler;
+  private readonly getKinPath: GetKinPathHandler;
+  private readonly getMahram: GetMahramHandler;
+  private readonly getInheritance: GetInheritanceHandler;
+  private readonly getCommonAncestors: GetCommonAncestorsHandler;
+  private readonly getPedigreeCollapse: GetPedigreeCollapseHandler;
+  private readonly getRelatedness: GetRelatednessHandler;
+  private readonly getInbreeding: GetInbreedingHandler;
   private readonly renderTree: RenderGenealogyTreeHandler;
+  private readonly previewTreeImport: PreviewTreeImportHandler;
   private readonly repository: GenealogyGraphRepository;
   private readonly readRepository: GenealogyGraphRepository;
   private readonly auditLogRepository?: AuditLogRepository;
+  private readonly mediaStorage?: MediaStorage;
   private userContext?: UserContext;
   private readonly requiresAuth: boolean;
 
@@ -47,21 +142,64 @@ export class GenealogyApplicationService {
     requiresAuth: boolean = false,
     auditLogRepository?: AuditLogRepository,
     readRepository?: GenealogyGraphRepository,
+    mediaStorage?: MediaStorage,
   ) {
     this.repository = repository;
     this.readRepository = readRepository ?? repository;
     this.auditLogRepository = auditLogRepository;
+    this.mediaStorage = mediaStorage;
     this.createFamilyTree = new CreateFamilyTreeHandler(repository, factory);
     this.addPersonToTree = new AddPersonToTreeHandler(repository);
+    this.updatePerson = new UpdatePersonHandler(repository);
     this.establishParentChild = new EstablishParentChildHandler(repository);
     this.establishSpouse = new EstablishSpouseHandler(repository);
+    this.updateSpouse = new UpdateSpouseHandler(repository);
+    this.createFamily = new CreateFamilyHandler(repository);
+    this.addChildToFamily = new AddChildToFamilyHandler(repository);
+    this.addPersonEvent = new AddPersonEventHandler(repository);
+    this.updatePersonEvent = new UpdatePersonEventHandler(repository);
+    this.removePersonEvent = new RemovePersonEventHandler(repository);
+    this.createSource = new CreateSourceHandler(repository);
+    this.updateSource = new UpdateSourceHandler(repository);
+    this.removeSource = new RemoveSourceHandler(repository);
+    this.addCitation = new AddCitationHandler(repository);
+    this.updateCitation = new UpdateCitationHandler(repository);
+    this.removeCitation = new RemoveCitationHandler(repository);
+    // Uploading, removing and reading files need a media storage
+    this.uploadMedia = mediaStorage && new UploadMediaHandler(repository, mediaStorage);
+    this.updateMedia = new UpdateMediaHandler(repository);
+    this.removeMedia = mediaStorage && new RemoveMediaHandler(repository, mediaStorage);
+    this.createPlace = new CreatePlaceHandler(repository);
+    this.updatePlace = new UpdatePlaceHandler(repository);
+    this.renamePlace = new RenamePlaceHandler(repository);
+    this.mergePlaces = new MergePlacesHandler(repository);
+    this.removePlace = new RemovePlaceHandler(repository);
     this.removeRelationship = new RemoveRelationshipHandler(repository);
     this.removePerson = new RemovePersonHandler(repository);
     this.importPersons = new ImportPersonsHandler(repository);
+    this.importTree = new ImportTreeHandler(repository, factory);
     this.getPerson = new GetPersonHandler(this.readRepository);
     this.getAncestors = new GetAncestorsHandler(this.readRepository);
     this.getDescendants = new GetDescendantsHandler(this.readRepository);
+    this.getNasab = new GetNasabHandler(this.readRepository);
+    this.getPersonEvents = new GetPersonEventsHandler(this.readRepository);
+    this.getSources = new GetSourcesHandler(this.readRepository);
+    this.getPersonCitations = new GetPersonCitationsHandler(this.readRepository);
+    this.getMedia = new GetMediaHandler(this.readRepository);
+    this.getMediaFile = mediaStorage && new GetMediaFileHandler(this.readRepository, mediaStorage);
+    this.getPlaces = new GetPlacesHandler(this.readRepository);
+    this.getFamilies = new GetFamiliesHandler(this.readRepository);
+    this.getSiblings = new GetSiblingsHandler(this.readRepository);
+    this.getRelationship = new GetRelationshipHandler(this.readRepository);
+    this.getKinPath = new GetKinPathHandler(this.readRepository);
+    this.getMahram = new GetMahramHandler(this.readRepository);
+    this.getInheritance = new GetInheritanceHandler(this.readRepository);
+    this.getCommonAncestors = new GetCommonAncestorsHandler(this.readRepository);
+    this.getPedigreeCollapse = new GetPedigreeCollapseHandler(this.readRepository);
+    this.getRelatedness = new GetRelatednessHandler(this.readRepository);
+    this.getInbreeding = new GetInbreedingHandler(this.readRepository);
     this.renderTree = new RenderGenealogyTreeHandler(this.readRepository);
+    this.previewTreeImport = new PreviewTreeImportHandler(this.readRepository, factory);
     this.requiresAuth = requiresAuth;
   }
 
@@ -174,13 +312,46 @@ export class GenealogyApplicationService {
     return result;
   }
 
+  async handleUpdatePerson(cmd: UpdatePersonCommand) {
+    this.requireMutation();
+    const { before, after } = await this.updatePerson.execute(cmd);
+
+    // Record only the fields that actually changed, with their previous and new values
+    const changedBefore: Record<string, unknown> = {};
+    const changedAfter: Record<string, unknown> = {};
+    for (const field of ['name', 'names', 'gender', 'birthDate', 'birthPlace', 'birthPlaceId', 'deathDate'] as const) {
+      const prev = this.toAuditValue(before[field]);
+      const next = this.toAuditValue(after[field]);
+      if (prev !== next) {
+        changedBefore[field] = prev;
+        changedAfter[field] = next;
+      }
+    }
+
+    // An update that changed nothing leaves no entry
+    if (Object.keys(changedBefore).length > 0) {
+      await this.appendAudit(AuditAction.UPDATE_PERSON, cmd.treeId, {
+        personId: cmd.personId,
+        details: { before: changedBefore, after: changedAfter },
+      });
+    }
+    return after;
+  }
+
+  private toAuditValue(value: unknown): string | null {
+    if (value === undefined || value === null) return null;
+    if (Array.isArray(value)) return value.length > 0 ? value.map((v) => this.toAuditValue(v)).join('; ') : null;
+    if (value instanceof GenealogicalDate) return value.toGedcom();
+    return String(value);
+  }
+
   async handleEstablishParentChild(cmd: EstablishParentChildCommand) {
     this.requireMutation();
     const result = await this.establishParentChild.execute(cmd);
     await this.appendAudit(AuditAction.ESTABLISH_PARENT_CHILD, cmd.treeId, {
       personId: cmd.childId,
       personIds: [cmd.parentId, cmd.childId],
-      details: { parentId: cmd.parentId, childId: cmd.childId },
+      details: { parentId: cmd.parentId, childId: cmd.childId, type: cmd.type ?? 'BIOLOGICAL' },
     });
     return result;
   }
@@ -190,11 +361,340 @@ export class GenealogyApplicationService {
     const result = await this.establishSpouse.execute(cmd);
     await this.appendAudit(AuditAction.ESTABLISH_SPOUSE, cmd.treeId, {
       personIds: [cmd.spouseAId, cmd.spouseBId],
-      details: { spouseAId: cmd.spouseAId, spouseBId: cmd.spouseBId },
+      details: {
+        spouseAId: cmd.spouseAId,
+        spouseBId: cmd.spouseBId,
+        status: cmd.marriage?.status ?? 'MARRIED',
+        marriageDate: this.toAuditValue(cmd.marriage?.marriageDate),
+      },
     });
     return result;
   }
 
+  async handleUpdateSpouse(cmd: UpdateSpouseCommand) {
+    this.requireMutation();
+    const { spouse1Id, spouse2Id, before, after } = await this.updateSpouse.execute(cmd);
+
+    // Record only the fields that actually changed, with their previous and new values
+    const changedBefore: Record<string, unknown> = {};
+    const changedAfter: Record<string, unknown> = {};
+    for (const field of [
+      'status',
+      'marriageDate',
+      'marriagePlace',
+      'divorceDate',
+      'divorcePlace',
+      'spouse1Order',
+      'spouse2Order',
+    ] as const) {
+      const prev = this.toAuditValue(before[field]);
+      const next = this.toAuditValue(after[field]);
+      if (prev !== next) {
+        changedBefore[field] = prev;
+        changedAfter[field] = next;
+      }
+    }
+
+    await this.appendAudit(AuditAction.UPDATE_SPOUSE, cmd.treeId, {
+      personIds: [spouse1Id, spouse2Id],
+      details: { spouse1Id, spouse2Id, before: changedBefore, after: changedAfter },
+    });
+    return { spouse1Id, spouse2Id, marriage: after };
+  }
+
+  async handleCreateFamily(cmd: CreateFamilyCommand) {
+    this.requireMutation();
+    const familyId = await this.createFamily.execute(cmd);
+    await this.appendAudit(AuditAction.CREATE_FAMILY, cmd.treeId, {
+      personIds: cmd.parent2Id ? [cmd.parent1Id, cmd.parent2Id] : [cmd.parent1Id],
+      details: { familyId, parent1Id: cmd.parent1Id, parent2Id: cmd.parent2Id ?? null },
+    });
+    return familyId;
+  }
+
+  async handleAddChildToFamily(cmd: AddChildToFamilyCommand) {
+    this.requireMutation();
+    const family = await this.addChildToFamily.execute(cmd);
+    await this.appendAudit(AuditAction.ADD_CHILD_TO_FAMILY, cmd.treeId, {
+      personId: cmd.childId,
+      personIds: [...family.parentIds, cmd.childId],
+      details: { familyId: cmd.familyId, childId: cmd.childId, type: cmd.type ?? 'BIOLOGICAL' },
+    });
+    return family;
+  }
+
+  async handleAddPersonEvent(cmd: AddPersonEventCommand) {
+    this.requireMutation();
+    const event = await this.addPersonEvent.execute(cmd);
+    await this.appendAudit(AuditAction.ADD_PERSON_EVENT, cmd.treeId, {
+      personId: cmd.personId,
+      details: { eventId: event.eventId, type: event.type, date: this.toAuditValue(event.date) },
+    });
+    return event;
+  }
+
+  async handleUpdatePersonEvent(cmd: UpdatePersonEventCommand) {
+    this.requireMutation();
+    const { before, after } = await this.updatePersonEvent.execute(cmd);
+
+    // Record only the fields that actually changed, with their previous and new values
+    const changedBefore: Record<string, unknown> = {};
+    const changedAfter: Record<string, unknown> = {};
+    for (const field of ['type', 'customType', 'date', 'place', 'placeId', 'description'] as const) {
+      const prev = this.toAuditValue(before[field]);
+      const next = this.toAuditValue(after[field]);
+      if (prev !== next) {
+        changedBefore[field] = prev;
+        changedAfter[field] = next;
+      }
+    }
+
+    await this.appendAudit(AuditAction.UPDATE_PERSON_EVENT, cmd.treeId, {
+      personId: cmd.personId,
+      details: { eventId: cmd.eventId, before: changedBefore, after: changedAfter },
+    });
+    return after;
+  }
+
+  async handleRemovePersonEvent(cmd: RemovePersonEventCommand) {
+    this.requireMutation();
+    const removed = await this.removePersonEvent.execute(cmd);
+    await this.appendAudit(AuditAction.REMOVE_PERSON_EVENT, cmd.treeId, {
+      personId: cmd.personId,
+      details: { eventId: removed.eventId, type: removed.type, date: this.toAuditValue(removed.date) },
+    });
+    return removed;
+  }
+
+  async handleCreateSource(cmd: CreateSourceCommand) {
+    this.requireMutation();
+    const source = await this.createSource.execute(cmd);
+    await this.appendAudit(AuditAction.CREATE_SOURCE, cmd.treeId, {
+      details: { sourceId: source.sourceId, title: source.title },
+    });
+    return source;
+  }
+
+  async handleUpdateSource(cmd: UpdateSourceCommand) {
+    this.requireMutation();
+    const { before, after } = await this.updateSource.execute(cmd);
+
+    // Record only the fields that actually changed, with their previous and new values
+    const changedBefore: Record<string, unknown> = {};
+    const changedAfter: Record<string, unknown> = {};
+    for (const field of ['title', 'author', 'repository', 'reference'] as const) {
+      const prev = this.toAuditValue(before[field]);
+      const next = this.toAuditValue(after[field]);
+      if (prev !== next) {
+        changedBefore[field] = prev;
+        changedAfter[field] = next;
+      }
+    }
+
+    await this.appendAudit(AuditAction.UPDATE_SOURCE, cmd.treeId, {
+      details: { sourceId: cmd.sourceId, before: changedBefore, after: changedAfter },
+    });
+    return after;
+  }
+
+  async handleRemoveSource(cmd: RemoveSourceCommand) {
+    this.requireMutation();
+    const removed = await this.removeSource.execute(cmd);
+    await this.appendAudit(AuditAction.REMOVE_SOURCE, cmd.treeId, {
+      details: { sourceId: removed.sourceId, title: removed.title },
+    });
+    return removed;
+  }
+
+  async handleAddCitation(cmd: AddCitationCommand) {
+    this.requireMutation();
+    const citation = await this.addCitation.execute(cmd);
+    await this.appendAudit(AuditAction.ADD_CITATION, cmd.treeId, this.citationAuditTarget(citation.target, {
+      citationId: citation.citationId,
+      sourceId: citation.sourceId,
+      target: citation.targetKey,
+      page: citation.page,
+    }));
+    return citation;
+  }
+
+  async handleUpdateCitation(cmd: UpdateCitationCommand) {
+    this.requireMutation();
+    const { before, after } = await this.updateCitation.execute(cmd);
+
+    // Record only the fields that actually changed, with their previous and new values
+    const changedBefore: Record<string, unknown> = {};
+    const changedAfter: Record<string, unknown> = {};
+    for (const field of ['page', 'quality', 'transcription'] as const) {
+      const prev = this.toAuditValue(before[field]);
+      const next = this.toAuditValue(after[field]);
+      if (prev !== next) {
+        changedBefore[field] = prev;
+        changedAfter[field] = next;
+      }
+    }
+
+    await this.appendAudit(AuditAction.UPDATE_CITATION, cmd.treeId, this.citationAuditTarget(after.target, {
+      citationId: cmd.citationId,
+      before: changedBefore,
+      after: changedAfter,
+    }));
+    return after;
+  }
+
+  async handleRemoveCitation(cmd: RemoveCitationCommand) {
+    this.requireMutation();
+    const removed = await this.removeCitation.execute(cmd);
+    await this.appendAudit(AuditAction.REMOVE_CITATION, cmd.treeId, this.citationAuditTarget(removed.target, {
+      citationId: removed.citationId,
+      sourceId: removed.sourceId,
+      target: removed.targetKey,
+    }));
+    return removed;
+  }
+
+  /**
+   * Citations show in the history of every person involved in the cited
+   * fact; person and event citations belong to that person.
+   */
+  private citationAuditTarget(target: CitationTarget, details: Record<string, unknown>) {
+    const personIds = citationTargetPersons(target);
+    return personIds.length === 1 ? { personId: personIds[0], details } : { personIds, details };
+  }
+
+  async handleUploadMedia(cmd: UploadMediaCommand) {
+    this.requireMutation();
+    const media = await this.requireMediaStorage(this.uploadMedia).execute(cmd);
+    await this.appendAudit(AuditAction.ADD_MEDIA, cmd.treeId, this.mediaAuditTarget(media, {
+      mediaId: media.mediaId,
+      fileName: media.fileName,
+      mimeType: media.mimeType,
+      size: media.size,
+    }));
+    return media;
+  }
+
+  async handleUpdateMedia(cmd: UpdateMediaCommand) {
+    this.requireMutation();
+    const { before, after } = await this.updateMedia.execute(cmd);
+
+    // Record only the fields that actually changed, with their previous and new values
+    const changedBefore: Record<string, unknown> = {};
+    const changedAfter: Record<string, unknown> = {};
+    for (const field of ['caption', 'date', 'links'] as const) {
+      const prev = field === 'links' ? this.mediaLinksAuditValue(before.links) : this.toAuditValue(before[field]);
+      const next = field === 'links' ? this.mediaLinksAuditValue(after.links) : this.toAuditValue(after[field]);
+      if (prev !== next) {
+        changedBefore[field] = prev;
+        changedAfter[field] = next;
+      }
+    }
+
+    // Persons unlinked by the update see it in their history too
+    const personIds = Array.from(new Set([...before.links, ...after.links].map((l) => l.personId)));
+    await this.appendAudit(AuditAction.UPDATE_MEDIA, cmd.treeId, {
+      ...(personIds.length === 1 ? { personId: personIds[0] } : { personIds }),
+      details: { mediaId: cmd.mediaId, before: changedBefore, after: changedAfter },
+    });
+    return after;
+  }
+
+  async handleRemoveMedia(cmd: RemoveMediaCommand) {
+    this.requireMutation();
+    const removed = await this.requireMediaStorage(this.removeMedia).execute(cmd);
+    await this.appendAudit(AuditAction.REMOVE_MEDIA, cmd.treeId, this.mediaAuditTarget(removed, {
+      mediaId: removed.mediaId,
+      fileName: removed.fileName,
+    }));
+    return removed;
+  }
+
+  /**
+   * Media show in the history of every person they are linked to.
+   */
+  private mediaAuditTarget(media: MediaObject, details: Record<string, unknown>) {
+    const personIds = Array.from(new Set(media.links.map((l) => l.personId)));
+    return personIds.length === 1 ? { personId: personIds[0], details } : { personIds, details };
+  }
+
+  // "ismail (portrait); ismail/E2"
+  private mediaLinksAuditValue(links: readonly MediaLink[]): string | null {
+    return this.toAuditValue(
+      links.map((l) => `${l.personId}${l.eventId ? `/${l.eventId}` : ''}${l.primary ? ' (portrait)' : ''}`),
+    );
+  }
+
+  private requireMediaStorage<T>(handler: T | undefined): T {
+    if (!handler) {
+      throw new Error('media storage is not configured');
+    }
+    return handler;
+  }
+
+  async handleCreatePlace(cmd: CreatePlaceCommand) {
+    this.requireMutation();
+    const place = await this.createPlace.execute(cmd);
+    await this.appendAudit(AuditAction.CREATE_PLACE, cmd.treeId, {
+      details: { placeId: place.placeId, name: place.name, parentId: place.parentId },
+    });
+    return place;
+  }
+
+  async handleUpdatePlace(cmd: UpdatePlaceCommand) {
+    this.requireMutation();
+    const { before, after } = await this.updatePlace.execute(cmd);
+
+    // Record only the fields that actually changed, with their previous and new values
+    const changedBefore: Record<string, unknown> = {};
+    const changedAfter: Record<string, unknown> = {};
+    for (const field of ['name', 'type', 'parentId', 'alternateNames', 'latitude', 'longitude'] as const) {
+      const prev = this.toAuditValue(field === 'alternateNames' ? before.alternateNames.map((n) => n.name) : before[field]);
+      const next = this.toAuditValue(field === 'alternateNames' ? after.alternateNames.map((n) => n.name) : after[field]);
+      if (prev !== next) {
+        changedBefore[field] = prev;
+        changedAfter[field] = next;
+      }
+    }
+
+    await this.appendAudit(AuditAction.UPDATE_PLACE, cmd.treeId, {
+      details: { placeId: cmd.placeId, before: changedBefore, after: changedAfter },
+    });
+    return after;
+  }
+
+  /**
+   * Renames and merges change the place of births and events: they show in
+   * the history of each person concerned.
+   */
+  async handleRenamePlace(cmd: RenamePlaceCommand) {
+    this.requireMutation();
+    const { before, after, personIds } = await this.renamePlace.execute(cmd);
+    await this.appendAudit(AuditAction.RENAME_PLACE, cmd.treeId, {
+      ...(personIds.length > 0 ? { personIds } : {}),
+      details: { placeId: cmd.placeId, before: before.name, after: after.name, keepFormerName: cmd.keepFormerName === true },
+    });
+    return after;
+  }
+
+  async handleMergePlaces(cmd: MergePlacesCommand) {
+    this.requireMutation();
+    const { merged, into, personIds } = await this.mergePlaces.execute(cmd);
+    await this.appendAudit(AuditAction.MERGE_PLACES, cmd.treeId, {
+      ...(personIds.length > 0 ? { personIds } : {}),
+      details: { placeId: merged.placeId, name: merged.name, intoPlaceId: into.placeId, intoName: into.name },
+    });
+    return into;
+  }
+
+  async handleRemovePlace(cmd: RemovePlaceCommand) {
+    this.requireMutation();
+    const removed = await this.removePlace.execute(cmd);
+    await this.appendAudit(AuditAction.REMOVE_PLACE, cmd.treeId, {
+      details: { placeId: removed.placeId, name: removed.name },
+    });
+    return removed;
+  }
+
   async handleRemoveRelationship(cmd: RemoveRelationshipCommand) {
     this.requireMutation();
     const result = await this.removeRelationship.execute(cmd);
@@ -219,11 +719,40 @@ export class GenealogyApplicationService {
     this.requireMutation(); // EDITOR or OWNER
     const result = await this.importPersons.execute(cmd);
     await this.appendAudit(AuditAction.IMPORT_PERSONS, cmd.treeId, {
-      details: { imported: result.imported, total: result.total },
+      details: {
+        mode: cmd.mode ?? 'strict',
+        upsert: cmd.upsert ?? false,
+        imported: result.imported,
+        updated: result.updated,
+        total: result.total,
+        relationships: result.relationships.imported,
+        errors: result.errors.length,
+      },
+    });
+    return result;
+  }
+
+  async handleImportTree(cmd: ImportTreeCommand): Promise<ImportTreeResult> {
+    this.requireMutation(); // EDITOR or OWNER
+    const result = await this.importTree.execute(cmd);
+    await this.appendAudit(AuditAction.IMPORT_TREE, result.treeId, {
+      details: {
+        fileName: cmd.fileName,
+        createdTree: cmd.createNewTree,
+        handleDuplicates: cmd.handleDuplicates ?? 'skip',
+        imported: result.imported,
+        skipped: result.skipped,
+        merged: result.merged,
+      },
     });
     return result;
   }
 
+  async handlePreviewTreeImport(query: PreviewTreeImportQuery): Promise<TreeImportPreview | null> {
+    this.requireQuery();
+    return this.previewTreeImport.execute(query);
+  }
+
   // Queries (allowed for VIEWER, EDITOR, OWNER)
   async handleGetPerson(query: GetPersonQuery) {
     this.requireQuery();
@@ -240,6 +769,91 @@ export class GenealogyApplicationService {
     return this.getDescendants.execute(query);
   }
 
+  async handleGetNasab(query: GetNasabQuery) {
+    this.requireQuery();
+    return this.getNasab.execute(query);
+  }
+
+  async handleGetPersonEvents(query: GetPersonEventsQuery) {
+    this.requireQuery();
+    return this.getPersonEvents.execute(query);
+  }
+
+  async handleGetMedia(query: GetMediaQuery) {
+    this.requireQuery();
+    return this.getMedia.execute(query);
+  }
+
+  async handleGetMediaFile(query: GetMediaFileQuery) {
+    this.requireQuery();
+    return this.requireMediaStorage(this.getMediaFile).execute(query);
+  }
+
+  async handleGetPlaces(query: GetPlacesQuery) {
+    this.requireQuery();
+    return this.getPlaces.execute(query);
+  }
+
+  async handleGetSources(query: GetSourcesQuery) {
+    this.requireQuery();
+    return this.getSources.execute(query);
+  }
+
+  async handleGetPersonCitations(query: GetPersonCitationsQuery) {
+    this.requireQuery();
+    return this.getPersonCitations.execute(query);
+  }
+
+  async handleGetFamilies(query: GetFamiliesQuery) {
+    this.requireQuery();
+    return this.getFamilies.execute(query);
+  }
+
+  async handleGetSiblings(query: GetSiblingsQuery) {
+    this.requireQuery();
+    return this.getSiblings.execute(query);
+  }
+
+  async handleGetRelationship(query: GetRelationshipQuery) {
+    this.requireQuery();
+    return this.getRelationship.execute(query);
+  }
+
+  async handleGetKinPath(query: GetKinPathQuery) {
+    this.requireQuery();
+    return this.getKinPath.execute(query);
+  }
+
+  async handleGetMahram(query: GetMahramQuery) {
+    this.requireQuery();
+    return this.getMahram.execute(query);
+  }
+
+  async handleGetInheritance(query: GetInheritanceQuery) {
+    this.requireQuery();
+    return this.getInheritance.execute(query);
+  }
+
+  async handleGetCommonAncestors(query: GetCommonAncestorsQuery) {
+    this.requireQuery();
+    return this.getCommonAncestors.execute(query);
+  }
+
+  async handleGetPedigreeCollapse(query: GetPedigreeCollapseQuery) {
+    this.requireQuery();
+    return this.getPedigreeCollapse.execute(query);
+  }
+
+  async handleGetRelatedness(query: GetRelatednessQuery) {
+    this.requireQuery();
+    return this.getRelatedness.execute(query);
+  }
+
+  async handleGetInbreeding(query: GetInbreedingQuery) {
+    this.requireQuery();
+    return this.getInbreeding.execute(query);
+  }
+
   async handleRenderTree(query: RenderGenealogyTreeQuery) {
     this.requireQuery();
     return this.renderTree.execute(query);
@@ -272,48 +886,130 @@ export class GenealogyApplicationService {
     const parentChildEdgesRaw = Array.isArray(snapshot.parentChildEdges) ? snapshot.parentChildEdges : [];
 
     // Phase 3: Build Set of valid node IDs (O(N))
-    const nodes: Array<{ id: string; displayName: string }> = [];
+    // Nodes carry the portrait's id when it has a thumbnail to show
+    const portraits = new Map<string, string>();
+    for (const stored of (Array.isArray(snapshot.media) ? snapshot.media : []) as StoredMedia[]) {
+      if (!stored.thumbnailKey) continue;
+      for (const link of stored.links ?? []) {
+        if (link.primary && !link.eventId) portraits.set(link.personId, stored.mediaId);
+      }
+    }
+    const nodes: TreeNode[] = [];
     const validNodeIds = new Set<string>();
     for (const p of persons) {
       const id = (p as any).personId ?? (p as any).id;
       if (!id) continue;
       validNodeIds.add(id);
+      const displayName = (p as any).name ?? (p as any).label ?? ''; // Explicit mapping
+      const altNames = this.alternateNames((p as any).names, displayName);
+      const portraitMediaId = portraits.get(id);
       nodes.push({
         id,
-        displayName: (p as any).name ?? (p as any).label ?? '', // Explicit mapping
+        displayName,
+        ...(altNames.length > 0 ? { altNames } : {}),
+        ...(portraitMediaId ? { portraitMediaId } : {}),
       });
     }
 
-    // Phase 4: Collect spouse edges, skip edges with dangling references
-    const spouseEdges: Array<{ personAId: string; personBId: string }> = [];
+    // Phase 4: Collect spouse edges, skip edges with dangling references.
+    // Edges with recorded marriage details carry them; others keep the plain shape.
+    const spouseEdges: Array<{ personAId: string; personBId: string; marriage?: RenderedMarriage }> = [];
     for (const edge of spouseEdgesRaw) {
       const a = (edge as any).personAId ?? (edge as any).spouse1Id ?? (edge as any).spouseAId;
       const b = (edge as any).personBId ?? (edge as any).spouse2Id ?? (edge as any).spouseBId;
       if (!a || !b) continue;
       if (!validNodeIds.has(a) || !validNodeIds.has(b)) continue;
-      spouseEdges.push({ personAId: a, personBId: b });
+      const marriage = this.renderedMarriage(edge);
+      spouseEdges.push(marriage ? { personAId: a, personBId: b, marriage } : { personAId: a, personBId: b });
     }
 
-    // Phase 5: Collect parent-child edges, skip edges with dangling references
-    const parentChildEdges: Array<{ personAId: string; personBId: string }> = [];
+    // Phase 5: Collect parent-child edges, skip edges with dangling references.
+    // Non-biological edges carry their subtype; biological edges keep the plain shape.
+    const parentChildEdges: Array<{ personAId: string; personBId: string; subtype?: ParentChildType }> = [];
     for (const edge of parentChildEdgesRaw) {
       const parentId = (edge as any).parentId ?? (edge as any).personAId;
       const childId = (edge as any).childId ?? (edge as any).personBId;
       if (!parentId || !childId) continue;
       if (!validNodeIds.has(parentId) || !validNodeIds.has(childId)) continue;
-      parentChildEdges.push({ personAId: parentId, personBId: childId });
+      const subtype = (edge as any).type as ParentChildType | undefined;
+      parentChildEdges.push(
+        subtype && subtype !== 'BIOLOGICAL'
+          ? { personAId: parentId, personBId: childId, subtype }
+          : { personAId: parentId, personBId: childId },
+      );
+    }
+
+    // Phase 6: Group children into families (recorded unions, or inferred from
+    // their parents). Dangling members are dropped; omitted when there are none.
+    const storedFamilies: StoredFamily[] = [];
+    for (const family of Array.isArray(snapshot.families) ? snapshot.families : []) {
+      if (!family?.familyId || !validNodeIds.has(family.parent1Id)) continue;
+      storedFamilies.push({
+        familyId: family.familyId,
+        parent1Id: family.parent1Id,
+        parent2Id: family.parent2Id && validNodeIds.has(family.parent2Id) ? family.parent2Id : null,
+        childIds: (Array.isArray(family.childIds) ? family.childIds : []).filter((id: string) => validNodeIds.has(id)),
+      });
     }
+    const families: RenderedFamily[] = resolveFamilies(
+      storedFamilies,
+      parentChildEdges.map((e) => ({ parentId: e.personAId, childId: e.personBId })),
+      spouseEdges.map((e) => ({ spouse1Id: e.personAId, spouse2Id: e.personBId })),
+    ).map(({ familyId, parentIds, childIds }) => ({ id: familyId, parentIds, childIds }));
 
-    // Phase 6: Return versioned DTO
+    // Phase 7: Return versioned DTO
     return {
       version: 'v1' as const,
       treeId: snapshot.treeId,
       nodes,
       spouseEdges,
       parentChildEdges,
+      ...(families.length > 0 ? { families } : {}),
+    };
+  }
+
+  /**
+   * Marriage details of a stored spouse edge for render data, or undefined
+   * when nothing beyond the link is recorded or the details are malformed.
+   */
+  private renderedMarriage(edge: StoredMarriage): RenderedMarriage | undefined {
+    let marriage: Marriage;
+    try {
+      marriage = Marriage.fromStored(edge);
+    } catch (err) {
+      return undefined;
+    }
+    if (marriage.isDefault) return undefined;
+    return {
+      status: marriage.status,
+      marriageDate: marriage.marriageDate?.toJSON() ?? null,
+      marriagePlace: marriage.marriagePlace,
+      divorceDate: marriage.divorceDate?.toJSON() ?? null,
+      divorcePlace: marriage.divorcePlace,
+      personAOrder: marriage.spouse1Order ?? 1,
+      personBOrder: marriage.spouse2Order ?? 1,
     };
   }
 
+  /**
+   * Every other written form of a person's names (records and script
+   * variants), deduplicated and excluding the display name. Malformed
+   * entries are skipped: render data is best-effort.
+   */
+  private alternateNames(names: unknown, displayName: string): string[] {
+    if (!Array.isArray(names)) return [];
+    const texts = new Set<string>();
+    for (const props of names) {
+      try {
+        PersonName.create(props).searchTexts().forEach((text) => texts.add(text));
+      } catch (err) {
+        continue;
+      }
+    }
+    texts.delete(displayName);
+    return Array.from(texts);
+  }
+
   /**
    * List all trees accessible by the current user.
    * Returns trees where user is owner or member.
@@ -355,18 +1051,27 @@ export class GenealogyApplicationService {
     };
   }
 
-  async exportTreeSnapshot(treeId: string) {
-    this.requireOwnerStrict();
-    const snapshot = await (this.readRepository as any).getSnapshot(treeId);
-    if (!snapshot) {
-      throw new NotFoundError(`Tree ${treeId} not found`);
-    }
+  /**
+   * Full tree snapshot. Media are described with their place in an export
+   * bundle (`path`); with `withMediaContent` each also carries its file,
+   * base64-encoded, as `data` (null when the stored file is missing).
+   */
+  async exportTreeSnapshot(treeId: string, options: { withMediaContent?: boolean } = {}) {
+    const snapshot = await this.readExportSnapshot(treeId);
+    const media = await Promise.all(
+      (snapshot.media ?? []).map((stored: StoredMedia) => this.exportedMedia(stored, options.withMediaContent === true)),
+    );
 
     return {
       treeId: snapshot.treeId,
       persons: snapshot.persons,
       parentChildEdges: snapshot.parentChildEdges,
       spouseEdges: snapshot.spouseEdges,
+      families: snapshot.families ?? [],
+      sources: snapshot.sources ?? [],
+      citations: snapshot.citations ?? [],
+      media,
+      places: snapshot.places ?? [],
       ownerId: snapshot.ownerId,
       members: snapshot.members,
       version: snapshot.version,
@@ -376,107 +1081,50 @@ export class GenealogyApplicationService {
     };
   }
 
-  async exportTreeGedcom(treeId: string): Promise<string> {
-    const snapshot = await this.exportTreeSnapshot(treeId);
-    return this.toGedcom(snapshot.treeId, snapshot.persons, snapshot.parentChildEdges, snapshot.spouseEdges);
+  /**
+   * The tree as a GEDCOM file, 5.5.1 unless `version` asks for 7.0. Media
+   * records point to where the files sit in an export bundle.
+   */
+  async exportTreeGedcom(treeId: string, version: GedcomVersion = '5.5.1'): Promise<string> {
+    const snapshot = await this.readExportSnapshot(treeId);
+    return exportGedcom(snapshot, version);
   }
 
-  private toGedcom(
-    treeId: string,
-    persons: Array<{ personId: string; name: string; gender: 'MALE' | 'FEMALE' | 'UNKNOWN'; birthDate?: Date | null; birthPlace?: string | null; deathDate?: Date | null }>,
-    parentChildEdges: Array<{ parentId: string; childId: string }>,
-    spouseEdges: Array<{ spouse1Id: string; spouse2Id: string }>,
-  ): string {
-    const lines: string[] = [];
-    lines.push('0 HEAD');
-    lines.push('1 SOUR silsilah');
-    lines.push('1 GEDC');
-    lines.push('2 VERS 5.5.1');
-    lines.push('1 CHAR UTF-8');
-
-    const formatDate = (value: unknown): string | null => {
-      if (!value) return null;
-      const date = typeof value === 'string' ? new Date(value) : (value as Date);
-      if (Number.isNaN(date.getTime())) return null;
-      return date.toISOString().split('T')[0];
-    };
-
-    // Individuals
-    const personMap = new Map(persons.map((p) => [p.personId, p]));
-    for (const p of persons) {
-      lines.push(`0 @${p.personId}@ INDI`);
-      lines.push(`1 NAME ${p.name}`);
-      lines.push(`1 SEX ${p.gender === 'MALE' ? 'M' : p.gender === 'FEMALE' ? 'F' : 'U'}`);
-      const birthDate = formatDate(p.birthDate);
-      if (birthDate) {
-        lines.push('1 BIRT');
-        lines.push(`2 DATE ${birthDate}`);
-        if (p.birthPlace) {
-          lines.push(`2 PLAC ${p.birthPlace}`);
-        }
-      }
-      const deathDate = formatDate(p.deathDate);
-      if (deathDate) {
-        lines.push('1 DEAT');
-        lines.push(`2 DATE ${deathDate}`);
-      }
-    }
-
-    // Families
-    const families: Array<{
-      id: string;
-      husband?: string;
-      wife?: string;
-      children: string[];
-    }> = [];
-
-    // Spouse-based families
-    let famCounter = 1;
-    for (const edge of spouseEdges) {
-      const famId = `F${famCounter++}`;
-      families.push({
-        id: famId,
-        husband: edge.spouse1Id,
-        wife: edge.spouse2Id,
-        children: [],
-      });
-    }
-
-    // Helper: find or create family for parent when no spouse family exists
-    const ensureFamilyForParent = (parentId: string): number => {
-      for (let i = 0; i < families.length; i++) {
-        const fam = families[i];
-        if (fam.husband === parentId || fam.wife === parentId) {
-          return i;
-        }
-      }
-      const famId = `F${famCounter++}`;
-      families.push({ id: famId, husband: parentId, children: [] });
-      return families.length - 1;
-    };
-
-    for (const edge of parentChildEdges) {
-      const famIndex = ensureFamilyForParent(edge.parentId);
-      families[famIndex].children.push(edge.childId);
-    }
+  /**
+   * The tree as a GEDZIP: a zip with the GEDCOM 7.0 file as gedcom.ged and
+   * each media file at the path its record points to. Files missing from
+   * storage are left out; their records stay.
+   */
+  async exportTreeGedzip(treeId: string): Promise<Buffer> {
+    const snapshot = await this.readExportSnapshot(treeId);
+    const files = await Promise.all(
+      (snapshot.media ?? []).map(async (stored: StoredMedia) => {
+        const media = MediaObject.fromStored(stored);
+        const data = (await this.mediaStorage?.get(media.storageKey)) ?? null;
+        return data ? [{ path: media.bundlePath, data }] : [];
+      }),
+    );
+    return createZipArchive([
+      { path: 'gedcom.ged', data: Buffer.from(exportGedcom(snapshot, '7.0'), 'utf8') },
+      ...files.flat(),
+    ]);
+  }
 
-    for (const fam of families) {
-      lines.push(`0 @${fam.id}@ FAM`);
-      if (fam.husband) {
-        const role = personMap.get(fam.husband)?.gender === 'FEMALE' ? 'WIFE' : 'HUSB';
-        lines.push(`1 ${role} @${fam.husband}@`);
-      }
-      if (fam.wife) {
-        const role = personMap.get(fam.wife)?.gender === 'MALE' ? 'HUSB' : 'WIFE';
-        lines.push(`1 ${role} @${fam.wife}@`);
-      }
-      for (const child of fam.children) {
-        lines.push(`1 CHIL @${child}@`);
-      }
+  private async readExportSnapshot(treeId: string) {
+    this.requireOwnerStrict();
+    const snapshot = await (this.readRepository as any).getSnapshot(treeId);
+    if (!snapshot) {
+      throw new NotFoundError(`Tree ${treeId} not found`);
     }
+    return snapshot;
+  }
 
-    lines.push('0 TRLR');
-    return lines.join('\n');
+  private async exportedMedia(stored: StoredMedia, withContent: boolean) {
+    const media = MediaObject.fromStored(stored);
+    const exported = { ...media.toJSON(), path: media.bundlePath };
+    if (!withContent) return exported;
+    const data = (await this.mediaStorage?.get(media.storageKey)) ?? null;
+    return { ...exported, data: data ? data.toString('base64') : null };
   }
 
   /**
@@ -0,0 +1,234 @@
+import { InvariantViolationError } from './errors';
+import { gedcomLines, gedcomStructure, type GedcomStructure } from './gedcom-writer';
+
+/**
+ * Citation value object.
+ *
+ * Links one fact in a tree to the Source it was taken from, with where in
+ * the source (page, folio, entry), how far it can be trusted, and the text
+ * as transcribed. A fact is a person as a whole or one of their recorded
+ * facts (name, birth, death), a life event, or a parent-child or spouse
+ * link.
+ */
+
+/** The recorded facts of a person that can be cited on their own */
+export type PersonFact = 'NAME' | 'BIRTH' | 'DEATH';
+
+export const PERSON_FACTS: PersonFact[] = ['NAME', 'BIRTH', 'DEATH'];
+
+export type CitationTarget =
+  | { kind: 'PERSON'; personId: string; fact?: PersonFact | null } // no fact: the person as a whole
+  | { kind: 'EVENT'; personId: string; eventId: string }
+  | { kind: 'PARENT_CHILD'; parentId: string; childId: string }
+  | { kind: 'SPOUSE'; spouse1Id: string; spouse2Id: string }; // canonical order
+
+export type CitationTargetKind = CitationTarget['kind'];
+
+export const CITATION_TARGET_KINDS: CitationTargetKind[] = ['PERSON', 'EVENT', 'PARENT_CHILD', 'SPOUSE'];
+
+/**
+ * GEDCOM QUAY assessment, from 0 to 3:
+ * - UNRELIABLE: unreliable evidence or estimated data
+ * - QUESTIONABLE: questionable reliability (interviews, oral genealogies)
+ * - SECONDARY: secondary evidence, officially recorded after the event
+ * - PRIMARY: direct and primary evidence
+ */
+export type CitationQuality = 'UNRELIABLE' | 'QUESTIONABLE' | 'SECONDARY' | 'PRIMARY';
+
+export const CITATION_QUALITIES: CitationQuality[] = ['UNRELIABLE', 'QUESTIONABLE', 'SECONDARY', 'PRIMARY'];
+
+export interface CitationProps {
+  citationId: string;
+  sourceId: string;
+  target: CitationTarget;
+  page?: string | null; // where in the source
+  quality?: CitationQuality | null;
+  transcription?: string | null;
+}
+
+/**
+ * Partial update: `undefined` keeps the current value, `null` clears it.
+ * The source and the cited fact are fixed once recorded.
+ */
+export type CitationUpdates = Partial<Pick<CitationProps, 'page' | 'quality' | 'transcription'>>;
+
+export interface StoredCitation {
+  citationId: string;
+  sourceId: string;
+  target: CitationTarget;
+  page?: string | null;
+  quality?: CitationQuality | null;
+  transcription?: string | null;
+}
+
+const MAX_PAGE_LENGTH = 255;
+const MAX_TRANSCRIPTION_LENGTH = 10000;
+
+export class Citation {
+  readonly citationId: string;
+  readonly sourceId: string;
+  readonly target: CitationTarget;
+  readonly page: string | null;
+  readonly quality: CitationQuality | null;
+  readonly transcription: string | null;
+
+  private constructor(props: CitationProps) {
+    this.citationId = props.citationId?.trim();
+    this.sourceId = props.sourceId?.trim();
+    this.target = normalizeTarget(props.target);
+    this.page = props.page?.trim() || null;
+    this.quality = props.quality ?? null;
+    this.transcription = props.transcription?.trim() || null;
+    this.validate();
+  }
+
+  static create(props: CitationProps): Citation {
+    return new Citation(props);
+  }
+
+  static fromStored(stored: StoredCitation): Citation {
+    return new Citation(stored);
+  }
+
+  /** The cited fact, as a key shared by every citation of it */
+  get targetKey(): string {
+    return citationTargetKey(this.target);
+  }
+
+  /** True when the cited fact involves `personId` */
+  concerns(personId: string): boolean {
+    return citationTargetPersons(this.target).includes(personId);
+  }
+
+  withUpdates(updates: CitationUpdates): Citation {
+    const keep = <K extends keyof CitationUpdates>(key: K): CitationProps[K] =>
+      updates[key] !== undefined ? updates[key] : this[key];
+    return new Citation({
+      ...this.toStored(),
+      page: keep('page'),
+      quality: keep('quality'),
+      transcription: keep('transcription'),
+    });
+  }
+
+  /**
+   * GEDCOM 5.5.1 source citation starting at `level`.
+   */
+  toGedcomLines(level: number, sourceXref: string, note?: string): string[] {
+    return gedcomLines(this.toGedcomStructure(sourceXref, note), level);
+  }
+
+  /**
+   * GEDCOM source citation, the same in 5.5.1 and 7.0, pointing at the
+   * source record `sourceXref`. The transcription is the cited text
+   * (DATA.TEXT); `note` is added for facts GEDCOM cannot cite directly.
+   */
+  toGedcomStructure(sourceXref: string, note?: string): GedcomStructure {
+    return {
+      tag: 'SOUR',
+      pointer: sourceXref,
+      children: [
+        ...(this.page ? [gedcomStructure('PAGE', this.page)] : []),
+        ...(this.transcription ? [gedcomStructure('DATA', null, [gedcomStructure('TEXT', this.transcription)])] : []),
+        ...(note ? [gedcomStructure('NOTE', note)] : []),
+        ...(this.quality ? [gedcomStructure('QUAY', `${CITATION_QUALITIES.indexOf(this.quality)}`)] : []),
+      ],
+    };
+  }
+
+  toStored(): StoredCitation {
+    return {
+      citationId: this.citationId,
+      sourceId: this.sourceId,
+      target: { ...this.target },
+      page: this.page,
+      quality: this.quality,
+      transcription: this.transcription,
+    };
+  }
+
+  toJSON(): StoredCitation {
+    return this.toStored();
+  }
+
+  private validate(): void {
+    if (!this.citationId) {
+      throw new InvariantViolationError('citationId is required');
+    }
+    if (!this.sourceId) {
+      throw new InvariantViolationError('sourceId is required');
+    }
+    if (this.quality !== null && !CITATION_QUALITIES.includes(this.quality)) {
+      throw new InvariantViolationError('citation quality is invalid');
+    }
+    if (this.page && this.page.length > MAX_PAGE_LENGTH) {
+      throw new InvariantViolationError(`page must be at most ${MAX_PAGE_LENGTH} chars`);
+    }
+    if (this.transcription && this.transcription.length > MAX_TRANSCRIPTION_LENGTH) {
+      throw new InvariantViolationError(`transcription must be at most ${MAX_TRANSCRIPTION_LENGTH} chars`);
+    }
+  }
+}
+
+/**
+ * Validated copy of a target with ids trimmed and spouses in canonical
+ * order, so that every citation of one fact shares a target key.
+ */
+function normalizeTarget(target: CitationTarget): CitationTarget {
+  if (!target || !CITATION_TARGET_KINDS.includes(target.kind)) {
+    throw new InvariantViolationError('citation target kind is invalid');
+  }
+  const id = (value: unknown, field: string): string => {
+    const trimmed = typeof value === 'string' ? value.trim() : '';
+    if (!trimmed) throw new InvariantViolationError(`citation target ${field} is required`);
+    return trimmed;
+  };
+  switch (target.kind) {
+    case 'PERSON': {
+      const fact = target.fact ?? null;
+      if (fact !== null && !PERSON_FACTS.includes(fact)) {
+        throw new InvariantViolationError('citation target fact is invalid');
+      }
+      return { kind: 'PERSON', personId: id(target.personId, 'personId'), fact };
+    }
+    case 'EVENT':
+      return { kind: 'EVENT', personId: id(target.personId, 'personId'), eventId: id(target.eventId, 'eventId') };
+    case 'PARENT_CHILD':
+      return { kind: 'PARENT_CHILD', parentId: id(target.parentId, 'parentId'), childId: id(target.childId, 'childId') };
+    case 'SPOUSE': {
+      const [a, b] = [id(target.spouse1Id, 'spouse1Id'), id(target.spouse2Id, 'spouse2Id')].sort();
+      return { kind: 'SPOUSE', spouse1Id: a, spouse2Id: b };
+    }
+  }
+}
+
+/**
+ * "PERSON:p1", "PERSON:p1:BIRTH", "EVENT:p1:E2", "PARENT_CHILD:p1->p2",
+ * "SPOUSE:p1~p2" (spouses in canonical order).
+ */
+export function citationTargetKey(target: CitationTarget): string {
+  switch (target.kind) {
+    case 'PERSON':
+      return target.fact ? `PERSON:${target.personId}:${target.fact}` : `PERSON:${target.personId}`;
+    case 'EVENT':
+      return `EVENT:${target.personId}:${target.eventId}`;
+    case 'PARENT_CHILD':
+      return `PARENT_CHILD:${target.parentId}->${target.childId}`;
+    case 'SPOUSE': {
+      const [a, b] = [target.spouse1Id, target.spouse2Id].sort();
+      return `SPOUSE:${a}~${b}`;
+    }
+  }
+}
+
+export function citationTargetPersons(target: CitationTarget): string[] {
+  switch (target.kind) {
+    case 'PERSON':
+    case 'EVENT':
+      return [target.personId];
+    case 'PARENT_CHILD':
+      return [target.parentId, target.childId];
+    case 'SPOUSE':
+      return [target.spouse1Id, target.spouse2Id];
+  }
+}
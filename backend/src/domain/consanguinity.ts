@@ -0,0 +1,206 @@
+/**
+ * Consanguinity.
+ *
+ * Wright's coefficient of relationship between two persons and the
+ * inbreeding coefficient of a person. Both rest on the kinship coefficient
+ * φ(a, b), the chance that a gene drawn from each is identical by descent:
+ *
+ *   F(x)    = φ(father, mother)
+ *   r(a, b) = 2 φ(a, b) / √((1 + F(a)) (1 + F(b)))
+ *
+ * φ is computed by the recursive (tabular) method, memoised per pair:
+ * φ(a, a) = (1 + F(a)) / 2, and for a not an ancestor of b,
+ * φ(a, b) = Σ φ(parent of a, b) / 2. The work grows with the square of the
+ * ancestry, never with the number of paths through it.
+ *
+ * The paths behind a coefficient are listed for explanation. Each runs up
+ * from one person to a common ancestor and down to the other without
+ * meeting itself, and adds (1/2)^persons on it × (1 + F(ancestor)) to φ
+ * (Wright's path rule). Enumerating them is exponential in a collapsed
+ * pedigree, so they are capped and flagged `truncated`; the coefficients
+ * are exact either way.
+ *
+ * Follows biological parents only.
+ */
+
+import type { PedigreeLookup } from './pedigree';
+
+/** One path of Wright's path rule */
+export interface ConsanguinityPath {
+  ancestorId: string;
+  personIds: string[]; // up from one person to the common ancestor, then down to the other
+  ancestorInbreeding: number; // F of the common ancestor
+  contribution: number; // to the coefficient it explains
+}
+
+export interface Relatedness {
+  personIds: [string, string];
+  kinship: number; // φ
+  relationship: number; // Wright's r
+  inbreeding: [number, number]; // F of each person
+  paths: ConsanguinityPath[]; // largest contribution first
+  truncated: boolean;
+}
+
+export interface Inbreeding {
+  personId: string;
+  parentIds: string[];
+  inbreeding: number; // F
+  paths: ConsanguinityPath[]; // between the parents, largest contribution first
+  truncated: boolean;
+}
+
+export interface ConsanguinityOptions {
+  maxPaths?: number; // paths listed, default 50
+}
+
+const DEFAULT_MAX_PATHS = 50;
+// Ascending lines followed from each end when listing paths
+const MAX_LINES = 500;
+
+/** Kinship and inbreeding coefficients over one lookup, memoised */
+function coefficients(lookup: PedigreeLookup) {
+  // Generation order: every ancestor of a person sits strictly below them
+  const orders = new Map<string, number>();
+  const order = (id: string): number => {
+    let value = orders.get(id);
+    if (value === undefined) {
+      value = 1 + Math.max(-1, ...lookup.parentsOf(id).map(order));
+      orders.set(id, value);
+    }
+    return value;
+  };
+
+  const memo = new Map<string, number>();
+  const kinship = (a: string, b: string): number => {
+    const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+    let value = memo.get(key);
+    if (value !== undefined) return value;
+    if (a === b) {
+      value = (1 + inbreeding(a)) / 2;
+    } else {
+      // Expand whichever cannot be the other's ancestor
+      const [younger, other] = order(a) >= order(b) ? [a, b] : [b, a];
+      value = lookup.parentsOf(younger).reduce((sum, parentId) => sum + kinship(parentId, other) / 2, 0);
+    }
+    memo.set(key, value);
+    return value;
+  };
+  const inbreeding = (id: string): number => {
+    const parents = lookup.parentsOf(id);
+    return parents.length === 2 ? kinship(parents[0], parents[1]) : 0;
+  };
+
+  return { kinship, inbreeding };
+}
+
+/** Lines up from `personId` to each of their ancestors, the person themself included */
+function ascendingLines(
+  lookup: PedigreeLookup,
+  personId: string,
+): { lines: Map<string, string[][]>; truncated: boolean } {
+  const lines = new Map<string, string[][]>();
+  let count = 0;
+  let truncated = false;
+  const walk = (line: string[]) => {
+    if (count >= MAX_LINES) {
+      truncated = true;
+      return;
+    }
+    count++;
+    const id = line[line.length - 1];
+    const known = lines.get(id);
+    if (known) known.push(line);
+    else lines.set(id, [line]);
+    for (const parentId of lookup.parentsOf(id)) walk([...line, parentId]);
+  };
+  walk([personId]);
+  return { lines, truncated };
+}
+
+/** Wright's paths between `a` and `b`, each with its contribution to φ(a, b) */
+function kinshipPaths(
+  lookup: PedigreeLookup,
+  inbreeding: (id: string) => number,
+  a: string,
+  b: string,
+  maxPaths: number,
+): { paths: ConsanguinityPath[]; truncated: boolean } {
+  const fromA = ascendingLines(lookup, a);
+  const fromB = ascendingLines(lookup, b);
+  const paths: ConsanguinityPath[] = [];
+  for (const [ancestorId, linesA] of fromA.lines) {
+    const linesB = fromB.lines.get(ancestorId);
+    if (!linesB) continue;
+    const ancestorInbreeding = inbreeding(ancestorId);
+    for (const up of linesA) {
+      const below = new Set(up.slice(0, -1));
+      for (const down of linesB) {
+        if (down.slice(0, -1).some((id) => below.has(id))) continue;
+        const personIds = [...up, ...down.slice(0, -1).reverse()];
+        paths.push({
+          ancestorId,
+          personIds,
+          ancestorInbreeding,
+          contribution: 0.5 ** personIds.length * (1 + ancestorInbreeding),
+        });
+      }
+    }
+  }
+  paths.sort(
+    (x, y) =>
+      y.contribution - x.contribution ||
+      x.personIds.length - y.personIds.length ||
+      x.personIds.join('|').localeCompare(y.personIds.join('|')),
+  );
+  return {
+    paths: paths.slice(0, maxPaths),
+    truncated: fromA.truncated || fromB.truncated || paths.length > maxPaths,
+  };
+}
+
+/**
+ * Wright's coefficient of relationship between two distinct persons: 1/2
+ * for a parent and child or full siblings, 1/8 for first cousins, more
+ * when they are related through several lines.
+ */
+export function relatedness(
+  lookup: PedigreeLookup,
+  aId: string,
+  bId: string,
+  options: ConsanguinityOptions = {},
+): Relatedness {
+  const { kinship, inbreeding } = coefficients(lookup);
+  const phi = kinship(aId, bId);
+  const fA = inbreeding(aId);
+  const fB = inbreeding(bId);
+  const scale = 2 / Math.sqrt((1 + fA) * (1 + fB));
+  const { paths, truncated } = kinshipPaths(lookup, inbreeding, aId, bId, options.maxPaths ?? DEFAULT_MAX_PATHS);
+  return {
+    personIds: [aId, bId],
+    kinship: phi,
+    relationship: phi * scale,
+    inbreeding: [fA, fB],
+    paths: paths.map((path) => ({ ...path, contribution: path.contribution * scale })),
+    truncated,
+  };
+}
+
+/**
+ * The inbreeding coefficient of a person: the kinship of their parents,
+ * 1/16 for the child of first cousins; 0 unless both parents are recorded.
+ */
+export function inbreeding(lookup: PedigreeLookup, personId: string, options: ConsanguinityOptions = {}): Inbreeding {
+  const parentIds = lookup.parentsOf(personId);
+  if (parentIds.length !== 2) {
+    return { personId, parentIds, inbreeding: 0, paths: [], truncated: false };
+  }
+  const { kinship, inbreeding: inbreedingOf } = coefficients(lookup);
+  const [parentA, parentB] = parentIds;
+  return {
+    personId,
+    parentIds,
+    inbreeding: kinship(parentA, parentB),
+    ...kinshipPaths(lookup, inbreedingOf, parentA, parentB, options.maxPaths ?? DEFAULT_MAX_PATHS),
+  };
+}
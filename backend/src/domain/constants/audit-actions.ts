@@ -1,11 +1,33 @@
 export enum AuditAction {
   CREATE_FAMILY_TREE = 'CREATE_FAMILY_TREE',
   CREATE_PERSON = 'CREATE_PERSON',
+  UPDATE_PERSON = 'UPDATE_PERSON',
+  ADD_PERSON_EVENT = 'ADD_PERSON_EVENT',
+  UPDATE_PERSON_EVENT = 'UPDATE_PERSON_EVENT',
+  REMOVE_PERSON_EVENT = 'REMOVE_PERSON_EVENT',
   ESTABLISH_PARENT_CHILD = 'ESTABLISH_PARENT_CHILD',
   ESTABLISH_SPOUSE = 'ESTABLISH_SPOUSE',
+  UPDATE_SPOUSE = 'UPDATE_SPOUSE',
+  CREATE_FAMILY = 'CREATE_FAMILY',
+  ADD_CHILD_TO_FAMILY = 'ADD_CHILD_TO_FAMILY',
   REMOVE_RELATIONSHIP = 'REMOVE_RELATIONSHIP',
+  CREATE_SOURCE = 'CREATE_SOURCE',
+  UPDATE_SOURCE = 'UPDATE_SOURCE',
+  REMOVE_SOURCE = 'REMOVE_SOURCE',
+  ADD_CITATION = 'ADD_CITATION',
+  UPDATE_CITATION = 'UPDATE_CITATION',
+  REMOVE_CITATION = 'REMOVE_CITATION',
+  ADD_MEDIA = 'ADD_MEDIA',
+  UPDATE_MEDIA = 'UPDATE_MEDIA',
+  REMOVE_MEDIA = 'REMOVE_MEDIA',
+  CREATE_PLACE = 'CREATE_PLACE',
+  UPDATE_PLACE = 'UPDATE_PLACE',
+  RENAME_PLACE = 'RENAME_PLACE',
+  MERGE_PLACES = 'MERGE_PLACES',
+  REMOVE_PLACE = 'REMOVE_PLACE',
   REMOVE_PERSON = 'REMOVE_PERSON',
   IMPORT_PERSONS = 'IMPORT_PERSONS',
+  IMPORT_TREE = 'IMPORT_TREE',
   ADD_MEMBER = 'ADD_MEMBER',
   REMOVE_MEMBER = 'REMOVE_MEMBER',
   CHANGE_MEMBER_ROLE = 'CHANGE_MEMBER_ROLE',
@@ -0,0 +1,428 @@
+import { DuplicateRelationshipError, InvariantViolationError } from './errors';
+import { GenealogicalDate } from './genealogical-date';
+import { PARENT_CHILD_TYPES, type ParentChildType } from './relationship';
+import type { GenealogyGraph, PersonProps } from './types';
+import { isBlankCsvRecord, readCsvRecords, type CsvRecord } from './csv-parser';
+
+/**
+ * CSV import.
+ *
+ * Reads persons, and the relationships between them, from spreadsheet CSV
+ * into a genealogy graph through the graph's own invariant checks.
+ *
+ * Columns are found by their header, whatever their order, in any case
+ * and with any spacing or punctuation: "Person ID", "Full name", "Sex",
+ * "Date of birth" and "DOB" are all read. A mapping from field to header
+ * names the columns of a sheet whose headers are not recognised. Other
+ * columns are left out.
+ *
+ * Relationships come after the persons, below a blank line and a header of
+ * their own, or in a separate CSV. A row is a parent-child relationship
+ * (personA the parent, with a subtype, biological when empty) or a
+ * spouse relationship; parentId/childId or spouse1Id/spouse2Id headers
+ * imply the type without a type column. Their persons may be in the CSV or
+ * already in the tree.
+ *
+ * A person already in the tree (same personId) is left as it is, or with
+ * `upsert` updated from the columns the CSV has: an empty cell clears an
+ * optional field, an empty gender keeps it. A relationship the tree
+ * already records is skipped.
+ *
+ * A CSV without the columns it needs, or with no rows at all, throws.
+ * Every row that cannot be read or that the graph refuses is reported with
+ * its line; rows before and after it are still read, so the caller decides
+ * whether the rest of the import stands.
+ *
+ * Adds to (and, with `upsert`, updates) the given graph and saves nothing.
+ */
+
+export type CsvPersonField = 'personId' | 'name' | 'gender' | 'birthDate' | 'birthPlace' | 'deathDate';
+export type CsvRelationshipField = 'type' | 'personAId' | 'personBId' | 'subtype';
+
+/**
+ * The header of the column holding each field, as written in the CSV.
+ */
+export type CsvColumns = Partial<Record<CsvPersonField | CsvRelationshipField, string>>;
+
+export interface CsvImportOptions {
+  relationshipsCsv?: string | null; // relationships in a file of their own
+  upsert?: boolean; // update persons already in the tree rather than skip them
+  columns?: CsvColumns;
+}
+
+export interface CsvImportIssue {
+  section: 'persons' | 'relationships';
+  row: number; // the line in the CSV holding the section
+  personId?: string;
+  message: string;
+}
+
+export interface CsvImport {
+  personRows: number;
+  relationshipRows: number;
+  personIds: string[]; // the persons added, in CSV order
+  updated: string[]; // persons already in the tree, updated from the CSV
+  skipped: string[]; // persons already in the tree, left as they were
+  relationships: number; // relationships added
+  relationshipsSkipped: number; // relationships already in the tree
+  errors: CsvImportIssue[];
+}
+
+type RelationshipType = 'parent-child' | 'spouse';
+
+// A person row: undefined where the CSV has no column, null for an empty optional cell
+type CsvPerson = Omit<PersonProps, 'gender' | 'names' | 'birthPlaceId' | 'events'> & {
+  gender?: PersonProps['gender'];
+};
+
+const PERSON_FIELDS: CsvPersonField[] = ['personId', 'name', 'gender', 'birthDate', 'birthPlace', 'deathDate'];
+const RELATIONSHIP_FIELDS: CsvRelationshipField[] = ['type', 'personAId', 'personBId', 'subtype'];
+
+// Headers read as each field, lower case without spaces or punctuation
+const PERSON_HEADERS: Record<string, CsvPersonField> = {
+  personid: 'personId',
+  id: 'personId',
+  name: 'name',
+  fullname: 'name',
+  displayname: 'name',
+  gender: 'gender',
+  sex: 'gender',
+  birthdate: 'birthDate',
+  dateofbirth: 'birthDate',
+  born: 'birthDate',
+  dob: 'birthDate',
+  birthplace: 'birthPlace',
+  placeofbirth: 'birthPlace',
+  pob: 'birthPlace',
+  deathdate: 'deathDate',
+  dateofdeath: 'deathDate',
+  died: 'deathDate',
+  dod: 'deathDate',
+};
+
+const RELATIONSHIP_HEADERS: Record<string, CsvRelationshipField> = {
+  type: 'type',
+  relationship: 'type',
+  relationshiptype: 'type',
+  personaid: 'personAId',
+  persona: 'personAId',
+  person1: 'personAId',
+  person1id: 'personAId',
+  parentid: 'personAId',
+  parent: 'personAId',
+  spouse1id: 'personAId',
+  spouse1: 'personAId',
+  personbid: 'personBId',
+  personb: 'personBId',
+  person2: 'personBId',
+  person2id: 'personBId',
+  childid: 'personBId',
+  child: 'personBId',
+  spouse2id: 'personBId',
+  spouse2: 'personBId',
+  subtype: 'subtype',
+  parentchildtype: 'subtype',
+  pedigree: 'subtype',
+};
+
+// The type implied by the headers of the two persons
+const IMPLIED_TYPES: Record<string, RelationshipType> = {
+  parentid: 'parent-child',
+  parent: 'parent-child',
+  spouse1id: 'spouse',
+  spouse1: 'spouse',
+};
+
+const RELATIONSHIP_TYPES: Record<string, RelationshipType> = {
+  parentchild: 'parent-child',
+  spouse: 'spouse',
+  marriage: 'spouse',
+};
+
+const GENDERS: Record<string, PersonProps['gender']> = {
+  MALE: 'MALE',
+  M: 'MALE',
+  FEMALE: 'FEMALE',
+  F: 'FEMALE',
+  UNKNOWN: 'UNKNOWN',
+  U: 'UNKNOWN',
+};
+
+/**
+ * Read CSV persons, then relationships, into `graph`. Throws when the CSV
+ * cannot be imported at all; everything else is reported in the result.
+ */
+export function importCsv(graph: GenealogyGraph, csv: string, options: CsvImportOptions = {}): CsvImport {
+  const columns = options.columns ?? {};
+  const { persons, relationships } = csvSections(csv, options.relationshipsCsv ?? null, columns);
+  const result: CsvImport = {
+    personRows: 0,
+    relationshipRows: 0,
+    personIds: [],
+    updated: [],
+    skipped: [],
+    relationships: 0,
+    relationshipsSkipped: 0,
+    errors: [],
+  };
+  const failed = new Set<string>(); // persons of rows not imported
+
+  // Persons
+  if (persons) {
+    const mapped = mapColumns(persons[0].cells, PERSON_HEADERS, PERSON_FIELDS, columns);
+    if (!mapped.has('personId') || !mapped.has('name')) {
+      throw new InvariantViolationError('CSV must include personId and name columns');
+    }
+    const seen = new Set<string>();
+    for (const record of persons.slice(1)) {
+      if (isBlankCsvRecord(record)) continue;
+      result.personRows++;
+      const report = (message: string, personId?: string) =>
+        result.errors.push({ section: 'persons', row: record.line, ...(personId ? { personId } : {}), message });
+
+      const { person, problems } = readPersonRow(record, mapped);
+      if (!person) {
+        problems.forEach((message) => report(message, cellOf(record, mapped, 'personId') || undefined));
+        continue;
+      }
+      const { personId, ...updates } = person;
+      if (seen.has(personId)) {
+        report(`personId ${personId} is used by an earlier row`, personId);
+        continue;
+      }
+      seen.add(personId);
+
+      try {
+        if (!graph.getPerson(personId)) {
+          graph.addPerson({ ...updates, personId, gender: updates.gender ?? 'UNKNOWN' });
+          result.personIds.push(personId);
+        } else if (options.upsert) {
+          graph.updatePerson(personId, updates);
+          result.updated.push(personId);
+        } else {
+          result.skipped.push(personId);
+        }
+      } catch (err) {
+        failed.add(personId);
+        report(reason(err), personId);
+      }
+    }
+    for (const issue of result.errors) if (issue.personId) failed.add(issue.personId);
+  }
+
+  // Relationships
+  if (relationships) {
+    const header = relationships[0].cells;
+    const mapped = mapColumns(header, RELATIONSHIP_HEADERS, RELATIONSHIP_FIELDS, columns);
+    if (!mapped.has('personAId') || !mapped.has('personBId')) {
+      throw new InvariantViolationError('relationships CSV must include personAId and personBId columns');
+    }
+    const impliedType: RelationshipType | undefined = IMPLIED_TYPES[headerKey(header[mapped.get('personAId')!])];
+    if (!mapped.has('type') && !impliedType) {
+      throw new InvariantViolationError(
+        'relationships CSV must include a type column, or parentId/childId or spouse1Id/spouse2Id columns',
+      );
+    }
+    for (const record of relationships.slice(1)) {
+      if (isBlankCsvRecord(record)) continue;
+      result.relationshipRows++;
+      const personAId = cellOf(record, mapped, 'personAId');
+      const report = (message: string) =>
+        result.errors.push({
+          section: 'relationships',
+          row: record.line,
+          ...(personAId ? { personId: personAId } : {}),
+          message,
+        });
+
+      const typeCell = cellOf(record, mapped, 'type');
+      const type = mapped.has('type') ? RELATIONSHIP_TYPES[headerKey(typeCell)] : impliedType;
+      const personBId = cellOf(record, mapped, 'personBId');
+      const subtype = cellOf(record, mapped, 'subtype').toUpperCase();
+      const problems: string[] = [];
+      if (!type) problems.push(`type must be parent-child or spouse, got '${typeCell}'`);
+      if (!personAId || !personBId) problems.push('both persons are required');
+      if (type === 'spouse' && subtype) problems.push('subtype applies to parent-child relationships only');
+      if (type === 'parent-child' && subtype && !PARENT_CHILD_TYPES.includes(subtype as ParentChildType)) {
+        problems.push(`subtype must be one of ${PARENT_CHILD_TYPES.join(', ')}`);
+      }
+      for (const personId of [personAId, personBId]) {
+        if (!personId || graph.getPerson(personId)) continue;
+        problems.push(
+          failed.has(personId) ? `person ${personId} was not imported` : `person ${personId} is not in the tree`,
+        );
+      }
+      if (problems.length > 0) {
+        problems.forEach(report);
+        continue;
+      }
+
+      try {
+        if (type === 'parent-child') {
+          graph.addParentChildRelationship(personAId, personBId, (subtype || 'BIOLOGICAL') as ParentChildType);
+        } else {
+          graph.addSpouseRelationship(personAId, personBId);
+        }
+        result.relationships++;
+      } catch (err) {
+        if (err instanceof DuplicateRelationshipError) result.relationshipsSkipped++;
+        else report(reason(err));
+      }
+    }
+  }
+
+  if (result.personRows === 0 && result.relationshipRows === 0) {
+    throw new InvariantViolationError('CSV contains no data rows (only header)');
+  }
+  return result;
+}
+
+/**
+ * The persons and relationships sections, each from its header on. The
+ * relationships start at the first header below a blank line that names
+ * two persons and no name, or are a CSV of their own; a CSV starting with
+ * such a header holds only relationships.
+ */
+function csvSections(
+  csv: string,
+  relationshipsCsv: string | null,
+  columns: CsvColumns,
+): { persons: CsvRecord[] | null; relationships: CsvRecord[] | null } {
+  const records = trimBlank(readCsvRecords(csv ?? ''));
+  if (records.length === 0) {
+    throw new InvariantViolationError('CSV is empty');
+  }
+  const isRelationshipHeader = (record: CsvRecord) => {
+    const mapped = mapColumns(record.cells, RELATIONSHIP_HEADERS, RELATIONSHIP_FIELDS, columns, false);
+    return (
+      mapped.has('personAId') &&
+      mapped.has('personBId') &&
+      !mapColumns(record.cells, PERSON_HEADERS, PERSON_FIELDS, columns, false).has('name')
+    );
+  };
+
+  let persons: CsvRecord[] | null = records;
+  let relationships: CsvRecord[] | null = null;
+  if (isRelationshipHeader(records[0])) {
+    [persons, relationships] = [null, records];
+  } else {
+    const start = records.findIndex(
+      (record, i) =>
+        i > 0 && !isBlankCsvRecord(record) && isBlankCsvRecord(records[i - 1]) && isRelationshipHeader(record),
+    );
+    if (start > 0) [persons, relationships] = [records.slice(0, start), records.slice(start)];
+  }
+
+  if (relationshipsCsv?.trim()) {
+    if (relationships) {
+      throw new InvariantViolationError('relationships are given both in the CSV and as a separate CSV');
+    }
+    relationships = trimBlank(readCsvRecords(relationshipsCsv));
+  }
+  return { persons, relationships };
+}
+
+/**
+ * A person row, or the reasons it cannot be read. Fields whose column the
+ * CSV does not have are left undefined, empty optional cells null.
+ */
+function readPersonRow(
+  record: CsvRecord,
+  mapped: Map<string, number>,
+): { person: CsvPerson | null; problems: string[] } {
+  const problems: string[] = [];
+  const personId = cellOf(record, mapped, 'personId');
+  const name = cellOf(record, mapped, 'name');
+  if (!personId || !name) {
+    problems.push('personId and name are required');
+  } else if (!/^[a-zA-Z0-9_-]+$/.test(personId)) {
+    problems.push('personId must only contain alphanumeric, dash, or underscore');
+  }
+  if (name.length > 255) {
+    problems.push('name exceeds 255 characters');
+  }
+
+  let gender: PersonProps['gender'] | undefined;
+  const genderCell = cellOf(record, mapped, 'gender');
+  if (genderCell) {
+    gender = GENDERS[genderCell.toUpperCase()];
+    if (!gender) problems.push('gender must be MALE, FEMALE, or UNKNOWN');
+  }
+
+  const date = (field: 'birthDate' | 'deathDate'): GenealogicalDate | null | undefined => {
+    if (!mapped.has(field)) return undefined;
+    const value = cellOf(record, mapped, field);
+    if (!value) return null;
+    try {
+      return GenealogicalDate.parse(value);
+    } catch {
+      problems.push(
+        `${field} must be ISO 8601 format (YYYY-MM-DD) or a genealogical date such as 'ABT 1890', got '${value}'`,
+      );
+      return null;
+    }
+  };
+  const birthDate = date('birthDate');
+  const deathDate = date('deathDate');
+  const birthPlace = mapped.has('birthPlace') ? cellOf(record, mapped, 'birthPlace') || null : undefined;
+
+  if (problems.length > 0) return { person: null, problems };
+  return {
+    person: {
+      personId,
+      name,
+      ...(gender ? { gender } : {}),
+      ...(birthDate !== undefined ? { birthDate } : {}),
+      ...(birthPlace !== undefined ? { birthPlace } : {}),
+      ...(deathDate !== undefined ? { deathDate } : {}),
+    },
+    problems,
+  };
+}
+
+/**
+ * The column of each field: the one named for it in `columns`, else the
+ * first whose header is read as it. With `strict`, a named column missing
+ * from the header throws.
+ */
+function mapColumns<F extends string>(
+  header: string[],
+  headers: Record<string, F>,
+  fields: F[],
+  columns: CsvColumns,
+  strict = true,
+): Map<string, number> {
+  const mapped = new Map<string, number>();
+  for (const field of fields) {
+    const named = columns[field as keyof CsvColumns];
+    if (!named) continue;
+    const index = header.findIndex((cell) => headerKey(cell) === headerKey(named));
+    if (index >= 0) mapped.set(field, index);
+    else if (strict) throw new InvariantViolationError(`column '${named}' for ${field} is not in the CSV header`);
+  }
+  const claimed = new Set(mapped.values());
+  header.forEach((cell, index) => {
+    const field = headers[headerKey(cell)];
+    if (field && !mapped.has(field) && !claimed.has(index)) mapped.set(field, index);
+  });
+  return mapped;
+}
+
+function cellOf(record: CsvRecord, mapped: Map<string, number>, field: string): string {
+  const index = mapped.get(field);
+  return index === undefined ? '' : (record.cells[index] ?? '').trim();
+}
+
+function headerKey(cell: string): string {
+  return cell.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Without the blank records before the header
+function trimBlank(records: CsvRecord[]): CsvRecord[] {
+  const first = records.findIndex((record) => !isBlankCsvRecord(record));
+  return first < 0 ? [] : records.slice(first);
+}
+
+function reason(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
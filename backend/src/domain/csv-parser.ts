@@ -0,0 +1,88 @@
+/**
+ * CSV reader.
+ *
+ * Turns CSV text into its records, as spreadsheets write it (RFC 4180):
+ * cells in double quotes may hold the delimiter, line breaks and doubled
+ * quotes; lines end in LF or CRLF; a byte-order mark is dropped. The
+ * delimiter is the comma, or the semicolon or tab when the first line has
+ * more of them outside quotes (spreadsheets in locales with a decimal
+ * comma write semicolons). Blank lines are kept as records with no cells,
+ * so a file can hold sections separated by them.
+ */
+
+export interface CsvRecord {
+  line: number; // 1-based line the record starts on
+  cells: string[]; // unquoted, not trimmed; empty for a blank line
+}
+
+const DELIMITERS = [',', ';', '\t'];
+
+export function readCsvRecords(text: string): CsvRecord[] {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  let touched = false; // whether the current record has any content or delimiter
+
+  const endRecord = () => {
+    records.push({ line: start, cells: touched || cell ? [...cells, cell] : [] });
+    cells = [];
+    cell = '';
+    touched = false;
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i];
+    if (quoted) {
+      if (c === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        if (c === '\n') line++;
+        cell += c;
+      }
+    } else if (c === '"' && !cell.trim()) {
+      cell = '';
+      quoted = true;
+      touched = true;
+    } else if (c === delimiter) {
+      cells.push(cell);
+      cell = '';
+      touched = true;
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && source[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      start = line;
+    } else {
+      cell += c;
+    }
+  }
+  if (touched || cell) endRecord();
+  return records;
+}
+
+/**
+ * True when a record holds nothing but empty cells.
+ */
+export function isBlankCsvRecord(record: CsvRecord): boolean {
+  return record.cells.every((cell) => !cell.trim());
+}
+
+// The delimiter found most often outside quotes on the first line
+function detectDelimiter(text: string): string {
+  const counts = new Map(DELIMITERS.map((delimiter) => [delimiter, 0]));
+  let quoted = false;
+  for (const c of text) {
+    if (c === '"') quoted = !quoted;
+    else if (!quoted && (c === '\n' || c === '\r')) break;
+    else if (!quoted && counts.has(c)) counts.set(c, counts.get(c)! + 1);
+  }
+  return DELIMITERS.reduce((best, delimiter) => (counts.get(delimiter)! > counts.get(best)! ? delimiter : best));
+}
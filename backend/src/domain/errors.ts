@@ -61,6 +61,20 @@ export class PersonHasRelationshipsError extends InvariantViolationError {
   }
 }
 
+export class SourceInUseError extends InvariantViolationError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SourceInUseError';
+  }
+}
+
+export class PlaceInUseError extends InvariantViolationError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlaceInUseError';
+  }
+}
+
 export class AuthorizationError extends DomainError {
   constructor(message: string) {
     super(message);
@@ -0,0 +1,243 @@
+import { InvariantViolationError } from './errors';
+
+/**
+ * Family (union) value object.
+ *
+ * A couple, or a single parent, together with the children born to or
+ * raised by that union, in birth order. Children are attached to a specific
+ * family so that a man's children by his first and second wives are not
+ * confused. The parent-child edges remain the source of truth for who is a
+ * parent of whom; a family groups them.
+ *
+ * Children recorded only through parent-child edges (older trees, or edges
+ * added one at a time) belong to an inferred family: see resolveFamilies.
+ */
+
+export interface FamilyProps {
+  familyId: string;
+  parent1Id: string;
+  parent2Id?: string | null; // null for a single-parent family
+  childIds?: string[]; // in order
+}
+
+/**
+ * Persisted shape. Parents are in canonical order (parent1Id <= parent2Id).
+ */
+export interface StoredFamily {
+  familyId: string;
+  parent1Id: string;
+  parent2Id: string | null;
+  childIds: string[];
+}
+
+export class Family {
+  readonly familyId: string;
+  readonly parent1Id: string;
+  readonly parent2Id: string | null;
+  readonly childIds: readonly string[];
+
+  private constructor(props: FamilyProps) {
+    const parent2Id = props.parent2Id || null;
+    const [parent1Id, second] =
+      parent2Id !== null && parent2Id < props.parent1Id ? [parent2Id, props.parent1Id] : [props.parent1Id, parent2Id];
+    this.familyId = props.familyId?.trim();
+    this.parent1Id = parent1Id;
+    this.parent2Id = second;
+    this.childIds = [...(props.childIds ?? [])];
+    this.validate();
+  }
+
+  static create(props: FamilyProps): Family {
+    return new Family(props);
+  }
+
+  static fromStored(stored: StoredFamily): Family {
+    return new Family(stored);
+  }
+
+  get parentIds(): string[] {
+    return this.parent2Id ? [this.parent1Id, this.parent2Id] : [this.parent1Id];
+  }
+
+  /**
+   * Key identifying the union by its parents: "a~b" for a couple (as for
+   * spouse edges), the parent's id for a single parent.
+   */
+  get parentKey(): string {
+    return familyParentKey(this.parentIds);
+  }
+
+  hasParent(personId: string): boolean {
+    return this.parent1Id === personId || this.parent2Id === personId;
+  }
+
+  hasChild(personId: string): boolean {
+    return this.childIds.includes(personId);
+  }
+
+  /**
+   * Attach a child at `position` (0-based), or after the existing children.
+   */
+  withChild(childId: string, position?: number): Family {
+    const childIds = [...this.childIds];
+    const at = position === undefined ? childIds.length : Math.max(0, Math.min(position, childIds.length));
+    childIds.splice(at, 0, childId);
+    return new Family({ ...this.toStored(), childIds });
+  }
+
+  withoutChild(childId: string): Family {
+    return new Family({ ...this.toStored(), childIds: this.childIds.filter((id) => id !== childId) });
+  }
+
+  toStored(): StoredFamily {
+    return {
+      familyId: this.familyId,
+      parent1Id: this.parent1Id,
+      parent2Id: this.parent2Id,
+      childIds: [...this.childIds],
+    };
+  }
+
+  private validate(): void {
+    if (!this.familyId) {
+      throw new InvariantViolationError('familyId is required');
+    }
+    if (!this.parent1Id) {
+      throw new InvariantViolationError('a family needs at least one parent');
+    }
+    if (this.parent1Id === this.parent2Id) {
+      throw new InvariantViolationError('family parents must be different persons');
+    }
+    const seen = new Set<string>();
+    for (const childId of this.childIds) {
+      if (this.hasParent(childId)) {
+        throw new InvariantViolationError('a parent cannot be a child of the same family');
+      }
+      if (seen.has(childId)) {
+        throw new InvariantViolationError(`child ${childId} is listed twice in family ${this.familyId}`);
+      }
+      seen.add(childId);
+    }
+  }
+}
+
+export function familyParentKey(parentIds: string[]): string {
+  return [...parentIds].sort().join('~');
+}
+
+/**
+ * A family as seen by readers (export, render data, sibling queries).
+ * Inferred families have their parent key as id.
+ */
+export interface FamilyUnit {
+  familyId: string;
+  parentIds: string[];
+  childIds: string[];
+  inferred: boolean;
+}
+
+/**
+ * Every family in a tree: the recorded ones, plus one inferred family per
+ * group of parents whose children are not attached to a recorded family.
+ *
+ * For each child, the parents not already covered by a family listing the
+ * child are grouped into unions: parents recorded as spouses of each other
+ * pair up first; if exactly two remain they form a couple (two parents of
+ * a child in a tree that never recorded their marriage); any others stand
+ * alone. A group matching a recorded family's parents joins that family.
+ * Children keep the order of their first parent-child edge after the
+ * recorded children.
+ */
+export function resolveFamilies(
+  families: StoredFamily[],
+  parentChildEdges: Array<{ parentId: string; childId: string }>,
+  spouseEdges: Array<{ spouse1Id: string; spouse2Id: string }>,
+): FamilyUnit[] {
+  const units: FamilyUnit[] = families.map((f) => ({
+    familyId: f.familyId,
+    parentIds: f.parent2Id ? [f.parent1Id, f.parent2Id] : [f.parent1Id],
+    childIds: [...f.childIds],
+    inferred: false,
+  }));
+  const byParents = new Map<string, FamilyUnit>();
+  for (const unit of units) {
+    if (!byParents.has(familyParentKey(unit.parentIds))) byParents.set(familyParentKey(unit.parentIds), unit);
+  }
+
+  const spouses = new Set(spouseEdges.map((e) => familyParentKey([e.spouse1Id, e.spouse2Id])));
+  const parentsByChild = new Map<string, string[]>();
+  for (const { parentId, childId } of parentChildEdges) {
+    const parents = parentsByChild.get(childId) ?? [];
+    if (!parents.includes(parentId)) parents.push(parentId);
+    parentsByChild.set(childId, parents);
+  }
+
+  for (const [childId, parents] of parentsByChild) {
+    const covered = new Set<string>();
+    for (const unit of units) {
+      if (unit.childIds.includes(childId)) unit.parentIds.forEach((id) => covered.add(id));
+    }
+    const uncovered = parents.filter((id) => !covered.has(id));
+
+    for (const group of groupIntoUnions(uncovered, spouses)) {
+      const key = familyParentKey(group);
+      let unit = byParents.get(key);
+      if (!unit) {
+        unit = { familyId: key, parentIds: [...group].sort(), childIds: [], inferred: true };
+        units.push(unit);
+        byParents.set(key, unit);
+      }
+      if (!unit.childIds.includes(childId)) unit.childIds.push(childId);
+    }
+  }
+  return units;
+}
+
+function groupIntoUnions(parentIds: string[], spouses: Set<string>): string[][] {
+  const groups: string[][] = [];
+  const rest = [...parentIds];
+  for (let i = 0; i < rest.length; i++) {
+    const j = rest.findIndex((other, k) => k > i && spouses.has(familyParentKey([rest[i], other])));
+    if (j !== -1) {
+      groups.push([rest[i], rest[j]]);
+      rest.splice(j, 1);
+      rest.splice(i, 1);
+      i--;
+    }
+  }
+  if (groups.length === 0 && rest.length === 2) return [rest];
+  return [...groups, ...rest.map((id) => [id])];
+}
+
+/**
+ * Siblings by blood: full siblings share both biological parents, half
+ * siblings share one. Step, adoptive, foster and guardian links do not make
+ * siblings. Listed in family order (birth order within each union).
+ */
+export interface Siblings {
+  personId: string;
+  full: string[];
+  half: string[];
+}
+
+export function siblingsOf(
+  personId: string,
+  units: FamilyUnit[],
+  biologicalParentsOf: (personId: string) => string[],
+): Siblings {
+  const parents = new Set(biologicalParentsOf(personId));
+  const full: string[] = [];
+  const half: string[] = [];
+  const seen = new Set<string>([personId]);
+  for (const unit of units) {
+    if (!unit.parentIds.some((id) => parents.has(id))) continue;
+    for (const childId of unit.childIds) {
+      if (seen.has(childId)) continue;
+      seen.add(childId);
+      const shared = biologicalParentsOf(childId).filter((id) => parents.has(id)).length;
+      if (shared >= 2) full.push(childId);
+      else if (shared === 1) half.push(childId);
+    }
+  }
+  return { personId, full, half };
+}
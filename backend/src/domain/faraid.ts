@@ -0,0 +1,595 @@
+import type { GenealogicalDate } from './genealogical-date';
+import type { MarriageStatus } from './marriage';
+import type { Gender } from './person';
+
+/**
+ * Farāʾiḍ.
+ *
+ * The Islamic law of inheritance: who among the relatives of a deceased
+ * person inherits, and what fraction of the estate each takes.
+ *
+ * Heirs are the relatives who outlived the deceased. Someone with no
+ * recorded death survived; someone whose death cannot be shown to come
+ * after the deceased's did not (those who die together, or in an unknown
+ * order, do not inherit from each other). They are found through
+ * biological parents and children and through marriages that were not
+ * ended by divorce or annulment. A line is followed only through those who
+ * died first: the children of a living son, the sons of a living brother
+ * and the brothers of a living father never inherit alongside them. A
+ * person related in two ways inherits by the nearer.
+ *
+ * The shares follow the Sunni schools where they agree:
+ *
+ * - Fixed shares (farḍ): a husband 1/2, 1/4 with descendants; wives 1/4,
+ *   1/8 with descendants. A father or paternal grandfather 1/6 with
+ *   descendants, the residue too when they are all female. A mother 1/3,
+ *   1/6 with descendants or two or more siblings, and with a spouse and
+ *   the father, 1/3 of what the spouse leaves (al-ʿUmariyyatān).
+ *   Grandmothers 1/6 between them. Daughters, then son's daughters, then
+ *   full sisters, then paternal sisters: one alone 1/2, several 2/3, and
+ *   the next line 1/6 to complete 2/3 after one took 1/2. Maternal
+ *   siblings 1/6, several 1/3 equally.
+ * - Residuaries (ʿaṣaba) take what the fixed shares leave, the nearest
+ *   class alone: sons and the male line below them, the father, the
+ *   paternal grandfather, full then paternal brothers, their sons, full
+ *   then paternal uncles, their sons. A daughter or sister takes with her
+ *   brother at half his share, and sisters take the residue alongside
+ *   daughters. A son's son brings in the son's daughters above him who
+ *   would otherwise get nothing.
+ * - Exclusion (ḥajb): the nearer shuts out the farther as usual; the
+ *   father or grandfather and any male descendant exclude siblings, any
+ *   descendant excludes maternal siblings; the grandfather does not share
+ *   with siblings (the Ḥanafī view).
+ * - ʿAwl: fixed shares adding up to more than the estate are scaled down
+ *   to fit it. Radd: with no residuary, what is left goes back to the
+ *   fixed sharers in proportion, spouses excepted; left with only a
+ *   spouse, it is reported as unallocated (for distant kindred or the
+ *   treasury, which this does not resolve).
+ *
+ * Exact fractions throughout.
+ */
+
+export type HeirRole =
+  | 'HUSBAND'
+  | 'WIFE'
+  | 'SON'
+  | 'DAUGHTER'
+  | 'SONS_SON' // and further down the male line
+  | 'SONS_DAUGHTER'
+  | 'FATHER'
+  | 'MOTHER'
+  | 'PATERNAL_GRANDFATHER' // the father's father, or further up the male line
+  | 'PATERNAL_GRANDMOTHER'
+  | 'MATERNAL_GRANDMOTHER'
+  | 'FULL_BROTHER'
+  | 'FULL_SISTER'
+  | 'PATERNAL_BROTHER'
+  | 'PATERNAL_SISTER'
+  | 'MATERNAL_BROTHER'
+  | 'MATERNAL_SISTER'
+  | 'FULL_NEPHEW' // a full brother's son
+  | 'PATERNAL_NEPHEW'
+  | 'FULL_UNCLE' // the father's full brother
+  | 'PATERNAL_UNCLE'
+  | 'FULL_COUSIN' // a full uncle's son
+  | 'PATERNAL_COUSIN';
+
+export const HEIR_ROLES: HeirRole[] = [
+  'HUSBAND',
+  'WIFE',
+  'SON',
+  'DAUGHTER',
+  'SONS_SON',
+  'SONS_DAUGHTER',
+  'FATHER',
+  'MOTHER',
+  'PATERNAL_GRANDFATHER',
+  'PATERNAL_GRANDMOTHER',
+  'MATERNAL_GRANDMOTHER',
+  'FULL_BROTHER',
+  'FULL_SISTER',
+  'PATERNAL_BROTHER',
+  'PATERNAL_SISTER',
+  'MATERNAL_BROTHER',
+  'MATERNAL_SISTER',
+  'FULL_NEPHEW',
+  'PATERNAL_NEPHEW',
+  'FULL_UNCLE',
+  'PATERNAL_UNCLE',
+  'FULL_COUSIN',
+  'PATERNAL_COUSIN',
+];
+
+/** Why an heir takes what they take */
+export type ShareRule =
+  | 'HUSBAND_HALF'
+  | 'HUSBAND_QUARTER'
+  | 'WIFE_QUARTER'
+  | 'WIFE_EIGHTH'
+  | 'FATHER_SIXTH' // also a grandfather in the father's place
+  | 'FATHER_SIXTH_AND_RESIDUE'
+  | 'MOTHER_THIRD'
+  | 'MOTHER_SIXTH'
+  | 'MOTHER_THIRD_OF_REMAINDER'
+  | 'GRANDMOTHER_SIXTH'
+  | 'HALF'
+  | 'TWO_THIRDS'
+  | 'SIXTH_COMPLETING_TWO_THIRDS'
+  | 'MATERNAL_SIBLING_SIXTH'
+  | 'MATERNAL_SIBLINGS_THIRD'
+  | 'RESIDUARY'
+  | 'RESIDUARY_WITH_BROTHER'
+  | 'RESIDUARY_WITH_DAUGHTERS'
+  | 'EXCLUDED';
+
+export interface Fraction {
+  numerator: number;
+  denominator: number;
+}
+
+export interface Heir {
+  personId: string;
+  role: HeirRole;
+  generation: number | null; // lineal heirs: 1 for a child or parent, 2 for a grandchild or grandparent
+}
+
+export interface HeirShare extends Heir {
+  rule: ShareRule;
+  fixed: Fraction | null; // of the heir's group, before ʿawl or radd
+  excludedBy: HeirRole | null;
+  share: Fraction; // of the estate
+}
+
+export interface EstateDistribution {
+  heirs: HeirShare[];
+  base: number; // common denominator of the shares (aṣl al-masʾala)
+  adjustment: 'AWL' | 'RADD' | null;
+  unallocated: Fraction;
+}
+
+export interface FaraidLookup {
+  genderOf(personId: string): Gender;
+  deathDateOf(personId: string): GenealogicalDate | null;
+  parentsOf(personId: string): string[]; // biological
+  childrenOf(personId: string): string[]; // biological
+  spousesOf(personId: string): { spouseId: string; status: MarriageStatus }[];
+}
+
+export interface FoundHeirs {
+  heirs: Heir[];
+  genderUnknown: string[]; // surviving relatives left out because their gender decides their role
+  sideUnknown: string[]; // left out because a missing parent hides whether the sibling tie is full or half
+}
+
+// Exact fractions
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+const fraction = (numerator: number, denominator = 1): Fraction => {
+  const divisor = gcd(numerator, denominator) || 1;
+  const sign = denominator < 0 ? -1 : 1;
+  return { numerator: (sign * numerator) / divisor, denominator: (sign * denominator) / divisor };
+};
+
+const add = (a: Fraction, b: Fraction) =>
+  fraction(a.numerator * b.denominator + b.numerator * a.denominator, a.denominator * b.denominator);
+const subtract = (a: Fraction, b: Fraction) => add(a, fraction(-b.numerator, b.denominator));
+const multiply = (a: Fraction, b: Fraction) => fraction(a.numerator * b.numerator, a.denominator * b.denominator);
+const divide = (a: Fraction, b: Fraction) => fraction(a.numerator * b.denominator, a.denominator * b.numerator);
+const compare = (a: Fraction, b: Fraction) => a.numerator * b.denominator - b.numerator * a.denominator;
+const sum = (fractions: Fraction[]) => fractions.reduce(add, ZERO);
+
+const ZERO = fraction(0);
+const ONE = fraction(1);
+const HALF = fraction(1, 2);
+const THIRD = fraction(1, 3);
+const QUARTER = fraction(1, 4);
+const SIXTH = fraction(1, 6);
+const EIGHTH = fraction(1, 8);
+const TWO_THIRDS = fraction(2, 3);
+
+const MALE_ROLES: Partial<Record<HeirRole, boolean>> = {
+  HUSBAND: true,
+  SON: true,
+  SONS_SON: true,
+  FATHER: true,
+  PATERNAL_GRANDFATHER: true,
+  FULL_BROTHER: true,
+  PATERNAL_BROTHER: true,
+  MATERNAL_BROTHER: true,
+  FULL_NEPHEW: true,
+  PATERNAL_NEPHEW: true,
+  FULL_UNCLE: true,
+  PATERNAL_UNCLE: true,
+  FULL_COUSIN: true,
+  PATERNAL_COUSIN: true,
+};
+
+const isMale = (heir: Heir) => MALE_ROLES[heir.role] === true;
+
+// Finding heirs
+
+/**
+ * The relatives of `deceasedId` who inherit, given the date they died on:
+ * spouses, the male line of descendants, parents and grandparents,
+ * siblings, and the male line of brothers, uncles and cousins.
+ */
+export function findHeirs(lookup: FaraidLookup, deceasedId: string, diedOn: GenealogicalDate): FoundHeirs {
+  const heirs: Heir[] = [];
+  const genderUnknown: string[] = [];
+  const sideUnknown: string[] = [];
+  const seen = new Set<string>([deceasedId]);
+  const survived = (id: string) => {
+    const deathDate = lookup.deathDateOf(id);
+    return deathDate === null || diedOn.isCertainlyBefore(deathDate);
+  };
+  const sorted = (ids: string[]) => [...ids].sort((a, b) => a.localeCompare(b));
+  const parent = (id: string, gender: Gender) => lookup.parentsOf(id).find((p) => lookup.genderOf(p) === gender);
+
+  // Records a survivor under the role for their gender; false when they did not survive
+  const consider = (id: string, roles: Partial<Record<Gender, HeirRole>>, generation: number | null = null) => {
+    if (!survived(id)) return false;
+    if (seen.has(id)) return true;
+    seen.add(id);
+    const gender = lookup.genderOf(id);
+    const role = roles[gender];
+    if (role) heirs.push({ personId: id, role, generation });
+    else if (gender === 'UNKNOWN') genderUnknown.push(id);
+    return true;
+  };
+
+  for (const { spouseId, status } of [...lookup.spousesOf(deceasedId)].sort((a, b) =>
+    a.spouseId.localeCompare(b.spouseId),
+  )) {
+    if (status === 'DIVORCED' || status === 'ANNULLED') continue;
+    consider(spouseId, { MALE: 'HUSBAND', FEMALE: 'WIFE' });
+  }
+
+  // Children, then the children of sons who died first, and so on down
+  const descend = (id: string, generation: number) => {
+    for (const childId of sorted(lookup.childrenOf(id))) {
+      const roles: Partial<Record<Gender, HeirRole>> =
+        generation === 1 ? { MALE: 'SON', FEMALE: 'DAUGHTER' } : { MALE: 'SONS_SON', FEMALE: 'SONS_DAUGHTER' };
+      if (!consider(childId, roles, generation) && lookup.genderOf(childId) === 'MALE') {
+        descend(childId, generation + 1);
+      }
+    }
+  };
+  descend(deceasedId, 1);
+
+  const fatherId = parent(deceasedId, 'MALE');
+  const motherId = parent(deceasedId, 'FEMALE');
+  const fatherSurvived = fatherId ? consider(fatherId, { MALE: 'FATHER' }, 1) : false;
+  if (motherId) consider(motherId, { FEMALE: 'MOTHER' }, 1);
+  for (const id of lookup.parentsOf(deceasedId)) {
+    if (id !== fatherId && id !== motherId) consider(id, {});
+  }
+
+  // The nearest surviving ancestor up the male line above the father
+  let ancestorId = fatherId ? parent(fatherId, 'MALE') : undefined;
+  for (let generation = 2; ancestorId; generation++) {
+    if (consider(ancestorId, { MALE: 'PATERNAL_GRANDFATHER' }, generation)) break;
+    ancestorId = parent(ancestorId, 'MALE');
+  }
+  const paternalGrandmother = fatherId ? parent(fatherId, 'FEMALE') : undefined;
+  const maternalGrandmother = motherId ? parent(motherId, 'FEMALE') : undefined;
+  if (paternalGrandmother) consider(paternalGrandmother, { FEMALE: 'PATERNAL_GRANDMOTHER' }, 2);
+  if (maternalGrandmother) consider(maternalGrandmother, { FEMALE: 'MATERNAL_GRANDMOTHER' }, 2);
+
+  // Siblings of `personId` by the parents they share: full, through the father, through the mother,
+  // or UNKNOWN when sharing one parent and a parent of either is not recorded, so they may share both
+  const siblingsOf = (personId: string, father: string | undefined, mother: string | undefined) => {
+    const byFather = new Set(father ? lookup.childrenOf(father) : []);
+    const byMother = new Set(mother ? lookup.childrenOf(mother) : []);
+    const bothRecorded = (id: string) => parent(id, 'MALE') !== undefined && parent(id, 'FEMALE') !== undefined;
+    return sorted([...new Set([...byFather, ...byMother])])
+      .filter((id) => id !== personId)
+      .map((id) => ({
+        id,
+        side:
+          byFather.has(id) && byMother.has(id)
+            ? 'FULL'
+            : !bothRecorded(personId) || !bothRecorded(id)
+              ? 'UNKNOWN'
+              : byFather.has(id)
+                ? 'PATERNAL'
+                : 'MATERNAL',
+      }));
+  };
+
+  // A sibling of unknown side is left out, as are the sons of one who died first
+  const leaveOut = (id: string) => {
+    if (survived(id)) {
+      if (!seen.has(id)) sideUnknown.push(id);
+      seen.add(id);
+    } else if (lookup.genderOf(id) === 'MALE') {
+      for (const childId of sorted(lookup.childrenOf(id))) {
+        if (lookup.genderOf(childId) === 'MALE' && survived(childId) && !seen.has(childId)) {
+          seen.add(childId);
+          sideUnknown.push(childId);
+        }
+      }
+    }
+  };
+
+  // Sons of brothers (or uncles) who died first
+  const sonsOf = (id: string, role: HeirRole) => {
+    for (const childId of sorted(lookup.childrenOf(id))) {
+      if (lookup.genderOf(childId) === 'MALE') consider(childId, { MALE: role });
+    }
+  };
+
+  const brothersWhoDied: { id: string; side: string }[] = [];
+  for (const { id, side } of siblingsOf(deceasedId, fatherId, motherId)) {
+    if (side === 'UNKNOWN') {
+      leaveOut(id);
+      continue;
+    }
+    const roles: Partial<Record<Gender, HeirRole>> =
+      side === 'FULL'
+        ? { MALE: 'FULL_BROTHER', FEMALE: 'FULL_SISTER' }
+        : side === 'PATERNAL'
+          ? { MALE: 'PATERNAL_BROTHER', FEMALE: 'PATERNAL_SISTER' }
+          : { MALE: 'MATERNAL_BROTHER', FEMALE: 'MATERNAL_SISTER' };
+    if (!consider(id, roles) && side !== 'MATERNAL' && lookup.genderOf(id) === 'MALE') {
+      brothersWhoDied.push({ id, side });
+    }
+  }
+  for (const { id, side } of brothersWhoDied) sonsOf(id, side === 'FULL' ? 'FULL_NEPHEW' : 'PATERNAL_NEPHEW');
+
+  // The father's brothers, when the father died first, and the sons of those who died too
+  if (fatherId && !fatherSurvived) {
+    const unclesWhoDied: { id: string; side: string }[] = [];
+    for (const { id, side } of siblingsOf(fatherId, parent(fatherId, 'MALE'), paternalGrandmother)) {
+      if (side === 'MATERNAL' || lookup.genderOf(id) !== 'MALE') continue;
+      if (side === 'UNKNOWN') {
+        leaveOut(id);
+        continue;
+      }
+      if (!consider(id, { MALE: side === 'FULL' ? 'FULL_UNCLE' : 'PATERNAL_UNCLE' })) unclesWhoDied.push({ id, side });
+    }
+    for (const { id, side } of unclesWhoDied) sonsOf(id, side === 'FULL' ? 'FULL_COUSIN' : 'PATERNAL_COUSIN');
+  }
+
+  const order = (heir: Heir) => HEIR_ROLES.indexOf(heir.role);
+  heirs.sort((a, b) => order(a) - order(b) || (a.generation ?? 0) - (b.generation ?? 0));
+  return { heirs, genderUnknown, sideUnknown };
+}
+
+// Distributing the estate
+
+interface Group {
+  heirs: Heir[];
+  rule: ShareRule;
+  fixed: Fraction | null;
+  residuary: boolean; // takes the residue, weighted two to one by gender
+}
+
+/**
+ * Each heir's share of the estate, with the rule behind it. `heirs` are
+ * those who survived the deceased, as `findHeirs` returns them.
+ */
+export function distributeEstate(heirs: Heir[]): EstateDistribution {
+  const of = (...roles: HeirRole[]) => heirs.filter((heir) => roles.includes(heir.role));
+  const groups: Group[] = [];
+  const excluded = new Map<string, HeirRole>();
+  const exclude = (list: Heir[], by: HeirRole) => list.forEach((heir) => excluded.set(heir.personId, by));
+  const fixedShare = (list: Heir[], rule: ShareRule, fixed: Fraction) => {
+    if (list.length > 0) groups.push({ heirs: list, rule, fixed, residuary: false });
+  };
+  // Residuary classes, nearest first; the first present takes the residue
+  const residuaries: Group[] = [];
+  const residuary = (list: Heir[], rule: ShareRule = 'RESIDUARY') => {
+    if (list.length > 0) residuaries.push({ heirs: list, rule, fixed: null, residuary: true });
+  };
+
+  // Descendants, a generation at a time
+  const descendants = of('SON', 'DAUGHTER', 'SONS_SON', 'SONS_DAUGHTER');
+  const maleDescendant = descendants.find(isMale);
+  const generations = [...new Set(descendants.map((heir) => heir.generation!))].sort((a, b) => a - b);
+  let daughtersTook = ZERO;
+  let filledBy: HeirRole | null = null;
+  let leftOut: Heir[] = []; // females left nothing once 2/3 is taken, until a male below brings them in
+  let residuaryLine: Heir[] | null = null;
+  for (const generation of generations) {
+    const level = descendants.filter((heir) => heir.generation === generation);
+    if (residuaryLine) {
+      exclude(level, residuaryLine[0].role);
+      continue;
+    }
+    const males = level.filter(isMale);
+    const females = level.filter((heir) => !isMale(heir));
+    if (males.length > 0) {
+      residuaryLine = [...males, ...females, ...leftOut];
+      leftOut = [];
+    } else if (compare(daughtersTook, TWO_THIRDS) >= 0) {
+      leftOut.push(...females);
+    } else if (daughtersTook.numerator === 0) {
+      const several = females.length > 1;
+      fixedShare(females, several ? 'TWO_THIRDS' : 'HALF', several ? TWO_THIRDS : HALF);
+      daughtersTook = several ? TWO_THIRDS : HALF;
+      filledBy = females[0].role;
+    } else {
+      fixedShare(females, 'SIXTH_COMPLETING_TWO_THIRDS', SIXTH);
+      daughtersTook = TWO_THIRDS;
+      filledBy = females[0].role;
+    }
+  }
+  if (filledBy) exclude(leftOut, filledBy);
+  if (residuaryLine) {
+    residuaries.push({ heirs: residuaryLine, rule: 'RESIDUARY_WITH_BROTHER', fixed: null, residuary: true });
+  }
+  const hasDescendants = descendants.length > 0;
+  const femaleDescendantsOnly = hasDescendants && !maleDescendant;
+
+  // Spouses
+  const husbands = of('HUSBAND');
+  const wives = of('WIFE');
+  fixedShare(husbands, hasDescendants ? 'HUSBAND_QUARTER' : 'HUSBAND_HALF', hasDescendants ? QUARTER : HALF);
+  fixedShare(wives, hasDescendants ? 'WIFE_EIGHTH' : 'WIFE_QUARTER', hasDescendants ? EIGHTH : QUARTER);
+  const spouseShare = groups.find(
+    (group) => group.heirs[0].role === 'HUSBAND' || group.heirs[0].role === 'WIFE',
+  )?.fixed;
+
+  // Father, or the grandfather in his place
+  const [father] = of('FATHER');
+  const grandfathers = of('PATERNAL_GRANDFATHER');
+  if (father) exclude(grandfathers, 'FATHER');
+  const ascendant = father ?? grandfathers[0];
+  if (ascendant) {
+    if (maleDescendant) {
+      fixedShare([ascendant], 'FATHER_SIXTH', SIXTH);
+    } else if (femaleDescendantsOnly) {
+      fixedShare([ascendant], 'FATHER_SIXTH_AND_RESIDUE', SIXTH);
+      residuary([ascendant], 'FATHER_SIXTH_AND_RESIDUE');
+    } else {
+      residuary([ascendant]);
+    }
+  }
+
+  // Mother and grandmothers
+  const siblings = of(
+    'FULL_BROTHER',
+    'FULL_SISTER',
+    'PATERNAL_BROTHER',
+    'PATERNAL_SISTER',
+    'MATERNAL_BROTHER',
+    'MATERNAL_SISTER',
+  );
+  const [mother] = of('MOTHER');
+  if (mother) {
+    if (hasDescendants || siblings.length >= 2) {
+      fixedShare([mother], 'MOTHER_SIXTH', SIXTH);
+    } else if (father && spouseShare) {
+      fixedShare([mother], 'MOTHER_THIRD_OF_REMAINDER', multiply(THIRD, subtract(ONE, spouseShare)));
+    } else {
+      fixedShare([mother], 'MOTHER_THIRD', THIRD);
+    }
+  }
+  const paternalGrandmothers = of('PATERNAL_GRANDMOTHER');
+  const maternalGrandmothers = of('MATERNAL_GRANDMOTHER');
+  if (mother) {
+    exclude([...paternalGrandmothers, ...maternalGrandmothers], 'MOTHER');
+  } else {
+    if (father) exclude(paternalGrandmothers, 'FATHER');
+    fixedShare([...(father ? [] : paternalGrandmothers), ...maternalGrandmothers], 'GRANDMOTHER_SIXTH', SIXTH);
+  }
+
+  // Siblings
+  const [fullBrothers, fullSisters, paternalBrothers, paternalSisters] = (
+    ['FULL_BROTHER', 'FULL_SISTER', 'PATERNAL_BROTHER', 'PATERNAL_SISTER'] as HeirRole[]
+  ).map((role) => of(role));
+  const maternalSiblings = of('MATERNAL_BROTHER', 'MATERNAL_SISTER');
+  const lineExcluder = maleDescendant?.role ?? ascendant?.role ?? null;
+  const sistersAlone = (list: Heir[]) =>
+    fixedShare(list, list.length > 1 ? 'TWO_THIRDS' : 'HALF', list.length > 1 ? TWO_THIRDS : HALF);
+  if (lineExcluder) {
+    exclude([...fullBrothers, ...fullSisters, ...paternalBrothers, ...paternalSisters], lineExcluder);
+  } else {
+    const fullSistersWithDaughters = fullBrothers.length === 0 && fullSisters.length > 0 && femaleDescendantsOnly;
+    if (fullBrothers.length > 0) residuary([...fullBrothers, ...fullSisters], 'RESIDUARY_WITH_BROTHER');
+    else if (fullSistersWithDaughters) residuary(fullSisters, 'RESIDUARY_WITH_DAUGHTERS');
+    else sistersAlone(fullSisters);
+
+    if (fullBrothers.length > 0) {
+      exclude([...paternalBrothers, ...paternalSisters], 'FULL_BROTHER');
+    } else if (fullSistersWithDaughters) {
+      exclude([...paternalBrothers, ...paternalSisters], 'FULL_SISTER');
+    } else if (paternalBrothers.length > 0) {
+      residuary([...paternalBrothers, ...paternalSisters], 'RESIDUARY_WITH_BROTHER');
+    } else if (paternalSisters.length > 0 && femaleDescendantsOnly) {
+      residuary(paternalSisters, 'RESIDUARY_WITH_DAUGHTERS');
+    } else if (fullSisters.length === 0) {
+      sistersAlone(paternalSisters);
+    } else if (fullSisters.length === 1) {
+      fixedShare(paternalSisters, 'SIXTH_COMPLETING_TWO_THIRDS', SIXTH);
+    } else {
+      exclude(paternalSisters, 'FULL_SISTER');
+    }
+  }
+  const maternalExcluder = descendants[0]?.role ?? ascendant?.role ?? null;
+  if (maternalExcluder) {
+    exclude(maternalSiblings, maternalExcluder);
+  } else if (maternalSiblings.length > 1) {
+    fixedShare(maternalSiblings, 'MATERNAL_SIBLINGS_THIRD', THIRD);
+  } else {
+    fixedShare(maternalSiblings, 'MATERNAL_SIBLING_SIXTH', SIXTH);
+  }
+
+  // The rest of the male line
+  for (const role of [
+    'FULL_NEPHEW',
+    'PATERNAL_NEPHEW',
+    'FULL_UNCLE',
+    'PATERNAL_UNCLE',
+    'FULL_COUSIN',
+    'PATERNAL_COUSIN',
+  ] as HeirRole[]) {
+    residuary(of(role));
+  }
+
+  // The nearest residuary class takes the residue and shuts out the rest
+  const [taker, ...others] = residuaries;
+  for (const group of others) {
+    exclude(
+      group.heirs.filter((heir) => !groups.some((g) => g.heirs.includes(heir))),
+      taker.heirs[0].role,
+    );
+  }
+
+  const fixedTotal = sum(groups.map((group) => group.fixed!));
+  const residue = subtract(ONE, fixedTotal);
+  const shares = new Map<string, Fraction>();
+  const credit = (heir: Heir, amount: Fraction) =>
+    shares.set(heir.personId, add(shares.get(heir.personId) ?? ZERO, amount));
+  const split = (group: Group, amount: Fraction) => {
+    const weight = (heir: Heir) => (group.residuary && isMale(heir) ? 2 : 1);
+    const weights = group.heirs.reduce((total, heir) => total + weight(heir), 0);
+    group.heirs.forEach((heir) => credit(heir, multiply(amount, fraction(weight(heir), weights))));
+  };
+
+  let adjustment: EstateDistribution['adjustment'] = null;
+  let unallocated = ZERO;
+  if (compare(residue, ZERO) < 0) {
+    adjustment = 'AWL';
+    groups.forEach((group) => split(group, divide(group.fixed!, fixedTotal)));
+  } else {
+    groups.forEach((group) => split(group, group.fixed!));
+    if (taker) {
+      split(taker, residue);
+    } else if (compare(residue, ZERO) > 0) {
+      const returning = groups.filter((group) => group.heirs[0].role !== 'HUSBAND' && group.heirs[0].role !== 'WIFE');
+      const returningTotal = sum(returning.map((group) => group.fixed!));
+      if (returning.length > 0) {
+        adjustment = 'RADD';
+        returning.forEach((group) => split(group, multiply(residue, divide(group.fixed!, returningTotal))));
+      } else {
+        unallocated = residue;
+      }
+    }
+  }
+
+  const ruleOf = new Map<string, Group>();
+  for (const group of [...residuaries.slice(0, 1), ...groups]) {
+    group.heirs.forEach((heir) => ruleOf.set(heir.personId, group));
+  }
+  const distributed: HeirShare[] = heirs.map((heir) => {
+    const excludedBy = excluded.get(heir.personId) ?? null;
+    const group = excludedBy ? undefined : ruleOf.get(heir.personId);
+    // A brother takes as a residuary in his own right; only his sister takes "with her brother"
+    const rule = group?.rule === 'RESIDUARY_WITH_BROTHER' && isMale(heir) ? 'RESIDUARY' : group?.rule;
+    return {
+      ...heir,
+      rule: rule ?? 'EXCLUDED',
+      fixed: group?.fixed ?? null,
+      excludedBy,
+      share: shares.get(heir.personId) ?? ZERO,
+    };
+  });
+
+  const denominators = [...distributed.map((heir) => heir.share), unallocated]
+    .filter((share) => share.numerator !== 0)
+    .map((share) => share.denominator);
+  const base = denominators.reduce((lcm, d) => (lcm * d) / gcd(lcm, d), 1);
+  return { heirs: distributed, base, adjustment, unallocated };
+}
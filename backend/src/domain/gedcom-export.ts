@@ -0,0 +1,317 @@
+import { Citation, citationTargetKey, type CitationTarget, type StoredCitation } from './citation';
+import { familyParentKey, resolveFamilies, type StoredFamily } from './family';
+import { GenealogicalDate, type GenealogicalDateProps } from './genealogical-date';
+import { LifeEvent, type StoredLifeEvent } from './life-event';
+import { Marriage, type StoredMarriage } from './marriage';
+import { MediaObject, type StoredMedia } from './media';
+import { PersonName, normalizePrimaryName, type PersonNameProps } from './person-name';
+import { Place, type StoredPlace } from './place';
+import { PARENT_CHILD_TYPES, type ParentChildType } from './relationship';
+import { Source, type StoredSource } from './source';
+import { gedcomStructure, writeGedcom, type GedcomStructure, type GedcomVersion } from './gedcom-writer';
+
+/**
+ * GEDCOM export.
+ *
+ * Builds the records of a stored tree (persons, edges, families, sources,
+ * citations, media, places) and writes them as GEDCOM 5.5.1 or 7.0.
+ *
+ * Families are rebuilt from the parents of each child: every FAM is one
+ * pair of parents (or one parent alone) and holds exactly the children
+ * recorded with those parents, whatever order the edges were stored in. A
+ * couple recorded as spouses keeps its FAM even with no children, and a
+ * couple with two recorded families keeps both, the marriage written on
+ * the first. Both sides of each link are written: HUSB, WIFE and CHIL on
+ * the FAM, FAMS and FAMC back on each individual.
+ *
+ * Record ids are the person ids, F1, F2, ... for families, S1, ... for
+ * sources and M1, ... for media, skipping numbers a person id already
+ * uses; the writer turns them into valid xrefs.
+ */
+
+/**
+ * A tree as stored: what a GEDCOM export is written from. Dates may be
+ * plain Dates on legacy trees.
+ */
+export interface GedcomExportSnapshot {
+  persons: Array<{
+    personId: string;
+    name: string;
+    names?: PersonNameProps[] | null;
+    gender: 'MALE' | 'FEMALE' | 'UNKNOWN';
+    birthDate?: Date | GenealogicalDateProps | null;
+    birthPlace?: string | null;
+    birthPlaceId?: string | null;
+    deathDate?: Date | GenealogicalDateProps | null;
+    events?: StoredLifeEvent[] | null;
+  }>;
+  parentChildEdges: Array<{ parentId: string; childId: string; type?: ParentChildType }>;
+  spouseEdges: Array<{ spouse1Id: string; spouse2Id: string } & StoredMarriage>;
+  families?: StoredFamily[];
+  sources?: StoredSource[];
+  citations?: StoredCitation[];
+  media?: StoredMedia[];
+  places?: StoredPlace[];
+}
+
+// Written as the file's source system (HEAD.SOUR)
+const GEDCOM_SOURCE = 'silsilah';
+
+/**
+ * GEDCOM pedigree linkage under FAMC. STEP, GUARDIAN and MILK have no
+ * standard PEDI value: 5.5.1 writes them as user-defined _PEDI, 7.0 as
+ * PEDI OTHER with the linkage as its phrase.
+ */
+const GEDCOM_PEDIGREE: Record<ParentChildType, string | null> = {
+  BIOLOGICAL: 'birth',
+  ADOPTIVE: 'adopted',
+  FOSTER: 'foster',
+  STEP: null,
+  GUARDIAN: null,
+  MILK: null,
+};
+
+interface GedcomFamily {
+  id: string;
+  husband?: string;
+  wife?: string;
+  spouses: { spouse1Id: string; spouse2Id: string } | null; // the couple whose marriage this FAM records
+  marriage?: Marriage;
+  children: Map<string, ParentChildType>; // child -> pedigree
+}
+
+/**
+ * The tree in `snapshot` as a GEDCOM file.
+ */
+export function exportGedcom(snapshot: GedcomExportSnapshot, version: GedcomVersion = '5.5.1'): string {
+  const { persons, parentChildEdges } = snapshot;
+  const sources = snapshot.sources ?? [];
+
+  // Qualified and partial dates keep their GEDCOM form (ABT 1890, BET 1850 AND 1860)
+  const formatDate = (value: Date | GenealogicalDateProps | null | undefined): string | null =>
+    GenealogicalDate.from(value)?.toGedcom(version) ?? null;
+
+  const personMap = new Map(persons.map((p) => [p.personId, p]));
+  const recordIds = numberer(new Set(personMap.keys()));
+  const gedcomFamilies = familiesOf(snapshot, () => recordIds('F'));
+
+  // Sources are numbered S1, S2, ...; each citation is written under the
+  // fact it cites
+  const sourceXrefs = new Map(sources.map((source) => [source.sourceId, recordIds('S')]));
+  const citationsByFact = new Map<string, Citation[]>();
+  for (const stored of snapshot.citations ?? []) {
+    const citation = Citation.fromStored(stored);
+    if (!sourceXrefs.has(citation.sourceId)) continue;
+    citationsByFact.set(citation.targetKey, [...(citationsByFact.get(citation.targetKey) ?? []), citation]);
+  }
+  const cite = (target: CitationTarget, note?: string): GedcomStructure[] =>
+    (citationsByFact.get(citationTargetKey(target)) ?? []).map((citation) =>
+      citation.toGedcomStructure(sourceXrefs.get(citation.sourceId)!, note),
+    );
+
+  // Media are numbered M1, M2, ...; each is referenced from the persons and
+  // events it shows, the portrait marked _PRIM
+  const mediaObjects = (snapshot.media ?? []).map((stored) => MediaObject.fromStored(stored));
+  const mediaXrefs = new Map(mediaObjects.map((m) => [m.mediaId, recordIds('M')]));
+  const mediaRefs = (personId: string, eventId: string | null): GedcomStructure[] =>
+    mediaObjects.flatMap((m) =>
+      m.links
+        .filter((link) => link.personId === personId && link.eventId === eventId)
+        .map((link) =>
+          pointer('OBJE', mediaXrefs.get(m.mediaId)!, link.primary ? [gedcomStructure('_PRIM', 'Y')] : []),
+        ),
+    );
+
+  // Births and events linked to the gazetteer carry its full name as PLAC
+  // (already in the snapshot) and the place's coordinates as MAP
+  const placeMap = new Map((snapshot.places ?? []).map((stored) => [stored.placeId, Place.fromStored(stored)]));
+  const placeOf = (placeId: string | null | undefined): Place | null => (placeId && placeMap.get(placeId)) || null;
+
+  // FAMS in the order of the person's marriages; single-parent families last
+  const spouseFamilies = (personId: string): string[] =>
+    gedcomFamilies
+      .map((fam) => {
+        if (fam.husband === personId) return { id: fam.id, order: fam.marriage?.spouse1Order ?? Infinity };
+        if (fam.wife === personId) return { id: fam.id, order: fam.marriage?.spouse2Order ?? Infinity };
+        return null;
+      })
+      .filter((fam): fam is { id: string; order: number } => fam !== null)
+      .sort((x, y) => x.order - y.order)
+      .map((fam) => fam.id);
+
+  const records: GedcomStructure[] = [];
+
+  // Individuals
+  for (const p of persons) {
+    const fields: GedcomStructure[] = [];
+    // Structured names, primary first; persons without them keep the plain display name
+    // Name citations go under the primary (first) name
+    const names = normalizePrimaryName((p.names ?? []).map((name) => PersonName.create(name)));
+    const nameCitations = cite({ kind: 'PERSON', personId: p.personId, fact: 'NAME' });
+    if (names.length === 0) {
+      fields.push(gedcomStructure('NAME', p.name, nameCitations));
+    }
+    [...names.filter((n) => n.primary), ...names.filter((n) => !n.primary)].forEach((name, i) => {
+      const structure = name.toGedcomStructure(version);
+      fields.push(i === 0 ? { ...structure, children: [...(structure.children ?? []), ...nameCitations] } : structure);
+    });
+    fields.push(gedcomStructure('SEX', p.gender === 'MALE' ? 'M' : p.gender === 'FEMALE' ? 'F' : 'U'));
+    // A cited birth or death is written even when its date is unknown
+    const birthDate = formatDate(p.birthDate);
+    const birthCitations = cite({ kind: 'PERSON', personId: p.personId, fact: 'BIRTH' });
+    if (birthDate || p.birthPlace || birthCitations.length > 0) {
+      fields.push(
+        gedcomStructure('BIRT', null, [
+          ...(birthDate ? [gedcomStructure('DATE', birthDate)] : []),
+          ...(p.birthPlace
+            ? [gedcomStructure('PLAC', p.birthPlace, placeOf(p.birthPlaceId)?.toGedcomMapStructures() ?? [])]
+            : []),
+          ...birthCitations,
+        ]),
+      );
+    }
+    const deathDate = formatDate(p.deathDate);
+    const deathCitations = cite({ kind: 'PERSON', personId: p.personId, fact: 'DEATH' });
+    if (deathDate || deathCitations.length > 0) {
+      fields.push(
+        gedcomStructure('DEAT', null, [...(deathDate ? [gedcomStructure('DATE', deathDate)] : []), ...deathCitations]),
+      );
+    }
+    for (const event of p.events ?? []) {
+      const structure = LifeEvent.fromStored(event).toGedcomStructure(version, placeOf(event.placeId));
+      fields.push({
+        ...structure,
+        children: [
+          ...(structure.children ?? []),
+          ...cite({ kind: 'EVENT', personId: p.personId, eventId: event.eventId }),
+          ...mediaRefs(p.personId, event.eventId),
+        ],
+      });
+    }
+    for (const fam of gedcomFamilies) {
+      const pedigree = fam.children.get(p.personId);
+      if (!pedigree) continue;
+      fields.push(pointer('FAMC', fam.id, [gedcomPedigree(pedigree, version)]));
+    }
+    for (const famId of spouseFamilies(p.personId)) {
+      fields.push(pointer('FAMS', famId));
+    }
+    fields.push(...cite({ kind: 'PERSON', personId: p.personId }));
+    // GEDCOM cannot cite a FAMC link: parent-child citations go on the child, naming the parent
+    for (const edge of parentChildEdges.filter((e) => e.childId === p.personId)) {
+      const parentName = personMap.get(edge.parentId)?.name ?? edge.parentId;
+      fields.push(
+        ...cite({ kind: 'PARENT_CHILD', parentId: edge.parentId, childId: p.personId }, `Parent: ${parentName}`),
+      );
+    }
+    fields.push(...mediaRefs(p.personId, null));
+    records.push({ tag: 'INDI', xref: p.personId, children: fields });
+  }
+
+  for (const fam of gedcomFamilies) {
+    const fields: GedcomStructure[] = [...(fam.marriage?.toGedcomStructures(version) ?? [])];
+    if (fam.husband) {
+      fields.push(pointer(personMap.get(fam.husband)?.gender === 'FEMALE' ? 'WIFE' : 'HUSB', fam.husband));
+    }
+    if (fam.wife) {
+      fields.push(pointer(personMap.get(fam.wife)?.gender === 'MALE' ? 'HUSB' : 'WIFE', fam.wife));
+    }
+    for (const child of fam.children.keys()) {
+      fields.push(pointer('CHIL', child));
+    }
+    if (fam.spouses) {
+      fields.push(...cite({ kind: 'SPOUSE', ...fam.spouses }));
+    }
+    records.push({ tag: 'FAM', xref: fam.id, children: fields });
+  }
+
+  for (const source of sources) {
+    records.push(Source.fromStored(source).toGedcomRecord(sourceXrefs.get(source.sourceId)!));
+  }
+
+  for (const m of mediaObjects) {
+    records.push(m.toGedcomRecord(mediaXrefs.get(m.mediaId)!, version));
+  }
+
+  return writeGedcom(records, version, GEDCOM_SOURCE);
+}
+
+/**
+ * The FAM records of a tree, with ids from `nextId`: first one per recorded
+ * couple, in the order of their marriages, with the children of that pair
+ * of parents; then the families with no marriage (single parents, parents
+ * never recorded as spouses, a couple's second recorded family).
+ */
+function familiesOf(snapshot: GedcomExportSnapshot, nextId: () => string): GedcomFamily[] {
+  const { parentChildEdges, spouseEdges } = snapshot;
+  const units = resolveFamilies(snapshot.families ?? [], parentChildEdges, spouseEdges);
+
+  // A child linked to both partners with different subtypes (birth father,
+  // step-mother) takes the closest pedigree, in PARENT_CHILD_TYPES order
+  const edgeTypes = new Map(parentChildEdges.map((e) => [`${e.parentId}->${e.childId}`, e.type ?? 'BIOLOGICAL']));
+  const pedigreeOf = (parentIds: string[], childId: string): ParentChildType =>
+    parentIds
+      .map((parentId) => edgeTypes.get(`${parentId}->${childId}`))
+      .filter((type): type is ParentChildType => !!type)
+      .sort((x, y) => PARENT_CHILD_TYPES.indexOf(x) - PARENT_CHILD_TYPES.indexOf(y))[0] ?? 'BIOLOGICAL';
+
+  const families: GedcomFamily[] = [];
+  const written = new Set<(typeof units)[number]>();
+  const add = (parentIds: string[], childIds: string[], couple: (typeof spouseEdges)[number] | null): void => {
+    const [husband, wife] = couple ? [couple.spouse1Id, couple.spouse2Id] : parentIds;
+    families.push({
+      id: nextId(),
+      husband,
+      wife,
+      spouses: couple ? { spouse1Id: couple.spouse1Id, spouse2Id: couple.spouse2Id } : null,
+      marriage: couple ? marriageOf(couple) : undefined,
+      children: new Map(childIds.map((childId) => [childId, pedigreeOf(parentIds, childId)])),
+    });
+  };
+
+  for (const couple of spouseEdges) {
+    const key = familyParentKey([couple.spouse1Id, couple.spouse2Id]);
+    const unit = units.find((candidate) => !written.has(candidate) && familyParentKey(candidate.parentIds) === key);
+    if (unit) written.add(unit);
+    add([couple.spouse1Id, couple.spouse2Id], unit?.childIds ?? [], couple);
+  }
+  for (const unit of units) {
+    if (!written.has(unit)) add(unit.parentIds, unit.childIds, null);
+  }
+  return families;
+}
+
+/**
+ * Ids numbered per prefix (F1, F2, ...), passing over those in `taken`.
+ */
+function numberer(taken: Set<string>): (prefix: string) => string {
+  const counts = new Map<string, number>();
+  return (prefix) => {
+    let id: string;
+    do {
+      counts.set(prefix, (counts.get(prefix) ?? 0) + 1);
+      id = `${prefix}${counts.get(prefix)}`;
+    } while (taken.has(id));
+    taken.add(id);
+    return id;
+  };
+}
+
+function marriageOf({ spouse1Id, spouse2Id, ...stored }: GedcomExportSnapshot['spouseEdges'][number]): Marriage {
+  return Marriage.fromStored(stored);
+}
+
+function pointer(tag: string, id: string, children: GedcomStructure[] = []): GedcomStructure {
+  return { tag, pointer: id, ...(children.length > 0 ? { children } : {}) };
+}
+
+function gedcomPedigree(type: ParentChildType, version: GedcomVersion): GedcomStructure {
+  const standard = GEDCOM_PEDIGREE[type];
+  const linkage = type.toLowerCase();
+  if (version === '7.0') {
+    return standard
+      ? gedcomStructure('PEDI', standard.toUpperCase())
+      : gedcomStructure('PEDI', 'OTHER', [gedcomStructure('PHRASE', linkage)]);
+  }
+  return standard ? gedcomStructure('PEDI', standard) : gedcomStructure('_PEDI', linkage);
+}
@@ -0,0 +1,670 @@
+import { DuplicateRelationshipError, InvariantViolationError } from './errors';
+import { GenealogicalDate } from './genealogical-date';
+import { CITATION_QUALITIES, type CitationTarget } from './citation';
+import { PersonName, nameTypeFromGedcom, type NamePart, type NameVariant } from './person-name';
+import { LifeEvent, lifeEventTypeFromGedcom, type LifeEventType } from './life-event';
+import type { MarriageProps } from './marriage';
+import type { ParentChildType } from './relationship';
+import type { GenealogyGraph, PersonProps } from './types';
+import {
+  decodeGedcom,
+  gedcomChild,
+  gedcomChildren,
+  readGedcomRecords,
+  type GedcomEncoding,
+  type GedcomNode,
+} from './gedcom-parser';
+
+/**
+ * GEDCOM import.
+ *
+ * Maps the records of a GEDCOM file into a genealogy graph through the
+ * graph's own invariant checks. Each INDI becomes a person with its names,
+ * sex, birth, death and events; each FAM records its two partners as
+ * spouses, with the marriage, the divorce and each partner's order of
+ * marriage from the order of their FAMS, and attaches its children to the
+ * couple with the pedigree of the child's FAMC. Links are read from both
+ * sides: a child listed only by its FAMC, or a partner only by FAMS, is
+ * still linked.
+ *
+ * Each SOUR record becomes a source, and each SOUR citation under an
+ * individual, its names, birth, death and events, or a family and its
+ * events, a citation of the fact with its PAGE, QUAY and DATA.TEXT. A
+ * citation on an individual with the NOTE "Parent: <name>" this
+ * application writes cites the link to that parent.
+ *
+ * What the graph refuses (a cycle, a third parent, a child born before its
+ * parent, a death before the birth) is rejected, with the line and the
+ * reason. What the graph has no place for (notes, media, repositories, a
+ * date that cannot be read, any other structure) is ignored and listed as
+ * well, each by its path from the record: "BIRT.OBJE of @I1@".
+ *
+ * Person ids are the INDI xrefs, family ids the FAM xrefs, with characters
+ * other than letters, digits, _ and - replaced and a suffix (-2, -3, ...)
+ * when the graph already has the id.
+ *
+ * Adds to the given graph and saves nothing; the caller decides whether
+ * the import stands.
+ */
+
+export interface GedcomImportIssue {
+  line: number;
+  tag: string; // of the line at fault: INDI, CHIL, DATE
+  message: string; // names the record: "child @I5@ of @F2@: adding relationship creates cycle"
+}
+
+export interface GedcomImport {
+  encoding: GedcomEncoding;
+  personIds: string[]; // the persons added, in file order
+  sourceIds: string[]; // the sources added, in file order
+  citationIds: string[];
+  rejected: GedcomImportIssue[]; // refused by the graph's rules
+  ignored: GedcomImportIssue[]; // unreadable, or with no place in the graph
+}
+
+export const GEDCOM_FILE_EXTENSIONS = ['.ged', '.gedcom'];
+
+/**
+ * Record types left out, and what they hold. HEAD, TRLR, SUBM and SUBN
+ * describe the file rather than the family and are skipped silently.
+ */
+const UNMAPPED_RECORDS: Record<string, string> = {
+  REPO: 'repositories',
+  OBJE: 'media objects',
+  NOTE: 'shared notes',
+  SNOTE: 'shared notes',
+};
+const FILE_RECORDS = ['HEAD', 'TRLR', 'SUBM', 'SUBN'];
+
+/**
+ * Individual events and attributes not written by this application, and
+ * the event each is read as. The description is the line's value, else its
+ * NOTE.
+ */
+const OTHER_EVENTS: Record<string, { type: LifeEventType; customType: string | null }> = {
+  EMIG: { type: 'MIGRATION', customType: null },
+  IMMI: { type: 'MIGRATION', customType: null },
+  CHR: { type: 'CUSTOM', customType: 'Christening' },
+  BAPM: { type: 'CUSTOM', customType: 'Baptism' },
+  CENS: { type: 'CUSTOM', customType: 'Census' },
+  CREM: { type: 'CUSTOM', customType: 'Cremation' },
+  GRAD: { type: 'CUSTOM', customType: 'Graduation' },
+  NATU: { type: 'CUSTOM', customType: 'Naturalization' },
+  PROB: { type: 'CUSTOM', customType: 'Probate' },
+  RETI: { type: 'CUSTOM', customType: 'Retirement' },
+  WILL: { type: 'CUSTOM', customType: 'Will' },
+  NATI: { type: 'CUSTOM', customType: 'Nationality' },
+  RELI: { type: 'CUSTOM', customType: 'Religion' },
+  TITL: { type: 'CUSTOM', customType: 'Title' },
+};
+
+/**
+ * FAMC pedigree (PEDI, or the _PEDI this application writes for subtypes
+ * with no standard value). LDS sealing is read as birth.
+ */
+const PEDIGREES: Record<string, ParentChildType> = {
+  birth: 'BIOLOGICAL',
+  sealing: 'BIOLOGICAL',
+  adopted: 'ADOPTIVE',
+  foster: 'FOSTER',
+  step: 'STEP',
+  guardian: 'GUARDIAN',
+  milk: 'MILK',
+};
+
+// NAME substructures that make a structured name rather than a display name
+const NAME_FIELDS = ['TYPE', 'GIVN', 'SURN', 'NPFX', 'NSFX', 'NICK', 'SPFX', 'ROMN', 'FONE'];
+
+/**
+ * What is read of a structure: each tag read maps to what is read under
+ * it, or to true when it is listed where it is read (a citation, an event
+ * note). Anything else is listed as not imported.
+ */
+interface GedcomReading {
+  [tag: string]: GedcomReading | true;
+}
+
+const PLACE_READING: GedcomReading = {};
+const INDIVIDUAL_EVENT_READING: GedcomReading = { TYPE: {}, DATE: {}, PLAC: PLACE_READING, NOTE: true, SOUR: true };
+const VITAL_READING: GedcomReading = { DATE: {}, PLAC: PLACE_READING, SOUR: true };
+const INDIVIDUAL_READING: GedcomReading = {
+  NAME: {
+    ...Object.fromEntries(NAME_FIELDS.map((tag) => [tag, {}])),
+    ROMN: { TYPE: {} },
+    FONE: { TYPE: {} },
+    SOUR: true,
+  },
+  SEX: {},
+  BIRT: VITAL_READING,
+  DEAT: VITAL_READING,
+  FAMC: { PEDI: {}, _PEDI: {} },
+  FAMS: {},
+  SOUR: true,
+};
+const FAMILY_EVENT_READING: GedcomReading = { DATE: {}, PLAC: PLACE_READING, SOUR: true };
+const FAMILY_READING: GedcomReading = {
+  HUSB: {},
+  WIFE: {},
+  CHIL: {},
+  MARR: FAMILY_EVENT_READING,
+  DIV: FAMILY_EVENT_READING,
+  ANUL: FAMILY_EVENT_READING,
+  SOUR: true,
+};
+// The repository this application writes in place: its name as a NOTE, the reference as CALN
+const SOURCE_READING: GedcomReading = { TITL: {}, AUTH: {}, REPO: { NOTE: {}, CALN: {} } };
+const CITATION_READING: GedcomReading = { PAGE: {}, QUAY: {}, DATA: { TEXT: {} } };
+
+// The NOTE this application writes on a citation of a parent-child link
+const PARENT_NOTE = /^Parent: (.+)$/;
+
+export function isGedcomFile(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return GEDCOM_FILE_EXTENSIONS.some((extension) => lower.endsWith(extension));
+}
+
+/**
+ * Read a GEDCOM file into `graph`, which may already hold persons: the
+ * imported ones are added beside them. Throws when the file is not GEDCOM
+ * at all; everything else is reported in the result.
+ */
+export function importGedcom(bytes: Uint8Array, graph: GenealogyGraph): GedcomImport {
+  if (bytes.length === 0) {
+    throw new InvariantViolationError('the file is empty');
+  }
+  const { text, encoding } = decodeGedcom(bytes);
+  const result: GedcomImport = { encoding, personIds: [], sourceIds: [], citationIds: [], rejected: [], ignored: [] };
+  const ignore = (node: GedcomNode, message: string) =>
+    result.ignored.push({ line: node.line, tag: node.tag, message });
+  const reject = (node: GedcomNode, message: string) =>
+    result.rejected.push({ line: node.line, tag: node.tag, message });
+
+  const individuals: GedcomNode[] = [];
+  const families: GedcomNode[] = [];
+  const sources: GedcomNode[] = [];
+  let headerRead = false;
+  const records = readGedcomRecords(text, ({ line, message }) => result.ignored.push({ line, tag: '', message }));
+  for (const record of records) {
+    if (!headerRead && record.tag !== 'HEAD') break;
+    headerRead = true;
+    if (record.tag === 'INDI') individuals.push(record);
+    else if (record.tag === 'FAM') families.push(record);
+    else if (record.tag === 'SOUR') sources.push(record);
+    else if (!FILE_RECORDS.includes(record.tag)) {
+      ignore(record, `${ref(record)}: ${UNMAPPED_RECORDS[record.tag] ?? `${record.tag} records`} are not imported`);
+    }
+  }
+  if (!headerRead) {
+    throw new InvariantViolationError('the file is not GEDCOM: it does not start with a HEAD record');
+  }
+
+  // Sources
+  const sourceIds = new Map<string, string>(); // SOUR xref -> source id
+  const sourceXrefs = new Set<string>();
+  for (const record of sources) {
+    if (record.xref && sourceXrefs.has(record.xref)) {
+      reject(record, `${ref(record)}: the xref is used by an earlier record`);
+      continue;
+    }
+    if (record.xref) sourceXrefs.add(record.xref);
+    let title = gedcomChild(record, 'TITL')?.value.trim();
+    if (!title) {
+      ignore(record, `${ref(record)} has no title: imported as "Untitled"`);
+      title = 'Untitled';
+    }
+    const repository = gedcomChild(record, 'REPO');
+    if (repository?.pointer && repository.pointer !== 'VOID') {
+      ignore(repository, `REPO @${repository.pointer}@ of ${ref(record)}: repositories are not imported`);
+    }
+    try {
+      const source = graph.addSource({
+        sourceId: uniqueId(record.xref ?? 'S', (id) => graph.getSource(id) !== null),
+        title,
+        author: gedcomChild(record, 'AUTH')?.value.trim() || null,
+        repository: (repository && gedcomChild(repository, 'NOTE')?.value.trim()) || null,
+        reference: (repository && gedcomChild(repository, 'CALN')?.value.trim()) || null,
+      });
+      if (record.xref) sourceIds.set(record.xref, source.sourceId);
+      result.sourceIds.push(source.sourceId);
+      reportUnread(record.children, SOURCE_READING, record, ignore);
+    } catch (err) {
+      reject(record, `${ref(record)}: ${reason(err)}`);
+    }
+  }
+
+  // Persons
+  const personIds = new Map<string, string>(); // INDI xref -> person id
+  const individualsByXref = new Map<string, GedcomNode>();
+  const imported = new Map<GedcomNode, { personId: string; eventIds: Map<GedcomNode, string> }>();
+  for (const indi of individuals) {
+    if (indi.xref && individualsByXref.has(indi.xref)) {
+      reject(indi, `${ref(indi)}: the xref is used by an earlier record`);
+      continue;
+    }
+    if (indi.xref) individualsByXref.set(indi.xref, indi);
+    const personId = uniqueId(indi.xref ?? 'I', (id) => graph.getPerson(id) !== null);
+    try {
+      const { props, eventIds } = personProps(personId, indi, ignore);
+      graph.addPerson(props);
+      if (indi.xref) personIds.set(indi.xref, personId);
+      imported.set(indi, { personId, eventIds });
+      result.personIds.push(personId);
+      // An event left out is listed already; one read is read as an event
+      reportUnread(
+        indi.children.filter((node) => !isPersonEvent(node)),
+        INDIVIDUAL_READING,
+        indi,
+        ignore,
+      );
+      for (const [event] of eventIds) {
+        reportUnread(event.children, INDIVIDUAL_EVENT_READING, indi, ignore, [event.tag]);
+      }
+    } catch (err) {
+      reject(indi, `${ref(indi)}: ${reason(err)}`);
+    }
+  }
+
+  // The person a pointer leads to, or null with the reason reported
+  const personAt = (owner: GedcomNode, node: GedcomNode, pointer: string, role: string): string | null => {
+    const personId = personIds.get(pointer);
+    if (personId) return personId;
+    if (individualsByXref.has(pointer)) {
+      reject(node, `${role} @${pointer}@ of ${ref(owner)} was not imported`);
+    } else {
+      ignore(node, `${ref(owner)} points to @${pointer}@, which is not an individual in the file`);
+    }
+    return null;
+  };
+
+  // FAMC and FAMS back-pointers, by family xref
+  const familyXrefs = new Set(families.map((fam) => fam.xref).filter((xref): xref is string => !!xref));
+  const childLinks = new Map<string, Array<{ indi: GedcomNode; famc: GedcomNode }>>();
+  const spouseLinks = new Map<string, Array<{ indi: GedcomNode; fams: GedcomNode }>>();
+  for (const indi of individualsByXref.values()) {
+    for (const link of [...gedcomChildren(indi, 'FAMC'), ...gedcomChildren(indi, 'FAMS')]) {
+      if (!link.pointer) continue;
+      if (!familyXrefs.has(link.pointer)) {
+        ignore(link, `${ref(indi)} points to @${link.pointer}@, which is not a family in the file`);
+      } else if (link.tag === 'FAMC') {
+        childLinks.set(link.pointer, [...(childLinks.get(link.pointer) ?? []), { indi, famc: link }]);
+      } else {
+        spouseLinks.set(link.pointer, [...(spouseLinks.get(link.pointer) ?? []), { indi, fams: link }]);
+      }
+    }
+  }
+
+  // Each partner's order of marriage: the position of the family among the
+  // couples in their FAMS
+  const partnerPointers = (fam: GedcomNode): Array<{ node: GedcomNode; pointer: string }> => {
+    const listed = fam.children
+      .filter((child) => (child.tag === 'HUSB' || child.tag === 'WIFE') && child.pointer)
+      .map((child) => ({ node: child, pointer: child.pointer! }));
+    const backPointed = (spouseLinks.get(fam.xref ?? '') ?? [])
+      .filter(({ indi }) => !listed.some((partner) => partner.pointer === indi.xref))
+      .map(({ indi, fams }) => ({ node: fams, pointer: indi.xref! }));
+    return [...listed, ...backPointed];
+  };
+  const couples = new Set(families.filter((fam) => partnerPointers(fam).length === 2).map((fam) => fam.xref));
+  const marriageOrder = (pointer: string, famXref: string | null): number | null => {
+    const ownCouples = [
+      ...new Set(
+        gedcomChildren(individualsByXref.get(pointer)!, 'FAMS')
+          .map((fams) => fams.pointer)
+          .filter((xref) => couples.has(xref)),
+      ),
+    ];
+    const position = ownCouples.indexOf(famXref);
+    return position >= 0 ? position + 1 : null;
+  };
+
+  // Families
+  const spouses = new Map<GedcomNode, { spouse1Id: string; spouse2Id: string }>();
+  for (const fam of families) {
+    reportUnread(fam.children, FAMILY_READING, fam, ignore);
+    const pointers = partnerPointers(fam);
+    for (const extra of pointers.slice(2)) {
+      reject(extra.node, `@${extra.pointer}@ cannot join ${ref(fam)}: a family has at most two partners`);
+    }
+    const partners = pointers
+      .slice(0, 2)
+      .map(({ node, pointer }) => ({ pointer, personId: personAt(fam, node, pointer, 'partner') }))
+      .filter((partner): partner is { pointer: string; personId: string } => partner.personId !== null);
+
+    if (partners.length === 2) {
+      const [a, b] = partners;
+      try {
+        graph.addSpouseRelationship(
+          a.personId,
+          b.personId,
+          marriageProps(fam, marriageOrder(a.pointer, fam.xref), marriageOrder(b.pointer, fam.xref), ignore),
+        );
+        spouses.set(fam, { spouse1Id: a.personId, spouse2Id: b.personId });
+      } catch (err) {
+        reject(fam, `marriage of ${ref(fam)}: ${reason(err)}`);
+      }
+    }
+
+    const children = [
+      ...gedcomChildren(fam, 'CHIL')
+        .filter((chil) => chil.pointer)
+        .map((chil) => ({ node: chil, pointer: chil.pointer! })),
+    ];
+    for (const { indi, famc } of childLinks.get(fam.xref ?? '') ?? []) {
+      if (!children.some((child) => child.pointer === indi.xref)) children.push({ node: famc, pointer: indi.xref! });
+    }
+    if (children.length === 0) continue;
+    if (partners.length === 0) {
+      ignore(fam, `${ref(fam)} has children but no partner: they are imported without parents`);
+      continue;
+    }
+
+    let familyId: string;
+    try {
+      familyId = graph.createFamily(
+        partners[0].personId,
+        partners[1]?.personId ?? null,
+        uniqueId(fam.xref ?? 'F', (id) => graph.getFamily(id) !== null),
+      );
+    } catch (err) {
+      reject(fam, `${ref(fam)}: ${reason(err)}`);
+      continue;
+    }
+    for (const { node, pointer } of children) {
+      const childId = personAt(fam, node, pointer, 'child');
+      if (!childId) continue;
+      try {
+        graph.addChildToFamily(familyId, childId, pedigree(individualsByXref.get(pointer)!, fam.xref));
+      } catch (err) {
+        reject(node, `child @${pointer}@ of ${ref(fam)}: ${reason(err)}`);
+      }
+    }
+  }
+
+  // Citations, once the facts they cite are in the graph
+  const cite = (owner: GedcomNode, node: GedcomNode, path: string, target: CitationTarget, parentNote = false) => {
+    const where = `${path} of ${ref(owner)}`;
+    if (!node.pointer) {
+      ignore(node, `${where} has no source record: sources written in place are not imported`);
+      return;
+    }
+    const sourceId = sourceIds.get(node.pointer);
+    if (!sourceId) {
+      if (sourceXrefs.has(node.pointer)) reject(node, `${where}: source @${node.pointer}@ was not imported`);
+      else ignore(node, `${where} points to @${node.pointer}@, which is not a source in the file`);
+      return;
+    }
+    const quay = gedcomChild(node, 'QUAY');
+    const quality = quay ? (CITATION_QUALITIES[Number(quay.value.trim())] ?? null) : null;
+    if (quay && !quality) ignore(quay, `QUAY "${quay.value}" of ${where} is not 0 to 3; left out`);
+    const data = gedcomChild(node, 'DATA');
+    try {
+      const citation = graph.addCitation({
+        sourceId,
+        target,
+        page: gedcomChild(node, 'PAGE')?.value.trim() || null,
+        quality,
+        transcription: (data && gedcomChild(data, 'TEXT')?.value.trim()) || null,
+      });
+      result.citationIds.push(citation.citationId);
+      reportUnread(node.children, parentNote ? { ...CITATION_READING, NOTE: {} } : CITATION_READING, owner, ignore, [
+        path,
+      ]);
+    } catch (err) {
+      if (err instanceof DuplicateRelationshipError) ignore(node, `${where}: ${reason(err)}; left out`);
+      else reject(node, `${where}: ${reason(err)}`);
+    }
+  };
+
+  for (const [indi, { personId, eventIds }] of imported) {
+    for (const name of gedcomChildren(indi, 'NAME')) {
+      for (const sour of gedcomChildren(name, 'SOUR')) {
+        cite(indi, sour, 'NAME.SOUR', { kind: 'PERSON', personId, fact: 'NAME' });
+      }
+    }
+    for (const [tag, fact] of [
+      ['BIRT', 'BIRTH'],
+      ['DEAT', 'DEATH'],
+    ] as const) {
+      const vital = gedcomChild(indi, tag);
+      for (const sour of vital ? gedcomChildren(vital, 'SOUR') : []) {
+        cite(indi, sour, `${tag}.SOUR`, { kind: 'PERSON', personId, fact });
+      }
+    }
+    for (const [event, eventId] of eventIds) {
+      for (const sour of gedcomChildren(event, 'SOUR')) {
+        cite(indi, sour, `${event.tag}.SOUR`, { kind: 'EVENT', personId, eventId });
+      }
+    }
+    for (const sour of gedcomChildren(indi, 'SOUR')) {
+      const parentName = PARENT_NOTE.exec(gedcomChild(sour, 'NOTE')?.value.trim() ?? '')?.[1];
+      const parentId =
+        parentName &&
+        graph
+          .getParentChildEdgesSnapshot()
+          .filter((edge) => edge.childId === personId)
+          .map((edge) => edge.parentId)
+          .find((id) => graph.getPerson(id)?.name === parentName);
+      if (parentId) cite(indi, sour, 'SOUR', { kind: 'PARENT_CHILD', parentId, childId: personId }, true);
+      else cite(indi, sour, 'SOUR', { kind: 'PERSON', personId });
+    }
+  }
+
+  for (const fam of families) {
+    const couple = spouses.get(fam);
+    const citations = [
+      ...gedcomChildren(fam, 'SOUR').map((sour) => ({ sour, path: 'SOUR' })),
+      ...fam.children
+        .filter((event) => event.tag === 'MARR' || event.tag === 'DIV' || event.tag === 'ANUL')
+        .flatMap((event) => gedcomChildren(event, 'SOUR').map((sour) => ({ sour, path: `${event.tag}.SOUR` }))),
+    ];
+    for (const { sour, path } of citations) {
+      if (couple) cite(fam, sour, path, { kind: 'SPOUSE', ...couple });
+      else ignore(sour, `${path} of ${ref(fam)}: the family has no couple to cite; not imported`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The person an INDI holds, and the id given to each event read from it.
+ */
+function personProps(
+  personId: string,
+  indi: GedcomNode,
+  ignore: (node: GedcomNode, message: string) => void,
+): { props: PersonProps; eventIds: Map<GedcomNode, string> } {
+  const nameNodes = gedcomChildren(indi, 'NAME');
+  const names: PersonName[] = [];
+  for (const node of nameNodes) {
+    try {
+      const name = personName(node, names.length === 0);
+      if (name) names.push(name);
+    } catch (err) {
+      ignore(node, `name "${node.value}" of ${ref(indi)}: ${reason(err)}; kept as written`);
+    }
+  }
+  let name = nameNodes.length > 0 ? displayName(nameNodes[0].value) : '';
+  if (!name) {
+    ignore(indi, `${ref(indi)} has no name: imported as "Unknown"`);
+    name = 'Unknown';
+  }
+
+  const sex = gedcomChild(indi, 'SEX')?.value.trim().toUpperCase();
+  const birth = gedcomChild(indi, 'BIRT');
+  const death = gedcomChild(indi, 'DEAT');
+
+  const events: LifeEvent[] = [];
+  const eventIds = new Map<GedcomNode, string>();
+  for (const node of indi.children.filter(isPersonEvent)) {
+    const typeName = gedcomChild(node, 'TYPE')?.value ?? null;
+    const known = lifeEventTypeFromGedcom(node.tag, typeName);
+    const event = known ?? OTHER_EVENTS[node.tag];
+    const noteNode = gedcomChild(node, 'NOTE');
+    const note = noteNode?.value.trim() || null;
+    const value = node.value.trim() || null;
+    const description = known ? (known.describedByValue ? value : note) : (value ?? note);
+    try {
+      const eventId = `E${events.length + 1}`;
+      events.push(
+        LifeEvent.create({
+          eventId,
+          type: event.type,
+          customType: event.customType,
+          date: gedcomDate(node, indi, ignore),
+          place: gedcomChild(node, 'PLAC')?.value.trim() || null,
+          description,
+        }),
+      );
+      eventIds.set(node, eventId);
+      if (note && description !== note) ignore(noteNode!, `${node.tag}.NOTE of ${ref(indi)} is not imported`);
+    } catch (err) {
+      ignore(node, `${node.tag} of ${ref(indi)}: ${reason(err)}; left out`);
+    }
+  }
+
+  return {
+    props: {
+      personId,
+      name,
+      names,
+      gender: sex === 'M' ? 'MALE' : sex === 'F' ? 'FEMALE' : 'UNKNOWN',
+      birthDate: gedcomDate(birth, indi, ignore),
+      birthPlace: (birth && gedcomChild(birth, 'PLAC')?.value.trim()) || null,
+      deathDate: gedcomDate(death, indi, ignore),
+      events,
+    },
+    eventIds,
+  };
+}
+
+/**
+ * A structured name when the NAME has slashes around the surname or any
+ * name substructure; null for a plain display name. The value gives the
+ * parts: prefix (as NPFX), given, /surname/, suffix.
+ */
+function personName(node: GedcomNode, primary: boolean): PersonName | null {
+  const surname = /\/([^/]*)\/?/.exec(node.value);
+  if (!surname && !node.children.some((child) => NAME_FIELDS.includes(child.tag))) {
+    return null;
+  }
+
+  const parts: NamePart[] = [];
+  if (surname) {
+    let given = node.value.slice(0, surname.index).trim();
+    const suffix = node.value.slice(surname.index + surname[0].length).trim();
+    const prefix = gedcomChild(node, 'NPFX')?.value.trim();
+    if (prefix && given.startsWith(prefix)) {
+      parts.push({ type: 'PREFIX', value: prefix });
+      given = given.slice(prefix.length).trim();
+    }
+    if (given) parts.push({ type: 'GIVEN', value: given });
+    if (surname[1].trim()) parts.push({ type: 'SURNAME', value: surname[1].trim() });
+    if (suffix) parts.push({ type: 'SUFFIX', value: suffix });
+  }
+  const variants: NameVariant[] = node.children
+    .filter((child) => child.tag === 'ROMN' || child.tag === 'FONE')
+    .map((child) => ({
+      kind: child.tag === 'ROMN' ? 'ROMANIZED' : 'PHONETIC',
+      text: child.value,
+      method: gedcomChild(child, 'TYPE')?.value.trim() || null,
+    }));
+
+  return PersonName.create({
+    type: nameTypeFromGedcom(gedcomChild(node, 'TYPE')?.value),
+    parts: parts.length > 0 ? parts : null,
+    text: parts.length > 0 ? null : displayName(node.value),
+    primary,
+    variants,
+  });
+}
+
+function marriageProps(
+  fam: GedcomNode,
+  spouse1Order: number | null,
+  spouse2Order: number | null,
+  ignore: (node: GedcomNode, message: string) => void,
+): MarriageProps {
+  const marriage = gedcomChild(fam, 'MARR');
+  const annulment = gedcomChild(fam, 'ANUL');
+  const ending = annulment ?? gedcomChild(fam, 'DIV');
+  return {
+    status: annulment ? 'ANNULLED' : ending ? 'DIVORCED' : 'MARRIED',
+    marriageDate: gedcomDate(marriage, fam, ignore),
+    marriagePlace: (marriage && gedcomChild(marriage, 'PLAC')?.value.trim()) || null,
+    divorceDate: gedcomDate(ending, fam, ignore),
+    divorcePlace: (ending && gedcomChild(ending, 'PLAC')?.value.trim()) || null,
+    spouse1Order,
+    spouse2Order,
+  };
+}
+
+/**
+ * The pedigree of the child's FAMC for the family; birth when it has none.
+ */
+function pedigree(child: GedcomNode, famXref: string | null): ParentChildType {
+  const famc = gedcomChildren(child, 'FAMC').find((link) => link.pointer === famXref);
+  const value = famc && (gedcomChild(famc, 'PEDI') ?? gedcomChild(famc, '_PEDI'))?.value.trim().toLowerCase();
+  return (value && PEDIGREES[value]) || 'BIOLOGICAL';
+}
+
+/**
+ * The DATE under an event. A date that cannot be read is reported and left
+ * out rather than failing the record.
+ */
+function gedcomDate(
+  event: GedcomNode | null,
+  owner: GedcomNode,
+  ignore: (node: GedcomNode, message: string) => void,
+): GenealogicalDate | null {
+  const date = event && gedcomChild(event, 'DATE');
+  if (!date || !date.value.trim()) return null;
+  try {
+    return GenealogicalDate.parse(date.value);
+  } catch (err) {
+    ignore(date, `${event.tag} date "${date.value}" of ${ref(owner)}: ${reason(err)}; left out`);
+    return null;
+  }
+}
+
+function isPersonEvent(node: GedcomNode): boolean {
+  return lifeEventTypeFromGedcom(node.tag, null) !== null || node.tag in OTHER_EVENTS;
+}
+
+/**
+ * List what of `nodes` is not in `reading`, by its path from the record
+ * `owner`: "BIRT.OBJE of @I1@ is not imported".
+ */
+function reportUnread(
+  nodes: GedcomNode[],
+  reading: GedcomReading,
+  owner: GedcomNode,
+  ignore: (node: GedcomNode, message: string) => void,
+  path: string[] = [],
+): void {
+  for (const child of nodes) {
+    const under = reading[child.tag];
+    const at = [...path, child.tag];
+    if (under === undefined) ignore(child, `${at.join('.')} of ${ref(owner)} is not imported`);
+    else if (under !== true) reportUnread(child.children, under, owner, ignore, at);
+  }
+}
+
+function displayName(value: string): string {
+  return value.replace(/\//g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function uniqueId(xref: string, taken: (id: string) => boolean): string {
+  const base = xref.replace(/[^A-Za-z0-9_-]/g, '_');
+  let id = base;
+  for (let n = 2; taken(id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+function ref(record: GedcomNode): string {
+  return record.xref ? `@${record.xref}@` : `${record.tag} at line ${record.line}`;
+}
+
+function reason(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
@@ -0,0 +1,316 @@
+import { TextDecoder } from 'util';
+
+/**
+ * GEDCOM reader.
+ *
+ * Turns the bytes of a GEDCOM 5.5.1 file into its records. The character
+ * set comes from a byte-order mark, the shape of the first bytes (UTF-16
+ * without a mark) or the header's CHAR: UTF-8, UNICODE, ANSEL, ASCII or
+ * ANSI. Lines are split into level, xref, tag and value, CONT and CONC are
+ * folded into the value they continue, and each level-0 record is yielded
+ * with its substructures as soon as the next one starts, so a file is read
+ * one record at a time rather than held as a tree.
+ */
+
+export type GedcomEncoding = 'UTF-8' | 'UTF-16LE' | 'UTF-16BE' | 'ANSEL' | 'ASCII' | 'ANSI';
+
+export interface GedcomNode {
+  line: number; // 1-based line number in the file
+  level: number;
+  xref: string | null; // without the @ delimiters: I1
+  tag: string; // upper case
+  value: string; // CONT and CONC folded in, @@ unescaped; '' when absent
+  pointer: string | null; // the xref the value points to, without the @ delimiters
+  children: GedcomNode[];
+}
+
+/**
+ * A line that could not be read. The line, and the lines under it, are
+ * left out of the record.
+ */
+export interface GedcomSyntaxProblem {
+  line: number;
+  message: string;
+}
+
+/**
+ * ANSEL (ANSI Z39.47 with the GEDCOM additions) above 0x7F: spacing
+ * characters, then the combining diacritics, which ANSEL writes before
+ * the letter they modify.
+ */
+const ANSEL_SPACING: Record<number, string> = {
+  0xa1: '\u0141', // Ł
+  0xa2: '\u00D8', // Ø
+  0xa3: '\u0110', // Đ
+  0xa4: '\u00DE', // Þ
+  0xa5: '\u00C6', // Æ
+  0xa6: '\u0152', // Œ
+  0xa7: '\u02B9', // ʹ soft sign
+  0xa8: '\u00B7', // · middle dot
+  0xa9: '\u266D', // ♭
+  0xaa: '\u00AE', // ®
+  0xab: '\u00B1', // ±
+  0xac: '\u01A0', // Ơ
+  0xad: '\u01AF', // Ư
+  0xae: '\u02BC', // ʼ alif
+  0xb0: '\u02BB', // ʻ ayn
+  0xb1: '\u0142', // ł
+  0xb2: '\u00F8', // ø
+  0xb3: '\u0111', // đ
+  0xb4: '\u00FE', // þ
+  0xb5: '\u00E6', // æ
+  0xb6: '\u0153', // œ
+  0xb7: '\u02BA', // ʺ hard sign
+  0xb8: '\u0131', // ı
+  0xb9: '\u00A3', // £
+  0xba: '\u00F0', // ð
+  0xbc: '\u01A1', // ơ
+  0xbd: '\u01B0', // ư
+  0xbe: '\u25A1', // □
+  0xbf: '\u25A0', // ■
+  0xc0: '\u00B0', // °
+  0xc1: '\u2113', // ℓ
+  0xc2: '\u2117', // ℗
+  0xc3: '\u00A9', // ©
+  0xc4: '\u266F', // ♯
+  0xc5: '\u00BF', // ¿
+  0xc6: '\u00A1', // ¡
+  0xc7: '\u00DF', // ß
+  0xc8: '\u20AC', // €
+  0xcf: '\u00DF', // ß, as GEDCOM 5.5 placed it
+};
+
+const ANSEL_COMBINING: Record<number, string> = {
+  0xe0: '\u0309', // hook above
+  0xe1: '\u0300', // grave
+  0xe2: '\u0301', // acute
+  0xe3: '\u0302', // circumflex
+  0xe4: '\u0303', // tilde
+  0xe5: '\u0304', // macron
+  0xe6: '\u0306', // breve
+  0xe7: '\u0307', // dot above
+  0xe8: '\u0308', // diaeresis
+  0xe9: '\u030C', // caron
+  0xea: '\u030A', // ring above
+  0xeb: '\uFE20', // ligature, left half
+  0xec: '\uFE21', // ligature, right half
+  0xed: '\u0315', // comma above right
+  0xee: '\u030B', // double acute
+  0xef: '\u0310', // candrabindu
+  0xf0: '\u0327', // cedilla
+  0xf1: '\u0328', // ogonek
+  0xf2: '\u0323', // dot below
+  0xf3: '\u0324', // diaeresis below
+  0xf4: '\u0325', // ring below
+  0xf5: '\u0333', // double low line
+  0xf6: '\u0332', // low line
+  0xf7: '\u0326', // comma below
+  0xf8: '\u031C', // left half ring below
+  0xf9: '\u032E', // breve below
+  0xfa: '\uFE22', // double tilde, left half
+  0xfb: '\uFE23', // double tilde, right half
+  0xfe: '\u0313', // comma above
+};
+
+/**
+ * Windows-1252 (GEDCOM's ANSI) where it differs from Latin-1: 0x80 to
+ * 0x9F. Bytes it leaves unassigned read as Latin-1.
+ */
+const WINDOWS_1252: Record<number, string> = {
+  0x80: '\u20AC', // €
+  0x82: '\u201A', // ‚
+  0x83: '\u0192', // ƒ
+  0x84: '\u201E', // „
+  0x85: '\u2026', // …
+  0x86: '\u2020', // †
+  0x87: '\u2021', // ‡
+  0x88: '\u02C6', // ˆ
+  0x89: '\u2030', // ‰
+  0x8a: '\u0160', // Š
+  0x8b: '\u2039', // ‹
+  0x8c: '\u0152', // Œ
+  0x8e: '\u017D', // Ž
+  0x91: '\u2018', // ‘
+  0x92: '\u2019', // ’
+  0x93: '\u201C', // “
+  0x94: '\u201D', // ”
+  0x95: '\u2022', // •
+  0x96: '\u2013', // –
+  0x97: '\u2014', // —
+  0x98: '\u02DC', // ˜
+  0x99: '\u2122', // ™
+  0x9a: '\u0161', // š
+  0x9b: '\u203A', // ›
+  0x9c: '\u0153', // œ
+  0x9e: '\u017E', // ž
+  0x9f: '\u0178', // Ÿ
+};
+
+// How far into the file to look for the header's CHAR
+const HEADER_SCAN_BYTES = 64 * 1024;
+
+const LINE_PATTERN = /^\s*(\d{1,2}) +(?:(@[^@\s]+@) +)?([A-Za-z0-9_]+)(?: (.*))?$/;
+const POINTER_PATTERN = /^@([^@#\s][^@]*)@$/;
+
+/**
+ * Decode a GEDCOM file to text, with the character set it was read in.
+ * Characters with no mapping become U+FFFD.
+ */
+export function decodeGedcom(bytes: Uint8Array): { text: string; encoding: GedcomEncoding } {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'UTF-8' };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'UTF-16LE' };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'UTF-16BE' };
+  }
+  // A file must open with "0 HEAD": a zero byte beside the "0" gives UTF-16 away
+  if (bytes[0] === 0x30 && bytes[1] === 0x00) {
+    return { text: new TextDecoder('utf-16le').decode(bytes), encoding: 'UTF-16LE' };
+  }
+  if (bytes[0] === 0x00 && bytes[1] === 0x30) {
+    return { text: new TextDecoder('utf-16be').decode(bytes), encoding: 'UTF-16BE' };
+  }
+
+  const header = new TextDecoder('latin1').decode(bytes.subarray(0, HEADER_SCAN_BYTES));
+  const declared = /^\s*1 +CHAR +(\S+)/m.exec(header)?.[1].toUpperCase();
+  switch (declared) {
+    case 'ANSEL':
+      return { text: decodeAnsel(bytes), encoding: 'ANSEL' };
+    case 'ASCII':
+      return { text: new TextDecoder('latin1').decode(bytes), encoding: 'ASCII' };
+    case 'ANSI':
+    case 'WINDOWS-1252':
+    case 'CP1252':
+      return {
+        text: new TextDecoder('latin1')
+          .decode(bytes)
+          .replace(/[\x80-\x9f]/g, (c) => WINDOWS_1252[c.charCodeAt(0)] ?? c),
+        encoding: 'ANSI',
+      };
+    default:
+      // UTF-8, UNICODE written as UTF-8, or no CHAR at all
+      return { text: new TextDecoder('utf-8').decode(bytes), encoding: 'UTF-8' };
+  }
+}
+
+/**
+ * ANSEL to Unicode. Combining marks move after the letter they precede and
+ * the result is composed (e + acute = é).
+ */
+export function decodeAnsel(bytes: Uint8Array): string {
+  let text = '';
+  let marks = '';
+  for (const byte of bytes) {
+    if (ANSEL_COMBINING[byte]) {
+      marks += ANSEL_COMBINING[byte];
+      continue;
+    }
+    const char = byte < 0x80 ? String.fromCharCode(byte) : (ANSEL_SPACING[byte] ?? '\uFFFD');
+    text += marks ? (char + marks).normalize('NFC') : char;
+    marks = '';
+  }
+  return text + marks;
+}
+
+/**
+ * The records of a GEDCOM text, one at a time. Lines that cannot be read
+ * are reported to `onProblem` and left out with everything under them.
+ */
+export function* readGedcomRecords(
+  text: string,
+  onProblem: (problem: GedcomSyntaxProblem) => void = () => undefined,
+): Generator<GedcomNode> {
+  let record: GedcomNode | null = null;
+  // The open node at each level of the current record
+  const open: GedcomNode[] = [];
+  // Lines deeper than this belong to a line that was left out
+  let skipBelow = Infinity;
+
+  for (const { number, content } of lines(text)) {
+    if (content.trim() === '') continue;
+    const match = LINE_PATTERN.exec(content);
+    if (!match) {
+      onProblem({ line: number, message: `line ${number} is not a GEDCOM line: ${preview(content)}` });
+      continue;
+    }
+    const level = Number(match[1]);
+    if (level > skipBelow) continue;
+    skipBelow = Infinity;
+
+    const tag = match[3].toUpperCase();
+    const raw = match[4] ?? '';
+    if (level > 0 && (tag === 'CONT' || tag === 'CONC') && open[level - 1]) {
+      const continued = open[level - 1];
+      continued.value += (tag === 'CONT' ? '\n' : '') + unescape(raw);
+      open.length = level;
+      continue;
+    }
+
+    const pointer = POINTER_PATTERN.exec(raw.trim())?.[1] ?? null;
+    const node: GedcomNode = {
+      line: number,
+      level,
+      xref: match[2] ? match[2].slice(1, -1) : null,
+      tag,
+      value: pointer ? '' : unescape(raw),
+      pointer,
+      children: [],
+    };
+
+    if (level === 0) {
+      if (record) yield record;
+      record = node;
+      open.length = 0;
+      open.push(node);
+      continue;
+    }
+    const parent = open[level - 1];
+    if (!parent || !record) {
+      onProblem({
+        line: number,
+        message: `line ${number} is at level ${level} with no line at level ${level - 1} above it`,
+      });
+      skipBelow = level;
+      continue;
+    }
+    parent.children.push(node);
+    open.length = level;
+    open.push(node);
+  }
+  if (record) yield record;
+}
+
+/** The first substructure with `tag`, or null */
+export function gedcomChild(node: GedcomNode, tag: string): GedcomNode | null {
+  return node.children.find((child) => child.tag === tag) ?? null;
+}
+
+/** Every substructure with `tag`, in file order */
+export function gedcomChildren(node: GedcomNode, tag: string): GedcomNode[] {
+  return node.children.filter((child) => child.tag === tag);
+}
+
+function* lines(text: string): Generator<{ number: number; content: string }> {
+  let start = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+  let number = 1;
+  while (start < text.length) {
+    let end = start;
+    while (end < text.length && text[end] !== '\n' && text[end] !== '\r') end++;
+    yield { number, content: text.slice(start, end) };
+    number++;
+    // CRLF, LF and CR all end a line
+    start = text[end] === '\r' && text[end + 1] === '\n' ? end + 2 : end + 1;
+  }
+}
+
+function unescape(value: string): string {
+  return value.replace(/@@/g, '@');
+}
+
+function preview(content: string): string {
+  const trimmed = content.trim();
+  return trimmed.length > 40 ? `${trimmed.slice(0, 40)}…` : trimmed;
+}
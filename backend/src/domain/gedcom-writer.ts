@@ -0,0 +1,208 @@
+/**
+ * GEDCOM writer.
+ *
+ * Exports are built once as a record model, a tree of structures that
+ * refer to each other by id, and written out as GEDCOM 5.5.1 or 7.0. What
+ * each version spells differently in a value (dates, enumerations, media
+ * forms) is decided by the value objects that build the structures; the
+ * writer takes care of what is file syntax: the header, line levels, CONT
+ * for line breaks, @ escapes, xrefs made from ids that may hold any
+ * character, and for 7.0 the SCHMA declaring extension tags, @VOID@ for
+ * pointers to nothing and SNOTE records for notes written more than once.
+ */
+
+export type GedcomVersion = '5.5.1' | '7.0';
+
+export const GEDCOM_VERSIONS: readonly GedcomVersion[] = ['5.5.1', '7.0'];
+
+export interface GedcomStructure {
+  tag: string;
+  xref?: string; // records only: the id other structures point to it by
+  value?: string; // may span lines
+  pointer?: string | null; // the id of the record pointed to; null points to nothing
+  children?: GedcomStructure[];
+}
+
+/**
+ * Base of the URIs that identify this application's extension tags in a
+ * 7.0 SCHMA. They name the tags; nothing needs to be served there.
+ */
+const EXTENSION_URI_BASE = 'https://silsilah.app/gedcom/';
+
+// Extension tags documented in a 7.0 header when the file uses them
+const EXTENSION_TAGS = ['_PRIM', '_HIJRI'];
+
+/**
+ * A structure with `value` when it has one: null, undefined and '' leave
+ * the value out.
+ */
+export function gedcomStructure(tag: string, value?: string | null, children: GedcomStructure[] = []): GedcomStructure {
+  return { tag, ...(value ? { value } : {}), ...(children.length > 0 ? { children } : {}) };
+}
+
+/**
+ * A structure and everything under it as lines, starting at `level`.
+ * `xrefs` maps record ids to the xrefs written. Without a map ids are
+ * written as they are; with one, a pointer to a record not in the map
+ * becomes @VOID@ in 7.0 and is left out, with its substructures, in 5.5.1.
+ */
+export function gedcomLines(
+  structure: GedcomStructure,
+  level: number,
+  version: GedcomVersion = '5.5.1',
+  xrefs?: ReadonlyMap<string, string>,
+): string[] {
+  const xref = (id: string) => xrefs?.get(id) ?? id;
+  let head = `${level}`;
+  if (structure.xref !== undefined) head += ` @${xref(structure.xref)}@`;
+  head += ` ${structure.tag}`;
+
+  const [first, ...rest] = structure.value?.split(/\r?\n/) ?? [];
+  if (structure.pointer !== undefined) {
+    const dangling = structure.pointer !== null && !!xrefs && !xrefs.has(structure.pointer);
+    if (dangling && version === '5.5.1') return [];
+    const target = structure.pointer === null || dangling ? null : xref(structure.pointer);
+    if (target !== null) head += ` @${target}@`;
+    else if (version === '7.0') head += ' @VOID@';
+    else if (first) head += ` ${escape(first, version)}`;
+  } else if (first) {
+    head += ` ${escape(first, version)}`;
+  }
+
+  const lines = [head];
+  for (const line of structure.pointer === undefined ? rest : []) {
+    lines.push(`${level + 1} CONT ${escape(line, version)}`.trimEnd());
+  }
+  for (const child of structure.children ?? []) {
+    lines.push(...gedcomLines(child, level + 1, version, xrefs));
+  }
+  return lines;
+}
+
+// Xref of the submitter record 5.5.1 requires, reserved from the record xrefs
+const GEDCOM551_SUBMITTER = 'U1';
+
+/**
+ * A whole GEDCOM file: the header, the records in order, the trailer. A
+ * 5.5.1 header declares the lineage-linked form and points to a submitter
+ * record, named after `source`, as 5.5.1 requires.
+ */
+export function writeGedcom(records: GedcomStructure[], version: GedcomVersion, source: string): string {
+  const written = version === '7.0' ? withSharedNotes(records) : records;
+  const xrefs = gedcomXrefs(written, version);
+
+  const lines =
+    version === '7.0'
+      ? ['0 HEAD', '1 GEDC', '2 VERS 7.0', ...schemaLines(written), `1 SOUR ${source}`]
+      : [
+          '0 HEAD',
+          `1 SOUR ${source}`,
+          `1 SUBM @${GEDCOM551_SUBMITTER}@`,
+          '1 GEDC',
+          '2 VERS 5.5.1',
+          '2 FORM LINEAGE-LINKED',
+          '1 CHAR UTF-8',
+        ];
+  for (const record of written) {
+    lines.push(...gedcomLines(record, 0, version, xrefs));
+  }
+  if (version === '5.5.1') {
+    lines.push(`0 @${GEDCOM551_SUBMITTER}@ SUBM`, `1 NAME ${source}`);
+  }
+  lines.push('0 TRLR');
+  return lines.join('\n');
+}
+
+/**
+ * 5.5.1 doubles every @ in a value except those of an escape such as the
+ * calendar in `@#DHIJRI@ 12 RABIA 1320`; 7.0, which has no escapes, only
+ * one that starts it.
+ */
+function escape(value: string, version: GedcomVersion): string {
+  if (version === '7.0') return value.replace(/^@/, '@@');
+  return value.replace(/(@#[^@]*@)|@/g, (at, escaped: string | undefined) => escaped ?? '@@');
+}
+
+// Longest 5.5.1 xref, without its @ delimiters
+const MAX_GEDCOM551_XREF_LENGTH = 20;
+
+/**
+ * The xref written for each record id. 7.0 allows upper-case letters,
+ * digits and underscores. 5.5.1 keeps letters, digits, underscores and
+ * dashes (what most readers accept), starts with a letter or digit and is
+ * at most 20 characters long. Other characters become underscores, and an
+ * xref already taken, in any letter case, gets a suffix (_2, _3, ...).
+ */
+function gedcomXrefs(records: GedcomStructure[], version: GedcomVersion): Map<string, string> {
+  const xrefs = new Map<string, string>();
+  const taken = new Set(version === '7.0' ? ['VOID'] : ['VOID', GEDCOM551_SUBMITTER]);
+  for (const { xref: id } of records) {
+    if (id === undefined || xrefs.has(id)) continue;
+    let base = version === '7.0' ? id.toUpperCase().replace(/[^A-Z0-9_]/g, '_') : id.replace(/[^A-Za-z0-9_-]/g, '_');
+    if (version === '5.5.1' && !/^[A-Za-z0-9]/.test(base)) base = `X${base}`;
+    base ||= 'X';
+
+    const limit = version === '5.5.1' ? MAX_GEDCOM551_XREF_LENGTH : Infinity;
+    let xref = base.slice(0, limit);
+    for (let n = 2; taken.has(xref.toUpperCase()); n++) xref = `${base.slice(0, limit - `_${n}`.length)}_${n}`;
+    taken.add(xref.toUpperCase());
+    xrefs.set(id, xref);
+  }
+  return xrefs;
+}
+
+/**
+ * Notes with the same text in more than one place become one SNOTE record,
+ * pointed to from each place. Notes with substructures stay where they are.
+ */
+function withSharedNotes(records: GedcomStructure[]): GedcomStructure[] {
+  const counts = new Map<string, number>();
+  const count = (structure: GedcomStructure) => {
+    if (isPlainNote(structure)) counts.set(structure.value!, (counts.get(structure.value!) ?? 0) + 1);
+    structure.children?.forEach(count);
+  };
+  records.forEach(count);
+
+  const ids = new Set(records.map((record) => record.xref));
+  const shared = new Map<string, string>(); // text -> note id
+  for (const [text, n] of counts) {
+    if (n < 2) continue;
+    let id = `N${shared.size + 1}`;
+    for (let k = 2; ids.has(id); k++) id = `N${shared.size + 1}_${k}`;
+    ids.add(id);
+    shared.set(text, id);
+  }
+  if (shared.size === 0) return records;
+
+  const replace = (structure: GedcomStructure): GedcomStructure => {
+    if (isPlainNote(structure) && shared.has(structure.value!)) {
+      return { tag: 'SNOTE', pointer: shared.get(structure.value!)! };
+    }
+    return structure.children ? { ...structure, children: structure.children.map(replace) } : structure;
+  };
+  return [...records.map(replace), ...[...shared].map(([text, id]) => ({ tag: 'SNOTE', xref: id, value: text }))];
+}
+
+function isPlainNote(structure: GedcomStructure): boolean {
+  return structure.tag === 'NOTE' && !!structure.value && structure.pointer === undefined && !structure.children;
+}
+
+/**
+ * The SCHMA structure declaring the extension tags the records use, as
+ * structures or in dates (the _HIJRI calendar).
+ */
+function schemaLines(records: GedcomStructure[]): string[] {
+  const used = new Set<string>();
+  const visit = (structure: GedcomStructure) => {
+    if (structure.tag.startsWith('_')) used.add(structure.tag);
+    if (structure.tag === 'DATE') {
+      for (const token of structure.value?.split(' ') ?? []) if (token.startsWith('_')) used.add(token);
+    }
+    structure.children?.forEach(visit);
+  };
+  records.forEach(visit);
+
+  const declared = EXTENSION_TAGS.filter((tag) => used.has(tag));
+  if (declared.length === 0) return [];
+  return ['1 SCHMA', ...declared.map((tag) => `2 TAG ${tag} ${EXTENSION_URI_BASE}${tag}`)];
+}
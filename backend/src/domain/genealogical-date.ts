@@ -0,0 +1,457 @@
+import { InvariantViolationError } from './errors';
+import { HIJRI_MONTH_CODES, hijriDaysInMonth, hijriToDate, parseHijriMonth } from './hijri-calendar';
+import type { GedcomVersion } from './gedcom-writer';
+
+/**
+ * GenealogicalDate value object.
+ *
+ * Records a date the way genealogical sources state it: possibly approximate
+ * ("about 1890"), bounded ("before 1750"), a range ("between 1850 and 1860"),
+ * or only partially known ("1823", "March 1823"). The date keeps the text it
+ * was entered with and exposes an uncertainty range so invariants can compare
+ * dates without inventing precision the source never had.
+ *
+ * Dates keep the calendar they were recorded in (Gregorian or Hijri); ranges
+ * are always expressed in Gregorian so dates in different calendars compare.
+ */
+
+export type DateQualifier = 'EXACT' | 'ABOUT' | 'ESTIMATED' | 'CALCULATED' | 'BEFORE' | 'AFTER' | 'BETWEEN';
+
+export type DatePrecision = 'DAY' | 'MONTH' | 'YEAR';
+
+export type DateCalendar = 'GREGORIAN' | 'HIJRI';
+
+export interface DateParts {
+  year: number;
+  month?: number | null; // 1-12, in the date's calendar
+  day?: number | null; // 1-31 (1-30 Hijri), requires month
+}
+
+/**
+ * Persisted shape. Derived values (precision, range) are recomputed on load.
+ */
+export interface GenealogicalDateProps {
+  qualifier: DateQualifier;
+  start: DateParts;
+  end?: DateParts | null; // BETWEEN only
+  original?: string | null;
+  calendar?: DateCalendar; // defaults to GREGORIAN
+}
+
+/**
+ * Inclusive bounds of when the event could have happened.
+ * null means unbounded on that side (e.g. BEFORE has no earliest).
+ */
+export interface DateRange {
+  earliest: Date | null;
+  latest: Date | null;
+}
+
+/**
+ * Serialized form returned to API clients.
+ */
+export interface GenealogicalDateJSON extends GenealogicalDateProps {
+  precision: DatePrecision;
+  text: string;
+  earliest: string | null;
+  latest: string | null;
+}
+
+/**
+ * How far either side of the stated date an "about" date may fall, and an
+ * estimated or calculated one.
+ */
+export const ABOUT_MARGIN_YEARS = 5;
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+const QUALIFIER_ALIASES: Record<string, DateQualifier> = {
+  ABT: 'ABOUT',
+  ABOUT: 'ABOUT',
+  CA: 'ABOUT',
+  CIRCA: 'ABOUT',
+  C: 'ABOUT',
+  EST: 'ESTIMATED',
+  ESTIMATED: 'ESTIMATED',
+  CAL: 'CALCULATED',
+  CALCULATED: 'CALCULATED',
+  BEF: 'BEFORE',
+  BEFORE: 'BEFORE',
+  AFT: 'AFTER',
+  AFTER: 'AFTER',
+};
+
+/**
+ * GEDCOM calendar escapes. Dates without an escape are Gregorian.
+ */
+const CALENDAR_ESCAPES: Record<DateCalendar, string> = {
+  GREGORIAN: '@#DGREGORIAN@',
+  HIJRI: '@#DHIJRI@',
+};
+
+/**
+ * Era suffixes that mark free-text input as Hijri, e.g. "1320 AH", "1320 H".
+ */
+const HIJRI_SUFFIX = / (?:A\.?H\.?|H|HIJRI)$/;
+
+const GEDCOM_QUALIFIERS: Record<Exclude<DateQualifier, 'EXACT' | 'BETWEEN'>, string> = {
+  ABOUT: 'ABT',
+  ESTIMATED: 'EST',
+  CALCULATED: 'CAL',
+  BEFORE: 'BEF',
+  AFTER: 'AFT',
+};
+
+export class GenealogicalDate {
+  readonly qualifier: DateQualifier;
+  readonly start: Readonly<DateParts>;
+  readonly end: Readonly<DateParts> | null;
+  readonly original: string | null;
+  readonly calendar: DateCalendar;
+
+  private constructor(props: GenealogicalDateProps) {
+    this.qualifier = props.qualifier;
+    this.calendar = props.calendar ?? 'GREGORIAN';
+    this.start = normalizeParts(props.start);
+    this.end = props.end ? normalizeParts(props.end) : null;
+    this.original = props.original?.trim() || null;
+    this.validate();
+  }
+
+  static create(props: GenealogicalDateProps): GenealogicalDate {
+    return new GenealogicalDate(props);
+  }
+
+  /**
+   * An exact, day-precision date from a JS Date (UTC calendar day).
+   */
+  static fromDate(date: Date): GenealogicalDate {
+    if (Number.isNaN(date.getTime())) {
+      throw new InvariantViolationError('date is invalid');
+    }
+    return new GenealogicalDate({
+      qualifier: 'EXACT',
+      start: { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() },
+    });
+  }
+
+  /**
+   * Parse user or file input. Accepts:
+   * - ISO 8601: 1890-03-12, 1890-03, 1890 (a trailing time component is ignored)
+   * - GEDCOM style: 12 MAR 1890, MAR 1890, 1890 (full month names allowed)
+   * - Qualifiers: ABT/ABOUT/CA/CIRCA, EST/ESTIMATED, CAL/CALCULATED, BEF/BEFORE,
+   *   AFT/AFTER, BET ... AND ...
+   * - Hijri: an AH/H suffix or the GEDCOM @#DHIJRI@ escape, with
+   *   transliterated month names: 12 Rabi' al-Awwal 1320 AH, @#DHIJRI@ 12 RABIA 1320
+   */
+  static parse(text: string): GenealogicalDate {
+    const original = (text ?? '').trim();
+    if (!original) {
+      throw new InvariantViolationError('date is empty');
+    }
+    let upper = original.toUpperCase().replace(/\s+/g, ' ');
+
+    const escapes = new Set(upper.match(/@#D[^@]*@/g) ?? []);
+    let calendar: DateCalendar = 'GREGORIAN';
+    if (escapes.has(CALENDAR_ESCAPES.HIJRI)) calendar = 'HIJRI';
+    for (const escape of escapes) {
+      if (escape !== CALENDAR_ESCAPES.HIJRI && escape !== CALENDAR_ESCAPES.GREGORIAN) {
+        throw new InvariantViolationError(`date calendar ${escape} is not supported`);
+      }
+    }
+    if (escapes.size > 1) {
+      throw new InvariantViolationError('date cannot mix calendars');
+    }
+    upper = upper.replace(/@#D[^@]*@ ?/g, '').trim();
+    if (HIJRI_SUFFIX.test(upper)) {
+      calendar = 'HIJRI';
+      upper = upper.replace(HIJRI_SUFFIX, '');
+    }
+
+    const between = /^(?:BET|BETWEEN) (.+?) AND (.+)$/.exec(upper);
+    if (between) {
+      return new GenealogicalDate({
+        qualifier: 'BETWEEN',
+        start: parseParts(between[1], original, calendar),
+        end: parseParts(between[2], original, calendar),
+        original,
+        calendar,
+      });
+    }
+
+    const qualifierMatch = /^([A-Z]+)\.? ?(.+)$/.exec(upper);
+    const qualifier = qualifierMatch ? QUALIFIER_ALIASES[qualifierMatch[1]] : undefined;
+    if (qualifierMatch && qualifier) {
+      return new GenealogicalDate({
+        qualifier,
+        start: parseParts(qualifierMatch[2], original, calendar),
+        original,
+        calendar,
+      });
+    }
+
+    return new GenealogicalDate({ qualifier: 'EXACT', start: parseParts(upper, original, calendar), original, calendar });
+  }
+
+  /**
+   * Rehydrate from any stored representation: a GenealogicalDate, its props,
+   * a legacy JS Date, or a date string.
+   */
+  static from(
+    value: GenealogicalDate | GenealogicalDateProps | Date | string | null | undefined,
+  ): GenealogicalDate | null {
+    if (value === null || value === undefined || value === '') return null;
+    if (value instanceof GenealogicalDate) return value;
+    if (value instanceof Date) return GenealogicalDate.fromDate(value);
+    if (typeof value === 'string') return GenealogicalDate.parse(value);
+    return GenealogicalDate.create(value);
+  }
+
+  /**
+   * Precision of the least precise bound.
+   */
+  get precision(): DatePrecision {
+    const precisions = [partsPrecision(this.start)];
+    if (this.end) precisions.push(partsPrecision(this.end));
+    if (precisions.includes('YEAR')) return 'YEAR';
+    if (precisions.includes('MONTH')) return 'MONTH';
+    return 'DAY';
+  }
+
+  /**
+   * Gregorian bounds, whatever calendar the date was recorded in.
+   */
+  get range(): DateRange {
+    const calendar = this.calendar;
+    switch (this.qualifier) {
+      case 'EXACT':
+        return { earliest: periodStart(this.start, calendar), latest: periodEnd(this.start, calendar) };
+      case 'ABOUT':
+      case 'ESTIMATED':
+      case 'CALCULATED':
+        return {
+          earliest: periodStart({ ...this.start, year: Math.max(1, this.start.year - ABOUT_MARGIN_YEARS) }, calendar),
+          latest: periodEnd({ ...this.start, year: this.start.year + ABOUT_MARGIN_YEARS }, calendar),
+        };
+      case 'BEFORE':
+        return { earliest: null, latest: addDays(periodStart(this.start, calendar), -1) };
+      case 'AFTER':
+        return { earliest: addDays(periodEnd(this.start, calendar), 1), latest: null };
+      case 'BETWEEN':
+        return { earliest: periodStart(this.start, calendar), latest: periodEnd(this.end!, calendar) };
+    }
+  }
+
+  /**
+   * A single point for ordering dates on a timeline.
+   */
+  sortDate(): Date {
+    const { earliest, latest } = this.range;
+    return (earliest ?? latest)!;
+  }
+
+  /**
+   * True when every possible instant of this date is before every possible
+   * instant of `other`. Overlapping estimates are never "certainly before".
+   */
+  isCertainlyBefore(other: GenealogicalDate): boolean {
+    const latest = this.range.latest;
+    const otherEarliest = other.range.earliest;
+    return latest !== null && otherEarliest !== null && latest < otherEarliest;
+  }
+
+  /**
+   * True when this date cannot fall strictly before `other`:
+   * its earliest possible day is on or after the other's latest possible day.
+   */
+  cannotPrecede(other: GenealogicalDate): boolean {
+    const earliest = this.range.earliest;
+    const otherLatest = other.range.latest;
+    return earliest !== null && otherLatest !== null && earliest >= otherLatest;
+  }
+
+  equals(other: GenealogicalDate | null | undefined): boolean {
+    return !!other && this.toGedcom() === other.toGedcom();
+  }
+
+  /**
+   * GEDCOM date value, e.g. "ABT 1890", "BET 1850 AND 1860", "12 MAR 1823".
+   * Hijri dates carry the calendar escape in 5.5.1: "ABT @#DHIJRI@ 12 RABIA 1320";
+   * 7.0 has no Hijri calendar and names it, and its months, with extension
+   * tags: "ABT _HIJRI 12 _RABIA 1320".
+   */
+  toGedcom(version: GedcomVersion = '5.5.1'): string {
+    const format = (parts: DateParts) => {
+      if (this.calendar === 'GREGORIAN') return formatParts(parts, this.calendar);
+      if (version === '7.0') return `_${this.calendar} ${formatParts(parts, this.calendar, '_')}`;
+      return `${CALENDAR_ESCAPES[this.calendar]} ${formatParts(parts, this.calendar)}`;
+    };
+    switch (this.qualifier) {
+      case 'EXACT':
+        return format(this.start);
+      case 'BETWEEN':
+        return `BET ${format(this.start)} AND ${format(this.end!)}`;
+      default:
+        return `${GEDCOM_QUALIFIERS[this.qualifier]} ${format(this.start)}`;
+    }
+  }
+
+  toString(): string {
+    return this.toGedcom();
+  }
+
+  toProps(): GenealogicalDateProps {
+    return {
+      qualifier: this.qualifier,
+      start: { ...this.start },
+      end: this.end ? { ...this.end } : null,
+      original: this.original,
+      calendar: this.calendar,
+    };
+  }
+
+  toJSON(): GenealogicalDateJSON {
+    const { earliest, latest } = this.range;
+    return {
+      ...this.toProps(),
+      precision: this.precision,
+      text: this.toGedcom(),
+      earliest: earliest ? toIsoDay(earliest) : null,
+      latest: latest ? toIsoDay(latest) : null,
+    };
+  }
+
+  private validate(): void {
+    if (!['EXACT', 'ABOUT', 'ESTIMATED', 'CALCULATED', 'BEFORE', 'AFTER', 'BETWEEN'].includes(this.qualifier)) {
+      throw new InvariantViolationError('date qualifier is invalid');
+    }
+    if (!(this.calendar in CALENDAR_ESCAPES)) {
+      throw new InvariantViolationError('date calendar is invalid');
+    }
+    validateParts(this.start, this.calendar);
+    if (this.qualifier === 'BETWEEN') {
+      if (!this.end) {
+        throw new InvariantViolationError('BETWEEN date requires an end date');
+      }
+      validateParts(this.end, this.calendar);
+      if (periodEnd(this.end, this.calendar) < periodStart(this.start, this.calendar)) {
+        throw new InvariantViolationError('BETWEEN date end must not precede its start');
+      }
+    } else if (this.end) {
+      throw new InvariantViolationError(`${this.qualifier} date cannot have an end date`);
+    }
+  }
+}
+
+// Helpers
+
+function normalizeParts(parts: DateParts): DateParts {
+  return {
+    year: parts.year,
+    month: parts.month ?? null,
+    day: parts.day ?? null,
+  };
+}
+
+function validateParts(parts: DateParts, calendar: DateCalendar): void {
+  if (!Number.isInteger(parts.year) || parts.year < 1 || parts.year > 9999) {
+    throw new InvariantViolationError('date year must be between 1 and 9999');
+  }
+  if (parts.month !== null && parts.month !== undefined) {
+    if (!Number.isInteger(parts.month) || parts.month < 1 || parts.month > 12) {
+      throw new InvariantViolationError('date month must be between 1 and 12');
+    }
+  }
+  if (parts.day !== null && parts.day !== undefined) {
+    if (!parts.month) {
+      throw new InvariantViolationError('date day requires a month');
+    }
+    const daysInMonth =
+      calendar === 'HIJRI'
+        ? hijriDaysInMonth(parts.year, parts.month)
+        : utcDate(parts.year, parts.month + 1, 0).getUTCDate();
+    if (!Number.isInteger(parts.day) || parts.day < 1 || parts.day > daysInMonth) {
+      throw new InvariantViolationError('date day is out of range for its month');
+    }
+  }
+}
+
+function parseParts(body: string, original: string, calendar: DateCalendar): DateParts {
+  const iso = /^(\d{1,4})(?:-(\d{1,2})(?:-(\d{1,2})(?:T[\d:.]+Z?)?)?)?$/.exec(body);
+  if (iso) {
+    return {
+      year: Number(iso[1]),
+      month: iso[2] ? Number(iso[2]) : null,
+      day: iso[3] ? Number(iso[3]) : null,
+    };
+  }
+
+  if (calendar === 'HIJRI') {
+    // Transliterated month names may contain spaces, hyphens and apostrophes
+    const hijri = /^(?:(\d{1,2}) )?(?:(\D+?) )?(\d{1,4})$/.exec(body);
+    const month = hijri?.[2] ? parseHijriMonth(hijri[2]) : null;
+    if (!hijri || month === 0 || (hijri[1] && month === null)) {
+      throw new InvariantViolationError(`date '${original}' is not recognized`);
+    }
+    return { year: Number(hijri[3]), month, day: hijri[1] ? Number(hijri[1]) : null };
+  }
+
+  const gedcom = /^(?:(\d{1,2}) )?(?:([A-Z]{3,9})\.? )?(\d{1,4})$/.exec(body);
+  if (gedcom) {
+    const day = gedcom[1] ? Number(gedcom[1]) : null;
+    const month = gedcom[2] ? MONTHS.indexOf(gedcom[2].slice(0, 3)) + 1 : null;
+    if (month === 0 || (day !== null && month === null)) {
+      throw new InvariantViolationError(`date '${original}' is not recognized`);
+    }
+    return { year: Number(gedcom[3]), month, day };
+  }
+
+  throw new InvariantViolationError(`date '${original}' is not recognized`);
+}
+
+function partsPrecision(parts: DateParts): DatePrecision {
+  if (parts.day) return 'DAY';
+  if (parts.month) return 'MONTH';
+  return 'YEAR';
+}
+
+function formatParts(parts: DateParts, calendar: DateCalendar, monthPrefix = ''): string {
+  const months = calendar === 'HIJRI' ? HIJRI_MONTH_CODES : MONTHS;
+  return [parts.day, parts.month ? `${monthPrefix}${months[parts.month - 1]}` : null, parts.year]
+    .filter((part) => part !== null && part !== undefined)
+    .join(' ');
+}
+
+/**
+ * UTC midnight for a calendar day. month is 1-based; day 0 means the last
+ * day of the previous month. Avoids Date.UTC's two-digit-year remapping.
+ */
+function utcDate(year: number, month: number, day: number): Date {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  date.setUTCHours(0, 0, 0, 0);
+  return date;
+}
+
+function periodStart(parts: DateParts, calendar: DateCalendar): Date {
+  if (calendar === 'HIJRI') return hijriToDate(parts.year, parts.month ?? 1, parts.day ?? 1);
+  return utcDate(parts.year, parts.month ?? 1, parts.day ?? 1);
+}
+
+function periodEnd(parts: DateParts, calendar: DateCalendar): Date {
+  if (calendar === 'HIJRI') {
+    const month = parts.month ?? 12;
+    return hijriToDate(parts.year, month, parts.day ?? hijriDaysInMonth(parts.year, month));
+  }
+  if (parts.day) return utcDate(parts.year, parts.month!, parts.day);
+  if (parts.month) return utcDate(parts.year, parts.month + 1, 0);
+  return utcDate(parts.year, 12, 31);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+function toIsoDay(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
@@ -1,5 +1,25 @@
-import { Person, PersonProps } from './person';
-import { Relationship } from './relationship';
+import { Person, PersonProps, PersonUpdates } from './person';
+import { PARENT_LIMITS, Relationship, type ParentChildType } from './relationship';
+import { Marriage, type MarriageProps, type MarriageUpdates } from './marriage';
+import { LifeEvent, type LifeEventProps, type LifeEventUpdates } from './life-event';
+import { Source, type SourceProps, type SourceUpdates } from './source';
+import { Citation, citationTargetKey, type CitationProps, type CitationTarget, type CitationUpdates } from './citation';
+import { MediaObject, type MediaLink, type MediaProps, type MediaUpdates } from './media';
+import { Place, normalizePlaceName, type PlaceName, type PlaceProps, type PlaceUpdates } from './place';
+import { Family, familyParentKey, resolveFamilies, siblingsOf, type FamilyUnit, type Siblings } from './family';
+import { nasabName, type NasabChain, type NasabEndReason, type NasabLink } from './nasab';
+import { findKinship, type Kinship, type KinshipLookup } from './kinship';
+import type { KinLocale, RelativeAge } from './kin-terms';
+import {
+  mostRecentCommonAncestors,
+  pedigreeCollapse,
+  type CommonAncestor,
+  type PedigreeCollapse,
+  type PedigreeLookup,
+} from './pedigree';
+import { inbreeding, relatedness, type Inbreeding, type Relatedness } from './consanguinity';
+import { findMahram, type Mahram } from './mahram';
+import { findKinPath, type KinPathLookup, type KinPathNeighbour, type KinPathOptions, type KinPathStep } from './kin-path';
 import {
   AgeInconsistencyError,
   CycleDetectedError,
@@ -8,6 +28,8 @@ import {
   ParentLimitExceededError,
   NotFoundError,
   PersonHasRelationshipsError,
+  PlaceInUseError,
+  SourceInUseError,
 } from './errors';
 
 export type ViewMode = 'VERTICAL' | 'HORIZONTAL' | 'LIST';
@@ -30,8 +52,13 @@ export interface RenderedTree {
 export class GenealogyGraph {
   readonly treeId: string;
   private persons: Map<string, Person> = new Map();
-  private parentChildEdges: Set<string> = new Set();
-  private spouseEdges: Set<string> = new Set();
+  private parentChildEdges: Map<string, ParentChildType> = new Map();
+  private spouseEdges: Map<string, Marriage> = new Map();
+  private families: Map<string, Family> = new Map();
+  private sources: Map<string, Source> = new Map();
+  private citations: Map<string, Citation> = new Map();
+  private media: Map<string, MediaObject> = new Map();
+  private places: Map<string, Place> = new Map();
 
   constructor(treeId: string) {
     if (!treeId || treeId.trim() === '') {
@@ -44,38 +71,133 @@ export class GenealogyGraph {
     if (this.persons.has(props.personId)) {
       throw new InvariantViolationError('person already exists');
     }
-    const person = new Person(props);
+    const birth = this.linkPlace({ place: null, placeId: null }, props.birthPlace, props.birthPlaceId);
+    const person = new Person({
+      ...props,
+      birthPlace: birth.place,
+      birthPlaceId: birth.placeId,
+      events: props.events?.map((event) => this.linkEventPlace(event, event.place, event.placeId)),
+    });
     this.persons.set(person.personId, person);
   }
 
-  addParentChildRelationship(parentId: string, childId: string): void {
+  /**
+   * Update a person's attributes in place.
+   * Re-checks every date-dependent invariant: death after birth (via Person)
+   * and age consistency against each existing parent and child.
+   * A birth place linked to the gazetteer takes the place's full name;
+   * writing a different name unlinks it.
+   */
+  updatePerson(personId: string, updates: PersonUpdates): PersonProps {
+    this.requirePerson(personId);
+    const current = this.persons.get(personId)!;
+    const birth = this.linkPlace(
+      { place: current.birthPlace ?? null, placeId: current.birthPlaceId ?? null },
+      updates.birthPlace,
+      updates.birthPlaceId,
+    );
+    const updated = current.withUpdates({ ...updates, birthPlace: birth.place, birthPlaceId: birth.placeId });
+
+    for (const parentId of this.parentsOf(personId)) {
+      this.ensureAgeConsistency(this.persons.get(parentId)!, updated);
+    }
+    for (const childId of this.childrenOf(personId)) {
+      this.ensureAgeConsistency(updated, this.persons.get(childId)!);
+    }
+
+    this.persons.set(personId, updated);
+    return this.getPerson(personId)!;
+  }
+
+  /**
+   * Record a life event (burial, residence, occupation...) for a person.
+   * The event id is generated as E1, E2, ... when not given; it is unique
+   * within the person.
+   */
+  addPersonEvent(personId: string, props: Omit<LifeEventProps, 'eventId'> & { eventId?: string }): LifeEvent {
+    this.requirePerson(personId);
+    const person = this.persons.get(personId)!;
+    const eventId = props.eventId?.trim() || this.nextEventId(person.events);
+    if (person.events.some((e) => e.eventId === eventId)) {
+      throw new InvariantViolationError('event already exists');
+    }
+    const event = this.linkEventPlace(LifeEvent.create({ ...props, eventId }), props.place, props.placeId);
+    this.persons.set(personId, person.withUpdates({ events: [...person.events, event] }));
+    return event;
+  }
+
+  /**
+   * Update a person's life event in place. Dates are re-checked against
+   * the person's birth and death.
+   */
+  updatePersonEvent(personId: string, eventId: string, updates: LifeEventUpdates): LifeEvent {
+    const person = this.persons.get(personId);
+    const current = this.requireEvent(personId, eventId);
+    const updated = this.linkEventPlace(current.withUpdates(updates), updates.place, updates.placeId, current);
+    this.persons.set(
+      personId,
+      person!.withUpdates({ events: person!.events.map((e) => (e.eventId === eventId ? updated : e)) }),
+    );
+    return updated;
+  }
+
+  removePersonEvent(personId: string, eventId: string): LifeEvent {
+    const person = this.persons.get(personId);
+    const removed = this.requireEvent(personId, eventId);
+    this.persons.set(personId, person!.withUpdates({ events: person!.events.filter((e) => e.eventId !== eventId) }));
+    this.dropCitations(citationTargetKey({ kind: 'EVENT', personId, eventId }));
+    this.dropMediaLinks((link) => link.personId === personId && link.eventId === eventId);
+    return removed;
+  }
+
+  getPersonEvents(personId: string): LifeEvent[] {
+    this.requirePerson(personId);
+    return [...this.persons.get(personId)!.events];
+  }
+
+  getPersonEvent(personId: string, eventId: string): LifeEvent | null {
+    return this.persons.get(personId)?.events.find((e) => e.eventId === eventId) ?? null;
+  }
+
+  /**
+   * Record that `parentId` is a parent of `childId`. The parent limit applies
+   * per subtype (two biological parents, any number of guardians); age and
+   * cycle checks apply across all subtypes.
+   */
+  addParentChildRelationship(parentId: string, childId: string, type: ParentChildType = 'BIOLOGICAL'): void {
     this.requirePerson(parentId);
     this.requirePerson(childId);
     if (parentId === childId) {
       throw new InvariantViolationError('self relationship not allowed');
     }
+    const relationship = Relationship.parentChild(parentId, childId, type);
 
     const key = this.parentChildKey(parentId, childId);
     if (this.parentChildEdges.has(key)) {
       throw new DuplicateRelationshipError('duplicate parent-child');
     }
 
-    const parentCount = this.countParents(childId);
-    if (parentCount >= 2) {
-      throw new ParentLimitExceededError('child already has two parents');
+    const limit = PARENT_LIMITS[type];
+    if (limit !== undefined && this.parentsOf(childId, type).length >= limit) {
+      throw new ParentLimitExceededError(`child already has ${limit} ${type.toLowerCase()} parents`);
     }
 
-    this.ensureAgeConsistency(parentId, childId);
+    this.ensureAgeConsistency(this.persons.get(parentId)!, this.persons.get(childId)!);
 
     // Cycle check: would adding edge create cycle?
     if (this.wouldCreateCycle(parentId, childId)) {
       throw new CycleDetectedError('adding relationship creates cycle');
     }
 
-    this.parentChildEdges.add(key);
+    this.parentChildEdges.set(key, relationship.parentChildType!);
   }
 
-  addSpouseRelationship(spouseA: string, spouseB: string): void {
+  /**
+   * Record a marriage between two persons. Orders in `marriage` follow the
+   * argument order (spouse1Order is spouseA's); a missing order becomes the
+   * spouse's next one. A person's marriages must have distinct orders.
+   */
+  addSpouseRelationship(spouseA: string, spouseB: string, marriage: MarriageProps = {}): void {
     this.requirePerson(spouseA);
     this.requirePerson(spouseB);
     if (spouseA === spouseB) {
@@ -86,20 +208,128 @@ export class GenealogyGraph {
     if (this.spouseEdges.has(key)) {
       throw new DuplicateRelationshipError('duplicate spouse relationship');
     }
-    this.spouseEdges.add(key);
+    const details = Marriage.create(marriage);
+    this.spouseEdges.set(key, this.withMarriageOrders(a, b, a === spouseA ? details : details.swapped()));
+  }
+
+  /**
+   * Change the details of an existing marriage. Orders follow the argument
+   * order as in addSpouseRelationship; clearing an order renumbers it as the
+   * spouse's next one. Returns the marriage oriented as spouse1/spouse2.
+   */
+  updateSpouseRelationship(spouseA: string, spouseB: string, updates: MarriageUpdates): Marriage {
+    this.requirePerson(spouseA);
+    this.requirePerson(spouseB);
+    const [a, b] = spouseA <= spouseB ? [spouseA, spouseB] : [spouseB, spouseA];
+    const key = this.spouseKey(a, b);
+    const current = this.spouseEdges.get(key);
+    if (!current) {
+      throw new NotFoundError('spouse relationship not found');
+    }
+    const oriented =
+      a === spouseA ? updates : { ...updates, spouse1Order: updates.spouse2Order, spouse2Order: updates.spouse1Order };
+    const updated = this.withMarriageOrders(a, b, current.withUpdates(oriented), key);
+    this.spouseEdges.set(key, updated);
+    return updated;
+  }
+
+  /**
+   * Marriage details between two spouses, oriented as spouse1/spouse2
+   * (canonical order), or null when they are not recorded as spouses.
+   */
+  getMarriage(spouseA: string, spouseB: string): Marriage | null {
+    const [a, b] = spouseA <= spouseB ? [spouseA, spouseB] : [spouseB, spouseA];
+    return this.spouseEdges.get(this.spouseKey(a, b)) ?? null;
+  }
+
+  /**
+   * Record a union (a couple, or a single parent) that children can be
+   * attached to. Returns the family id, generated as F1, F2, ... when not
+   * given. A union of the same parents can only be recorded once.
+   */
+  createFamily(parent1Id: string, parent2Id?: string | null, familyId?: string): string {
+    this.requirePerson(parent1Id);
+    if (parent2Id) this.requirePerson(parent2Id);
+    const id = familyId?.trim() || this.nextFamilyId();
+    if (this.families.has(id)) {
+      throw new InvariantViolationError('family already exists');
+    }
+    const family = Family.create({ familyId: id, parent1Id, parent2Id });
+    if (this.findFamilyByParents(family.parentIds)) {
+      throw new DuplicateRelationshipError('duplicate family');
+    }
+    this.families.set(id, family);
+    return id;
+  }
+
+  /**
+   * Attach a child to a specific union, at `position` among its children
+   * (after them when omitted). Each family parent not yet recorded as the
+   * child's parent becomes one with `type`, under the usual checks. A child
+   * can belong to more than one union (birth parents and a step-parent's).
+   */
+  addChildToFamily(familyId: string, childId: string, type: ParentChildType = 'BIOLOGICAL', position?: number): void {
+    const family = this.requireFamily(familyId);
+    this.requirePerson(childId);
+    if (family.hasChild(childId)) {
+      throw new DuplicateRelationshipError('child already belongs to this family');
+    }
+    const attached = family.withChild(childId, position);
+
+    const added: string[] = [];
+    try {
+      for (const parentId of family.parentIds) {
+        if (this.parentChildEdges.has(this.parentChildKey(parentId, childId))) continue;
+        this.addParentChildRelationship(parentId, childId, type);
+        added.push(this.parentChildKey(parentId, childId));
+      }
+    } catch (err) {
+      added.forEach((key) => this.parentChildEdges.delete(key));
+      throw err;
+    }
+
+    this.families.set(familyId, attached);
+  }
+
+  getFamily(familyId: string): Family | null {
+    return this.families.get(familyId) ?? null;
+  }
+
+  /**
+   * Recorded families plus those inferred for children not attached to one.
+   */
+  getFamilies(): FamilyUnit[] {
+    return resolveFamilies(
+      Array.from(this.families.values()).map((f) => f.toStored()),
+      this.getParentChildEdgesSnapshot(),
+      this.getSpouseEdgesSnapshot(),
+    );
+  }
+
+  getSiblings(personId: string): Siblings {
+    this.requirePerson(personId);
+    return siblingsOf(personId, this.getFamilies(), (id) => this.parentsOf(id, 'BIOLOGICAL'));
   }
 
   removeRelationship(personId1: string, personId2: string): void {
-    // Try parent-child both directions
+    // Try parent-child both directions; the child leaves that parent's families
     const pc1 = this.parentChildKey(personId1, personId2);
     const pc2 = this.parentChildKey(personId2, personId1);
-    if (this.parentChildEdges.delete(pc1) || this.parentChildEdges.delete(pc2)) {
+    if (this.parentChildEdges.delete(pc1)) {
+      this.detachChild(personId1, personId2);
+      this.dropCitations(citationTargetKey({ kind: 'PARENT_CHILD', parentId: personId1, childId: personId2 }));
+      return;
+    }
+    if (this.parentChildEdges.delete(pc2)) {
+      this.detachChild(personId2, personId1);
+      this.dropCitations(citationTargetKey({ kind: 'PARENT_CHILD', parentId: personId2, childId: personId1 }));
       return;
     }
     // Try spouse (canonical ordering)
     const [a, b] = personId1 <= personId2 ? [personId1, personId2] : [personId2, personId1];
     const sp = this.spouseKey(a, b);
     if (this.spouseEdges.delete(sp)) {
+      this.dropCitations(citationTargetKey({ kind: 'SPOUSE', spouse1Id: a, spouse2Id: b }));
       return;
     }
     throw new NotFoundError('relationship not found');
@@ -118,19 +348,317 @@ export class GenealogyGraph {
       );
     }
 
+    // Without relationships the person can only head families with no children
+    for (const family of Array.from(this.families.values())) {
+      if (family.hasParent(personId)) this.families.delete(family.familyId);
+    }
+    for (const citation of Array.from(this.citations.values())) {
+      if (citation.concerns(personId)) this.citations.delete(citation.citationId);
+    }
+    this.dropMediaLinks((link) => link.personId === personId);
     this.persons.delete(personId);
   }
 
+  /**
+   * Record a source in the tree. The id is generated as S1, S2, ... when
+   * not given.
+   */
+  addSource(props: Omit<SourceProps, 'sourceId'> & { sourceId?: string }): Source {
+    const sourceId = props.sourceId?.trim() || this.nextId('S', this.sources);
+    if (this.sources.has(sourceId)) {
+      throw new InvariantViolationError('source already exists');
+    }
+    const source = Source.create({ ...props, sourceId });
+    this.sources.set(sourceId, source);
+    return source;
+  }
+
+  updateSource(sourceId: string, updates: SourceUpdates): Source {
+    const updated = this.requireSource(sourceId).withUpdates(updates);
+    this.sources.set(sourceId, updated);
+    return updated;
+  }
+
+  /**
+   * Remove a source that is no longer cited. Citations are evidence and are
+   * never dropped along with their source: remove them first.
+   */
+  removeSource(sourceId: string): Source {
+    const source = this.requireSource(sourceId);
+    const cited = this.getCitations().filter((c) => c.sourceId === sourceId).length;
+    if (cited > 0) {
+      throw new SourceInUseError(`source ${sourceId} is cited ${cited} time(s); remove its citations first`);
+    }
+    this.sources.delete(sourceId);
+    return source;
+  }
+
+  getSource(sourceId: string): Source | null {
+    return this.sources.get(sourceId) ?? null;
+  }
+
+  getSources(): Source[] {
+    return Array.from(this.sources.values());
+  }
+
+  /**
+   * Cite a source for a fact: a person, one of their facts or events, or a
+   * parent-child or spouse link, which must exist. The id is generated as
+   * C1, C2, ... when not given. The same source can be cited for a fact more
+   * than once, at different pages.
+   */
+  addCitation(props: Omit<CitationProps, 'citationId'> & { citationId?: string }): Citation {
+    const citationId = props.citationId?.trim() || this.nextId('C', this.citations);
+    if (this.citations.has(citationId)) {
+      throw new InvariantViolationError('citation already exists');
+    }
+    const citation = Citation.create({ ...props, citationId });
+    this.requireSource(citation.sourceId);
+    this.requireCitationTarget(citation.target);
+    const duplicate = this.getCitations().some(
+      (c) => c.sourceId === citation.sourceId && c.targetKey === citation.targetKey && c.page === citation.page,
+    );
+    if (duplicate) {
+      throw new DuplicateRelationshipError('duplicate citation');
+    }
+    this.citations.set(citationId, citation);
+    return citation;
+  }
+
+  updateCitation(citationId: string, updates: CitationUpdates): Citation {
+    const updated = this.requireCitation(citationId).withUpdates(updates);
+    this.citations.set(citationId, updated);
+    return updated;
+  }
+
+  removeCitation(citationId: string): Citation {
+    const citation = this.requireCitation(citationId);
+    this.citations.delete(citationId);
+    return citation;
+  }
+
+  getCitation(citationId: string): Citation | null {
+    return this.citations.get(citationId) ?? null;
+  }
+
+  getCitations(): Citation[] {
+    return Array.from(this.citations.values());
+  }
+
+  /**
+   * Citations of every fact involving a person: the person and their facts
+   * and events, and their parent-child and spouse links.
+   */
+  getPersonCitations(personId: string): Citation[] {
+    this.requirePerson(personId);
+    return this.getCitations().filter((c) => c.concerns(personId));
+  }
+
+  /**
+   * Record a file attached to the tree; its bytes are already stored under
+   * its storage key. The id is generated as M1, M2, ... when not given.
+   * Linked persons and events must exist. A portrait link replaces the
+   * person's previous portrait.
+   */
+  addMedia(props: Omit<MediaProps, 'mediaId'> & { mediaId?: string }): MediaObject {
+    const mediaId = props.mediaId?.trim() || this.nextId('M', this.media);
+    if (this.media.has(mediaId)) {
+      throw new InvariantViolationError('media already exists');
+    }
+    const media = MediaObject.create({ ...props, mediaId });
+    this.requireMediaLinks(media.links);
+    this.clearPortraits(media);
+    this.media.set(mediaId, media);
+    return media;
+  }
+
+  updateMedia(mediaId: string, updates: MediaUpdates): MediaObject {
+    const updated = this.requireMedia(mediaId).withUpdates(updates);
+    this.requireMediaLinks(updated.links);
+    this.clearPortraits(updated);
+    this.media.set(mediaId, updated);
+    return updated;
+  }
+
+  /**
+   * Remove a file from the tree. Its stored bytes are left to the caller.
+   */
+  removeMedia(mediaId: string): MediaObject {
+    const media = this.requireMedia(mediaId);
+    this.media.delete(mediaId);
+    return media;
+  }
+
+  getMedia(mediaId: string): MediaObject | null {
+    return this.media.get(mediaId) ?? null;
+  }
+
+  getMediaObjects(): MediaObject[] {
+    return Array.from(this.media.values());
+  }
+
+  /** Files showing a person or one of their events, in recorded order */
+  getPersonMedia(personId: string): MediaObject[] {
+    this.requirePerson(personId);
+    return this.getMediaObjects().filter((m) => m.concerns(personId));
+  }
+
+  getPortrait(personId: string): MediaObject | null {
+    return this.getMediaObjects().find((m) => m.isPortraitOf(personId)) ?? null;
+  }
+
+  /**
+   * Record a place in the tree's gazetteer, under its parent place when
+   * given. The id is generated as PL1, PL2, ... when not given.
+   */
+  addPlace(props: Omit<PlaceProps, 'placeId'> & { placeId?: string }): Place {
+    const placeId = props.placeId?.trim() || this.nextId('PL', this.places);
+    if (this.places.has(placeId)) {
+      throw new InvariantViolationError('place already exists');
+    }
+    const place = Place.create({ ...props, placeId });
+    this.requirePlaceParent(place);
+    this.places.set(placeId, place);
+    return place;
+  }
+
+  /**
+   * Update a place in place. Moving it under another parent, or renaming
+   * it, renames every birth and event recorded there or in a place below.
+   */
+  updatePlace(placeId: string, updates: PlaceUpdates): Place {
+    const updated = this.requirePlace(placeId).withUpdates(updates);
+    this.requirePlaceParent(updated);
+    this.places.set(placeId, updated);
+    this.syncPlaceNames();
+    return updated;
+  }
+
+  /**
+   * Rename a place. With `keepFormerName` the current name stays as a
+   * historical name, so that it is still found and exported.
+   */
+  renamePlace(placeId: string, name: string, keepFormerName = false): Place {
+    const place = this.requirePlace(placeId);
+    const renamed = place.withUpdates({ name });
+    const formerName: PlaceName[] =
+      keepFormerName && !renamed.isNamed(place.name) ? [{ name: place.name, historical: true }] : [];
+    return this.updatePlace(placeId, {
+      name,
+      // The new name may have been one of its other names
+      alternateNames: [
+        ...renamed.alternateNames.filter((alt) => normalizePlaceName(alt.name) !== normalizePlaceName(renamed.name)),
+        ...formerName,
+      ],
+    });
+  }
+
+  /**
+   * Merge a duplicate place into another: births, events and places below
+   * it move to `intoPlaceId`, which also takes its names as other names,
+   * and its type and coordinates when it has none of its own.
+   */
+  mergePlaces(placeId: string, intoPlaceId: string): Place {
+    const place = this.requirePlace(placeId);
+    const into = this.requirePlace(intoPlaceId);
+    if (placeId === intoPlaceId) {
+      throw new InvariantViolationError('cannot merge a place into itself');
+    }
+    if (this.placeAncestors(intoPlaceId).includes(placeId)) {
+      throw new InvariantViolationError('cannot merge a place into a place below it');
+    }
+
+    const merged = into
+      .withAlternateNames([{ name: place.name }, ...place.alternateNames])
+      .withUpdates({
+        type: into.type ?? place.type,
+        latitude: into.hasCoordinates ? into.latitude : place.latitude,
+        longitude: into.hasCoordinates ? into.longitude : place.longitude,
+      });
+    this.places.set(intoPlaceId, merged);
+    for (const child of Array.from(this.places.values())) {
+      if (child.parentId === placeId) this.places.set(child.placeId, child.withUpdates({ parentId: intoPlaceId }));
+    }
+    for (const person of Array.from(this.persons.values())) {
+      this.persons.set(
+        person.personId,
+        person.withUpdates({
+          birthPlaceId: person.birthPlaceId === placeId ? intoPlaceId : person.birthPlaceId,
+          events: person.events.map((e) => (e.placeId === placeId ? e.withUpdates({ placeId: intoPlaceId }) : e)),
+        }),
+      );
+    }
+    this.places.delete(placeId);
+    this.syncPlaceNames();
+    return merged;
+  }
+
+  /**
+   * Remove a place nothing refers to: no birth or event recorded there and
+   * no place below it. Merge it into another place instead to keep those.
+   */
+  removePlace(placeId: string): Place {
+    const place = this.requirePlace(placeId);
+    const used = this.getPlacePersonIds(placeId).length;
+    if (used > 0) {
+      throw new PlaceInUseError(`place ${placeId} is used by ${used} person(s); merge it into another place instead`);
+    }
+    if (this.getPlaces().some((p) => p.parentId === placeId)) {
+      throw new PlaceInUseError(`place ${placeId} has places below it; move or remove them first`);
+    }
+    this.places.delete(placeId);
+    return place;
+  }
+
+  getPlace(placeId: string): Place | null {
+    return this.places.get(placeId) ?? null;
+  }
+
+  getPlaces(): Place[] {
+    return Array.from(this.places.values());
+  }
+
+  /**
+   * The place's name followed by its parents', smallest first:
+   * "Tarim, Hadramaut, Yemen".
+   */
+  getPlaceFullName(placeId: string): string {
+    return [placeId, ...this.placeAncestors(placeId)].map((id) => this.requirePlace(id).name).join(', ');
+  }
+
+  /** Places whose name or one of whose other names is `name` */
+  findPlacesByName(name: string): Place[] {
+    const wanted = normalizePlaceName(name);
+    if (!wanted) return [];
+    return this.getPlaces().filter((p) => p.isNamed(wanted));
+  }
+
+  /**
+   * Persons born, or with an event, at the place; with `includeSubPlaces`
+   * also at any place below it.
+   */
+  getPlacePersonIds(placeId: string, includeSubPlaces = false): string[] {
+    this.requirePlace(placeId);
+    const matches = (id: string | null | undefined): boolean =>
+      !!id && (id === placeId || (includeSubPlaces && this.placeAncestors(id).includes(placeId)));
+    return Array.from(this.persons.values())
+      .filter((p) => matches(p.birthPlaceId) || p.events.some((e) => matches(e.placeId)))
+      .map((p) => p.personId);
+  }
+
   getPerson(personId: string): PersonProps | null {
     const p = this.persons.get(personId);
     if (!p) return null;
     return {
       personId: p.personId,
       name: p.name,
+      names: [...p.names],
       gender: p.gender,
       birthDate: p.birthDate,
       birthPlace: p.birthPlace,
+      birthPlaceId: p.birthPlaceId,
       deathDate: p.deathDate,
+      events: [...p.events],
     };
   }
 
@@ -154,6 +682,47 @@ export class GenealogyGraph {
     return Array.from(ancestors);
   }
 
+  /**
+   * Ancestors who appear in a person's pedigree through more than one line
+   * of descent, with the number of lines; biological parents only.
+   */
+  getPedigreeCollapse(personId: string): PedigreeCollapse {
+    this.requirePerson(personId);
+    return pedigreeCollapse(this.pedigreeLookup(), personId);
+  }
+
+  /**
+   * The most recent common ancestors of two or more persons, with how many
+   * generations each person is below them; biological parents only.
+   */
+  getCommonAncestors(personIds: string[]): CommonAncestor[] {
+    const distinct = [...new Set(personIds)];
+    if (distinct.length < 2) {
+      throw new InvariantViolationError('at least two distinct persons are required');
+    }
+    distinct.forEach((personId) => this.requirePerson(personId));
+    return mostRecentCommonAncestors(this.pedigreeLookup(), distinct);
+  }
+
+  /**
+   * Wright's coefficient of relationship between two distinct persons, with
+   * the paths through common ancestors that make it up; biological parents only.
+   */
+  getRelatedness(aId: string, bId: string): Relatedness {
+    if (aId === bId) {
+      throw new InvariantViolationError('two distinct persons are required');
+    }
+    this.requirePerson(aId);
+    this.requirePerson(bId);
+    return relatedness(this.pedigreeLookup(), aId, bId);
+  }
+
+  /** Inbreeding coefficient of a person, with the paths between their parents */
+  getInbreeding(personId: string): Inbreeding {
+    this.requirePerson(personId);
+    return inbreeding(this.pedigreeLookup(), personId);
+  }
+
   getDescendants(personId: string): string[] {
     this.requirePerson(personId);
     const descendants: Set<string> = new Set();
@@ -174,17 +743,81 @@ export class GenealogyGraph {
     return Array.from(descendants);
   }
 
+  /**
+   * Walk the father line from a person, up to `maxDepth` fathers.
+   * A father is the single MALE biological parent; the walk stops, recording
+   * why, as soon as that is not clear. Adoptive, step, foster and guardian
+   * parents never enter a nasab.
+   */
+  getNasab(personId: string, maxDepth: number): NasabChain {
+    this.requirePerson(personId);
+    const links: NasabLink[] = [];
+    let current = this.persons.get(personId)!;
+    let reason: NasabEndReason | null = null;
+    let parentIds: string[] = [];
+
+    while (reason === null) {
+      links.push({ personId: current.personId, name: nasabName(current), gender: current.gender });
+      parentIds = this.parentsOf(current.personId, 'BIOLOGICAL');
+      const parents = parentIds.map((id) => this.persons.get(id)!);
+      const fathers = parents.filter((p) => p.gender === 'MALE');
+
+      if (parents.length === 0) reason = 'NO_PARENTS';
+      else if (fathers.length > 1) reason = 'MULTIPLE_FATHERS';
+      else if (fathers.length === 1 && links.length > maxDepth) reason = 'DEPTH_LIMIT';
+      else if (fathers.length === 1) current = fathers[0];
+      else if (parents.some((p) => p.gender === 'UNKNOWN')) reason = 'PARENT_GENDER_UNKNOWN';
+      else reason = 'FATHER_NOT_RECORDED';
+    }
+    return { personId, links, end: { reason, parentIds } };
+  }
+
+  /**
+   * What `toId` is to `fromId`, with the path between them: blood
+   * relations through biological parents, spouses, recorded non-biological
+   * parents and children, and in-laws through one spouse edge. The label
+   * is in `locale`.
+   */
+  getKinship(fromId: string, toId: string, locale: KinLocale = 'en'): Kinship {
+    this.requirePerson(fromId);
+    this.requirePerson(toId);
+    return findKinship(this.kinshipLookup(), fromId, toId, locale);
+  }
+
+  /**
+   * The shortest chain of parent, child and spouse edges from `fromId` to
+   * `toId`, both ends included; null when nothing connects them.
+   */
+  getKinPath(fromId: string, toId: string, options: KinPathOptions = { includeSpouses: true }): KinPathStep[] | null {
+    this.requirePerson(fromId);
+    this.requirePerson(toId);
+    return findKinPath(this.kinPathLookup(), fromId, toId, options);
+  }
+
+  /**
+   * Whether `toId` is mahram to `fromId` by blood, milk kinship or marriage,
+   * with the rule and the chain of persons that establish it.
+   */
+  getMahram(fromId: string, toId: string): Mahram {
+    if (fromId === toId) {
+      throw new InvariantViolationError('two distinct persons are required');
+    }
+    this.requirePerson(fromId);
+    this.requirePerson(toId);
+    return findMahram(this.kinshipLookup(), fromId, toId);
+  }
+
   renderTree(rootPersonId: string, viewMode: ViewMode): RenderedTree {
     this.requirePerson(rootPersonId);
     const levels = this.computeGenerationLevels(rootPersonId);
     const nodes = Array.from(levels.entries()).map(([personId, level]) => ({ personId, generationLevel: level }));
     const edges: RelationshipEdge[] = [];
 
-    for (const key of this.parentChildEdges) {
+    for (const key of this.parentChildEdges.keys()) {
       const [parentId, childId] = key.split('->');
       edges.push({ relationType: 'PARENT_CHILD', parentId, childId });
     }
-    for (const key of this.spouseEdges) {
+    for (const key of this.spouseEdges.keys()) {
       const [a, b] = key.split('~');
       edges.push({ relationType: 'SPOUSE', spouse1Id: a, spouse2Id: b });
     }
@@ -196,27 +829,52 @@ export class GenealogyGraph {
     return Array.from(this.persons.values()).map((p) => ({
       personId: p.personId,
       name: p.name,
+      names: [...p.names],
       gender: p.gender,
       birthDate: p.birthDate,
       birthPlace: p.birthPlace,
+      birthPlaceId: p.birthPlaceId,
       deathDate: p.deathDate,
+      events: [...p.events],
     }));
   }
 
-  getParentChildEdgesSnapshot(): Array<{ parentId: string; childId: string }> {
-    return Array.from(this.parentChildEdges).map((key) => {
+  getParentChildEdgesSnapshot(): Array<{ parentId: string; childId: string; type: ParentChildType }> {
+    return Array.from(this.parentChildEdges).map(([key, type]) => {
       const [parentId, childId] = key.split('->');
-      return { parentId, childId };
+      return { parentId, childId, type };
     });
   }
 
-  getSpouseEdgesSnapshot(): Array<{ spouse1Id: string; spouse2Id: string }> {
-    return Array.from(this.spouseEdges).map((key) => {
+  getSpouseEdgesSnapshot(): Array<{ spouse1Id: string; spouse2Id: string; marriage: Marriage }> {
+    return Array.from(this.spouseEdges).map(([key, marriage]) => {
       const [spouse1Id, spouse2Id] = key.split('~');
-      return { spouse1Id, spouse2Id };
+      return { spouse1Id, spouse2Id, marriage };
     });
   }
 
+  getFamiliesSnapshot(): Family[] {
+    return Array.from(this.families.values());
+  }
+
+  getSourcesSnapshot(): Source[] {
+    return this.getSources();
+  }
+
+  getCitationsSnapshot(): Citation[] {
+    return this.getCitations();
+  }
+
+  getMediaSnapshot(): MediaObject[] {
+    return this.getMediaObjects();
+  }
+
+  // Parents before the places below them, so that they can be added back in order
+  getPlacesSnapshot(): Place[] {
+    const depth = (place: Place) => this.placeAncestors(place.placeId).length;
+    return this.getPlaces().sort((a, b) => depth(a) - depth(b));
+  }
+
   // Helpers
   private requirePerson(personId: string) {
     if (!this.persons.has(personId)) {
@@ -224,6 +882,210 @@ export class GenealogyGraph {
     }
   }
 
+  private requireEvent(personId: string, eventId: string): LifeEvent {
+    this.requirePerson(personId);
+    const event = this.getPersonEvent(personId, eventId);
+    if (!event) {
+      throw new NotFoundError(`event ${eventId} not found`);
+    }
+    return event;
+  }
+
+  private nextEventId(events: readonly LifeEvent[]): string {
+    let n = events.length + 1;
+    while (events.some((e) => e.eventId === `E${n}`)) n++;
+    return `E${n}`;
+  }
+
+  private requireSource(sourceId: string): Source {
+    const source = this.sources.get(sourceId);
+    if (!source) {
+      throw new NotFoundError(`source ${sourceId} not found`);
+    }
+    return source;
+  }
+
+  private requireCitation(citationId: string): Citation {
+    const citation = this.citations.get(citationId);
+    if (!citation) {
+      throw new NotFoundError(`citation ${citationId} not found`);
+    }
+    return citation;
+  }
+
+  private requireCitationTarget(target: CitationTarget): void {
+    switch (target.kind) {
+      case 'PERSON':
+        this.requirePerson(target.personId);
+        return;
+      case 'EVENT':
+        this.requireEvent(target.personId, target.eventId);
+        return;
+      case 'PARENT_CHILD':
+        if (!this.parentChildEdges.has(this.parentChildKey(target.parentId, target.childId))) {
+          throw new NotFoundError('parent-child relationship not found');
+        }
+        return;
+      case 'SPOUSE':
+        if (!this.spouseEdges.has(this.spouseKey(target.spouse1Id, target.spouse2Id))) {
+          throw new NotFoundError('spouse relationship not found');
+        }
+        return;
+    }
+  }
+
+  private dropCitations(targetKey: string): void {
+    for (const citation of Array.from(this.citations.values())) {
+      if (citation.targetKey === targetKey) this.citations.delete(citation.citationId);
+    }
+  }
+
+  private requireMedia(mediaId: string): MediaObject {
+    const media = this.media.get(mediaId);
+    if (!media) {
+      throw new NotFoundError(`media ${mediaId} not found`);
+    }
+    return media;
+  }
+
+  private requireMediaLinks(links: readonly MediaLink[]): void {
+    for (const link of links) {
+      if (link.eventId) this.requireEvent(link.personId, link.eventId);
+      else this.requirePerson(link.personId);
+    }
+  }
+
+  // A person has one portrait: the latest one marked wins
+  private clearPortraits(portrait: MediaObject): void {
+    const personIds = portrait.links.filter((l) => l.primary).map((l) => l.personId);
+    if (personIds.length === 0) return;
+    for (const media of Array.from(this.media.values())) {
+      if (media.mediaId === portrait.mediaId || !personIds.some((id) => media.isPortraitOf(id))) continue;
+      const links = media.links.map((l) => (personIds.includes(l.personId) ? { ...l, primary: false } : l));
+      this.media.set(media.mediaId, media.withUpdates({ links }));
+    }
+  }
+
+  private dropMediaLinks(matches: (link: MediaLink) => boolean): void {
+    for (const media of Array.from(this.media.values())) {
+      if (!media.links.some(matches)) continue;
+      this.media.set(media.mediaId, media.withUpdates({ links: media.links.filter((l) => !matches(l)) }));
+    }
+  }
+
+  private requirePlace(placeId: string): Place {
+    const place = this.places.get(placeId);
+    if (!place) {
+      throw new NotFoundError(`place ${placeId} not found`);
+    }
+    return place;
+  }
+
+  private requirePlaceParent(place: Place): void {
+    if (!place.parentId) return;
+    this.requirePlace(place.parentId);
+    if (this.placeAncestors(place.parentId).includes(place.placeId)) {
+      throw new InvariantViolationError(`place ${place.parentId} is below ${place.placeId}`);
+    }
+  }
+
+  // Parent, grandparent... of a place, nearest first
+  private placeAncestors(placeId: string): string[] {
+    const ancestors: string[] = [];
+    let parentId = this.places.get(placeId)?.parentId;
+    while (parentId && !ancestors.includes(parentId)) {
+      ancestors.push(parentId);
+      parentId = this.places.get(parentId)?.parentId;
+    }
+    return ancestors;
+  }
+
+  /**
+   * Resolve a place as written and as linked, against the current one.
+   * A given `placeId` must exist and sets the text to its full name; `null`
+   * unlinks it and keeps the text; writing a different text unlinks it.
+   */
+  private linkPlace(
+    current: { place: string | null; placeId: string | null },
+    place: string | null | undefined,
+    placeId: string | null | undefined,
+  ): { place: string | null; placeId: string | null } {
+    if (placeId) {
+      return { place: this.getPlaceFullName(this.requirePlace(placeId).placeId), placeId };
+    }
+    if (placeId === null) {
+      return { place: place !== undefined ? place : current.place, placeId: null };
+    }
+    if (place === undefined) return current;
+    return { place, placeId: current.placeId && place === current.place ? current.placeId : null };
+  }
+
+  private linkEventPlace(
+    event: LifeEvent,
+    place: string | null | undefined,
+    placeId: string | null | undefined,
+    current?: LifeEvent,
+  ): LifeEvent {
+    const link = this.linkPlace(
+      { place: current?.place ?? null, placeId: current?.placeId ?? null },
+      place,
+      placeId,
+    );
+    return link.place === event.place && link.placeId === event.placeId ? event : event.withUpdates(link);
+  }
+
+  // Linked births and events carry the full name of their place
+  private syncPlaceNames(): void {
+    const fullName = (placeId: string | null | undefined, text: string | null | undefined) =>
+      placeId ? this.getPlaceFullName(placeId) : text ?? null;
+    for (const person of Array.from(this.persons.values())) {
+      if (!person.birthPlaceId && !person.events.some((e) => e.placeId)) continue;
+      this.persons.set(
+        person.personId,
+        person.withUpdates({
+          birthPlace: fullName(person.birthPlaceId, person.birthPlace),
+          events: person.events.map((e) => (e.placeId ? e.withUpdates({ place: fullName(e.placeId, e.place) }) : e)),
+        }),
+      );
+    }
+  }
+
+  private nextId(prefix: string, existing: Map<string, unknown>): string {
+    let n = existing.size + 1;
+    while (existing.has(`${prefix}${n}`)) n++;
+    return `${prefix}${n}`;
+  }
+
+  private requireFamily(familyId: string): Family {
+    const family = this.families.get(familyId);
+    if (!family) {
+      throw new NotFoundError(`family ${familyId} not found`);
+    }
+    return family;
+  }
+
+  private findFamilyByParents(parentIds: string[]): Family | null {
+    const key = familyParentKey(parentIds);
+    for (const family of this.families.values()) {
+      if (family.parentKey === key) return family;
+    }
+    return null;
+  }
+
+  private nextFamilyId(): string {
+    let n = this.families.size + 1;
+    while (this.families.has(`F${n}`)) n++;
+    return `F${n}`;
+  }
+
+  private detachChild(parentId: string, childId: string): void {
+    for (const family of this.families.values()) {
+      if (family.hasParent(parentId) && family.hasChild(childId)) {
+        this.families.set(family.familyId, family.withoutChild(childId));
+      }
+    }
+  }
+
   private parentChildKey(parentId: string, childId: string): string {
     return `${parentId}->${childId}`;
   }
@@ -232,32 +1094,134 @@ export class GenealogyGraph {
     return `${a}~${b}`;
   }
 
-  private parentsOf(childId: string): string[] {
+  /**
+   * Fill in missing marriage orders and check that neither spouse already
+   * has another marriage with the same order. `ownKey` is the edge being
+   * updated, which does not count against itself.
+   */
+  private withMarriageOrders(spouse1Id: string, spouse2Id: string, marriage: Marriage, ownKey?: string): Marriage {
+    const orderFor = (personId: string, requested: number | null): number => {
+      const taken = this.marriageOrdersOf(personId, ownKey);
+      if (requested === null) return Math.max(0, ...taken) + 1;
+      if (taken.includes(requested)) {
+        throw new InvariantViolationError(`person ${personId} already has a marriage with order ${requested}`);
+      }
+      return requested;
+    };
+    return marriage.withOrders(orderFor(spouse1Id, marriage.spouse1Order), orderFor(spouse2Id, marriage.spouse2Order));
+  }
+
+  private marriageOrdersOf(personId: string, excludeKey?: string): number[] {
+    const orders: number[] = [];
+    for (const [key, marriage] of this.spouseEdges) {
+      if (key === excludeKey) continue;
+      const [spouse1Id, spouse2Id] = key.split('~');
+      if (spouse1Id === personId && marriage.spouse1Order !== null) orders.push(marriage.spouse1Order);
+      if (spouse2Id === personId && marriage.spouse2Order !== null) orders.push(marriage.spouse2Order);
+    }
+    return orders;
+  }
+
+  private kinshipLookup(): KinshipLookup {
+    let families: FamilyUnit[] | null = null;
+    return {
+      genderOf: (personId) => this.persons.get(personId)!.gender,
+      relativeAge: (personId, otherId) => {
+        families ??= this.getFamilies();
+        return this.relativeAge(personId, otherId, families);
+      },
+      parentLinksOf: (personId) => {
+        const links: { parentId: string; type: ParentChildType }[] = [];
+        for (const [key, type] of this.parentChildEdges) {
+          const [parentId, childId] = key.split('->');
+          if (childId === personId) links.push({ parentId, type });
+        }
+        return links;
+      },
+      spousesOf: (personId) => {
+        const spouses: { spouseId: string; ended: boolean }[] = [];
+        for (const [key, marriage] of this.spouseEdges) {
+          const [a, b] = key.split('~');
+          if (a !== personId && b !== personId) continue;
+          spouses.push({ spouseId: a === personId ? b : a, ended: marriage.endedByDivorce });
+        }
+        return spouses;
+      },
+    };
+  }
+
+  private pedigreeLookup(): PedigreeLookup {
+    const parents = new Map<string, string[]>();
+    for (const [key, type] of this.parentChildEdges) {
+      if (type !== 'BIOLOGICAL') continue;
+      const [parentId, childId] = key.split('->');
+      parents.set(childId, [...(parents.get(childId) ?? []), parentId]);
+    }
+    return { parentsOf: (personId) => parents.get(personId) ?? [] };
+  }
+
+  private kinPathLookup(): KinPathLookup {
+    const neighbours = new Map<string, KinPathNeighbour[]>();
+    const add = (personId: string, neighbour: KinPathNeighbour) => {
+      const list = neighbours.get(personId);
+      if (list) list.push(neighbour);
+      else neighbours.set(personId, [neighbour]);
+    };
+    for (const [key, type] of this.parentChildEdges) {
+      const [parentId, childId] = key.split('->');
+      add(childId, { personId: parentId, relation: 'PARENT', type });
+      add(parentId, { personId: childId, relation: 'CHILD', type });
+    }
+    for (const key of this.spouseEdges.keys()) {
+      const [a, b] = key.split('~');
+      add(a, { personId: b, relation: 'SPOUSE', type: null });
+      add(b, { personId: a, relation: 'SPOUSE', type: null });
+    }
+    return { neighboursOf: (personId) => neighbours.get(personId) ?? [] };
+  }
+
+  /**
+   * ELDER when `personId` was born before `otherId`: by birth dates when
+   * they settle it, otherwise by their order among the children of a
+   * family they share.
+   */
+  private relativeAge(personId: string, otherId: string, families: FamilyUnit[]): RelativeAge {
+    const a = this.persons.get(personId)!.birthDate;
+    const b = this.persons.get(otherId)!.birthDate;
+    if (a && b && a.isCertainlyBefore(b)) return 'ELDER';
+    if (a && b && b.isCertainlyBefore(a)) return 'YOUNGER';
+    for (const { childIds } of families) {
+      const i = childIds.indexOf(personId);
+      const j = childIds.indexOf(otherId);
+      if (i >= 0 && j >= 0) return i < j ? 'ELDER' : 'YOUNGER';
+    }
+    return null;
+  }
+
+  private parentsOf(childId: string, type?: ParentChildType): string[] {
     const parents: string[] = [];
-    for (const key of this.parentChildEdges) {
+    for (const [key, edgeType] of this.parentChildEdges) {
       const [p, c] = key.split('->');
-      if (c === childId) parents.push(p);
+      if (c === childId && (!type || edgeType === type)) parents.push(p);
     }
     return parents;
   }
 
   private childrenOf(parentId: string): string[] {
     const children: string[] = [];
-    for (const key of this.parentChildEdges) {
+    for (const key of this.parentChildEdges.keys()) {
       const [p, c] = key.split('->');
       if (p === parentId) children.push(c);
     }
     return children;
   }
 
-  private countParents(childId: string): number {
-    return this.parentsOf(childId).length;
-  }
-
-  private ensureAgeConsistency(parentId: string, childId: string) {
-    const parent = this.persons.get(parentId)!;
-    const child = this.persons.get(childId)!;
-    if (parent.birthDate && child.birthDate && parent.birthDate >= child.birthDate) {
+  /**
+   * Parent must be born before child. Approximate dates only violate this
+   * when their uncertainty ranges rule out any valid ordering.
+   */
+  private ensureAgeConsistency(parent: Person, child: Person) {
+    if (parent.birthDate && child.birthDate && parent.birthDate.cannotPrecede(child.birthDate)) {
       throw new AgeInconsistencyError('parent must be older than child');
     }
   }
@@ -291,7 +1255,7 @@ export class GenealogyGraph {
   }
 
   private hasParentChildRelationships(personId: string): boolean {
-    for (const key of this.parentChildEdges) {
+    for (const key of this.parentChildEdges.keys()) {
       const [parentId, childId] = key.split('->');
       if (parentId === personId || childId === personId) {
         return true;
@@ -301,7 +1265,7 @@ export class GenealogyGraph {
   }
 
   private hasSpouseRelationships(personId: string): boolean {
-    for (const key of this.spouseEdges) {
+    for (const key of this.spouseEdges.keys()) {
       const [spouse1Id, spouse2Id] = key.split('~');
       if (spouse1Id === personId || spouse2Id === personId) {
         return true;
@@ -0,0 +1,78 @@
+import type { ParentChildType } from './relationship';
+import type { KinshipStep, KinshipStepRelation } from './kinship';
+
+/**
+ * Kin path.
+ *
+ * The shortest chain of persons between two persons, stepping along any
+ * recorded edge: to a parent, a child or a spouse. Unlike kinship, which
+ * follows biological parents to name a relation, a path takes every
+ * parent-child link, adoptive and step included, and may leave out
+ * spouse hops to find a chain by descent alone.
+ */
+
+export interface KinPathOptions {
+  includeSpouses: boolean;
+}
+
+/** One edge out of a person: `personId` is their parent, child or spouse */
+export interface KinPathNeighbour {
+  personId: string;
+  relation: KinshipStepRelation;
+  type: ParentChildType | null; // parent-child edges only
+}
+
+export interface KinPathStep extends KinshipStep {
+  type: ParentChildType | null; // of the parent-child edge taken to reach this person
+}
+
+export interface KinPathLookup {
+  neighboursOf(personId: string): KinPathNeighbour[];
+}
+
+type Reached = KinPathStep & { via: string | null };
+
+// Breadth-first order among a person's edges: up, down, then across
+const RELATION_ORDER: Record<KinshipStepRelation, number> = { PARENT: 0, CHILD: 1, SPOUSE: 2 };
+
+/**
+ * The shortest path from `fromId` to `toId`, both ends included; null when
+ * they are not connected. Ties go to parents before children before
+ * spouses, then to the smaller person id, so the same tree always gives
+ * the same path.
+ */
+export function findKinPath(
+  lookup: KinPathLookup,
+  fromId: string,
+  toId: string,
+  options: KinPathOptions,
+): KinPathStep[] | null {
+  const reached = new Map<string, Reached>([[fromId, { personId: fromId, relation: null, type: null, via: null }]]);
+  let frontier = [fromId];
+  while (frontier.length > 0 && !reached.has(toId)) {
+    const next: string[] = [];
+    for (const personId of frontier) {
+      const neighbours = lookup
+        .neighboursOf(personId)
+        .filter((n) => options.includeSpouses || n.relation !== 'SPOUSE')
+        .sort(
+          (a, b) => RELATION_ORDER[a.relation] - RELATION_ORDER[b.relation] || a.personId.localeCompare(b.personId),
+        );
+      for (const n of neighbours) {
+        if (reached.has(n.personId)) continue;
+        reached.set(n.personId, { personId: n.personId, relation: n.relation, type: n.type, via: personId });
+        next.push(n.personId);
+      }
+    }
+    frontier = next;
+  }
+
+  if (!reached.has(toId)) return null;
+  const path: KinPathStep[] = [];
+  for (let id: string | null = toId; id !== null;) {
+    const { via, ...step }: Reached = reached.get(id)!;
+    path.unshift(step);
+    id = via;
+  }
+  return path;
+}
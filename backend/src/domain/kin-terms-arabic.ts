@@ -0,0 +1,182 @@
+import type { Gender } from './person';
+import type { ParentChildType } from './relationship';
+import type { BloodTermContext, KinTermContext, KinTermSet } from './kin-terms';
+
+/**
+ * Arabic kin terms. The side of the family is part of the word: a
+ * father's brother is ʿamm (عم), a mother's brother khāl (خال); a half
+ * brother is a brother through the father (أخ لأب) or the mother (أخ لأم),
+ * as the farāʾiḍ shares need. Relations beyond these are named as
+ * possessive chains: ابن ابن العم, the son of the paternal uncle's son.
+ * The masculine form stands for an unknown gender.
+ */
+
+type Words = { MALE: string; FEMALE: string };
+
+const PARENT: Words = { MALE: 'أب', FEMALE: 'أم' };
+const CHILD: Words = { MALE: 'ابن', FEMALE: 'بنت' };
+const SIBLING: Words = { MALE: 'أخ', FEMALE: 'أخت' };
+const GRANDPARENT: Words = { MALE: 'جد', FEMALE: 'جدة' };
+const PATERNAL_UNCLE: Words = { MALE: 'عم', FEMALE: 'عمة' };
+const MATERNAL_UNCLE: Words = { MALE: 'خال', FEMALE: 'خالة' };
+const SPOUSE: Words = { MALE: 'زوج', FEMALE: 'زوجة' };
+const FORMER_SPOUSE: Words = { MALE: 'طليق', FEMALE: 'طليقة' };
+const PARENT_IN_LAW: Words = { MALE: 'حمو', FEMALE: 'حماة' };
+const CHILD_IN_LAW: Words = { MALE: 'صهر', FEMALE: 'كنة' };
+const STEPCHILD: Words = { MALE: 'ربيب', FEMALE: 'ربيبة' };
+
+const word = (words: Words, gender: Gender) => (gender === 'FEMALE' ? words.FEMALE : words.MALE);
+
+// Through the father or the mother, for half siblings and grandparents
+const THROUGH: Words = { MALE: 'لأب', FEMALE: 'لأم' };
+
+// The longest possessive chain named before falling back to the degree
+const MAX_CHAIN = 4;
+
+/** Definite form: a single noun takes the article, a possessive chain already is definite */
+const definite = (term: string) => (term.includes(' ') ? term : `ال${term}`);
+
+/**
+ * "X of `owner`": a possessive chain. The owned noun drops its article;
+ * أخ and أب take their construct forms, أخو/أبو leading the chain and
+ * أخي/أبي inside it.
+ */
+function possessive(term: string, owner: string): string {
+  const words = term.split(' ');
+  const last = words.pop()!.replace(/^ال/, '');
+  const forms = words.length === 0 ? { أخ: 'أخو', أب: 'أبو' } : { أخ: 'أخي', أب: 'أبي' };
+  const construct = forms[last as keyof typeof forms] ?? last;
+  return [...words, construct, owner].join(' ');
+}
+
+/** The uncle or aunt of a person whose parent is of `parentGender`: عم/عمة or خال/خالة */
+function uncleWord(parentGender: Gender, gender: Gender): string {
+  return word(parentGender === 'FEMALE' ? MATERNAL_UNCLE : PATERNAL_UNCLE, gender);
+}
+
+/**
+ * A parent's or ancestor's sibling `up` generations above the common
+ * ancestor's child: عم, then عم الأب, عم الجد.
+ */
+function uncleTerm(line: BloodTermContext, up: number, gender: Gender): string {
+  const { upGenders } = line;
+  const term = uncleWord(upGenders[up - 2], gender);
+  if (up === 2) return term;
+  if (up === 3) return `${term} ${definite(word(PARENT, upGenders[0]))}`;
+  if (up === 4) return `${term} ${definite(word(GRANDPARENT, upGenders[1]))}`;
+  return `${term} أحد الأجداد`;
+}
+
+function ancestorTerm(line: BloodTermContext): string {
+  const { up, gender, upGenders } = line;
+  if (up === 1) return word(PARENT, gender);
+  if (up === 2)
+    return upGenders[0] === 'UNKNOWN'
+      ? word(GRANDPARENT, gender)
+      : `${word(GRANDPARENT, gender)} ${word(THROUGH, upGenders[0])}`;
+  if (up === 3) return `${word(GRANDPARENT, gender)} ${definite(word(PARENT, upGenders[0]))}`;
+  return `${word(GRANDPARENT, gender)} من الجيل ${up}`;
+}
+
+/**
+ * Someone `line.down` generations below the head of a branch, as a
+ * possessive chain ending in the head: ابن الابن, بنت ابن الأخ, ابن العم.
+ */
+function chain(line: BloodTermContext, head: string): string | null {
+  const { down, gender, downGenders } = line;
+  if (down > MAX_CHAIN) return null;
+  const words = [
+    word(CHILD, gender),
+    ...downGenders
+      .slice(1)
+      .reverse()
+      .map((g) => word(CHILD, g)),
+  ];
+  return possessive(words.join(' '), head);
+}
+
+function bloodTerm(line: BloodTermContext, plain = false): string {
+  const { up, down, gender, upGenders, downGenders, half } = line;
+  const degree = () => `${gender === 'FEMALE' ? 'قريبة' : 'قريب'} من الدرجة ${up + down}`;
+  if (down === 0) return plain && up === 2 ? word(GRANDPARENT, gender) : ancestorTerm(line);
+  if (up === 0) {
+    if (down === 1) return word(CHILD, gender);
+    return chain(line, definite(word(CHILD, downGenders[0]))) ?? degree();
+  }
+  // The common ancestor of half relations is the single parent they share
+  const through = half && !plain ? ` ${word(THROUGH, upGenders[up - 1])}` : '';
+  if (up === 1 && down === 1) {
+    if (plain) return word(SIBLING, gender);
+    return half
+      ? `${word(SIBLING, gender)}${through}`
+      : `${word(SIBLING, gender)} ${gender === 'FEMALE' ? 'شقيقة' : 'شقيق'}`;
+  }
+  if (down === 1) return `${uncleTerm(line, up, gender)}${through}`;
+  // Below a sibling (up 1) or an uncle or aunt of the line
+  const head = up === 1 ? word(SIBLING, downGenders[0]) : uncleTerm(line, up, downGenders[0]);
+  return chain(line, definite(head)) ?? degree();
+}
+
+/** A blood relative of one's spouse: حماة, أخو الزوجة, ربيب, ابن عم الزوج */
+function spouseRelativeTerm(line: BloodTermContext, spouseGender: Gender): string {
+  const { up, down, gender, downGenders } = line;
+  const spouse = definite(word(SPOUSE, spouseGender));
+  if (up === 1 && down === 0) return word(PARENT_IN_LAW, gender);
+  if (up === 0) {
+    if (down === 1) return word(STEPCHILD, gender);
+    return chain(line, definite(word(STEPCHILD, downGenders[0]))) ?? `من ذرية ${spouse}`;
+  }
+  if (down === 0 && up > 2) return `من أجداد ${spouse}`;
+  return possessive(bloodTerm(line, true), spouse);
+}
+
+/** The spouse of one's blood relative: زوجة الأب, صهر, زوجة الأخ, زوج العمة */
+function relativeSpouseTerm(line: BloodTermContext, gender: Gender): string {
+  if (line.up === 0 && line.down === 1) return word(CHILD_IN_LAW, gender);
+  return `${word(SPOUSE, gender)} ${definite(bloodTerm(line, true))}`;
+}
+
+function nonBiologicalTerm(type: ParentChildType, direction: 'PARENT' | 'CHILD', gender: Gender): string {
+  const parent = direction === 'PARENT';
+  switch (type) {
+    case 'ADOPTIVE':
+      return `${word(parent ? PARENT : CHILD, gender)} بالتبني`;
+    case 'STEP':
+      // A stepfather is the mother's husband, a stepmother the father's wife
+      if (parent) return gender === 'FEMALE' ? 'زوجة الأب' : 'زوج الأم';
+      return word(STEPCHILD, gender);
+    case 'FOSTER':
+      return parent
+        ? word({ MALE: 'كافل', FEMALE: 'كافلة' }, gender)
+        : word({ MALE: 'مكفول', FEMALE: 'مكفولة' }, gender);
+    case 'MILK':
+      return `${word(parent ? PARENT : CHILD, gender)} من الرضاعة`;
+    default:
+      return parent ? 'وصي' : 'قاصر';
+  }
+}
+
+export const ARABIC_KIN_TERMS: KinTermSet = {
+  locale: 'ar',
+  term(context: KinTermContext): string | null {
+    switch (context.kind) {
+      case 'SELF':
+        return 'نفسه';
+      case 'NONE':
+        return null;
+      case 'SPOUSE':
+        return word(context.former ? FORMER_SPOUSE : SPOUSE, context.gender);
+      case 'NON_BIOLOGICAL':
+        return nonBiologicalTerm(context.type, context.direction, context.gender);
+      case 'BLOOD':
+        return bloodTerm(context.blood);
+      case 'IN_LAW': {
+        const term =
+          context.side === 'SPOUSE_RELATIVE'
+            ? spouseRelativeTerm(context.blood, context.spouseGender)
+            : relativeSpouseTerm(context.blood, context.gender);
+        return context.former ? `${term} سابقًا` : term;
+      }
+    }
+  },
+};
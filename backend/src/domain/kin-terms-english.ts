@@ -0,0 +1,134 @@
+import type { Gender } from './person';
+import type { ParentChildType } from './relationship';
+import type { BloodTermContext, KinTermContext, KinTermSet } from './kin-terms';
+
+/**
+ * English kin terms: "second cousin once removed", "great-aunt",
+ * "half-brother", "mother-in-law". English ignores the side of the family
+ * and relative age; cousins are counted by degree and removal.
+ */
+
+const PARENT: Record<Gender, string> = { MALE: 'father', FEMALE: 'mother', UNKNOWN: 'parent' };
+const CHILD: Record<Gender, string> = { MALE: 'son', FEMALE: 'daughter', UNKNOWN: 'child' };
+const SIBLING: Record<Gender, string> = { MALE: 'brother', FEMALE: 'sister', UNKNOWN: 'sibling' };
+const UNCLE: Record<Gender, string> = { MALE: 'uncle', FEMALE: 'aunt', UNKNOWN: 'uncle/aunt' };
+const NEPHEW: Record<Gender, string> = { MALE: 'nephew', FEMALE: 'niece', UNKNOWN: 'nephew/niece' };
+const SPOUSE: Record<Gender, string> = { MALE: 'husband', FEMALE: 'wife', UNKNOWN: 'spouse' };
+
+const ORDINAL_WORDS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+
+/** 1 → "1st", 2 → "2nd", 11 → "11th", 23 → "23rd" */
+export function ordinalNumber(n: number): string {
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  const suffix = ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+const ordinalWord = (n: number) => ORDINAL_WORDS[n - 1] ?? ordinalNumber(n);
+
+const timesRemoved = (n: number) => (n === 1 ? 'once' : n === 2 ? 'twice' : `${n} times`);
+
+/**
+ * "", "great-", "great-great-", then "3rd great-" and on, for a relation
+ * `extra` generations beyond its base form (grandparent, uncle, nephew).
+ */
+function greats(extra: number): string {
+  if (extra <= 0) return '';
+  if (extra <= 2) return 'great-'.repeat(extra);
+  return `${ordinalNumber(extra)} great-`;
+}
+
+const withFormer = (term: string, former: boolean) => (former ? `former ${term}` : term);
+
+/** parent, grandparent, great-grandparent, ... `generations` up */
+function ancestorTerm(generations: number, gender: Gender): string {
+  if (generations === 1) return PARENT[gender];
+  return `${greats(generations - 2)}grand${PARENT[gender]}`;
+}
+
+/** child, grandchild, great-grandchild, ... `generations` down */
+function descendantTerm(generations: number, gender: Gender): string {
+  if (generations === 1) return CHILD[gender];
+  return `${greats(generations - 2)}grand${CHILD[gender]}`;
+}
+
+/**
+ * English name of a blood line for a person of `gender` at its far end:
+ * ancestors and descendants, siblings, uncles and aunts, nephews and
+ * nieces, and cousins with their degree and removal.
+ */
+export function englishBloodTerm(line: Pick<BloodTermContext, 'up' | 'down' | 'half'>, gender: Gender): string {
+  const { up, down } = line;
+  const half = line.half ? 'half-' : '';
+  if (down === 0) return ancestorTerm(up, gender);
+  if (up === 0) return descendantTerm(down, gender);
+  if (up === 1 && down === 1) return `${half}${SIBLING[gender]}`;
+  if (down === 1) return `${half}${greats(up - 2)}${UNCLE[gender]}`;
+  if (up === 1) return `${half}${greats(down - 2)}${NEPHEW[gender]}`;
+  const degree = Math.min(up, down) - 1;
+  const removed = Math.abs(up - down);
+  const cousin = `${line.half ? 'half ' : ''}${ordinalWord(degree)} cousin`;
+  return removed === 0 ? cousin : `${cousin} ${timesRemoved(removed)} removed`;
+}
+
+/** A blood relative of one's spouse: the spouse is at the near end of `line` */
+function spouseRelativeTerm(line: BloodTermContext, spouseGender: Gender): string {
+  const { up, down, gender } = line;
+  if (down === 0) return `${ancestorTerm(up, gender)}-in-law`;
+  if (up === 1 && down === 1) return `${SIBLING[gender]}-in-law`;
+  if (up === 0) return down === 1 ? `step${CHILD[gender]}` : `step-${descendantTerm(down, gender)}`;
+  return `${SPOUSE[spouseGender]}'s ${englishBloodTerm(line, gender)}`;
+}
+
+/** The spouse (of `gender`) of one's blood relative at the far end of `line` */
+function relativeSpouseTerm(line: BloodTermContext, gender: Gender): string {
+  const { up, down } = line;
+  if (down === 0) return up === 1 ? `step${PARENT[gender]}` : `step-${ancestorTerm(up, gender)}`;
+  if (up === 0) return `${descendantTerm(down, gender)}-in-law`;
+  if (up === 1 && down === 1) return `${SIBLING[gender]}-in-law`;
+  if (down === 1) return `${greats(up - 2)}${UNCLE[gender]} by marriage`;
+  if (up === 1) return `${greats(down - 2)}${NEPHEW[gender]}-in-law`;
+  return `${englishBloodTerm(line, line.gender)}'s ${SPOUSE[gender]}`;
+}
+
+function nonBiologicalTerm(type: ParentChildType, direction: 'PARENT' | 'CHILD', gender: Gender): string {
+  const parent = direction === 'PARENT';
+  switch (type) {
+    case 'ADOPTIVE':
+      return parent ? `adoptive ${PARENT[gender]}` : `adopted ${CHILD[gender]}`;
+    case 'STEP':
+      return parent ? `step${PARENT[gender]}` : `step${CHILD[gender]}`;
+    case 'FOSTER':
+      return `foster ${parent ? PARENT[gender] : CHILD[gender]}`;
+    case 'MILK':
+      return `milk ${parent ? PARENT[gender] : CHILD[gender]}`;
+    default:
+      return parent ? 'guardian' : 'ward';
+  }
+}
+
+export const ENGLISH_KIN_TERMS: KinTermSet = {
+  locale: 'en',
+  term(context: KinTermContext): string | null {
+    switch (context.kind) {
+      case 'SELF':
+        return 'self';
+      case 'NONE':
+        return null;
+      case 'SPOUSE':
+        return withFormer(SPOUSE[context.gender], context.former);
+      case 'NON_BIOLOGICAL':
+        return nonBiologicalTerm(context.type, context.direction, context.gender);
+      case 'BLOOD':
+        return englishBloodTerm(context.blood, context.blood.gender);
+      case 'IN_LAW':
+        return withFormer(
+          context.side === 'SPOUSE_RELATIVE'
+            ? spouseRelativeTerm(context.blood, context.spouseGender)
+            : relativeSpouseTerm(context.blood, context.gender),
+          context.former,
+        );
+    }
+  },
+};
@@ -0,0 +1,135 @@
+import type { Gender } from './person';
+import type { ParentChildType } from './relationship';
+import type { BloodTermContext, KinTermContext, KinTermSet, RelativeAge } from './kin-terms';
+
+/**
+ * Malay/Indonesian kin terms: abang, kakak and adik by relative age;
+ * pak cik and mak cik with the side of the family (sebelah ayah, sebelah
+ * ibu); saudara for the collaterals of grandparents and grandchildren
+ * (datuk saudara, cucu saudara); sepupu, dua pupu, tiga pupu for cousins;
+ * ipar, mertua, menantu and tiri through marriage.
+ */
+
+const PARENT: Record<Gender, string> = { MALE: 'ayah', FEMALE: 'ibu', UNKNOWN: 'ibu/ayah' };
+const CHILD: Record<Gender, string> = { MALE: 'anak lelaki', FEMALE: 'anak perempuan', UNKNOWN: 'anak' };
+const GRANDPARENT: Record<Gender, string> = { MALE: 'datuk', FEMALE: 'nenek', UNKNOWN: 'datuk/nenek' };
+const UNCLE: Record<Gender, string> = { MALE: 'pak cik', FEMALE: 'mak cik', UNKNOWN: 'pak cik/mak cik' };
+const SPOUSE: Record<Gender, string> = { MALE: 'suami', FEMALE: 'isteri', UNKNOWN: 'pasangan' };
+const PARENT_IN_LAW: Record<Gender, string> = { MALE: 'bapa mertua', FEMALE: 'ibu mertua', UNKNOWN: 'mertua' };
+const SIDE: Partial<Record<Gender, string>> = { MALE: 'sebelah ayah', FEMALE: 'sebelah ibu' };
+// A half sibling shares the father (sebapa) or the mother (seibu)
+const SHARED_PARENT: Record<Gender, string> = { MALE: 'sebapa', FEMALE: 'seibu', UNKNOWN: 'seibu atau sebapa' };
+const NUMBERS = ['satu', 'dua', 'tiga', 'empat', 'lima', 'enam', 'tujuh', 'lapan', 'sembilan', 'sepuluh'];
+
+const DESCENDANTS = ['anak', 'cucu', 'cicit', 'piut'];
+
+function sibling(gender: Gender, age: RelativeAge): string {
+  if (age === 'ELDER') return gender === 'MALE' ? 'abang' : gender === 'FEMALE' ? 'kakak' : 'abang/kakak';
+  if (age === 'YOUNGER') return gender === 'MALE' ? 'adik lelaki' : gender === 'FEMALE' ? 'adik perempuan' : 'adik';
+  return gender === 'MALE' ? 'saudara lelaki' : gender === 'FEMALE' ? 'saudara perempuan' : 'adik-beradik';
+}
+
+/** ayah, datuk, moyang, onyang, then the generation */
+function ancestor(generations: number, gender: Gender): string {
+  if (generations === 1) return PARENT[gender];
+  if (generations === 2) return GRANDPARENT[gender];
+  if (generations === 3) return 'moyang';
+  if (generations === 4) return 'onyang';
+  return `nenek moyang generasi ke-${generations}`;
+}
+
+/** anak, cucu, cicit, piut, then the generation */
+function descendant(generations: number, gender: Gender): string {
+  if (generations === 1) return CHILD[gender];
+  return DESCENDANTS[generations - 1] ?? `keturunan generasi ke-${generations}`;
+}
+
+/** sepupu, dua pupu, tiga pupu: cousins `generations` below their common ancestor */
+function cousin(generations: number): string {
+  if (generations === 2) return 'sepupu';
+  return `${NUMBERS[generations - 2] ?? generations - 1} pupu`;
+}
+
+function bloodTerm(line: BloodTermContext): string {
+  const { up, down, gender, upGenders } = line;
+  if (down === 0) return ancestor(up, gender);
+  if (up === 0) return descendant(down, gender);
+  if (up === 1 && down === 1) {
+    const term = sibling(gender, line.age);
+    return line.half ? `${term} ${SHARED_PARENT[upGenders[0]]}` : term;
+  }
+  if (down === 1) {
+    if (up > 2) return `${ancestor(up - 1, gender)} saudara`; // datuk saudara, moyang saudara
+    const side = SIDE[upGenders[0]];
+    return side ? `${UNCLE[gender]} ${side}` : UNCLE[gender];
+  }
+  if (up === 1) {
+    const term = `${descendant(down - 1, 'UNKNOWN')} saudara`; // anak saudara, cucu saudara
+    return down === 2 && gender !== 'UNKNOWN' ? `${term} ${gender === 'MALE' ? 'lelaki' : 'perempuan'}` : term;
+  }
+  // Cousins: of the same generation, of an ancestor's ("sepupu ayah") or a descendant's ("anak sepupu")
+  if (up === down) return cousin(up);
+  if (up > down) return `${cousin(down)} ${ancestor(up - down, upGenders[up - down - 1])}`;
+  return `${descendant(down - up, 'UNKNOWN')} ${cousin(up)}`;
+}
+
+function ipar(gender: Gender, age: RelativeAge): string {
+  if (age === 'ELDER') return gender === 'FEMALE' ? 'kakak ipar' : gender === 'MALE' ? 'abang ipar' : 'ipar';
+  if (age === 'YOUNGER') return 'adik ipar';
+  return 'ipar';
+}
+
+/** A blood relative of one's spouse: "bapa mertua", "anak tiri", "sepupu isteri" */
+function spouseRelativeTerm(line: BloodTermContext, spouseGender: Gender, age: RelativeAge): string {
+  const { up, down, gender } = line;
+  if (up === 1 && down === 0) return PARENT_IN_LAW[gender];
+  if (up === 1 && down === 1) return ipar(gender, age);
+  if (up === 0) return `${descendant(down, 'UNKNOWN')} tiri`;
+  return `${bloodTerm(line)} ${SPOUSE[spouseGender]}`;
+}
+
+/** The spouse of one's blood relative: "ibu tiri", "menantu", "mak cik", "isteri sepupu" */
+function relativeSpouseTerm(line: BloodTermContext, gender: Gender, age: RelativeAge): string {
+  const { up, down } = line;
+  if (down === 0) return `${ancestor(up, gender)} tiri`;
+  if (up === 0) return down === 1 ? 'menantu' : `${descendant(down, 'UNKNOWN')} menantu`;
+  if (up === 1 && down === 1) return ipar(gender, age);
+  if (down === 1) return bloodTerm({ ...line, gender, half: false });
+  return `${SPOUSE[gender]} ${bloodTerm(line)}`;
+}
+
+// Parent suffix and child term; a guardian and ward are named apart
+const NON_BIOLOGICAL: Partial<Record<ParentChildType, [string, string]>> = {
+  ADOPTIVE: ['angkat', 'anak angkat'],
+  STEP: ['tiri', 'anak tiri'],
+  FOSTER: ['asuh', 'anak asuh'],
+  MILK: ['susuan', 'anak susuan'],
+};
+
+export const MALAY_KIN_TERMS: KinTermSet = {
+  locale: 'ms',
+  term(context: KinTermContext): string | null {
+    switch (context.kind) {
+      case 'SELF':
+        return 'diri sendiri';
+      case 'NONE':
+        return null;
+      case 'SPOUSE':
+        return context.former ? `bekas ${SPOUSE[context.gender]}` : SPOUSE[context.gender];
+      case 'NON_BIOLOGICAL': {
+        const terms = NON_BIOLOGICAL[context.type];
+        if (!terms) return context.direction === 'PARENT' ? 'penjaga' : 'anak jagaan';
+        return context.direction === 'PARENT' ? `${PARENT[context.gender]} ${terms[0]}` : terms[1];
+      }
+      case 'BLOOD':
+        return bloodTerm(context.blood);
+      case 'IN_LAW': {
+        const term =
+          context.side === 'SPOUSE_RELATIVE'
+            ? spouseRelativeTerm(context.blood, context.spouseGender, context.age)
+            : relativeSpouseTerm(context.blood, context.gender, context.age);
+        return context.former ? `bekas ${term}` : term;
+      }
+    }
+  },
+};
@@ -0,0 +1,138 @@
+import type { Gender } from './person';
+import type { ParentChildType } from './relationship';
+import type { InLawSide, Kinship } from './kinship';
+import { ENGLISH_KIN_TERMS } from './kin-terms-english';
+import { MALAY_KIN_TERMS } from './kin-terms-malay';
+import { ARABIC_KIN_TERMS } from './kin-terms-arabic';
+
+/**
+ * Kin terms.
+ *
+ * Kinship finds how two persons are related; a term set names that
+ * relation in one language. Languages cut kinship differently: Malay
+ * distinguishes an elder brother (abang) from a younger one (adik), Arabic
+ * a father's brother (ʿamm) from a mother's brother (khāl). So a term set is
+ * given the shape of the relation together with the genders along its
+ * path and the relative ages involved, and picks its own words.
+ */
+
+export type KinLocale = 'en' | 'ms' | 'ar';
+
+export const KIN_LOCALES: KinLocale[] = ['en', 'ms', 'ar'];
+
+/**
+ * ELDER: the person named was born before the one compared against;
+ * null when the recorded dates and birth order cannot tell.
+ */
+export type RelativeAge = 'ELDER' | 'YOUNGER' | null;
+
+/**
+ * A blood line as a term set sees it, from a near person to a far one
+ * (the one being named), `up` generations to the common ancestor and
+ * `down` to the far person.
+ */
+export interface BloodTermContext {
+  up: number;
+  down: number;
+  half: boolean;
+  gender: Gender; // of the far person
+  upGenders: Gender[]; // each person stepped up through, nearest first; the last is a common ancestor
+  downGenders: Gender[]; // each person stepped down through before the far person, from the common ancestor's child
+  age: RelativeAge; // the far person against the near one
+  branchAge: RelativeAge; // collateral lines: the far branch against the near one, at the common ancestor's children
+}
+
+export type KinTermContext =
+  | { kind: 'SELF' }
+  | { kind: 'NONE' }
+  | { kind: 'SPOUSE'; gender: Gender; former: boolean }
+  | { kind: 'NON_BIOLOGICAL'; gender: Gender; type: ParentChildType; direction: 'PARENT' | 'CHILD' }
+  | { kind: 'BLOOD'; blood: BloodTermContext }
+  | {
+      kind: 'IN_LAW';
+      side: InLawSide;
+      gender: Gender; // of the person named
+      spouseGender: Gender; // of the spouse in the marriage crossed (InLawLink.spouseId)
+      former: boolean;
+      age: RelativeAge; // the person named against the first person
+      blood: BloodTermContext; // SPOUSE_RELATIVE: spouse to person named; RELATIVE_SPOUSE: first person to relative
+    };
+
+/** Names relations in one language; null when it has no word for one */
+export interface KinTermSet {
+  locale: KinLocale;
+  term(context: KinTermContext): string | null;
+}
+
+/** What a term set needs to know about the persons on a kinship path */
+export interface KinTermLookup {
+  genderOf(personId: string): Gender;
+  relativeAge(personId: string, otherId: string): RelativeAge;
+}
+
+export const KIN_TERM_SETS: Record<KinLocale, KinTermSet> = {
+  en: ENGLISH_KIN_TERMS,
+  ms: MALAY_KIN_TERMS,
+  ar: ARABIC_KIN_TERMS,
+};
+
+function bloodContext(
+  kinship: Kinship,
+  ids: string[], // the blood part of the path, near person first
+  lookup: KinTermLookup,
+): BloodTermContext {
+  const { up, down, half } = kinship.blood!;
+  const near = ids[0];
+  const far = ids[ids.length - 1];
+  const collateral = up > 0 && down > 0;
+  return {
+    up,
+    down,
+    half,
+    gender: lookup.genderOf(far),
+    upGenders: ids.slice(1, up + 1).map((id) => lookup.genderOf(id)),
+    downGenders: ids.slice(up + 1, up + down).map((id) => lookup.genderOf(id)),
+    age: lookup.relativeAge(far, near),
+    branchAge: collateral ? lookup.relativeAge(ids[up + 1], ids[up - 1]) : null,
+  };
+}
+
+/** The context a term set names `kinship` from */
+export function kinTermContext(kinship: Kinship, lookup: KinTermLookup): KinTermContext {
+  const { toId, fromId } = kinship;
+  const ids = kinship.path.map((step) => step.personId);
+  switch (kinship.kind) {
+    case 'SELF':
+    case 'NONE':
+      return { kind: kinship.kind };
+    case 'SPOUSE':
+      return { kind: 'SPOUSE', gender: lookup.genderOf(toId), former: kinship.formerSpouse };
+    case 'NON_BIOLOGICAL':
+      return {
+        kind: 'NON_BIOLOGICAL',
+        gender: lookup.genderOf(toId),
+        type: kinship.parentChildType!,
+        direction: kinship.path[1].relation === 'PARENT' ? 'PARENT' : 'CHILD',
+      };
+    case 'BLOOD':
+      return { kind: 'BLOOD', blood: bloodContext(kinship, ids, lookup) };
+    case 'IN_LAW': {
+      const { side, spouseId } = kinship.inLaw!;
+      return {
+        kind: 'IN_LAW',
+        side,
+        gender: lookup.genderOf(toId),
+        spouseGender: lookup.genderOf(spouseId),
+        former: kinship.formerSpouse,
+        age: lookup.relativeAge(toId, fromId),
+        blood: bloodContext(kinship, side === 'SPOUSE_RELATIVE' ? ids.slice(1) : ids.slice(0, -1), lookup),
+      };
+    }
+  }
+}
+
+/** Name `kinship` in `locale`, falling back to English where the set has no word */
+export function resolveKinTerm(kinship: Kinship, lookup: KinTermLookup, locale: KinLocale): string | null {
+  const context = kinTermContext(kinship, lookup);
+  return KIN_TERM_SETS[locale].term(context) ?? ENGLISH_KIN_TERMS.term(context);
+}
@@ -0,0 +1,296 @@
+import type { ParentChildType } from './relationship';
+import { resolveKinTerm, type KinLocale, type KinTermLookup } from './kin-terms';
+
+/**
+ * Kinship between two persons.
+ *
+ * "second cousin once removed", "mother-in-law", "half-brother": what one
+ * person is to another, found by walking biological parent edges up to
+ * their nearest common ancestors, then through one spouse edge for in-law
+ * relations. GenealogyGraph.getKinship supplies the lookups; this module
+ * holds the search, its result and the English labels.
+ */
+
+/**
+ * - SELF: the same person
+ * - SPOUSE: married to each other (current or former)
+ * - NON_BIOLOGICAL: a recorded adoptive, step, foster or guardian parent
+ *   or child
+ * - BLOOD: share a biological ancestor, or one descends from the other
+ * - IN_LAW: a blood relation reached through exactly one spouse edge
+ * - NONE: nothing connects them within these rules
+ */
+export type KinshipKind = 'SELF' | 'SPOUSE' | 'NON_BIOLOGICAL' | 'BLOOD' | 'IN_LAW' | 'NONE';
+
+/**
+ * A blood line: `up` generations from the first person to the nearest
+ * common ancestors, `down` generations from there to the second person.
+ * up 1 / down 1 is a sibling, up 2 / down 0 a grandparent. `half` marks a
+ * collateral line whose two children of the common ancestors have both
+ * their biological parents recorded and share only one; a missing parent
+ * is not taken as a different one.
+ */
+export interface BloodLine {
+  up: number;
+  down: number;
+  half: boolean;
+  commonAncestorIds: string[];
+}
+
+/**
+ * How an in-law relation crosses its spouse edge:
+ * - SPOUSE_RELATIVE: the second person is a blood relative of the first
+ *   person's spouse (wife's brother)
+ * - RELATIVE_SPOUSE: the second person is the spouse of the first
+ *   person's blood relative (brother's wife)
+ */
+export type InLawSide = 'SPOUSE_RELATIVE' | 'RELATIVE_SPOUSE';
+
+export interface InLawLink {
+  side: InLawSide;
+  spouseId: string; // the first person's spouse (SPOUSE_RELATIVE) or the second person (RELATIVE_SPOUSE)
+  relativeId: string; // the blood relative on the other end of the blood line
+}
+
+/** What a person on the path is to the person before it */
+export type KinshipStepRelation = 'PARENT' | 'CHILD' | 'SPOUSE';
+
+export interface KinshipStep {
+  personId: string;
+  relation: KinshipStepRelation | null; // null for the first person
+}
+
+export interface Kinship {
+  fromId: string;
+  toId: string;
+  kind: KinshipKind;
+  label: string | null; // what `to` is to `from` in the requested locale, e.g. "aunt"; null for NONE
+  blood: BloodLine | null; // BLOOD, and the blood part of IN_LAW
+  inLaw: InLawLink | null;
+  parentChildType: ParentChildType | null; // NON_BIOLOGICAL only
+  formerSpouse: boolean; // the spouse edge involved belongs to an ended marriage
+  path: KinshipStep[]; // from `from` to `to`
+}
+
+export interface KinshipSpouse {
+  spouseId: string;
+  ended: boolean; // divorced or annulled
+}
+
+export interface KinshipParentLink {
+  parentId: string;
+  type: ParentChildType;
+}
+
+/** Read-only lookups the search and the kin terms need, supplied by the graph */
+export interface KinshipLookup extends KinTermLookup {
+  parentLinksOf(personId: string): KinshipParentLink[];
+  spousesOf(personId: string): KinshipSpouse[];
+}
+
+interface Reached {
+  depth: number;
+  via: string | null; // the child this ancestor was first reached from
+}
+
+// Each biological ancestor (and the person, at depth 0) by shortest distance
+function ancestry(lookup: KinshipLookup, personId: string): Map<string, Reached> {
+  const reached = new Map<string, Reached>([[personId, { depth: 0, via: null }]]);
+  let frontier = [personId];
+  for (let depth = 1; frontier.length > 0; depth++) {
+    const next: string[] = [];
+    for (const childId of frontier) {
+      for (const link of lookup.parentLinksOf(childId)) {
+        if (link.type !== 'BIOLOGICAL' || reached.has(link.parentId)) continue;
+        reached.set(link.parentId, { depth, via: childId });
+        next.push(link.parentId);
+      }
+    }
+    frontier = next;
+  }
+  return reached;
+}
+
+// Person ids from `ancestorId` back down to the person the ancestry was taken from
+function lineDown(reached: Map<string, Reached>, ancestorId: string): string[] {
+  const ids = [ancestorId];
+  for (let via = reached.get(ancestorId)!.via; via !== null; via = reached.get(via)!.via) {
+    ids.push(via);
+  }
+  return ids;
+}
+
+interface BloodMatch {
+  line: BloodLine;
+  path: KinshipStep[];
+}
+
+/**
+ * Nearest common biological ancestors of two persons: the fewest
+ * generations in total, ties going to the line with fewer generations up.
+ */
+function findBlood(lookup: KinshipLookup, fromId: string, toId: string): BloodMatch | null {
+  const fromUp = ancestry(lookup, fromId);
+  const toUp = ancestry(lookup, toId);
+  let best: { up: number; down: number; ids: string[] } | null = null;
+  for (const [id, { depth: up }] of fromUp) {
+    const down = toUp.get(id)?.depth;
+    if (down === undefined) continue;
+    const closer = !best || up + down < best.up + best.down || (up + down === best.up + best.down && up < best.up);
+    if (closer) best = { up, down, ids: [id] };
+    else if (best && best.up === up && best.down === down) best.ids.push(id);
+  }
+  if (!best) return null;
+
+  const commonAncestorIds = best.ids.sort();
+  const apex = commonAncestorIds[0];
+  const upIds = lineDown(fromUp, apex).reverse(); // from .. apex
+  const downIds = lineDown(toUp, apex); // apex .. to
+  const path: KinshipStep[] = [
+    ...upIds.map((personId, i) => ({
+      personId,
+      relation: i === 0 ? null : ('PARENT' as const),
+    })),
+    ...downIds.slice(1).map((personId) => ({ personId, relation: 'CHILD' as const })),
+  ];
+  // The children of the common ancestors on each line
+  const collateral = best.up > 0 && best.down > 0;
+  const half = collateral && isHalfSibling(lookup, upIds[upIds.length - 2], downIds[1]);
+  return {
+    line: {
+      up: best.up,
+      down: best.down,
+      half,
+      commonAncestorIds,
+    },
+    path,
+  };
+}
+
+/**
+ * Whether two siblings are known to share one biological parent only: each
+ * has two recorded.
+ */
+function isHalfSibling(lookup: KinshipLookup, aId: string, bId: string): boolean {
+  const parentsOf = (id: string) =>
+    lookup
+      .parentLinksOf(id)
+      .filter((link) => link.type === 'BIOLOGICAL')
+      .map((link) => link.parentId);
+  const a = parentsOf(aId);
+  const b = parentsOf(bId);
+  return a.length === 2 && b.length === 2 && a.filter((id) => b.includes(id)).length === 1;
+}
+
+const span = (line: BloodLine) => line.up + line.down;
+
+type Located = Omit<Kinship, 'label'>;
+
+/**
+ * What `toId` is to `fromId`, named in `locale`. Checked in order: the
+ * same person, a spouse, a recorded non-biological parent or child, a
+ * blood relation, then the closest in-law relation through one spouse
+ * edge. Non-biological edges are not followed further, so an adoptive
+ * parent's parents are not grandparents here.
+ */
+export function findKinship(lookup: KinshipLookup, fromId: string, toId: string, locale: KinLocale = 'en'): Kinship {
+  const located = locate(lookup, fromId, toId);
+  return { ...located, label: resolveKinTerm({ ...located, label: null }, lookup, locale) };
+}
+
+function locate(lookup: KinshipLookup, fromId: string, toId: string): Located {
+  const base = {
+    fromId,
+    toId,
+    blood: null,
+    inLaw: null,
+    parentChildType: null,
+    formerSpouse: false,
+  };
+
+  if (fromId === toId) {
+    return { ...base, kind: 'SELF', path: [{ personId: fromId, relation: null }] };
+  }
+
+  const marriage = lookup.spousesOf(fromId).find((s) => s.spouseId === toId);
+  if (marriage) {
+    return {
+      ...base,
+      kind: 'SPOUSE',
+      formerSpouse: marriage.ended,
+      path: [
+        { personId: fromId, relation: null },
+        { personId: toId, relation: 'SPOUSE' },
+      ],
+    };
+  }
+
+  const asParent = lookup.parentLinksOf(fromId).find((l) => l.parentId === toId && l.type !== 'BIOLOGICAL');
+  const asChild = lookup.parentLinksOf(toId).find((l) => l.parentId === fromId && l.type !== 'BIOLOGICAL');
+  if (asParent || asChild) {
+    return {
+      ...base,
+      kind: 'NON_BIOLOGICAL',
+      parentChildType: (asParent ?? asChild)!.type,
+      path: [
+        { personId: fromId, relation: null },
+        { personId: toId, relation: asParent ? 'PARENT' : 'CHILD' },
+      ],
+    };
+  }
+
+  const blood = findBlood(lookup, fromId, toId);
+  if (blood) {
+    return { ...base, kind: 'BLOOD', blood: blood.line, path: blood.path };
+  }
+
+  const inLaw = findInLaw(lookup, fromId, toId);
+  if (inLaw) return inLaw;
+
+  return { ...base, kind: 'NONE', path: [] };
+}
+
+function findInLaw(lookup: KinshipLookup, fromId: string, toId: string): Located | null {
+  const candidates: Located[] = [];
+
+  // A blood relative of one of my spouses
+  for (const spouse of lookup.spousesOf(fromId)) {
+    const blood = findBlood(lookup, spouse.spouseId, toId);
+    if (!blood) continue;
+    candidates.push({
+      fromId,
+      toId,
+      kind: 'IN_LAW',
+      blood: blood.line,
+      inLaw: { side: 'SPOUSE_RELATIVE', spouseId: spouse.spouseId, relativeId: toId },
+      parentChildType: null,
+      formerSpouse: spouse.ended,
+      path: [
+        { personId: fromId, relation: null },
+        ...blood.path.map((step, i) => (i === 0 ? { ...step, relation: 'SPOUSE' as const } : step)),
+      ],
+    });
+  }
+
+  // The spouse of one of my blood relatives
+  for (const spouse of lookup.spousesOf(toId)) {
+    if (spouse.spouseId === fromId) continue;
+    const blood = findBlood(lookup, fromId, spouse.spouseId);
+    if (!blood) continue;
+    candidates.push({
+      fromId,
+      toId,
+      kind: 'IN_LAW',
+      blood: blood.line,
+      inLaw: { side: 'RELATIVE_SPOUSE', spouseId: toId, relativeId: spouse.spouseId },
+      parentChildType: null,
+      formerSpouse: spouse.ended,
+      path: [...blood.path, { personId: toId, relation: 'SPOUSE' }],
+    });
+  }
+
+  if (candidates.length === 0) return null;
+  // Closest blood line first, then a current marriage over a former one
+  candidates.sort((a, b) => span(a.blood!) - span(b.blood!) || Number(a.formerSpouse) - Number(b.formerSpouse));
+  return candidates[0];
+}
@@ -0,0 +1,238 @@
+import { InvariantViolationError } from './errors';
+import { GenealogicalDate, type GenealogicalDateJSON, type GenealogicalDateProps } from './genealogical-date';
+import type { Place } from './place';
+import { gedcomLines, gedcomStructure, type GedcomStructure, type GedcomVersion } from './gedcom-writer';
+
+/**
+ * LifeEvent value object.
+ *
+ * A dated fact in a person's life beyond birth and death: burial, a move,
+ * where they lived, what they did, their studies, the Hajj, a conversion,
+ * or any other fact named by the user (CUSTOM). Each carries an optional
+ * date, place and free-text description. The place is kept as written; when
+ * it is linked to the tree's gazetteer (`placeId`) it is the place's full
+ * name.
+ */
+
+export type LifeEventType =
+  | 'BURIAL'
+  | 'MIGRATION'
+  | 'RESIDENCE'
+  | 'OCCUPATION' // description: the occupation
+  | 'EDUCATION' // description: the school or level attained
+  | 'HAJJ'
+  | 'CONVERSION'
+  | 'CUSTOM'; // customType names the fact
+
+export const LIFE_EVENT_TYPES: LifeEventType[] = [
+  'BURIAL',
+  'MIGRATION',
+  'RESIDENCE',
+  'OCCUPATION',
+  'EDUCATION',
+  'HAJJ',
+  'CONVERSION',
+  'CUSTOM',
+];
+
+export interface LifeEventProps {
+  eventId: string;
+  type: LifeEventType;
+  customType?: string | null; // CUSTOM only
+  date?: GenealogicalDate | null;
+  place?: string | null;
+  placeId?: string | null; // see Place
+  description?: string | null;
+}
+
+/**
+ * Partial update: `undefined` keeps the current value, `null` clears it.
+ */
+export type LifeEventUpdates = Partial<Omit<LifeEventProps, 'eventId'>>;
+
+/**
+ * Persisted shape: the date as GenealogicalDateProps.
+ */
+export interface StoredLifeEvent {
+  eventId: string;
+  type: LifeEventType;
+  customType?: string | null;
+  date?: GenealogicalDateProps | null;
+  place?: string | null;
+  placeId?: string | null;
+  description?: string | null;
+}
+
+export interface LifeEventJSON extends Omit<StoredLifeEvent, 'date'> {
+  date: GenealogicalDateJSON | null;
+}
+
+const MAX_TEXT_LENGTH = 255;
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+/**
+ * GEDCOM 5.5.1 tag per type. EVEN is the generic event, qualified by TYPE.
+ */
+const GEDCOM_TAGS: Record<LifeEventType, string> = {
+  BURIAL: 'BURI',
+  MIGRATION: 'EVEN',
+  RESIDENCE: 'RESI',
+  OCCUPATION: 'OCCU',
+  EDUCATION: 'EDUC',
+  HAJJ: 'EVEN',
+  CONVERSION: 'EVEN',
+  CUSTOM: 'EVEN',
+};
+
+const GEDCOM_EVENT_TYPES: Partial<Record<LifeEventType, string>> = {
+  MIGRATION: 'Migration',
+  HAJJ: 'Hajj',
+  CONVERSION: 'Conversion',
+};
+
+// The description is the value of these attributes rather than a note
+const DESCRIBED_BY_VALUE: LifeEventType[] = ['OCCUPATION', 'EDUCATION'];
+
+export class LifeEvent {
+  readonly eventId: string;
+  readonly type: LifeEventType;
+  readonly customType: string | null;
+  readonly date: GenealogicalDate | null;
+  readonly place: string | null;
+  readonly placeId: string | null;
+  readonly description: string | null;
+
+  private constructor(props: LifeEventProps) {
+    this.eventId = props.eventId?.trim();
+    this.type = props.type;
+    this.customType = props.customType?.trim() || null;
+    this.date = props.date ?? null;
+    this.place = props.place?.trim() || null;
+    this.placeId = props.placeId?.trim() || null;
+    this.description = props.description?.trim() || null;
+    this.validate();
+  }
+
+  static create(props: LifeEventProps): LifeEvent {
+    return new LifeEvent(props);
+  }
+
+  static fromStored(stored: StoredLifeEvent): LifeEvent {
+    return new LifeEvent({ ...stored, date: GenealogicalDate.from(stored.date) });
+  }
+
+  withUpdates(updates: LifeEventUpdates): LifeEvent {
+    const keep = <K extends keyof LifeEventUpdates>(key: K): LifeEventProps[K] =>
+      updates[key] !== undefined ? updates[key] : this[key];
+    const type = keep('type')!;
+    return new LifeEvent({
+      eventId: this.eventId,
+      type,
+      // Leaving CUSTOM drops the custom name unless one is given
+      customType: type === 'CUSTOM' ? keep('customType') : updates.customType,
+      date: keep('date'),
+      place: keep('place'),
+      placeId: keep('placeId'),
+      description: keep('description'),
+    });
+  }
+
+  /**
+   * GEDCOM 5.5.1 individual event or attribute starting at `level`.
+   */
+  toGedcomLines(level = 1, place?: Place | null): string[] {
+    return gedcomLines(this.toGedcomStructure('5.5.1', place), level);
+  }
+
+  /**
+   * GEDCOM individual event or attribute. Occupation and education carry
+   * the description as their value and EVEN as its event descriptor, on one
+   * line; the others as a NOTE, continued line by line. A linked `place`
+   * adds its coordinates under PLAC.
+   */
+  toGedcomStructure(version: GedcomVersion, place?: Place | null): GedcomStructure {
+    const tag = GEDCOM_TAGS[this.type];
+    const byValue = DESCRIBED_BY_VALUE.includes(this.type) || tag === 'EVEN';
+    const eventType = this.type === 'CUSTOM' ? this.customType : GEDCOM_EVENT_TYPES[this.type];
+    return gedcomStructure(tag, byValue ? this.description?.replace(/\s+/g, ' ') : null, [
+      ...(eventType ? [gedcomStructure('TYPE', eventType)] : []),
+      ...(this.date ? [gedcomStructure('DATE', this.date.toGedcom(version))] : []),
+      ...(this.place ? [gedcomStructure('PLAC', this.place, place?.toGedcomMapStructures() ?? [])] : []),
+      ...(!byValue && this.description ? [gedcomStructure('NOTE', this.description)] : []),
+    ]);
+  }
+
+  toString(): string {
+    return [this.customType ?? this.type, this.date?.toGedcom(), this.place].filter(Boolean).join(', ');
+  }
+
+  toProps(): LifeEventProps {
+    return {
+      eventId: this.eventId,
+      type: this.type,
+      customType: this.customType,
+      date: this.date,
+      place: this.place,
+      placeId: this.placeId,
+      description: this.description,
+    };
+  }
+
+  toStored(): StoredLifeEvent {
+    return { ...this.toProps(), date: this.date?.toProps() ?? null };
+  }
+
+  toJSON(): LifeEventJSON {
+    return { ...this.toProps(), date: this.date?.toJSON() ?? null };
+  }
+
+  private validate(): void {
+    if (!this.eventId) {
+      throw new InvariantViolationError('eventId is required');
+    }
+    if (!LIFE_EVENT_TYPES.includes(this.type)) {
+      throw new InvariantViolationError('event type is invalid');
+    }
+    if (this.type === 'CUSTOM' && !this.customType) {
+      throw new InvariantViolationError('customType is required for CUSTOM events');
+    }
+    if (this.type !== 'CUSTOM' && this.customType) {
+      throw new InvariantViolationError('customType is only allowed for CUSTOM events');
+    }
+    if (DESCRIBED_BY_VALUE.includes(this.type) && !this.description) {
+      throw new InvariantViolationError(`description is required for ${this.type} events`);
+    }
+    for (const text of [this.customType, this.place]) {
+      if (text && text.length > MAX_TEXT_LENGTH) {
+        throw new InvariantViolationError('customType and place must be at most 255 chars');
+      }
+    }
+    if (this.description && this.description.length > MAX_DESCRIPTION_LENGTH) {
+      throw new InvariantViolationError(`description must be at most ${MAX_DESCRIPTION_LENGTH} chars`);
+    }
+  }
+}
+
+/**
+ * The event type written as a GEDCOM `tag` with `eventType` as its TYPE,
+ * the reverse of toGedcomLines, and whether the description is the line's
+ * value rather than a NOTE. An EVEN whose TYPE is none of the named types
+ * is CUSTOM, named by its TYPE. Null for tags that are not written here.
+ */
+export function lifeEventTypeFromGedcom(
+  tag: string,
+  eventType: string | null,
+): { type: LifeEventType; customType: string | null; describedByValue: boolean } | null {
+  const typeName = eventType?.trim().toLowerCase();
+  const type =
+    tag === 'EVEN'
+      ? LIFE_EVENT_TYPES.find((t) => !!typeName && GEDCOM_EVENT_TYPES[t]?.toLowerCase() === typeName)
+      : LIFE_EVENT_TYPES.find((t) => GEDCOM_TAGS[t] === tag);
+  if (type) {
+    return { type, customType: null, describedByValue: DESCRIBED_BY_VALUE.includes(type) || tag === 'EVEN' };
+  }
+  if (tag === 'EVEN') {
+    return { type: 'CUSTOM', customType: eventType?.trim() || 'Event', describedByValue: true };
+  }
+  return null;
+}
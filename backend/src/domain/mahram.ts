@@ -0,0 +1,231 @@
+import type { KinshipLookup } from './kinship';
+import type { KinPathStep } from './kin-path';
+import type { ParentChildType } from './relationship';
+
+/**
+ * Mahram.
+ *
+ * Whether two persons are mahram, permanently barred from marrying each
+ * other, and the rule and the chain of persons that make them so:
+ *
+ * - Blood (nasab): an ascendant or descendant; a sibling or a sibling's
+ *   descendant; a sibling of an ascendant. Cousins are not mahram. With
+ *   up and down the generations to the nearest common ancestor, mahram
+ *   when either is at most one.
+ * - Milk (raḍāʿa): what blood forbids, milk forbids. A milk parent stands
+ *   as a parent of the nursed child alone, so the child and their
+ *   descendants join the milk family; the child's other relatives do not.
+ *   Marriage rules reached through a milk link count as milk.
+ * - Marriage (muṣāhara): a spouse's ascendant, an ascendant's spouse and a
+ *   descendant's spouse by the contract; a spouse's descendant only once
+ *   the marriage to their ascendant was consummated (a wife's daughter, a
+ *   mother's husband). Ended marriages count.
+ *
+ * Blood is checked first, then milk, then marriage. Rules are symmetric
+ * and blind to gender except for the consummation condition; whether
+ * nursing met the conditions for milk kinship (number of feedings, age)
+ * is for whoever records the MILK link. Follows BIOLOGICAL and MILK
+ * parent links only.
+ */
+
+export type MahramBasis = 'BLOOD' | 'MILK' | 'MARRIAGE';
+
+/** What `to` is to `from` */
+export type MahramRule =
+  | 'ASCENDANT'
+  | 'DESCENDANT'
+  | 'SIBLING'
+  | 'SIBLING_DESCENDANT'
+  | 'ASCENDANT_SIBLING'
+  | 'SPOUSE_ASCENDANT'
+  | 'SPOUSE_DESCENDANT'
+  | 'ASCENDANT_SPOUSE'
+  | 'DESCENDANT_SPOUSE';
+
+export interface Mahram {
+  mahram: boolean;
+  basis: MahramBasis | null;
+  rule: MahramRule | null;
+  condition: 'CONSUMMATION' | null; // the marriage that makes them mahram must have been consummated
+  path: KinPathStep[]; // from `from` to `to`; empty when not mahram
+}
+
+export type MahramLookup = Pick<KinshipLookup, 'genderOf' | 'parentLinksOf' | 'spousesOf'>;
+
+interface Reached {
+  depth: number;
+  via: string | null; // the child this ancestor was first reached from
+  type: ParentChildType | null; // of the link from `via`
+}
+
+type Found = Omit<Mahram, 'mahram' | 'basis'>;
+
+const NOT_MAHRAM: Mahram = { mahram: false, basis: null, rule: null, condition: null, path: [] };
+
+// Rule order when two are equally short
+const RULE_ORDER: MahramRule[] = [
+  'ASCENDANT',
+  'DESCENDANT',
+  'SIBLING',
+  'SIBLING_DESCENDANT',
+  'ASCENDANT_SIBLING',
+  'SPOUSE_ASCENDANT',
+  'ASCENDANT_SPOUSE',
+  'DESCENDANT_SPOUSE',
+  'SPOUSE_DESCENDANT',
+];
+
+// Each ancestor (and the person, at depth 0) by shortest distance
+function ancestry(lookup: MahramLookup, personId: string, withMilk: boolean): Map<string, Reached> {
+  const reached = new Map<string, Reached>([[personId, { depth: 0, via: null, type: null }]]);
+  const queue = [personId];
+  for (let i = 0; i < queue.length; i++) {
+    const id = queue[i];
+    const links = lookup
+      .parentLinksOf(id)
+      .filter(({ type }) => type === 'BIOLOGICAL' || (withMilk && type === 'MILK'))
+      .sort((a, b) => a.parentId.localeCompare(b.parentId));
+    for (const { parentId, type } of links) {
+      if (reached.has(parentId)) continue;
+      reached.set(parentId, { depth: reached.get(id)!.depth + 1, via: id, type });
+      queue.push(parentId);
+    }
+  }
+  return reached;
+}
+
+// Steps up from the person whose ancestry this is to `ancestorId`, the person first
+function upTo(reached: Map<string, Reached>, ancestorId: string): KinPathStep[] {
+  const steps: KinPathStep[] = [];
+  for (let id: string | null = ancestorId; id !== null;) {
+    const { via, type }: Reached = reached.get(id)!;
+    steps.unshift({ personId: id, relation: via === null ? null : 'PARENT', type });
+    id = via;
+  }
+  return steps;
+}
+
+// Steps down from `ancestorId` to the person whose ancestry this is, the ancestor first
+function downFrom(reached: Map<string, Reached>, ancestorId: string): KinPathStep[] {
+  const steps: KinPathStep[] = [{ personId: ancestorId, relation: null, type: null }];
+  for (let id = ancestorId; reached.get(id)!.via !== null;) {
+    const { via, type } = reached.get(id)!;
+    steps.push({ personId: via!, relation: 'CHILD', type });
+    id = via!;
+  }
+  return steps;
+}
+
+const spouseStep = (personId: string): KinPathStep => ({ personId, relation: 'SPOUSE', type: null });
+
+const shorter = (a: Found | null, b: Found): Found =>
+  !a ||
+  b.path.length < a.path.length ||
+  (b.path.length === a.path.length && RULE_ORDER.indexOf(b.rule!) < RULE_ORDER.indexOf(a.rule!))
+    ? b
+    : a;
+
+// Blood rules over the ancestries, or milk ones when they include milk links
+function byDescent(ofFrom: Map<string, Reached>, ofTo: Map<string, Reached>): Found | null {
+  let best: { ancestorId: string; up: number; down: number } | null = null;
+  for (const [ancestorId, { depth: up }] of ofFrom) {
+    const down = ofTo.get(ancestorId)?.depth;
+    if (down === undefined || Math.min(up, down) > 1) continue;
+    if (
+      !best ||
+      up + down < best.up + best.down ||
+      (up + down === best.up + best.down && ancestorId < best.ancestorId)
+    ) {
+      best = { ancestorId, up, down };
+    }
+  }
+  if (!best) return null;
+  const { ancestorId, up, down } = best;
+  const rule: MahramRule =
+    up === 0
+      ? 'DESCENDANT'
+      : down === 0
+        ? 'ASCENDANT'
+        : up === 1 && down === 1
+          ? 'SIBLING'
+          : up === 1
+            ? 'SIBLING_DESCENDANT'
+            : 'ASCENDANT_SIBLING';
+  return { rule, condition: null, path: [...upTo(ofFrom, ancestorId), ...downFrom(ofTo, ancestorId).slice(1)] };
+}
+
+// Marriage rules: one spouse edge at either end of a line of descent
+function byMarriage(
+  lookup: MahramLookup,
+  fromId: string,
+  toId: string,
+  ofFrom: Map<string, Reached>,
+  ofTo: Map<string, Reached>,
+  withMilk: boolean,
+): Found | null {
+  let best: Found | null = null;
+  for (const { spouseId } of lookup.spousesOf(fromId)) {
+    if (spouseId === toId) continue;
+    const ofSpouse = ancestry(lookup, spouseId, withMilk);
+    if (ofSpouse.has(toId)) {
+      best = shorter(best, {
+        rule: 'SPOUSE_ASCENDANT',
+        condition: null,
+        path: [
+          { personId: fromId, relation: null, type: null },
+          spouseStep(spouseId),
+          ...upTo(ofSpouse, toId).slice(1),
+        ],
+      });
+    }
+    if (ofTo.has(spouseId)) {
+      // A wife's daughter: only once the marriage to her mother was consummated
+      best = shorter(best, {
+        rule: 'SPOUSE_DESCENDANT',
+        condition: lookup.genderOf(fromId) === 'FEMALE' ? null : 'CONSUMMATION',
+        path: [
+          { personId: fromId, relation: null, type: null },
+          spouseStep(spouseId),
+          ...downFrom(ofTo, spouseId).slice(1),
+        ],
+      });
+    }
+  }
+  for (const { spouseId } of lookup.spousesOf(toId)) {
+    if (spouseId === fromId) continue;
+    if (ofFrom.has(spouseId)) {
+      // A mother's husband: only once the marriage was consummated
+      best = shorter(best, {
+        rule: 'ASCENDANT_SPOUSE',
+        condition: lookup.genderOf(toId) === 'FEMALE' ? null : 'CONSUMMATION',
+        path: [...upTo(ofFrom, spouseId), spouseStep(toId)],
+      });
+    }
+    const ofSpouse = ancestry(lookup, spouseId, withMilk);
+    if (ofSpouse.has(fromId)) {
+      best = shorter(best, {
+        rule: 'DESCENDANT_SPOUSE',
+        condition: null,
+        path: [...downFrom(ofSpouse, fromId), spouseStep(toId)],
+      });
+    }
+  }
+  return best;
+}
+
+/** Whether `toId` is mahram to `fromId`, by which rule and through whom */
+export function findMahram(lookup: MahramLookup, fromId: string, toId: string): Mahram {
+  const blood = [ancestry(lookup, fromId, false), ancestry(lookup, toId, false)] as const;
+  const milk = [ancestry(lookup, fromId, true), ancestry(lookup, toId, true)] as const;
+  const checks: [MahramBasis, () => Found | null][] = [
+    ['BLOOD', () => byDescent(...blood)],
+    ['MILK', () => byDescent(...milk)],
+    ['MARRIAGE', () => byMarriage(lookup, fromId, toId, ...blood, false)],
+    ['MILK', () => byMarriage(lookup, fromId, toId, ...milk, true)],
+  ];
+  for (const [basis, check] of checks) {
+    const found = check();
+    if (found) return { mahram: true, basis, ...found };
+  }
+  return NOT_MAHRAM;
+}
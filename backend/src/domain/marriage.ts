@@ -0,0 +1,206 @@
+import { InvariantViolationError } from './errors';
+import { GenealogicalDate, type GenealogicalDateProps } from './genealogical-date';
+import { gedcomLines, gedcomStructure, type GedcomStructure, type GedcomVersion } from './gedcom-writer';
+
+/**
+ * Marriage value object.
+ *
+ * The details carried on a spouse edge: when and where the couple married,
+ * whether and how the marriage ended, and its position among each spouse's
+ * marriages (a man's second wife is order 2 for him and may be order 1 for
+ * her). Orders refer to the canonical spouse1/spouse2 of the edge.
+ */
+
+/**
+ * - MARRIED: in force as far as the record shows
+ * - DIVORCED: ended by divorce (talaq, khul', fasakh)
+ * - ANNULLED: declared void
+ * - WIDOWED: ended by the death of a spouse
+ */
+export type MarriageStatus = 'MARRIED' | 'DIVORCED' | 'ANNULLED' | 'WIDOWED';
+
+export const MARRIAGE_STATUSES: MarriageStatus[] = ['MARRIED', 'DIVORCED', 'ANNULLED', 'WIDOWED'];
+
+export interface MarriageProps {
+  status?: MarriageStatus | null; // defaults to MARRIED
+  marriageDate?: GenealogicalDate | null;
+  marriagePlace?: string | null;
+  divorceDate?: GenealogicalDate | null; // DIVORCED or ANNULLED only
+  divorcePlace?: string | null; // DIVORCED or ANNULLED only
+  spouse1Order?: number | null; // 1 = spouse1's first marriage
+  spouse2Order?: number | null;
+}
+
+/**
+ * Partial update: `undefined` keeps the current value, `null` clears it.
+ */
+export type MarriageUpdates = MarriageProps;
+
+/**
+ * Persisted shape: dates as GenealogicalDateProps.
+ */
+export interface StoredMarriage {
+  status?: MarriageStatus | null;
+  marriageDate?: GenealogicalDateProps | null;
+  marriagePlace?: string | null;
+  divorceDate?: GenealogicalDateProps | null;
+  divorcePlace?: string | null;
+  spouse1Order?: number | null;
+  spouse2Order?: number | null;
+}
+
+const MAX_PLACE_LENGTH = 255;
+
+const ENDED_BY_DIVORCE: MarriageStatus[] = ['DIVORCED', 'ANNULLED'];
+
+export class Marriage {
+  readonly status: MarriageStatus;
+  readonly marriageDate: GenealogicalDate | null;
+  readonly marriagePlace: string | null;
+  readonly divorceDate: GenealogicalDate | null;
+  readonly divorcePlace: string | null;
+  readonly spouse1Order: number | null;
+  readonly spouse2Order: number | null;
+
+  private constructor(props: MarriageProps) {
+    this.status = props.status ?? 'MARRIED';
+    this.marriageDate = props.marriageDate ?? null;
+    this.marriagePlace = props.marriagePlace?.trim() || null;
+    this.divorceDate = props.divorceDate ?? null;
+    this.divorcePlace = props.divorcePlace?.trim() || null;
+    this.spouse1Order = props.spouse1Order ?? null;
+    this.spouse2Order = props.spouse2Order ?? null;
+    this.validate();
+  }
+
+  static create(props: MarriageProps = {}): Marriage {
+    return new Marriage(props);
+  }
+
+  static fromStored(stored: StoredMarriage): Marriage {
+    return new Marriage({
+      ...stored,
+      marriageDate: GenealogicalDate.from(stored.marriageDate),
+      divorceDate: GenealogicalDate.from(stored.divorceDate),
+    });
+  }
+
+  /** True when the marriage ended in divorce or annulment (not by death) */
+  get endedByDivorce(): boolean {
+    return ENDED_BY_DIVORCE.includes(this.status);
+  }
+
+  /**
+   * True when nothing beyond the bare spouse link is recorded (a first
+   * marriage for both, still in force, with no date or place).
+   */
+  get isDefault(): boolean {
+    return (
+      this.status === 'MARRIED' &&
+      !this.marriageDate &&
+      !this.marriagePlace &&
+      (this.spouse1Order ?? 1) === 1 &&
+      (this.spouse2Order ?? 1) === 1
+    );
+  }
+
+  withUpdates(updates: MarriageUpdates): Marriage {
+    const keep = <K extends keyof MarriageProps>(key: K): MarriageProps[K] =>
+      updates[key] !== undefined ? updates[key] : this[key];
+    return new Marriage({
+      status: keep('status'),
+      marriageDate: keep('marriageDate'),
+      marriagePlace: keep('marriagePlace'),
+      divorceDate: keep('divorceDate'),
+      divorcePlace: keep('divorcePlace'),
+      spouse1Order: keep('spouse1Order'),
+      spouse2Order: keep('spouse2Order'),
+    });
+  }
+
+  withOrders(spouse1Order: number, spouse2Order: number): Marriage {
+    return new Marriage({ ...this.toProps(), spouse1Order, spouse2Order });
+  }
+
+  /**
+   * The same marriage seen from the other spouse: orders exchanged.
+   */
+  swapped(): Marriage {
+    return new Marriage({ ...this.toProps(), spouse1Order: this.spouse2Order, spouse2Order: this.spouse1Order });
+  }
+
+  /**
+   * GEDCOM 5.5.1 family events starting at `level`.
+   */
+  toGedcomLines(level = 1): string[] {
+    return this.toGedcomStructures('5.5.1').flatMap((event) => gedcomLines(event, level));
+  }
+
+  /**
+   * GEDCOM family events: MARR, then DIV or ANUL. A divorce with no date or
+   * place is asserted as "DIV Y".
+   */
+  toGedcomStructures(version: GedcomVersion): GedcomStructure[] {
+    const events: GedcomStructure[] = [];
+    const event = (tag: string, date: GenealogicalDate | null, place: string | null, assert: boolean) => {
+      if (!date && !place) {
+        if (assert) events.push(gedcomStructure(tag, 'Y'));
+        return;
+      }
+      events.push(
+        gedcomStructure(tag, null, [
+          ...(date ? [gedcomStructure('DATE', date.toGedcom(version))] : []),
+          ...(place ? [gedcomStructure('PLAC', place)] : []),
+        ]),
+      );
+    };
+
+    event('MARR', this.marriageDate, this.marriagePlace, false);
+    if (ENDED_BY_DIVORCE.includes(this.status)) {
+      event(this.status === 'ANNULLED' ? 'ANUL' : 'DIV', this.divorceDate, this.divorcePlace, true);
+    }
+    return events;
+  }
+
+  toProps(): MarriageProps {
+    return {
+      status: this.status,
+      marriageDate: this.marriageDate,
+      marriagePlace: this.marriagePlace,
+      divorceDate: this.divorceDate,
+      divorcePlace: this.divorcePlace,
+      spouse1Order: this.spouse1Order,
+      spouse2Order: this.spouse2Order,
+    };
+  }
+
+  toStored(): StoredMarriage {
+    return {
+      ...this.toProps(),
+      marriageDate: this.marriageDate?.toProps() ?? null,
+      divorceDate: this.divorceDate?.toProps() ?? null,
+    };
+  }
+
+  private validate(): void {
+    if (!MARRIAGE_STATUSES.includes(this.status)) {
+      throw new InvariantViolationError('marriage status is invalid');
+    }
+    if (!ENDED_BY_DIVORCE.includes(this.status) && (this.divorceDate || this.divorcePlace)) {
+      throw new InvariantViolationError('divorce details require status DIVORCED or ANNULLED');
+    }
+    if (this.marriageDate && this.divorceDate && this.divorceDate.isCertainlyBefore(this.marriageDate)) {
+      throw new InvariantViolationError('divorceDate must be after or equal to marriageDate');
+    }
+    for (const place of [this.marriagePlace, this.divorcePlace]) {
+      if (place && place.length > MAX_PLACE_LENGTH) {
+        throw new InvariantViolationError('place must be at most 255 chars');
+      }
+    }
+    for (const order of [this.spouse1Order, this.spouse2Order]) {
+      if (order !== null && (!Number.isInteger(order) || order < 1)) {
+        throw new InvariantViolationError('marriage order must be a positive integer');
+      }
+    }
+  }
+}
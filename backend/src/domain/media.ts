@@ -0,0 +1,264 @@
+import { InvariantViolationError } from './errors';
+import { GenealogicalDate, type GenealogicalDateJSON, type GenealogicalDateProps } from './genealogical-date';
+import { gedcomLines, gedcomStructure, type GedcomStructure, type GedcomVersion } from './gedcom-writer';
+
+/**
+ * MediaObject value object.
+ *
+ * A file attached to a tree: a photo, a scanned document or gravestone, a
+ * recording. Only its description lives in the aggregate (name, type,
+ * size, caption, date, and the persons and events it shows); the bytes are
+ * kept by a media storage under `storageKey`, with a thumbnail under
+ * `thumbnailKey` for images.
+ */
+
+/**
+ * Accepted file types. Anything that a browser would run or render as a
+ * page (HTML, SVG, scripts) is refused.
+ */
+export const MEDIA_MIME_TYPES: string[] = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/tiff',
+  'application/pdf',
+  'audio/mpeg',
+  'audio/wav',
+  'video/mp4',
+];
+
+export const MAX_MEDIA_SIZE = 20 * 1024 * 1024; // bytes
+
+/**
+ * A person shown in the file, or one of their events (a gravestone for a
+ * burial). `primary` marks the person's portrait: an image linked to the
+ * person rather than an event, at most one per person.
+ */
+export interface MediaLink {
+  personId: string;
+  eventId?: string | null;
+  primary?: boolean;
+}
+
+export interface MediaProps {
+  mediaId: string;
+  fileName: string; // as uploaded
+  mimeType: string;
+  size: number;
+  storageKey: string;
+  thumbnailKey?: string | null;
+  caption?: string | null;
+  date?: GenealogicalDate | null;
+  links?: MediaLink[] | null;
+}
+
+/**
+ * Partial update: `undefined` keeps the current value, `null` clears it.
+ * `links` replaces the links as a whole. The file itself is fixed.
+ */
+export type MediaUpdates = Partial<Pick<MediaProps, 'caption' | 'date' | 'links'>>;
+
+/**
+ * Persisted shape: the date as GenealogicalDateProps.
+ */
+export interface StoredMedia extends Omit<MediaProps, 'date'> {
+  date?: GenealogicalDateProps | null;
+}
+
+/**
+ * Response shape: storage keys are internal to the server and left out.
+ */
+export interface MediaJSON {
+  mediaId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  hasThumbnail: boolean;
+  caption: string | null;
+  date: GenealogicalDateJSON | null;
+  links: Required<MediaLink>[];
+}
+
+const MAX_FILE_NAME_LENGTH = 255;
+const MAX_CAPTION_LENGTH = 500;
+const MAX_LINKS = 100;
+
+/**
+ * GEDCOM 5.5.1 multimedia format, with the media type under it
+ */
+const GEDCOM_FORMS: Record<string, { form: string; type: string }> = {
+  'image/jpeg': { form: 'jpg', type: 'photo' },
+  'image/png': { form: 'png', type: 'photo' },
+  'image/gif': { form: 'gif', type: 'photo' },
+  'image/webp': { form: 'webp', type: 'photo' },
+  'image/tiff': { form: 'tif', type: 'photo' },
+  'application/pdf': { form: 'pdf', type: 'document' },
+  'audio/mpeg': { form: 'mp3', type: 'audio' },
+  'audio/wav': { form: 'wav', type: 'audio' },
+  'video/mp4': { form: 'mp4', type: 'video' },
+};
+
+// GEDCOM 7.0 MEDI values for the types above; a document has none
+const GEDCOM7_MEDIA: Record<string, string> = { photo: 'PHOTO', audio: 'AUDIO', video: 'VIDEO' };
+
+export class MediaObject {
+  readonly mediaId: string;
+  readonly fileName: string;
+  readonly mimeType: string;
+  readonly size: number;
+  readonly storageKey: string;
+  readonly thumbnailKey: string | null;
+  readonly caption: string | null;
+  readonly date: GenealogicalDate | null;
+  readonly links: Required<MediaLink>[];
+
+  private constructor(props: MediaProps) {
+    this.mediaId = props.mediaId?.trim();
+    this.fileName = props.fileName?.trim();
+    this.mimeType = props.mimeType?.trim().toLowerCase();
+    this.size = props.size;
+    this.storageKey = props.storageKey?.trim();
+    this.thumbnailKey = props.thumbnailKey?.trim() || null;
+    this.caption = props.caption?.trim() || null;
+    this.date = props.date ?? null;
+    this.links = (props.links ?? []).map((link) => ({
+      personId: link.personId?.trim(),
+      eventId: link.eventId?.trim() || null,
+      primary: link.primary === true,
+    }));
+    this.validate();
+  }
+
+  static create(props: MediaProps): MediaObject {
+    return new MediaObject(props);
+  }
+
+  static fromStored(stored: StoredMedia): MediaObject {
+    return new MediaObject({ ...stored, date: GenealogicalDate.from(stored.date) });
+  }
+
+  get isImage(): boolean {
+    return this.mimeType.startsWith('image/');
+  }
+
+  /** True when the file shows `personId` or one of their events */
+  concerns(personId: string): boolean {
+    return this.links.some((link) => link.personId === personId);
+  }
+
+  isPortraitOf(personId: string): boolean {
+    return this.links.some((link) => link.personId === personId && link.primary);
+  }
+
+  withUpdates(updates: MediaUpdates): MediaObject {
+    const keep = <K extends keyof MediaUpdates>(key: K): MediaProps[K] =>
+      updates[key] !== undefined ? updates[key] : this[key];
+    return new MediaObject({ ...this.toProps(), caption: keep('caption'), date: keep('date'), links: keep('links') });
+  }
+
+  /**
+   * GEDCOM 5.5.1 multimedia record.
+   */
+  toGedcomLines(xref: string): string[] {
+    return gedcomLines(this.toGedcomRecord(xref, '5.5.1'), 0);
+  }
+
+  /**
+   * GEDCOM multimedia record. FILE is where the file sits in an export
+   * bundle: `media/<mediaId>/<fileName>`, as a URI path in 7.0. 5.5.1
+   * gives the form as a file extension with a free-text TYPE; 7.0 as the
+   * MIME type with an enumerated MEDI.
+   */
+  toGedcomRecord(xref: string, version: GedcomVersion): GedcomStructure {
+    const format = GEDCOM_FORMS[this.mimeType];
+    const title = this.caption ? [gedcomStructure('TITL', this.caption.replace(/\s+/g, ' '))] : [];
+    if (version === '7.0') {
+      const medium = GEDCOM7_MEDIA[format?.type] ?? 'OTHER';
+      const form = gedcomStructure('FORM', this.mimeType, [
+        gedcomStructure('MEDI', medium, medium === 'OTHER' ? [gedcomStructure('PHRASE', format?.type)] : []),
+      ]);
+      const path = this.bundlePath.split('/').map(encodeURIComponent).join('/');
+      return { tag: 'OBJE', xref, children: [gedcomStructure('FILE', path, [form, ...title])] };
+    }
+
+    const form = format ? [gedcomStructure('FORM', format.form, [gedcomStructure('TYPE', format.type)])] : [];
+    return { tag: 'OBJE', xref, children: [gedcomStructure('FILE', this.bundlePath, [...form, ...title])] };
+  }
+
+  get bundlePath(): string {
+    return `media/${this.mediaId}/${this.fileName}`;
+  }
+
+  toProps(): MediaProps {
+    return {
+      mediaId: this.mediaId,
+      fileName: this.fileName,
+      mimeType: this.mimeType,
+      size: this.size,
+      storageKey: this.storageKey,
+      thumbnailKey: this.thumbnailKey,
+      caption: this.caption,
+      date: this.date,
+      links: this.links.map((link) => ({ ...link })),
+    };
+  }
+
+  toStored(): StoredMedia {
+    return { ...this.toProps(), date: this.date?.toProps() ?? null };
+  }
+
+  toJSON(): MediaJSON {
+    return {
+      mediaId: this.mediaId,
+      fileName: this.fileName,
+      mimeType: this.mimeType,
+      size: this.size,
+      hasThumbnail: this.thumbnailKey !== null,
+      caption: this.caption,
+      date: this.date?.toJSON() ?? null,
+      links: this.links.map((link) => ({ ...link })),
+    };
+  }
+
+  private validate(): void {
+    if (!this.mediaId) {
+      throw new InvariantViolationError('mediaId is required');
+    }
+    if (!this.fileName) {
+      throw new InvariantViolationError('fileName is required');
+    }
+    if (this.fileName.length > MAX_FILE_NAME_LENGTH || /[\\/\0]/.test(this.fileName)) {
+      throw new InvariantViolationError('fileName must be a plain file name of at most 255 chars');
+    }
+    if (!MEDIA_MIME_TYPES.includes(this.mimeType)) {
+      throw new InvariantViolationError(`file type ${this.mimeType || '(none)'} is not accepted`);
+    }
+    if (!Number.isInteger(this.size) || this.size < 0 || this.size > MAX_MEDIA_SIZE) {
+      throw new InvariantViolationError(`file size must be at most ${MAX_MEDIA_SIZE} bytes`);
+    }
+    if (!this.storageKey) {
+      throw new InvariantViolationError('storageKey is required');
+    }
+    if (this.caption && this.caption.length > MAX_CAPTION_LENGTH) {
+      throw new InvariantViolationError(`caption must be at most ${MAX_CAPTION_LENGTH} chars`);
+    }
+    if (this.links.length > MAX_LINKS) {
+      throw new InvariantViolationError(`a file can have at most ${MAX_LINKS} links`);
+    }
+    const seen = new Set<string>();
+    for (const link of this.links) {
+      if (!link.personId) {
+        throw new InvariantViolationError('link personId is required');
+      }
+      const key = `${link.personId}:${link.eventId ?? ''}`;
+      if (seen.has(key)) {
+        throw new InvariantViolationError('duplicate media link');
+      }
+      seen.add(key);
+      if (link.primary && (link.eventId || !this.isImage)) {
+        throw new InvariantViolationError('only an image linked to the person itself can be a portrait');
+      }
+    }
+  }
+}
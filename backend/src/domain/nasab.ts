@@ -0,0 +1,79 @@
+import type { Gender, Person } from './person';
+
+/**
+ * Nasab (patronymic chain).
+ *
+ * "Ahmad bin Umar bin Abdullah": a person followed by their father, his
+ * father, and so on. The chain is walked by GenealogyGraph.getNasab; this
+ * module holds its shape and the text rendering.
+ */
+
+/**
+ * MALAY: bin / binti. ARABIC: ibn / bint.
+ */
+export type NasabStyle = 'MALAY' | 'ARABIC';
+
+export const NASAB_STYLES: NasabStyle[] = ['MALAY', 'ARABIC'];
+
+/**
+ * Why the chain stopped at its last link. Only biological parents count.
+ * - NO_PARENTS: no biological parent is recorded
+ * - FATHER_NOT_RECORDED: only a mother is recorded (female-line gap); the
+ *   chain does not continue through her
+ * - PARENT_GENDER_UNKNOWN: a parent is recorded without a gender, so the
+ *   father cannot be identified
+ * - MULTIPLE_FATHERS: more than one male parent is recorded
+ * - DEPTH_LIMIT: the requested depth was reached
+ */
+export type NasabEndReason =
+  | 'NO_PARENTS'
+  | 'FATHER_NOT_RECORDED'
+  | 'PARENT_GENDER_UNKNOWN'
+  | 'MULTIPLE_FATHERS'
+  | 'DEPTH_LIMIT';
+
+export interface NasabLink {
+  personId: string;
+  name: string; // the name used in the chain (ism when recorded)
+  gender: Gender;
+}
+
+export interface NasabChain {
+  personId: string;
+  links: NasabLink[]; // links[0] is the person, then each father in turn
+  end: {
+    reason: NasabEndReason;
+    parentIds: string[]; // biological parents of the last link, for gaps
+  };
+}
+
+export const DEFAULT_NASAB_DEPTH = 10;
+export const MAX_NASAB_DEPTH = 50;
+
+const CONNECTORS: Record<NasabStyle, Record<Gender, string>> = {
+  MALAY: { MALE: 'bin', FEMALE: 'binti', UNKNOWN: 'bin/binti' },
+  ARABIC: { MALE: 'ibn', FEMALE: 'bint', UNKNOWN: 'ibn/bint' },
+};
+
+/**
+ * The name a person contributes to a nasab: the ism (or given name) of the
+ * primary structured name, else the display name.
+ */
+export function nasabName(person: Person): string {
+  const primary = person.names.find((name) => name.primary);
+  if (primary) {
+    const personal = [...primary.partsOf('ISM'), ...primary.partsOf('GIVEN')];
+    if (personal.length > 0) return personal.join(' ');
+  }
+  return person.name;
+}
+
+/**
+ * Render a chain as text. The connector after each link follows that link's
+ * gender: "Aminah binti Umar bin Abdullah".
+ */
+export function renderNasab(chain: NasabChain, style: NasabStyle = 'MALAY'): string {
+  return chain.links
+    .map((link, i) => (i === chain.links.length - 1 ? link.name : `${link.name} ${CONNECTORS[style][link.gender]}`))
+    .join(' ');
+}
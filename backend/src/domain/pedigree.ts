@@ -0,0 +1,119 @@
+/**
+ * Pedigree.
+ *
+ * Ancestry counted by lines of descent rather than by persons. Every
+ * person has two parents, four grandparents, eight great-grandparents;
+ * when cousins marry, one ancestor fills several of those places and the
+ * pedigree collapses. The same counts give the most recent common
+ * ancestors of a set of persons and how far each of them is from them.
+ *
+ * Paths are counted a generation at a time, summing per ancestor, so the
+ * work grows with generations times ancestors and never with the number
+ * of paths, however much a pedigree collapses.
+ *
+ * Follows biological parents only.
+ */
+
+export interface PedigreeLookup {
+  parentsOf(personId: string): string[]; // biological
+}
+
+/** Where one ancestor sits in a person's pedigree */
+export interface AncestorLines {
+  ancestorId: string;
+  generations: number[]; // each generation the ancestor appears at, nearest first
+  paths: number; // lines of descent from the ancestor to the person
+}
+
+export interface PedigreeCollapse {
+  personId: string;
+  distinctAncestors: number;
+  ancestorSlots: number; // places in the pedigree, one per line of descent
+  collapse: number; // 1 - distinctAncestors / ancestorSlots, 0 without repeats
+  repeated: AncestorLines[]; // ancestors reached by more than one path
+}
+
+/** A common ancestor and how many generations each person is below them */
+export interface CommonAncestor {
+  ancestorId: string;
+  distances: { personId: string; generations: number }[];
+}
+
+/**
+ * Every ancestor of `personId` with the generations they appear at and the
+ * number of paths leading to them; the person themself is not included.
+ */
+export function ancestorLines(lookup: PedigreeLookup, personId: string): Map<string, AncestorLines> {
+  const lines = new Map<string, { generations: number[]; paths: number }>();
+  let generation = new Map<string, number>([[personId, 1]]); // person → paths reaching them at this depth
+  for (let depth = 1; generation.size > 0; depth++) {
+    const next = new Map<string, number>();
+    for (const [id, paths] of generation) {
+      for (const parentId of lookup.parentsOf(id)) {
+        next.set(parentId, (next.get(parentId) ?? 0) + paths);
+      }
+    }
+    for (const [ancestorId, paths] of next) {
+      const line = lines.get(ancestorId) ?? { generations: [], paths: 0 };
+      line.generations.push(depth);
+      line.paths += paths;
+      lines.set(ancestorId, line);
+    }
+    generation = next;
+  }
+  return new Map([...lines].map(([ancestorId, line]) => [ancestorId, { ancestorId, ...line }]));
+}
+
+/** Ancestors reached through more than one line, nearest and most repeated first */
+export function pedigreeCollapse(lookup: PedigreeLookup, personId: string): PedigreeCollapse {
+  const lines = [...ancestorLines(lookup, personId).values()];
+  const ancestorSlots = lines.reduce((sum, line) => sum + line.paths, 0);
+  return {
+    personId,
+    distinctAncestors: lines.length,
+    ancestorSlots,
+    collapse: ancestorSlots === 0 ? 0 : 1 - lines.length / ancestorSlots,
+    repeated: lines
+      .filter((line) => line.paths > 1)
+      .sort(
+        (a, b) => a.generations[0] - b.generations[0] || b.paths - a.paths || a.ancestorId.localeCompare(b.ancestorId),
+      ),
+  };
+}
+
+/**
+ * The most recent common ancestors of `personIds`: those shared by all of
+ * them with no other shared ancestor below them. A person in the set can
+ * be one (a parent is the nearest common ancestor of themself and their
+ * child). A couple usually comes out together. Sorted by the farthest
+ * distance, then the total, then id.
+ */
+export function mostRecentCommonAncestors(lookup: PedigreeLookup, personIds: string[]): CommonAncestor[] {
+  // Nearest generation of each ancestor, the person themself at 0
+  const nearest = personIds.map((personId) => {
+    const depths = new Map<string, number>([[personId, 0]]);
+    for (const line of ancestorLines(lookup, personId).values()) depths.set(line.ancestorId, line.generations[0]);
+    return depths;
+  });
+  const [first, ...rest] = nearest;
+  const common = [...first.keys()].filter((id) => rest.every((depths) => depths.has(id)));
+
+  // Drop those above another common ancestor
+  const commonSet = new Set(common);
+  const above = new Set<string>();
+  for (const id of common) {
+    for (const ancestorId of ancestorLines(lookup, id).keys()) {
+      if (commonSet.has(ancestorId)) above.add(ancestorId);
+    }
+  }
+
+  const farthest = (a: CommonAncestor) => Math.max(...a.distances.map((d) => d.generations));
+  const total = (a: CommonAncestor) => a.distances.reduce((sum, d) => sum + d.generations, 0);
+  return common
+    .filter((id) => !above.has(id))
+    .map((ancestorId) => ({
+      ancestorId,
+      distances: personIds.map((personId, i) => ({ personId, generations: nearest[i].get(ancestorId)! })),
+    }))
+    .sort((a, b) => farthest(a) - farthest(b) || total(a) - total(b) || a.ancestorId.localeCompare(b.ancestorId));
+}
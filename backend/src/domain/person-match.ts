@@ -0,0 +1,88 @@
+/**
+ * Person matching.
+ *
+ * How likely two person records describe the same person, from their names
+ * and birth years, for finding an imported person already in a tree.
+ *
+ * Names are compared without case, diacritics, punctuation or the ʿayn and
+ * hamza marks of transliteration, as the edit distance between them
+ * relative to the longer one: "Ahmad bin Ali" and "Ahmed bin Ali" are 0.92
+ * alike. Birth years that are both known add
+ * weight when they agree (the same year counts fully, one year apart by
+ * half) and rule the match out when they are further apart; an unknown
+ * year counts by half. Known genders that differ rule it out too.
+ *
+ * A year is the middle of the date's range, in the Gregorian calendar
+ * whatever the date was recorded in.
+ */
+
+import type { GenealogicalDate } from './genealogical-date';
+import type { PersonProps } from './types';
+
+export type MatchablePerson = Pick<PersonProps, 'name' | 'gender' | 'birthDate'>;
+
+/** Similarity from which two persons are taken as the same */
+export const DUPLICATE_SIMILARITY = 0.85;
+
+const NAME_WEIGHT = 0.8;
+const BIRTH_WEIGHT = 0.2;
+
+/**
+ * How alike two persons are, from 0 (not the same person) to 1, rounded to
+ * two decimals.
+ */
+export function personSimilarity(a: MatchablePerson, b: MatchablePerson): number {
+  if (a.gender !== 'UNKNOWN' && b.gender !== 'UNKNOWN' && a.gender !== b.gender) return 0;
+
+  let birth = 0.5;
+  const years = [a.birthDate, b.birthDate].map((date) => (date ? birthYear(date) : null));
+  if (years[0] !== null && years[1] !== null) {
+    const apart = Math.abs(years[0] - years[1]);
+    if (apart > 1) return 0;
+    birth = apart === 0 ? 1 : 0.5;
+  }
+  return Math.round((nameSimilarity(a.name, b.name) * NAME_WEIGHT + birth * BIRTH_WEIGHT) * 100) / 100;
+}
+
+/**
+ * The Gregorian year in the middle of a date's range: 1891 for ABT 1891,
+ * 1855 for BET 1850 AND 1860; the known bound of BEF and AFT dates.
+ */
+function birthYear(date: GenealogicalDate): number {
+  const { earliest, latest } = date.range;
+  if (earliest && latest) return new Date((earliest.getTime() + latest.getTime()) / 2).getUTCFullYear();
+  return (earliest ?? latest)!.getUTCFullYear();
+}
+
+/**
+ * How alike two names are, from 0 to 1: one less the edit distance between
+ * their normalized forms over the length of the longer.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const [x, y] = [normalizeName(a), normalizeName(b)];
+  const longest = Math.max(x.length, y.length);
+  if (longest === 0) return 0;
+  return 1 - editDistance(x, y) / longest;
+}
+
+function normalizeName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[\s!-/:-@[-`{-~\u2018\u2019\u02bb\u02bc\u02be\u02bf]+/g, ' ')
+    .trim();
+}
+
+// Levenshtein distance, one row at a time
+function editDistance(x: string, y: string): number {
+  let previous = Array.from({ length: y.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= x.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= y.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (x[i - 1] === y[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[y.length];
+}
@@ -0,0 +1,264 @@
+import { InvariantViolationError } from './errors';
+import { gedcomLines, gedcomStructure, type GedcomStructure, type GedcomVersion } from './gedcom-writer';
+
+/**
+ * PersonName value object.
+ *
+ * One recorded name of a person: its kind (birth, married, religious...),
+ * its typed parts in display order, and the same name written in other
+ * scripts or transliterations. Arabic and Malay names are modelled by part
+ * (ism, kunya, nasab, laqab, nisba) rather than given/surname, which do not
+ * apply to them.
+ */
+
+export type NameType = 'BIRTH' | 'MARRIED' | 'MAIDEN' | 'ALIAS' | 'RELIGIOUS';
+
+export type NamePartType =
+  | 'PREFIX' // honorific or title: Syed, Tuan, Haji, Dr.
+  | 'GIVEN'
+  | 'ISM' // personal name: Muhammad, Aminah
+  | 'KUNYA' // teknonym: Abu Bakr, Umm Kulthum
+  | 'NASAB' // patronymic: ibn Uthman, binti Ismail
+  | 'LAQAB' // epithet: al-Siddiq
+  | 'NISBA' // origin or affiliation: al-Banjari
+  | 'SURNAME'
+  | 'SUFFIX'
+  | 'NICKNAME';
+
+/**
+ * ROMANIZED: the name transliterated into Latin script (GEDCOM ROMN).
+ * PHONETIC: how the name is pronounced (GEDCOM FONE).
+ */
+export type NameVariantKind = 'ROMANIZED' | 'PHONETIC';
+
+export interface NamePart {
+  type: NamePartType;
+  value: string;
+}
+
+export interface NameVariant {
+  kind: NameVariantKind;
+  text: string;
+  script?: string | null; // ISO 15924, e.g. 'Latn', 'Arab'
+  method?: string | null; // transliteration scheme, e.g. 'ALA-LC', 'Rumi'
+}
+
+/**
+ * Persisted shape. Either `parts` or `text` must be given; `text` wins for
+ * display when both are present.
+ */
+export interface PersonNameProps {
+  type: NameType;
+  parts?: NamePart[] | null;
+  text?: string | null;
+  script?: string | null; // ISO 15924 script of the name itself
+  primary?: boolean;
+  variants?: NameVariant[] | null;
+}
+
+export interface PersonNameJSON extends PersonNameProps {
+  fullText: string;
+}
+
+const NAME_TYPES: NameType[] = ['BIRTH', 'MARRIED', 'MAIDEN', 'ALIAS', 'RELIGIOUS'];
+
+const NAME_PART_TYPES: NamePartType[] = [
+  'PREFIX',
+  'GIVEN',
+  'ISM',
+  'KUNYA',
+  'NASAB',
+  'LAQAB',
+  'NISBA',
+  'SURNAME',
+  'SUFFIX',
+  'NICKNAME',
+];
+
+const MAX_TEXT_LENGTH = 255;
+
+/**
+ * GEDCOM NAME TYPE values. RELIGIOUS has no standard value.
+ */
+const GEDCOM_NAME_TYPES: Record<NameType, string> = {
+  BIRTH: 'birth',
+  MARRIED: 'married',
+  MAIDEN: 'maiden',
+  ALIAS: 'aka',
+  RELIGIOUS: 'religious',
+};
+
+// Name types 7.0 has a value for
+const GEDCOM7_NAME_TYPES = ['AKA', 'BIRTH', 'IMMIGRANT', 'MAIDEN', 'MARRIED', 'PROFESSIONAL'];
+
+export class PersonName {
+  readonly type: NameType;
+  readonly parts: ReadonlyArray<Readonly<NamePart>>;
+  readonly text: string | null;
+  readonly script: string | null;
+  readonly primary: boolean;
+  readonly variants: ReadonlyArray<Readonly<NameVariant>>;
+
+  private constructor(props: PersonNameProps) {
+    this.type = props.type;
+    this.parts = (props.parts ?? []).map((part) => ({ type: part.type, value: (part.value ?? '').trim() }));
+    this.text = props.text?.trim() || null;
+    this.script = props.script?.trim() || null;
+    this.primary = props.primary ?? false;
+    this.variants = (props.variants ?? []).map((variant) => ({
+      kind: variant.kind,
+      text: (variant.text ?? '').trim(),
+      script: variant.script?.trim() || null,
+      method: variant.method?.trim() || null,
+    }));
+    this.validate();
+  }
+
+  static create(props: PersonNameProps): PersonName {
+    return new PersonName(props);
+  }
+
+  /**
+   * Full name for display: explicit text, else the parts in order.
+   */
+  get fullText(): string {
+    return this.text ?? this.parts.map((part) => part.value).join(' ');
+  }
+
+  /**
+   * Every written form of this name, for search matching.
+   */
+  searchTexts(): string[] {
+    return [this.fullText, ...this.variants.map((variant) => variant.text)];
+  }
+
+  partsOf(type: NamePartType): string[] {
+    return this.parts.filter((part) => part.type === type).map((part) => part.value);
+  }
+
+  withPrimary(primary: boolean): PersonName {
+    return new PersonName({ ...this.toProps(), primary });
+  }
+
+  /**
+   * GEDCOM 5.5.1 PERSONAL_NAME_STRUCTURE starting at `level`.
+   */
+  toGedcomLines(level = 1): string[] {
+    return gedcomLines(this.toGedcomStructure('5.5.1'), level);
+  }
+
+  /**
+   * GEDCOM personal name structure. The surname (or nisba when there is no
+   * surname) is delimited with slashes. 7.0 has upper-case name types, with
+   * OTHER and a PHRASE for those it lacks, and replaces ROMN and FONE with
+   * TRAN in a Latin-script or phonetic language tag.
+   */
+  toGedcomStructure(version: GedcomVersion): GedcomStructure {
+    const surnames = this.partsOf('SURNAME').length > 0 ? this.partsOf('SURNAME') : this.partsOf('NISBA');
+    const surnameType: NamePartType = this.partsOf('SURNAME').length > 0 ? 'SURNAME' : 'NISBA';
+
+    let value: string;
+    if (this.text || this.parts.length === 0) {
+      value = this.fullText;
+    } else {
+      value = this.parts.map((part) => (part.type === surnameType ? `/${part.value}/` : part.value)).join(' ');
+    }
+
+    const type = GEDCOM_NAME_TYPES[this.type];
+    const children =
+      version === '7.0'
+        ? [
+            GEDCOM7_NAME_TYPES.includes(type.toUpperCase())
+              ? gedcomStructure('TYPE', type.toUpperCase())
+              : gedcomStructure('TYPE', 'OTHER', [gedcomStructure('PHRASE', type)]),
+          ]
+        : [gedcomStructure('TYPE', type)];
+    const pieces: Array<[string, string[]]> = [
+      ['NPFX', this.partsOf('PREFIX')],
+      ['GIVN', [...this.partsOf('GIVEN'), ...this.partsOf('ISM')]],
+      ['NICK', [...this.partsOf('KUNYA'), ...this.partsOf('LAQAB'), ...this.partsOf('NICKNAME')]],
+      ['SURN', surnames],
+      ['NSFX', this.partsOf('SUFFIX')],
+    ];
+    for (const [tag, values] of pieces) {
+      if (values.length > 0) children.push(gedcomStructure(tag, values.join(', ')));
+    }
+
+    for (const variant of this.variants) {
+      if (version === '7.0') {
+        const language = variant.kind === 'ROMANIZED' ? 'und-Latn' : 'und-fonipa';
+        children.push(gedcomStructure('TRAN', variant.text, [gedcomStructure('LANG', language)]));
+        continue;
+      }
+      const method = variant.method ?? variant.script;
+      const tag = variant.kind === 'ROMANIZED' ? 'ROMN' : 'FONE';
+      children.push(gedcomStructure(tag, variant.text, method ? [gedcomStructure('TYPE', method)] : []));
+    }
+    return gedcomStructure('NAME', value, children);
+  }
+
+  toString(): string {
+    return `${this.fullText} (${this.type})`;
+  }
+
+  toProps(): PersonNameProps {
+    return {
+      type: this.type,
+      parts: this.parts.map((part) => ({ ...part })),
+      text: this.text,
+      script: this.script,
+      primary: this.primary,
+      variants: this.variants.map((variant) => ({ ...variant })),
+    };
+  }
+
+  toJSON(): PersonNameJSON {
+    return { ...this.toProps(), fullText: this.fullText };
+  }
+
+  private validate(): void {
+    if (!NAME_TYPES.includes(this.type)) {
+      throw new InvariantViolationError('name type is invalid');
+    }
+    for (const part of this.parts) {
+      if (!NAME_PART_TYPES.includes(part.type)) {
+        throw new InvariantViolationError(`name part type ${part.type} is invalid`);
+      }
+      if (!part.value || part.value.length > MAX_TEXT_LENGTH) {
+        throw new InvariantViolationError('name part must be 1-255 chars');
+      }
+    }
+    if (!this.text && this.parts.length === 0) {
+      throw new InvariantViolationError('name requires text or parts');
+    }
+    if (this.fullText.length > MAX_TEXT_LENGTH) {
+      throw new InvariantViolationError('name must be 1-255 chars');
+    }
+    for (const variant of this.variants) {
+      if (variant.kind !== 'ROMANIZED' && variant.kind !== 'PHONETIC') {
+        throw new InvariantViolationError('name variant kind is invalid');
+      }
+      if (!variant.text || variant.text.length > MAX_TEXT_LENGTH) {
+        throw new InvariantViolationError('name variant must be 1-255 chars');
+      }
+    }
+  }
+}
+
+/**
+ * Ensure exactly one primary name: the first flagged one, else the first.
+ */
+export function normalizePrimaryName(names: readonly PersonName[]): PersonName[] {
+  if (names.length === 0) return [];
+  const primaryIndex = Math.max(0, names.findIndex((name) => name.primary));
+  return names.map((name, i) => (name.primary === (i === primaryIndex) ? name : name.withPrimary(i === primaryIndex)));
+}
+
+/**
+ * The name type for a GEDCOM NAME TYPE value: BIRTH when it is missing or
+ * has no counterpart here (immigrant, for instance).
+ */
+export function nameTypeFromGedcom(value: string | null | undefined): NameType {
+  const gedcomType = value?.trim().toLowerCase();
+  return NAME_TYPES.find((type) => GEDCOM_NAME_TYPES[type] === gedcomType) ?? 'BIRTH';
+}
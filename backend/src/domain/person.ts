@@ -1,32 +1,49 @@
 import { InvariantViolationError } from './errors';
+import type { GenealogicalDate } from './genealogical-date';
+import { normalizePrimaryName, type PersonName } from './person-name';
+import type { LifeEvent } from './life-event';
 
 export type Gender = 'MALE' | 'FEMALE' | 'UNKNOWN';
 
 export interface PersonProps {
   personId: string;
-  name: string;
+  name: string; // primary display name
+  names?: PersonName[] | null; // structured name records; exactly one is primary
   gender: Gender;
-  birthDate?: Date | null;
-  birthPlace?: string | null;
-  deathDate?: Date | null;
+  birthDate?: GenealogicalDate | null;
+  birthPlace?: string | null; // as written, or the full name of the birth place
+  birthPlaceId?: string | null; // gazetteer entry, see Place
+  deathDate?: GenealogicalDate | null;
+  events?: LifeEvent[] | null; // burial, residence, occupation... in recorded order
 }
 
+const MAX_NAMES = 20;
+const MAX_EVENTS = 200;
+
+export type PersonUpdates = Partial<Omit<PersonProps, 'personId'>>;
+
 export class Person {
   readonly personId: string;
   readonly name: string;
+  readonly names: PersonName[];
   readonly gender: Gender;
-  readonly birthDate?: Date | null;
+  readonly birthDate?: GenealogicalDate | null;
   readonly birthPlace?: string | null;
-  readonly deathDate?: Date | null;
+  readonly birthPlaceId?: string | null;
+  readonly deathDate?: GenealogicalDate | null;
+  readonly events: LifeEvent[];
 
   constructor(props: PersonProps) {
     this.validate(props);
     this.personId = props.personId;
     this.name = props.name.trim();
+    this.names = normalizePrimaryName(props.names ?? []);
     this.gender = props.gender;
     this.birthDate = props.birthDate ?? null;
     this.birthPlace = props.birthPlace ?? null;
+    this.birthPlaceId = props.birthPlaceId ?? null;
     this.deathDate = props.deathDate ?? null;
+    this.events = [...(props.events ?? [])];
   }
 
   private validate(props: PersonProps) {
@@ -36,22 +53,58 @@ export class Person {
     if (!props.name || props.name.trim() === '' || props.name.length > 255) {
       throw new InvariantViolationError('name must be 1-255 chars');
     }
+    if (props.names && props.names.length > MAX_NAMES) {
+      throw new InvariantViolationError(`a person can have at most ${MAX_NAMES} names`);
+    }
     if (!['MALE', 'FEMALE', 'UNKNOWN'].includes(props.gender)) {
       throw new InvariantViolationError('gender is invalid');
     }
-    if (props.birthDate && props.deathDate && props.deathDate < props.birthDate) {
+    if (props.birthDate && props.deathDate && props.deathDate.isCertainlyBefore(props.birthDate)) {
       throw new InvariantViolationError('deathDate must be after or equal to birthDate');
     }
+    this.validateEvents(props);
+  }
+
+  /**
+   * Events are unique by id and cannot certainly precede the birth; a
+   * burial cannot certainly precede the death.
+   */
+  private validateEvents(props: PersonProps) {
+    const events = props.events ?? [];
+    if (events.length > MAX_EVENTS) {
+      throw new InvariantViolationError(`a person can have at most ${MAX_EVENTS} events`);
+    }
+    const ids = new Set<string>();
+    for (const event of events) {
+      if (ids.has(event.eventId)) {
+        throw new InvariantViolationError(`event ${event.eventId} is recorded twice`);
+      }
+      ids.add(event.eventId);
+      if (!event.date) continue;
+      if (props.birthDate && event.date.isCertainlyBefore(props.birthDate)) {
+        throw new InvariantViolationError('event date must be after or equal to birthDate');
+      }
+      if (event.type === 'BURIAL' && props.deathDate && event.date.isCertainlyBefore(props.deathDate)) {
+        throw new InvariantViolationError('burial date must be after or equal to deathDate');
+      }
+    }
   }
 
-  withUpdates(updates: Partial<PersonProps>): Person {
+  /**
+   * Returns a new Person with the given fields replaced.
+   * `undefined` keeps the current value; `null` clears an optional field.
+   */
+  withUpdates(updates: PersonUpdates): Person {
     return new Person({
       personId: this.personId,
       name: updates.name ?? this.name,
+      names: updates.names !== undefined ? updates.names : this.names,
       gender: updates.gender ?? this.gender,
-      birthDate: updates.birthDate ?? this.birthDate,
-      birthPlace: updates.birthPlace ?? this.birthPlace,
-      deathDate: updates.deathDate ?? this.deathDate,
+      birthDate: updates.birthDate !== undefined ? updates.birthDate : this.birthDate,
+      birthPlace: updates.birthPlace !== undefined ? updates.birthPlace : this.birthPlace,
+      birthPlaceId: updates.birthPlaceId !== undefined ? updates.birthPlaceId : this.birthPlaceId,
+      deathDate: updates.deathDate !== undefined ? updates.deathDate : this.deathDate,
+      events: updates.events !== undefined ? updates.events : this.events,
     });
   }
 }
@@ -0,0 +1,211 @@
+import { InvariantViolationError } from './errors';
+import { gedcomLines, gedcomStructure, type GedcomStructure } from './gedcom-writer';
+
+/**
+ * Place value object.
+ *
+ * An entry in a tree's gazetteer: a country, a region, a town, a village or
+ * a site such as a cemetery, placed under its parent (Tarim under
+ * Hadramaut under Yemen). Besides its name it keeps the names it is also
+ * known by, in other scripts (تريم) or from other times (Batavia for
+ * Jakarta), and optional coordinates. Persons and events refer to places
+ * by id so that each spelling counts as one place.
+ */
+
+export type PlaceType = 'COUNTRY' | 'REGION' | 'DISTRICT' | 'CITY' | 'VILLAGE' | 'SITE' | 'OTHER';
+
+export const PLACE_TYPES: PlaceType[] = ['COUNTRY', 'REGION', 'DISTRICT', 'CITY', 'VILLAGE', 'SITE', 'OTHER'];
+
+export interface PlaceName {
+  name: string;
+  script?: string | null; // ISO 15924 code: Arab, Jawi is written as Arab
+  historical?: boolean; // a former name
+}
+
+export interface PlaceProps {
+  placeId: string;
+  name: string;
+  type?: PlaceType | null;
+  parentId?: string | null;
+  alternateNames?: PlaceName[] | null;
+  latitude?: number | null; // decimal degrees, north positive
+  longitude?: number | null; // decimal degrees, east positive
+}
+
+/**
+ * Partial update: `undefined` keeps the current value, `null` clears it.
+ * `alternateNames` replaces the names as a whole.
+ */
+export type PlaceUpdates = Partial<Omit<PlaceProps, 'placeId'>>;
+
+export type StoredPlace = PlaceProps;
+
+export interface PlaceJSON {
+  placeId: string;
+  name: string;
+  type: PlaceType | null;
+  parentId: string | null;
+  alternateNames: Required<PlaceName>[];
+  latitude: number | null;
+  longitude: number | null;
+}
+
+const MAX_NAME_LENGTH = 120;
+const MAX_ALTERNATE_NAMES = 50;
+
+/**
+ * Form used to compare names: Unicode-normalized, case-folded, single
+ * spaces, so that "Tarim" and " TARIM " are the same name.
+ */
+export function normalizePlaceName(name: string): string {
+  return name.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export class Place {
+  readonly placeId: string;
+  readonly name: string;
+  readonly type: PlaceType | null;
+  readonly parentId: string | null;
+  readonly alternateNames: Required<PlaceName>[];
+  readonly latitude: number | null;
+  readonly longitude: number | null;
+
+  private constructor(props: PlaceProps) {
+    this.placeId = props.placeId?.trim();
+    this.name = props.name?.trim().replace(/\s+/g, ' ');
+    this.type = props.type ?? null;
+    this.parentId = props.parentId?.trim() || null;
+    this.alternateNames = (props.alternateNames ?? []).map((alt) => ({
+      name: alt.name?.trim().replace(/\s+/g, ' '),
+      script: alt.script?.trim() || null,
+      historical: alt.historical === true,
+    }));
+    this.latitude = props.latitude ?? null;
+    this.longitude = props.longitude ?? null;
+    this.validate();
+  }
+
+  static create(props: PlaceProps): Place {
+    return new Place(props);
+  }
+
+  static fromStored(stored: StoredPlace): Place {
+    return new Place(stored);
+  }
+
+  get hasCoordinates(): boolean {
+    return this.latitude !== null && this.longitude !== null;
+  }
+
+  /** True when `name` is the name of the place or one of its other names */
+  isNamed(name: string): boolean {
+    const wanted = normalizePlaceName(name);
+    return [this.name, ...this.alternateNames.map((alt) => alt.name)].some((n) => normalizePlaceName(n) === wanted);
+  }
+
+  withUpdates(updates: PlaceUpdates): Place {
+    const keep = <K extends keyof PlaceUpdates>(key: K): PlaceProps[K] =>
+      updates[key] !== undefined ? updates[key] : this[key];
+    return new Place({
+      placeId: this.placeId,
+      name: keep('name')!,
+      type: keep('type'),
+      parentId: keep('parentId'),
+      alternateNames: keep('alternateNames'),
+      latitude: keep('latitude'),
+      longitude: keep('longitude'),
+    });
+  }
+
+  /**
+   * Adds names the place is also known by, skipping its own name and the
+   * names it already has.
+   */
+  withAlternateNames(names: readonly PlaceName[]): Place {
+    const added: PlaceName[] = [];
+    for (const alt of names) {
+      if (this.isNamed(alt.name) || added.some((a) => normalizePlaceName(a.name) === normalizePlaceName(alt.name))) {
+        continue;
+      }
+      added.push(alt);
+    }
+    return this.withUpdates({ alternateNames: [...this.alternateNames, ...added] });
+  }
+
+  /**
+   * GEDCOM 5.5.1 MAP structure under a PLAC at `level`.
+   */
+  toGedcomMapLines(level: number): string[] {
+    return this.toGedcomMapStructures().flatMap((map) => gedcomLines(map, level));
+  }
+
+  /**
+   * GEDCOM MAP structure under a PLAC, the same in 5.5.1 and 7.0: LATI and
+   * LONG as N/S and E/W followed by decimal degrees. None without
+   * coordinates.
+   */
+  toGedcomMapStructures(): GedcomStructure[] {
+    if (!this.hasCoordinates) return [];
+    const lat = `${this.latitude! < 0 ? 'S' : 'N'}${Math.abs(this.latitude!)}`;
+    const long = `${this.longitude! < 0 ? 'W' : 'E'}${Math.abs(this.longitude!)}`;
+    return [gedcomStructure('MAP', null, [gedcomStructure('LATI', lat), gedcomStructure('LONG', long)])];
+  }
+
+  toProps(): PlaceProps {
+    return {
+      placeId: this.placeId,
+      name: this.name,
+      type: this.type,
+      parentId: this.parentId,
+      alternateNames: this.alternateNames.map((alt) => ({ ...alt })),
+      latitude: this.latitude,
+      longitude: this.longitude,
+    };
+  }
+
+  toStored(): StoredPlace {
+    return this.toProps();
+  }
+
+  toJSON(): PlaceJSON {
+    return this.toProps() as PlaceJSON;
+  }
+
+  private validate(): void {
+    if (!this.placeId) {
+      throw new InvariantViolationError('placeId is required');
+    }
+    if (!this.name || this.name.length > MAX_NAME_LENGTH) {
+      throw new InvariantViolationError(`place name must be 1-${MAX_NAME_LENGTH} chars`);
+    }
+    if (this.name.includes(',')) {
+      throw new InvariantViolationError('place name cannot contain a comma; use the parent place for the region');
+    }
+    if (this.type !== null && !PLACE_TYPES.includes(this.type)) {
+      throw new InvariantViolationError('place type is invalid');
+    }
+    if (this.parentId === this.placeId) {
+      throw new InvariantViolationError('a place cannot be its own parent');
+    }
+    if (this.alternateNames.length > MAX_ALTERNATE_NAMES) {
+      throw new InvariantViolationError(`a place can have at most ${MAX_ALTERNATE_NAMES} other names`);
+    }
+    for (const alt of this.alternateNames) {
+      if (!alt.name || alt.name.length > MAX_NAME_LENGTH) {
+        throw new InvariantViolationError(`place name must be 1-${MAX_NAME_LENGTH} chars`);
+      }
+      if (alt.script && !/^[A-Z][a-z]{3}$/.test(alt.script)) {
+        throw new InvariantViolationError('script must be an ISO 15924 code such as Arab or Latn');
+      }
+    }
+    if ((this.latitude === null) !== (this.longitude === null)) {
+      throw new InvariantViolationError('latitude and longitude are given together');
+    }
+    if (this.latitude !== null && !(Number.isFinite(this.latitude) && Math.abs(this.latitude) <= 90)) {
+      throw new InvariantViolationError('latitude must be between -90 and 90');
+    }
+    if (this.longitude !== null && !(Number.isFinite(this.longitude) && Math.abs(this.longitude) <= 180)) {
+      throw new InvariantViolationError('longitude must be between -180 and 180');
+    }
+  }
+}
@@ -2,10 +2,28 @@ import { InvalidRelationshipShapeError } from './errors';
 
 export type RelationType = 'PARENT_CHILD' | 'SPOUSE';
 
+/**
+ * How a parent is related to a child. BIOLOGICAL is the default for edges
+ * recorded before subtypes existed. MILK links a wet-nurse (or her husband,
+ * whose milk it was) to the child she nursed: milk kinship (raḍāʿa).
+ */
+export type ParentChildType = 'BIOLOGICAL' | 'ADOPTIVE' | 'STEP' | 'FOSTER' | 'GUARDIAN' | 'MILK';
+
+export const PARENT_CHILD_TYPES: ParentChildType[] = ['BIOLOGICAL', 'ADOPTIVE', 'STEP', 'FOSTER', 'GUARDIAN', 'MILK'];
+
+/**
+ * Maximum parents per child for each subtype; subtypes not listed are unlimited.
+ */
+export const PARENT_LIMITS: Partial<Record<ParentChildType, number>> = {
+  BIOLOGICAL: 2,
+  ADOPTIVE: 2,
+};
+
 export interface RelationshipProps {
   relationType: RelationType;
   parentId?: string | null;
   childId?: string | null;
+  parentChildType?: ParentChildType | null;
   spouse1Id?: string | null;
   spouse2Id?: string | null;
 }
@@ -14,6 +32,7 @@ export class Relationship {
   readonly relationType: RelationType;
   readonly parentId: string | null;
   readonly childId: string | null;
+  readonly parentChildType: ParentChildType | null;
   readonly spouse1Id: string | null;
   readonly spouse2Id: string | null;
 
@@ -21,15 +40,19 @@ export class Relationship {
     this.relationType = props.relationType;
     this.parentId = props.parentId ?? null;
     this.childId = props.childId ?? null;
+    this.parentChildType = props.parentChildType ?? null;
     this.spouse1Id = props.spouse1Id ?? null;
     this.spouse2Id = props.spouse2Id ?? null;
   }
 
-  static parentChild(parentId: string, childId: string): Relationship {
+  static parentChild(parentId: string, childId: string, type: ParentChildType = 'BIOLOGICAL'): Relationship {
     if (!parentId || !childId || parentId === childId) {
       throw new InvalidRelationshipShapeError('Invalid parent-child relationship');
     }
-    return new Relationship({ relationType: 'PARENT_CHILD', parentId, childId });
+    if (!PARENT_CHILD_TYPES.includes(type)) {
+      throw new InvalidRelationshipShapeError(`parent-child type ${type} is invalid`);
+    }
+    return new Relationship({ relationType: 'PARENT_CHILD', parentId, childId, parentChildType: type });
   }
 
   static spouse(a: string, b: string): Relationship {
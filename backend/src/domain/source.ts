@@ -0,0 +1,134 @@
+import { InvariantViolationError } from './errors';
+import { gedcomLines, gedcomStructure, type GedcomStructure } from './gedcom-writer';
+
+/**
+ * Source value object.
+ *
+ * Where facts in a tree come from: a register, a family manuscript (a
+ * salasilah kept by the family), a gravestone, an interview. Scoped to a
+ * tree and cited from persons, events and relationships (see Citation).
+ */
+
+export interface SourceProps {
+  sourceId: string;
+  title: string;
+  author?: string | null;
+  repository?: string | null; // where it is kept: an archive, a library, a family
+  reference?: string | null; // call number or manuscript reference within the repository
+}
+
+/**
+ * Partial update: `undefined` keeps the current value, `null` clears it.
+ */
+export type SourceUpdates = Partial<Omit<SourceProps, 'sourceId'>>;
+
+export interface StoredSource {
+  sourceId: string;
+  title: string;
+  author?: string | null;
+  repository?: string | null;
+  reference?: string | null;
+}
+
+const MAX_TITLE_LENGTH = 500;
+const MAX_TEXT_LENGTH = 255;
+
+export class Source {
+  readonly sourceId: string;
+  readonly title: string;
+  readonly author: string | null;
+  readonly repository: string | null;
+  readonly reference: string | null;
+
+  private constructor(props: SourceProps) {
+    this.sourceId = props.sourceId?.trim();
+    this.title = props.title?.trim();
+    this.author = props.author?.trim() || null;
+    this.repository = props.repository?.trim() || null;
+    this.reference = props.reference?.trim() || null;
+    this.validate();
+  }
+
+  static create(props: SourceProps): Source {
+    return new Source(props);
+  }
+
+  static fromStored(stored: StoredSource): Source {
+    return new Source(stored);
+  }
+
+  withUpdates(updates: SourceUpdates): Source {
+    const keep = <K extends keyof SourceUpdates>(key: K): SourceProps[K] =>
+      updates[key] !== undefined ? updates[key] : this[key];
+    return new Source({
+      sourceId: this.sourceId,
+      title: keep('title')!,
+      author: keep('author'),
+      repository: keep('repository'),
+      reference: keep('reference'),
+    });
+  }
+
+  /**
+   * GEDCOM 5.5.1 source record.
+   */
+  toGedcomLines(xref: string): string[] {
+    return gedcomLines(this.toGedcomRecord(xref), 0);
+  }
+
+  /**
+   * GEDCOM source record. The repository has no record of its own: it is
+   * written as a REPO pointing to nothing (a bare REPO in 5.5.1, @VOID@ in
+   * 7.0) with the name as a note and the reference as its call number.
+   */
+  toGedcomRecord(xref: string): GedcomStructure {
+    const repository: GedcomStructure = {
+      tag: 'REPO',
+      pointer: null,
+      children: [
+        ...(this.repository ? [gedcomStructure('NOTE', this.repository)] : []),
+        ...(this.reference ? [gedcomStructure('CALN', this.reference)] : []),
+      ],
+    };
+    return {
+      tag: 'SOUR',
+      xref,
+      children: [
+        gedcomStructure('TITL', this.title),
+        ...(this.author ? [gedcomStructure('AUTH', this.author)] : []),
+        ...(this.repository || this.reference ? [repository] : []),
+      ],
+    };
+  }
+
+  toStored(): StoredSource {
+    return {
+      sourceId: this.sourceId,
+      title: this.title,
+      author: this.author,
+      repository: this.repository,
+      reference: this.reference,
+    };
+  }
+
+  toJSON(): StoredSource {
+    return this.toStored();
+  }
+
+  private validate(): void {
+    if (!this.sourceId) {
+      throw new InvariantViolationError('sourceId is required');
+    }
+    if (!this.title) {
+      throw new InvariantViolationError('source title is required');
+    }
+    if (this.title.length > MAX_TITLE_LENGTH) {
+      throw new InvariantViolationError(`source title must be at most ${MAX_TITLE_LENGTH} chars`);
+    }
+    for (const text of [this.author, this.repository, this.reference]) {
+      if (text && text.length > MAX_TEXT_LENGTH) {
+        throw new InvariantViolationError('author, repository and reference must be at most 255 chars');
+      }
+    }
+  }
+}
@@ -0,0 +1,375 @@
+import { DuplicateRelationshipError, InvariantViolationError } from './errors';
+import { GenealogicalDate } from './genealogical-date';
+import { DUPLICATE_SIMILARITY, personSimilarity } from './person-match';
+import type { GenealogyGraph, PersonProps } from './types';
+
+/**
+ * Tree JSON import.
+ *
+ * Reads the tree data written by the export dialog (version 1.0: the tree,
+ * its persons and the relationships between them) into a genealogy graph
+ * through the graph's own invariant checks. A parent-child relationship
+ * runs from personA (the parent) to personB (the child) and is biological.
+ *
+ * Each person is first matched against the persons the graph held before
+ * the import (see person-match). A person found there is not added again:
+ * its relationships attach to the person already in the tree, which is
+ * left as it was (skip), given the details it lacks (merge) or given the
+ * file's details (replace: null clears a field, an absent one is kept).
+ * Each person in the tree matches at most one person of the file. Other
+ * persons keep the file's id, with characters other than letters, digits,
+ * _ and - replaced and a suffix (-2, -3, ...) when the graph has the id.
+ *
+ * A row that cannot be read (no id or name, an unknown gender, a date that
+ * cannot be read, a relationship to a person not in the file) or that the
+ * graph refuses is rejected, with its row and field. A field the tree has
+ * no place for, and a relationship the tree already records, are ignored
+ * and listed as well. A file that is not tree JSON at all throws.
+ *
+ * Adds to (and, for merge and replace, updates) the given graph and saves
+ * nothing; the caller decides whether the import stands.
+ */
+
+export type DuplicateHandling = 'skip' | 'merge' | 'replace';
+
+export const DUPLICATE_HANDLINGS: DuplicateHandling[] = ['skip', 'merge', 'replace'];
+
+export interface TreeJsonIssue {
+  row: number; // 1-based, in the list the field belongs to
+  field: string; // persons.birthDate, relationships.personBId
+  message: string; // names the row: "person I3: birth date "31 FEB 1890" cannot be read: ..."
+}
+
+export interface TreeJsonDuplicate {
+  importId: string; // the id in the file
+  importName: string;
+  existingId: string; // the person already in the tree
+  existingName: string;
+  similarity: number; // 0-1
+}
+
+export interface TreeJsonImport {
+  treeName: string | null; // the tree's name in the file
+  personIds: string[]; // the persons added, in file order
+  skipped: string[]; // persons already in the tree, left as they were
+  merged: string[]; // persons already in the tree, updated from the file
+  duplicates: TreeJsonDuplicate[];
+  rejected: TreeJsonIssue[]; // unreadable, or refused by the graph's rules
+  ignored: TreeJsonIssue[]; // with no place in the graph, or already there
+}
+
+export const TREE_JSON_FILE_EXTENSIONS = ['.json'];
+
+const TREE_JSON_VERSION = '1.0';
+const GENDERS: Array<PersonProps['gender']> = ['MALE', 'FEMALE', 'UNKNOWN'];
+const RELATIONSHIP_TYPES = ['parent-child', 'spouse'];
+const PERSON_FIELDS = ['id', 'name', 'gender', 'birthDate', 'deathDate', 'birthPlace'];
+const RELATIONSHIP_FIELDS = ['id', 'type', 'personAId', 'personBId'];
+
+// A person as the file has it: undefined when a field is absent, null when it is cleared
+interface FilePerson {
+  id: string;
+  name: string;
+  gender: PersonProps['gender'];
+  birthDate?: GenealogicalDate | null;
+  deathDate?: GenealogicalDate | null;
+  birthPlace?: string | null;
+}
+
+type Report = (row: number, field: string, message: string) => void;
+
+export function isTreeJsonFile(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return TREE_JSON_FILE_EXTENSIONS.some((extension) => lower.endsWith(extension));
+}
+
+/**
+ * Read a tree JSON file into `graph`, which may already hold persons: the
+ * imported ones are added beside them, or matched to them by
+ * `handleDuplicates`. Throws when the file is not tree JSON at all;
+ * everything else is reported in the result.
+ */
+export function importTreeJson(
+  bytes: Uint8Array,
+  graph: GenealogyGraph,
+  handleDuplicates: DuplicateHandling = 'skip',
+): TreeJsonImport {
+  const data = readTreeJson(bytes);
+  const result: TreeJsonImport = {
+    treeName: treeName(data),
+    personIds: [],
+    skipped: [],
+    merged: [],
+    duplicates: [],
+    rejected: [],
+    ignored: [],
+  };
+  const reject: Report = (row, field, message) => result.rejected.push({ row, field, message });
+  const ignore: Report = (row, field, message) => result.ignored.push({ row, field, message });
+
+  // Persons
+  const candidates = graph.getPersonsSnapshot(); // the tree before the import
+  const personIds = new Map<string, string>(); // id in the file -> person id in the graph
+  const fileIds = new Set<string>();
+  (data.persons as unknown[]).forEach((entry, i) => {
+    const row = i + 1;
+    const id = isRecord(entry) && typeof entry.id === 'string' ? entry.id.trim() : '';
+    if (fileIds.has(id)) {
+      reject(row, 'persons.id', `person ${id}: the id is used by an earlier person`);
+      return;
+    }
+    if (id) fileIds.add(id);
+    const person = readPerson(entry, row, reject, ignore);
+    if (!person) return;
+
+    const match = bestMatch(person, candidates);
+    if (match) {
+      const { existing, similarity } = match;
+      candidates.splice(candidates.indexOf(existing), 1);
+      try {
+        if (handleDuplicates !== 'skip') {
+          graph.updatePerson(existing.personId, duplicateUpdates(person, existing, handleDuplicates));
+        }
+      } catch (err) {
+        reject(
+          row,
+          'persons',
+          `person ${person.id}: cannot ${handleDuplicates} into ${existing.personId}: ${reason(err)}`,
+        );
+        return;
+      }
+      result.duplicates.push({
+        importId: person.id,
+        importName: person.name,
+        existingId: existing.personId,
+        existingName: existing.name,
+        similarity,
+      });
+      (handleDuplicates === 'skip' ? result.skipped : result.merged).push(existing.personId);
+      personIds.set(person.id, existing.personId);
+      return;
+    }
+
+    const personId = uniqueId(person.id, (id) => graph.getPerson(id) !== null);
+    try {
+      graph.addPerson({
+        personId,
+        name: person.name,
+        gender: person.gender,
+        birthDate: person.birthDate ?? null,
+        deathDate: person.deathDate ?? null,
+        birthPlace: person.birthPlace ?? null,
+      });
+      personIds.set(person.id, personId);
+      result.personIds.push(personId);
+    } catch (err) {
+      reject(row, 'persons', `person ${person.id}: ${reason(err)}`);
+    }
+  });
+
+  // Relationships
+  (data.relationships as unknown[]).forEach((entry, i) => {
+    const row = i + 1;
+    if (!isRecord(entry)) {
+      reject(row, 'relationships', `relationship in row ${row} is not an object`);
+      return;
+    }
+    let readable = true;
+    if (typeof entry.type !== 'string' || !RELATIONSHIP_TYPES.includes(entry.type)) {
+      reject(row, 'relationships.type', `relationship in row ${row}: type must be parent-child or spouse`);
+      readable = false;
+    }
+    const ends = (['personAId', 'personBId'] as const).map((field) => {
+      const value = entry[field];
+      const fileId = typeof value === 'string' ? value.trim() : '';
+      if (!fileId) {
+        reject(row, `relationships.${field}`, `relationship in row ${row}: ${field} is required`);
+      } else if (personIds.has(fileId)) {
+        return personIds.get(fileId)!;
+      } else if (fileIds.has(fileId)) {
+        reject(row, `relationships.${field}`, `relationship in row ${row}: person ${fileId} was not imported`);
+      } else {
+        reject(row, `relationships.${field}`, `relationship in row ${row}: ${fileId} is not a person in the file`);
+      }
+      return null;
+    });
+    for (const field of Object.keys(entry).filter((key) => !RELATIONSHIP_FIELDS.includes(key))) {
+      ignore(row, `relationships.${field}`, `relationship in row ${row}: ${field} is not imported`);
+    }
+    const [a, b] = ends;
+    if (!readable || !a || !b) return;
+
+    const label = `${entry.type} of ${entry.personAId} and ${entry.personBId}`;
+    try {
+      if (entry.type === 'parent-child') graph.addParentChildRelationship(a, b);
+      else graph.addSpouseRelationship(a, b);
+    } catch (err) {
+      if (err instanceof DuplicateRelationshipError) ignore(row, 'relationships', `${label}: already in the tree`);
+      else reject(row, 'relationships', `${label}: ${reason(err)}`);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * The tree's name in a tree JSON file, if it has one. Throws when the file
+ * is not tree JSON.
+ */
+export function treeJsonName(bytes: Uint8Array): string | null {
+  return treeName(readTreeJson(bytes));
+}
+
+function treeName(data: Record<string, unknown>): string | null {
+  const name = isRecord(data.tree) ? data.tree.name : null;
+  return typeof name === 'string' && name.trim() ? name.trim() : null;
+}
+
+/**
+ * The file as version 1.0 tree data, or a throw naming what it is not.
+ */
+function readTreeJson(bytes: Uint8Array): Record<string, unknown> {
+  if (bytes.length === 0) {
+    throw new InvariantViolationError('the file is empty');
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(new TextDecoder('utf-8').decode(bytes));
+  } catch (err) {
+    throw new InvariantViolationError(`the file is not JSON: ${reason(err)}`);
+  }
+  if (!isRecord(data)) {
+    throw new InvariantViolationError('the file is not tree data: it is not a JSON object');
+  }
+  if (data.version !== TREE_JSON_VERSION) {
+    throw new InvariantViolationError(`the file is not tree data version ${TREE_JSON_VERSION}`);
+  }
+  if (!Array.isArray(data.persons)) {
+    throw new InvariantViolationError('the file is not tree data: persons must be a list');
+  }
+  if (data.relationships !== undefined && !Array.isArray(data.relationships)) {
+    throw new InvariantViolationError('the file is not tree data: relationships must be a list');
+  }
+  return { ...data, relationships: data.relationships ?? [] };
+}
+
+/**
+ * A person row, or null when it cannot be read; every fault of the row is
+ * reported.
+ */
+function readPerson(entry: unknown, row: number, reject: Report, ignore: Report): FilePerson | null {
+  if (!isRecord(entry)) {
+    reject(row, 'persons', `person in row ${row} is not an object`);
+    return null;
+  }
+  const id = typeof entry.id === 'string' ? entry.id.trim() : '';
+  const label = id ? `person ${id}` : `person in row ${row}`;
+  let readable = true;
+  const fault = (field: string, message: string) => {
+    reject(row, `persons.${field}`, `${label}: ${message}`);
+    readable = false;
+  };
+
+  if (!id) fault('id', 'id is required');
+  const name = typeof entry.name === 'string' ? entry.name.trim() : '';
+  if (!name) fault('name', 'name is required');
+  const gender = entry.gender ?? 'UNKNOWN';
+  if (!GENDERS.includes(gender as PersonProps['gender'])) fault('gender', 'gender must be MALE, FEMALE or UNKNOWN');
+
+  const date = (field: 'birthDate' | 'deathDate'): GenealogicalDate | null | undefined => {
+    const value = entry[field];
+    if (value === undefined) return undefined;
+    if (value === null || value === '') return null;
+    if (typeof value !== 'string') {
+      fault(field, `${field} must be text`);
+      return undefined;
+    }
+    try {
+      return GenealogicalDate.parse(value);
+    } catch (err) {
+      fault(field, `${field === 'birthDate' ? 'birth' : 'death'} date "${value}" cannot be read: ${reason(err)}`);
+      return undefined;
+    }
+  };
+  const birthDate = date('birthDate');
+  const deathDate = date('deathDate');
+  const birthPlace = entry.birthPlace;
+  if (birthPlace !== undefined && birthPlace !== null && typeof birthPlace !== 'string') {
+    fault('birthPlace', 'birthPlace must be text');
+  }
+
+  for (const field of Object.keys(entry).filter((key) => !PERSON_FIELDS.includes(key))) {
+    ignore(row, `persons.${field}`, `${label}: ${field} is not imported`);
+  }
+  if (!readable) return null;
+  return {
+    id,
+    name,
+    gender: gender as PersonProps['gender'],
+    birthDate,
+    deathDate,
+    birthPlace: typeof birthPlace === 'string' ? birthPlace.trim() || null : (birthPlace as null | undefined),
+  };
+}
+
+/**
+ * The person of the tree most like `person`, when alike enough; the first
+ * in the tree on a tie.
+ */
+function bestMatch(
+  person: FilePerson,
+  candidates: PersonProps[],
+): { existing: PersonProps; similarity: number } | null {
+  let best: { existing: PersonProps; similarity: number } | null = null;
+  for (const existing of candidates) {
+    const similarity = personSimilarity(
+      { name: person.name, gender: person.gender, birthDate: person.birthDate ?? null },
+      existing,
+    );
+    if (similarity >= DUPLICATE_SIMILARITY && (!best || similarity > best.similarity)) {
+      best = { existing, similarity };
+    }
+  }
+  return best;
+}
+
+/**
+ * The updates a duplicate makes to the person already in the tree: merge
+ * fills what the tree lacks, replace writes what the file has.
+ */
+function duplicateUpdates(
+  person: FilePerson,
+  existing: PersonProps,
+  handling: 'merge' | 'replace',
+): Partial<Omit<PersonProps, 'personId'>> {
+  if (handling === 'replace') {
+    return {
+      name: person.name,
+      gender: person.gender,
+      ...(person.birthDate !== undefined ? { birthDate: person.birthDate } : {}),
+      ...(person.deathDate !== undefined ? { deathDate: person.deathDate } : {}),
+      ...(person.birthPlace !== undefined ? { birthPlace: person.birthPlace } : {}),
+    };
+  }
+  return {
+    ...(existing.gender === 'UNKNOWN' ? { gender: person.gender } : {}),
+    ...(!existing.birthDate && person.birthDate ? { birthDate: person.birthDate } : {}),
+    ...(!existing.deathDate && person.deathDate ? { deathDate: person.deathDate } : {}),
+    ...(!existing.birthPlace && person.birthPlace ? { birthPlace: person.birthPlace } : {}),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function uniqueId(fileId: string, taken: (id: string) => boolean): string {
+  const base = fileId.replace(/[^A-Za-z0-9_-]/g, '_');
+  let id = base;
+  for (let n = 2; taken(id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+function reason(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
@@ -1,13 +1,33 @@
 // Domain placeholder contracts to allow application layer to compile.
 // Replace with real domain implementations later. Keep this file framework-agnostic.
+import type { GenealogicalDate } from './genealogical-date';
+import type { PersonName } from './person-name';
+import type { NasabChain } from './nasab';
+import type { Kinship } from './kinship';
+import type { KinLocale } from './kin-terms';
+import type { KinPathOptions, KinPathStep } from './kin-path';
+import type { CommonAncestor, PedigreeCollapse } from './pedigree';
+import type { Inbreeding, Relatedness } from './consanguinity';
+import type { Mahram } from './mahram';
+import type { ParentChildType } from './relationship';
+import type { Marriage, MarriageProps, MarriageUpdates } from './marriage';
+import type { Family, FamilyUnit, Siblings } from './family';
+import type { LifeEvent, LifeEventProps, LifeEventUpdates } from './life-event';
+import type { Source, SourceProps, SourceUpdates } from './source';
+import type { Citation, CitationProps, CitationUpdates } from './citation';
+import type { MediaObject, MediaProps, MediaUpdates } from './media';
+import type { Place, PlaceProps, PlaceUpdates } from './place';
 
 export interface PersonProps {
   personId: string;
   name: string;
+  names?: PersonName[] | null;
   gender: 'MALE' | 'FEMALE' | 'UNKNOWN';
-  birthDate?: Date | null;
+  birthDate?: GenealogicalDate | null;
   birthPlace?: string | null;
-  deathDate?: Date | null;
+  birthPlaceId?: string | null;
+  deathDate?: GenealogicalDate | null;
+  events?: LifeEvent[] | null;
 }
 
 export type ViewMode = 'VERTICAL' | 'HORIZONTAL' | 'LIST';
@@ -36,20 +56,74 @@ export interface GenealogyGraph {
   readonly treeId: string;
 
   addPerson(props: PersonProps): void;
-  addParentChildRelationship(parentId: string, childId: string): void;
-  addSpouseRelationship(spouseA: string, spouseB: string): void;
+  updatePerson(personId: string, updates: Partial<Omit<PersonProps, 'personId'>>): PersonProps;
+  addParentChildRelationship(parentId: string, childId: string, type?: ParentChildType): void;
+  addSpouseRelationship(spouseA: string, spouseB: string, marriage?: MarriageProps): void;
+  updateSpouseRelationship(spouseA: string, spouseB: string, updates: MarriageUpdates): Marriage;
+  createFamily(parent1Id: string, parent2Id?: string | null, familyId?: string): string;
+  addChildToFamily(familyId: string, childId: string, type?: ParentChildType, position?: number): void;
+  addPersonEvent(personId: string, props: Omit<LifeEventProps, 'eventId'> & { eventId?: string }): LifeEvent;
+  updatePersonEvent(personId: string, eventId: string, updates: LifeEventUpdates): LifeEvent;
+  removePersonEvent(personId: string, eventId: string): LifeEvent;
+  addSource(props: Omit<SourceProps, 'sourceId'> & { sourceId?: string }): Source;
+  updateSource(sourceId: string, updates: SourceUpdates): Source;
+  removeSource(sourceId: string): Source;
+  addCitation(props: Omit<CitationProps, 'citationId'> & { citationId?: string }): Citation;
+  updateCitation(citationId: string, updates: CitationUpdates): Citation;
+  removeCitation(citationId: string): Citation;
+  addMedia(props: Omit<MediaProps, 'mediaId'> & { mediaId?: string }): MediaObject;
+  updateMedia(mediaId: string, updates: MediaUpdates): MediaObject;
+  removeMedia(mediaId: string): MediaObject;
+  addPlace(props: Omit<PlaceProps, 'placeId'> & { placeId?: string }): Place;
+  updatePlace(placeId: string, updates: PlaceUpdates): Place;
+  renamePlace(placeId: string, name: string, keepFormerName?: boolean): Place;
+  mergePlaces(placeId: string, intoPlaceId: string): Place;
+  removePlace(placeId: string): Place;
   removeRelationship(personId1: string, personId2: string): void;
   removePerson(personId: string): void;
 
   getPerson(personId: string): PersonProps | null;
   getAncestors(personId: string): string[];
   getDescendants(personId: string): string[];
+  getNasab(personId: string, maxDepth: number): NasabChain;
+  getPersonEvents(personId: string): LifeEvent[];
+  getPersonEvent(personId: string, eventId: string): LifeEvent | null;
+  getMarriage(spouseA: string, spouseB: string): Marriage | null;
+  getFamily(familyId: string): Family | null;
+  getFamilies(): FamilyUnit[];
+  getSiblings(personId: string): Siblings;
+  getKinship(fromId: string, toId: string, locale?: KinLocale): Kinship;
+  getKinPath(fromId: string, toId: string, options?: KinPathOptions): KinPathStep[] | null;
+  getMahram(fromId: string, toId: string): Mahram;
+  getPedigreeCollapse(personId: string): PedigreeCollapse;
+  getCommonAncestors(personIds: string[]): CommonAncestor[];
+  getRelatedness(aId: string, bId: string): Relatedness;
+  getInbreeding(personId: string): Inbreeding;
+  getSource(sourceId: string): Source | null;
+  getSources(): Source[];
+  getCitation(citationId: string): Citation | null;
+  getCitations(): Citation[];
+  getPersonCitations(personId: string): Citation[];
+  getMedia(mediaId: string): MediaObject | null;
+  getMediaObjects(): MediaObject[];
+  getPersonMedia(personId: string): MediaObject[];
+  getPortrait(personId: string): MediaObject | null;
+  getPlace(placeId: string): Place | null;
+  getPlaces(): Place[];
+  getPlaceFullName(placeId: string): string;
+  findPlacesByName(name: string): Place[];
+  getPlacePersonIds(placeId: string, includeSubPlaces?: boolean): string[];
   renderTree(rootPersonId: string, viewMode: ViewMode): RenderedTree;
 
   // Persistence snapshots
   getPersonsSnapshot(): PersonProps[];
-  getParentChildEdgesSnapshot(): Array<{ parentId: string; childId: string }>;
-  getSpouseEdgesSnapshot(): Array<{ spouse1Id: string; spouse2Id: string }>;
+  getParentChildEdgesSnapshot(): Array<{ parentId: string; childId: string; type: ParentChildType }>;
+  getSpouseEdgesSnapshot(): Array<{ spouse1Id: string; spouse2Id: string; marriage: Marriage }>;
+  getFamiliesSnapshot(): Family[];
+  getSourcesSnapshot(): Source[];
+  getCitationsSnapshot(): Citation[];
+  getMediaSnapshot(): MediaObject[];
+  getPlacesSnapshot(): Place[];
 }
 
 export interface GenealogyGraphFactory {
@@ -1,5 +1,15 @@
 import type { GenealogyGraph, Member, UserRole } from '../../domain/types';
 import { GenealogyGraph as GenealogyGraphImpl } from '../../domain/genealogy-graph';
+import { GenealogicalDate, type GenealogicalDateProps } from '../../domain/genealogical-date';
+import { PersonName, type PersonNameProps } from '../../domain/person-name';
+import { LifeEvent, type StoredLifeEvent } from '../../domain/life-event';
+import type { ParentChildType } from '../../domain/relationship';
+import { Marriage, type StoredMarriage } from '../../domain/marriage';
+import type { StoredFamily } from '../../domain/family';
+import type { StoredSource } from '../../domain/source';
+import type { StoredCitation } from '../../domain/citation';
+import { MediaObject, type StoredMedia } from '../../domain/media';
+import type { StoredPlace } from '../../domain/place';
 import type { Collection, MongoClient } from 'mongodb';
 
 interface FamilyTreeDocument {
@@ -8,13 +18,22 @@ interface FamilyTreeDocument {
   persons: Array<{
     personId: string;
     name: string;
+    names?: PersonNameProps[] | null; // absent on legacy documents
     gender: 'MALE' | 'FEMALE' | 'UNKNOWN';
-    birthDate?: Date | null;
+    // Legacy documents store plain Dates; current documents store GenealogicalDateProps
+    birthDate?: Date | GenealogicalDateProps | null;
     birthPlace?: string | null;
-    deathDate?: Date | null;
+    birthPlaceId?: string | null;
+    deathDate?: Date | GenealogicalDateProps | null;
+    events?: StoredLifeEvent[] | null; // absent on legacy documents
   }>;
-  parentChildEdges: Array<{ parentId: string; childId: string }>;
-  spouseEdges: Array<{ spouse1Id: string; spouse2Id: string }>;
+  parentChildEdges: Array<{ parentId: string; childId: string; type?: ParentChildType }>; // type absent on legacy documents
+  spouseEdges: Array<{ spouse1Id: string; spouse2Id: string } & StoredMarriage>; // marriage fields absent on legacy documents
+  families?: StoredFamily[]; // absent on legacy documents
+  sources?: StoredSource[]; // absent on legacy documents
+  citations?: StoredCitation[]; // absent on legacy documents
+  media?: StoredMedia[]; // absent on legacy documents
+  places?: StoredPlace[]; // absent on legacy documents
   ownerId: string;
   members: Array<{ userId: string; role: UserRole }>;
   version: number;
@@ -45,26 +64,55 @@ export class MongoGenealogyGraphRepository implements GenealogyGraphRepository {
     // Reconstruct aggregate using domain methods (fail-fast on invalid data)
     const aggregate = new GenealogyGraphImpl(treeId);
 
-    // Add all persons first (relationships require persons to exist)
+    // Add places first, parents before the places below them (births and events refer to them)
+    for (const place of doc.places ?? []) {
+      aggregate.addPlace(place);
+    }
+
+    // Add all persons (relationships require persons to exist)
     for (const person of doc.persons) {
       aggregate.addPerson({
         personId: person.personId,
         name: person.name,
+        names: (person.names ?? []).map((name) => PersonName.create(name)),
         gender: person.gender,
-        birthDate: person.birthDate,
+        birthDate: GenealogicalDate.from(person.birthDate),
         birthPlace: person.birthPlace,
-        deathDate: person.deathDate,
+        birthPlaceId: person.birthPlaceId,
+        deathDate: GenealogicalDate.from(person.deathDate),
+        events: (person.events ?? []).map((event) => LifeEvent.fromStored(event)),
       });
     }
 
-    // Add parent-child relationships (enforces: person exists, no cycle, <=2 parents, age consistency)
+    // Add parent-child relationships (enforces: person exists, no cycle, parent limit per type, age consistency)
     for (const edge of doc.parentChildEdges) {
-      aggregate.addParentChildRelationship(edge.parentId, edge.childId);
+      aggregate.addParentChildRelationship(edge.parentId, edge.childId, edge.type ?? 'BIOLOGICAL');
+    }
+
+    // Add spouse relationships (enforces: persons exist, canonical ordering, no duplicates, distinct marriage orders)
+    for (const { spouse1Id, spouse2Id, ...marriage } of doc.spouseEdges) {
+      aggregate.addSpouseRelationship(spouse1Id, spouse2Id, Marriage.fromStored(marriage).toProps());
     }
 
-    // Add spouse relationships (enforces: persons exist, canonical ordering, no duplicates)
-    for (const edge of doc.spouseEdges) {
-      aggregate.addSpouseRelationship(edge.spouse1Id, edge.spouse2Id);
+    // Add families (enforces: parents and children exist, one family per union, children linked to every parent)
+    for (const family of doc.families ?? []) {
+      aggregate.createFamily(family.parent1Id, family.parent2Id, family.familyId);
+      for (const childId of family.childIds) {
+        aggregate.addChildToFamily(family.familyId, childId);
+      }
+    }
+
+    // Add sources, then citations (enforces: cited source and fact exist)
+    for (const source of doc.sources ?? []) {
+      aggregate.addSource(source);
+    }
+    for (const citation of doc.citations ?? []) {
+      aggregate.addCitation(citation);
+    }
+
+    // Add media (enforces: linked persons and events exist)
+    for (const media of doc.media ?? []) {
+      aggregate.addMedia(MediaObject.fromStored(media).toProps());
     }
 
     return aggregate;
@@ -74,9 +122,22 @@ export class MongoGenealogyGraphRepository implements GenealogyGraphRepository {
     const treeId = aggregate.treeId;
 
     // Obtain snapshots from aggregate
-    const personsSnapshot = aggregate.getPersonsSnapshot();
+    const personsSnapshot = aggregate.getPersonsSnapshot().map((p) => ({
+      ...p,
+      names: (p.names ?? []).map((name) => name.toProps()),
+      birthDate: p.birthDate?.toProps() ?? null,
+      deathDate: p.deathDate?.toProps() ?? null,
+      events: (p.events ?? []).map((event) => event.toStored()),
+    }));
     const parentChildEdges = aggregate.getParentChildEdgesSnapshot();
-    const spouseEdges = aggregate.getSpouseEdgesSnapshot();
+    const spouseEdges = aggregate
+      .getSpouseEdgesSnapshot()
+      .map(({ spouse1Id, spouse2Id, marriage }) => ({ spouse1Id, spouse2Id, ...marriage.toStored() }));
+    const families = aggregate.getFamiliesSnapshot().map((family) => family.toStored());
+    const sources = aggregate.getSourcesSnapshot().map((source) => source.toStored());
+    const citations = aggregate.getCitationsSnapshot().map((citation) => citation.toStored());
+    const media = aggregate.getMediaSnapshot().map((m) => m.toStored());
+    const places = aggregate.getPlacesSnapshot().map((place) => place.toStored());
 
     const now = new Date();
 
@@ -89,6 +150,11 @@ export class MongoGenealogyGraphRepository implements GenealogyGraphRepository {
       persons: personsSnapshot,
       parentChildEdges,
       spouseEdges,
+      families,
+      sources,
+      citations,
+      media,
+      places,
       ownerId: existing?.ownerId || '',
       members: existing?.members || [],
       version: existing ? existing.version + 1 : 1,
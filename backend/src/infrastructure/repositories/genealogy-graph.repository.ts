@@ -1,4 +1,14 @@
 import type { GenealogyGraph } from '../../domain/types';
+import type { GenealogicalDateProps } from '../../domain/genealogical-date';
+import type { PersonNameProps } from '../../domain/person-name';
+import type { StoredLifeEvent } from '../../domain/life-event';
+import type { ParentChildType } from '../../domain/relationship';
+import type { StoredMarriage } from '../../domain/marriage';
+import type { StoredFamily } from '../../domain/family';
+import type { StoredSource } from '../../domain/source';
+import type { StoredCitation } from '../../domain/citation';
+import type { StoredMedia } from '../../domain/media';
+import type { StoredPlace } from '../../domain/place';
 
 export interface GenealogyGraphRepository {
   findById(treeId: string): Promise<GenealogyGraph | null>;
@@ -8,13 +18,21 @@ export interface GenealogyGraphRepository {
     persons: Array<{
       personId: string;
       name: string;
+      names?: PersonNameProps[] | null;
       gender: 'MALE' | 'FEMALE' | 'UNKNOWN';
-      birthDate?: Date | null;
+      birthDate?: Date | GenealogicalDateProps | null;
       birthPlace?: string | null;
-      deathDate?: Date | null;
+      birthPlaceId?: string | null;
+      deathDate?: Date | GenealogicalDateProps | null;
+      events?: StoredLifeEvent[] | null;
     }>;
-    parentChildEdges: Array<{ parentId: string; childId: string }>;
-    spouseEdges: Array<{ spouse1Id: string; spouse2Id: string }>;
+    parentChildEdges: Array<{ parentId: string; childId: string; type?: ParentChildType }>;
+    spouseEdges: Array<{ spouse1Id: string; spouse2Id: string } & StoredMarriage>;
+    families?: StoredFamily[];
+    sources?: StoredSource[];
+    citations?: StoredCitation[];
+    media?: StoredMedia[];
+    places?: StoredPlace[];
     ownerId: string;
     members: Array<{ userId: string; role: 'OWNER' | 'EDITOR' | 'VIEWER' }>;
     version: number;
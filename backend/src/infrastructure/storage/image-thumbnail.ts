@@ -0,0 +1,23 @@
+import sharp = require('sharp');
+import type { ThumbnailGenerator } from './media-storage';
+
+export const THUMBNAIL_SIZE = 256; // px, longest side
+
+/**
+ * JPEG thumbnail of an image, at most THUMBNAIL_SIZE on its longest side,
+ * turned upright from its EXIF orientation. Images smaller than that are
+ * not enlarged.
+ */
+export const createImageThumbnail: ThumbnailGenerator = async (data, mimeType) => {
+  if (!mimeType.startsWith('image/')) return null;
+  try {
+    return await sharp(data)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .flatten({ background: '#ffffff' })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,4 @@
+export type { MediaStorage, ThumbnailGenerator } from './media-storage';
+export { LocalMediaStorage } from './local-media-storage';
+export { createImageThumbnail, THUMBNAIL_SIZE } from './image-thumbnail';
+export { createZipArchive, type ZipEntry } from './zip-archive';
@@ -0,0 +1,46 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { MediaStorage } from './media-storage';
+
+/**
+ * Media storage on the local filesystem: each key is a file path under
+ * `rootDir`. Keys resolving outside the root are refused.
+ */
+export class LocalMediaStorage implements MediaStorage {
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolve(key));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    }
+  }
+
+  private resolve(key: string): string {
+    const file = path.resolve(this.rootDir, key);
+    if (!key || !file.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`invalid media storage key: ${key}`);
+    }
+    return file;
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Where the bytes of media files live. The aggregate only records a key per
+ * file; implementations map keys to a filesystem, a bucket, etc.
+ *
+ * Keys are generated by the server, never taken from a request.
+ */
+export interface MediaStorage {
+  put(key: string, data: Buffer): Promise<void>;
+  /** null when nothing is stored under the key */
+  get(key: string): Promise<Buffer | null>;
+  /** Deleting a missing key is not an error */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Small preview of a file, or null when it has none (not an image, or an
+ * image that cannot be decoded).
+ */
+export type ThumbnailGenerator = (data: Buffer, mimeType: string) => Promise<Buffer | null>;
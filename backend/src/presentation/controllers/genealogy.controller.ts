@@ -1,6 +1,7 @@
 import {
   Controller,
   Post,
+  Put,
   Get,
   Delete,
   Body,
@@ -11,7 +12,11 @@ import {
   UseGuards,
   Req,
   Header,
+  StreamableFile,
+  UploadedFile,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 // Patch: declare global presence and activity stores for collaboration
 declare global {
   // eslint-disable-next-line no-var
@@ -39,14 +44,53 @@ import { AuthorizationPolicy } from '../../application/policies/authorization.po
 import {
   CreateFamilyTreeDto,
   CreatePersonDto,
+  UpdatePersonDto,
   EstablishParentChildDto,
   EstablishSpouseDto,
+  UpdateSpouseDto,
+  SpouseResponseDto,
+  CreateFamilyDto,
+  AddChildToFamilyDto,
+  FamilyResponseDto,
+  SiblingsResponseDto,
+  CreateLifeEventDto,
+  UpdateLifeEventDto,
+  LifeEventResponseDto,
+  CreateSourceDto,
+  UpdateSourceDto,
+  SourceResponseDto,
+  CreateCitationDto,
+  UpdateCitationDto,
+  CitationResponseDto,
+  UploadMediaDto,
+  UpdateMediaDto,
+  MediaResponseDto,
+  CreatePlaceDto,
+  UpdatePlaceDto,
+  RenamePlaceDto,
+  MergePlacesDto,
+  PlaceResponseDto,
   FamilyTreeCreatedDto,
+  ImportTreeDto,
+  ImportPersonsDto,
+  PersonsImportedDto,
+  PreviewTreeImportDto,
+  TreeImportPreviewDto,
+  TreeImportedDto,
   OperationSuccessDto,
   RemoveRelationshipDto,
   PersonResponseDto,
   AncestorsResponseDto,
   DescendantsResponseDto,
+  NasabResponseDto,
+  RelationshipResponseDto,
+  KinPathResponseDto,
+  MahramResponseDto,
+  InheritanceResponseDto,
+  CommonAncestorsResponseDto,
+  PedigreeCollapseResponseDto,
+  RelatednessResponseDto,
+  InbreedingResponseDto,
   RenderTreeResponseDto,
 } from '../dtos/genealogy.dto';
 import {
@@ -63,8 +107,19 @@ import {
   ParentLimitExceededError,
   AgeInconsistencyError,
   PersonHasRelationshipsError,
+  SourceInUseError,
+  PlaceInUseError,
   AuthorizationError,
 } from '../../domain/errors';
+import { GenealogicalDate } from '../../domain/genealogical-date';
+import { PersonName, normalizePrimaryName, type PersonNameProps } from '../../domain/person-name';
+import { MAX_MEDIA_SIZE, type MediaLink } from '../../domain/media';
+import { GEDCOM_VERSIONS, type GedcomVersion } from '../../domain/gedcom-writer';
+import { MAX_IMPORT_SIZE } from '../../application/commands/import-tree.command';
+import { IMPORT_PERSONS_MODES, type ImportPersonsMode } from '../../application/commands/import-persons.command';
+import { DUPLICATE_HANDLINGS, type DuplicateHandling } from '../../domain/tree-json-import';
+import { DEFAULT_NASAB_DEPTH, MAX_NASAB_DEPTH, NASAB_STYLES, type NasabStyle } from '../../domain/nasab';
+import { KIN_LOCALES, type KinLocale } from '../../domain/kin-terms';
 import { assertRateLimit } from '../../infrastructure/security/rate-limit';
 
 @Controller('api/trees')
@@ -165,41 +220,1131 @@ export class GenealogyController {
     return { limit, offset };
   }
 
+  /**
+   * Parse an optional date field from a request body.
+   * undefined = not provided, null/empty = clear, otherwise ISO 8601 or
+   * genealogical date text (e.g. "ABT 1890", "BEF 1750", "MAR 1823").
+   */
+  private parseOptionalDate(value: string | null | undefined, field: string): GenealogicalDate | null | undefined {
+    if (value === undefined) return undefined;
+    if (value === null || value === '') return null;
+    try {
+      return GenealogicalDate.parse(String(value));
+    } catch (err) {
+      throw new InvariantViolationError(`${field} is invalid`);
+    }
+  }
+
+  /**
+   * Parse an optional structured names list from a request body.
+   * undefined = not provided, null = clear.
+   */
+  private parseOptionalNames(value: PersonNameProps[] | null | undefined): PersonName[] | null | undefined {
+    if (value === undefined || value === null) return value;
+    if (!Array.isArray(value)) {
+      throw new InvariantViolationError('names must be an array');
+    }
+    return value.map((name) => PersonName.create(name));
+  }
+
+  /**
+   * Parse optional media links, given as an array or, in a multipart
+   * upload, as JSON text. undefined = not provided, null/empty = clear.
+   */
+  private parseOptionalMediaLinks(value: MediaLink[] | string | null | undefined): MediaLink[] | null | undefined {
+    if (value === undefined) return undefined;
+    if (value === null || value === '') return null;
+    let links: unknown = value;
+    if (typeof value === 'string') {
+      try {
+        links = JSON.parse(value);
+      } catch {
+        throw new InvariantViolationError('links must be a JSON array');
+      }
+    }
+    if (!Array.isArray(links) || links.some((link) => !link || typeof link !== 'object')) {
+      throw new InvariantViolationError('links must be an array of { personId, eventId?, primary? }');
+    }
+    return links as MediaLink[];
+  }
+
+  /**
+   * The uploaded file's own name, without any client path. Multipart
+   * parsing reads plain filename parameters as latin1; browsers send them
+   * as UTF-8.
+   */
+  private uploadedFileName(originalName: string): string {
+    const name = originalName.split(/[\\/]/).pop() ?? '';
+    return /^[\u0000-\u00ff]*$/.test(name) ? Buffer.from(name, 'latin1').toString('utf8') : name;
+  }
+
+  private parseDuplicateHandling(value?: string): DuplicateHandling {
+    const handling = (value || 'skip') as DuplicateHandling;
+    if (!DUPLICATE_HANDLINGS.includes(handling)) {
+      throw new InvariantViolationError(`handleDuplicates must be one of ${DUPLICATE_HANDLINGS.join(', ')}`);
+    }
+    return handling;
+  }
+
+  /**
+   * Parse an optional marriage order (1 = first marriage).
+   * undefined = not provided, null/empty = clear.
+   */
+  private parseOptionalOrder(value: number | string | null | undefined, field: string): number | null | undefined {
+    if (value === undefined) return undefined;
+    if (value === null || value === '') return null;
+    const order = Number(value);
+    if (!Number.isInteger(order) || order < 1) {
+      throw new InvariantViolationError(`${field} must be a positive integer`);
+    }
+    return order;
+  }
+
+  /**
+   * Parse an optional 0-based position among a family's children.
+   */
+  private parseOptionalPosition(value: number | string | null | undefined): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const position = Number(value);
+    if (!Number.isInteger(position) || position < 0) {
+      throw new InvariantViolationError('position must be a non-negative integer');
+    }
+    return position;
+  }
+
+  private parseNasabOptions(depthStr?: string, styleStr?: string): { depth: number; style: NasabStyle } {
+    const depth = depthStr === undefined ? DEFAULT_NASAB_DEPTH : Number(depthStr);
+    if (!Number.isInteger(depth) || depth < 1 || depth > MAX_NASAB_DEPTH) {
+      throw new InvariantViolationError(`depth must be an integer between 1 and ${MAX_NASAB_DEPTH}`);
+    }
+    const style = (styleStr ?? 'MALAY').toUpperCase() as NasabStyle;
+    if (!NASAB_STYLES.includes(style)) {
+      throw new InvariantViolationError(`style must be one of ${NASAB_STYLES.join(', ')}`);
+    }
+    return { depth, style };
+  }
+
   /**
    * GET /trees
    * List all trees accessible by the current user
    */
-  @Get()
-  async listTrees(@Req() req: Request) {
+  @Get()
+  async listTrees(@Req() req: Request) {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      return await this.appService.listTrees();
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * POST /trees
+   * Create a new family tree
+   */
+  @Post()
+  async createTree(
+    @Body() dto: CreateFamilyTreeDto,
+    @Req() req: Request,
+  ): Promise<FamilyTreeCreatedDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      await this.appService.handleCreateFamilyTree({
+        treeId: dto.treeId,
+      });
+      return {
+        treeId: dto.treeId,
+        message: `Family tree '${dto.treeId}' created successfully`,
+      };
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * POST /trees/import/preview
+   * What importing a GEDCOM or tree JSON file would do, without saving (query: PreviewTreeImportQuery)
+   * multipart/form-data with the file in `file`; targetTreeId checks it
+   * against an existing tree. Records the tree would refuse come back as
+   * errors, records left out as warnings, persons already in the tree as
+   * existingDuplicates.
+   */
+  @Post('import/preview')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_SIZE } }))
+  async previewTreeImport(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body() dto: PreviewTreeImportDto,
+    @Req() req: Request,
+  ): Promise<TreeImportPreviewDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      if (!file) {
+        throw new InvariantViolationError('file is required');
+      }
+      const preview = await this.appService.handlePreviewTreeImport({
+        fileName: this.uploadedFileName(file.originalname),
+        data: file.buffer,
+        targetTreeId: dto.targetTreeId || null,
+        handleDuplicates: this.parseDuplicateHandling(dto.handleDuplicates),
+      });
+      if (!preview) {
+        throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
+      }
+      return preview;
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * POST /trees/import
+   * Import a GEDCOM or tree JSON file into a new or existing tree (command: ImportTreeCommand)
+   * multipart/form-data with the file in `file`. All or nothing: nothing is
+   * saved if the tree refuses any record. handleDuplicates (skip, merge,
+   * replace) decides what JSON persons already in the tree do.
+   */
+  @Post('import')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_SIZE } }))
+  async importTree(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body() dto: ImportTreeDto,
+    @Req() req: Request,
+  ): Promise<TreeImportedDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      if (!file) {
+        throw new InvariantViolationError('file is required');
+      }
+      return await this.appService.handleImportTree({
+        fileName: this.uploadedFileName(file.originalname),
+        data: file.buffer,
+        createNewTree: dto.createNewTree === 'true',
+        newTreeName: dto.newTreeName || null,
+        targetTreeId: dto.targetTreeId || null,
+        handleDuplicates: this.parseDuplicateHandling(dto.handleDuplicates),
+      });
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * POST /trees/:id/persons
+   * Add a person to the tree (command: AddPersonToTreeCommand)
+   */
+  @Post(':treeId/persons')
+  async createPerson(
+    @Param('treeId') treeId: string,
+    @Body() dto: CreatePersonDto,
+    @Req() req: Request,
+  ): Promise<{ personId: string }> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const birthDate = this.parseOptionalDate(dto.birthDate, 'birthDate') ?? null;
+      const deathDate = this.parseOptionalDate(dto.deathDate, 'deathDate') ?? null;
+      const names = this.parseOptionalNames(dto.names) ?? [];
+
+      const personId = await this.appService.handleAddPersonToTree({
+        treeId,
+        personId: dto.personId,
+        name: dto.name ?? normalizePrimaryName(names).find((n) => n.primary)?.fullText ?? '',
+        names,
+        gender: dto.gender,
+        birthDate,
+        birthPlace: dto.birthPlace || null,
+        birthPlaceId: dto.birthPlaceId || null,
+        deathDate,
+      });
+      return {
+        personId,
+      };
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * PUT /trees/:id/persons/:personId
+   * Update a person's attributes (command: UpdatePersonCommand)
+   * Omitted fields are unchanged; null or empty values clear optional fields.
+   */
+  @Put(':treeId/persons/:personId')
+  async updatePerson(
+    @Param('treeId') treeId: string,
+    @Param('personId') personId: string,
+    @Body() dto: UpdatePersonDto,
+    @Req() req: Request,
+  ): Promise<PersonResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const person = await this.appService.handleUpdatePerson({
+        treeId,
+        personId,
+        name: dto.name,
+        names: this.parseOptionalNames(dto.names),
+        gender: dto.gender,
+        birthDate: this.parseOptionalDate(dto.birthDate, 'birthDate'),
+        birthPlace: dto.birthPlace === undefined ? undefined : dto.birthPlace || null,
+        birthPlaceId: dto.birthPlaceId === undefined ? undefined : dto.birthPlaceId || null,
+        deathDate: this.parseOptionalDate(dto.deathDate, 'deathDate'),
+      });
+      return person as PersonResponseDto;
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * POST /trees/:id/persons/import
+   * Bulk import persons and relationships from CSV (command: ImportPersonsCommand)
+   * Strict mode (default) imports nothing if any row fails; lenient mode
+   * imports the other rows and lists the failed ones in errors.
+   */
+  @Post(':treeId/persons/import')
+  async importPersons(
+    @Param('treeId') treeId: string,
+    @Body() dto: ImportPersonsDto,
+    @Req() req: Request,
+  ): Promise<PersonsImportedDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const mode = (dto.mode ?? 'strict') as ImportPersonsMode;
+      if (!IMPORT_PERSONS_MODES.includes(mode)) {
+        throw new InvariantViolationError(`mode must be one of ${IMPORT_PERSONS_MODES.join(', ')}`);
+      }
+      if (dto.upsert !== undefined && typeof dto.upsert !== 'boolean') {
+        throw new InvariantViolationError('upsert must be a boolean');
+      }
+      if (dto.columns !== undefined && (typeof dto.columns !== 'object' || dto.columns === null)) {
+        throw new InvariantViolationError('columns must map fields to CSV headers');
+      }
+
+      return await this.appService.handleImportPersons({
+        treeId,
+        csvContent: dto.csvContent ?? '',
+        relationshipsCsv: dto.relationshipsCsv || null,
+        mode,
+        upsert: dto.upsert ?? false,
+        columns: dto.columns,
+      });
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * POST /trees/:id/relationships/parent-child
+   * Establish parent-child relationship
+   */
+  @Post(':treeId/relationships/parent-child')
+  async establishParentChild(
+    @Param('treeId') treeId: string,
+    @Body() dto: EstablishParentChildDto,
+    @Req() req: Request,
+  ): Promise<OperationSuccessDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      await this.appService.handleEstablishParentChild({
+        treeId,
+        parentId: dto.parentId,
+        childId: dto.childId,
+        type: dto.type,
+      });
+      return {
+        message: `Parent-child relationship established: ${dto.parentId} → ${dto.childId}`,
+      };
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * POST /trees/:id/relationships/spouse
+   * Establish spouse relationship
+   */
+  @Post(':treeId/relationships/spouse')
+  async establishSpouse(
+    @Param('treeId') treeId: string,
+    @Body() dto: EstablishSpouseDto,
+    @Req() req: Request,
+  ): Promise<OperationSuccessDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      await this.appService.handleEstablishSpouse({
+        treeId,
+        spouseAId: dto.spouseA,
+        spouseBId: dto.spouseB,
+        marriage: {
+          status: dto.status,
+          marriageDate: this.parseOptionalDate(dto.marriageDate, 'marriageDate'),
+          marriagePlace: dto.marriagePlace || null,
+          divorceDate: this.parseOptionalDate(dto.divorceDate, 'divorceDate'),
+          divorcePlace: dto.divorcePlace || null,
+          spouse1Order: this.parseOptionalOrder(dto.spouseAOrder, 'spouseAOrder'),
+          spouse2Order: this.parseOptionalOrder(dto.spouseBOrder, 'spouseBOrder'),
+        },
+      });
+      return {
+        message: `Spouse relationship established: ${dto.spouseA} ↔ ${dto.spouseB}`,
+      };
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * PUT /trees/:id/relationships/spouse
+   * Update marriage details (command: UpdateSpouseCommand)
+   * Omitted fields are unchanged; null or empty values clear optional fields.
+   */
+  @Put(':treeId/relationships/spouse')
+  async updateSpouse(
+    @Param('treeId') treeId: string,
+    @Body() dto: UpdateSpouseDto,
+    @Req() req: Request,
+  ): Promise<SpouseResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const { spouse1Id, spouse2Id, marriage } = await this.appService.handleUpdateSpouse({
+        treeId,
+        spouseAId: dto.spouseA,
+        spouseBId: dto.spouseB,
+        status: dto.status,
+        marriageDate: this.parseOptionalDate(dto.marriageDate, 'marriageDate'),
+        marriagePlace: dto.marriagePlace === undefined ? undefined : dto.marriagePlace || null,
+        divorceDate: this.parseOptionalDate(dto.divorceDate, 'divorceDate'),
+        divorcePlace: dto.divorcePlace === undefined ? undefined : dto.divorcePlace || null,
+        spouseAOrder: this.parseOptionalOrder(dto.spouseAOrder, 'spouseAOrder'),
+        spouseBOrder: this.parseOptionalOrder(dto.spouseBOrder, 'spouseBOrder'),
+      });
+      return { spouse1Id, spouse2Id, ...marriage.toProps() } as SpouseResponseDto;
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * POST /trees/:id/families
+   * Record a union (couple or single parent) (command: CreateFamilyCommand)
+   */
+  @Post(':treeId/families')
+  async createFamily(
+    @Param('treeId') treeId: string,
+    @Body() dto: CreateFamilyDto,
+    @Req() req: Request,
+  ): Promise<{ familyId: string }> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const familyId = await this.appService.handleCreateFamily({
+        treeId,
+        familyId: dto.familyId,
+        parent1Id: dto.parent1Id,
+        parent2Id: dto.parent2Id || null,
+      });
+      return { familyId };
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * POST /trees/:id/families/:familyId/children
+   * Attach a child to a specific union (command: AddChildToFamilyCommand)
+   * Missing parent links are created with the given type (BIOLOGICAL by default).
+   */
+  @Post(':treeId/families/:familyId/children')
+  async addChildToFamily(
+    @Param('treeId') treeId: string,
+    @Param('familyId') familyId: string,
+    @Body() dto: AddChildToFamilyDto,
+    @Req() req: Request,
+  ): Promise<FamilyResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const family = await this.appService.handleAddChildToFamily({
+        treeId,
+        familyId,
+        childId: dto.childId,
+        type: dto.type,
+        position: this.parseOptionalPosition(dto.position),
+      });
+      return { familyId: family.familyId, parentIds: family.parentIds, childIds: [...family.childIds], inferred: false };
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * GET /trees/:id/families
+   * Every union in the tree, recorded or inferred from parent-child edges
+   */
+  @Get(':treeId/families')
+  async getFamilies(
+    @Param('treeId') treeId: string,
+    @Req() req: Request,
+  ): Promise<FamilyResponseDto[]> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const families = await this.appService.handleGetFamilies({ treeId });
+      if (!families) {
+        throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
+      }
+      return families;
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * DELETE /trees/:id/relationships
+   * Remove a relationship between two people
+   */
+  @Delete(':treeId/relationships')
+  async removeRelationship(
+    @Param('treeId') treeId: string,
+    @Body() dto: RemoveRelationshipDto,
+    @Req() req: Request,
+  ): Promise<OperationSuccessDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      await this.appService.handleRemoveRelationship({
+        treeId,
+        personId1: dto.personId1,
+        personId2: dto.personId2,
+      });
+      return {
+        message: `Relationship removed between '${dto.personId1}' and '${dto.personId2}' in tree '${treeId}'`,
+      };
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * DELETE /trees/:id/persons/:personId
+   * Remove a person from the tree
+   */
+  @Delete(':treeId/persons/:personId')
+  async removePerson(
+    @Param('treeId') treeId: string,
+    @Param('personId') personId: string,
+    @Req() req: Request,
+  ): Promise<OperationSuccessDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      await this.appService.handleRemovePerson({
+        treeId,
+        personId,
+      });
+      return {
+        message: `Person '${personId}' removed from tree '${treeId}'`,
+      };
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * GET /trees/:id/persons/:personId
+   * Retrieve a person
+   */
+  @Get(':treeId/persons/:personId')
+  async getPerson(
+    @Param('treeId') treeId: string,
+    @Param('personId') personId: string,
+    @Req() req: Request,
+  ): Promise<PersonResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const person = await this.appService.handleGetPerson({ treeId, personId });
+      if (!person) {
+        throw new HttpException('Person not found', HttpStatus.NOT_FOUND);
+      }
+      return person as PersonResponseDto;
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * GET /trees/:id/persons/:personId/ancestors
+   * Retrieve ancestors for a person
+   */
+  @Get(':treeId/persons/:personId/ancestors')
+  async getAncestors(
+    @Param('treeId') treeId: string,
+    @Param('personId') personId: string,
+    @Req() req: Request,
+  ): Promise<AncestorsResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const ancestors = await this.appService.handleGetAncestors({ treeId, personId });
+      if (!ancestors) {
+        throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
+      }
+      return { personId, ancestors } as AncestorsResponseDto;
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * GET /trees/:id/persons/:personId/descendants
+   * Retrieve descendants for a person
+   */
+  @Get(':treeId/persons/:personId/descendants')
+  async getDescendants(
+    @Param('treeId') treeId: string,
+    @Param('personId') personId: string,
+    @Req() req: Request,
+  ): Promise<DescendantsResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const descendants = await this.appService.handleGetDescendants({ treeId, personId });
+      if (!descendants) {
+        throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
+      }
+      return { personId, descendants } as DescendantsResponseDto;
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * GET /trees/:id/persons/:personId/nasab
+   * Patronymic chain along the father line
+   * Query params: depth (fathers to follow, default 10), style (MALAY|ARABIC)
+   */
+  @Get(':treeId/persons/:personId/nasab')
+  async getNasab(
+    @Param('treeId') treeId: string,
+    @Param('personId') personId: string,
+    @Query('depth') depthStr: string | undefined,
+    @Query('style') styleStr: string | undefined,
+    @Req() req: Request,
+  ): Promise<NasabResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const { depth, style } = this.parseNasabOptions(depthStr, styleStr);
+      const nasab = await this.appService.handleGetNasab({ treeId, personId, depth, style });
+      if (!nasab) {
+        throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
+      }
+      return nasab;
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * GET /trees/:id/persons/:personId/pedigree-collapse
+   * Ancestors reached through more than one line of descent, with the number of lines
+   */
+  @Get(':treeId/persons/:personId/pedigree-collapse')
+  async getPedigreeCollapse(
+    @Param('treeId') treeId: string,
+    @Param('personId') personId: string,
+    @Req() req: Request,
+  ): Promise<PedigreeCollapseResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const collapse = await this.appService.handleGetPedigreeCollapse({ treeId, personId });
+      if (!collapse) {
+        throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
+      }
+      return collapse;
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * GET /trees/:id/persons/:personId/inbreeding
+   * Inbreeding coefficient of a person, with the paths between their parents
+   */
+  @Get(':treeId/persons/:personId/inbreeding')
+  async getInbreeding(
+    @Param('treeId') treeId: string,
+    @Param('personId') personId: string,
+    @Req() req: Request,
+  ): Promise<InbreedingResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const inbreeding = await this.appService.handleGetInbreeding({ treeId, personId });
+      if (!inbreeding) {
+        throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
+      }
+      return inbreeding;
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * GET /trees/:id/persons/:personId/inheritance
+   * Farāʾiḍ shares of a deceased person's estate: each surviving heir, the rule applied and their fraction
+   */
+  @Get(':treeId/persons/:personId/inheritance')
+  async getInheritance(
+    @Param('treeId') treeId: string,
+    @Param('personId') personId: string,
+    @Req() req: Request,
+  ): Promise<InheritanceResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const inheritance = await this.appService.handleGetInheritance({ treeId, personId });
+      if (!inheritance) {
+        throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
+      }
+      return inheritance;
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * GET /trees/:id/persons/:personId/siblings
+   * Full and half siblings, by the families the person belongs to
+   */
+  @Get(':treeId/persons/:personId/siblings')
+  async getSiblings(
+    @Param('treeId') treeId: string,
+    @Param('personId') personId: string,
+    @Req() req: Request,
+  ): Promise<SiblingsResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const siblings = await this.appService.handleGetSiblings({ treeId, personId });
+      if (!siblings) {
+        throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
+      }
+      return siblings;
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * GET /trees/:id/relationship
+   * What one person is to another ("second cousin once removed"), with the path
+   * Query params: from, to (person ids), locale (en|ms|ar, default en)
+   */
+  @Get(':treeId/relationship')
+  async getRelationship(
+    @Param('treeId') treeId: string,
+    @Query('from') fromId: string | undefined,
+    @Query('to') toId: string | undefined,
+    @Query('locale') locale: string | undefined,
+    @Req() req: Request,
+  ): Promise<RelationshipResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      if (!fromId || !toId) {
+        throw new InvariantViolationError('from and to query parameters are required');
+      }
+      if (locale !== undefined && !KIN_LOCALES.includes(locale as KinLocale)) {
+        throw new InvariantViolationError(`locale must be one of ${KIN_LOCALES.join(', ')}`);
+      }
+      const relationship = await this.appService.handleGetRelationship({
+        treeId,
+        fromId,
+        toId,
+        locale: locale as KinLocale | undefined,
+      });
+      if (!relationship) {
+        throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
+      }
+      return relationship;
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * GET /trees/:id/mahram
+   * Whether `to` is mahram to `from` by blood, milk kinship or marriage, with the rule and path
+   * Query params: from, to (person ids)
+   */
+  @Get(':treeId/mahram')
+  async getMahram(
+    @Param('treeId') treeId: string,
+    @Query('from') fromId: string | undefined,
+    @Query('to') toId: string | undefined,
+    @Req() req: Request,
+  ): Promise<MahramResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      if (!fromId || !toId) {
+        throw new InvariantViolationError('from and to query parameters are required');
+      }
+      const mahram = await this.appService.handleGetMahram({ treeId, fromId, toId });
+      if (!mahram) {
+        throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
+      }
+      return mahram;
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * GET /trees/:id/common-ancestors
+   * Most recent common ancestors of two or more persons, with the generations to each
+   * Query params: persons (comma-separated person ids)
+   */
+  @Get(':treeId/common-ancestors')
+  async getCommonAncestors(
+    @Param('treeId') treeId: string,
+    @Query('persons') personsStr: string | undefined,
+    @Req() req: Request,
+  ): Promise<CommonAncestorsResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const personIds = (personsStr ?? '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean);
+      if (personIds.length === 0) {
+        throw new InvariantViolationError('persons query parameter is required');
+      }
+      const common = await this.appService.handleGetCommonAncestors({ treeId, personIds });
+      if (!common) {
+        throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
+      }
+      return common;
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * GET /trees/:id/relatedness
+   * Wright's coefficient of relationship between two persons, with its paths
+   * Query params: from, to (person ids)
+   */
+  @Get(':treeId/relatedness')
+  async getRelatedness(
+    @Param('treeId') treeId: string,
+    @Query('from') fromId: string | undefined,
+    @Query('to') toId: string | undefined,
+    @Req() req: Request,
+  ): Promise<RelatednessResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      if (!fromId || !toId) {
+        throw new InvariantViolationError('from and to query parameters are required');
+      }
+      const relatedness = await this.appService.handleGetRelatedness({ treeId, fromId, toId });
+      if (!relatedness) {
+        throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
+      }
+      return relatedness;
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * GET /trees/:id/path
+   * Shortest chain of parent, child and spouse edges between two persons
+   * Query params: from, to (person ids), excludeSpouses (true|false, default false)
+   */
+  @Get(':treeId/path')
+  async getKinPath(
+    @Param('treeId') treeId: string,
+    @Query('from') fromId: string | undefined,
+    @Query('to') toId: string | undefined,
+    @Query('excludeSpouses') excludeSpouses: string | undefined,
+    @Req() req: Request,
+  ): Promise<KinPathResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      if (!fromId || !toId) {
+        throw new InvariantViolationError('from and to query parameters are required');
+      }
+      if (excludeSpouses !== undefined && excludeSpouses !== 'true' && excludeSpouses !== 'false') {
+        throw new InvariantViolationError('excludeSpouses must be true or false');
+      }
+      const path = await this.appService.handleGetKinPath({
+        treeId,
+        fromId,
+        toId,
+        includeSpouses: excludeSpouses !== 'true',
+      });
+      if (!path) {
+        throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
+      }
+      return path;
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * GET /trees/:id/persons/:personId/events
+   * A person's life events, in recorded order
+   */
+  @Get(':treeId/persons/:personId/events')
+  async getPersonEvents(
+    @Param('treeId') treeId: string,
+    @Param('personId') personId: string,
+    @Req() req: Request,
+  ): Promise<LifeEventResponseDto[]> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const events = await this.appService.handleGetPersonEvents({ treeId, personId });
+      if (!events) {
+        throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
+      }
+      return events.map((event) => event.toJSON());
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * POST /trees/:id/persons/:personId/events
+   * Record a life event (command: AddPersonEventCommand)
+   */
+  @Post(':treeId/persons/:personId/events')
+  async addPersonEvent(
+    @Param('treeId') treeId: string,
+    @Param('personId') personId: string,
+    @Body() dto: CreateLifeEventDto,
+    @Req() req: Request,
+  ): Promise<LifeEventResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const event = await this.appService.handleAddPersonEvent({
+        treeId,
+        personId,
+        eventId: dto.eventId,
+        type: dto.type,
+        customType: dto.customType || null,
+        date: this.parseOptionalDate(dto.date, 'date'),
+        place: dto.place || null,
+        placeId: dto.placeId || null,
+        description: dto.description || null,
+      });
+      return event.toJSON();
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * PUT /trees/:id/persons/:personId/events/:eventId
+   * Update a life event (command: UpdatePersonEventCommand)
+   * Omitted fields are unchanged; null or empty values clear optional fields.
+   */
+  @Put(':treeId/persons/:personId/events/:eventId')
+  async updatePersonEvent(
+    @Param('treeId') treeId: string,
+    @Param('personId') personId: string,
+    @Param('eventId') eventId: string,
+    @Body() dto: UpdateLifeEventDto,
+    @Req() req: Request,
+  ): Promise<LifeEventResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const event = await this.appService.handleUpdatePersonEvent({
+        treeId,
+        personId,
+        eventId,
+        type: dto.type,
+        customType: dto.customType === undefined ? undefined : dto.customType || null,
+        date: this.parseOptionalDate(dto.date, 'date'),
+        place: dto.place === undefined ? undefined : dto.place || null,
+        placeId: dto.placeId === undefined ? undefined : dto.placeId || null,
+        description: dto.description === undefined ? undefined : dto.description || null,
+      });
+      return event.toJSON();
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * DELETE /trees/:id/persons/:personId/events/:eventId
+   * Remove a life event (command: RemovePersonEventCommand)
+   */
+  @Delete(':treeId/persons/:personId/events/:eventId')
+  async removePersonEvent(
+    @Param('treeId') treeId: string,
+    @Param('personId') personId: string,
+    @Param('eventId') eventId: string,
+    @Req() req: Request,
+  ): Promise<OperationSuccessDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      await this.appService.handleRemovePersonEvent({ treeId, personId, eventId });
+      return {
+        message: `Event '${eventId}' removed from person '${personId}'`,
+      };
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * GET /trees/:id/sources
+   * The tree's sources, in recorded order
+   */
+  @Get(':treeId/sources')
+  async getSources(@Param('treeId') treeId: string, @Req() req: Request): Promise<SourceResponseDto[]> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const sources = await this.appService.handleGetSources({ treeId });
+      if (!sources) {
+        throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
+      }
+      return sources.map((source) => source.toJSON());
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * POST /trees/:id/sources
+   * Record a source (command: CreateSourceCommand)
+   */
+  @Post(':treeId/sources')
+  async createSource(
+    @Param('treeId') treeId: string,
+    @Body() dto: CreateSourceDto,
+    @Req() req: Request,
+  ): Promise<SourceResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const source = await this.appService.handleCreateSource({
+        treeId,
+        sourceId: dto.sourceId,
+        title: dto.title,
+        author: dto.author || null,
+        repository: dto.repository || null,
+        reference: dto.reference || null,
+      });
+      return source.toJSON();
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * PUT /trees/:id/sources/:sourceId
+   * Update a source (command: UpdateSourceCommand)
+   * Omitted fields are unchanged; null or empty values clear optional fields.
+   */
+  @Put(':treeId/sources/:sourceId')
+  async updateSource(
+    @Param('treeId') treeId: string,
+    @Param('sourceId') sourceId: string,
+    @Body() dto: UpdateSourceDto,
+    @Req() req: Request,
+  ): Promise<SourceResponseDto> {
     try {
       const userContext = this.getUserContext(req);
       this.appService.setUserContext(userContext);
 
-      return await this.appService.listTrees();
+      const source = await this.appService.handleUpdateSource({
+        treeId,
+        sourceId,
+        title: dto.title,
+        author: dto.author === undefined ? undefined : dto.author || null,
+        repository: dto.repository === undefined ? undefined : dto.repository || null,
+        reference: dto.reference === undefined ? undefined : dto.reference || null,
+      });
+      return source.toJSON();
     } catch (err) {
       this.handleDomainError(err);
     }
   }
 
   /**
-   * POST /trees
-   * Create a new family tree
+   * DELETE /trees/:id/sources/:sourceId
+   * Remove a source that is no longer cited (command: RemoveSourceCommand)
    */
-  @Post()
-  async createTree(
-    @Body() dto: CreateFamilyTreeDto,
+  @Delete(':treeId/sources/:sourceId')
+  async removeSource(
+    @Param('treeId') treeId: string,
+    @Param('sourceId') sourceId: string,
     @Req() req: Request,
-  ): Promise<FamilyTreeCreatedDto> {
+  ): Promise<OperationSuccessDto> {
     try {
       const userContext = this.getUserContext(req);
       this.appService.setUserContext(userContext);
 
-      await this.appService.handleCreateFamilyTree({
-        treeId: dto.treeId,
-      });
+      await this.appService.handleRemoveSource({ treeId, sourceId });
       return {
-        treeId: dto.treeId,
-        message: `Family tree '${dto.treeId}' created successfully`,
+        message: `Source '${sourceId}' removed from tree '${treeId}'`,
       };
     } catch (err) {
       this.handleDomainError(err);
@@ -207,97 +1352,105 @@ export class GenealogyController {
   }
 
   /**
-   * POST /trees/:id/persons
-   * Add a person to the tree (command: AddPersonToTreeCommand)
+   * GET /trees/:id/persons/:personId/citations
+   * Citations of the person, their facts and events, and their parent-child
+   * and spouse links
    */
-  @Post(':treeId/persons')
-  async createPerson(
+  @Get(':treeId/persons/:personId/citations')
+  async getPersonCitations(
     @Param('treeId') treeId: string,
-    @Body() dto: CreatePersonDto,
+    @Param('personId') personId: string,
     @Req() req: Request,
-  ): Promise<{ personId: string }> {
+  ): Promise<CitationResponseDto[]> {
     try {
       const userContext = this.getUserContext(req);
       this.appService.setUserContext(userContext);
 
-      const birthDate = dto.birthDate ? new Date(dto.birthDate) : null;
-      const deathDate = dto.deathDate ? new Date(dto.deathDate) : null;
-
-      if (birthDate && Number.isNaN(birthDate.getTime())) {
-        throw new InvariantViolationError('birthDate is invalid');
-      }
-      if (deathDate && Number.isNaN(deathDate.getTime())) {
-        throw new InvariantViolationError('deathDate is invalid');
+      const citations = await this.appService.handleGetPersonCitations({ treeId, personId });
+      if (!citations) {
+        throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
       }
+      return citations.map((citation) => citation.toJSON());
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
 
-      const personId = await this.appService.handleAddPersonToTree({
+  /**
+   * POST /trees/:id/citations
+   * Cite a source for a fact (command: AddCitationCommand)
+   */
+  @Post(':treeId/citations')
+  async addCitation(
+    @Param('treeId') treeId: string,
+    @Body() dto: CreateCitationDto,
+    @Req() req: Request,
+  ): Promise<CitationResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      const citation = await this.appService.handleAddCitation({
         treeId,
-        personId: dto.personId,
-        name: dto.name,
-        gender: dto.gender,
-        birthDate,
-        birthPlace: dto.birthPlace || null,
-        deathDate,
+        citationId: dto.citationId,
+        sourceId: dto.sourceId,
+        target: dto.target,
+        page: dto.page || null,
+        quality: dto.quality || null,
+        transcription: dto.transcription || null,
       });
-      return {
-        personId,
-      };
+      return citation.toJSON();
     } catch (err) {
       this.handleDomainError(err);
     }
   }
 
   /**
-   * POST /trees/:id/persons/import
-   * Bulk import persons from CSV
+   * PUT /trees/:id/citations/:citationId
+   * Update a citation's page, quality or transcription (command: UpdateCitationCommand)
+   * Omitted fields are unchanged; null or empty values clear them.
    */
-  @Post(':treeId/persons/import')
-  async importPersons(
+  @Put(':treeId/citations/:citationId')
+  async updateCitation(
     @Param('treeId') treeId: string,
-    @Body() dto: { csvContent: string },
+    @Param('citationId') citationId: string,
+    @Body() dto: UpdateCitationDto,
     @Req() req: Request,
-  ): Promise<any> {
+  ): Promise<CitationResponseDto> {
     try {
       const userContext = this.getUserContext(req);
       this.appService.setUserContext(userContext);
 
-      const result = await this.appService.handleImportPersons({
+      const citation = await this.appService.handleUpdateCitation({
         treeId,
-        csvContent: dto.csvContent,
+        citationId,
+        page: dto.page === undefined ? undefined : dto.page || null,
+        quality: dto.quality === undefined ? undefined : dto.quality || null,
+        transcription: dto.transcription === undefined ? undefined : dto.transcription || null,
       });
-
-      return {
-        imported: result.imported,
-        skipped: result.skipped,
-        total: result.total,
-        errors: result.errors,
-      };
+      return citation.toJSON();
     } catch (err) {
       this.handleDomainError(err);
     }
   }
 
   /**
-   * POST /trees/:id/relationships/parent-child
-   * Establish parent-child relationship
+   * DELETE /trees/:id/citations/:citationId
+   * Remove a citation (command: RemoveCitationCommand)
    */
-  @Post(':treeId/relationships/parent-child')
-  async establishParentChild(
+  @Delete(':treeId/citations/:citationId')
+  async removeCitation(
     @Param('treeId') treeId: string,
-    @Body() dto: EstablishParentChildDto,
+    @Param('citationId') citationId: string,
     @Req() req: Request,
   ): Promise<OperationSuccessDto> {
     try {
       const userContext = this.getUserContext(req);
       this.appService.setUserContext(userContext);
 
-      await this.appService.handleEstablishParentChild({
-        treeId,
-        parentId: dto.parentId,
-        childId: dto.childId,
-      });
+      await this.appService.handleRemoveCitation({ treeId, citationId });
       return {
-        message: `Parent-child relationship established: ${dto.parentId} → ${dto.childId}`,
+        message: `Citation '${citationId}' removed from tree '${treeId}'`,
       };
     } catch (err) {
       this.handleDomainError(err);
@@ -305,79 +1458,113 @@ export class GenealogyController {
   }
 
   /**
-   * POST /trees/:id/relationships/spouse
-   * Establish spouse relationship
+   * GET /trees/:id/media
+   * The tree's media, in recorded order; with `personId`, only the files
+   * showing that person or their events
    */
-  @Post(':treeId/relationships/spouse')
-  async establishSpouse(
+  @Get(':treeId/media')
+  async getMedia(
     @Param('treeId') treeId: string,
-    @Body() dto: EstablishSpouseDto,
+    @Query('personId') personId: string | undefined,
     @Req() req: Request,
-  ): Promise<OperationSuccessDto> {
+  ): Promise<MediaResponseDto[]> {
     try {
       const userContext = this.getUserContext(req);
       this.appService.setUserContext(userContext);
 
-      await this.appService.handleEstablishSpouse({
+      const media = await this.appService.handleGetMedia({ treeId, personId: personId || undefined });
+      if (!media) {
+        throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
+      }
+      return media.map((m) => m.toJSON());
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * POST /trees/:id/media
+   * Upload a file (command: UploadMediaCommand)
+   * multipart/form-data with the file in `file`; caption, date and links
+   * (a JSON array) as text fields. Images get a thumbnail.
+   */
+  @Post(':treeId/media')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_MEDIA_SIZE } }))
+  async uploadMedia(
+    @Param('treeId') treeId: string,
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body() dto: UploadMediaDto,
+    @Req() req: Request,
+  ): Promise<MediaResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      if (!file) {
+        throw new InvariantViolationError('file is required');
+      }
+      const media = await this.appService.handleUploadMedia({
         treeId,
-        spouseAId: dto.spouseA,
-        spouseBId: dto.spouseB,
+        mediaId: dto.mediaId || undefined,
+        fileName: this.uploadedFileName(file.originalname),
+        mimeType: file.mimetype,
+        data: file.buffer,
+        caption: dto.caption || null,
+        date: this.parseOptionalDate(dto.date, 'date') ?? null,
+        links: this.parseOptionalMediaLinks(dto.links) ?? [],
       });
-      return {
-        message: `Spouse relationship established: ${dto.spouseA} ↔ ${dto.spouseB}`,
-      };
+      return media.toJSON();
     } catch (err) {
       this.handleDomainError(err);
     }
   }
 
   /**
-   * DELETE /trees/:id/relationships
-   * Remove a relationship between two people
+   * PUT /trees/:id/media/:mediaId
+   * Update a file's caption, date or links (command: UpdateMediaCommand)
+   * Omitted fields are unchanged; null or empty values clear optional fields.
    */
-  @Delete(':treeId/relationships')
-  async removeRelationship(
+  @Put(':treeId/media/:mediaId')
+  async updateMedia(
     @Param('treeId') treeId: string,
-    @Body() dto: RemoveRelationshipDto,
+    @Param('mediaId') mediaId: string,
+    @Body() dto: UpdateMediaDto,
     @Req() req: Request,
-  ): Promise<OperationSuccessDto> {
+  ): Promise<MediaResponseDto> {
     try {
       const userContext = this.getUserContext(req);
       this.appService.setUserContext(userContext);
 
-      await this.appService.handleRemoveRelationship({
+      const media = await this.appService.handleUpdateMedia({
         treeId,
-        personId1: dto.personId1,
-        personId2: dto.personId2,
+        mediaId,
+        caption: dto.caption === undefined ? undefined : dto.caption || null,
+        date: this.parseOptionalDate(dto.date, 'date'),
+        links: this.parseOptionalMediaLinks(dto.links),
       });
-      return {
-        message: `Relationship removed between '${dto.personId1}' and '${dto.personId2}' in tree '${treeId}'`,
-      };
+      return media.toJSON();
     } catch (err) {
       this.handleDomainError(err);
     }
   }
 
   /**
-   * DELETE /trees/:id/persons/:personId
-   * Remove a person from the tree
+   * DELETE /trees/:id/media/:mediaId
+   * Remove a file and its stored bytes (command: RemoveMediaCommand)
    */
-  @Delete(':treeId/persons/:personId')
-  async removePerson(
+  @Delete(':treeId/media/:mediaId')
+  async removeMedia(
     @Param('treeId') treeId: string,
-    @Param('personId') personId: string,
+    @Param('mediaId') mediaId: string,
     @Req() req: Request,
   ): Promise<OperationSuccessDto> {
     try {
       const userContext = this.getUserContext(req);
       this.appService.setUserContext(userContext);
 
-      await this.appService.handleRemovePerson({
-        treeId,
-        personId,
-      });
+      await this.appService.handleRemoveMedia({ treeId, mediaId });
       return {
-        message: `Person '${personId}' removed from tree '${treeId}'`,
+        message: `Media '${mediaId}' removed from tree '${treeId}'`,
       };
     } catch (err) {
       this.handleDomainError(err);
@@ -385,72 +1572,207 @@ export class GenealogyController {
   }
 
   /**
-   * GET /trees/:id/persons/:personId
-   * Retrieve a person
+   * GET /trees/:id/media/:mediaId/file
+   * Download the file as uploaded
    */
-  @Get(':treeId/persons/:personId')
-  async getPerson(
+  @Get(':treeId/media/:mediaId/file')
+  @Header('X-Content-Type-Options', 'nosniff')
+  async downloadMedia(
     @Param('treeId') treeId: string,
-    @Param('personId') personId: string,
+    @Param('mediaId') mediaId: string,
     @Req() req: Request,
-  ): Promise<PersonResponseDto> {
+  ): Promise<StreamableFile> {
     try {
       const userContext = this.getUserContext(req);
       this.appService.setUserContext(userContext);
 
-      const person = await this.appService.handleGetPerson({ treeId, personId });
-      if (!person) {
-        throw new HttpException('Person not found', HttpStatus.NOT_FOUND);
+      const file = await this.appService.handleGetMediaFile({ treeId, mediaId, variant: 'original' });
+      if (!file) {
+        throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
       }
-      return person as PersonResponseDto;
+      return new StreamableFile(file.data, {
+        type: file.mimeType,
+        length: file.data.length,
+        disposition: `inline; filename*=UTF-8''${encodeURIComponent(file.media.fileName)}`,
+      });
     } catch (err) {
       this.handleDomainError(err);
     }
   }
 
   /**
-   * GET /trees/:id/persons/:personId/ancestors
-   * Retrieve ancestors for a person
+   * GET /trees/:id/media/:mediaId/thumbnail
+   * JPEG thumbnail of an image; 404 for files without one
    */
-  @Get(':treeId/persons/:personId/ancestors')
-  async getAncestors(
+  @Get(':treeId/media/:mediaId/thumbnail')
+  @Header('X-Content-Type-Options', 'nosniff')
+  async getMediaThumbnail(
     @Param('treeId') treeId: string,
-    @Param('personId') personId: string,
+    @Param('mediaId') mediaId: string,
     @Req() req: Request,
-  ): Promise<AncestorsResponseDto> {
+  ): Promise<StreamableFile> {
     try {
       const userContext = this.getUserContext(req);
       this.appService.setUserContext(userContext);
 
-      const ancestors = await this.appService.handleGetAncestors({ treeId, personId });
-      if (!ancestors) {
+      const file = await this.appService.handleGetMediaFile({ treeId, mediaId, variant: 'thumbnail' });
+      if (!file) {
         throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
       }
-      return { personId, ancestors } as AncestorsResponseDto;
+      return new StreamableFile(file.data, { type: file.mimeType, length: file.data.length });
     } catch (err) {
       this.handleDomainError(err);
     }
   }
 
   /**
-   * GET /trees/:id/persons/:personId/descendants
-   * Retrieve descendants for a person
+   * GET /trees/:id/places
+   * The tree's gazetteer by full name, with the number of persons born or
+   * with an event at each place
    */
-  @Get(':treeId/persons/:personId/descendants')
-  async getDescendants(
-    @Param('treeId') treeId: string,
-    @Param('personId') personId: string,
-    @Req() req: Request,
-  ): Promise<DescendantsResponseDto> {
+  @Get(':treeId/places')
+  async getPlaces(@Param('treeId') treeId: string, @Req() req: Request): Promise<PlaceResponseDto[]> {
     try {
       const userContext = this.getUserContext(req);
       this.appService.setUserContext(userContext);
 
-      const descendants = await this.appService.handleGetDescendants({ treeId, personId });
-      if (!descendants) {
+      const places = await this.appService.handleGetPlaces({ treeId });
+      if (!places) {
         throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
       }
-      return { personId, descendants } as DescendantsResponseDto;
+      return places;
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * POST /trees/:id/places
+   * Record a place (command: CreatePlaceCommand)
+   */
+  @Post(':treeId/places')
+  async createPlace(
+    @Param('treeId') treeId: string,
+    @Body() dto: CreatePlaceDto,
+    @Req() req: Request,
+  ): Promise<PlaceResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      return await this.appService.handleCreatePlace({
+        treeId,
+        placeId: dto.placeId,
+        name: dto.name,
+        type: dto.type || null,
+        parentId: dto.parentId || null,
+        alternateNames: dto.alternateNames ?? [],
+        latitude: dto.latitude ?? null,
+        longitude: dto.longitude ?? null,
+      });
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * PUT /trees/:id/places/:placeId
+   * Update a place (command: UpdatePlaceCommand)
+   * Omitted fields are unchanged; null or empty values clear optional fields.
+   */
+  @Put(':treeId/places/:placeId')
+  async updatePlace(
+    @Param('treeId') treeId: string,
+    @Param('placeId') placeId: string,
+    @Body() dto: UpdatePlaceDto,
+    @Req() req: Request,
+  ): Promise<PlaceResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      return await this.appService.handleUpdatePlace({
+        treeId,
+        placeId,
+        name: dto.name,
+        type: dto.type === undefined ? undefined : dto.type || null,
+        parentId: dto.parentId === undefined ? undefined : dto.parentId || null,
+        alternateNames: dto.alternateNames,
+        latitude: dto.latitude,
+        longitude: dto.longitude,
+      });
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * POST /trees/:id/places/:placeId/rename
+   * Rename a place, optionally keeping the current name as a historical
+   * one (command: RenamePlaceCommand)
+   */
+  @Post(':treeId/places/:placeId/rename')
+  async renamePlace(
+    @Param('treeId') treeId: string,
+    @Param('placeId') placeId: string,
+    @Body() dto: RenamePlaceDto,
+    @Req() req: Request,
+  ): Promise<PlaceResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      return await this.appService.handleRenamePlace({
+        treeId,
+        placeId,
+        name: dto.name,
+        keepFormerName: dto.keepFormerName === true,
+      });
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * POST /trees/:id/places/:placeId/merge
+   * Merge a duplicate place into another, which is returned; the duplicate
+   * is removed (command: MergePlacesCommand)
+   */
+  @Post(':treeId/places/:placeId/merge')
+  async mergePlaces(
+    @Param('treeId') treeId: string,
+    @Param('placeId') placeId: string,
+    @Body() dto: MergePlacesDto,
+    @Req() req: Request,
+  ): Promise<PlaceResponseDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      return await this.appService.handleMergePlaces({ treeId, placeId, intoPlaceId: dto.intoPlaceId });
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * DELETE /trees/:id/places/:placeId
+   * Remove a place nothing refers to (command: RemovePlaceCommand)
+   */
+  @Delete(':treeId/places/:placeId')
+  async removePlace(
+    @Param('treeId') treeId: string,
+    @Param('placeId') placeId: string,
+    @Req() req: Request,
+  ): Promise<OperationSuccessDto> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      await this.appService.handleRemovePlace({ treeId, placeId });
+      return {
+        message: `Place '${placeId}' removed from tree '${treeId}'`,
+      };
     } catch (err) {
       this.handleDomainError(err);
     }
@@ -664,7 +1986,7 @@ export class GenealogyController {
 
   /**
    * GET /api/trees/:id/export/json
-   * Owner-only: export full tree snapshot as JSON
+   * Owner-only: export full tree snapshot as JSON, media files included
    */
   @Get(':treeId/export/json')
   async exportJson(
@@ -678,7 +2000,7 @@ export class GenealogyController {
       // Delegate authorization to policy module
       AuthorizationPolicy.assertIsOwner(userContext);
 
-      return await this.appService.exportTreeSnapshot(treeId);
+      return await this.appService.exportTreeSnapshot(treeId, { withMediaContent: true });
     } catch (err) {
       this.handleDomainError(err);
     }
@@ -687,11 +2009,13 @@ export class GenealogyController {
   /**
    * GET /trees/:id/export/gedcom
    * Owner-only: export tree as GEDCOM text (read-only)
+   * Query params: version (5.5.1|7.0, default 5.5.1)
    */
   @Get(':treeId/export/gedcom')
   @Header('Content-Type', 'text/plain; charset=utf-8')
   async exportGedcom(
     @Param('treeId') treeId: string,
+    @Query('version') versionStr: string | undefined,
     @Req() req: Request,
   ): Promise<string> {
     try {
@@ -701,7 +2025,38 @@ export class GenealogyController {
       // Delegate authorization to policy module
       AuthorizationPolicy.assertIsOwner(userContext);
 
-      return await this.appService.exportTreeGedcom(treeId);
+      const version = (versionStr ?? '5.5.1') as GedcomVersion;
+      if (!GEDCOM_VERSIONS.includes(version)) {
+        throw new InvariantViolationError(`version must be one of ${GEDCOM_VERSIONS.join(', ')}`);
+      }
+      return await this.appService.exportTreeGedcom(treeId, version);
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
+  /**
+   * GET /trees/:id/export/gedzip
+   * Owner-only: export tree as a GEDZIP, GEDCOM 7.0 with its media files (read-only)
+   */
+  @Get(':treeId/export/gedzip')
+  async exportGedzip(
+    @Param('treeId') treeId: string,
+    @Req() req: Request,
+  ): Promise<StreamableFile> {
+    try {
+      const userContext = this.getUserContext(req);
+      this.appService.setUserContext(userContext);
+
+      // Delegate authorization to policy module
+      AuthorizationPolicy.assertIsOwner(userContext);
+
+      const archive = await this.appService.exportTreeGedzip(treeId);
+      return new StreamableFile(archive, {
+        type: 'application/zip',
+        length: archive.length,
+        disposition: `attachment; filename*=UTF-8''${encodeURIComponent(`${treeId}.gdz`)}`,
+      });
     } catch (err) {
       this.handleDomainError(err);
     }
@@ -728,6 +2083,12 @@ export class GenealogyController {
     if (err instanceof PersonHasRelationshipsError) {
       throw new HttpException(err.message, HttpStatus.CONFLICT);
     }
+    if (err instanceof SourceInUseError) {
+      throw new HttpException(err.message, HttpStatus.CONFLICT);
+    }
+    if (err instanceof PlaceInUseError) {
+      throw new HttpException(err.message, HttpStatus.CONFLICT);
+    }
     if (err instanceof CycleDetectedError) {
       throw new HttpException(
         `Cannot establish relationship: ${err.message}`,
@@ -5,6 +5,8 @@ import {
   HttpStatus,
   HttpException,
   Req,
+  Header,
+  StreamableFile,
 } from '@nestjs/common';
 import { Request } from 'express';
 import { GenealogyApplicationService } from '../../application/services/genealogy-application.service';
@@ -95,6 +97,36 @@ export class PublicController {
     }
   }
 
+  /**
+   * GET /public/trees/:treeId/media/:mediaId/thumbnail
+   * Public access to image thumbnails, such as the portraits on tree nodes.
+   * The files themselves are only served to members.
+   */
+  @Get('trees/:treeId/media/:mediaId/thumbnail')
+  @Header('X-Content-Type-Options', 'nosniff')
+  async getMediaThumbnail(
+    @Param('treeId') treeId: string,
+    @Param('mediaId') mediaId: string,
+    @Req() req: Request,
+  ): Promise<StreamableFile> {
+    try {
+      (req as any).userContext = {
+        userId: 'anonymous',
+        username: 'Public Viewer',
+        role: 'VIEWER',
+      };
+
+      this.appService.setUserContext((req as any).userContext);
+      const file = await this.appService.handleGetMediaFile({ treeId, mediaId, variant: 'thumbnail' });
+      if (!file) {
+        throw new HttpException('Family tree not found', HttpStatus.NOT_FOUND);
+      }
+      return new StreamableFile(file.data, { type: file.mimeType, length: file.data.length });
+    } catch (err) {
+      this.handleDomainError(err);
+    }
+  }
+
   /**
    * Map domain errors to HTTP responses
    */
@@ -1,25 +1,213 @@
+import type { GenealogicalDateJSON } from '../../domain/genealogical-date';
+import type { PersonNameJSON, PersonNameProps } from '../../domain/person-name';
+import type { NasabEndReason, NasabLink, NasabStyle } from '../../domain/nasab';
+import type { BloodLine, InLawLink, KinshipKind, KinshipStepRelation } from '../../domain/kinship';
+import type { ParentChildType } from '../../domain/relationship';
+import type { MarriageStatus } from '../../domain/marriage';
+import type { LifeEventJSON, LifeEventType } from '../../domain/life-event';
+import type { StoredSource } from '../../domain/source';
+import type { CitationQuality, CitationTarget, StoredCitation } from '../../domain/citation';
+import type { MediaJSON, MediaLink } from '../../domain/media';
+import type { PlaceName, PlaceType } from '../../domain/place';
+import type { PlaceWithUsage } from '../../application/queries/get-places.query';
+import type { ImportTreeResult, TreeImportPreview } from '../../application/commands/import-tree.command';
+import type { ImportPersonsResult } from '../../application/commands/import-persons.command';
+import type { CsvColumns } from '../../domain/csv-import';
+
 // Request DTOs (Plain interfaces, not classes)
+// Dates are ISO 8601 or genealogical date text, e.g. "1890-03-12", "ABT 1890", "BEF 1750"
 export interface CreateFamilyTreeDto {
   treeId: string;
 }
 
+// Structured names: when `name` is omitted the primary name's full text is used
 export interface CreatePersonDto {
   personId: string;
-  name: string;
+  name?: string;
+  names?: PersonNameProps[] | null;
   gender: 'MALE' | 'FEMALE' | 'UNKNOWN';
-  birthDate?: Date | null;
+  birthDate?: string | null;
   birthPlace?: string | null;
-  deathDate?: Date | null;
+  birthPlaceId?: string | null; // a place from the tree's gazetteer; sets birthPlace to its full name
+  deathDate?: string | null;
+}
+
+export interface UpdatePersonDto {
+  name?: string;
+  names?: PersonNameProps[] | null;
+  gender?: 'MALE' | 'FEMALE' | 'UNKNOWN';
+  birthDate?: string | null;
+  birthPlace?: string | null; // a different text unlinks the birth place
+  birthPlaceId?: string | null;
+  deathDate?: string | null;
 }
 
 export interface EstablishParentChildDto {
   parentId: string;
   childId: string;
+  type?: ParentChildType; // BIOLOGICAL (default) | ADOPTIVE | STEP | FOSTER | GUARDIAN | MILK
 }
 
+// Orders count each spouse's marriages (1 = first); omitted orders become the spouse's next one
 export interface EstablishSpouseDto {
   spouseA: string;
   spouseB: string;
+  status?: MarriageStatus; // MARRIED (default) | DIVORCED | ANNULLED | WIDOWED
+  marriageDate?: string | null;
+  marriagePlace?: string | null;
+  divorceDate?: string | null; // DIVORCED or ANNULLED only
+  divorcePlace?: string | null;
+  spouseAOrder?: number | null;
+  spouseBOrder?: number | null;
+}
+
+// Omitted fields are unchanged; null clears (a cleared order is renumbered)
+export interface UpdateSpouseDto {
+  spouseA: string;
+  spouseB: string;
+  status?: MarriageStatus;
+  marriageDate?: string | null;
+  marriagePlace?: string | null;
+  divorceDate?: string | null;
+  divorcePlace?: string | null;
+  spouseAOrder?: number | null;
+  spouseBOrder?: number | null;
+}
+
+// Couple or single parent; familyId is generated (F1, F2, ...) when omitted
+export interface CreateFamilyDto {
+  familyId?: string;
+  parent1Id: string;
+  parent2Id?: string | null;
+}
+
+// type applies to parent links not yet recorded; position is 0-based, appended when omitted
+export interface AddChildToFamilyDto {
+  childId: string;
+  type?: ParentChildType;
+  position?: number;
+}
+
+// eventId is generated (E1, E2, ...) when omitted; customType names a CUSTOM event
+export interface CreateLifeEventDto {
+  eventId?: string;
+  type: LifeEventType; // BURIAL | MIGRATION | RESIDENCE | OCCUPATION | EDUCATION | HAJJ | CONVERSION | CUSTOM
+  customType?: string | null;
+  date?: string | null;
+  place?: string | null;
+  placeId?: string | null; // a place from the tree's gazetteer; sets place to its full name
+  description?: string | null; // required for OCCUPATION and EDUCATION
+}
+
+// Omitted fields are unchanged; null clears
+export interface UpdateLifeEventDto {
+  type?: LifeEventType;
+  customType?: string | null;
+  date?: string | null;
+  place?: string | null; // a different text unlinks the place
+  placeId?: string | null;
+  description?: string | null;
+}
+
+// sourceId is generated (S1, S2, ...) when omitted
+export interface CreateSourceDto {
+  sourceId?: string;
+  title: string;
+  author?: string | null;
+  repository?: string | null; // archive, library or family holding it
+  reference?: string | null; // call number or manuscript reference
+}
+
+// Omitted fields are unchanged; null clears
+export interface UpdateSourceDto {
+  title?: string;
+  author?: string | null;
+  repository?: string | null;
+  reference?: string | null;
+}
+
+// citationId is generated (C1, C2, ...) when omitted
+export interface CreateCitationDto {
+  citationId?: string;
+  sourceId: string;
+  target: CitationTarget; // { kind: PERSON | EVENT | PARENT_CHILD | SPOUSE, ...ids }
+  page?: string | null;
+  quality?: CitationQuality | null; // UNRELIABLE | QUESTIONABLE | SECONDARY | PRIMARY
+  transcription?: string | null;
+}
+
+// The source and target are fixed; omitted fields are unchanged; null clears
+export interface UpdateCitationDto {
+  page?: string | null;
+  quality?: CitationQuality | null;
+  transcription?: string | null;
+}
+
+// Persons, then relationships below a blank line (or in relationshipsCsv); see ImportPersonsCommand
+export interface ImportPersonsDto {
+  csvContent: string;
+  relationshipsCsv?: string | null;
+  mode?: 'strict' | 'lenient'; // default strict: nothing is imported if any row fails
+  upsert?: boolean; // update persons already in the tree instead of skipping them
+  columns?: CsvColumns; // field -> header, for headers not recognised
+}
+
+// multipart/form-data: the file (.ged, .gedcom, .json) in `file`, these fields as text
+export interface ImportTreeDto {
+  createNewTree?: string; // 'true' to import into a new tree
+  newTreeName?: string; // defaults to the tree name in a JSON file, else the file name
+  targetTreeId?: string; // required unless createNewTree is 'true'
+  handleDuplicates?: 'skip' | 'merge' | 'replace'; // default skip
+}
+
+export interface PreviewTreeImportDto {
+  targetTreeId?: string;
+  handleDuplicates?: 'skip' | 'merge' | 'replace';
+}
+
+// multipart/form-data: the file in `file`, these fields as text
+export interface UploadMediaDto {
+  mediaId?: string;
+  caption?: string;
+  date?: string;
+  links?: string; // JSON array of { personId, eventId?, primary? }
+}
+
+export interface UpdateMediaDto {
+  caption?: string | null;
+  date?: string | null;
+  links?: MediaLink[] | null;
+}
+
+// placeId is generated (PL1, PL2, ...) when omitted; names cannot contain commas,
+// the region and country are the parent places
+export interface CreatePlaceDto {
+  placeId?: string;
+  name: string;
+  type?: PlaceType | null; // COUNTRY | REGION | DISTRICT | CITY | VILLAGE | SITE | OTHER
+  parentId?: string | null;
+  alternateNames?: PlaceName[] | null; // { name, script?: ISO 15924 code, historical? }
+  latitude?: number | null; // decimal degrees, with longitude
+  longitude?: number | null;
+}
+
+// Omitted fields are unchanged; null clears
+export interface UpdatePlaceDto {
+  name?: string;
+  type?: PlaceType | null;
+  parentId?: string | null;
+  alternateNames?: PlaceName[] | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export interface RenamePlaceDto {
+  name: string;
+  keepFormerName?: boolean; // keep the current name as a historical name
+}
+
+export interface MergePlacesDto {
+  intoPlaceId: string;
 }
 
 export interface RemovePersonDto {
@@ -40,10 +228,51 @@ export interface RenderTreeDto {
 export interface PersonResponseDto {
   personId: string;
   name: string;
+  names?: PersonNameJSON[];
   gender: 'MALE' | 'FEMALE' | 'UNKNOWN';
-  birthDate?: Date | null;
+  birthDate?: GenealogicalDateJSON | null;
   birthPlace?: string | null;
-  deathDate?: Date | null;
+  birthPlaceId?: string | null;
+  deathDate?: GenealogicalDateJSON | null;
+  events?: LifeEventJSON[];
+}
+
+export type LifeEventResponseDto = LifeEventJSON;
+
+export type SourceResponseDto = StoredSource;
+
+export type CitationResponseDto = StoredCitation;
+
+export type MediaResponseDto = MediaJSON;
+
+// personCount: persons born or with an event at the place; totalPersonCount also counts places below it
+export type PlaceResponseDto = PlaceWithUsage;
+
+// spouse1Id/spouse2Id in canonical order; orders follow them
+export interface SpouseResponseDto {
+  spouse1Id: string;
+  spouse2Id: string;
+  status: MarriageStatus;
+  marriageDate: GenealogicalDateJSON | null;
+  marriagePlace: string | null;
+  divorceDate: GenealogicalDateJSON | null;
+  divorcePlace: string | null;
+  spouse1Order: number;
+  spouse2Order: number;
+}
+
+// inferred: grouped from parent-child edges, not a recorded family (id is the parents' ids joined by "~")
+export interface FamilyResponseDto {
+  familyId: string;
+  parentIds: string[];
+  childIds: string[];
+  inferred: boolean;
+}
+
+export interface SiblingsResponseDto {
+  personId: string;
+  full: string[]; // share both biological parents
+  half: string[]; // share one biological parent
 }
 
 export interface AncestorsResponseDto {
@@ -56,6 +285,140 @@ export interface DescendantsResponseDto {
   descendants: string[];
 }
 
+export interface NasabResponseDto {
+  personId: string;
+  style: NasabStyle;
+  text: string; // e.g. "Ahmad bin Umar bin Abdullah"
+  links: NasabLink[]; // the person first, then each father
+  end: {
+    reason: NasabEndReason;
+    parentIds: string[];
+  };
+}
+
+export interface RelationshipResponseDto {
+  fromId: string;
+  toId: string;
+  kind: KinshipKind;
+  label: string | null; // what `to` is to `from`, e.g. "second cousin once removed"
+  blood: BloodLine | null;
+  inLaw: InLawLink | null;
+  parentChildType: ParentChildType | null;
+  formerSpouse: boolean;
+  path: {
+    personId: string;
+    name: string;
+    relation: KinshipStepRelation | null; // what this person is to the one before
+  }[];
+}
+
+export interface KinPathResponseDto {
+  fromId: string;
+  toId: string;
+  includeSpouses: boolean;
+  found: boolean;
+  hops: number | null; // edges between the two persons; null when not connected
+  path: {
+    personId: string;
+    name: string;
+    relation: KinshipStepRelation | null; // what this person is to the one before
+    type: ParentChildType | null; // of the parent-child edge taken
+  }[];
+}
+
+export interface MahramResponseDto {
+  fromId: string;
+  toId: string;
+  mahram: boolean;
+  basis: 'BLOOD' | 'MILK' | 'MARRIAGE' | null;
+  rule: string | null; // what `to` is to `from`, e.g. ASCENDANT_SIBLING, SPOUSE_DESCENDANT
+  condition: 'CONSUMMATION' | null;
+  path: {
+    personId: string;
+    name: string;
+    relation: KinshipStepRelation | null;
+    type: ParentChildType | null; // MILK for a milk-kinship link
+  }[];
+}
+
+export interface FractionDto {
+  numerator: number;
+  denominator: number;
+}
+
+export interface InheritanceResponseDto {
+  deceasedId: string;
+  deceasedName: string;
+  deathDate: string;
+  heirs: {
+    personId: string;
+    name: string;
+    role: string; // what the heir is to the deceased, e.g. WIFE, SONS_DAUGHTER, PATERNAL_SISTER
+    generation: number | null; // lineal heirs only: 1 for a child or parent, 2 for a grandchild or grandparent
+    rule: string; // e.g. HUSBAND_QUARTER, RESIDUARY_WITH_BROTHER, EXCLUDED
+    fixed: FractionDto | null; // the group's fixed share before ʿawl or radd
+    excludedBy: string | null; // the role that excludes the heir
+    share: FractionDto; // of the estate
+  }[];
+  base: number; // common denominator of the shares
+  adjustment: 'AWL' | 'RADD' | null;
+  unallocated: FractionDto; // left with no heir to take it
+  genderUnknown: { personId: string; name: string }[]; // survivors left out for want of a recorded gender
+  sideUnknown: { personId: string; name: string }[]; // siblings (or their sons) left out for want of a recorded parent
+}
+
+export interface CommonAncestorsResponseDto {
+  personIds: string[];
+  ancestors: {
+    ancestorId: string;
+    name: string;
+    distances: { personId: string; generations: number }[]; // generations below the ancestor, per person
+  }[];
+}
+
+export interface PedigreeCollapseResponseDto {
+  personId: string;
+  distinctAncestors: number;
+  ancestorSlots: number; // places in the pedigree, one per line of descent
+  collapse: number; // 1 - distinctAncestors / ancestorSlots
+  repeated: {
+    ancestorId: string;
+    name: string;
+    generations: number[]; // each generation the ancestor appears at, nearest first
+    paths: number;
+  }[];
+}
+
+export interface ConsanguinityPathDto {
+  ancestorId: string;
+  path: { personId: string; name: string }[]; // up to the common ancestor, then down
+  ancestorInbreeding: number;
+  contribution: number;
+}
+
+export interface RelatednessResponseDto {
+  personIds: [string, string];
+  kinship: number;
+  relationship: number; // Wright's coefficient of relationship
+  inbreeding: [number, number];
+  paths: ConsanguinityPathDto[];
+  truncated: boolean;
+}
+
+export interface InbreedingResponseDto {
+  personId: string;
+  parentIds: string[];
+  inbreeding: number;
+  paths: ConsanguinityPathDto[];
+  truncated: boolean;
+}
+
+export type TreeImportPreviewDto = TreeImportPreview;
+
+export type TreeImportedDto = ImportTreeResult;
+
+export type PersonsImportedDto = ImportPersonsResult;
+
 export interface FamilyTreeCreatedDto {
   treeId: string;
   message: string;
@@ -105,6 +105,70 @@ describe('Mutation Audit Coverage (e2e)', () => {
     });
   });
 
+  describe('UPDATE_PERSON', () => {
+    it('should log audit entry when person is updated', async () => {
+      const treeId = `audit-tree-update-${Date.now()}`;
+      const personId = 'audit-person-update';
+
+      // Setup tree and person
+      await request(server)
+        .post('/api/trees')
+        .send({ treeId })
+        .expect(HttpStatus.CREATED);
+
+      await request(server)
+        .post(`/api/trees/${treeId}/persons`)
+        .send({ personId, name: 'Alice', gender: 'FEMALE' })
+        .expect(HttpStatus.CREATED);
+
+      // Update person
+      await request(server)
+        .put(`/api/trees/${treeId}/persons/${personId}`)
+        .send({ name: 'Alicia' })
+        .expect(HttpStatus.OK);
+
+      // Fetch person history
+      const history = await request(server)
+        .get(`/api/trees/${treeId}/persons/${personId}/history`)
+        .expect(HttpStatus.OK);
+
+      const updateEntry = history.body.entries.find(
+        (e: any) => e.action === 'UPDATE_PERSON'
+      );
+      expect(updateEntry).toBeDefined();
+      expect(updateEntry.treeId).toBe(treeId);
+      expect(updateEntry.actor).toHaveProperty('userId');
+      expect(updateEntry).toHaveProperty('timestamp');
+    });
+
+    it('should not log audit entry when update changes nothing', async () => {
+      const treeId = `audit-tree-noop-${Date.now()}`;
+      const personId = 'audit-person-noop';
+
+      await request(server)
+        .post('/api/trees')
+        .send({ treeId })
+        .expect(HttpStatus.CREATED);
+
+      await request(server)
+        .post(`/api/trees/${treeId}/persons`)
+        .send({ personId, name: 'Alice', gender: 'FEMALE' })
+        .expect(HttpStatus.CREATED);
+
+      // Same values as already recorded
+      await request(server)
+        .put(`/api/trees/${treeId}/persons/${personId}`)
+        .send({ name: 'Alice', gender: 'FEMALE' })
+        .expect(HttpStatus.OK);
+
+      const history = await request(server)
+        .get(`/api/trees/${treeId}/persons/${personId}/history`)
+        .expect(HttpStatus.OK);
+
+      expect(history.body.entries.map((e: any) => e.action)).toEqual(['CREATE_PERSON']);
+    });
+  });
+
   describe('ESTABLISH_PARENT_CHILD', () => {
     it('should log audit entry when parent-child relationship is established', async () => {
       const treeId = `audit-tree-parent-${Date.now()}`;
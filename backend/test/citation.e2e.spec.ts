@@ -0,0 +1,138 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { MongoClient } from 'mongodb';
+import { AppModule } from '../src/app.module';
+
+describe('Sources & Citations E2E', () => {
+  let app: INestApplication;
+  let mongoClient: MongoClient;
+  const treeId = 'citation-tree';
+  const dbName = 'silsilah_citation_test';
+  const apiBase = '/api/trees';
+  const tree = `${apiBase}/${treeId}`;
+
+  beforeAll(async () => {
+    process.env.MONGODB_DB_NAME = dbName;
+    process.env.MONGODB_URI = 'mongodb://localhost:27017';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+    mongoClient = moduleFixture.get('MONGO_CLIENT');
+
+    const db = mongoClient.db(dbName);
+    await db.collection('family_trees').deleteMany({});
+
+    await request(app.getHttpServer()).post(apiBase).send({ treeId }).expect(201);
+    for (const person of [
+      { personId: 'daud', name: 'Daud', gender: 'MALE', birthDate: '1870' },
+      { personId: 'ismail', name: 'Ismail', gender: 'MALE', birthDate: '1901' },
+    ]) {
+      await request(app.getHttpServer()).post(`${tree}/persons`).send(person).expect(201);
+    }
+    await request(app.getHttpServer())
+      .post(`${tree}/relationships/parent-child`)
+      .send({ parentId: 'daud', childId: 'ismail' })
+      .expect(201);
+  });
+
+  afterAll(async () => {
+    const db = mongoClient.db(dbName);
+    await db.collection('family_trees').deleteMany({});
+    await app.close();
+    await mongoClient.close();
+  });
+
+  it('POST /trees/:id/sources records a source', async () => {
+    const res = await request(app.getHttpServer())
+      .post(`${tree}/sources`)
+      .send({ title: 'Salasilah Keluarga Daud', repository: 'Family of Haji Ismail', reference: 'MS 1' })
+      .expect(201);
+    expect(res.body).toEqual({
+      sourceId: 'S1',
+      title: 'Salasilah Keluarga Daud',
+      author: null,
+      repository: 'Family of Haji Ismail',
+      reference: 'MS 1',
+    });
+
+    await request(app.getHttpServer()).post(`${tree}/sources`).send({ title: '' }).expect(400);
+  });
+
+  it('PUT /trees/:id/sources/:sourceId updates a source', async () => {
+    const res = await request(app.getHttpServer())
+      .put(`${tree}/sources/S1`)
+      .send({ repository: null })
+      .expect(200);
+    expect(res.body).toMatchObject({ title: 'Salasilah Keluarga Daud', repository: null, reference: 'MS 1' });
+  });
+
+  it('POST /trees/:id/citations cites facts that exist', async () => {
+    const res = await request(app.getHttpServer())
+      .post(`${tree}/citations`)
+      .send({
+        sourceId: 'S1',
+        target: { kind: 'PERSON', personId: 'ismail', fact: 'BIRTH' },
+        page: 'f. 3',
+        quality: 'SECONDARY',
+      })
+      .expect(201);
+    expect(res.body).toMatchObject({ citationId: 'C1', sourceId: 'S1', page: 'f. 3', quality: 'SECONDARY' });
+
+    await request(app.getHttpServer())
+      .post(`${tree}/citations`)
+      .send({ sourceId: 'S1', target: { kind: 'PARENT_CHILD', parentId: 'daud', childId: 'ismail' } })
+      .expect(201);
+
+    await request(app.getHttpServer())
+      .post(`${tree}/citations`)
+      .send({ sourceId: 'S1', target: { kind: 'PARENT_CHILD', parentId: 'ismail', childId: 'daud' } })
+      .expect(404);
+    await request(app.getHttpServer())
+      .post(`${tree}/citations`)
+      .send({ sourceId: 'S1', target: { kind: 'PERSON', personId: 'ismail' }, quality: 'EXCELLENT' })
+      .expect(400);
+  });
+
+  it('GET /trees/:id/persons/:personId/citations lists citations of the person and their links', async () => {
+    const ismail = await request(app.getHttpServer()).get(`${tree}/persons/ismail/citations`).expect(200);
+    expect(ismail.body.map((c: any) => c.citationId)).toEqual(['C1', 'C2']);
+
+    const daud = await request(app.getHttpServer()).get(`${tree}/persons/daud/citations`).expect(200);
+    expect(daud.body.map((c: any) => c.citationId)).toEqual(['C2']);
+  });
+
+  it('DELETE /trees/:id/sources/:sourceId refuses a cited source', async () => {
+    await request(app.getHttpServer()).delete(`${tree}/sources/S1`).expect(409);
+  });
+
+  it('GET /trees/:id/export/gedcom writes SOUR records and citations', async () => {
+    const res = await request(app.getHttpServer()).get(`${tree}/export/gedcom`).expect(200);
+    expect(res.text).toContain('1 BIRT\n2 DATE 1901\n2 SOUR @S1@\n3 PAGE f. 3\n3 QUAY 2\n');
+    expect(res.text).toContain('1 SOUR @S1@\n2 NOTE Parent: Daud\n');
+    expect(res.text).toContain(
+      '0 @S1@ SOUR\n1 TITL Salasilah Keluarga Daud\n1 REPO\n2 CALN MS 1\n0 @U1@ SUBM\n1 NAME silsilah\n0 TRLR',
+    );
+  });
+
+  it('PUT and DELETE /trees/:id/citations/:citationId', async () => {
+    const res = await request(app.getHttpServer())
+      .put(`${tree}/citations/C1`)
+      .send({ transcription: 'Ismail bin Daud, lahir 1901' })
+      .expect(200);
+    expect(res.body).toMatchObject({ page: 'f. 3', transcription: 'Ismail bin Daud, lahir 1901' });
+
+    await request(app.getHttpServer()).delete(`${tree}/citations/C1`).expect(200);
+    await request(app.getHttpServer()).delete(`${tree}/citations/C1`).expect(404);
+  });
+
+  it('records each change in the person history', async () => {
+    const res = await request(app.getHttpServer()).get(`${tree}/persons/ismail/history`).expect(200);
+    const actions = res.body.entries.map((e: any) => e.action);
+    expect(actions).toEqual(expect.arrayContaining(['ADD_CITATION', 'UPDATE_CITATION', 'REMOVE_CITATION']));
+  });
+});
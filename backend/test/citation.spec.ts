@@ -0,0 +1,171 @@
+/**
+ * Sources & Citations - Test Suite
+ *
+ * Tests cover:
+ * - Source and citation validation
+ * - Citing persons, facts, events and relationships that must exist
+ * - Sources in use cannot be removed; citations follow their fact
+ * - GEDCOM SOUR records and source citations
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { GenealogyGraph } from '../src/domain/genealogy-graph';
+import { GenealogicalDate } from '../src/domain/genealogical-date';
+import { Source } from '../src/domain/source';
+import { Citation, citationTargetKey } from '../src/domain/citation';
+import {
+  DuplicateRelationshipError,
+  InvariantViolationError,
+  NotFoundError,
+  SourceInUseError,
+} from '../src/domain/errors';
+
+// Ismail son of Daud and Mariam, recorded in the family salasilah
+const buildGraph = () => {
+  const graph = new GenealogyGraph('tree-sources');
+  graph.addPerson({ personId: 'daud', name: 'Daud', gender: 'MALE', birthDate: GenealogicalDate.parse('1870') });
+  graph.addPerson({ personId: 'mariam', name: 'Mariam', gender: 'FEMALE' });
+  graph.addPerson({ personId: 'ismail', name: 'Ismail', gender: 'MALE', birthDate: GenealogicalDate.parse('1901') });
+  graph.addParentChildRelationship('daud', 'ismail');
+  graph.addSpouseRelationship('mariam', 'daud');
+  graph.addPersonEvent('ismail', { type: 'HAJJ', date: GenealogicalDate.parse('1930') });
+  graph.addSource({ title: 'Salasilah Keluarga Daud', repository: 'Family of Haji Ismail', reference: 'MS 1' });
+  return graph;
+};
+
+describe('Sources & Citations', () => {
+  describe('validation', () => {
+    it('requires a source title', () => {
+      expect(() => Source.create({ sourceId: 'S1', title: ' ' })).toThrow(InvariantViolationError);
+    });
+
+    it('rejects unknown target kinds and quality ratings', () => {
+      expect(() =>
+        Citation.create({ citationId: 'C1', sourceId: 'S1', target: { kind: 'GRAVE' } as any }),
+      ).toThrow(InvariantViolationError);
+      expect(() =>
+        Citation.create({
+          citationId: 'C1',
+          sourceId: 'S1',
+          target: { kind: 'PERSON', personId: 'ismail' },
+          quality: 'EXCELLENT' as any,
+        }),
+      ).toThrow(InvariantViolationError);
+    });
+
+    it('keys spouse citations the same whichever spouse comes first', () => {
+      const citation = Citation.create({
+        citationId: 'C1',
+        sourceId: 'S1',
+        target: { kind: 'SPOUSE', spouse1Id: 'mariam', spouse2Id: 'daud' },
+      });
+      expect(citation.target).toEqual({ kind: 'SPOUSE', spouse1Id: 'daud', spouse2Id: 'mariam' });
+      expect(citation.targetKey).toBe(citationTargetKey({ kind: 'SPOUSE', spouse1Id: 'daud', spouse2Id: 'mariam' }));
+    });
+  });
+
+  describe('citations in a tree', () => {
+    it('cites persons, facts, events and relationships', () => {
+      const graph = buildGraph();
+      graph.addCitation({ sourceId: 'S1', target: { kind: 'PERSON', personId: 'ismail', fact: 'BIRTH' }, page: 'f. 3' });
+      graph.addCitation({ sourceId: 'S1', target: { kind: 'EVENT', personId: 'ismail', eventId: 'E1' } });
+      graph.addCitation({ sourceId: 'S1', target: { kind: 'PARENT_CHILD', parentId: 'daud', childId: 'ismail' } });
+      graph.addCitation({ sourceId: 'S1', target: { kind: 'SPOUSE', spouse1Id: 'daud', spouse2Id: 'mariam' } });
+
+      expect(graph.getPersonCitations('ismail').map((c) => c.citationId)).toEqual(['C1', 'C2', 'C3']);
+      expect(graph.getPersonCitations('mariam').map((c) => c.citationId)).toEqual(['C4']);
+    });
+
+    it('requires the source and the cited fact to exist', () => {
+      const graph = buildGraph();
+      expect(() => graph.addCitation({ sourceId: 'S9', target: { kind: 'PERSON', personId: 'ismail' } })).toThrow(
+        NotFoundError,
+      );
+      expect(() =>
+        graph.addCitation({ sourceId: 'S1', target: { kind: 'EVENT', personId: 'ismail', eventId: 'E9' } }),
+      ).toThrow(NotFoundError);
+      expect(() =>
+        graph.addCitation({ sourceId: 'S1', target: { kind: 'PARENT_CHILD', parentId: 'mariam', childId: 'ismail' } }),
+      ).toThrow(NotFoundError);
+    });
+
+    it('rejects the same citation twice, but not another page', () => {
+      const graph = buildGraph();
+      const target = { kind: 'PERSON', personId: 'ismail', fact: 'NAME' } as const;
+      graph.addCitation({ sourceId: 'S1', target, page: 'f. 3' });
+      expect(() => graph.addCitation({ sourceId: 'S1', target, page: 'f. 3' })).toThrow(DuplicateRelationshipError);
+      expect(() => graph.addCitation({ sourceId: 'S1', target, page: 'f. 4' })).not.toThrow();
+    });
+
+    it('keeps a cited source until its citations are removed', () => {
+      const graph = buildGraph();
+      const citation = graph.addCitation({ sourceId: 'S1', target: { kind: 'PERSON', personId: 'daud' } });
+      expect(() => graph.removeSource('S1')).toThrow(SourceInUseError);
+
+      graph.removeCitation(citation.citationId);
+      expect(graph.removeSource('S1').title).toBe('Salasilah Keluarga Daud');
+      expect(graph.getSources()).toEqual([]);
+    });
+
+    it('drops citations along with the fact they cite', () => {
+      const graph = buildGraph();
+      graph.addCitation({ sourceId: 'S1', target: { kind: 'EVENT', personId: 'ismail', eventId: 'E1' } });
+      graph.addCitation({ sourceId: 'S1', target: { kind: 'PARENT_CHILD', parentId: 'daud', childId: 'ismail' } });
+      graph.addCitation({ sourceId: 'S1', target: { kind: 'PERSON', personId: 'ismail' } });
+
+      graph.removePersonEvent('ismail', 'E1');
+      graph.removeRelationship('daud', 'ismail');
+      expect(graph.getCitations().map((c) => c.target.kind)).toEqual(['PERSON']);
+
+      graph.removePerson('ismail');
+      expect(graph.getCitations()).toEqual([]);
+    });
+
+    it('updates the page, quality and transcription only', () => {
+      const graph = buildGraph();
+      const citation = graph.addCitation({ sourceId: 'S1', target: { kind: 'PERSON', personId: 'daud' }, page: 'f. 1' });
+      const updated = graph.updateCitation(citation.citationId, { quality: 'PRIMARY', page: null });
+      expect(updated.toStored()).toEqual({
+        citationId: 'C1',
+        sourceId: 'S1',
+        target: { kind: 'PERSON', personId: 'daud', fact: null },
+        page: null,
+        quality: 'PRIMARY',
+        transcription: null,
+      });
+    });
+  });
+
+  describe('GEDCOM', () => {
+    it('writes the source record with an inline repository', () => {
+      const source = Source.create({ sourceId: 'salasilah', title: 'Salasilah', author: 'Haji Ismail', repository: 'Family', reference: 'MS 1' });
+      expect(source.toGedcomLines('S1')).toEqual([
+        '0 @S1@ SOUR',
+        '1 TITL Salasilah',
+        '1 AUTH Haji Ismail',
+        '1 REPO',
+        '2 NOTE Family',
+        '2 CALN MS 1',
+      ]);
+    });
+
+    it('writes the citation with page, transcription and quality', () => {
+      const citation = Citation.create({
+        citationId: 'C1',
+        sourceId: 'salasilah',
+        target: { kind: 'PERSON', personId: 'ismail', fact: 'BIRTH' },
+        page: 'f. 3',
+        quality: 'SECONDARY',
+        transcription: 'Ismail bin Daud\nlahir 1901',
+      });
+      expect(citation.toGedcomLines(2, 'S1')).toEqual([
+        '2 SOUR @S1@',
+        '3 PAGE f. 3',
+        '3 DATA',
+        '4 TEXT Ismail bin Daud',
+        '5 CONT lahir 1901',
+        '3 QUAY 2',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Consanguinity - Test Suite
+ *
+ * Tests cover:
+ * - Wright's coefficient of relationship for common relations
+ * - Inbreeding coefficient of the child of a cousin marriage
+ * - Paths through common ancestors, which add up to the coefficient
+ * - Paths that meet themselves, which do not count
+ * - Repeated full-sibling mating, exact without listing every path
+ * - Biological parents only; invalid and unknown persons
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { GenealogyGraph } from '../src/domain/genealogy-graph';
+import { InvariantViolationError, NotFoundError } from '../src/domain/errors';
+import { buildLineage, COUSIN_MARRIAGES } from './fixtures/lineage';
+
+const graph = buildLineage('tree-consanguinity', COUSIN_MARRIAGES);
+const r = (aId: string, bId: string) => graph.getRelatedness(aId, bId).relationship;
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+describe('Coefficient of relationship', () => {
+  it('is 1/2 for parent and child and for full siblings, 1/4 for grandparent and grandchild', () => {
+    expect(r('umar', 'ahmad')).toBeCloseTo(1 / 2);
+    expect(r('umar', 'zainab')).toBeCloseTo(1 / 2);
+    expect(r('abdullah', 'ahmad')).toBeCloseTo(1 / 4);
+  });
+
+  it('is 1/8 for first cousins, through both shared grandparents', () => {
+    const cousins = graph.getRelatedness('ahmad', 'maryam');
+    expect(cousins.kinship).toBeCloseTo(1 / 16);
+    expect(cousins.relationship).toBeCloseTo(1 / 8);
+    expect(cousins.inbreeding).toEqual([0, 0]);
+    // Ibrahim's lines run through Abdullah on both sides and do not count
+    expect(cousins.paths.map((p) => [p.ancestorId, p.personIds, p.contribution])).toEqual([
+      ['abdullah', ['ahmad', 'umar', 'abdullah', 'zainab', 'maryam'], 1 / 16],
+      ['khadijah', ['ahmad', 'umar', 'khadijah', 'zainab', 'maryam'], 1 / 16],
+    ]);
+    expect(cousins.truncated).toBe(false);
+  });
+
+  it('adds every line between relatives related more than one way', () => {
+    // Idris is Ali's half brother through Maryam and his uncle through Umar
+    const brothers = graph.getRelatedness('ali', 'idris');
+    expect(brothers.relationship).toBeGreaterThan(1 / 4);
+    expect(sum(brothers.paths.map((p) => p.contribution))).toBeCloseTo(brothers.relationship);
+    expect(brothers.paths[0]).toMatchObject({ ancestorId: 'maryam', personIds: ['ali', 'maryam', 'idris'] });
+  });
+
+  it('accounts for the inbreeding of the persons and the common ancestor', () => {
+    // φ(ali, ahmad) = (1/2 + 1/16) / 2; F(ali) = 1/16
+    const fatherAndSon = graph.getRelatedness('ali', 'ahmad');
+    expect(fatherAndSon.kinship).toBeCloseTo(9 / 32);
+    expect(fatherAndSon.inbreeding).toEqual([1 / 16, 0]);
+    expect(fatherAndSon.relationship).toBeCloseTo(9 / 16 / Math.sqrt(17 / 16));
+    expect(sum(fatherAndSon.paths.map((p) => p.contribution))).toBeCloseTo(fatherAndSon.relationship);
+  });
+
+  it('is 0 without a shared biological ancestor', () => {
+    expect(graph.getRelatedness('aminah', 'hassan')).toMatchObject({ relationship: 0, paths: [] });
+    expect(r('umar', 'yusuf')).toBe(0);
+  });
+
+  it('needs two distinct known persons', () => {
+    expect(() => graph.getRelatedness('ali', 'ali')).toThrow(InvariantViolationError);
+    expect(() => graph.getRelatedness('ali', 'nobody')).toThrow(NotFoundError);
+  });
+});
+
+describe('Inbreeding coefficient', () => {
+  it('is 1/16 for the child of first cousins', () => {
+    const ali = graph.getInbreeding('ali');
+    expect(ali.inbreeding).toBeCloseTo(1 / 16);
+    expect(ali.parentIds.sort()).toEqual(['ahmad', 'maryam']);
+    expect(ali.paths.map((p) => p.ancestorId)).toEqual(['abdullah', 'khadijah']);
+    expect(ali.paths.map((p) => p.contribution)).toEqual([1 / 32, 1 / 32]);
+  });
+
+  it('is 1/8 for the child of an uncle and niece', () => {
+    const idris = graph.getInbreeding('idris');
+    expect(idris.inbreeding).toBeCloseTo(1 / 8);
+    expect(sum(idris.paths.map((p) => p.contribution))).toBeCloseTo(1 / 8);
+  });
+
+  it('is 0 for unrelated parents or fewer than two parents', () => {
+    expect(graph.getInbreeding('ahmad')).toMatchObject({ inbreeding: 0, paths: [] });
+    expect(graph.getInbreeding('abdullah')).toEqual({
+      personId: 'abdullah',
+      parentIds: ['ibrahim'],
+      inbreeding: 0,
+      paths: [],
+      truncated: false,
+    });
+    expect(graph.getInbreeding('yusuf').inbreeding).toBe(0);
+    expect(() => graph.getInbreeding('nobody')).toThrow(NotFoundError);
+  });
+
+  it('stays exact through generations of full-sibling mating', () => {
+    // Two founders; each generation's pair are both children of the pair before
+    const ladder = new GenealogyGraph('tree-ladder');
+    const depth = 40;
+    for (let g = 0; g <= depth; g++) {
+      ladder.addPerson({ personId: `m${g}`, name: `M${g}`, gender: 'MALE' });
+      ladder.addPerson({ personId: `f${g}`, name: `F${g}`, gender: 'FEMALE' });
+      if (g === 0) continue;
+      for (const parentId of [`m${g - 1}`, `f${g - 1}`]) {
+        ladder.addParentChildRelationship(parentId, `m${g}`);
+        ladder.addParentChildRelationship(parentId, `f${g}`);
+      }
+    }
+    // F(t) = (1 + 2 F(t-1) + F(t-2)) / 4
+    const expected = [0, 0];
+    for (let g = 2; g <= depth; g++) expected.push((1 + 2 * expected[g - 1] + expected[g - 2]) / 4);
+
+    const inbred = ladder.getInbreeding(`m${depth}`);
+    expect(inbred.inbreeding).toBeCloseTo(expected[depth], 12);
+    expect(inbred.truncated).toBe(true);
+    expect(inbred.paths.length).toBeLessThanOrEqual(50);
+    expect(ladder.getRelatedness(`m${depth}`, `f${depth}`).relationship).toBeGreaterThan(0.99);
+  });
+});
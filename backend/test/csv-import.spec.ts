@@ -0,0 +1,192 @@
+/**
+ * CSV Import - Test Suite
+ *
+ * Tests cover:
+ * - CSV records: quoted cells, semicolon and tab delimiters, CRLF, byte-order mark, blank lines
+ * - Columns found by header aliases in any order, or named by an explicit mapping
+ * - Relationships below the persons, in a separate CSV, or on their own, with implied types and subtypes
+ * - Row-level errors reported with their section and line, other rows still read
+ * - Existing persons skipped, or updated with upsert; relationships already in the tree skipped
+ * - CSVs that cannot be imported at all
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { GenealogyGraph } from '../src/domain/genealogy-graph';
+import { GenealogicalDate } from '../src/domain/genealogical-date';
+import { readCsvRecords } from '../src/domain/csv-parser';
+import { importCsv } from '../src/domain/csv-import';
+
+const edges = (graph: GenealogyGraph) => [
+  ...graph.getParentChildEdgesSnapshot().map((e) => `${e.parentId}->${e.childId} ${e.type}`),
+  ...graph.getSpouseEdgesSnapshot().map((e) => `${e.spouse1Id}~${e.spouse2Id}`),
+];
+
+describe('CSV records', () => {
+  it('reads quoted cells holding delimiters, quotes and line breaks', () => {
+    const records = readCsvRecords('id,name,note\r\np1,"Ali, son of ""Umar""","two\nlines"\r\np2,Fatimah,\r\n');
+
+    expect(records).toEqual([
+      { line: 1, cells: ['id', 'name', 'note'] },
+      { line: 2, cells: ['p1', 'Ali, son of "Umar"', 'two\nlines'] },
+      { line: 4, cells: ['p2', 'Fatimah', ''] },
+    ]);
+  });
+
+  it('detects semicolon and tab delimiters from the first line and drops the byte-order mark', () => {
+    expect(readCsvRecords('\uFEFFid;name;born\np1;Ali;1,5')).toEqual([
+      { line: 1, cells: ['id', 'name', 'born'] },
+      { line: 2, cells: ['p1', 'Ali', '1,5'] },
+    ]);
+    expect(readCsvRecords('id\tname\np1\tAli, Jr').map((r) => r.cells)).toEqual([
+      ['id', 'name'],
+      ['p1', 'Ali, Jr'],
+    ]);
+  });
+
+  it('keeps blank lines as records without cells', () => {
+    expect(readCsvRecords('a,b\n\n,\nc,d').map((r) => r.cells)).toEqual([['a', 'b'], [], ['', ''], ['c', 'd']]);
+  });
+});
+
+describe('CSV import', () => {
+  it('reads persons by header aliases in any order', () => {
+    const graph = new GenealogyGraph('t1');
+    const report = importCsv(
+      graph,
+      'Full Name,Sex,Person ID,Date of Birth,POB,Died,Notes\n' +
+        'Ahmad bin Ali,M,I1,ABT 1890,Tarim,1950-02-01,imam\n' +
+        'Salmah binti Umar,f,I2,,,,\n',
+    );
+
+    expect(report).toMatchObject({ personRows: 2, personIds: ['I1', 'I2'], skipped: [], updated: [], errors: [] });
+    expect(graph.getPerson('I1')).toMatchObject({ name: 'Ahmad bin Ali', gender: 'MALE', birthPlace: 'Tarim' });
+    expect(graph.getPerson('I1')!.birthDate!.toString()).toBe('ABT 1890');
+    expect(graph.getPerson('I2')).toMatchObject({ gender: 'FEMALE', birthDate: null, deathDate: null });
+  });
+
+  it('reads columns named by an explicit mapping before the aliases', () => {
+    const graph = new GenealogyGraph('t1');
+    const report = importCsv(graph, 'Code,Nama,Name,Kelamin\nk1,Abdullah,ignored,L\n', {
+      columns: { personId: 'code', name: 'Nama' },
+    });
+
+    expect(report.personIds).toEqual(['k1']);
+    expect(graph.getPerson('k1')).toMatchObject({ name: 'Abdullah', gender: 'UNKNOWN' });
+    expect(() => importCsv(graph, 'id,name\nk2,Umar\n', { columns: { birthDate: 'Lahir' } })).toThrow(
+      "column 'Lahir' for birthDate is not in the CSV header",
+    );
+  });
+
+  it('reads relationships below a blank line, with implied types and subtypes', () => {
+    const graph = new GenealogyGraph('t1');
+    const report = importCsv(
+      graph,
+      'personId,name,gender\n' +
+        'I1,Ahmad,MALE\n' +
+        'I2,Salmah,FEMALE\n' +
+        'I3,Yusuf,MALE\n' +
+        '\n' +
+        'type,personAId,personBId,subtype\n' +
+        'spouse,I1,I2,\n' +
+        'parent-child,I1,I3,\n' +
+        'Parent Child,I2,I3,adoptive\n',
+    );
+
+    expect(report).toMatchObject({ personRows: 3, relationshipRows: 3, relationships: 3, errors: [] });
+    expect(edges(graph).sort()).toEqual(['I1->I3 BIOLOGICAL', 'I1~I2', 'I2->I3 ADOPTIVE']);
+
+    const other = new GenealogyGraph('t2');
+    importCsv(other, 'id,name\nA,Ali\nB,Badr\nC,Chadijah\n\nParent ID,Child ID,Pedigree\nA,B,FOSTER\n');
+    importCsv(other, 'Spouse 1,Spouse 2\nA,C\n');
+    expect(edges(other).sort()).toEqual(['A->B FOSTER', 'A~C']);
+  });
+
+  it('reads relationships from a separate CSV, refusing them in both places', () => {
+    const graph = new GenealogyGraph('t1');
+    const report = importCsv(graph, 'id,name\nA,Ali\nB,Badr\n', { relationshipsCsv: 'parentId,childId\nA,B\n' });
+
+    expect(report.relationships).toBe(1);
+    expect(() =>
+      importCsv(new GenealogyGraph('t2'), 'id,name\nA,Ali\nB,Badr\n\nparentId,childId\nA,B\n', {
+        relationshipsCsv: 'parentId,childId\nA,B\n',
+      }),
+    ).toThrow('relationships are given both in the CSV and as a separate CSV');
+  });
+
+  it('reports every failed row with its section and line and reads the others', () => {
+    const graph = new GenealogyGraph('t1');
+    graph.addPerson({ personId: 'old', name: 'Old', gender: 'MALE' });
+    const report = importCsv(
+      graph,
+      'personId,name,gender,birthDate\n' +
+        'A,Ali,MALE,1900\n' +
+        'B,Badr,X,01/15/1960\n' +
+        'A,Again,MALE,\n' +
+        'C,Chadijah,FEMALE,1930\n' +
+        '\n' +
+        'type,personAId,personBId,subtype\n' +
+        'parent-child,A,B,\n' +
+        'spouse,A,C,STEP\n' +
+        'parent-child,A,C,COUSIN\n' +
+        'cousin,A,C,\n' +
+        'parent-child,C,A,\n' +
+        'parent-child,old,C,\n' +
+        'spouse,A,ghost,\n',
+    );
+
+    expect(report.personIds).toEqual(['A', 'C']);
+    expect(report.relationships).toBe(1);
+    expect(report.errors.map((e) => [e.section, e.row, e.message])).toEqual([
+      ['persons', 3, 'gender must be MALE, FEMALE, or UNKNOWN'],
+      [
+        'persons',
+        3,
+        "birthDate must be ISO 8601 format (YYYY-MM-DD) or a genealogical date such as 'ABT 1890', got '01/15/1960'",
+      ],
+      ['persons', 4, 'personId A is used by an earlier row'],
+      ['relationships', 8, 'person B was not imported'],
+      ['relationships', 9, 'subtype applies to parent-child relationships only'],
+      ['relationships', 10, 'subtype must be one of BIOLOGICAL, ADOPTIVE, STEP, FOSTER, GUARDIAN, MILK'],
+      ['relationships', 11, "type must be parent-child or spouse, got 'cousin'"],
+      ['relationships', 12, expect.any(String)],
+      ['relationships', 14, 'person ghost is not in the tree'],
+    ]);
+    expect(edges(graph)).toEqual(['old->C BIOLOGICAL']);
+  });
+
+  it('skips existing persons and relationships, or updates the persons with upsert', () => {
+    const graph = new GenealogyGraph('t1');
+    graph.addPerson({
+      personId: 'A',
+      name: 'Ali',
+      gender: 'MALE',
+      birthDate: GenealogicalDate.parse('1900'),
+      birthPlace: 'Tarim',
+    });
+    graph.addPerson({ personId: 'B', name: 'Badr', gender: 'MALE' });
+    graph.addParentChildRelationship('A', 'B', 'BIOLOGICAL');
+    const csv = 'id,name,gender,birthPlace\nA,Ali bin Umar,,\nB,Badr,MALE,Seiyun\n\nparentId,childId\nA,B\n';
+
+    const skipped = importCsv(graph, csv);
+    expect(skipped).toMatchObject({ personIds: [], skipped: ['A', 'B'], updated: [], relationshipsSkipped: 1 });
+    expect(graph.getPerson('A')!.name).toBe('Ali');
+
+    const updated = importCsv(graph, csv, { upsert: true });
+    expect(updated).toMatchObject({ skipped: [], updated: ['A', 'B'], relationshipsSkipped: 1, errors: [] });
+    expect(graph.getPerson('A')).toMatchObject({ name: 'Ali bin Umar', gender: 'MALE', birthPlace: null });
+    expect(graph.getPerson('A')!.birthDate!.toString()).toBe('1900');
+    expect(graph.getPerson('B')!.birthPlace).toBe('Seiyun');
+  });
+
+  it('throws for CSVs that cannot be imported at all', () => {
+    const graph = new GenealogyGraph('t1');
+
+    expect(() => importCsv(graph, '')).toThrow('CSV is empty');
+    expect(() => importCsv(graph, '\n\n')).toThrow('CSV is empty');
+    expect(() => importCsv(graph, 'personId,name')).toThrow('CSV contains no data rows (only header)');
+    expect(() => importCsv(graph, 'name,gender\nAli,MALE')).toThrow('CSV must include personId and name columns');
+    expect(() => importCsv(graph, 'id,name\nA,Ali\n', { relationshipsCsv: 'personA,personB\nA,A\n' })).toThrow(
+      'relationships CSV must include a type column',
+    );
+  });
+});
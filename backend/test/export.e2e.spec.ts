@@ -87,4 +87,183 @@ describe('Export E2E (owner-only)', () => {
     expect(res.text).toContain('FAM');
     expect(res.text).toContain('CHIL @c@');
   });
+
+  it('GET /trees/:id/export/gedcom?version=7.0 writes GEDCOM 7', async () => {
+    const res = await request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/export/gedcom?version=7.0`)
+      .expect(200);
+
+    expect(res.text.startsWith('0 HEAD\n1 GEDC\n2 VERS 7.0\n')).toBe(true);
+    expect(res.text).not.toContain('1 CHAR');
+    expect(res.text).toContain('0 @A@ INDI');
+  });
+
+  it('GET /trees/:id/export/gedcom rejects an unknown version', async () => {
+    await request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/export/gedcom?version=6.0`)
+      .expect(400);
+  });
+
+  it('GET /trees/:id/export/gedzip returns a zip with the GEDCOM 7 file', async () => {
+    const res = await request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/export/gedzip`)
+      .buffer(true)
+      .parse((response, callback) => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => callback(null, Buffer.concat(chunks)));
+      })
+      .expect(200);
+
+    expect(res.headers['content-type']).toContain('application/zip');
+    const archive = res.body as Buffer;
+    expect(archive.readUInt32LE(0)).toBe(0x04034b50);
+    expect(archive.subarray(30, 30 + archive.readUInt16LE(26)).toString()).toBe('gedcom.ged');
+  });
+
+  // Each case below seeds a tree of its own, beside the one above
+  const post = (path: string, body: object) =>
+    request(app.getHttpServer()).post(`${apiBase}${path}`).send(body).expect(201);
+  const exportGedcom = async (id: string, version = '5.5.1') =>
+    (await request(app.getHttpServer()).get(`${apiBase}/${id}/export/gedcom?version=${version}`).expect(200)).text;
+
+  describe('dates', () => {
+    const datesTreeId = 'export-dates-tree';
+
+    beforeAll(async () => {
+      await post('', { treeId: datesTreeId });
+      await post(`/${datesTreeId}/persons`, { personId: 'a', name: 'Alice', gender: 'FEMALE', birthDate: 'ABT 1870' });
+      await post(`/${datesTreeId}/persons`, {
+        personId: 'c',
+        name: 'Charlie',
+        gender: 'MALE',
+        birthDate: "12 Rabi' al-Awwal 1320 AH",
+      });
+    });
+
+    it('GET /trees/:id/export/gedcom keeps qualifiers and Hijri calendar escapes', async () => {
+      const text = await exportGedcom(datesTreeId);
+
+      expect(text).toContain('2 DATE ABT 1870');
+      expect(text).toContain('2 DATE @#DHIJRI@ 12 RABIA 1320');
+    });
+
+    it('GET /trees/:id/export/gedcom?version=7.0 writes Hijri dates with a declared extension tag', async () => {
+      const text = await exportGedcom(datesTreeId, '7.0');
+
+      expect(text).toContain('2 DATE _HIJRI 12 _RABIA 1320');
+      expect(text).toContain('2 TAG _HIJRI https://silsilah.app/gedcom/_HIJRI');
+    });
+  });
+
+  describe('names', () => {
+    const namesTreeId = 'export-names-tree';
+
+    beforeAll(async () => {
+      await post('', { treeId: namesTreeId });
+      await post(`/${namesTreeId}/persons`, {
+        personId: 'b',
+        gender: 'MALE',
+        names: [
+          {
+            type: 'BIRTH',
+            parts: [
+              { type: 'ISM', value: 'Ahmad' },
+              { type: 'NASAB', value: 'bin Ismail' },
+              { type: 'NISBA', value: 'al-Banjari' },
+            ],
+            variants: [{ kind: 'PHONETIC', text: 'AH-mad', method: 'English' }],
+          },
+        ],
+      });
+    });
+
+    it('GET /trees/:id/export/gedcom writes structured names', async () => {
+      const text = await exportGedcom(namesTreeId);
+
+      expect(text).toContain('1 NAME Ahmad bin Ismail /al-Banjari/\n2 TYPE birth\n2 GIVN Ahmad\n2 SURN al-Banjari');
+      expect(text).toContain('2 FONE AH-mad\n3 TYPE English');
+    });
+
+    it('GET /trees/:id/export/gedcom?version=7.0 writes name types and transliterations', async () => {
+      const text = await exportGedcom(namesTreeId, '7.0');
+
+      expect(text).toContain('2 TYPE BIRTH');
+      expect(text).toContain('2 TRAN AH-mad\n3 LANG und-fonipa');
+    });
+  });
+
+  describe('pedigree', () => {
+    const pedigreeTreeId = 'export-pedigree-tree';
+
+    // c is recorded only as a's child and d only as b's adopted child
+    beforeAll(async () => {
+      await post('', { treeId: pedigreeTreeId });
+      await post(`/${pedigreeTreeId}/persons`, { personId: 'a', name: 'Alice', gender: 'FEMALE' });
+      await post(`/${pedigreeTreeId}/persons`, { personId: 'b', name: 'Bob', gender: 'MALE' });
+      await post(`/${pedigreeTreeId}/persons`, { personId: 'c', name: 'Charlie', gender: 'MALE' });
+      await post(`/${pedigreeTreeId}/persons`, { personId: 'd', name: 'Dina', gender: 'FEMALE' });
+      await post(`/${pedigreeTreeId}/relationships/spouse`, { spouseA: 'a', spouseB: 'b' });
+      await post(`/${pedigreeTreeId}/relationships/parent-child`, { parentId: 'a', childId: 'c' });
+      await post(`/${pedigreeTreeId}/relationships/parent-child`, { parentId: 'b', childId: 'd', type: 'ADOPTIVE' });
+    });
+
+    it('GET /trees/:id/export/json returns the type of each parent-child link', async () => {
+      const res = await request(app.getHttpServer()).get(`${apiBase}/${pedigreeTreeId}/export/json`).expect(200);
+
+      expect(res.body.parentChildEdges).toEqual(
+        expect.arrayContaining([
+          { parentId: 'a', childId: 'c', type: 'BIOLOGICAL' },
+          { parentId: 'b', childId: 'd', type: 'ADOPTIVE' },
+        ]),
+      );
+    });
+
+    it('GET /trees/:id/export/gedcom links children with their pedigree', async () => {
+      const text = await exportGedcom(pedigreeTreeId);
+
+      expect(text).toContain('0 @c@ INDI');
+      expect(text).toContain('1 FAMC @F2@\n2 PEDI birth');
+      expect(text).toContain('1 FAMC @F3@\n2 PEDI adopted');
+    });
+
+    it("GET /trees/:id/export/gedcom keeps children of one parent out of that parent's marriage", async () => {
+      const text = await exportGedcom(pedigreeTreeId);
+
+      expect(text).toContain(
+        '0 @F1@ FAM\n1 WIFE @a@\n1 HUSB @b@\n0 @F2@ FAM\n1 WIFE @a@\n1 CHIL @c@\n0 @F3@ FAM\n1 HUSB @b@\n1 CHIL @d@',
+      );
+    });
+
+    it('GET /trees/:id/export/gedcom?version=7.0 writes the pedigree in upper case', async () => {
+      const text = await exportGedcom(pedigreeTreeId, '7.0');
+
+      expect(text).toContain('1 FAMC @F3@\n2 PEDI ADOPTED');
+    });
+  });
+
+  describe('marriages', () => {
+    const marriagesTreeId = 'export-marriages-tree';
+
+    beforeAll(async () => {
+      await post('', { treeId: marriagesTreeId });
+      await post(`/${marriagesTreeId}/persons`, { personId: 'a', name: 'Alice', gender: 'FEMALE' });
+      await post(`/${marriagesTreeId}/persons`, { personId: 'b', name: 'Bob', gender: 'MALE' });
+      await post(`/${marriagesTreeId}/relationships/spouse`, {
+        spouseA: 'a',
+        spouseB: 'b',
+        status: 'DIVORCED',
+        marriageDate: '12 MAR 1950',
+        marriagePlace: 'Banjarmasin',
+        divorceDate: 'ABT 1958',
+      });
+    });
+
+    it('GET /trees/:id/export/gedcom writes marriage and divorce events', async () => {
+      const text = await exportGedcom(marriagesTreeId);
+
+      expect(text).toContain('0 @F1@ FAM\n1 MARR\n2 DATE 12 MAR 1950\n2 PLAC Banjarmasin\n1 DIV\n2 DATE ABT 1958\n');
+      expect(text).toContain('1 FAMS @F1@');
+    });
+  });
 });
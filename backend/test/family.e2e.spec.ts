@@ -0,0 +1,129 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { MongoClient } from 'mongodb';
+import { AppModule } from '../src/app.module';
+
+describe('Families E2E', () => {
+  let app: INestApplication;
+  let mongoClient: MongoClient;
+  const treeId = 'family-tree';
+  const dbName = 'silsilah_family_test';
+  const apiBase = '/api/trees';
+
+  // Yusuf had Hasan with Aminah, then Zahra with Khadijah
+  beforeAll(async () => {
+    process.env.MONGODB_DB_NAME = dbName;
+    process.env.MONGODB_URI = 'mongodb://localhost:27017';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+    mongoClient = moduleFixture.get('MONGO_CLIENT');
+
+    const db = mongoClient.db(dbName);
+    await db.collection('family_trees').deleteMany({});
+
+    await request(app.getHttpServer()).post(apiBase).send({ treeId }).expect(201);
+    for (const [personId, name, gender] of [
+      ['yusuf', 'Yusuf', 'MALE'],
+      ['aminah', 'Aminah', 'FEMALE'],
+      ['khadijah', 'Khadijah', 'FEMALE'],
+      ['hasan', 'Hasan', 'MALE'],
+      ['husin', 'Husin', 'MALE'],
+      ['zahra', 'Zahra', 'FEMALE'],
+    ]) {
+      await request(app.getHttpServer())
+        .post(`${apiBase}/${treeId}/persons`)
+        .send({ personId, name, gender })
+        .expect(201);
+    }
+    for (const spouseB of ['aminah', 'khadijah']) {
+      await request(app.getHttpServer())
+        .post(`${apiBase}/${treeId}/relationships/spouse`)
+        .send({ spouseA: 'yusuf', spouseB })
+        .expect(201);
+    }
+  });
+
+  afterAll(async () => {
+    const db = mongoClient.db(dbName);
+    await db.collection('family_trees').deleteMany({});
+    await app.close();
+    await mongoClient.close();
+  });
+
+  it('POST /trees/:id/families records a union', async () => {
+    const res = await request(app.getHttpServer())
+      .post(`${apiBase}/${treeId}/families`)
+      .send({ parent1Id: 'yusuf', parent2Id: 'aminah' })
+      .expect(201);
+    expect(res.body).toEqual({ familyId: 'F1' });
+
+    await request(app.getHttpServer())
+      .post(`${apiBase}/${treeId}/families`)
+      .send({ familyId: 'yusuf-khadijah', parent1Id: 'khadijah', parent2Id: 'yusuf' })
+      .expect(201);
+  });
+
+  it('POST /trees/:id/families rejects a union recorded twice', () => {
+    return request(app.getHttpServer())
+      .post(`${apiBase}/${treeId}/families`)
+      .send({ parent1Id: 'aminah', parent2Id: 'yusuf' })
+      .expect(409);
+  });
+
+  it('POST /trees/:id/families/:familyId/children attaches children in order', async () => {
+    await request(app.getHttpServer())
+      .post(`${apiBase}/${treeId}/families/F1/children`)
+      .send({ childId: 'husin' })
+      .expect(201);
+    const res = await request(app.getHttpServer())
+      .post(`${apiBase}/${treeId}/families/F1/children`)
+      .send({ childId: 'hasan', position: 0 })
+      .expect(201);
+    expect(res.body).toEqual({ familyId: 'F1', parentIds: ['aminah', 'yusuf'], childIds: ['hasan', 'husin'], inferred: false });
+
+    await request(app.getHttpServer())
+      .post(`${apiBase}/${treeId}/families/yusuf-khadijah/children`)
+      .send({ childId: 'zahra' })
+      .expect(201);
+  });
+
+  it('POST /trees/:id/families/:familyId/children returns 404 for an unknown family', () => {
+    return request(app.getHttpServer())
+      .post(`${apiBase}/${treeId}/families/F9/children`)
+      .send({ childId: 'zahra' })
+      .expect(404);
+  });
+
+  it('GET /trees/:id/families lists the unions', async () => {
+    const res = await request(app.getHttpServer()).get(`${apiBase}/${treeId}/families`).expect(200);
+    expect(res.body).toEqual([
+      { familyId: 'F1', parentIds: ['aminah', 'yusuf'], childIds: ['hasan', 'husin'], inferred: false },
+      { familyId: 'yusuf-khadijah', parentIds: ['khadijah', 'yusuf'], childIds: ['zahra'], inferred: false },
+    ]);
+  });
+
+  it('GET /trees/:id/persons/:personId/siblings separates full and half siblings', async () => {
+    const res = await request(app.getHttpServer()).get(`${apiBase}/${treeId}/persons/hasan/siblings`).expect(200);
+    expect(res.body).toEqual({ personId: 'hasan', full: ['husin'], half: ['zahra'] });
+  });
+
+  it('GET /trees/:id/render-data groups children by family', async () => {
+    const res = await request(app.getHttpServer()).get(`${apiBase}/${treeId}/render-data`).expect(200);
+    expect(res.body.families).toEqual([
+      { id: 'F1', parentIds: ['aminah', 'yusuf'], childIds: ['hasan', 'husin'] },
+      { id: 'yusuf-khadijah', parentIds: ['khadijah', 'yusuf'], childIds: ['zahra'] },
+    ]);
+  });
+
+  it('GET /trees/:id/export/gedcom writes each child under its own union', async () => {
+    const res = await request(app.getHttpServer()).get(`${apiBase}/${treeId}/export/gedcom`).expect(200);
+    expect(res.text).toContain('0 @F1@ FAM\n1 WIFE @aminah@\n1 HUSB @yusuf@\n1 CHIL @hasan@\n1 CHIL @husin@\n');
+    expect(res.text).toContain('0 @F2@ FAM\n1 WIFE @khadijah@\n1 HUSB @yusuf@\n1 CHIL @zahra@\n');
+  });
+});
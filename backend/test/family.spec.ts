@@ -0,0 +1,184 @@
+/**
+ * Family - Test Suite
+ *
+ * Tests cover:
+ * - Recording unions and attaching children to a specific one
+ * - Parent links created with the child, and rolled back on failure
+ * - Children in more than one union
+ * - Families inferred for children recorded only by parent-child edges
+ * - Full vs. half siblings, by biological parents
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { GenealogyGraph } from '../src/domain/genealogy-graph';
+import { GenealogicalDate } from '../src/domain/genealogical-date';
+import { Family, resolveFamilies } from '../src/domain/family';
+import {
+  AgeInconsistencyError,
+  DuplicateRelationshipError,
+  InvariantViolationError,
+  NotFoundError,
+} from '../src/domain/errors';
+
+// Yusuf had Hasan and Husin with Aminah, then Zahra with Khadijah
+const buildGraph = () => {
+  const graph = new GenealogyGraph('tree-family');
+  graph.addPerson({ personId: 'yusuf', name: 'Yusuf', gender: 'MALE', birthDate: GenealogicalDate.parse('1900') });
+  graph.addPerson({ personId: 'aminah', name: 'Aminah', gender: 'FEMALE' });
+  graph.addPerson({ personId: 'khadijah', name: 'Khadijah', gender: 'FEMALE' });
+  graph.addPerson({ personId: 'hasan', name: 'Hasan', gender: 'MALE' });
+  graph.addPerson({ personId: 'husin', name: 'Husin', gender: 'MALE' });
+  graph.addPerson({ personId: 'zahra', name: 'Zahra', gender: 'FEMALE' });
+  graph.addSpouseRelationship('yusuf', 'aminah');
+  graph.addSpouseRelationship('yusuf', 'khadijah');
+  return graph;
+};
+
+describe('Family', () => {
+  describe('createFamily', () => {
+    it('generates ids and records each union once', () => {
+      const graph = buildGraph();
+      expect(graph.createFamily('yusuf', 'aminah')).toBe('F1');
+      expect(graph.createFamily('khadijah', 'yusuf', 'yusuf-khadijah')).toBe('yusuf-khadijah');
+      expect(graph.createFamily('yusuf')).toBe('F3');
+      expect(() => graph.createFamily('aminah', 'yusuf')).toThrow(DuplicateRelationshipError);
+    });
+
+    it('requires existing, distinct parents', () => {
+      const graph = buildGraph();
+      expect(() => graph.createFamily('yusuf', 'nobody')).toThrow(NotFoundError);
+      expect(() => graph.createFamily('yusuf', 'yusuf')).toThrow(InvariantViolationError);
+    });
+  });
+
+  describe('addChildToFamily', () => {
+    it('links the child to both parents and keeps birth order', () => {
+      const graph = buildGraph();
+      const familyId = graph.createFamily('yusuf', 'aminah');
+      graph.addChildToFamily(familyId, 'husin');
+      graph.addChildToFamily(familyId, 'hasan', 'BIOLOGICAL', 0);
+
+      expect(graph.getFamily(familyId)!.childIds).toEqual(['hasan', 'husin']);
+      expect(graph.getParentChildEdgesSnapshot()).toEqual(
+        expect.arrayContaining([
+          { parentId: 'yusuf', childId: 'hasan', type: 'BIOLOGICAL' },
+          { parentId: 'aminah', childId: 'hasan', type: 'BIOLOGICAL' },
+        ]),
+      );
+    });
+
+    it('leaves no parent link behind when a check fails', () => {
+      const graph = buildGraph();
+      graph.addPerson({ personId: 'elder', name: 'Elder', gender: 'MALE', birthDate: GenealogicalDate.parse('1850') });
+      const familyId = graph.createFamily('aminah', 'yusuf');
+      // aminah (no birth date) is linked first; yusuf, born 1900, cannot father someone born 1850
+      expect(() => graph.addChildToFamily(familyId, 'elder')).toThrow(AgeInconsistencyError);
+      expect(graph.getParentChildEdgesSnapshot()).toEqual([]);
+      expect(graph.getFamily(familyId)!.childIds).toEqual([]);
+    });
+
+    it('lets a child belong to a birth union and a step-parent\'s union', () => {
+      const graph = buildGraph();
+      const birth = graph.createFamily('yusuf', 'aminah');
+      const step = graph.createFamily('yusuf', 'khadijah');
+      graph.addChildToFamily(birth, 'hasan');
+      graph.addChildToFamily(step, 'hasan', 'STEP');
+
+      expect(graph.getFamily(step)!.childIds).toEqual(['hasan']);
+      expect(graph.getParentChildEdgesSnapshot()).toContainEqual({ parentId: 'khadijah', childId: 'hasan', type: 'STEP' });
+      expect(graph.getSiblings('hasan').full).toEqual([]);
+    });
+
+    it('rejects unknown families and children already attached', () => {
+      const graph = buildGraph();
+      const familyId = graph.createFamily('yusuf', 'aminah');
+      graph.addChildToFamily(familyId, 'hasan');
+      expect(() => graph.addChildToFamily(familyId, 'hasan')).toThrow(DuplicateRelationshipError);
+      expect(() => graph.addChildToFamily('F9', 'husin')).toThrow(NotFoundError);
+    });
+
+    it('detaches the child when a parent link is removed', () => {
+      const graph = buildGraph();
+      const familyId = graph.createFamily('yusuf', 'aminah');
+      graph.addChildToFamily(familyId, 'hasan');
+      graph.removeRelationship('aminah', 'hasan');
+      expect(graph.getFamily(familyId)!.childIds).toEqual([]);
+    });
+  });
+
+  describe('resolveFamilies', () => {
+    it('infers unions from parent-child edges, pairing spouses', () => {
+      const units = resolveFamilies(
+        [],
+        [
+          { parentId: 'yusuf', childId: 'hasan' },
+          { parentId: 'aminah', childId: 'hasan' },
+          { parentId: 'yusuf', childId: 'zahra' },
+          { parentId: 'khadijah', childId: 'zahra' },
+          { parentId: 'yusuf', childId: 'ali' },
+        ],
+        [{ spouse1Id: 'aminah', spouse2Id: 'yusuf' }],
+      );
+      expect(units).toEqual([
+        { familyId: 'aminah~yusuf', parentIds: ['aminah', 'yusuf'], childIds: ['hasan'], inferred: true },
+        { familyId: 'khadijah~yusuf', parentIds: ['khadijah', 'yusuf'], childIds: ['zahra'], inferred: true },
+        { familyId: 'yusuf', parentIds: ['yusuf'], childIds: ['ali'], inferred: true },
+      ]);
+    });
+
+    it('adds unattached children of a recorded union to it', () => {
+      const recorded = Family.create({ familyId: 'F1', parent1Id: 'yusuf', parent2Id: 'aminah', childIds: ['husin'] });
+      const units = resolveFamilies(
+        [recorded.toStored()],
+        [
+          { parentId: 'yusuf', childId: 'husin' },
+          { parentId: 'aminah', childId: 'husin' },
+          { parentId: 'yusuf', childId: 'hasan' },
+          { parentId: 'aminah', childId: 'hasan' },
+        ],
+        [],
+      );
+      expect(units).toEqual([{ familyId: 'F1', parentIds: ['aminah', 'yusuf'], childIds: ['husin', 'hasan'], inferred: false }]);
+    });
+  });
+
+  describe('getSiblings', () => {
+    it('separates full from half siblings', () => {
+      const graph = buildGraph();
+      const first = graph.createFamily('yusuf', 'aminah');
+      const second = graph.createFamily('yusuf', 'khadijah');
+      graph.addChildToFamily(first, 'hasan');
+      graph.addChildToFamily(first, 'husin');
+      graph.addChildToFamily(second, 'zahra');
+
+      expect(graph.getSiblings('hasan')).toEqual({ personId: 'hasan', full: ['husin'], half: ['zahra'] });
+      expect(graph.getSiblings('zahra')).toEqual({ personId: 'zahra', full: [], half: ['hasan', 'husin'] });
+    });
+
+    it('works on children recorded only by parent-child edges', () => {
+      const graph = buildGraph();
+      for (const [parentId, childId] of [
+        ['yusuf', 'hasan'],
+        ['aminah', 'hasan'],
+        ['yusuf', 'husin'],
+        ['aminah', 'husin'],
+        ['khadijah', 'zahra'],
+        ['yusuf', 'zahra'],
+      ]) {
+        graph.addParentChildRelationship(parentId, childId);
+      }
+      expect(graph.getSiblings('husin')).toEqual({ personId: 'husin', full: ['hasan'], half: ['zahra'] });
+    });
+
+    it('does not count step-parents when classifying siblings', () => {
+      const graph = buildGraph();
+      const birth = graph.createFamily('yusuf', 'khadijah');
+      const step = graph.createFamily('aminah', 'yusuf');
+      graph.addChildToFamily(birth, 'zahra');
+      graph.addChildToFamily(step, 'zahra', 'STEP');
+      graph.addChildToFamily(step, 'hasan');
+
+      expect(graph.getSiblings('hasan')).toEqual({ personId: 'hasan', full: [], half: ['zahra'] });
+    });
+  });
+});
@@ -0,0 +1,653 @@
+/**
+ * Farāʾiḍ - Test Suite
+ *
+ * Tests cover:
+ * - Fixed shares: spouses, parents, grandmothers, daughters, sisters, maternal siblings
+ * - Residuaries: sons with daughters, the father, brothers, sisters with daughters, nephews and uncles
+ * - Exclusion: son's children, grandparents, siblings; the son's son who brings in his cousins
+ * - al-ʿUmariyyatān, ʿawl (including al-Minbariyya), radd and the spouse left alone
+ * - Finding heirs in a tree: death dates, divorce, predeceased sons and brothers, half siblings, uncles,
+ *   and siblings whose missing parents leave full or half open
+ * - The inheritance query: names, missing death date, unknown person or tree
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { GenealogyGraph } from '../src/domain/genealogy-graph';
+import { GenealogicalDate } from '../src/domain/genealogical-date';
+import { InvariantViolationError, NotFoundError } from '../src/domain/errors';
+import { distributeEstate, type EstateDistribution, type Heir, type HeirRole } from '../src/domain/faraid';
+import { GetInheritanceHandler, type InheritanceResult } from '../src/application/queries/get-inheritance.query';
+import type { GenealogyGraphRepository } from '../src/infrastructure/repositories/genealogy-graph.repository';
+import type { Gender } from '../src/domain/person';
+import type { MarriageStatus } from '../src/domain/marriage';
+
+const LINEAL: Partial<Record<HeirRole, number>> = {
+  SON: 1,
+  DAUGHTER: 1,
+  SONS_SON: 2,
+  SONS_DAUGHTER: 2,
+  FATHER: 1,
+  MOTHER: 1,
+  PATERNAL_GRANDFATHER: 2,
+  PATERNAL_GRANDMOTHER: 2,
+  MATERNAL_GRANDMOTHER: 2,
+};
+
+// Heirs by role, `count` of each, with ids like son1, son2; [role, count, generation] for deeper lines
+const estate = (...groups: (HeirRole | [HeirRole, number] | [HeirRole, number, number])[]): EstateDistribution => {
+  const heirs: Heir[] = [];
+  for (const group of groups) {
+    const [role, count, generation] = typeof group === 'string' ? [group, 1] : group;
+    for (let i = 1; i <= count; i++) {
+      heirs.push({
+        personId: `${role.toLowerCase()}${i}${generation ? `g${generation}` : ''}`,
+        role,
+        generation: generation ?? LINEAL[role] ?? null,
+      });
+    }
+  }
+  return distributeEstate(heirs);
+};
+
+// personId → share as "n/d"
+const shares = (distribution: { heirs: { personId: string; share: { numerator: number; denominator: number } }[] }) =>
+  Object.fromEntries(
+    distribution.heirs.map(({ personId, share }) => [personId, `${share.numerator}/${share.denominator}`]),
+  );
+
+const heir = (distribution: EstateDistribution | InheritanceResult, personId: string) =>
+  distribution.heirs.find((h) => h.personId === personId)!;
+
+describe('Farāʾiḍ', () => {
+  describe('fixed shares and residuaries', () => {
+    it('gives a husband a quarter beside a son, who takes the rest', () => {
+      const result = estate('HUSBAND', 'SON');
+      expect(shares(result)).toEqual({ husband1: '1/4', son1: '3/4' });
+      expect(heir(result, 'husband1').rule).toBe('HUSBAND_QUARTER');
+      expect(heir(result, 'son1').rule).toBe('RESIDUARY');
+      expect(result.base).toBe(4);
+      expect(result.adjustment).toBeNull();
+    });
+
+    it('gives a husband half when there are no descendants', () => {
+      const result = estate('HUSBAND', 'FULL_BROTHER');
+      expect(shares(result)).toEqual({ husband1: '1/2', full_brother1: '1/2' });
+      expect(heir(result, 'husband1').rule).toBe('HUSBAND_HALF');
+    });
+
+    it('splits the residue between sons and daughters two to one after the wife', () => {
+      const result = estate('WIFE', 'SON', 'DAUGHTER');
+      expect(shares(result)).toEqual({ wife1: '1/8', son1: '7/12', daughter1: '7/24' });
+      expect(heir(result, 'wife1').rule).toBe('WIFE_EIGHTH');
+      expect(heir(result, 'daughter1').rule).toBe('RESIDUARY_WITH_BROTHER');
+      expect(result.base).toBe(24);
+    });
+
+    it('shares the wives’ eighth equally among four wives', () => {
+      const result = estate(['WIFE', 4], 'SON');
+      expect(shares(result)).toEqual({ wife1: '1/32', wife2: '1/32', wife3: '1/32', wife4: '1/32', son1: '7/8' });
+      expect(heir(result, 'wife3').fixed).toEqual({ numerator: 1, denominator: 8 });
+    });
+
+    it('gives a daughter alone half and two daughters two thirds', () => {
+      expect(shares(estate('DAUGHTER', 'FULL_UNCLE'))).toEqual({ daughter1: '1/2', full_uncle1: '1/2' });
+      const result = estate(['DAUGHTER', 2], 'FULL_UNCLE');
+      expect(shares(result)).toEqual({ daughter1: '1/3', daughter2: '1/3', full_uncle1: '1/3' });
+      expect(heir(result, 'daughter1').rule).toBe('TWO_THIRDS');
+    });
+
+    it('gives the father a sixth beside a son and the residue too beside a daughter', () => {
+      const withSon = estate('FATHER', 'SON');
+      expect(shares(withSon)).toEqual({ son1: '5/6', father1: '1/6' });
+      expect(heir(withSon, 'father1').rule).toBe('FATHER_SIXTH');
+
+      const withDaughter = estate('FATHER', 'DAUGHTER');
+      expect(shares(withDaughter)).toEqual({ daughter1: '1/2', father1: '1/2' });
+      expect(heir(withDaughter, 'father1').rule).toBe('FATHER_SIXTH_AND_RESIDUE');
+      expect(heir(withDaughter, 'father1').fixed).toEqual({ numerator: 1, denominator: 6 });
+    });
+
+    it('leaves the father nothing beyond his sixth when the fixed shares use up the estate', () => {
+      const result = estate(['DAUGHTER', 2], 'FATHER', 'MOTHER');
+      expect(shares(result)).toEqual({ daughter1: '1/3', daughter2: '1/3', father1: '1/6', mother1: '1/6' });
+    });
+
+    it('gives the mother a third, or a sixth beside two siblings even when the father excludes them', () => {
+      expect(shares(estate('MOTHER', 'FATHER'))).toEqual({ father1: '2/3', mother1: '1/3' });
+      const result = estate('FATHER', 'MOTHER', ['FULL_BROTHER', 2]);
+      expect(shares(result)).toEqual({ father1: '5/6', mother1: '1/6', full_brother1: '0/1', full_brother2: '0/1' });
+      expect(heir(result, 'mother1').rule).toBe('MOTHER_SIXTH');
+      expect(heir(result, 'full_brother1')).toMatchObject({ rule: 'EXCLUDED', excludedBy: 'FATHER' });
+    });
+
+    it('gives the mother a third of what the spouse leaves beside the father (al-ʿUmariyyatān)', () => {
+      const withHusband = estate('HUSBAND', 'FATHER', 'MOTHER');
+      expect(shares(withHusband)).toEqual({ husband1: '1/2', father1: '1/3', mother1: '1/6' });
+      expect(heir(withHusband, 'mother1').rule).toBe('MOTHER_THIRD_OF_REMAINDER');
+
+      expect(shares(estate('WIFE', 'FATHER', 'MOTHER'))).toEqual({ wife1: '1/4', father1: '1/2', mother1: '1/4' });
+    });
+
+    it('gives the mother a plain third beside a spouse and the grandfather', () => {
+      const result = estate('HUSBAND', 'PATERNAL_GRANDFATHER', 'MOTHER');
+      expect(shares(result)).toEqual({ husband1: '1/2', mother1: '1/3', paternal_grandfather1: '1/6' });
+      expect(heir(result, 'mother1').rule).toBe('MOTHER_THIRD');
+    });
+
+    it('shares a sixth between grandmothers, the mother excluding both and the father his own', () => {
+      expect(shares(estate('PATERNAL_GRANDMOTHER', 'MATERNAL_GRANDMOTHER', 'SON'))).toEqual({
+        son1: '5/6',
+        paternal_grandmother1: '1/12',
+        maternal_grandmother1: '1/12',
+      });
+
+      const withMother = estate('MOTHER', 'MATERNAL_GRANDMOTHER', 'SON');
+      expect(heir(withMother, 'maternal_grandmother1')).toMatchObject({ rule: 'EXCLUDED', excludedBy: 'MOTHER' });
+
+      const withFather = estate('FATHER', 'PATERNAL_GRANDMOTHER', 'MATERNAL_GRANDMOTHER');
+      expect(shares(withFather)).toEqual({
+        father1: '5/6',
+        paternal_grandmother1: '0/1',
+        maternal_grandmother1: '1/6',
+      });
+      expect(heir(withFather, 'paternal_grandmother1').excludedBy).toBe('FATHER');
+    });
+
+    it('gives maternal siblings a sixth, or a third equally between brothers and sisters', () => {
+      const one = estate('MATERNAL_SISTER', 'FULL_BROTHER');
+      expect(shares(one)).toEqual({ full_brother1: '5/6', maternal_sister1: '1/6' });
+      expect(heir(one, 'maternal_sister1').rule).toBe('MATERNAL_SIBLING_SIXTH');
+
+      const several = estate('MATERNAL_BROTHER', 'MATERNAL_SISTER', 'FULL_UNCLE');
+      expect(shares(several)).toEqual({ maternal_brother1: '1/6', maternal_sister1: '1/6', full_uncle1: '2/3' });
+      expect(heir(several, 'maternal_brother1').rule).toBe('MATERNAL_SIBLINGS_THIRD');
+    });
+  });
+
+  describe('daughters and sisters in lines', () => {
+    it('completes two thirds with a sixth for a son’s daughter beside one daughter', () => {
+      const result = estate('DAUGHTER', 'SONS_DAUGHTER', 'FULL_BROTHER');
+      expect(shares(result)).toEqual({ daughter1: '1/2', sons_daughter1: '1/6', full_brother1: '1/3' });
+      expect(heir(result, 'sons_daughter1').rule).toBe('SIXTH_COMPLETING_TWO_THIRDS');
+    });
+
+    it('excludes a son’s daughter once daughters take two thirds', () => {
+      const result = estate(['DAUGHTER', 2], 'SONS_DAUGHTER');
+      expect(heir(result, 'sons_daughter1')).toMatchObject({ rule: 'EXCLUDED', excludedBy: 'DAUGHTER' });
+      expect(shares(result)).toMatchObject({ daughter1: '1/2', daughter2: '1/2' });
+      expect(result.adjustment).toBe('RADD');
+    });
+
+    it('brings in a son’s daughter beside a son’s son once daughters take two thirds', () => {
+      const result = estate(['DAUGHTER', 2], 'SONS_DAUGHTER', 'SONS_SON');
+      expect(shares(result)).toEqual({ daughter1: '1/3', daughter2: '1/3', sons_son1: '2/9', sons_daughter1: '1/9' });
+      expect(heir(result, 'sons_daughter1').rule).toBe('RESIDUARY_WITH_BROTHER');
+    });
+
+    it('lets a son’s son’s son bring in a son’s daughter above him', () => {
+      const result = estate(['DAUGHTER', 2], 'SONS_DAUGHTER', ['SONS_SON', 1, 3]);
+      expect(shares(result)).toEqual({
+        daughter1: '1/3',
+        daughter2: '1/3',
+        sons_son1g3: '2/9',
+        sons_daughter1: '1/9',
+      });
+    });
+
+    it('excludes son’s children by a son and lower lines by a son’s son', () => {
+      const result = estate('SON', 'SONS_SON', 'SONS_DAUGHTER');
+      expect(shares(result)).toEqual({ son1: '1/1', sons_son1: '0/1', sons_daughter1: '0/1' });
+      expect(heir(result, 'sons_daughter1').excludedBy).toBe('SON');
+
+      const lower = estate('SONS_SON', ['SONS_DAUGHTER', 1, 3]);
+      expect(heir(lower, 'sons_daughter1g3')).toMatchObject({ rule: 'EXCLUDED', excludedBy: 'SONS_SON' });
+    });
+
+    it('gives full sisters the residue beside daughters, shutting out paternal brothers', () => {
+      const result = estate('DAUGHTER', 'FULL_SISTER', 'PATERNAL_BROTHER');
+      expect(shares(result)).toEqual({ daughter1: '1/2', full_sister1: '1/2', paternal_brother1: '0/1' });
+      expect(heir(result, 'full_sister1').rule).toBe('RESIDUARY_WITH_DAUGHTERS');
+      expect(heir(result, 'paternal_brother1').excludedBy).toBe('FULL_SISTER');
+    });
+
+    it('gives a sister the residue after a daughter and a son’s daughter', () => {
+      const result = estate('DAUGHTER', 'SONS_DAUGHTER', 'PATERNAL_SISTER');
+      expect(shares(result)).toEqual({ daughter1: '1/2', sons_daughter1: '1/6', paternal_sister1: '1/3' });
+      expect(heir(result, 'paternal_sister1').rule).toBe('RESIDUARY_WITH_DAUGHTERS');
+    });
+
+    it('completes two thirds for a paternal sister beside one full sister', () => {
+      const result = estate('FULL_SISTER', 'PATERNAL_SISTER', 'MOTHER', 'FULL_UNCLE');
+      expect(shares(result)).toEqual({
+        mother1: '1/6',
+        full_sister1: '1/2',
+        paternal_sister1: '1/6',
+        full_uncle1: '1/6',
+      });
+      expect(heir(result, 'paternal_sister1').rule).toBe('SIXTH_COMPLETING_TWO_THIRDS');
+    });
+
+    it('excludes a paternal sister beside two full sisters unless her brother is there', () => {
+      const alone = estate(['FULL_SISTER', 2], 'PATERNAL_SISTER', 'FULL_UNCLE');
+      expect(heir(alone, 'paternal_sister1')).toMatchObject({ rule: 'EXCLUDED', excludedBy: 'FULL_SISTER' });
+      expect(shares(alone)).toMatchObject({ full_sister1: '1/3', full_sister2: '1/3', full_uncle1: '1/3' });
+
+      const withBrother = estate(['FULL_SISTER', 2], 'PATERNAL_SISTER', 'PATERNAL_BROTHER');
+      expect(shares(withBrother)).toEqual({
+        full_sister1: '1/3',
+        full_sister2: '1/3',
+        paternal_brother1: '2/9',
+        paternal_sister1: '1/9',
+      });
+    });
+
+    it('excludes paternal siblings by a full brother and all siblings by a son or the father', () => {
+      const result = estate('FULL_BROTHER', 'PATERNAL_BROTHER', 'PATERNAL_SISTER');
+      expect(heir(result, 'paternal_sister1').excludedBy).toBe('FULL_BROTHER');
+      expect(heir(estate('SON', 'FULL_SISTER'), 'full_sister1').excludedBy).toBe('SON');
+      expect(heir(estate('FATHER', 'MATERNAL_SISTER'), 'maternal_sister1').excludedBy).toBe('FATHER');
+      expect(heir(estate('DAUGHTER', 'MATERNAL_BROTHER'), 'maternal_brother1').excludedBy).toBe('DAUGHTER');
+    });
+  });
+
+  describe('the male line', () => {
+    it('puts the grandfather in the father’s place, excluding siblings', () => {
+      const result = estate('DAUGHTER', 'PATERNAL_GRANDFATHER', 'FULL_BROTHER');
+      expect(shares(result)).toEqual({ daughter1: '1/2', paternal_grandfather1: '1/2', full_brother1: '0/1' });
+      expect(heir(result, 'paternal_grandfather1').rule).toBe('FATHER_SIXTH_AND_RESIDUE');
+      expect(heir(result, 'full_brother1').excludedBy).toBe('PATERNAL_GRANDFATHER');
+    });
+
+    it('excludes the grandfather by the father', () => {
+      const result = estate('FATHER', 'PATERNAL_GRANDFATHER');
+      expect(shares(result)).toEqual({ father1: '1/1', paternal_grandfather1: '0/1' });
+      expect(heir(result, 'paternal_grandfather1').excludedBy).toBe('FATHER');
+    });
+
+    it('gives the residue to the nearest of nephews, uncles and cousins', () => {
+      const result = estate('WIFE', 'FULL_NEPHEW', 'PATERNAL_NEPHEW', 'FULL_UNCLE', ['FULL_COUSIN', 2]);
+      expect(shares(result)).toEqual({
+        wife1: '1/4',
+        full_nephew1: '3/4',
+        paternal_nephew1: '0/1',
+        full_uncle1: '0/1',
+        full_cousin1: '0/1',
+        full_cousin2: '0/1',
+      });
+      expect(heir(result, 'full_uncle1').excludedBy).toBe('FULL_NEPHEW');
+      expect(shares(estate(['PATERNAL_COUSIN', 2]))).toEqual({ paternal_cousin1: '1/2', paternal_cousin2: '1/2' });
+    });
+
+    it('leaves a residuary nothing when the fixed shares take it all (al-Ḥimāriyya, the Ḥanafī view)', () => {
+      const result = estate('HUSBAND', 'MOTHER', ['MATERNAL_BROTHER', 2], 'FULL_BROTHER');
+      expect(shares(result)).toEqual({
+        husband1: '1/2',
+        mother1: '1/6',
+        full_brother1: '0/1',
+        maternal_brother1: '1/6',
+        maternal_brother2: '1/6',
+      });
+      expect(heir(result, 'full_brother1')).toMatchObject({ rule: 'RESIDUARY', excludedBy: null });
+    });
+  });
+
+  describe('ʿawl and radd', () => {
+    it('scales the shares down when they exceed the estate', () => {
+      const result = estate('HUSBAND', ['FULL_SISTER', 2]);
+      expect(shares(result)).toEqual({ husband1: '3/7', full_sister1: '2/7', full_sister2: '2/7' });
+      expect(result.adjustment).toBe('AWL');
+      expect(result.base).toBe(7);
+      expect(heir(result, 'husband1').fixed).toEqual({ numerator: 1, denominator: 2 });
+    });
+
+    it('raises 24 to 27 in al-Minbariyya', () => {
+      const result = estate('WIFE', ['DAUGHTER', 2], 'FATHER', 'MOTHER');
+      expect(shares(result)).toEqual({
+        wife1: '1/9',
+        daughter1: '8/27',
+        daughter2: '8/27',
+        father1: '4/27',
+        mother1: '4/27',
+      });
+      expect(result.base).toBe(27);
+      expect(result.adjustment).toBe('AWL');
+    });
+
+    it('gives a residuary nothing under ʿawl', () => {
+      const result = estate('HUSBAND', 'FULL_SISTER', 'MOTHER', 'PATERNAL_BROTHER');
+      expect(result.adjustment).toBe('AWL');
+      expect(shares(result)).toEqual({
+        husband1: '3/7',
+        mother1: '1/7',
+        full_sister1: '3/7',
+        paternal_brother1: '0/1',
+      });
+    });
+
+    it('returns the surplus to the fixed sharers in proportion', () => {
+      const result = estate('MOTHER', 'DAUGHTER');
+      expect(shares(result)).toEqual({ daughter1: '3/4', mother1: '1/4' });
+      expect(result.adjustment).toBe('RADD');
+      expect(heir(result, 'daughter1').rule).toBe('HALF');
+    });
+
+    it('never returns the surplus to a spouse', () => {
+      const result = estate('WIFE', 'DAUGHTER', 'MATERNAL_GRANDMOTHER');
+      expect(shares(result)).toEqual({ wife1: '1/8', daughter1: '21/32', maternal_grandmother1: '7/32' });
+      expect(result.base).toBe(32);
+    });
+
+    it('leaves what a spouse alone does not take unallocated', () => {
+      const result = estate('HUSBAND');
+      expect(shares(result)).toEqual({ husband1: '1/2' });
+      expect(result.unallocated).toEqual({ numerator: 1, denominator: 2 });
+      expect(result.adjustment).toBeNull();
+    });
+
+    it('leaves the whole estate unallocated without heirs', () => {
+      const result = estate();
+      expect(result.heirs).toEqual([]);
+      expect(result.unallocated).toEqual({ numerator: 1, denominator: 1 });
+      expect(result.base).toBe(1);
+    });
+  });
+
+  describe('finding heirs in a tree', () => {
+    const date = (text: string) => GenealogicalDate.parse(text);
+    const repositoryOf = (graph: GenealogyGraph | null) =>
+      ({ findById: async () => graph }) as unknown as GenealogyGraphRepository;
+    const inherit = (graph: GenealogyGraph, personId: string) =>
+      new GetInheritanceHandler(repositoryOf(graph)).execute({
+        treeId: graph.treeId,
+        personId,
+      }) as Promise<InheritanceResult>;
+    const roles = (result: InheritanceResult) => Object.fromEntries(result.heirs.map((h) => [h.personId, h.role]));
+
+    const buildGraph = (
+      people: [string, Gender, string?][], // id, gender, death date
+      children: [string, string[]][],
+      spouses: [string, string, MarriageStatus?][] = [],
+    ) => {
+      const graph = new GenealogyGraph('tree-faraid');
+      for (const [personId, gender, died] of people) {
+        graph.addPerson({
+          personId,
+          name: personId[0].toUpperCase() + personId.slice(1),
+          gender,
+          deathDate: died ? date(died) : null,
+        });
+      }
+      for (const [parentId, childIds] of children) {
+        for (const childId of childIds) graph.addParentChildRelationship(parentId, childId);
+      }
+      for (const [a, b, status] of spouses) graph.addSpouseRelationship(a, b, { status: status ?? 'MARRIED' });
+      return graph;
+    };
+
+    // Yusuf died 3 MAR 2000. Married Maryam; divorced Khadijah; Safiyyah died before him.
+    // Yusuf and Maryam: Ibrahim, Ruqayyah, Hasan (died 1990; his children Ali and Fatimah) and
+    // Zaynab (died in 2000, the order unknown). Ruqayyah's daughter Layla. Zayd, adopted.
+    // Yusuf's parents Abbas (died 1980) and Hind; Abbas's parents Muttalib (died 1970) and
+    // Salma; their son Talib. Yusuf's full brother Hamzah.
+    const buildFamily = () => {
+      const graph = buildGraph(
+        [
+          ['yusuf', 'MALE', '3 MAR 2000'],
+          ['maryam', 'FEMALE'],
+          ['khadijah', 'FEMALE'],
+          ['safiyyah', 'FEMALE', '1995'],
+          ['ibrahim', 'MALE'],
+          ['ruqayyah', 'FEMALE'],
+          ['hasan', 'MALE', '1990'],
+          ['ali', 'MALE'],
+          ['fatimah', 'FEMALE'],
+          ['zaynab', 'FEMALE', '2000'],
+          ['layla', 'FEMALE'],
+          ['zayd', 'MALE'],
+          ['abbas', 'MALE', '1980'],
+          ['hind', 'FEMALE'],
+          ['muttalib', 'MALE', '1970'],
+          ['salma', 'FEMALE'],
+          ['talib', 'MALE'],
+          ['hamzah', 'MALE'],
+        ],
+        [
+          ['yusuf', ['ibrahim', 'ruqayyah', 'hasan', 'zaynab']],
+          ['maryam', ['ibrahim', 'ruqayyah', 'hasan', 'zaynab']],
+          ['hasan', ['ali', 'fatimah']],
+          ['ruqayyah', ['layla']],
+          ['abbas', ['yusuf', 'hamzah']],
+          ['hind', ['yusuf', 'hamzah']],
+          ['muttalib', ['abbas', 'talib']],
+          ['salma', ['abbas', 'talib']],
+        ],
+        [
+          ['yusuf', 'maryam'],
+          ['yusuf', 'khadijah', 'DIVORCED'],
+          ['yusuf', 'safiyyah', 'WIDOWED'],
+        ],
+      );
+      graph.addParentChildRelationship('yusuf', 'zayd', 'ADOPTIVE');
+      return graph;
+    };
+
+    it('finds the heirs who outlived the deceased and the relation of each', async () => {
+      const result = await inherit(buildFamily(), 'yusuf');
+      expect(roles(result)).toEqual({
+        maryam: 'WIFE',
+        ibrahim: 'SON',
+        ruqayyah: 'DAUGHTER',
+        ali: 'SONS_SON',
+        fatimah: 'SONS_DAUGHTER',
+        hind: 'MOTHER',
+        salma: 'PATERNAL_GRANDMOTHER',
+        hamzah: 'FULL_BROTHER',
+        talib: 'FULL_UNCLE',
+      });
+      expect(result.heirs.map((h) => h.personId)).toEqual([
+        'maryam',
+        'ibrahim',
+        'ruqayyah',
+        'ali',
+        'fatimah',
+        'hind',
+        'salma',
+        'hamzah',
+        'talib',
+      ]);
+    });
+
+    it('distributes the estate among them', async () => {
+      const result = await inherit(buildFamily(), 'yusuf');
+      expect(shares(result)).toEqual({
+        maryam: '1/8',
+        ibrahim: '17/36',
+        ruqayyah: '17/72',
+        ali: '0/1',
+        fatimah: '0/1',
+        hind: '1/6',
+        salma: '0/1',
+        hamzah: '0/1',
+        talib: '0/1',
+      });
+      expect(result.base).toBe(72);
+      expect(heir(result, 'ali').excludedBy).toBe('SON');
+      expect(heir(result, 'salma').excludedBy).toBe('MOTHER');
+      expect(heir(result, 'hind')).toMatchObject({ name: 'Hind', rule: 'MOTHER_SIXTH' });
+      expect(result).toMatchObject({
+        deceasedId: 'yusuf',
+        deceasedName: 'Yusuf',
+        deathDate: '3 MAR 2000',
+        genderUnknown: [],
+        sideUnknown: [],
+      });
+    });
+
+    it('lets the children of a son who died first inherit in his place', async () => {
+      const graph = buildFamily();
+      graph.updatePerson('ibrahim', { deathDate: date('1999') });
+      const result = await inherit(graph, 'yusuf');
+      expect(shares(result)).toMatchObject({
+        maryam: '1/8',
+        ruqayyah: '1/2',
+        ali: '5/36',
+        fatimah: '5/72',
+        hind: '1/6',
+      });
+      expect(heir(result, 'ruqayyah').rule).toBe('HALF');
+      expect(heir(result, 'fatimah').rule).toBe('RESIDUARY_WITH_BROTHER');
+    });
+
+    it('counts a relative who died after the deceased as an heir', async () => {
+      const graph = buildFamily();
+      graph.updatePerson('maryam', { deathDate: date('4 MAR 2000') });
+      expect(roles(await inherit(graph, 'yusuf')).maryam).toBe('WIFE');
+    });
+
+    it('looks no further up than a living father and no further across than a living brother', async () => {
+      const graph = buildGraph(
+        [
+          ['amina', 'FEMALE', '2020'],
+          ['hashim', 'MALE'],
+          ['zahra', 'FEMALE', '2019'],
+          ['asad', 'MALE'],
+          ['bakr', 'MALE', '2010'],
+          ['umar', 'MALE'],
+          ['said', 'MALE'],
+          ['qays', 'MALE'],
+          ['grandfather', 'MALE'],
+        ],
+        [
+          ['grandfather', ['hashim', 'qays']],
+          ['hashim', ['amina', 'asad', 'bakr']],
+          ['zahra', ['amina', 'asad', 'bakr']],
+          ['asad', ['said']],
+          ['bakr', ['umar']],
+        ],
+      );
+      expect(roles(await inherit(graph, 'amina'))).toEqual({
+        hashim: 'FATHER',
+        grandfather: 'PATERNAL_GRANDFATHER',
+        asad: 'FULL_BROTHER',
+        umar: 'FULL_NEPHEW',
+      });
+    });
+
+    // Nura died 2010, married to Harun. Her parents Idris (died 2001) and Aisha (died 2005):
+    // Nura and Sumayyah. Idris's son Yahya by Ruth; Aisha's daughter Hajar by Musa.
+    it('tells full, paternal and maternal siblings apart', async () => {
+      const graph = buildGraph(
+        [
+          ['nura', 'FEMALE', '2010'],
+          ['harun', 'MALE'],
+          ['idris', 'MALE', '2001'],
+          ['aisha', 'FEMALE', '2005'],
+          ['ruth', 'FEMALE'],
+          ['musa', 'MALE'],
+          ['sumayyah', 'FEMALE'],
+          ['yahya', 'MALE'],
+          ['hajar', 'FEMALE'],
+        ],
+        [
+          ['idris', ['nura', 'sumayyah', 'yahya']],
+          ['aisha', ['nura', 'sumayyah', 'hajar']],
+          ['ruth', ['yahya']],
+          ['musa', ['hajar']],
+        ],
+        [['nura', 'harun']],
+      );
+      const result = await inherit(graph, 'nura');
+      expect(roles(result)).toEqual({
+        harun: 'HUSBAND',
+        sumayyah: 'FULL_SISTER',
+        yahya: 'PATERNAL_BROTHER',
+        hajar: 'MATERNAL_SISTER',
+      });
+      expect(shares(result)).toEqual({ harun: '3/7', sumayyah: '3/7', yahya: '0/1', hajar: '1/7' });
+      expect(result.adjustment).toBe('AWL');
+    });
+
+    it('finds uncles and their sons when the father died first', async () => {
+      const graph = buildGraph(
+        [
+          ['salim', 'MALE', '2015'],
+          ['father', 'MALE', '2000'],
+          ['grandfather', 'MALE', '1990'],
+          ['grandmother', 'FEMALE', '1995'],
+          ['uncle', 'MALE', '2012'],
+          ['halfuncle', 'MALE'],
+          ['stepgrandmother', 'FEMALE', '2001'],
+          ['cousin', 'MALE'],
+          ['aunt', 'FEMALE'],
+        ],
+        [
+          ['grandfather', ['father', 'uncle', 'aunt', 'halfuncle']],
+          ['grandmother', ['father', 'uncle', 'aunt']],
+          ['stepgrandmother', ['halfuncle']],
+          ['father', ['salim']],
+          ['uncle', ['cousin']],
+        ],
+      );
+      const result = await inherit(graph, 'salim');
+      expect(roles(result)).toEqual({ halfuncle: 'PATERNAL_UNCLE', cousin: 'FULL_COUSIN' });
+      expect(shares(result)).toEqual({ halfuncle: '1/1', cousin: '0/1' });
+      expect(heir(result, 'cousin').excludedBy).toBe('PATERNAL_UNCLE');
+    });
+
+    // Karim died 2005. His parents Jafar and Laila: Karim. Jafar's children Tariq and Nabil (died
+    // 2003; his son Hadi) have no mother recorded, Laila's daughter Sana no father; Jafar's
+    // daughter Rana is Zubaydah's.
+    it('sets aside siblings who might share both parents or one', async () => {
+      const graph = buildGraph(
+        [
+          ['karim', 'MALE', '2005'],
+          ['jafar', 'MALE', '2000'],
+          ['laila', 'FEMALE', '2001'],
+          ['zubaydah', 'FEMALE', '2002'],
+          ['tariq', 'MALE'],
+          ['nabil', 'MALE', '2003'],
+          ['hadi', 'MALE'],
+          ['sana', 'FEMALE'],
+          ['rana', 'FEMALE'],
+        ],
+        [
+          ['jafar', ['karim', 'tariq', 'nabil', 'rana']],
+          ['laila', ['karim', 'sana']],
+          ['zubaydah', ['rana']],
+          ['nabil', ['hadi']],
+        ],
+      );
+      const result = await inherit(graph, 'karim');
+      expect(roles(result)).toEqual({ rana: 'PATERNAL_SISTER' });
+      expect(result.sideUnknown).toEqual([
+        { personId: 'hadi', name: 'Hadi' },
+        { personId: 'sana', name: 'Sana' },
+        { personId: 'tariq', name: 'Tariq' },
+      ]);
+      expect(result.genderUnknown).toEqual([]);
+    });
+
+    it('sets aside survivors whose gender is unknown', async () => {
+      const graph = buildGraph(
+        [
+          ['rahim', 'MALE', '2001'],
+          ['child', 'UNKNOWN'],
+          ['son', 'MALE'],
+        ],
+        [['rahim', ['child', 'son']]],
+      );
+      const result = await inherit(graph, 'rahim');
+      expect(roles(result)).toEqual({ son: 'SON' });
+      expect(result.genderUnknown).toEqual([{ personId: 'child', name: 'Child' }]);
+    });
+
+    it('requires a recorded date of death and a known person', async () => {
+      const graph = buildFamily();
+      await expect(inherit(graph, 'ibrahim')).rejects.toThrow(InvariantViolationError);
+      await expect(inherit(graph, 'ghost')).rejects.toThrow(NotFoundError);
+      await expect(
+        new GetInheritanceHandler(repositoryOf(null)).execute({ treeId: 'x', personId: 'yusuf' }),
+      ).resolves.toBeNull();
+    });
+  });
+});
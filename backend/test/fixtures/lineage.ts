@@ -0,0 +1,75 @@
+/**
+ * Lineage fixtures for the kinship test suites.
+ *
+ * A lineage lists its persons (named after their id, with a birth year
+ * where relative age matters), each parent's biological children, the
+ * marriages, and the parent-child links of other types. buildLineage adds
+ * them to a new graph in that order.
+ */
+
+import { GenealogyGraph } from '../../src/domain/genealogy-graph';
+import { GenealogicalDate } from '../../src/domain/genealogical-date';
+import type { MarriageProps } from '../../src/domain/marriage';
+import type { Gender } from '../../src/domain/person';
+import type { ParentChildType } from '../../src/domain/relationship';
+
+export interface Lineage {
+  people: Array<[personId: string, gender: Gender, born?: string]>;
+  children: Array<[parentId: string, childIds: string[]]>;
+  spouses?: Array<[spouseA: string, spouseB: string, marriage?: MarriageProps]>;
+  links?: Array<[parentId: string, childId: string, type: ParentChildType]>;
+}
+
+export const buildLineage = (treeId: string, lineage: Lineage): GenealogyGraph => {
+  const graph = new GenealogyGraph(treeId);
+  for (const [personId, gender, born] of lineage.people) {
+    graph.addPerson({
+      personId,
+      name: personId[0].toUpperCase() + personId.slice(1),
+      gender,
+      birthDate: born ? GenealogicalDate.parse(born) : undefined,
+    });
+  }
+  for (const [parentId, childIds] of lineage.children) {
+    for (const childId of childIds) graph.addParentChildRelationship(parentId, childId);
+  }
+  for (const [spouseA, spouseB, marriage] of lineage.spouses ?? []) {
+    graph.addSpouseRelationship(spouseA, spouseB, marriage);
+  }
+  for (const [parentId, childId, type] of lineage.links ?? []) {
+    graph.addParentChildRelationship(parentId, childId, type);
+  }
+  return graph;
+};
+
+// Ibrahim: Abdullah. Abdullah and Khadijah: Umar and Zainab.
+// Umar and Aminah: Ahmad. Zainab and Hassan: Maryam. First cousins Ahmad and Maryam: Ali.
+// Umar and his niece Maryam: Idris. Umar adopted Yusuf.
+export const COUSIN_MARRIAGES: Lineage = {
+  people: [
+    ['ibrahim', 'MALE'],
+    ['abdullah', 'MALE'],
+    ['khadijah', 'FEMALE'],
+    ['umar', 'MALE'],
+    ['zainab', 'FEMALE'],
+    ['aminah', 'FEMALE'],
+    ['hassan', 'MALE'],
+    ['ahmad', 'MALE'],
+    ['maryam', 'FEMALE'],
+    ['ali', 'MALE'],
+    ['idris', 'MALE'],
+    ['yusuf', 'MALE'],
+  ],
+  children: [
+    ['ibrahim', ['abdullah']],
+    ['abdullah', ['umar', 'zainab']],
+    ['khadijah', ['umar', 'zainab']],
+    ['umar', ['ahmad', 'idris']],
+    ['aminah', ['ahmad']],
+    ['zainab', ['maryam']],
+    ['hassan', ['maryam']],
+    ['ahmad', ['ali']],
+    ['maryam', ['ali', 'idris']],
+  ],
+  links: [['umar', 'yusuf', 'ADOPTIVE']],
+};
@@ -0,0 +1,475 @@
+/**
+ * GEDCOM Export - Test Suite
+ *
+ * Tests cover:
+ * - Families keyed by each child's actual pair of parents, whatever order the edges were stored in
+ * - Families of couples without children, and couples with two recorded families
+ * - Back-pointers: HUSB, WIFE and CHIL answered by FAMS and FAMC on every individual
+ * - Xrefs from person ids with characters illegal in xrefs, long ids, ids clashing with F1, S1, M1
+ * - Validation of the written files through the parser, in 5.5.1 and 7.0
+ * - Round trip: the raw lines written (calendar escapes, @ in values, @VOID@ pointers), then
+ *   export, parse and import back into an empty tree, sources and citations included
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { GenealogyGraph } from '../src/domain/genealogy-graph';
+import { exportGedcom, type GedcomExportSnapshot } from '../src/domain/gedcom-export';
+import { importGedcom } from '../src/domain/gedcom-import';
+import { GenealogicalDate } from '../src/domain/genealogical-date';
+import { decodeGedcom, gedcomChildren, readGedcomRecords, type GedcomNode } from '../src/domain/gedcom-parser';
+import type { GedcomVersion } from '../src/domain/gedcom-writer';
+import type { StoredCitation } from '../src/domain/citation';
+
+type Person = GedcomExportSnapshot['persons'][number];
+
+const person = (personId: string, gender: Person['gender'], extra: Partial<Person> = {}): Person => ({
+  personId,
+  name: personId,
+  gender,
+  ...extra,
+});
+
+const snapshot = (extra: Partial<GedcomExportSnapshot>): GedcomExportSnapshot => ({
+  persons: [],
+  parentChildEdges: [],
+  spouseEdges: [],
+  ...extra,
+});
+
+// The records of a written file, with the syntax problems the parser found
+const parse = (text: string) => {
+  const problems: string[] = [];
+  const records = [...readGedcomRecords(decodeGedcom(Buffer.from(text, 'utf8')).text, (p) => problems.push(p.message))];
+  return { records, problems };
+};
+
+const pointers = (record: GedcomNode, ...tags: string[]) =>
+  tags.flatMap((tag) => gedcomChildren(record, tag)).map((node) => node.pointer);
+
+/**
+ * What other programs check in a file: every xref well formed and unique,
+ * every pointer to a record in the file, and every link written from both
+ * sides (HUSB/WIFE with FAMS, CHIL with FAMC).
+ */
+const validate = (text: string, version: GedcomVersion): string[] => {
+  const { records, problems } = parse(text);
+  const errors = [...problems];
+  const xrefPattern = version === '7.0' ? /^[A-Z0-9_]+$/ : /^[A-Za-z0-9][A-Za-z0-9_-]{0,19}$/;
+  const byXref = new Map<string, GedcomNode>();
+  for (const record of records) {
+    if (!record.xref) continue;
+    if (!xrefPattern.test(record.xref)) errors.push(`malformed xref @${record.xref}@`);
+    if (byXref.has(record.xref)) errors.push(`duplicate xref @${record.xref}@`);
+    byXref.set(record.xref, record);
+  }
+
+  const visit = (node: GedcomNode) => {
+    if (node.pointer !== null && node.pointer !== 'VOID' && !byXref.has(node.pointer)) {
+      errors.push(`line ${node.line}: ${node.tag} points to missing @${node.pointer}@`);
+    }
+    node.children.forEach(visit);
+  };
+  records.forEach(visit);
+
+  for (const fam of records.filter((record) => record.tag === 'FAM')) {
+    for (const partner of pointers(fam, 'HUSB', 'WIFE')) {
+      const indi = byXref.get(partner!);
+      if (indi && !pointers(indi, 'FAMS').includes(fam.xref)) errors.push(`@${partner}@ has no FAMS @${fam.xref}@`);
+    }
+    for (const child of pointers(fam, 'CHIL')) {
+      const indi = byXref.get(child!);
+      if (indi && !pointers(indi, 'FAMC').includes(fam.xref)) errors.push(`@${child}@ has no FAMC @${fam.xref}@`);
+    }
+  }
+  for (const indi of records.filter((record) => record.tag === 'INDI')) {
+    for (const famId of pointers(indi, 'FAMS')) {
+      const fam = byXref.get(famId!);
+      if (fam && !pointers(fam, 'HUSB', 'WIFE').includes(indi.xref))
+        errors.push(`@${famId}@ does not list @${indi.xref}@`);
+    }
+    for (const famId of pointers(indi, 'FAMC')) {
+      const fam = byXref.get(famId!);
+      if (fam && !pointers(fam, 'CHIL').includes(indi.xref))
+        errors.push(`@${famId}@ does not list child @${indi.xref}@`);
+    }
+  }
+  return errors;
+};
+
+// FAM records as "partners > children", by the names of the persons in them
+const families = (text: string) => {
+  const { records } = parse(text);
+  const names = new Map(
+    records.filter((r) => r.tag === 'INDI').map((r) => [r.xref, gedcomChildren(r, 'NAME')[0]?.value ?? '']),
+  );
+  return records
+    .filter((record) => record.tag === 'FAM')
+    .map(
+      (fam) =>
+        `${pointers(fam, 'HUSB', 'WIFE')
+          .map((id) => names.get(id))
+          .sort()
+          .join('+')} > ${pointers(fam, 'CHIL')
+          .map((id) => names.get(id))
+          .join(',')}`,
+    );
+};
+
+/**
+ * Two wives of Yusuf, a child of each, a child of Yusuf with a mother he
+ * never married, a childless couple, and a foster child of one wife.
+ */
+const household = snapshot({
+  persons: [
+    person('yusuf', 'MALE'),
+    person('aminah', 'FEMALE'),
+    person('khadijah', 'FEMALE'),
+    person('salmah', 'FEMALE'),
+    person('ali', 'MALE'),
+    person('umar', 'MALE'),
+    person('zainab', 'FEMALE'),
+    person('hasan', 'MALE'),
+    person('fatimah', 'FEMALE'),
+    person('idris', 'MALE'),
+  ],
+  // Stored child-first for zainab and umar, so the first parent found is not the one in the marriage
+  parentChildEdges: [
+    { parentId: 'salmah', childId: 'zainab' },
+    { parentId: 'yusuf', childId: 'zainab' },
+    { parentId: 'khadijah', childId: 'umar' },
+    { parentId: 'yusuf', childId: 'umar' },
+    { parentId: 'yusuf', childId: 'ali' },
+    { parentId: 'aminah', childId: 'ali' },
+    { parentId: 'aminah', childId: 'idris', type: 'FOSTER' },
+  ],
+  spouseEdges: [
+    { spouse1Id: 'yusuf', spouse2Id: 'aminah', status: 'MARRIED', spouse1Order: 1, spouse2Order: 1 },
+    { spouse1Id: 'yusuf', spouse2Id: 'khadijah', status: 'MARRIED', spouse1Order: 2, spouse2Order: 1 },
+    { spouse1Id: 'hasan', spouse2Id: 'fatimah', status: 'MARRIED' },
+  ],
+});
+
+describe('GEDCOM export', () => {
+  describe('families', () => {
+    it('puts each child in the family of its own two parents', () => {
+      expect(families(exportGedcom(household))).toEqual([
+        'aminah+yusuf > ali',
+        'khadijah+yusuf > umar',
+        'fatimah+hasan > ',
+        'salmah+yusuf > zainab',
+        'aminah > idris',
+      ]);
+    });
+
+    it('keeps a childless couple as a family with both partners pointing to it', () => {
+      const text = exportGedcom(household);
+      expect(text).toContain('0 @F3@ FAM\n1 HUSB @hasan@\n1 WIFE @fatimah@\n');
+      expect(text).toContain('0 @hasan@ INDI\n1 NAME hasan\n1 SEX M\n1 FAMS @F3@\n');
+    });
+
+    it('writes FAMS in the order of the marriages and FAMC with the pedigree', () => {
+      const { records } = parse(exportGedcom(household));
+      const yusuf = records.find((record) => record.xref === 'yusuf')!;
+      expect(pointers(yusuf, 'FAMS')).toEqual(['F1', 'F2', 'F4']);
+      const idris = records.find((record) => record.xref === 'idris')!;
+      expect(gedcomChildren(idris, 'FAMC').map((famc) => [famc.pointer, famc.children[0].value])).toEqual([
+        ['F5', 'foster'],
+      ]);
+    });
+
+    it('keeps both recorded families of one couple, with the marriage on the first', () => {
+      const text = exportGedcom(
+        snapshot({
+          persons: [person('a', 'MALE'), person('b', 'FEMALE'), person('c', 'MALE'), person('d', 'FEMALE')],
+          parentChildEdges: [
+            { parentId: 'a', childId: 'c' },
+            { parentId: 'b', childId: 'c' },
+            { parentId: 'a', childId: 'd' },
+            { parentId: 'b', childId: 'd' },
+          ],
+          spouseEdges: [{ spouse1Id: 'a', spouse2Id: 'b', status: 'MARRIED', marriagePlace: 'Martapura' }],
+          families: [
+            { familyId: 'first', parent1Id: 'a', parent2Id: 'b', childIds: ['c'] },
+            { familyId: 'second', parent1Id: 'a', parent2Id: 'b', childIds: ['d'] },
+          ],
+        }),
+      );
+
+      expect(families(text)).toEqual(['a+b > c', 'a+b > d']);
+      expect(text.match(/1 MARR/g)).toHaveLength(1);
+      expect(validate(text, '5.5.1')).toEqual([]);
+    });
+
+    it('writes every link from both sides', () => {
+      expect(validate(exportGedcom(household), '5.5.1')).toEqual([]);
+      expect(validate(exportGedcom(household, '7.0'), '7.0')).toEqual([]);
+    });
+  });
+
+  describe('xrefs', () => {
+    const awkward = snapshot({
+      persons: [
+        person('ibu@home', 'FEMALE'),
+        person('anak pertama', 'MALE'),
+        person('_hidden', 'MALE'),
+        person('F1', 'FEMALE'),
+        person('abdul-rahman-bin-abdullah-al-banjari', 'MALE'),
+        person('abdul-rahman-bin-abdullah-al-banjary', 'MALE'),
+      ],
+      parentChildEdges: [
+        { parentId: 'ibu@home', childId: 'anak pertama' },
+        { parentId: 'F1', childId: '_hidden' },
+      ],
+      spouseEdges: [
+        {
+          spouse1Id: 'abdul-rahman-bin-abdullah-al-banjari',
+          spouse2Id: 'ibu@home',
+          status: 'MARRIED',
+        },
+      ],
+      sources: [{ sourceId: 'src 1', title: 'Register' }],
+      citations: [
+        {
+          citationId: 'c1',
+          sourceId: 'src 1',
+          target: { kind: 'PERSON', personId: 'anak pertama' },
+          page: null,
+          quality: null,
+          transcription: null,
+        },
+      ],
+    });
+
+    it('writes 5.5.1 xrefs from ids with characters illegal in them', () => {
+      const text = exportGedcom(awkward);
+      expect(text).toContain('0 @ibu_home@ INDI');
+      expect(text).toContain('0 @anak_pertama@ INDI');
+      expect(text).toContain('0 @X_hidden@ INDI');
+      expect(text).not.toMatch(/@[^@\n]*[ @][^@\n]*@ INDI/);
+    });
+
+    it('shortens long ids to 20 characters and keeps them apart', () => {
+      const text = exportGedcom(awkward);
+      expect(text).toContain('0 @abdul-rahman-bin-abd@ INDI');
+      expect(text).toContain('0 @abdul-rahman-bin-a_2@ INDI');
+    });
+
+    it('numbers families past an id a person already has', () => {
+      const { records } = parse(exportGedcom(awkward));
+      expect(records.filter((record) => record.xref === 'F1').map((record) => record.tag)).toEqual(['INDI']);
+      expect(records.filter((record) => record.tag === 'FAM').map((record) => record.xref)).toEqual(['F2', 'F3', 'F4']);
+    });
+
+    it('points to the sanitized xrefs everywhere', () => {
+      expect(validate(exportGedcom(awkward), '5.5.1')).toEqual([]);
+      expect(validate(exportGedcom(awkward, '7.0'), '7.0')).toEqual([]);
+    });
+  });
+
+  describe('round trip', () => {
+    const reimport = (source: GedcomExportSnapshot, version: GedcomVersion = '5.5.1') => {
+      const graph = new GenealogyGraph('round-trip');
+      const report = importGedcom(Buffer.from(exportGedcom(source, version), 'utf8'), graph);
+      return { graph, report };
+    };
+
+    // Checked on the lines as written: the parser unescapes @@, so reading back alone would hide a wrong escape
+    const annotated = snapshot({
+      persons: [
+        person('ali', 'MALE', {
+          birthDate: GenealogicalDate.parse('ABT @#DHIJRI@ 12 RABIA 1320').toProps(),
+          birthPlace: 'Rumah @ Tarim',
+        }),
+      ],
+      sources: [
+        {
+          sourceId: 'src1',
+          title: '@home archive',
+          author: 'ali@example.org',
+          repository: 'Tarim library',
+          reference: 'T-12',
+        },
+      ],
+    });
+    const written = (version: GedcomVersion) => exportGedcom(annotated, version).split('\n');
+
+    it('writes the 5.5.1 lineage-linked form and the submitter record the header points to', () => {
+      const lines = written('5.5.1');
+      expect(lines.slice(0, 7)).toEqual([
+        '0 HEAD',
+        '1 SOUR silsilah',
+        '1 SUBM @U1@',
+        '1 GEDC',
+        '2 VERS 5.5.1',
+        '2 FORM LINEAGE-LINKED',
+        '1 CHAR UTF-8',
+      ]);
+      expect(lines.slice(-3)).toEqual(['0 @U1@ SUBM', '1 NAME silsilah', '0 TRLR']);
+      expect(validate(lines.join('\n'), '5.5.1')).toEqual([]);
+    });
+
+    it('writes 5.5.1 calendar escapes as they are and doubles every other @', () => {
+      const lines = written('5.5.1');
+      expect(lines).toContain('2 DATE ABT @#DHIJRI@ 12 RABIA 1320');
+      expect(lines).toContain('2 PLAC Rumah @@ Tarim');
+      expect(lines).toContain('1 TITL @@home archive');
+      expect(lines).toContain('1 AUTH ali@@example.org');
+      expect(lines).toContain('1 REPO');
+      expect(lines.join('\n')).not.toContain('@VOID@');
+    });
+
+    it('writes 7.0 Hijri dates with extension tags, doubles only a leading @ and points to @VOID@', () => {
+      const lines = written('7.0');
+      expect(lines).toContain('2 DATE ABT _HIJRI 12 _RABIA 1320');
+      expect(lines).toContain('2 PLAC Rumah @ Tarim');
+      expect(lines).toContain('1 TITL @@home archive');
+      expect(lines).toContain('1 AUTH ali@example.org');
+      expect(lines).toContain('1 REPO @VOID@');
+    });
+
+    it('reads back the Hijri date and the values with @', () => {
+      const { graph, report } = reimport(annotated);
+      expect(report.rejected).toEqual([]);
+      const ali = graph.getPerson('ali')!;
+      expect(ali.birthDate!.calendar).toBe('HIJRI');
+      expect(ali.birthDate!.toGedcom()).toBe('ABT @#DHIJRI@ 12 RABIA 1320');
+      expect(ali.birthPlace).toBe('Rumah @ Tarim');
+    });
+
+    it('reads back the same persons, parents and marriages', () => {
+      const { graph, report } = reimport(household);
+      expect(report.rejected).toEqual([]);
+      expect(graph.getPersonsSnapshot().map((p) => [p.personId, p.gender])).toEqual(
+        household.persons.map((p) => [p.personId, p.gender]),
+      );
+
+      const edge = (parentId: string, childId: string, type = 'BIOLOGICAL') => `${parentId}->${childId}:${type}`;
+      expect(
+        graph
+          .getParentChildEdgesSnapshot()
+          .map((e) => edge(e.parentId, e.childId, e.type))
+          .sort(),
+      ).toEqual(household.parentChildEdges.map((e) => edge(e.parentId, e.childId, e.type)).sort());
+      // A FAM with two partners reads as a couple: Salmah comes back as Yusuf's spouse
+      expect(
+        graph
+          .getSpouseEdgesSnapshot()
+          .map((e) => [e.spouse1Id, e.spouse2Id].sort().join('+'))
+          .sort(),
+      ).toEqual(['aminah+yusuf', 'fatimah+hasan', 'khadijah+yusuf', 'salmah+yusuf']);
+    });
+
+    it('reads back the order of marriages', () => {
+      const { graph } = reimport(household);
+      const yusuf = graph.getSpouseEdgesSnapshot().filter((e) => e.spouse1Id === 'yusuf' || e.spouse2Id === 'yusuf');
+      const order = (e: (typeof yusuf)[number]) =>
+        e.spouse1Id === 'yusuf' ? e.marriage.spouse1Order : e.marriage.spouse2Order;
+      expect(yusuf.map((e) => [e.spouse1Id === 'yusuf' ? e.spouse2Id : e.spouse1Id, order(e)]).sort()).toEqual([
+        ['aminah', 1],
+        ['khadijah', 2],
+        ['salmah', 3],
+      ]);
+    });
+
+    it('reads back a tree whose ids had to be sanitized', () => {
+      const source = snapshot({
+        persons: [person('ibu@home', 'FEMALE'), person('anak pertama', 'MALE')],
+        parentChildEdges: [{ parentId: 'ibu@home', childId: 'anak pertama' }],
+      });
+      const { graph, report } = reimport(source);
+      expect(report.rejected).toEqual([]);
+      expect(graph.getParentChildEdgesSnapshot().map((e) => [e.parentId, e.childId])).toEqual([
+        ['ibu_home', 'anak_pertama'],
+      ]);
+    });
+
+    it('reads back the sources and what each citation cites, in 5.5.1 and 7.0', () => {
+      const source = snapshot({
+        persons: [
+          person('UMAR', 'MALE', {
+            birthDate: GenealogicalDate.parse('1850').toProps(),
+            deathDate: GenealogicalDate.parse('1920').toProps(),
+            events: [{ eventId: 'E1', type: 'OCCUPATION', description: 'Qadi' }],
+          }),
+          person('AISYAH', 'FEMALE'),
+          person('ALI', 'MALE', { birthDate: GenealogicalDate.parse('1880').toProps() }),
+        ],
+        parentChildEdges: [
+          { parentId: 'UMAR', childId: 'ALI' },
+          { parentId: 'AISYAH', childId: 'ALI' },
+        ],
+        spouseEdges: [{ spouse1Id: 'UMAR', spouse2Id: 'AISYAH', status: 'MARRIED' }],
+        sources: [
+          {
+            sourceId: 'register',
+            title: 'Register of Tarim',
+            author: 'The qadi',
+            repository: 'Archive',
+            reference: 'R-1',
+          },
+          { sourceId: 'letters', title: 'Family letters' },
+        ],
+        citations: [
+          { citationId: 'c1', sourceId: 'register', target: { kind: 'PERSON', personId: 'UMAR', fact: null } },
+          {
+            citationId: 'c2',
+            sourceId: 'register',
+            target: { kind: 'PERSON', personId: 'UMAR', fact: 'NAME' },
+            page: 'folio 2',
+          },
+          {
+            citationId: 'c3',
+            sourceId: 'register',
+            target: { kind: 'PERSON', personId: 'UMAR', fact: 'BIRTH' },
+            quality: 'PRIMARY',
+          },
+          { citationId: 'c4', sourceId: 'letters', target: { kind: 'PERSON', personId: 'UMAR', fact: 'DEATH' } },
+          {
+            citationId: 'c5',
+            sourceId: 'letters',
+            target: { kind: 'EVENT', personId: 'UMAR', eventId: 'E1' },
+            transcription: 'qadi of Tarim',
+          },
+          {
+            citationId: 'c6',
+            sourceId: 'letters',
+            target: { kind: 'PARENT_CHILD', parentId: 'AISYAH', childId: 'ALI' },
+          },
+          {
+            citationId: 'c7',
+            sourceId: 'register',
+            target: { kind: 'SPOUSE', spouse1Id: 'AISYAH', spouse2Id: 'UMAR' },
+          },
+        ],
+      });
+      const cited = (citations: Array<Omit<StoredCitation, 'citationId'>>) =>
+        citations
+          .map((c) =>
+            JSON.stringify([c.sourceId, c.target, c.page ?? null, c.quality ?? null, c.transcription ?? null]),
+          )
+          .sort();
+
+      // Sources are written as S1, S2, ... and read back under those ids; upper-case ids stay the same in 7.0
+      const xrefs: Record<string, string> = { register: 'S1', letters: 'S2' };
+      for (const version of ['5.5.1', '7.0'] as const) {
+        const { graph, report } = reimport(source, version);
+        expect(report.rejected).toEqual([]);
+        expect(report.ignored).toEqual([]);
+        expect(graph.getSources().map((s) => [s.sourceId, s.title, s.author, s.repository, s.reference])).toEqual([
+          ['S1', 'Register of Tarim', 'The qadi', 'Archive', 'R-1'],
+          ['S2', 'Family letters', null, null, null],
+        ]);
+        expect(cited(graph.getCitations())).toEqual(
+          cited(source.citations!.map((c) => ({ ...c, sourceId: xrefs[c.sourceId] }))),
+        );
+      }
+    });
+
+    it('reads back the links of a 7.0 file', () => {
+      const { graph, report } = reimport(household, '7.0');
+      expect(report.rejected).toEqual([]);
+      expect(graph.getParentChildEdgesSnapshot()).toHaveLength(household.parentChildEdges.length);
+      expect(graph.getSpouseEdgesSnapshot()).toHaveLength(household.spouseEdges.length + 1); // Salmah, as above
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { MongoClient } from 'mongodb';
+import { AppModule } from '../src/app.module';
+
+describe('GEDCOM Import E2E', () => {
+  let app: INestApplication;
+  let mongoClient: MongoClient;
+  const treeId = 'gedcom-source-tree';
+  const dbName = 'silsilah_gedcom_import_test';
+  const apiBase = '/api/trees';
+
+  const gedcom = (...lines: string[]) =>
+    Buffer.from(['0 HEAD', '1 GEDC', '2 VERS 5.5.1', '1 CHAR UTF-8', ...lines, '0 TRLR'].join('\n'), 'utf8');
+
+  beforeAll(async () => {
+    process.env.MONGODB_DB_NAME = dbName;
+    process.env.MONGODB_URI = 'mongodb://localhost:27017';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    mongoClient = moduleFixture.get('MONGO_CLIENT');
+
+    const db = mongoClient.db(dbName);
+    await db.collection('family_trees').deleteMany({});
+
+    // Seed the tree exported for the round trip
+    await request(app.getHttpServer()).post(apiBase).send({ treeId }).expect(201);
+
+    await request(app.getHttpServer())
+      .post(`${apiBase}/${treeId}/persons`)
+      .send({ personId: 'a', name: 'Aminah', gender: 'FEMALE', birthDate: 'ABT 1870', birthPlace: 'Martapura' })
+      .expect(201);
+
+    await request(app.getHttpServer())
+      .post(`${apiBase}/${treeId}/persons`)
+      .send({
+        personId: 'b',
+        gender: 'MALE',
+        names: [
+          {
+            type: 'BIRTH',
+            parts: [
+              { type: 'GIVEN', value: 'Ismail' },
+              { type: 'SURNAME', value: 'Banjari' },
+            ],
+          },
+        ],
+        deathDate: '1931',
+      })
+      .expect(201);
+
+    await request(app.getHttpServer())
+      .post(`${apiBase}/${treeId}/persons`)
+      .send({ personId: 'c', name: 'Charlie', gender: 'MALE', birthDate: 'BET 1890 AND 1895' })
+      .expect(201);
+
+    await request(app.getHttpServer())
+      .post(`${apiBase}/${treeId}/persons`)
+      .send({ personId: 'd', name: 'Dina', gender: 'FEMALE' })
+      .expect(201);
+
+    await request(app.getHttpServer())
+      .post(`${apiBase}/${treeId}/relationships/spouse`)
+      .send({ spouseA: 'a', spouseB: 'b', status: 'DIVORCED', marriageDate: '12 MAR 1888', divorceDate: 'ABT 1900' })
+      .expect(201);
+
+    await request(app.getHttpServer())
+      .post(`${apiBase}/${treeId}/families`)
+      .send({ parent1Id: 'a', parent2Id: 'b', familyId: 'F1' })
+      .expect(201);
+
+    await request(app.getHttpServer())
+      .post(`${apiBase}/${treeId}/families/F1/children`)
+      .send({ childId: 'c' })
+      .expect(201);
+
+    await request(app.getHttpServer())
+      .post(`${apiBase}/${treeId}/relationships/parent-child`)
+      .send({ parentId: 'b', childId: 'd', type: 'ADOPTIVE' })
+      .expect(201);
+  });
+
+  afterAll(async () => {
+    const db = mongoClient.db(dbName);
+    await db.collection('family_trees').deleteMany({});
+    await app.close();
+    await mongoClient.close();
+  });
+
+  it('POST /trees/import/preview reports the file without saving it', async () => {
+    const res = await request(app.getHttpServer())
+      .post(`${apiBase}/import/preview`)
+      .attach(
+        'file',
+        gedcom(
+          '0 @I1@ INDI',
+          '1 NAME Ali',
+          '0 @I2@ INDI',
+          '1 NAME Umar',
+          '0 @F1@ FAM',
+          '1 HUSB @I1@',
+          '1 CHIL @I2@',
+          '0 @R1@ REPO',
+        ),
+        'family.ged',
+      )
+      .expect(201);
+
+    expect(res.body.data.persons.map((p: any) => p.id)).toEqual(['I1', 'I2']);
+    expect(res.body.data.relationships).toEqual([{ type: 'parent-child', personAId: 'I1', personBId: 'I2' }]);
+    expect(res.body.validation.valid).toBe(true);
+    expect(res.body.validation.warnings).toEqual([{ row: 12, message: '@R1@: repositories are not imported' }]);
+
+    await request(app.getHttpServer()).get(`${apiBase}/family/export/json`).expect(404);
+  });
+
+  it('POST /trees/import/preview lists the records the tree would refuse', async () => {
+    const res = await request(app.getHttpServer())
+      .post(`${apiBase}/import/preview`)
+      .field('targetTreeId', treeId)
+      .attach(
+        'file',
+        gedcom(
+          '0 @I1@ INDI',
+          '1 NAME Parent',
+          '1 BIRT',
+          '2 DATE 1900',
+          '0 @I2@ INDI',
+          '1 NAME Child',
+          '1 BIRT',
+          '2 DATE 1880',
+          '0 @F1@ FAM',
+          '1 HUSB @I1@',
+          '1 CHIL @I2@',
+        ),
+        'family.ged',
+      )
+      .expect(201);
+
+    expect(res.body.validation.valid).toBe(false);
+    expect(res.body.validation.errors).toEqual([
+      { row: 15, field: 'CHIL', message: 'child @I2@ of @F1@: parent must be older than child' },
+    ]);
+    expect(res.body.validation.summary.conflictCount).toBe(1);
+  });
+
+  it('POST /trees/import/preview returns 404 for an unknown target tree and 400 without a GEDCOM file', async () => {
+    await request(app.getHttpServer())
+      .post(`${apiBase}/import/preview`)
+      .field('targetTreeId', 'no-such-tree')
+      .attach('file', gedcom(), 'family.ged')
+      .expect(404);
+
+    await request(app.getHttpServer())
+      .post(`${apiBase}/import/preview`)
+      .attach('file', Buffer.from('name,gender\nAli,MALE'), 'family.csv')
+      .expect(400);
+
+    await request(app.getHttpServer()).post(`${apiBase}/import/preview`).expect(400);
+  });
+
+  it('POST /trees/import refuses a file with refused records and saves nothing', async () => {
+    await request(app.getHttpServer())
+      .post(`${apiBase}/import`)
+      .field('createNewTree', 'true')
+      .field('newTreeName', 'Cyclic')
+      .attach(
+        'file',
+        gedcom(
+          '0 @I1@ INDI',
+          '0 @I2@ INDI',
+          '0 @F1@ FAM',
+          '1 HUSB @I1@',
+          '1 CHIL @I2@',
+          '0 @F2@ FAM',
+          '1 HUSB @I2@',
+          '1 CHIL @I1@',
+        ),
+        'cyclic.ged',
+      )
+      .expect(400);
+
+    await request(app.getHttpServer()).get(`${apiBase}/cyclic/export/json`).expect(404);
+  });
+
+  it('POST /trees/import adds the persons to an existing tree', async () => {
+    const target = 'gedcom-target-tree';
+    await request(app.getHttpServer()).post(apiBase).send({ treeId: target }).expect(201);
+    await request(app.getHttpServer())
+      .post(`${apiBase}/${target}/persons`)
+      .send({ personId: 'I1', name: 'Already here', gender: 'MALE' })
+      .expect(201);
+
+    const res = await request(app.getHttpServer())
+      .post(`${apiBase}/import`)
+      .field('createNewTree', 'false')
+      .field('targetTreeId', target)
+      .attach('file', gedcom('0 @I1@ INDI', '1 NAME Ali', '1 SEX M'), 'family.ged')
+      .expect(201);
+
+    expect(res.body).toEqual({ treeId: target, imported: 1, skipped: 0, merged: 0 });
+    const snapshot = await request(app.getHttpServer()).get(`${apiBase}/${target}/export/json`).expect(200);
+    expect(snapshot.body.persons.map((p: any) => [p.personId, p.name]).sort()).toEqual([
+      ['I1', 'Already here'],
+      ['I1-2', 'Ali'],
+    ]);
+  });
+
+  it('round-trips an exported tree through POST /trees/import', async () => {
+    const exported = await request(app.getHttpServer()).get(`${apiBase}/${treeId}/export/gedcom`).expect(200);
+
+    const res = await request(app.getHttpServer())
+      .post(`${apiBase}/import`)
+      .field('createNewTree', 'true')
+      .field('newTreeName', 'Round Trip')
+      .attach('file', Buffer.from(exported.text, 'utf8'), 'export.ged')
+      .expect(201);
+    expect(res.body).toEqual({ treeId: 'round-trip', imported: 4, skipped: 0, merged: 0 });
+
+    const original = await request(app.getHttpServer()).get(`${apiBase}/${treeId}/export/json`).expect(200);
+    const imported = await request(app.getHttpServer()).get(`${apiBase}/round-trip/export/json`).expect(200);
+
+    const person = (p: any) => [p.personId, p.name, p.gender, p.birthDate, p.birthPlace, p.deathDate];
+    expect(imported.body.persons.map(person)).toEqual(original.body.persons.map(person));
+    expect(imported.body.persons.find((p: any) => p.personId === 'b').names).toEqual(
+      original.body.persons.find((p: any) => p.personId === 'b').names,
+    );
+
+    const edges = (body: any) => body.parentChildEdges.map((e: any) => `${e.parentId}->${e.childId}:${e.type}`).sort();
+    expect(edges(imported.body)).toEqual(edges(original.body));
+
+    const marriage = ({ spouse1Id, spouse2Id, status, marriageDate, divorceDate }: any) => ({
+      spouses: [spouse1Id, spouse2Id].sort(),
+      status,
+      marriageDate,
+      divorceDate,
+    });
+    expect(imported.body.spouseEdges.map(marriage)).toEqual(original.body.spouseEdges.map(marriage));
+  });
+});
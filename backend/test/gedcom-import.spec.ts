@@ -0,0 +1,747 @@
+/**
+ * GEDCOM Import - Test Suite
+ *
+ * Tests cover:
+ * - Character sets: UTF-8, UTF-16 with and without a byte-order mark, ANSEL diacritics, ANSI
+ * - Lines: CONT/CONC folding, @@ escapes, malformed lines and level jumps
+ * - Mapping: names, sex, birth, death, events, marriages, divorce, pedigree, FAMC/FAMS back-pointers
+ * - Refused records: cycles, a third parent, age inconsistency, more than two partners
+ * - Sources and citations: SOUR records, citations of names, vital facts, events, parent links and families
+ * - Left-out records: repositories, notes, unread substructures, unreadable dates, dangling pointers
+ * - Ids: sanitized xrefs, suffixes beside an existing tree's persons
+ * - The import command (all or nothing) and the preview query
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { GenealogyGraph } from '../src/domain/genealogy-graph';
+import { GenealogicalDate } from '../src/domain/genealogical-date';
+import { InvariantViolationError, NotFoundError } from '../src/domain/errors';
+import { decodeAnsel, decodeGedcom, readGedcomRecords, type GedcomSyntaxProblem } from '../src/domain/gedcom-parser';
+import { importGedcom, isGedcomFile } from '../src/domain/gedcom-import';
+import { ImportTreeHandler } from '../src/application/commands/import-tree.handler';
+import { PreviewTreeImportHandler } from '../src/application/queries/preview-tree-import.query';
+import type { GenealogyGraphRepository } from '../src/infrastructure/repositories/genealogy-graph.repository';
+import type { GenealogyGraphFactory } from '../src/domain/types';
+
+// A GEDCOM file from its lines (without HEAD and TRLR)
+const gedcom = (...lines: string[]) =>
+  ['0 HEAD', '1 GEDC', '2 VERS 5.5.1', '1 CHAR UTF-8', ...lines, '0 TRLR'].join('\n');
+
+const read = (text: string, graph = new GenealogyGraph('t1')) => {
+  const result = importGedcom(Buffer.from(text, 'utf8'), graph);
+  return { graph, ...result };
+};
+
+const parentsOf = (graph: GenealogyGraph, childId: string) =>
+  graph
+    .getParentChildEdgesSnapshot()
+    .filter((edge) => edge.childId === childId)
+    .map((edge) => `${edge.parentId}:${edge.type}`)
+    .sort();
+
+const FAMILY = [
+  '0 @I1@ INDI',
+  '1 NAME Ismail /al-Banjari/',
+  '1 SEX M',
+  '1 BIRT',
+  '2 DATE ABT 1860',
+  '2 PLAC Martapura',
+  '1 DEAT',
+  '2 DATE 1931',
+  '1 FAMS @F1@',
+  '0 @I2@ INDI',
+  '1 NAME Aminah /binti Yusuf/',
+  '1 SEX F',
+  '1 FAMS @F1@',
+  '0 @I3@ INDI',
+  '1 NAME Ahmad /bin Ismail/',
+  '1 SEX M',
+  '1 BIRT',
+  '2 DATE 12 MAR 1890',
+  '1 FAMC @F1@',
+  '0 @I4@ INDI',
+  '1 NAME Siti',
+  '1 SEX F',
+  '1 FAMC @F1@',
+  '2 PEDI adopted',
+  '0 @F1@ FAM',
+  '1 HUSB @I1@',
+  '1 WIFE @I2@',
+  '1 MARR',
+  '2 DATE 1885',
+  '2 PLAC Banjarmasin',
+  '1 CHIL @I3@',
+  '1 CHIL @I4@',
+];
+
+class InMemoryRepository {
+  readonly trees = new Map<string, GenealogyGraph>();
+  saves = 0;
+
+  async findById(treeId: string) {
+    return this.trees.get(treeId) ?? null;
+  }
+
+  async save(tree: GenealogyGraph) {
+    this.saves++;
+    this.trees.set(tree.treeId, tree);
+  }
+}
+
+const factory: GenealogyGraphFactory = { create: (treeId) => new GenealogyGraph(treeId) };
+
+describe('GEDCOM Import', () => {
+  describe('character sets', () => {
+    const text = gedcom('0 @I1@ INDI', '1 NAME Zoë /Müller/');
+
+    it('reads UTF-8, with or without a byte-order mark', () => {
+      expect(decodeGedcom(Buffer.from(text, 'utf8'))).toEqual({ text, encoding: 'UTF-8' });
+      expect(decodeGedcom(Buffer.from(`\uFEFF${text}`, 'utf8'))).toEqual({ text, encoding: 'UTF-8' });
+    });
+
+    it('reads UTF-16 little- and big-endian, with or without a byte-order mark', () => {
+      const le = Buffer.from(text, 'utf16le');
+      const be = Buffer.from(le).swap16();
+      expect(decodeGedcom(le)).toEqual({ text, encoding: 'UTF-16LE' });
+      expect(decodeGedcom(be)).toEqual({ text, encoding: 'UTF-16BE' });
+      expect(decodeGedcom(Buffer.concat([Buffer.from([0xff, 0xfe]), le]))).toEqual({ text, encoding: 'UTF-16LE' });
+      expect(decodeGedcom(Buffer.concat([Buffer.from([0xfe, 0xff]), be]))).toEqual({ text, encoding: 'UTF-16BE' });
+    });
+
+    it('reads ANSEL, moving combining marks after their letter', () => {
+      // "Zoë Müller": ANSEL writes the diaeresis (0xE8) before the vowel
+      expect(decodeAnsel(Buffer.from([0x5a, 0x6f, 0xe8, 0x65, 0x20, 0x4d, 0xe8, 0x75, 0x6c, 0x6c, 0x65, 0x72]))).toBe(
+        'Zoë Müller',
+      );
+      expect(decodeAnsel(Buffer.from([0xa5, 0xb2, 0xe2, 0x61, 0xf0, 0x63]))).toBe('Æøáç');
+      expect(decodeAnsel(Buffer.from([0xfd]))).toBe('\uFFFD');
+    });
+
+    it('follows the header CHAR for ANSEL and ANSI files', () => {
+      const header = Buffer.from('0 HEAD\n1 CHAR ANSEL\n0 @I1@ INDI\n1 NAME Zo', 'latin1');
+      const ansel = decodeGedcom(Buffer.concat([header, Buffer.from([0xe8, 0x65])]));
+      expect(ansel.encoding).toBe('ANSEL');
+      expect(ansel.text.endsWith('Zoë')).toBe(true);
+
+      const ansi = decodeGedcom(Buffer.from([...Buffer.from('0 HEAD\n1 CHAR ANSI\n1 NOTE '), 0x80, 0x93, 0xe9, 0x94]));
+      expect(ansi).toEqual({ text: '0 HEAD\n1 CHAR ANSI\n1 NOTE €“é”', encoding: 'ANSI' });
+    });
+
+    it('imports names from an ANSEL file', () => {
+      const bytes = Buffer.concat([
+        Buffer.from('0 HEAD\r\n1 CHAR ANSEL\r\n0 @I1@ INDI\r\n1 NAME Jos', 'latin1'),
+        Buffer.from([0xe2, 0x65]),
+        Buffer.from(' /Garc', 'latin1'),
+        Buffer.from([0xe2, 0x69]),
+        Buffer.from('a/\r\n0 TRLR\r\n', 'latin1'),
+      ]);
+      const graph = new GenealogyGraph('t1');
+      const result = importGedcom(bytes, graph);
+      expect(result.encoding).toBe('ANSEL');
+      expect(graph.getPerson('I1')!.name).toBe('José García');
+    });
+  });
+
+  describe('lines', () => {
+    it('folds CONT and CONC into the value they continue and unescapes @@', () => {
+      const [record] = [
+        ...readGedcomRecords(
+          ['0 @N1@ NOTE First line, sp', '1 CONC lit here', '1 CONT second line', '1 CONT mail: a@@b.org'].join('\r\n'),
+        ),
+      ];
+      expect(record.xref).toBe('N1');
+      expect(record.value).toBe('First line, split here\nsecond line\nmail: a@b.org');
+      expect(record.children).toEqual([]);
+    });
+
+    it('reads pointers, and yields one record per level 0 line', () => {
+      const records = [...readGedcomRecords('0 @F1@ FAM\n1 HUSB @I1@\n1 chil @I2@\n0 TRLR')];
+      expect(records.map((r) => r.tag)).toEqual(['FAM', 'TRLR']);
+      expect(records[0].children.map((c) => [c.tag, c.pointer, c.value])).toEqual([
+        ['HUSB', 'I1', ''],
+        ['CHIL', 'I2', ''],
+      ]);
+    });
+
+    it('reports malformed lines and level jumps, leaving out what is under them', () => {
+      const problems: GedcomSyntaxProblem[] = [];
+      const [record] = [
+        ...readGedcomRecords('0 @I1@ INDI\nnot a line\n1 NAME A /B/\n3 DATE 1900\n4 TIME 12:00\n1 SEX M', (problem) =>
+          problems.push(problem),
+        ),
+      ];
+      expect(problems.map((p) => p.line)).toEqual([2, 4]);
+      expect(record.children.map((c) => c.tag)).toEqual(['NAME', 'SEX']);
+      expect(record.children[0].children).toEqual([]);
+    });
+  });
+
+  describe('mapping', () => {
+    it('imports individuals and families', () => {
+      const { graph, personIds, rejected, ignored } = read(gedcom(...FAMILY));
+
+      expect(personIds).toEqual(['I1', 'I2', 'I3', 'I4']);
+      expect(rejected).toEqual([]);
+      expect(ignored).toEqual([]);
+
+      const ismail = graph.getPerson('I1')!;
+      expect(ismail.name).toBe('Ismail al-Banjari');
+      expect(ismail.gender).toBe('MALE');
+      expect(ismail.birthDate!.toGedcom()).toBe('ABT 1860');
+      expect(ismail.birthPlace).toBe('Martapura');
+      expect(ismail.deathDate!.toGedcom()).toBe('1931');
+      expect(ismail.names![0].parts).toEqual([
+        { type: 'GIVEN', value: 'Ismail' },
+        { type: 'SURNAME', value: 'al-Banjari' },
+      ]);
+      expect(graph.getPerson('I4')!.names ?? []).toEqual([]);
+
+      expect(parentsOf(graph, 'I3')).toEqual(['I1:BIOLOGICAL', 'I2:BIOLOGICAL']);
+      expect(parentsOf(graph, 'I4')).toEqual(['I1:ADOPTIVE', 'I2:ADOPTIVE']);
+      expect(graph.getFamily('F1')!.childIds).toEqual(['I3', 'I4']);
+
+      const [{ marriage }] = graph.getSpouseEdgesSnapshot();
+      expect(marriage.status).toBe('MARRIED');
+      expect(marriage.marriageDate!.toGedcom()).toBe('1885');
+      expect(marriage.marriagePlace).toBe('Banjarmasin');
+    });
+
+    it('links children and partners listed only by FAMC and FAMS', () => {
+      const { graph, rejected } = read(
+        gedcom(
+          '0 @I1@ INDI',
+          '1 NAME A',
+          '1 FAMS @F1@',
+          '0 @I2@ INDI',
+          '1 NAME B',
+          '1 FAMS @F1@',
+          '0 @I3@ INDI',
+          '1 NAME C',
+          '1 FAMC @F1@',
+          '2 PEDI foster',
+          '0 @F1@ FAM',
+        ),
+      );
+      expect(rejected).toEqual([]);
+      expect(parentsOf(graph, 'I3')).toEqual(['I1:FOSTER', 'I2:FOSTER']);
+      expect(graph.getSpouseEdgesSnapshot()).toHaveLength(1);
+    });
+
+    it('puts each child under the parent pair of its own family', () => {
+      const { graph } = read(
+        gedcom(
+          '0 @I1@ INDI',
+          '1 NAME Father',
+          '0 @I2@ INDI',
+          '1 NAME First wife',
+          '0 @I3@ INDI',
+          '1 NAME Second wife',
+          '0 @I4@ INDI',
+          '1 NAME Child of the first',
+          '0 @I5@ INDI',
+          '1 NAME Child of the second',
+          '0 @I6@ INDI',
+          '1 NAME Child of the father alone',
+          '0 @F1@ FAM',
+          '1 HUSB @I1@',
+          '1 WIFE @I2@',
+          '1 CHIL @I4@',
+          '0 @F2@ FAM',
+          '1 HUSB @I1@',
+          '1 WIFE @I3@',
+          '1 CHIL @I5@',
+          '0 @F3@ FAM',
+          '1 HUSB @I1@',
+          '1 CHIL @I6@',
+        ),
+      );
+      expect(parentsOf(graph, 'I4')).toEqual(['I1:BIOLOGICAL', 'I2:BIOLOGICAL']);
+      expect(parentsOf(graph, 'I5')).toEqual(['I1:BIOLOGICAL', 'I3:BIOLOGICAL']);
+      expect(parentsOf(graph, 'I6')).toEqual(['I1:BIOLOGICAL']);
+      expect(graph.getFamily('F3')!.parentIds).toEqual(['I1']);
+    });
+
+    it('orders marriages by FAMS and reads divorce and annulment', () => {
+      const { graph } = read(
+        gedcom(
+          '0 @I1@ INDI',
+          '1 NAME Husband',
+          '1 FAMS @F1@',
+          '1 FAMS @F2@',
+          '0 @I2@ INDI',
+          '1 NAME First',
+          '1 FAMS @F1@',
+          '0 @I3@ INDI',
+          '1 NAME Second',
+          '1 FAMS @F2@',
+          '0 @F1@ FAM',
+          '1 HUSB @I1@',
+          '1 WIFE @I2@',
+          '1 DIV',
+          '2 DATE ABT 1958',
+          '0 @F2@ FAM',
+          '1 HUSB @I1@',
+          '1 WIFE @I3@',
+          '1 ANUL',
+        ),
+      );
+      const marriageOf = (spouseId: string) =>
+        graph.getSpouseEdgesSnapshot().find((e) => e.spouse1Id === spouseId || e.spouse2Id === spouseId)!;
+      const first = marriageOf('I2');
+      expect(first.marriage.status).toBe('DIVORCED');
+      expect(first.marriage.divorceDate!.toGedcom()).toBe('ABT 1958');
+      const orderOfHusband = (e: ReturnType<typeof marriageOf>) =>
+        e.spouse1Id === 'I1' ? e.marriage.spouse1Order : e.marriage.spouse2Order;
+      expect(orderOfHusband(first)).toBe(1);
+      expect(orderOfHusband(marriageOf('I3'))).toBe(2);
+      expect(marriageOf('I3').marriage.status).toBe('ANNULLED');
+    });
+
+    it('reads structured names, name types and variants', () => {
+      const { graph } = read(
+        gedcom(
+          '0 @I1@ INDI',
+          '1 NAME Dr Ahmad /Yusuf/ Jr',
+          '2 NPFX Dr',
+          '2 ROMN Ahmad Yusuf',
+          '3 TYPE ALA-LC',
+          '1 NAME Mak /Long/',
+          '2 TYPE aka',
+        ),
+      );
+      const [birth, aka] = graph.getPerson('I1')!.names!;
+      expect(birth.primary).toBe(true);
+      expect(birth.parts).toEqual([
+        { type: 'PREFIX', value: 'Dr' },
+        { type: 'GIVEN', value: 'Ahmad' },
+        { type: 'SURNAME', value: 'Yusuf' },
+        { type: 'SUFFIX', value: 'Jr' },
+      ]);
+      expect(birth.variants).toEqual([{ kind: 'ROMANIZED', text: 'Ahmad Yusuf', script: null, method: 'ALA-LC' }]);
+      expect(aka.type).toBe('ALIAS');
+      expect(aka.primary).toBe(false);
+    });
+
+    it('reads events, with EVEN typed by its TYPE and other tags as custom events', () => {
+      const { graph } = read(
+        gedcom(
+          '0 @I1@ INDI',
+          '1 NAME A',
+          '1 OCCU Teacher',
+          '2 DATE 1920',
+          '1 EMIG',
+          '2 PLAC Singapore',
+          '1 CENS',
+          '2 DATE 1911',
+          '1 EVEN',
+          '2 TYPE Hajj',
+        ),
+      );
+      const events = graph.getPerson('I1')!.events!.map((e) => [e.type, e.customType, e.description, e.place]);
+      expect(events).toEqual([
+        ['OCCUPATION', null, 'Teacher', null],
+        ['MIGRATION', null, null, 'Singapore'],
+        ['CUSTOM', 'Census', null, null],
+        ['HAJJ', null, null, null],
+      ]);
+    });
+
+    it('sanitizes xrefs into ids and suffixes ids the tree already has', () => {
+      const graph = new GenealogyGraph('t1');
+      graph.addPerson({ personId: 'I1', name: 'Already here', gender: 'UNKNOWN' });
+      const { personIds } = read(
+        gedcom('0 @I1@ INDI', '1 NAME A', '0 @I:2.x@ INDI', '1 NAME B', '0 @I_2_x@ INDI', '1 NAME C'),
+        graph,
+      );
+      expect(personIds).toEqual(['I1-2', 'I_2_x', 'I_2_x-2']);
+      expect(graph.getPerson('I1')!.name).toBe('Already here');
+    });
+  });
+
+  describe('sources and citations', () => {
+    const cited = (graph: GenealogyGraph) =>
+      graph.getCitations().map((c) => [c.sourceId, c.target, c.page, c.quality, c.transcription]);
+
+    it('reads SOUR records as sources and SOUR citations as citations of the fact they are under', () => {
+      const { graph, sourceIds, citationIds, rejected, ignored } = read(
+        gedcom(
+          ...FAMILY.slice(0, 8),
+          '2 SOUR @S1@',
+          '3 PAGE folio 3',
+          '3 QUAY 3',
+          '1 FAMS @F1@',
+          '1 OCCU Teacher',
+          '2 SOUR @S2@',
+          '3 DATA',
+          '4 TEXT guru agama',
+          ...FAMILY.slice(9, 11),
+          '2 SOUR @S1@',
+          ...FAMILY.slice(11, 19),
+          '1 SOUR @S2@',
+          '2 NOTE Parent: Aminah binti Yusuf',
+          '1 SOUR @S2@',
+          '2 QUAY 1',
+          ...FAMILY.slice(19, 29),
+          '2 SOUR @S1@',
+          ...FAMILY.slice(29),
+          '0 @S1@ SOUR',
+          '1 TITL Register of Martapura',
+          '1 AUTH Kerapatan Qadi',
+          '1 REPO',
+          '2 NOTE Arsip Nasional',
+          '2 CALN K.12',
+          '0 @S2@ SOUR',
+          '1 TITL Family papers',
+        ),
+      );
+
+      expect(rejected).toEqual([]);
+      expect(ignored).toEqual([]);
+      expect(sourceIds).toEqual(['S1', 'S2']);
+      expect(graph.getSource('S1')).toMatchObject({
+        title: 'Register of Martapura',
+        author: 'Kerapatan Qadi',
+        repository: 'Arsip Nasional',
+        reference: 'K.12',
+      });
+      expect(citationIds).toHaveLength(6);
+      expect(cited(graph)).toEqual([
+        ['S1', { kind: 'PERSON', personId: 'I1', fact: 'DEATH' }, 'folio 3', 'PRIMARY', null],
+        ['S2', { kind: 'EVENT', personId: 'I1', eventId: 'E1' }, null, null, 'guru agama'],
+        ['S1', { kind: 'PERSON', personId: 'I2', fact: 'NAME' }, null, null, null],
+        ['S2', { kind: 'PARENT_CHILD', parentId: 'I2', childId: 'I3' }, null, null, null],
+        ['S2', { kind: 'PERSON', personId: 'I3', fact: null }, null, 'QUESTIONABLE', null],
+        ['S1', { kind: 'SPOUSE', spouse1Id: 'I1', spouse2Id: 'I2' }, null, null, null],
+      ]);
+    });
+
+    it('lists citations it cannot read and sources the tree refuses', () => {
+      const { graph, rejected, ignored } = read(
+        gedcom(
+          '0 @I1@ INDI',
+          '1 NAME A',
+          '1 SOUR Told by the family',
+          '1 SOUR @S9@',
+          '1 SOUR @S1@',
+          '2 PAGE 4',
+          '2 QUAY 7',
+          '1 SOUR @S1@',
+          '2 PAGE 4',
+          '1 SOUR @S2@',
+          '0 @F1@ FAM',
+          '1 HUSB @I1@',
+          '1 SOUR @S1@',
+          '0 @S1@ SOUR',
+          '0 @S2@ SOUR',
+          '1 TITL ' + 'x'.repeat(501),
+        ),
+      );
+
+      expect(graph.getCitations()).toHaveLength(1);
+      expect(graph.getSource('S1')!.title).toBe('Untitled');
+      expect(rejected.map((issue) => [issue.line, issue.message])).toEqual([
+        [19, '@S2@: source title must be at most 500 chars'],
+        [14, 'SOUR of @I1@: source @S2@ was not imported'],
+      ]);
+      expect(ignored.map((issue) => [issue.line, issue.message])).toEqual([
+        [18, '@S1@ has no title: imported as "Untitled"'],
+        [7, 'SOUR of @I1@ has no source record: sources written in place are not imported'],
+        [8, 'SOUR of @I1@ points to @S9@, which is not a source in the file'],
+        [11, 'QUAY "7" of SOUR of @I1@ is not 0 to 3; left out'],
+        [12, 'SOUR of @I1@: duplicate citation; left out'],
+        [17, 'SOUR of @F1@: the family has no couple to cite; not imported'],
+      ]);
+    });
+  });
+
+  describe('refused records', () => {
+    it('rejects a cycle', () => {
+      const { rejected } = read(
+        gedcom(
+          '0 @I1@ INDI',
+          '1 NAME A',
+          '0 @I2@ INDI',
+          '1 NAME B',
+          '0 @F1@ FAM',
+          '1 HUSB @I1@',
+          '1 CHIL @I2@',
+          '0 @F2@ FAM',
+          '1 HUSB @I2@',
+          '1 CHIL @I1@',
+        ),
+      );
+      expect(rejected).toHaveLength(1);
+      expect(rejected[0]).toMatchObject({ line: 14, tag: 'CHIL' });
+      expect(rejected[0].message).toMatch(/^child @I1@ of @F2@: .*cycle/);
+    });
+
+    it('rejects a third parent', () => {
+      const { graph, rejected } = read(
+        gedcom(
+          '0 @I1@ INDI',
+          '1 NAME A',
+          '0 @I2@ INDI',
+          '1 NAME B',
+          '0 @I3@ INDI',
+          '1 NAME C',
+          '0 @I4@ INDI',
+          '1 NAME Child',
+          '0 @F1@ FAM',
+          '1 HUSB @I1@',
+          '1 WIFE @I2@',
+          '1 CHIL @I4@',
+          '0 @F2@ FAM',
+          '1 WIFE @I3@',
+          '1 CHIL @I4@',
+        ),
+      );
+      expect(rejected.map((r) => [r.tag, r.message.split(':')[0]])).toEqual([['CHIL', 'child @I4@ of @F2@']]);
+      expect(parentsOf(graph, 'I4')).toEqual(['I1:BIOLOGICAL', 'I2:BIOLOGICAL']);
+    });
+
+    it('rejects a child born before its parent', () => {
+      const { rejected } = read(
+        gedcom(
+          '0 @I1@ INDI',
+          '1 NAME Parent',
+          '1 BIRT',
+          '2 DATE 1900',
+          '0 @I2@ INDI',
+          '1 NAME Child',
+          '1 BIRT',
+          '2 DATE 1880',
+          '0 @F1@ FAM',
+          '1 HUSB @I1@',
+          '1 CHIL @I2@',
+        ),
+      );
+      expect(rejected).toHaveLength(1);
+      expect(rejected[0].message).toBe('child @I2@ of @F1@: parent must be older than child');
+    });
+
+    it('rejects a third partner and a repeated xref', () => {
+      const { rejected } = read(
+        gedcom(
+          '0 @I1@ INDI',
+          '1 NAME A',
+          '1 FAMS @F1@',
+          '0 @I2@ INDI',
+          '1 NAME B',
+          '0 @I3@ INDI',
+          '1 NAME C',
+          '1 FAMS @F1@',
+          '0 @I2@ INDI',
+          '1 NAME B again',
+          '0 @F1@ FAM',
+          '1 HUSB @I2@',
+          '1 WIFE @I3@',
+        ),
+      );
+      expect(rejected.map((r) => r.message)).toEqual([
+        '@I2@: the xref is used by an earlier record',
+        '@I1@ cannot join @F1@: a family has at most two partners',
+      ]);
+    });
+  });
+
+  describe('left-out records', () => {
+    it('lists records and values the tree has no place for', () => {
+      const { personIds, rejected, ignored } = read(
+        gedcom(
+          '0 @I1@ INDI',
+          '1 BIRT',
+          '2 DATE sometime in spring',
+          '1 FAMC @F9@',
+          '0 @R1@ REPO',
+          '1 NAME Register office',
+          '0 @N1@ NOTE A note',
+          '0 @F1@ FAM',
+          '1 HUSB @I7@',
+          '0 @F2@ FAM',
+          '1 CHIL @I1@',
+        ),
+      );
+      expect(personIds).toEqual(['I1']);
+      expect(rejected).toEqual([]);
+      expect(ignored.map((issue) => [issue.line, issue.tag])).toEqual([
+        [9, 'REPO'],
+        [11, 'NOTE'],
+        [5, 'INDI'],
+        [7, 'DATE'],
+        [8, 'FAMC'],
+        [13, 'HUSB'],
+        [14, 'FAM'],
+      ]);
+      expect(ignored[0].message).toBe('@R1@: repositories are not imported');
+      expect(ignored[2].message).toBe('@I1@ has no name: imported as "Unknown"');
+    });
+
+    it('lists every substructure it does not read, by its path from the record', () => {
+      const { graph, ignored } = read(
+        gedcom(
+          '0 @I1@ INDI',
+          '1 NAME A',
+          '2 _MARNM B',
+          '1 BIRT',
+          '2 DATE 1900',
+          '3 TIME 10:00',
+          '2 PLAC Tarim',
+          '3 MAP',
+          '2 OBJE @M1@',
+          '1 OCCU Teacher',
+          '2 NOTE taught at the madrasah',
+          '1 CHAN',
+          '2 DATE 1 JAN 2000',
+          '0 @F1@ FAM',
+          '1 HUSB @I1@',
+          '1 _UID 123',
+          '0 @S1@ SOUR',
+          '1 TITL Register',
+          '1 PUBL Leiden',
+          '1 REPO @R1@',
+        ),
+      );
+
+      expect(graph.getPerson('I1')!.events![0].description).toBe('Teacher');
+      expect(ignored.map((issue) => [issue.line, issue.message])).toEqual([
+        [24, 'REPO @R1@ of @S1@: repositories are not imported'],
+        [23, 'PUBL of @S1@ is not imported'],
+        [15, 'OCCU.NOTE of @I1@ is not imported'],
+        [7, 'NAME._MARNM of @I1@ is not imported'],
+        [10, 'BIRT.DATE.TIME of @I1@ is not imported'],
+        [12, 'BIRT.PLAC.MAP of @I1@ is not imported'],
+        [13, 'BIRT.OBJE of @I1@ is not imported'],
+        [16, 'CHAN of @I1@ is not imported'],
+        [20, '_UID of @F1@ is not imported'],
+      ]);
+    });
+
+    it('refuses files that are empty or not GEDCOM', () => {
+      const graph = new GenealogyGraph('t1');
+      expect(() => importGedcom(Buffer.alloc(0), graph)).toThrow(InvariantViolationError);
+      expect(() => importGedcom(Buffer.from('name,gender\nA,MALE'), graph)).toThrow(/does not start with a HEAD/);
+    });
+
+    it('recognises GEDCOM file names', () => {
+      expect(isGedcomFile('Family.GED')).toBe(true);
+      expect(isGedcomFile('family.gedcom')).toBe(true);
+      expect(isGedcomFile('family.csv')).toBe(false);
+    });
+  });
+
+  describe('import command', () => {
+    const data = Buffer.from(gedcom(...FAMILY));
+
+    it('creates a tree named after the file, with a free id', async () => {
+      const repository = new InMemoryRepository();
+      repository.trees.set('banjar-family', new GenealogyGraph('banjar-family'));
+      const handler = new ImportTreeHandler(repository as unknown as GenealogyGraphRepository, factory);
+
+      const result = await handler.execute({ fileName: 'Banjar Family.ged', data, createNewTree: true });
+      expect(result).toEqual({ treeId: 'banjar-family-2', imported: 4, skipped: 0, merged: 0 });
+      expect(repository.trees.get('banjar-family-2')!.getPersonsSnapshot()).toHaveLength(4);
+    });
+
+    it('adds the persons to an existing tree', async () => {
+      const repository = new InMemoryRepository();
+      const tree = new GenealogyGraph('t1');
+      tree.addPerson({ personId: 'P1', name: 'Existing', gender: 'MALE' });
+      repository.trees.set('t1', tree);
+      const handler = new ImportTreeHandler(repository as unknown as GenealogyGraphRepository, factory);
+
+      const result = await handler.execute({ fileName: 'f.ged', data, createNewTree: false, targetTreeId: 't1' });
+      expect(result.imported).toBe(4);
+      expect(repository.trees.get('t1')!.getPersonsSnapshot()).toHaveLength(5);
+    });
+
+    it('saves nothing when a record is refused', async () => {
+      const repository = new InMemoryRepository();
+      const handler = new ImportTreeHandler(repository as unknown as GenealogyGraphRepository, factory);
+      const cyclic = Buffer.from(
+        gedcom(
+          '0 @I1@ INDI',
+          '0 @I2@ INDI',
+          '0 @F1@ FAM',
+          '1 HUSB @I1@',
+          '1 CHIL @I2@',
+          '0 @F2@ FAM',
+          '1 HUSB @I2@',
+          '1 CHIL @I1@',
+        ),
+      );
+
+      await expect(handler.execute({ fileName: 'f.ged', data: cyclic, createNewTree: true })).rejects.toThrow(
+        /1 record\(s\) break the tree's rules, the first at line 12/,
+      );
+      expect(repository.saves).toBe(0);
+    });
+
+    it('requires an existing target tree and a GEDCOM file', async () => {
+      const handler = new ImportTreeHandler(new InMemoryRepository() as unknown as GenealogyGraphRepository, factory);
+      await expect(handler.execute({ fileName: 'f.ged', data, createNewTree: false })).rejects.toThrow(
+        InvariantViolationError,
+      );
+      await expect(
+        handler.execute({ fileName: 'f.ged', data, createNewTree: false, targetTreeId: 'missing' }),
+      ).rejects.toThrow(NotFoundError);
+      await expect(handler.execute({ fileName: 'f.csv', data, createNewTree: true })).rejects.toThrow(
+        /only GEDCOM files/,
+      );
+    });
+  });
+
+  describe('preview query', () => {
+    it('returns the file as import preview data without saving', async () => {
+      const repository = new InMemoryRepository();
+      const handler = new PreviewTreeImportHandler(repository as unknown as GenealogyGraphRepository, factory);
+      const data = Buffer.from(
+        gedcom(...FAMILY, '0 @R1@ REPO', '0 @I9@ INDI', '1 NAME Early', '1 BIRT', '2 DATE 1800', '1 FAMC @F1@'),
+      );
+
+      const preview = (await handler.execute({ fileName: 'banjar.ged', data }))!;
+      expect(preview.data.tree).toEqual({ id: '', name: 'banjar' });
+      expect(preview.data.persons[0]).toEqual({
+        id: 'I1',
+        name: 'Ismail al-Banjari',
+        gender: 'MALE',
+        birthDate: 'ABT 1860',
+        deathDate: '1931',
+        birthPlace: 'Martapura',
+      });
+      expect(preview.data.relationships).toEqual(
+        expect.arrayContaining([
+          { type: 'parent-child', personAId: 'I1', personBId: 'I3' },
+          { type: 'spouse', personAId: expect.any(String), personBId: expect.any(String) },
+        ]),
+      );
+      expect(preview.validation.valid).toBe(false);
+      expect(preview.validation.errors).toEqual([
+        { row: 42, field: 'FAMC', message: 'child @I9@ of @F1@: parent must be older than child' },
+      ]);
+      expect(preview.validation.warnings).toEqual([{ row: 37, message: '@R1@: repositories are not imported' }]);
+      expect(preview.validation.summary).toEqual({
+        personCount: 5,
+        relationshipCount: 5,
+        duplicateCount: 0,
+        conflictCount: 1,
+      });
+      expect(preview.existingDuplicates).toEqual([]);
+      expect(repository.saves).toBe(0);
+    });
+
+    it('returns null for an unknown target tree', async () => {
+      const handler = new PreviewTreeImportHandler(
+        new InMemoryRepository() as unknown as GenealogyGraphRepository,
+        factory,
+      );
+      expect(
+        await handler.execute({ fileName: 'f.ged', data: Buffer.from(gedcom()), targetTreeId: 'missing' }),
+      ).toBeNull();
+    });
+  });
+
+  it('reads dates the way the tree writes them', () => {
+    const { graph } = read(gedcom('0 @I1@ INDI', '1 NAME A', '1 BIRT', '2 DATE BET 1850 AND 1860'));
+    expect(graph.getPerson('I1')!.birthDate).toEqual(GenealogicalDate.parse('BET 1850 AND 1860'));
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * GEDCOM Writer - Test Suite
+ *
+ * Tests cover:
+ * - Headers: 5.5.1 with CHAR, 7.0 with SCHMA for the extension tags used
+ * - Values: @ escapes per version, line breaks as CONT
+ * - Pointers: 7.0 xrefs, @VOID@ for pointers to nothing, repositories without a record
+ * - Shared notes: repeated notes become SNOTE records in 7.0 only
+ * - Value objects in 7.0: Hijri dates, name types and transliterations, media forms
+ * - GEDZIP archives: entries, stored and deflated files, UTF-8 names
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { inflateRawSync } from 'zlib';
+import { gedcomLines, gedcomStructure, writeGedcom, type GedcomStructure } from '../src/domain/gedcom-writer';
+import { GenealogicalDate } from '../src/domain/genealogical-date';
+import { PersonName } from '../src/domain/person-name';
+import { LifeEvent } from '../src/domain/life-event';
+import { MediaObject } from '../src/domain/media';
+import { Source } from '../src/domain/source';
+import { createZipArchive } from '../src/infrastructure/storage/zip-archive';
+import { decodeGedcom, readGedcomRecords, type GedcomSyntaxProblem } from '../src/domain/gedcom-parser';
+
+const person = (xref: string, ...children: GedcomStructure[]): GedcomStructure => ({ tag: 'INDI', xref, children });
+
+// Entries of a zip archive as written in its local headers
+const unzip = (archive: Buffer) => {
+  const entries: Array<{ path: string; method: number; data: Buffer }> = [];
+  let offset = 0;
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const method = archive.readUInt16LE(offset + 8);
+    const size = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const path = archive.subarray(offset + 30, offset + 30 + nameLength).toString('utf8');
+    const body = archive.subarray(offset + 30 + nameLength, offset + 30 + nameLength + size);
+    entries.push({ path, method, data: method === 8 ? inflateRawSync(body) : body });
+    offset += 30 + nameLength + size;
+  }
+  return entries;
+};
+
+describe('GEDCOM writer', () => {
+  describe('headers', () => {
+    it('writes a 5.5.1 header with the form, the character set and the submitter it requires', () => {
+      expect(writeGedcom([], '5.5.1', 'silsilah')).toBe(
+        '0 HEAD\n1 SOUR silsilah\n1 SUBM @U1@\n1 GEDC\n2 VERS 5.5.1\n2 FORM LINEAGE-LINKED\n1 CHAR UTF-8\n' +
+          '0 @U1@ SUBM\n1 NAME silsilah\n0 TRLR',
+      );
+    });
+
+    it('keeps the 5.5.1 submitter xref apart from a record with the same id', () => {
+      const text = writeGedcom([person('U1')], '5.5.1', 'silsilah');
+      expect(text).toContain('0 @U1_2@ INDI\n0 @U1@ SUBM\n');
+    });
+
+    it('writes a 7.0 header without a character set or schema when no extension is used', () => {
+      expect(writeGedcom([person('a')], '7.0', 'silsilah')).toBe(
+        '0 HEAD\n1 GEDC\n2 VERS 7.0\n1 SOUR silsilah\n0 @A@ INDI\n0 TRLR',
+      );
+    });
+
+    it('declares the extension tags used in a 7.0 SCHMA', () => {
+      const text = writeGedcom(
+        [
+          person(
+            'a',
+            { tag: 'OBJE', pointer: 'M1', children: [gedcomStructure('_PRIM', 'Y')] },
+            gedcomStructure('BIRT', null, [gedcomStructure('DATE', '_HIJRI 12 _RABIA 1320')]),
+          ),
+          { tag: 'OBJE', xref: 'M1', children: [gedcomStructure('FILE', 'a.jpg')] },
+        ],
+        '7.0',
+        'silsilah',
+      );
+      expect(text).toContain(
+        '1 SCHMA\n2 TAG _PRIM https://silsilah.app/gedcom/_PRIM\n2 TAG _HIJRI https://silsilah.app/gedcom/_HIJRI\n',
+      );
+    });
+  });
+
+  describe('values', () => {
+    it('doubles every @ in 5.5.1 and only a leading one in 7.0', () => {
+      const note = gedcomStructure('NOTE', '@home: ali@example.org');
+      expect(gedcomLines(note, 1, '5.5.1')).toEqual(['1 NOTE @@home: ali@@example.org']);
+      expect(gedcomLines(note, 1, '7.0')).toEqual(['1 NOTE @@home: ali@example.org']);
+    });
+
+    it('keeps the calendar escape of a 5.5.1 date and doubles the @ of other values', () => {
+      const date = gedcomStructure('DATE', '@#DHIJRI@ 12 RABIA 1320');
+      expect(gedcomLines(date, 2, '5.5.1')).toEqual(['2 DATE @#DHIJRI@ 12 RABIA 1320']);
+      expect(gedcomLines(gedcomStructure('DATE', 'ABT @#DJULIAN@ 1700'), 2, '5.5.1')).toEqual([
+        '2 DATE ABT @#DJULIAN@ 1700',
+      ]);
+      expect(gedcomLines(gedcomStructure('EMAIL', 'ali@example.org'), 1, '5.5.1')).toEqual([
+        '1 EMAIL ali@@example.org',
+      ]);
+    });
+
+    it('continues line breaks as CONT one level down', () => {
+      expect(gedcomLines(gedcomStructure('NOTE', 'first\n\nthird'), 2)).toEqual([
+        '2 NOTE first',
+        '3 CONT',
+        '3 CONT third',
+      ]);
+    });
+
+    it('leaves out empty values and substructures', () => {
+      expect(gedcomStructure('BIRT', '', [])).toEqual({ tag: 'BIRT' });
+      expect(gedcomStructure('BIRT', null)).toEqual({ tag: 'BIRT' });
+    });
+  });
+
+  describe('pointers', () => {
+    it('writes 7.0 xrefs in upper case with other characters as underscores, suffixing clashes', () => {
+      const text = writeGedcom(
+        [person('ali-1', { tag: 'FAMS', pointer: 'f.1' }), person('ALI_1'), { tag: 'FAM', xref: 'f.1' }],
+        '7.0',
+        'silsilah',
+      );
+      expect(text).toContain('0 @ALI_1@ INDI\n1 FAMS @F_1@\n0 @ALI_1_2@ INDI\n0 @F_1@ FAM');
+    });
+
+    it('never gives a record the VOID xref', () => {
+      expect(writeGedcom([person('void')], '7.0', 'silsilah')).toContain('0 @VOID_2@ INDI');
+    });
+
+    it('points to @VOID@ in 7.0 where a record is missing', () => {
+      const records = [person('a', { tag: 'FAMC', pointer: 'gone' }, { tag: 'REPO', pointer: null })];
+      expect(writeGedcom(records, '7.0', 'silsilah')).toContain('1 FAMC @VOID@\n1 REPO @VOID@\n');
+      expect(writeGedcom(records, '5.5.1', 'silsilah')).toContain('0 @a@ INDI\n1 REPO\n');
+    });
+
+    it('writes a source repository inline in 5.5.1 and as a void pointer in 7.0', () => {
+      const source = Source.create({ sourceId: 's1', title: 'Register', repository: 'Arsip', reference: 'B/12' });
+      expect(source.toGedcomLines('S1')).toEqual([
+        '0 @S1@ SOUR',
+        '1 TITL Register',
+        '1 REPO',
+        '2 NOTE Arsip',
+        '2 CALN B/12',
+      ]);
+      expect(writeGedcom([source.toGedcomRecord('S1')], '7.0', 'silsilah')).toContain(
+        '0 @S1@ SOUR\n1 TITL Register\n1 REPO @VOID@\n2 NOTE Arsip\n2 CALN B/12\n',
+      );
+    });
+  });
+
+  describe('shared notes', () => {
+    const records = [
+      person('a', gedcomStructure('NOTE', 'From the family salasilah')),
+      person('b', gedcomStructure('NOTE', 'From the family salasilah'), gedcomStructure('NOTE', 'Only here')),
+    ];
+
+    it('writes a note repeated in 7.0 once, as an SNOTE record', () => {
+      const text = writeGedcom(records, '7.0', 'silsilah');
+      expect(text).toContain('0 @A@ INDI\n1 SNOTE @N1@\n0 @B@ INDI\n1 SNOTE @N1@\n1 NOTE Only here\n');
+      expect(text).toContain('0 @N1@ SNOTE From the family salasilah\n0 TRLR');
+    });
+
+    it('keeps notes in place in 5.5.1', () => {
+      const text = writeGedcom(records, '5.5.1', 'silsilah');
+      expect(text).not.toContain('SNOTE');
+      expect(text.match(/1 NOTE From the family salasilah/g)).toHaveLength(2);
+    });
+  });
+
+  describe('value objects in 7.0', () => {
+    it('writes Hijri dates with the _HIJRI extension calendar', () => {
+      const date = GenealogicalDate.parse("12 Rabi' al-Awwal 1320 AH");
+      expect(date.toGedcom()).toBe('@#DHIJRI@ 12 RABIA 1320');
+      expect(date.toGedcom('7.0')).toBe('_HIJRI 12 _RABIA 1320');
+      expect(GenealogicalDate.parse('ABT 1870').toGedcom('7.0')).toBe('ABT 1870');
+    });
+
+    it('writes name types as enumerations and variants as TRAN with a language', () => {
+      const name = PersonName.create({
+        type: 'BIRTH',
+        text: 'أحمد',
+        variants: [
+          { kind: 'ROMANIZED', text: 'Ahmad', script: 'Latn' },
+          { kind: 'PHONETIC', text: 'AH-mad', method: 'English' },
+        ],
+      });
+      expect(gedcomLines(name.toGedcomStructure('7.0'), 1, '7.0')).toEqual([
+        '1 NAME أحمد',
+        '2 TYPE BIRTH',
+        '2 TRAN Ahmad',
+        '3 LANG und-Latn',
+        '2 TRAN AH-mad',
+        '3 LANG und-fonipa',
+      ]);
+      expect(name.toGedcomLines(1)).toContain('2 ROMN Ahmad');
+    });
+
+    it('writes a religious name as TYPE OTHER with a phrase', () => {
+      const name = PersonName.create({ type: 'RELIGIOUS', text: 'Abdullah' });
+      expect(gedcomLines(name.toGedcomStructure('7.0'), 1, '7.0')).toEqual([
+        '1 NAME Abdullah',
+        '2 TYPE OTHER',
+        '3 PHRASE religious',
+      ]);
+    });
+
+    it('dates events in the requested version', () => {
+      const event = LifeEvent.create({ eventId: 'E1', type: 'HAJJ', date: GenealogicalDate.parse('1350 AH') });
+      expect(gedcomLines(event.toGedcomStructure('7.0'), 1, '7.0')).toContain('2 DATE _HIJRI 1350');
+    });
+
+    it('writes media forms as MIME types with MEDI and the file as a URI path', () => {
+      const media = MediaObject.create({
+        mediaId: 'm1',
+        fileName: 'kubur datuk.jpg',
+        mimeType: 'image/jpeg',
+        size: 10,
+        storageKey: 'k1',
+        caption: 'Gravestone',
+      });
+      expect(gedcomLines(media.toGedcomRecord('M1', '7.0'), 0, '7.0')).toEqual([
+        '0 @M1@ OBJE',
+        '1 FILE media/m1/kubur%20datuk.jpg',
+        '2 FORM image/jpeg',
+        '3 MEDI PHOTO',
+        '2 TITL Gravestone',
+      ]);
+
+      const scan = MediaObject.create({
+        mediaId: 'm2',
+        fileName: 'a.pdf',
+        mimeType: 'application/pdf',
+        size: 10,
+        storageKey: 'k2',
+      });
+      expect(gedcomLines(scan.toGedcomRecord('M2', '7.0'), 0, '7.0')).toContain('4 PHRASE document');
+    });
+
+    it('writes a file the 7.0 parser can read back', () => {
+      const text = writeGedcom(
+        [person('a', gedcomStructure('NAME', 'Ali /Banjari/'), gedcomStructure('NOTE', 'line one\nline two'))],
+        '7.0',
+        'silsilah',
+      );
+      const problems: GedcomSyntaxProblem[] = [];
+      const records = [...readGedcomRecords(decodeGedcom(Buffer.from(text, 'utf8')).text, (p) => problems.push(p))];
+      expect(problems).toEqual([]);
+      const indi = records.find((record) => record.tag === 'INDI')!;
+      expect(indi.xref).toBe('A');
+      expect(indi.children.find((child) => child.tag === 'NOTE')!.value).toBe('line one\nline two');
+    });
+  });
+
+  describe('GEDZIP archives', () => {
+    it('writes each entry in order with its path', () => {
+      const photo = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3]);
+      const archive = createZipArchive([
+        { path: 'gedcom.ged', data: Buffer.from('0 HEAD\n'.repeat(50), 'utf8') },
+        { path: 'media/m1/foto ibu.jpg', data: photo },
+      ]);
+
+      const entries = unzip(archive);
+      expect(entries.map((entry) => entry.path)).toEqual(['gedcom.ged', 'media/m1/foto ibu.jpg']);
+      expect(entries[0].method).toBe(8);
+      expect(entries[0].data.toString('utf8')).toBe('0 HEAD\n'.repeat(50));
+      expect(entries[1].method).toBe(0);
+      expect(entries[1].data.equals(photo)).toBe(true);
+    });
+
+    it('ends with a central directory listing every entry', () => {
+      const archive = createZipArchive([
+        { path: 'gedcom.ged', data: Buffer.from('0 HEAD\n0 TRLR') },
+        { path: 'media/م/صورة.jpg', data: Buffer.from('x') },
+      ]);
+      const end = archive.subarray(archive.length - 22);
+      expect(end.readUInt32LE(0)).toBe(0x06054b50);
+      expect(end.readUInt16LE(10)).toBe(2);
+
+      const directory = archive.subarray(end.readUInt32LE(16));
+      expect(directory.readUInt32LE(0)).toBe(0x02014b50);
+      expect(directory.readUInt16LE(8) & 0x0800).toBe(0x0800);
+      expect(directory.readUInt32LE(16)).toBe(0xf32fba55); // CRC-32 of the GEDCOM text;
+    });
+  });
+});
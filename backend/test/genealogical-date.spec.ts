@@ -0,0 +1,277 @@
+/**
+ * GenealogicalDate - Test Suite
+ *
+ * Tests cover:
+ * - Parsing ISO, GEDCOM-style and qualified input
+ * - Precision and earliest/latest range derivation
+ * - GEDCOM serialization
+ * - Ordering comparisons with overlapping estimates
+ * - Rejection of malformed input
+ * - Hijri calendar parsing, conversion and GEDCOM escapes
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { GenealogicalDate } from '../src/domain/genealogical-date';
+import { InvariantViolationError } from '../src/domain/errors';
+import { dateToHijri, hijriDaysInMonth, hijriToDate, isHijriLeapYear } from '../src/domain/hijri-calendar';
+
+const iso = (date: Date | null) => (date ? date.toISOString().slice(0, 10) : null);
+
+describe('GenealogicalDate', () => {
+  describe('parse', () => {
+    it('parses full ISO dates as exact day precision', () => {
+      const date = GenealogicalDate.parse('1890-03-12');
+      expect(date.qualifier).toBe('EXACT');
+      expect(date.precision).toBe('DAY');
+      expect(date.start).toEqual({ year: 1890, month: 3, day: 12 });
+    });
+
+    it('ignores a trailing ISO time component', () => {
+      expect(GenealogicalDate.parse('1985-03-20T00:00:00.000Z').toGedcom()).toBe('20 MAR 1985');
+    });
+
+    it('parses partial ISO dates', () => {
+      expect(GenealogicalDate.parse('1890-03').precision).toBe('MONTH');
+      expect(GenealogicalDate.parse('1890').precision).toBe('YEAR');
+    });
+
+    it('parses GEDCOM-style day, month and year', () => {
+      expect(GenealogicalDate.parse('12 MAR 1823').start).toEqual({ year: 1823, month: 3, day: 12 });
+      expect(GenealogicalDate.parse('march 1823').start).toEqual({ year: 1823, month: 3, day: null });
+    });
+
+    it('parses qualifiers and their aliases', () => {
+      expect(GenealogicalDate.parse('ABT 1890').qualifier).toBe('ABOUT');
+      expect(GenealogicalDate.parse('circa 1890').qualifier).toBe('ABOUT');
+      expect(GenealogicalDate.parse('BEF 1750').qualifier).toBe('BEFORE');
+      expect(GenealogicalDate.parse('after 1750').qualifier).toBe('AFTER');
+    });
+
+    it('keeps estimated and calculated dates apart from approximate ones', () => {
+      const estimated = GenealogicalDate.parse('EST 1850');
+      const calculated = GenealogicalDate.parse('calculated 1850');
+      expect(estimated.qualifier).toBe('ESTIMATED');
+      expect(calculated.qualifier).toBe('CALCULATED');
+      expect(estimated.toGedcom()).toBe('EST 1850');
+      expect(calculated.toGedcom()).toBe('CAL 1850');
+      expect(GenealogicalDate.create(estimated.toProps()).toGedcom('7.0')).toBe('EST 1850');
+      // Same uncertainty as ABT for age and order checks
+      expect(estimated.range).toEqual(GenealogicalDate.parse('ABT 1850').range);
+      expect(calculated.range).toEqual(GenealogicalDate.parse('ABT 1850').range);
+    });
+
+    it('parses BETWEEN ranges', () => {
+      const date = GenealogicalDate.parse('BET 1850 AND 1860');
+      expect(date.qualifier).toBe('BETWEEN');
+      expect(date.start).toEqual({ year: 1850, month: null, day: null });
+      expect(date.end).toEqual({ year: 1860, month: null, day: null });
+    });
+
+    it('keeps the original text', () => {
+      expect(GenealogicalDate.parse('  circa 1890 ').original).toBe('circa 1890');
+    });
+
+    it.each([
+      '',
+      'sometime in spring',
+      '1890-13-01',
+      '31 FEB 1890',
+      'BET 1860 AND 1850',
+      'BET 1850',
+      'ABT',
+    ])('rejects %p', (input) => {
+      expect(() => GenealogicalDate.parse(input)).toThrow(InvariantViolationError);
+    });
+  });
+
+  describe('range', () => {
+    it('spans the whole period for partial dates', () => {
+      const { earliest, latest } = GenealogicalDate.parse('FEB 1900').range;
+      expect(iso(earliest)).toBe('1900-02-01');
+      expect(iso(latest)).toBe('1900-02-28');
+    });
+
+    it('widens ABOUT by the margin on both sides', () => {
+      const { earliest, latest } = GenealogicalDate.parse('ABT 1890').range;
+      expect(iso(earliest)).toBe('1885-01-01');
+      expect(iso(latest)).toBe('1895-12-31');
+    });
+
+    it('leaves BEFORE and AFTER open-ended', () => {
+      const before = GenealogicalDate.parse('BEF 1750').range;
+      expect(before.earliest).toBeNull();
+      expect(iso(before.latest)).toBe('1749-12-31');
+
+      const after = GenealogicalDate.parse('AFT 1750').range;
+      expect(iso(after.earliest)).toBe('1751-01-01');
+      expect(after.latest).toBeNull();
+    });
+
+    it('handles years before 100 without two-digit year mapping', () => {
+      const { earliest } = GenealogicalDate.parse('0050').range;
+      expect(earliest!.getUTCFullYear()).toBe(50);
+    });
+  });
+
+  describe('toGedcom', () => {
+    it.each([
+      ['1890-03-12', '12 MAR 1890'],
+      ['1890-03', 'MAR 1890'],
+      ['about 1890', 'ABT 1890'],
+      ['before 1750', 'BEF 1750'],
+      ['AFT 12 MAR 1750', 'AFT 12 MAR 1750'],
+      ['between 1850 and 1860', 'BET 1850 AND 1860'],
+    ])('formats %p as %p', (input, expected) => {
+      expect(GenealogicalDate.parse(input).toGedcom()).toBe(expected);
+    });
+  });
+
+  describe('from', () => {
+    it('accepts legacy Date values as exact days', () => {
+      const date = GenealogicalDate.from(new Date('1950-01-01T00:00:00.000Z'));
+      expect(date!.toGedcom()).toBe('1 JAN 1950');
+    });
+
+    it('round-trips stored props', () => {
+      const date = GenealogicalDate.parse('ABT 1890');
+      expect(GenealogicalDate.from(date.toProps())!.equals(date)).toBe(true);
+    });
+
+    it('maps empty values to null', () => {
+      expect(GenealogicalDate.from(null)).toBeNull();
+      expect(GenealogicalDate.from(undefined)).toBeNull();
+      expect(GenealogicalDate.from('')).toBeNull();
+    });
+  });
+
+  describe('ordering', () => {
+    it('detects a date certainly before another', () => {
+      const death = GenealogicalDate.parse('1880');
+      const birth = GenealogicalDate.parse('1890');
+      expect(death.isCertainlyBefore(birth)).toBe(true);
+    });
+
+    it('does not treat overlapping estimates as ordered', () => {
+      const death = GenealogicalDate.parse('ABT 1888');
+      const birth = GenealogicalDate.parse('1890');
+      expect(death.isCertainlyBefore(birth)).toBe(false);
+    });
+
+    it('allows an approximate parent birth overlapping the child birth', () => {
+      const parent = GenealogicalDate.parse('ABT 1890');
+      const child = GenealogicalDate.parse('1890-06-01');
+      expect(parent.cannotPrecede(child)).toBe(false);
+    });
+
+    it('rejects a parent whose earliest birth is after the child', () => {
+      const parent = GenealogicalDate.parse('AFT 1890');
+      const child = GenealogicalDate.parse('1890-06-01');
+      expect(parent.cannotPrecede(child)).toBe(true);
+    });
+
+    it('never orders open-ended ranges that cannot be compared', () => {
+      const parent = GenealogicalDate.parse('BEF 1900');
+      const child = GenealogicalDate.parse('BEF 1800');
+      expect(parent.cannotPrecede(child)).toBe(false);
+      expect(parent.isCertainlyBefore(child)).toBe(false);
+    });
+  });
+
+  describe('Hijri calendar', () => {
+    it('parses transliterated month names with an AH suffix', () => {
+      const date = GenealogicalDate.parse("12 Rabi' al-Awwal 1320 AH");
+      expect(date.calendar).toBe('HIJRI');
+      expect(date.start).toEqual({ year: 1320, month: 3, day: 12 });
+      expect(date.original).toBe("12 Rabi' al-Awwal 1320 AH");
+    });
+
+    it.each([
+      ['Ramadhan 1445 H', 9],
+      ['Rabiul Akhir 1300 AH', 4],
+      ['Jumada al-Ula 1300 AH', 5],
+      ['Dhu al-Hijjah 1300 AH', 12],
+      ['Zulkaedah 1300 AH', 11],
+      ['Ṣafar 1300 AH', 2],
+    ])('recognizes %p', (input, month) => {
+      expect(GenealogicalDate.parse(input).start.month).toBe(month);
+    });
+
+    it('parses the GEDCOM calendar escape', () => {
+      const date = GenealogicalDate.parse('ABT @#DHIJRI@ 1 RAMAD 1445');
+      expect(date.calendar).toBe('HIJRI');
+      expect(date.qualifier).toBe('ABOUT');
+      expect(date.start).toEqual({ year: 1445, month: 9, day: 1 });
+    });
+
+    it('converts to Gregorian bounds for ordering', () => {
+      expect(iso(GenealogicalDate.parse("12 Rabi' al-Awwal 1320 AH").range.earliest)).toBe('1902-06-19');
+
+      const { earliest, latest } = GenealogicalDate.parse('Ramadan 1445 AH').range;
+      expect(iso(earliest)).toBe('2024-03-11');
+      expect(iso(latest)).toBe('2024-04-09');
+    });
+
+    it('spans a whole Hijri year across two Gregorian years', () => {
+      const { earliest, latest } = GenealogicalDate.parse('1320 AH').range;
+      expect(iso(earliest)).toBe('1902-04-10');
+      expect(iso(latest)).toBe('1903-03-29');
+    });
+
+    it('exports with the calendar escape on every date', () => {
+      expect(GenealogicalDate.parse("12 Rabi' al-Awwal 1320 AH").toGedcom()).toBe('@#DHIJRI@ 12 RABIA 1320');
+      expect(GenealogicalDate.parse('BET 1300 AND 1310 AH').toGedcom()).toBe('BET @#DHIJRI@ 1300 AND @#DHIJRI@ 1310');
+      expect(GenealogicalDate.parse('BEF 1300 H').toGedcom()).toBe('BEF @#DHIJRI@ 1300');
+    });
+
+    it('round-trips its own GEDCOM output', () => {
+      const date = GenealogicalDate.parse("ABT 12 Rabi' al-Awwal 1320 AH");
+      expect(GenealogicalDate.parse(date.toGedcom()).equals(date)).toBe(true);
+      expect(GenealogicalDate.from(date.toProps())!.calendar).toBe('HIJRI');
+    });
+
+    it('compares against Gregorian dates', () => {
+      const parent = GenealogicalDate.parse('1290 AH');
+      const child = GenealogicalDate.parse('1902-06-19');
+      expect(parent.cannotPrecede(child)).toBe(false);
+      expect(child.cannotPrecede(parent)).toBe(true);
+    });
+
+    it('validates day ranges against Hijri month lengths', () => {
+      expect(() => GenealogicalDate.parse('30 SAFAR 1320 AH')).toThrow(InvariantViolationError);
+      expect(GenealogicalDate.parse('30 MUHARRAM 1320 AH').start.day).toBe(30);
+    });
+
+    it.each([
+      '@#DJULIAN@ 1 JAN 1700',
+      'BET @#DHIJRI@ 1300 AND @#DGREGORIAN@ 1890',
+      '12 Unknownmonth 1320 AH',
+    ])('rejects %p', (input) => {
+      expect(() => GenealogicalDate.parse(input)).toThrow(InvariantViolationError);
+    });
+
+    it('stores Gregorian as the default calendar for legacy props', () => {
+      expect(GenealogicalDate.create({ qualifier: 'EXACT', start: { year: 1900 } }).calendar).toBe('GREGORIAN');
+    });
+  });
+
+  describe('hijri-calendar', () => {
+    it('starts at the civil epoch', () => {
+      expect(iso(hijriToDate(1, 1, 1))).toBe('0622-07-19');
+    });
+
+    it('follows the 30-year leap cycle', () => {
+      const leapYears = Array.from({ length: 30 }, (_, i) => i + 1).filter(isHijriLeapYear);
+      expect(leapYears).toEqual([2, 5, 7, 10, 13, 16, 18, 21, 24, 26, 29]);
+      expect(hijriDaysInMonth(1445, 12)).toBe(30);
+      expect(hijriDaysInMonth(1444, 12)).toBe(29);
+    });
+
+    it('round-trips every month start', () => {
+      for (let year = 1; year <= 1500; year += 13) {
+        for (let month = 1; month <= 12; month++) {
+          expect(dateToHijri(hijriToDate(year, month, 1))).toEqual({ year, month, day: 1 });
+        }
+      }
+    });
+  });
+});
@@ -198,6 +198,44 @@ describe('Genealogy E2E (HTTP + MongoDB)', () => {
           });
         });
     });
+
+    it('should update marriage details with the spouses named in either order', () => {
+      return request(app.getHttpServer())
+        .put(`${apiBase}/${treeId}/relationships/spouse`)
+        .send({
+          spouseA: 'person-b',
+          spouseB: 'person-a',
+          marriageDate: '12 JUN 1982',
+          marriagePlace: 'Albany',
+          spouseAOrder: 2,
+        })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toMatchObject({
+            spouse1Id: 'person-a',
+            spouse2Id: 'person-b',
+            status: 'MARRIED',
+            marriageDate: { text: '12 JUN 1982' },
+            marriagePlace: 'Albany',
+            spouse1Order: 1,
+            spouse2Order: 2,
+          });
+        });
+    });
+
+    it('should reject divorce details on a marriage still in force', () => {
+      return request(app.getHttpServer())
+        .put(`${apiBase}/${treeId}/relationships/spouse`)
+        .send({ spouseA: 'person-a', spouseB: 'person-b', divorceDate: '1990' })
+        .expect(400);
+    });
+
+    it('should return 404 for spouses with no recorded marriage', () => {
+      return request(app.getHttpServer())
+        .put(`${apiBase}/${treeId}/relationships/spouse`)
+        .send({ spouseA: 'person-a', spouseB: 'person-c', status: 'DIVORCED' })
+        .expect(404);
+    });
   });
 
   // ====== PHASE 5: ESTABLISH PARENT-CHILD ======
@@ -226,6 +264,177 @@ describe('Genealogy E2E (HTTP + MongoDB)', () => {
         })
         .expect(422);
     });
+
+    it('should reject an unknown parent-child type', () => {
+      return request(app.getHttpServer())
+        .post(`${apiBase}/${treeId}/relationships/parent-child`)
+        .send({
+          parentId: 'person-b',
+          childId: 'person-c',
+          type: 'GODPARENT',
+        })
+        .expect(400);
+    });
+  });
+
+  // ====== PHASE 5b: UPDATE PERSON ======
+  describe('PUT /trees/:treeId/persons/:personId - Update person', () => {
+    it('should update person A and return the updated person', () => {
+      return request(app.getHttpServer())
+        .put(`${apiBase}/${treeId}/persons/person-a`)
+        .send({
+          name: 'Alice Smith',
+          gender: 'FEMALE',
+          birthDate: '1960-01-01',
+          birthPlace: 'Albany',
+        })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toMatchObject({
+            personId: 'person-a',
+            name: 'Alice Smith',
+            birthPlace: 'Albany',
+          });
+        });
+    });
+
+    it('should clear an optional field when null is sent', () => {
+      return request(app.getHttpServer())
+        .put(`${apiBase}/${treeId}/persons/person-b`)
+        .send({ birthPlace: null })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.birthPlace).toBeNull();
+          expect(res.body.name).toBe('Bob');
+        });
+    });
+
+    it('should reject a child birthDate earlier than a parent (age consistency)', () => {
+      return request(app.getHttpServer())
+        .put(`${apiBase}/${treeId}/persons/person-c`)
+        .send({ birthDate: '1950-01-01' })
+        .expect(422);
+    });
+
+    it('should reject a parent birthDate later than a child (age consistency)', () => {
+      return request(app.getHttpServer())
+        .put(`${apiBase}/${treeId}/persons/person-a`)
+        .send({ birthDate: '1990-01-01' })
+        .expect(422);
+    });
+
+    it('should reject deathDate before birthDate (invariant)', () => {
+      return request(app.getHttpServer())
+        .put(`${apiBase}/${treeId}/persons/person-c`)
+        .send({ deathDate: '1980-01-01' })
+        .expect(400);
+    });
+
+    it('should return 404 for nonexistent person', () => {
+      return request(app.getHttpServer())
+        .put(`${apiBase}/${treeId}/persons/nonexistent`)
+        .send({ name: 'Nobody' })
+        .expect(404);
+    });
+
+    it('should persist the update', () => {
+      return request(app.getHttpServer())
+        .get(`${apiBase}/${treeId}/persons/person-c`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.name).toBe('Charlie');
+          expect(res.body.birthDate).toMatchObject({ qualifier: 'EXACT', text: '20 MAR 1985' });
+        });
+    });
+
+    it('should accept an approximate parent birthDate overlapping the child', () => {
+      return request(app.getHttpServer())
+        .put(`${apiBase}/${treeId}/persons/person-a`)
+        .send({ birthDate: 'ABT 1984' })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.birthDate).toMatchObject({
+            qualifier: 'ABOUT',
+            precision: 'YEAR',
+            text: 'ABT 1984',
+            earliest: '1979-01-01',
+            latest: '1989-12-31',
+          });
+        });
+    });
+
+    it('should reject a parent range that lies entirely after the child', () => {
+      return request(app.getHttpServer())
+        .put(`${apiBase}/${treeId}/persons/person-a`)
+        .send({ birthDate: 'AFT 1985' })
+        .expect(422);
+    });
+
+    it('should reject an unparseable date', () => {
+      return request(app.getHttpServer())
+        .put(`${apiBase}/${treeId}/persons/person-a`)
+        .send({ birthDate: 'sometime in spring' })
+        .expect(400);
+    });
+
+    it('should restore an exact birthDate', () => {
+      return request(app.getHttpServer())
+        .put(`${apiBase}/${treeId}/persons/person-a`)
+        .send({ birthDate: '1960-01-01' })
+        .expect(200);
+    });
+  });
+
+  // ====== PHASE 5c: STRUCTURED NAMES ======
+  describe('Structured names', () => {
+    const names = [
+      {
+        type: 'BIRTH',
+        script: 'Arab',
+        text: 'عبد الله بن عثمان',
+        variants: [{ kind: 'ROMANIZED', text: 'Abdullah ibn Uthman', script: 'Latn', method: 'ALA-LC' }],
+      },
+      {
+        type: 'RELIGIOUS',
+        primary: true,
+        parts: [
+          { type: 'KUNYA', value: 'Abu Bakr' },
+          { type: 'LAQAB', value: 'al-Siddiq' },
+        ],
+      },
+    ];
+
+    it('should derive the display name from the primary name', () => {
+      return request(app.getHttpServer())
+        .post(`${apiBase}/${treeId}/persons`)
+        .send({ personId: 'person-names', gender: 'MALE', names })
+        .expect(201);
+    });
+
+    it('should return the name records', () => {
+      return request(app.getHttpServer())
+        .get(`${apiBase}/${treeId}/persons/person-names`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.name).toBe('Abu Bakr al-Siddiq');
+          expect(res.body.names).toHaveLength(2);
+          expect(res.body.names[0]).toMatchObject({ type: 'BIRTH', primary: false, fullText: 'عبد الله بن عثمان' });
+          expect(res.body.names[1]).toMatchObject({ type: 'RELIGIOUS', primary: true });
+        });
+    });
+
+    it('should reject an invalid name part', () => {
+      return request(app.getHttpServer())
+        .put(`${apiBase}/${treeId}/persons/person-names`)
+        .send({ names: [{ type: 'BIRTH', parts: [{ type: 'CLAN', value: 'X' }] }] })
+        .expect(400);
+    });
+
+    it('should remove the person again', () => {
+      return request(app.getHttpServer())
+        .delete(`${apiBase}/${treeId}/persons/person-names`)
+        .expect(200);
+    });
   });
 
   // ====== PHASE 6: GET ANCESTORS ======
@@ -282,6 +491,42 @@ describe('Genealogy E2E (HTTP + MongoDB)', () => {
     });
   });
 
+  // ====== PHASE 7b: NASAB ======
+  describe('GET /trees/:treeId/persons/:personId/nasab', () => {
+    it('should stop at a female-line gap for C (only a mother recorded)', () => {
+      return request(app.getHttpServer())
+        .get(`${apiBase}/${treeId}/persons/person-c/nasab`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toEqual({
+            personId: 'person-c',
+            style: 'MALAY',
+            text: 'Charlie',
+            links: [{ personId: 'person-c', name: 'Charlie', gender: 'MALE' }],
+            end: { reason: 'FATHER_NOT_RECORDED', parentIds: ['person-a'] },
+          });
+        });
+    });
+
+    it('should reject an out-of-range depth', () => {
+      return request(app.getHttpServer())
+        .get(`${apiBase}/${treeId}/persons/person-c/nasab?depth=0`)
+        .expect(400);
+    });
+
+    it('should reject an unknown style', () => {
+      return request(app.getHttpServer())
+        .get(`${apiBase}/${treeId}/persons/person-c/nasab?style=latin`)
+        .expect(400);
+    });
+
+    it('should return 404 for an unknown person', () => {
+      return request(app.getHttpServer())
+        .get(`${apiBase}/${treeId}/persons/nobody/nasab`)
+        .expect(404);
+    });
+  });
+
   // ====== PHASE 8: REMOVE RELATIONSHIP ======
   describe('DELETE /trees/:treeId/relationships', () => {
     it('should remove parent-child relationship between A and C', () => {
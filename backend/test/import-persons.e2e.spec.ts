@@ -264,5 +264,128 @@ second-import,Second Import,FEMALE,1970-01-01,,`;
         total: 2,
       });
     });
+
+    test('Should import relationships from a section below the persons', async () => {
+      const csvContent = `Person ID,Full Name,Sex,DOB
+father,Umar Basyaiban,M,ABT 1890
+mother,Khadijah,F,1895
+child,Salim,M,1920-04-02
+
+type,personAId,personBId,subtype
+spouse,father,mother,
+parent-child,father,child,
+parent-child,mother,child,ADOPTIVE
+parent-child,existing-person,child,STEP`;
+
+      const response = await request(app.getHttpServer())
+        .post(`${apiBase}/${treeId}/persons/import`)
+        .send({ csvContent })
+        .expect(HttpStatus.CREATED);
+
+      expect(response.body).toEqual({
+        imported: 3,
+        updated: 0,
+        skipped: 0,
+        total: 3,
+        relationships: { imported: 4, skipped: 0, total: 4 },
+        errors: [],
+      });
+
+      const tree = await client.db(dbName).collection('family_trees').findOne({ treeId });
+      expect(tree!.parentChildEdges).toHaveLength(3);
+      expect(tree!.spouseEdges).toHaveLength(1);
+    });
+
+    test('Should import relationships from a separate CSV', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`${apiBase}/${treeId}/persons/import`)
+        .send({
+          csvContent: `personId,name\nson,Ahmad`,
+          relationshipsCsv: `parentId,childId\nexisting-person,son`,
+        })
+        .expect(HttpStatus.CREATED);
+
+      expect(response.body.relationships).toEqual({ imported: 1, skipped: 0, total: 1 });
+    });
+
+    test('Should import nothing in strict mode when any row fails', async () => {
+      const csvContent = `personId,name,gender
+good-person,Good Person,FEMALE
+bad-person,Bad Person,X
+
+parentId,childId
+existing-person,good-person`;
+
+      const response = await request(app.getHttpServer())
+        .post(`${apiBase}/${treeId}/persons/import`)
+        .send({ csvContent, mode: 'strict' })
+        .expect(HttpStatus.BAD_REQUEST);
+
+      expect(response.body.message).toContain('Row 3: gender must be MALE, FEMALE, or UNKNOWN');
+      expect(response.body.message).toContain('nothing was imported');
+
+      const tree = await client.db(dbName).collection('family_trees').findOne({ treeId });
+      expect(tree!.persons).toHaveLength(1);
+      expect(tree!.parentChildEdges).toHaveLength(0);
+    });
+
+    test('Should import the other rows in lenient mode and report the failed ones', async () => {
+      const csvContent = `personId,name,gender
+good-person,Good Person,FEMALE
+bad-person,Bad Person,X
+
+parentId,childId
+existing-person,good-person
+existing-person,bad-person`;
+
+      const response = await request(app.getHttpServer())
+        .post(`${apiBase}/${treeId}/persons/import`)
+        .send({ csvContent, mode: 'lenient' })
+        .expect(HttpStatus.CREATED);
+
+      expect(response.body).toMatchObject({
+        imported: 1,
+        total: 2,
+        relationships: { imported: 1, skipped: 0, total: 2 },
+        errors: [
+          {
+            section: 'persons',
+            row: 3,
+            personId: 'bad-person',
+            message: 'gender must be MALE, FEMALE, or UNKNOWN',
+          },
+          {
+            section: 'relationships',
+            row: 7,
+            personId: 'existing-person',
+            message: 'person bad-person was not imported',
+          },
+        ],
+      });
+    });
+
+    test('Should update existing persons with upsert', async () => {
+      const csvContent = `personId,name,birthPlace
+existing-person,John Existing Jr,Mukalla`;
+
+      const response = await request(app.getHttpServer())
+        .post(`${apiBase}/${treeId}/persons/import`)
+        .send({ csvContent, upsert: true })
+        .expect(HttpStatus.CREATED);
+
+      expect(response.body).toMatchObject({ imported: 0, updated: 1, skipped: 0, total: 1 });
+
+      const tree = await client.db(dbName).collection('family_trees').findOne({ treeId });
+      expect(tree!.persons[0]).toMatchObject({ name: 'John Existing Jr', gender: 'MALE', birthPlace: 'Mukalla' });
+    });
+
+    test('Should reject an unknown mode', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`${apiBase}/${treeId}/persons/import`)
+        .send({ csvContent: `personId,name\np1,Ali`, mode: 'partial' })
+        .expect(HttpStatus.BAD_REQUEST);
+
+      expect(response.body.message).toContain('mode must be one of strict, lenient');
+    });
   });
 });
@@ -0,0 +1,82 @@
+/**
+ * Kin Path - Test Suite
+ *
+ * Tests cover:
+ * - The shortest chain of parent, child and spouse edges, both ends included
+ * - Non-biological parent-child edges, which a path follows
+ * - Leaving out spouse hops
+ * - Deterministic choice between equally short paths
+ * - Unconnected and unknown persons
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { NotFoundError } from '../src/domain/errors';
+import { buildLineage, type Lineage } from './fixtures/lineage';
+
+// Umar and Aminah: Ahmad and Fatimah. Ahmad married Sarah (Hamid's daughter): Ali.
+// Umar adopted Yusuf. Fatimah married Rashid. Musa stands alone.
+const LINEAGE: Lineage = {
+  people: [
+    ['umar', 'MALE'],
+    ['aminah', 'FEMALE'],
+    ['ahmad', 'MALE'],
+    ['fatimah', 'FEMALE'],
+    ['hamid', 'MALE'],
+    ['sarah', 'FEMALE'],
+    ['ali', 'MALE'],
+    ['yusuf', 'MALE'],
+    ['rashid', 'MALE'],
+    ['musa', 'MALE'],
+  ],
+  children: [
+    ['umar', ['ahmad', 'fatimah']],
+    ['aminah', ['ahmad', 'fatimah']],
+    ['hamid', ['sarah']],
+    ['ahmad', ['ali']],
+    ['sarah', ['ali']],
+  ],
+  spouses: [
+    ['umar', 'aminah'],
+    ['ahmad', 'sarah'],
+    ['fatimah', 'rashid'],
+  ],
+  links: [['umar', 'yusuf', 'ADOPTIVE']],
+};
+
+const graph = buildLineage('tree-kin-path', LINEAGE);
+const ids = (fromId: string, toId: string, includeSpouses = true) =>
+  graph.getKinPath(fromId, toId, { includeSpouses })?.map((step) => step.personId) ?? null;
+
+describe('Kin path', () => {
+  it('returns the shortest chain with the relation of each step', () => {
+    expect(graph.getKinPath('ali', 'fatimah')).toEqual([
+      { personId: 'ali', relation: null, type: null },
+      { personId: 'ahmad', relation: 'PARENT', type: 'BIOLOGICAL' },
+      { personId: 'aminah', relation: 'PARENT', type: 'BIOLOGICAL' },
+      { personId: 'fatimah', relation: 'CHILD', type: 'BIOLOGICAL' },
+    ]);
+    expect(ids('ali', 'ali')).toEqual(['ali']);
+  });
+
+  it('crosses spouse edges and follows non-biological links', () => {
+    expect(ids('hamid', 'rashid')).toEqual(['hamid', 'sarah', 'ahmad', 'aminah', 'fatimah', 'rashid']);
+    expect(graph.getKinPath('ahmad', 'yusuf')!.map((step) => step.type)).toEqual([null, 'BIOLOGICAL', 'ADOPTIVE']);
+  });
+
+  it('prefers a spouse hop when it is shorter, and leaves it out on request', () => {
+    expect(ids('ahmad', 'sarah')).toEqual(['ahmad', 'sarah']);
+    expect(ids('ahmad', 'sarah', false)).toEqual(['ahmad', 'ali', 'sarah']);
+    expect(ids('ahmad', 'rashid', false)).toBeNull();
+  });
+
+  it('breaks ties by parents first, then the smaller person id', () => {
+    // Umar and Aminah are equally near; so are their two parent-child routes
+    expect(ids('ahmad', 'fatimah')).toEqual(['ahmad', 'aminah', 'fatimah']);
+    expect(ids('umar', 'aminah', false)).toEqual(['umar', 'ahmad', 'aminah']);
+  });
+
+  it('returns null for unconnected persons and rejects unknown ones', () => {
+    expect(graph.getKinPath('ali', 'musa')).toBeNull();
+    expect(() => graph.getKinPath('ali', 'nobody')).toThrow(NotFoundError);
+  });
+});
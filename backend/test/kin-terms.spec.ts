@@ -0,0 +1,231 @@
+/**
+ * Kin Terms - Test Suite
+ *
+ * Tests cover:
+ * - Malay/Indonesian terms: abang, kakak and adik by relative age, pak cik
+ *   and mak cik with the side of the family, saudara, sepupu and pupu,
+ *   mertua, ipar, menantu and tiri
+ * - Arabic terms: ʿamm and khāl, full and half siblings through the father
+ *   or the mother, possessive chains, in-laws
+ * - Relative age from birth dates, else child order in a family
+ * - English as the default locale; the locale changes the label alone
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { KinLocale } from '../src/domain/kin-terms';
+import { buildLineage, type Lineage } from './fixtures/lineage';
+
+// Abdullah had Umar (1920) and Zainab (1923) with Maryam, and Khalid (1925) with Salmah.
+// Umar and Aminah: Fatimah, then Ahmad (1950). Zainab and Ismail: Hafsah. Khalid: Yahya.
+// Ahmad married Sarah (1952), Hamid's daughter; her brother Musa (1945) has Idris.
+// Ahmad and Sarah: Ali, then Nur. Hafsah: Siti. Fatimah divorced Rashid. Umar adopted Yusuf.
+const LINEAGE: Lineage = {
+  people: [
+    ['abdullah', 'MALE'],
+    ['maryam', 'FEMALE'],
+    ['salmah', 'FEMALE'],
+    ['umar', 'MALE', '1920'],
+    ['zainab', 'FEMALE', '1923'],
+    ['khalid', 'MALE', '1925'],
+    ['aminah', 'FEMALE'],
+    ['ismail', 'MALE'],
+    ['fatimah', 'FEMALE'],
+    ['ahmad', 'MALE', '1950'],
+    ['hafsah', 'FEMALE'],
+    ['yahya', 'MALE'],
+    ['hamid', 'MALE'],
+    ['sarah', 'FEMALE', '1952'],
+    ['musa', 'MALE', '1945'],
+    ['idris', 'MALE'],
+    ['ali', 'MALE'],
+    ['nur', 'FEMALE'],
+    ['siti', 'FEMALE'],
+    ['rashid', 'MALE'],
+    ['yusuf', 'MALE'],
+  ],
+  children: [
+    ['abdullah', ['umar', 'zainab', 'khalid']],
+    ['maryam', ['umar', 'zainab']],
+    ['salmah', ['khalid']],
+    ['umar', ['fatimah', 'ahmad']],
+    ['aminah', ['fatimah', 'ahmad']],
+    ['zainab', ['hafsah']],
+    ['ismail', ['hafsah']],
+    ['khalid', ['yahya']],
+    ['hamid', ['sarah', 'musa']],
+    ['musa', ['idris']],
+    ['ahmad', ['ali', 'nur']],
+    ['sarah', ['ali', 'nur']],
+    ['hafsah', ['siti']],
+  ],
+  spouses: [
+    ['abdullah', 'maryam'],
+    ['abdullah', 'salmah'],
+    ['umar', 'aminah'],
+    ['zainab', 'ismail'],
+    ['ahmad', 'sarah'],
+    ['fatimah', 'rashid', { status: 'DIVORCED' }],
+  ],
+  links: [['umar', 'yusuf', 'ADOPTIVE']],
+};
+
+const graph = buildLineage('tree-kin-terms', LINEAGE);
+const termIn = (locale: KinLocale) => (fromId: string, toId: string) => graph.getKinship(fromId, toId, locale).label;
+
+describe('Kin terms in Malay/Indonesian', () => {
+  const term = termIn('ms');
+
+  it('names parents, grandparents and descendants', () => {
+    expect(term('ahmad', 'umar')).toBe('ayah');
+    expect(term('ahmad', 'aminah')).toBe('ibu');
+    expect(term('hafsah', 'abdullah')).toBe('datuk');
+    expect(term('hafsah', 'maryam')).toBe('nenek');
+    expect(term('ali', 'abdullah')).toBe('moyang');
+    expect(term('nur', 'maryam')).toBe('moyang');
+    expect(term('ahmad', 'nur')).toBe('anak perempuan');
+    expect(term('umar', 'ali')).toBe('cucu');
+    expect(term('abdullah', 'ali')).toBe('cicit');
+  });
+
+  it('names siblings as abang, kakak or adik by relative age', () => {
+    expect(term('zainab', 'umar')).toBe('abang');
+    expect(term('umar', 'zainab')).toBe('adik perempuan');
+    // Only Hamid is recorded: nothing says Sarah and Musa have different mothers
+    expect(term('sarah', 'musa')).toBe('abang');
+    expect(term('musa', 'sarah')).toBe('adik perempuan');
+    expect(term('khalid', 'umar')).toBe('abang sebapa');
+    expect(term('umar', 'khalid')).toBe('adik lelaki sebapa');
+  });
+
+  it('falls back to the order of children in a family when birth dates are missing', () => {
+    expect(term('ahmad', 'fatimah')).toBe('kakak');
+    expect(term('fatimah', 'ahmad')).toBe('adik lelaki');
+    expect(term('nur', 'ali')).toBe('abang');
+  });
+
+  it('names uncles and aunts with the side of the family', () => {
+    expect(term('ahmad', 'zainab')).toBe('mak cik sebelah ayah');
+    expect(term('hafsah', 'umar')).toBe('pak cik sebelah ibu');
+    expect(term('ahmad', 'khalid')).toBe('pak cik sebelah ayah');
+    expect(term('ali', 'musa')).toBe('pak cik sebelah ibu');
+    expect(term('ali', 'zainab')).toBe('nenek saudara');
+  });
+
+  it('names nephews and nieces as anak saudara and cucu saudara', () => {
+    expect(term('zainab', 'ahmad')).toBe('anak saudara lelaki');
+    expect(term('umar', 'hafsah')).toBe('anak saudara perempuan');
+    expect(term('zainab', 'ali')).toBe('cucu saudara');
+  });
+
+  it('names cousins as sepupu and pupu, across generations', () => {
+    expect(term('ahmad', 'hafsah')).toBe('sepupu');
+    expect(term('ahmad', 'yahya')).toBe('sepupu');
+    expect(term('ali', 'siti')).toBe('dua pupu');
+    expect(term('ali', 'hafsah')).toBe('sepupu ayah');
+    expect(term('hafsah', 'ali')).toBe('anak sepupu');
+  });
+
+  it('names relations through marriage', () => {
+    expect(term('ahmad', 'sarah')).toBe('isteri');
+    expect(term('sarah', 'umar')).toBe('bapa mertua');
+    expect(term('sarah', 'aminah')).toBe('ibu mertua');
+    expect(term('ahmad', 'musa')).toBe('abang ipar');
+    expect(term('musa', 'ahmad')).toBe('adik ipar');
+    expect(term('sarah', 'fatimah')).toBe('ipar');
+    expect(term('umar', 'sarah')).toBe('menantu');
+    expect(term('abdullah', 'sarah')).toBe('cucu menantu');
+    expect(term('hafsah', 'aminah')).toBe('mak cik sebelah ibu');
+    expect(term('umar', 'salmah')).toBe('ibu tiri');
+    expect(term('salmah', 'umar')).toBe('anak tiri');
+    expect(term('ahmad', 'idris')).toBe('anak saudara lelaki isteri');
+  });
+
+  it('names former spouses and in-laws, adoption and self', () => {
+    expect(term('fatimah', 'rashid')).toBe('bekas suami');
+    expect(term('rashid', 'umar')).toBe('bekas bapa mertua');
+    expect(term('umar', 'yusuf')).toBe('anak angkat');
+    expect(term('yusuf', 'umar')).toBe('ayah angkat');
+    expect(term('ali', 'ali')).toBe('diri sendiri');
+    expect(term('yusuf', 'hamid')).toBeNull();
+  });
+});
+
+describe('Kin terms in Arabic', () => {
+  const term = termIn('ar');
+
+  it('names parents and grandparents through the father or the mother', () => {
+    expect(term('ahmad', 'umar')).toBe('أب');
+    expect(term('ahmad', 'aminah')).toBe('أم');
+    expect(term('ahmad', 'abdullah')).toBe('جد لأب');
+    expect(term('hafsah', 'abdullah')).toBe('جد لأم');
+    expect(term('hafsah', 'maryam')).toBe('جدة لأم');
+    expect(term('ali', 'abdullah')).toBe('جد الأب');
+  });
+
+  it('names descendants as possessive chains', () => {
+    expect(term('umar', 'ahmad')).toBe('ابن');
+    expect(term('umar', 'ali')).toBe('ابن الابن');
+    expect(term('zainab', 'siti')).toBe('بنت البنت');
+    expect(term('abdullah', 'nur')).toBe('بنت ابن الابن');
+  });
+
+  it('names full siblings and half siblings through the father or the mother', () => {
+    expect(term('ahmad', 'fatimah')).toBe('أخت شقيقة');
+    expect(term('fatimah', 'ahmad')).toBe('أخ شقيق');
+    expect(term('umar', 'khalid')).toBe('أخ لأب');
+  });
+
+  it('tells the paternal uncle (عم) from the maternal uncle (خال)', () => {
+    expect(term('ahmad', 'zainab')).toBe('عمة');
+    expect(term('hafsah', 'umar')).toBe('خال');
+    expect(term('ahmad', 'khalid')).toBe('عم لأب');
+    expect(term('ali', 'musa')).toBe('خال');
+    expect(term('ali', 'zainab')).toBe('عمة الأب');
+  });
+
+  it('names nephews, nieces and cousins by the branch they descend from', () => {
+    expect(term('zainab', 'ahmad')).toBe('ابن الأخ');
+    expect(term('umar', 'hafsah')).toBe('بنت الأخت');
+    expect(term('zainab', 'ali')).toBe('ابن ابن الأخ');
+    expect(term('ahmad', 'hafsah')).toBe('بنت العمة');
+    expect(term('hafsah', 'ahmad')).toBe('ابن الخال');
+    expect(term('ahmad', 'yahya')).toBe('ابن العم');
+    expect(term('ali', 'hafsah')).toBe('بنت عمة الأب');
+    expect(term('ali', 'siti')).toBe('بنت بنت عمة الأب');
+  });
+
+  it('names relations through marriage', () => {
+    expect(term('ahmad', 'sarah')).toBe('زوجة');
+    expect(term('sarah', 'umar')).toBe('حمو');
+    expect(term('sarah', 'aminah')).toBe('حماة');
+    expect(term('umar', 'sarah')).toBe('كنة');
+    expect(term('fatimah', 'sarah')).toBe('زوجة الأخ');
+    expect(term('ahmad', 'musa')).toBe('أخو الزوجة');
+    expect(term('ahmad', 'idris')).toBe('ابن أخي الزوجة');
+    expect(term('hafsah', 'aminah')).toBe('زوجة الخال');
+    expect(term('umar', 'salmah')).toBe('زوجة الأب');
+    expect(term('salmah', 'umar')).toBe('ربيب');
+  });
+
+  it('names former spouses and in-laws, adoption and self', () => {
+    expect(term('fatimah', 'rashid')).toBe('طليق');
+    expect(term('umar', 'rashid')).toBe('صهر سابقًا');
+    expect(term('umar', 'yusuf')).toBe('ابن بالتبني');
+    expect(term('ali', 'ali')).toBe('نفسه');
+  });
+});
+
+describe('Kin term locale', () => {
+  it('defaults to English', () => {
+    expect(graph.getKinship('ahmad', 'zainab').label).toBe('aunt');
+    expect(graph.getKinship('zainab', 'umar').label).toBe('brother');
+  });
+
+  it('changes the label alone', () => {
+    const { label: english, ...rest } = graph.getKinship('ali', 'hafsah');
+    const { label: malay, ...same } = graph.getKinship('ali', 'hafsah', 'ms');
+    expect(english).toBe('first cousin once removed');
+    expect(malay).toBe('sepupu ayah');
+    expect(same).toEqual(rest);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Kinship - Test Suite
+ *
+ * Tests cover:
+ * - Lineal relations up and down, with great- and numbered generations
+ * - Siblings, uncles/aunts, nephews/nieces and their half forms
+ * - Cousins by degree and removal
+ * - In-laws on both sides of a spouse edge, step relations and ended marriages
+ * - Recorded adoptive links, which are not followed further
+ * - The path between the two persons
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { englishBloodTerm } from '../src/domain/kin-terms-english';
+import { NotFoundError } from '../src/domain/errors';
+import { buildLineage, type Lineage } from './fixtures/lineage';
+
+// Abdullah had Umar and Zainab with Maryam, and Khalid with Salmah.
+// Umar and Aminah: Ahmad and Fatimah. Zainab and Ismail: Hafsah. Khalid: Yahya.
+// Ahmad married Sarah (Hamid's daughter, Musa's sister): Ali, then Nur.
+// Hafsah: Siti. Fatimah divorced Rashid. Umar adopted Yusuf.
+const LINEAGE: Lineage = {
+  people: [
+    ['abdullah', 'MALE'],
+    ['maryam', 'FEMALE'],
+    ['salmah', 'FEMALE'],
+    ['umar', 'MALE'],
+    ['zainab', 'FEMALE'],
+    ['khalid', 'MALE'],
+    ['aminah', 'FEMALE'],
+    ['ismail', 'MALE'],
+    ['ahmad', 'MALE'],
+    ['fatimah', 'FEMALE'],
+    ['hafsah', 'FEMALE'],
+    ['yahya', 'MALE'],
+    ['hamid', 'MALE'],
+    ['sarah', 'FEMALE'],
+    ['musa', 'MALE'],
+    ['ali', 'MALE'],
+    ['nur', 'FEMALE'],
+    ['siti', 'FEMALE'],
+    ['rashid', 'MALE'],
+    ['yusuf', 'MALE'],
+  ],
+  children: [
+    ['abdullah', ['umar', 'zainab', 'khalid']],
+    ['maryam', ['umar', 'zainab']],
+    ['salmah', ['khalid']],
+    ['umar', ['ahmad', 'fatimah']],
+    ['aminah', ['ahmad', 'fatimah']],
+    ['zainab', ['hafsah']],
+    ['ismail', ['hafsah']],
+    ['khalid', ['yahya']],
+    ['hamid', ['sarah', 'musa']],
+    ['ahmad', ['ali']],
+    ['sarah', ['ali']],
+    ['ali', ['nur']],
+    ['hafsah', ['siti']],
+  ],
+  spouses: [
+    ['abdullah', 'maryam'],
+    ['abdullah', 'salmah'],
+    ['umar', 'aminah'],
+    ['zainab', 'ismail'],
+    ['ahmad', 'sarah'],
+    ['fatimah', 'rashid', { status: 'DIVORCED' }],
+  ],
+  links: [['umar', 'yusuf', 'ADOPTIVE']],
+};
+
+const graph = buildLineage('tree-kinship', LINEAGE);
+const label = (fromId: string, toId: string) => graph.getKinship(fromId, toId).label;
+
+describe('Kinship', () => {
+  it('names lineal ancestors and descendants', () => {
+    expect(label('ahmad', 'umar')).toBe('father');
+    expect(label('umar', 'fatimah')).toBe('daughter');
+    expect(label('ahmad', 'abdullah')).toBe('grandfather');
+    expect(label('nur', 'abdullah')).toBe('great-great-grandfather');
+    expect(label('maryam', 'nur')).toBe('great-great-granddaughter');
+    expect(graph.getKinship('ahmad', 'abdullah').blood).toEqual({
+      up: 2,
+      down: 0,
+      half: false,
+      commonAncestorIds: ['abdullah'],
+    });
+  });
+
+  it('names siblings, uncles, aunts, nephews and nieces, full and half', () => {
+    expect(label('ahmad', 'fatimah')).toBe('sister');
+    expect(label('umar', 'khalid')).toBe('half-brother');
+    expect(label('ahmad', 'zainab')).toBe('aunt');
+    expect(label('ali', 'zainab')).toBe('great-aunt');
+    expect(label('ahmad', 'khalid')).toBe('half-uncle');
+    expect(label('zainab', 'ahmad')).toBe('nephew');
+    expect(label('zainab', 'ali')).toBe('great-nephew');
+  });
+
+  it('names siblings with only one parent recorded as full siblings', () => {
+    // Hamid alone is recorded for Sarah and Musa: a missing mother is not a different one
+    expect(label('sarah', 'musa')).toBe('brother');
+    expect(label('ali', 'musa')).toBe('uncle');
+    expect(graph.getKinship('ali', 'musa').blood).toEqual({
+      up: 2,
+      down: 1,
+      half: false,
+      commonAncestorIds: ['hamid'],
+    });
+  });
+
+  it('names cousins by degree and removal', () => {
+    expect(label('ahmad', 'hafsah')).toBe('first cousin');
+    expect(label('ali', 'hafsah')).toBe('first cousin once removed');
+    expect(label('hafsah', 'nur')).toBe('first cousin twice removed');
+    expect(label('ali', 'siti')).toBe('second cousin');
+    expect(label('nur', 'siti')).toBe('second cousin once removed');
+    expect(label('ahmad', 'yahya')).toBe('half first cousin');
+    expect(graph.getKinship('ahmad', 'hafsah').blood).toEqual({
+      up: 2,
+      down: 2,
+      half: false,
+      commonAncestorIds: ['abdullah', 'maryam'],
+    });
+  });
+
+  it('numbers generations beyond great-great', () => {
+    expect(englishBloodTerm({ up: 5, down: 0, half: false }, 'MALE')).toBe('3rd great-grandfather');
+    expect(englishBloodTerm({ up: 0, down: 6, half: false }, 'FEMALE')).toBe('4th great-granddaughter');
+    expect(englishBloodTerm({ up: 5, down: 1, half: false }, 'MALE')).toBe('3rd great-uncle');
+    expect(englishBloodTerm({ up: 4, down: 7, half: false }, 'FEMALE')).toBe('third cousin 3 times removed');
+    expect(englishBloodTerm({ up: 12, down: 12, half: false }, 'MALE')).toBe('11th cousin');
+  });
+
+  it('keeps unknown genders neutral', () => {
+    const withChild = buildLineage('tree-kinship', LINEAGE);
+    withChild.addPerson({ personId: 'child', name: 'Child', gender: 'UNKNOWN' });
+    withChild.addParentChildRelationship('fatimah', 'child');
+    expect(withChild.getKinship('ahmad', 'child').label).toBe('nephew/niece');
+    expect(withChild.getKinship('child', 'ahmad').label).toBe('uncle');
+  });
+
+  it('names spouses and the relatives of a spouse', () => {
+    expect(label('ahmad', 'sarah')).toBe('wife');
+    expect(label('ahmad', 'hamid')).toBe('father-in-law');
+    expect(label('ahmad', 'musa')).toBe('brother-in-law');
+    expect(label('salmah', 'umar')).toBe('stepson');
+    expect(label('ismail', 'ahmad')).toBe("wife's nephew");
+    expect(graph.getKinship('ahmad', 'musa').inLaw).toEqual({
+      side: 'SPOUSE_RELATIVE',
+      spouseId: 'sarah',
+      relativeId: 'musa',
+    });
+  });
+
+  it('names the spouses of relatives', () => {
+    expect(label('umar', 'sarah')).toBe('daughter-in-law');
+    expect(label('sarah', 'fatimah')).toBe('sister-in-law');
+    expect(label('fatimah', 'sarah')).toBe('sister-in-law');
+    expect(label('umar', 'salmah')).toBe('stepmother');
+    expect(label('ahmad', 'ismail')).toBe('uncle by marriage');
+    expect(label('hafsah', 'sarah')).toBe("first cousin's wife");
+    expect(graph.getKinship('umar', 'sarah').inLaw).toEqual({
+      side: 'RELATIVE_SPOUSE',
+      spouseId: 'sarah',
+      relativeId: 'ahmad',
+    });
+  });
+
+  it('marks relations through an ended marriage as former', () => {
+    expect(label('fatimah', 'rashid')).toBe('former husband');
+    expect(label('ahmad', 'rashid')).toBe('former brother-in-law');
+    expect(graph.getKinship('ahmad', 'rashid').formerSpouse).toBe(true);
+  });
+
+  it('names a recorded adoptive link without following it further', () => {
+    expect(graph.getKinship('yusuf', 'umar')).toMatchObject({
+      kind: 'NON_BIOLOGICAL',
+      label: 'adoptive father',
+      parentChildType: 'ADOPTIVE',
+    });
+    expect(label('umar', 'yusuf')).toBe('adopted son');
+    expect(graph.getKinship('ahmad', 'yusuf')).toMatchObject({ kind: 'NONE', label: null, path: [] });
+  });
+
+  it('returns the path through the nearest common ancestor', () => {
+    expect(graph.getKinship('ali', 'hafsah').path).toEqual([
+      { personId: 'ali', relation: null },
+      { personId: 'ahmad', relation: 'PARENT' },
+      { personId: 'umar', relation: 'PARENT' },
+      { personId: 'abdullah', relation: 'PARENT' },
+      { personId: 'zainab', relation: 'CHILD' },
+      { personId: 'hafsah', relation: 'CHILD' },
+    ]);
+    expect(graph.getKinship('ahmad', 'musa').path.map((s) => [s.personId, s.relation])).toEqual([
+      ['ahmad', null],
+      ['sarah', 'SPOUSE'],
+      ['hamid', 'PARENT'],
+      ['musa', 'CHILD'],
+    ]);
+  });
+
+  it('is self for the same person and rejects unknown persons', () => {
+    expect(graph.getKinship('ahmad', 'ahmad')).toMatchObject({ kind: 'SELF', label: 'self' });
+    expect(() => graph.getKinship('ahmad', 'nobody')).toThrow(NotFoundError);
+  });
+});
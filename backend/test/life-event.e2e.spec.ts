@@ -0,0 +1,114 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { MongoClient } from 'mongodb';
+import { AppModule } from '../src/app.module';
+
+describe('Life Events E2E', () => {
+  let app: INestApplication;
+  let mongoClient: MongoClient;
+  const treeId = 'life-event-tree';
+  const dbName = 'silsilah_life_event_test';
+  const apiBase = '/api/trees';
+  const events = `${apiBase}/${treeId}/persons/abdullah/events`;
+
+  beforeAll(async () => {
+    process.env.MONGODB_DB_NAME = dbName;
+    process.env.MONGODB_URI = 'mongodb://localhost:27017';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+    mongoClient = moduleFixture.get('MONGO_CLIENT');
+
+    const db = mongoClient.db(dbName);
+    await db.collection('family_trees').deleteMany({});
+
+    await request(app.getHttpServer()).post(apiBase).send({ treeId }).expect(201);
+    await request(app.getHttpServer())
+      .post(`${apiBase}/${treeId}/persons`)
+      .send({ personId: 'abdullah', name: 'Abdullah', gender: 'MALE', birthDate: '1880', deathDate: '3 MAR 1952' })
+      .expect(201);
+  });
+
+  afterAll(async () => {
+    const db = mongoClient.db(dbName);
+    await db.collection('family_trees').deleteMany({});
+    await app.close();
+    await mongoClient.close();
+  });
+
+  it('POST /trees/:id/persons/:personId/events records events', async () => {
+    const res = await request(app.getHttpServer())
+      .post(events)
+      .send({ type: 'OCCUPATION', description: 'Rubber trader', place: 'Kota Bharu' })
+      .expect(201);
+    expect(res.body).toMatchObject({ eventId: 'E1', type: 'OCCUPATION', description: 'Rubber trader', date: null });
+
+    await request(app.getHttpServer())
+      .post(events)
+      .send({ type: 'HAJJ', date: 'ABT 1925', place: 'Makkah' })
+      .expect(201);
+    await request(app.getHttpServer())
+      .post(events)
+      .send({ type: 'BURIAL', date: '4 MAR 1952', place: 'Kota Bharu' })
+      .expect(201);
+  });
+
+  it('POST /trees/:id/persons/:personId/events rejects invalid events', async () => {
+    await request(app.getHttpServer()).post(events).send({ type: 'CUSTOM' }).expect(400);
+    await request(app.getHttpServer()).post(events).send({ type: 'MIGRATION', date: '1870' }).expect(400);
+    await request(app.getHttpServer()).post(events).send({ type: 'HAJJ', date: 'someday' }).expect(400);
+    await request(app.getHttpServer())
+      .post(`${apiBase}/${treeId}/persons/nobody/events`)
+      .send({ type: 'HAJJ' })
+      .expect(404);
+  });
+
+  it('PUT /trees/:id/persons/:personId/events/:eventId updates an event', async () => {
+    const res = await request(app.getHttpServer())
+      .put(`${events}/E2`)
+      .send({ date: '1925', description: 'With his brother' })
+      .expect(200);
+    expect(res.body).toMatchObject({ eventId: 'E2', type: 'HAJJ', place: 'Makkah', description: 'With his brother' });
+    expect(res.body.date).toMatchObject({ qualifier: 'EXACT' });
+
+    await request(app.getHttpServer()).put(`${events}/E9`).send({ place: 'Jeddah' }).expect(404);
+  });
+
+  it('GET /trees/:id/persons/:personId/events lists events in recorded order', async () => {
+    const res = await request(app.getHttpServer()).get(events).expect(200);
+    expect(res.body.map((e: any) => e.type)).toEqual(['OCCUPATION', 'HAJJ', 'BURIAL']);
+
+    const person = await request(app.getHttpServer()).get(`${apiBase}/${treeId}/persons/abdullah`).expect(200);
+    expect(person.body.events).toHaveLength(3);
+  });
+
+  it('GET /trees/:id/export/gedcom writes the events', async () => {
+    const res = await request(app.getHttpServer()).get(`${apiBase}/${treeId}/export/gedcom`).expect(200);
+    expect(res.text).toContain(
+      '1 OCCU Rubber trader\n2 PLAC Kota Bharu\n1 EVEN With his brother\n2 TYPE Hajj\n2 DATE 1925\n2 PLAC Makkah\n1 BURI\n2 DATE 4 MAR 1952\n2 PLAC Kota Bharu\n',
+    );
+  });
+
+  it('DELETE /trees/:id/persons/:personId/events/:eventId removes an event', async () => {
+    await request(app.getHttpServer()).delete(`${events}/E1`).expect(200);
+    await request(app.getHttpServer()).delete(`${events}/E1`).expect(404);
+
+    const res = await request(app.getHttpServer()).get(events).expect(200);
+    expect(res.body.map((e: any) => e.eventId)).toEqual(['E2', 'E3']);
+  });
+
+  it('records each change in the person history', async () => {
+    const res = await request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/persons/abdullah/history`)
+      .expect(200);
+    const actions = res.body.entries.map((e: any) => e.action);
+    expect(actions).toEqual(
+      expect.arrayContaining(['ADD_PERSON_EVENT', 'UPDATE_PERSON_EVENT', 'REMOVE_PERSON_EVENT']),
+    );
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * LifeEvent - Test Suite
+ *
+ * Tests cover:
+ * - Type, custom type and description validation
+ * - Adding, updating and removing a person's events
+ * - Event dates checked against birth and death
+ * - GEDCOM BURI/RESI/OCCU/EVEN output
+ * - Stored round trip
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { GenealogyGraph } from '../src/domain/genealogy-graph';
+import { GenealogicalDate } from '../src/domain/genealogical-date';
+import { LifeEvent } from '../src/domain/life-event';
+import { InvariantViolationError, NotFoundError } from '../src/domain/errors';
+
+const date = (text: string) => GenealogicalDate.parse(text);
+
+// Haji Abdullah, born 1880, died 1952
+const buildGraph = () => {
+  const graph = new GenealogyGraph('tree-events');
+  graph.addPerson({
+    personId: 'abdullah',
+    name: 'Abdullah',
+    gender: 'MALE',
+    birthDate: date('1880'),
+    deathDate: date('3 MAR 1952'),
+  });
+  return graph;
+};
+
+describe('LifeEvent', () => {
+  describe('validation', () => {
+    it('rejects an unknown type', () => {
+      expect(() => LifeEvent.create({ eventId: 'E1', type: 'BAPTISM' as any })).toThrow(InvariantViolationError);
+    });
+
+    it('requires a custom type for CUSTOM events, and only for them', () => {
+      expect(() => LifeEvent.create({ eventId: 'E1', type: 'CUSTOM' })).toThrow(InvariantViolationError);
+      expect(() => LifeEvent.create({ eventId: 'E1', type: 'HAJJ', customType: 'Umrah' })).toThrow(
+        InvariantViolationError,
+      );
+      expect(LifeEvent.create({ eventId: 'E1', type: 'CUSTOM', customType: ' Umrah ' }).customType).toBe('Umrah');
+    });
+
+    it('requires a description for occupation and education', () => {
+      expect(() => LifeEvent.create({ eventId: 'E1', type: 'OCCUPATION' })).toThrow(InvariantViolationError);
+      expect(() => LifeEvent.create({ eventId: 'E1', type: 'EDUCATION', description: ' ' })).toThrow(
+        InvariantViolationError,
+      );
+    });
+  });
+
+  describe('person events', () => {
+    it('generates ids and keeps recorded order', () => {
+      const graph = buildGraph();
+      graph.addPersonEvent('abdullah', { type: 'OCCUPATION', description: 'Rubber trader' });
+      graph.addPersonEvent('abdullah', { eventId: 'hajj', type: 'HAJJ', date: date('1925') });
+      graph.addPersonEvent('abdullah', { type: 'RESIDENCE', place: 'Kota Bharu' });
+
+      expect(graph.getPersonEvents('abdullah').map((e) => e.eventId)).toEqual(['E1', 'hajj', 'E3']);
+      expect(() => graph.addPersonEvent('abdullah', { eventId: 'hajj', type: 'HAJJ' })).toThrow(
+        InvariantViolationError,
+      );
+    });
+
+    it('updates fields in place and clears the custom type when leaving CUSTOM', () => {
+      const graph = buildGraph();
+      const event = graph.addPersonEvent('abdullah', { type: 'CUSTOM', customType: 'Umrah', place: 'Makkah' });
+
+      const updated = graph.updatePersonEvent('abdullah', event.eventId, { type: 'HAJJ', date: date('1925') });
+
+      expect(updated.toProps()).toEqual({
+        eventId: 'E1',
+        type: 'HAJJ',
+        customType: null,
+        date: date('1925'),
+        place: 'Makkah',
+        placeId: null,
+        description: null,
+      });
+      expect(graph.getPerson('abdullah')!.events).toEqual([updated]);
+    });
+
+    it('removes events and reports unknown ones', () => {
+      const graph = buildGraph();
+      const event = graph.addPersonEvent('abdullah', { type: 'MIGRATION', place: 'Patani' });
+
+      expect(graph.removePersonEvent('abdullah', event.eventId)).toBe(event);
+      expect(graph.getPersonEvents('abdullah')).toEqual([]);
+      expect(() => graph.removePersonEvent('abdullah', 'E1')).toThrow(NotFoundError);
+      expect(() => graph.addPersonEvent('nobody', { type: 'HAJJ' })).toThrow(NotFoundError);
+    });
+
+    it('rejects events before birth and burials before death', () => {
+      const graph = buildGraph();
+      expect(() => graph.addPersonEvent('abdullah', { type: 'MIGRATION', date: date('1870') })).toThrow(
+        InvariantViolationError,
+      );
+      expect(() => graph.addPersonEvent('abdullah', { type: 'BURIAL', date: date('1 MAR 1952') })).toThrow(
+        InvariantViolationError,
+      );
+      expect(() => graph.addPersonEvent('abdullah', { type: 'BURIAL', date: date('ABT 1952') })).not.toThrow();
+    });
+
+    it('re-checks events when the birth date changes', () => {
+      const graph = buildGraph();
+      graph.addPersonEvent('abdullah', { type: 'HAJJ', date: date('1925') });
+      expect(() => graph.updatePerson('abdullah', { birthDate: date('1930') })).toThrow(InvariantViolationError);
+    });
+  });
+
+  describe('GEDCOM', () => {
+    it('writes burial and residence with a note', () => {
+      const burial = LifeEvent.create({
+        eventId: 'E1',
+        type: 'BURIAL',
+        date: date('4 MAR 1952'),
+        place: 'Kota Bharu',
+        description: 'Beside his father\nNorth wall',
+      });
+      expect(burial.toGedcomLines(1)).toEqual([
+        '1 BURI',
+        '2 DATE 4 MAR 1952',
+        '2 PLAC Kota Bharu',
+        '2 NOTE Beside his father',
+        '3 CONT North wall',
+      ]);
+      expect(LifeEvent.create({ eventId: 'E2', type: 'RESIDENCE', place: 'Patani' }).toGedcomLines(1)).toEqual([
+        '1 RESI',
+        '2 PLAC Patani',
+      ]);
+    });
+
+    it('writes occupation as its value and other events as typed EVEN', () => {
+      expect(
+        LifeEvent.create({ eventId: 'E1', type: 'OCCUPATION', description: 'Rubber trader' }).toGedcomLines(1),
+      ).toEqual(['1 OCCU Rubber trader']);
+      expect(LifeEvent.create({ eventId: 'E2', type: 'HAJJ', date: date('1925') }).toGedcomLines(1)).toEqual([
+        '1 EVEN',
+        '2 TYPE Hajj',
+        '2 DATE 1925',
+      ]);
+      expect(
+        LifeEvent.create({ eventId: 'E3', type: 'CUSTOM', customType: 'Umrah', description: 'With his wife' }).toGedcomLines(1),
+      ).toEqual(['1 EVEN With his wife', '2 TYPE Umrah']);
+    });
+  });
+
+  it('round-trips through the stored shape', () => {
+    const event = LifeEvent.create({ eventId: 'E1', type: 'HAJJ', date: date('ABT 1343 AH'), place: 'Makkah' });
+    expect(LifeEvent.fromStored(event.toStored())).toEqual(event);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Mahram - Test Suite
+ *
+ * Tests cover:
+ * - Blood: ascendants, descendants, siblings, nieces and nephews, aunts and uncles; not cousins
+ * - Milk kinship: the nursed child joins the milk family, their siblings do not
+ * - Marriage: in-laws by the contract, stepchildren only after consummation, ended marriages
+ * - The milk-kinship parent-child type
+ * - Invalid and unknown persons
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { InvariantViolationError, NotFoundError } from '../src/domain/errors';
+import { buildLineage, type Lineage } from './fixtures/lineage';
+
+// Abdullah: Umar and Ruqayyah. Umar and Aminah: Ahmad and Fatimah; Umar later married Zainab.
+// Sarah (first married to Khalid: Nura) and Ahmad: Ali and Hana. Fatimah and Rashid: Zaid.
+// Halimah and her husband Harith nursed Ali; their daughter is Shayma. Ali married Layla.
+const LINEAGE: Lineage = {
+  people: [
+    ['abdullah', 'MALE'],
+    ['umar', 'MALE'],
+    ['ruqayyah', 'FEMALE'],
+    ['aminah', 'FEMALE'],
+    ['zainab', 'FEMALE'],
+    ['ahmad', 'MALE'],
+    ['fatimah', 'FEMALE'],
+    ['sarah', 'FEMALE'],
+    ['khalid', 'MALE'],
+    ['nura', 'FEMALE'],
+    ['ali', 'MALE'],
+    ['hana', 'FEMALE'],
+    ['rashid', 'MALE'],
+    ['zaid', 'MALE'],
+    ['halimah', 'FEMALE'],
+    ['harith', 'MALE'],
+    ['shayma', 'FEMALE'],
+    ['layla', 'FEMALE'],
+  ],
+  children: [
+    ['abdullah', ['umar', 'ruqayyah']],
+    ['umar', ['ahmad', 'fatimah']],
+    ['aminah', ['ahmad', 'fatimah']],
+    ['khalid', ['nura']],
+    ['sarah', ['nura', 'ali', 'hana']],
+    ['ahmad', ['ali', 'hana']],
+    ['fatimah', ['zaid']],
+    ['rashid', ['zaid']],
+    ['halimah', ['shayma']],
+    ['harith', ['shayma']],
+  ],
+  spouses: [
+    ['umar', 'aminah'],
+    ['umar', 'zainab'],
+    ['khalid', 'sarah', { status: 'DIVORCED' }],
+    ['ahmad', 'sarah'],
+    ['fatimah', 'rashid'],
+    ['halimah', 'harith'],
+    ['ali', 'layla'],
+  ],
+  links: [
+    ['halimah', 'ali', 'MILK'],
+    ['harith', 'ali', 'MILK'],
+  ],
+};
+
+const graph = buildLineage('tree-mahram', LINEAGE);
+const rule = (fromId: string, toId: string) => {
+  const { mahram, basis, rule, condition } = graph.getMahram(fromId, toId);
+  return { mahram, basis, rule, condition };
+};
+const path = (fromId: string, toId: string) =>
+  graph.getMahram(fromId, toId).path.map((step) => [step.personId, step.relation, step.type]);
+
+describe('Mahram by blood', () => {
+  it('holds for ascendants and descendants', () => {
+    expect(rule('ahmad', 'umar')).toEqual({ mahram: true, basis: 'BLOOD', rule: 'ASCENDANT', condition: null });
+    expect(rule('umar', 'hana')).toMatchObject({ basis: 'BLOOD', rule: 'DESCENDANT' });
+    expect(path('umar', 'hana')).toEqual([
+      ['umar', null, null],
+      ['ahmad', 'CHILD', 'BIOLOGICAL'],
+      ['hana', 'CHILD', 'BIOLOGICAL'],
+    ]);
+  });
+
+  it('holds for siblings, their descendants and the siblings of ascendants', () => {
+    expect(rule('ahmad', 'fatimah').rule).toBe('SIBLING');
+    expect(rule('fatimah', 'hana').rule).toBe('SIBLING_DESCENDANT');
+    expect(rule('hana', 'fatimah').rule).toBe('ASCENDANT_SIBLING');
+    expect(rule('hana', 'ruqayyah').rule).toBe('ASCENDANT_SIBLING');
+    // Half siblings through their mother
+    expect(rule('ali', 'nura')).toMatchObject({ basis: 'BLOOD', rule: 'SIBLING' });
+    expect(path('ali', 'nura')).toEqual([
+      ['ali', null, null],
+      ['sarah', 'PARENT', 'BIOLOGICAL'],
+      ['nura', 'CHILD', 'BIOLOGICAL'],
+    ]);
+  });
+
+  it('does not hold for cousins', () => {
+    expect(graph.getMahram('hana', 'zaid')).toEqual({
+      mahram: false,
+      basis: null,
+      rule: null,
+      condition: null,
+      path: [],
+    });
+  });
+});
+
+describe('Mahram by milk kinship', () => {
+  it('makes the nursed child a child of the milk parents', () => {
+    expect(rule('ali', 'halimah')).toEqual({ mahram: true, basis: 'MILK', rule: 'ASCENDANT', condition: null });
+    expect(rule('ali', 'shayma')).toMatchObject({ basis: 'MILK', rule: 'SIBLING' });
+    expect(path('ali', 'shayma')).toEqual([
+      ['ali', null, null],
+      ['halimah', 'PARENT', 'MILK'],
+      ['shayma', 'CHILD', 'BIOLOGICAL'],
+    ]);
+  });
+
+  it("leaves out the nursed child's other relatives", () => {
+    expect(rule('hana', 'shayma').mahram).toBe(false);
+    expect(rule('hana', 'harith').mahram).toBe(false);
+  });
+
+  it('extends to in-laws through a milk link', () => {
+    expect(rule('layla', 'halimah')).toMatchObject({ basis: 'MILK', rule: 'SPOUSE_ASCENDANT' });
+    expect(rule('harith', 'layla')).toMatchObject({ basis: 'MILK', rule: 'DESCENDANT_SPOUSE' });
+  });
+});
+
+describe('Mahram by marriage', () => {
+  it("holds by the contract for a spouse's ascendants and a descendant's spouse", () => {
+    expect(rule('sarah', 'aminah')).toEqual({
+      mahram: true,
+      basis: 'MARRIAGE',
+      rule: 'SPOUSE_ASCENDANT',
+      condition: null,
+    });
+    expect(path('sarah', 'aminah')).toEqual([
+      ['sarah', null, null],
+      ['ahmad', 'SPOUSE', null],
+      ['aminah', 'PARENT', 'BIOLOGICAL'],
+    ]);
+    expect(rule('umar', 'sarah')).toMatchObject({ rule: 'DESCENDANT_SPOUSE', condition: null });
+  });
+
+  it("holds by the contract for a father's wife", () => {
+    expect(rule('ahmad', 'zainab')).toMatchObject({ basis: 'MARRIAGE', rule: 'ASCENDANT_SPOUSE', condition: null });
+  });
+
+  it("needs consummation between a wife's daughter and her mother's husband", () => {
+    expect(rule('ahmad', 'nura')).toMatchObject({ rule: 'SPOUSE_DESCENDANT', condition: 'CONSUMMATION' });
+    expect(rule('nura', 'ahmad')).toMatchObject({ rule: 'ASCENDANT_SPOUSE', condition: 'CONSUMMATION' });
+    // The marriage has ended; the prohibition has not
+    expect(rule('khalid', 'hana')).toMatchObject({ rule: 'SPOUSE_DESCENDANT', condition: 'CONSUMMATION' });
+  });
+
+  it("does not hold for spouses or a spouse's other relatives", () => {
+    expect(rule('ahmad', 'sarah').mahram).toBe(false);
+    expect(rule('rashid', 'hana').mahram).toBe(false);
+  });
+});
+
+describe('Milk-kinship links', () => {
+  it('are recorded as a parent-child type and named as milk parents', () => {
+    expect(graph.getParentChildEdgesSnapshot()).toContainEqual({ parentId: 'halimah', childId: 'ali', type: 'MILK' });
+    expect(graph.getKinship('ali', 'halimah').label).toBe('milk mother');
+    expect(graph.getKinship('ali', 'harith', 'ms').label).toBe('ayah susuan');
+    expect(graph.getKinship('halimah', 'ali', 'ar').label).toBe('ابن من الرضاعة');
+  });
+
+  it('need two distinct known persons', () => {
+    expect(() => graph.getMahram('ali', 'ali')).toThrow(InvariantViolationError);
+    expect(() => graph.getMahram('ali', 'nobody')).toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Marriage - Test Suite
+ *
+ * Tests cover:
+ * - Status and divorce detail validation
+ * - Per-spouse marriage order assignment and uniqueness
+ * - Updates, including orders given in either spouse order
+ * - GEDCOM MARR/DIV/ANUL output
+ * - Stored round trip
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { GenealogyGraph } from '../src/domain/genealogy-graph';
+import { GenealogicalDate } from '../src/domain/genealogical-date';
+import { Marriage } from '../src/domain/marriage';
+import { InvariantViolationError, NotFoundError } from '../src/domain/errors';
+
+const date = (text: string) => GenealogicalDate.parse(text);
+
+// Ismail married Aminah, divorced her, then married Khadijah and Zainab
+const buildGraph = () => {
+  const graph = new GenealogyGraph('tree-marriage');
+  graph.addPerson({ personId: 'ismail', name: 'Ismail', gender: 'MALE' });
+  graph.addPerson({ personId: 'aminah', name: 'Aminah', gender: 'FEMALE' });
+  graph.addPerson({ personId: 'khadijah', name: 'Khadijah', gender: 'FEMALE' });
+  graph.addPerson({ personId: 'zainab', name: 'Zainab', gender: 'FEMALE' });
+  return graph;
+};
+
+describe('Marriage', () => {
+  describe('validation', () => {
+    it('defaults to a marriage in force with no details', () => {
+      const marriage = Marriage.create();
+      expect(marriage.status).toBe('MARRIED');
+      expect(marriage.isDefault).toBe(true);
+    });
+
+    it('rejects an unknown status', () => {
+      expect(() => Marriage.create({ status: 'ENGAGED' as any })).toThrow(InvariantViolationError);
+    });
+
+    it('allows divorce details only on divorced or annulled marriages', () => {
+      expect(() => Marriage.create({ divorceDate: date('1960') })).toThrow(InvariantViolationError);
+      expect(() => Marriage.create({ status: 'WIDOWED', divorcePlace: 'Kota Bharu' })).toThrow(InvariantViolationError);
+      expect(Marriage.create({ status: 'ANNULLED', divorceDate: date('1960') }).divorceDate?.toGedcom()).toBe('1960');
+    });
+
+    it('rejects a divorce certainly before the marriage', () => {
+      expect(() =>
+        Marriage.create({ status: 'DIVORCED', marriageDate: date('1955'), divorceDate: date('1950') }),
+      ).toThrow(InvariantViolationError);
+      expect(() =>
+        Marriage.create({ status: 'DIVORCED', marriageDate: date('ABT 1955'), divorceDate: date('1953') }),
+      ).not.toThrow();
+    });
+
+    it('rejects orders that are not positive integers', () => {
+      expect(() => Marriage.create({ spouse1Order: 0 })).toThrow(InvariantViolationError);
+      expect(() => Marriage.create({ spouse2Order: 1.5 })).toThrow(InvariantViolationError);
+    });
+  });
+
+  describe('marriage order', () => {
+    it('numbers each spouse\'s marriages in the order they are recorded', () => {
+      const graph = buildGraph();
+      graph.addSpouseRelationship('ismail', 'aminah');
+      graph.addSpouseRelationship('ismail', 'khadijah');
+
+      const second = graph.getMarriage('ismail', 'khadijah')!;
+      expect(second.spouse1Order).toBe(2); // ismail
+      expect(second.spouse2Order).toBe(1); // khadijah
+    });
+
+    it('takes orders in the order the spouses are named', () => {
+      const graph = buildGraph();
+      graph.addSpouseRelationship('ismail', 'zainab', { spouse1Order: 3, spouse2Order: 1 });
+      const marriage = graph.getMarriage('zainab', 'ismail')!;
+      expect(marriage.spouse1Order).toBe(3); // ismail
+      expect(marriage.spouse2Order).toBe(1); // zainab
+    });
+
+    it('rejects two marriages with the same order for one person', () => {
+      const graph = buildGraph();
+      graph.addSpouseRelationship('ismail', 'aminah', { spouse1Order: 1 });
+      expect(() => graph.addSpouseRelationship('ismail', 'khadijah', { spouse1Order: 1 })).toThrow(
+        InvariantViolationError,
+      );
+    });
+  });
+
+  describe('updates', () => {
+    it('records a divorce and keeps other details', () => {
+      const graph = buildGraph();
+      graph.addSpouseRelationship('ismail', 'aminah', { marriageDate: date('1950'), marriagePlace: 'Kota Bharu' });
+
+      const updated = graph.updateSpouseRelationship('aminah', 'ismail', { status: 'DIVORCED', divorceDate: date('1958') });
+      expect(updated.status).toBe('DIVORCED');
+      expect(updated.marriagePlace).toBe('Kota Bharu');
+      expect(updated.divorceDate?.toGedcom()).toBe('1958');
+    });
+
+    it('renumbers a cleared order as the spouse\'s next marriage', () => {
+      const graph = buildGraph();
+      graph.addSpouseRelationship('ismail', 'aminah');
+      graph.addSpouseRelationship('ismail', 'khadijah');
+      graph.updateSpouseRelationship('ismail', 'aminah', { spouse1Order: null });
+      expect(graph.getMarriage('ismail', 'aminah')!.spouse2Order).toBe(3);
+    });
+
+    it('fails for spouses with no recorded marriage', () => {
+      const graph = buildGraph();
+      expect(() => graph.updateSpouseRelationship('ismail', 'zainab', { status: 'WIDOWED' })).toThrow(NotFoundError);
+    });
+  });
+
+  describe('toGedcomLines', () => {
+    it('writes the marriage and divorce events', () => {
+      const marriage = Marriage.create({
+        status: 'DIVORCED',
+        marriageDate: date('12 MAR 1950'),
+        marriagePlace: 'Kota Bharu',
+        divorceDate: date('ABT 1958'),
+      });
+      expect(marriage.toGedcomLines(1)).toEqual(['1 MARR', '2 DATE 12 MAR 1950', '2 PLAC Kota Bharu', '1 DIV', '2 DATE ABT 1958']);
+    });
+
+    it('asserts a divorce without details and writes annulments as ANUL', () => {
+      expect(Marriage.create({ status: 'DIVORCED' }).toGedcomLines(1)).toEqual(['1 DIV Y']);
+      expect(Marriage.create({ status: 'ANNULLED', divorceDate: date('1960') }).toGedcomLines(1)).toEqual([
+        '1 ANUL',
+        '2 DATE 1960',
+      ]);
+      expect(Marriage.create({ status: 'WIDOWED' }).toGedcomLines(1)).toEqual([]);
+    });
+  });
+
+  it('round-trips through its stored shape', () => {
+    const marriage = Marriage.create({
+      status: 'DIVORCED',
+      marriageDate: date("12 Rabi' al-Awwal 1370 AH"),
+      divorceDate: date('1958'),
+      spouse1Order: 2,
+      spouse2Order: 1,
+    });
+    const restored = Marriage.fromStored(JSON.parse(JSON.stringify(marriage.toStored())));
+    expect(restored.toProps()).toEqual(marriage.toProps());
+  });
+});
@@ -0,0 +1,144 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { MongoClient } from 'mongodb';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import sharp = require('sharp');
+import { AppModule } from '../src/app.module';
+
+describe('Media E2E', () => {
+  let app: INestApplication;
+  let mongoClient: MongoClient;
+  let mediaDir: string;
+  let png: Buffer;
+  const treeId = 'media-tree';
+  const dbName = 'silsilah_media_test';
+  const apiBase = '/api/trees';
+  const tree = `${apiBase}/${treeId}`;
+
+  beforeAll(async () => {
+    mediaDir = await fs.mkdtemp(path.join(os.tmpdir(), 'silsilah-media-e2e-'));
+    process.env.MONGODB_DB_NAME = dbName;
+    process.env.MONGODB_URI = 'mongodb://localhost:27017';
+    process.env.MEDIA_STORAGE_DIR = mediaDir;
+
+    png = await sharp({ create: { width: 600, height: 800, channels: 3, background: '#886644' } })
+      .png()
+      .toBuffer();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+    mongoClient = moduleFixture.get('MONGO_CLIENT');
+
+    const db = mongoClient.db(dbName);
+    await db.collection('family_trees').deleteMany({});
+
+    await request(app.getHttpServer()).post(apiBase).send({ treeId }).expect(201);
+    await request(app.getHttpServer())
+      .post(`${tree}/persons`)
+      .send({ personId: 'ismail', name: 'Ismail', gender: 'MALE', birthDate: '1901' })
+      .expect(201);
+    await request(app.getHttpServer())
+      .post(`${tree}/persons/ismail/events`)
+      .send({ type: 'BURIAL', place: 'Kampung Baru' })
+      .expect(201);
+  });
+
+  afterAll(async () => {
+    const db = mongoClient.db(dbName);
+    await db.collection('family_trees').deleteMany({});
+    await app.close();
+    await mongoClient.close();
+    await fs.rm(mediaDir, { recursive: true, force: true });
+  });
+
+  it('POST /trees/:id/media uploads a portrait with a thumbnail', async () => {
+    const res = await request(app.getHttpServer())
+      .post(`${tree}/media`)
+      .field('caption', 'Haji Ismail')
+      .field('links', JSON.stringify([{ personId: 'ismail', primary: true }]))
+      .attach('file', png, 'ismail.png')
+      .expect(201);
+    expect(res.body).toEqual({
+      mediaId: 'M1',
+      fileName: 'ismail.png',
+      mimeType: 'image/png',
+      size: png.length,
+      hasThumbnail: true,
+      caption: 'Haji Ismail',
+      date: null,
+      links: [{ personId: 'ismail', eventId: null, primary: true }],
+    });
+  });
+
+  it('POST /trees/:id/media refuses missing files, unknown types and unknown persons', async () => {
+    await request(app.getHttpServer()).post(`${tree}/media`).field('caption', 'nothing').expect(400);
+    await request(app.getHttpServer())
+      .post(`${tree}/media`)
+      .attach('file', Buffer.from('<script></script>'), { filename: 'x.html', contentType: 'text/html' })
+      .expect(400);
+    await request(app.getHttpServer())
+      .post(`${tree}/media`)
+      .field('links', JSON.stringify([{ personId: 'daud' }]))
+      .attach('file', png, 'daud.png')
+      .expect(404);
+  });
+
+  it('GET /trees/:id/media/:mediaId/file and /thumbnail serve the stored bytes', async () => {
+    const file = await request(app.getHttpServer()).get(`${tree}/media/M1/file`).buffer(true).expect(200);
+    expect(file.headers['content-type']).toBe('image/png');
+    expect(Buffer.compare(file.body, png)).toBe(0);
+
+    const thumbnail = await request(app.getHttpServer()).get(`${tree}/media/M1/thumbnail`).buffer(true).expect(200);
+    expect(thumbnail.headers['content-type']).toBe('image/jpeg');
+    expect((await sharp(thumbnail.body).metadata()).height).toBe(256);
+  });
+
+  it('GET /trees/:id/render carries the portrait on the node', async () => {
+    const res = await request(app.getHttpServer()).get(`${tree}/render`).expect(200);
+    const ismail = res.body.nodes.find((n: any) => n.personId === 'ismail');
+    expect(ismail.portraitMediaId).toBe('M1');
+  });
+
+  it('PUT /trees/:id/media/:mediaId links a scan to an event', async () => {
+    const upload = await request(app.getHttpServer())
+      .post(`${tree}/media`)
+      .attach('file', Buffer.from('%PDF-1.4'), { filename: 'grave.pdf', contentType: 'application/pdf' })
+      .expect(201);
+    expect(upload.body).toMatchObject({ mediaId: 'M2', hasThumbnail: false });
+
+    const res = await request(app.getHttpServer())
+      .put(`${tree}/media/M2`)
+      .send({ caption: 'Gravestone', links: [{ personId: 'ismail', eventId: 'E1' }] })
+      .expect(200);
+    expect(res.body.links).toEqual([{ personId: 'ismail', eventId: 'E1', primary: false }]);
+
+    const list = await request(app.getHttpServer()).get(`${tree}/media?personId=ismail`).expect(200);
+    expect(list.body.map((m: any) => m.mediaId)).toEqual(['M1', 'M2']);
+  });
+
+  it('GET /trees/:id/export/gedcom writes OBJE records and references', async () => {
+    const res = await request(app.getHttpServer()).get(`${tree}/export/gedcom`).expect(200);
+    expect(res.text).toContain('1 OBJE @M1@\n2 _PRIM Y\n');
+    expect(res.text).toContain('1 BURI\n2 PLAC Kampung Baru\n2 OBJE @M2@\n');
+    expect(res.text).toContain('0 @M1@ OBJE\n1 FILE media/M1/ismail.png\n2 FORM png\n3 TYPE photo\n2 TITL Haji Ismail\n');
+  });
+
+  it('DELETE /trees/:id/media/:mediaId removes the file', async () => {
+    await request(app.getHttpServer()).delete(`${tree}/media/M1`).expect(200);
+    await request(app.getHttpServer()).get(`${tree}/media/M1/file`).expect(404);
+    await request(app.getHttpServer()).delete(`${tree}/media/M1`).expect(404);
+  });
+
+  it('records each change in the person history', async () => {
+    const res = await request(app.getHttpServer()).get(`${tree}/persons/ismail/history`).expect(200);
+    const actions = res.body.entries.map((e: any) => e.action);
+    expect(actions).toEqual(expect.arrayContaining(['ADD_MEDIA', 'UPDATE_MEDIA', 'REMOVE_MEDIA']));
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Media - Test Suite
+ *
+ * Tests cover:
+ * - Media validation (file types, names, portraits)
+ * - Links to persons and events that must exist; one portrait per person
+ * - Links follow the events and persons they point to
+ * - GEDCOM OBJE records
+ * - Local filesystem storage and image thumbnails
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import sharp = require('sharp');
+import { GenealogyGraph } from '../src/domain/genealogy-graph';
+import { GenealogicalDate } from '../src/domain/genealogical-date';
+import { MediaObject, type MediaProps } from '../src/domain/media';
+import { InvariantViolationError, NotFoundError } from '../src/domain/errors';
+import { LocalMediaStorage, createImageThumbnail } from '../src/infrastructure/storage';
+
+const photo = (extra: Partial<MediaProps> = {}): Omit<MediaProps, 'mediaId'> => ({
+  fileName: 'ismail-1930.jpg',
+  mimeType: 'image/jpeg',
+  size: 1024,
+  storageKey: 'tree-media/1',
+  thumbnailKey: 'tree-media/1.thumb.jpg',
+  ...extra,
+});
+
+// Haji Ismail, his hajj and his grave
+const buildGraph = () => {
+  const graph = new GenealogyGraph('tree-media');
+  graph.addPerson({ personId: 'ismail', name: 'Ismail', gender: 'MALE', birthDate: GenealogicalDate.parse('1901') });
+  graph.addPerson({ personId: 'aminah', name: 'Aminah', gender: 'FEMALE' });
+  graph.addPersonEvent('ismail', { type: 'HAJJ', date: GenealogicalDate.parse('1930') });
+  graph.addPersonEvent('ismail', { type: 'BURIAL', place: 'Kampung Baru' });
+  return graph;
+};
+
+describe('Media', () => {
+  describe('validation', () => {
+    it('refuses file types a browser would run', () => {
+      expect(() => MediaObject.create({ mediaId: 'M1', ...photo({ mimeType: 'text/html' }) })).toThrow(
+        InvariantViolationError,
+      );
+      expect(() => MediaObject.create({ mediaId: 'M1', ...photo({ mimeType: 'image/svg+xml' }) })).toThrow(
+        InvariantViolationError,
+      );
+    });
+
+    it('requires a plain file name', () => {
+      expect(() => MediaObject.create({ mediaId: 'M1', ...photo({ fileName: '../etc/passwd' }) })).toThrow(
+        InvariantViolationError,
+      );
+    });
+
+    it('only takes images of the person itself as portraits', () => {
+      expect(() =>
+        MediaObject.create({
+          mediaId: 'M1',
+          ...photo({ mimeType: 'application/pdf', links: [{ personId: 'ismail', primary: true }] }),
+        }),
+      ).toThrow(InvariantViolationError);
+      expect(() =>
+        MediaObject.create({ mediaId: 'M1', ...photo({ links: [{ personId: 'ismail', eventId: 'E2', primary: true }] }) }),
+      ).toThrow(InvariantViolationError);
+    });
+
+    it('leaves storage keys out of the response', () => {
+      const json = MediaObject.create({ mediaId: 'M1', ...photo() }).toJSON();
+      expect(json).toEqual({
+        mediaId: 'M1',
+        fileName: 'ismail-1930.jpg',
+        mimeType: 'image/jpeg',
+        size: 1024,
+        hasThumbnail: true,
+        caption: null,
+        date: null,
+        links: [],
+      });
+    });
+  });
+
+  describe('media in a tree', () => {
+    it('links files to persons and their events', () => {
+      const graph = buildGraph();
+      graph.addMedia(photo({ links: [{ personId: 'ismail', eventId: 'E1' }] }));
+      graph.addMedia(photo({ fileName: 'grave.jpg', links: [{ personId: 'ismail', eventId: 'E2' }] }));
+      graph.addMedia(photo({ fileName: 'wedding.jpg', links: [{ personId: 'aminah' }, { personId: 'ismail' }] }));
+
+      expect(graph.getPersonMedia('ismail').map((m) => m.mediaId)).toEqual(['M1', 'M2', 'M3']);
+      expect(graph.getPersonMedia('aminah').map((m) => m.mediaId)).toEqual(['M3']);
+    });
+
+    it('requires linked persons and events to exist', () => {
+      const graph = buildGraph();
+      expect(() => graph.addMedia(photo({ links: [{ personId: 'daud' }] }))).toThrow(NotFoundError);
+      expect(() => graph.addMedia(photo({ links: [{ personId: 'ismail', eventId: 'E9' }] }))).toThrow(NotFoundError);
+      expect(graph.getMediaObjects()).toEqual([]);
+    });
+
+    it('keeps one portrait per person, the latest', () => {
+      const graph = buildGraph();
+      graph.addMedia(photo({ links: [{ personId: 'ismail', primary: true }] }));
+      graph.addMedia(photo({ fileName: 'older.jpg', links: [{ personId: 'ismail', primary: true }] }));
+      expect(graph.getPortrait('ismail')?.mediaId).toBe('M2');
+      expect(graph.getMedia('M1')?.links).toEqual([{ personId: 'ismail', eventId: null, primary: false }]);
+
+      graph.updateMedia('M1', { links: [{ personId: 'ismail', primary: true }] });
+      expect(graph.getPortrait('ismail')?.mediaId).toBe('M1');
+      expect(graph.getMedia('M2')?.isPortraitOf('ismail')).toBe(false);
+    });
+
+    it('drops links along with the event or person they point to', () => {
+      const graph = buildGraph();
+      graph.addMedia(photo({ links: [{ personId: 'ismail', eventId: 'E2' }, { personId: 'ismail' }, { personId: 'aminah' }] }));
+
+      graph.removePersonEvent('ismail', 'E2');
+      expect(graph.getMedia('M1')?.links.map((l) => l.personId)).toEqual(['ismail', 'aminah']);
+
+      graph.removePerson('ismail');
+      expect(graph.getMedia('M1')?.links.map((l) => l.personId)).toEqual(['aminah']);
+    });
+
+    it('updates the caption, date and links only', () => {
+      const graph = buildGraph();
+      graph.addMedia(photo({ caption: 'In Makkah' }));
+      const updated = graph.updateMedia('M1', { caption: null, date: GenealogicalDate.parse('1930') });
+      expect(updated.caption).toBeNull();
+      expect(updated.date?.toJSON().text).toBe('1930');
+      expect(updated.storageKey).toBe('tree-media/1');
+    });
+  });
+
+  describe('GEDCOM', () => {
+    it('writes the multimedia record with its bundle path', () => {
+      const media = MediaObject.create({ mediaId: 'M1', ...photo({ caption: 'Haji Ismail\nin Makkah' }) });
+      expect(media.toGedcomLines('M1')).toEqual([
+        '0 @M1@ OBJE',
+        '1 FILE media/M1/ismail-1930.jpg',
+        '2 FORM jpg',
+        '3 TYPE photo',
+        '2 TITL Haji Ismail in Makkah',
+      ]);
+    });
+  });
+
+  describe('storage', () => {
+    let rootDir: string;
+
+    beforeEach(async () => {
+      rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'silsilah-media-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(rootDir, { recursive: true, force: true });
+    });
+
+    it('stores, reads and deletes files under its root', async () => {
+      const storage = new LocalMediaStorage(rootDir);
+      await storage.put('tree/abc', Buffer.from('scan'));
+      expect((await storage.get('tree/abc'))?.toString()).toBe('scan');
+
+      await storage.delete('tree/abc');
+      await storage.delete('tree/abc');
+      expect(await storage.get('tree/abc')).toBeNull();
+    });
+
+    it('refuses keys outside its root', async () => {
+      const storage = new LocalMediaStorage(rootDir);
+      await expect(storage.put('../escape', Buffer.from('x'))).rejects.toThrow('invalid media storage key');
+    });
+
+    it('makes JPEG thumbnails of images only', async () => {
+      const image = await sharp({
+        create: { width: 800, height: 400, channels: 4, background: { r: 0, g: 128, b: 0, alpha: 0.5 } },
+      })
+        .png()
+        .toBuffer();
+      const thumbnail = await createImageThumbnail(image, 'image/png');
+      const meta = await sharp(thumbnail!).metadata();
+      expect([meta.format, meta.width, meta.height]).toEqual(['jpeg', 256, 128]);
+
+      expect(await createImageThumbnail(Buffer.from('%PDF-1.4'), 'application/pdf')).toBeNull();
+      expect(await createImageThumbnail(Buffer.from('not an image'), 'image/jpeg')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Nasab - Test Suite
+ *
+ * Tests cover:
+ * - Walking the father line through GenealogyGraph.getNasab
+ * - bin/binti and ibn/bint connectors by gender
+ * - Explicit stop reasons: no parents, female-line gap, unknown gender,
+ *   multiple fathers, depth limit
+ * - Using the ism of a structured name
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { GenealogyGraph } from '../src/domain/genealogy-graph';
+import { renderNasab } from '../src/domain/nasab';
+import { PersonName } from '../src/domain/person-name';
+import type { Gender } from '../src/domain/person';
+import { NotFoundError } from '../src/domain/errors';
+
+const buildGraph = () => {
+  const graph = new GenealogyGraph('tree-nasab');
+  const add = (personId: string, name: string, gender: Gender) => graph.addPerson({ personId, name, gender });
+  add('abdullah', 'Abdullah', 'MALE');
+  add('umar', 'Umar', 'MALE');
+  add('ahmad', 'Ahmad', 'MALE');
+  add('aminah', 'Aminah', 'FEMALE');
+  add('fatimah', 'Fatimah', 'FEMALE');
+  graph.addParentChildRelationship('abdullah', 'umar');
+  graph.addParentChildRelationship('umar', 'ahmad');
+  graph.addParentChildRelationship('fatimah', 'ahmad');
+  graph.addParentChildRelationship('umar', 'aminah');
+  return graph;
+};
+
+describe('Nasab', () => {
+  it('walks the father line past the mother', () => {
+    const chain = buildGraph().getNasab('ahmad', 10);
+    expect(chain.links.map((l) => l.personId)).toEqual(['ahmad', 'umar', 'abdullah']);
+    expect(chain.end).toEqual({ reason: 'NO_PARENTS', parentIds: [] });
+    expect(renderNasab(chain)).toBe('Ahmad bin Umar bin Abdullah');
+    expect(renderNasab(chain, 'ARABIC')).toBe('Ahmad ibn Umar ibn Abdullah');
+  });
+
+  it('uses binti and bint after a daughter', () => {
+    const chain = buildGraph().getNasab('aminah', 10);
+    expect(renderNasab(chain)).toBe('Aminah binti Umar bin Abdullah');
+    expect(renderNasab(chain, 'ARABIC')).toBe('Aminah bint Umar ibn Abdullah');
+  });
+
+  it('marks an unknown gender connector explicitly', () => {
+    const graph = buildGraph();
+    graph.addPerson({ personId: 'child', name: 'Nur', gender: 'UNKNOWN' });
+    graph.addParentChildRelationship('ahmad', 'child');
+    expect(renderNasab(graph.getNasab('child', 1))).toBe('Nur bin/binti Ahmad');
+  });
+
+  it('stops at a female-line gap and reports the mother', () => {
+    const graph = buildGraph();
+    graph.addPerson({ personId: 'isa', name: 'Isa', gender: 'MALE' });
+    graph.addParentChildRelationship('aminah', 'isa');
+    const chain = graph.getNasab('isa', 10);
+    expect(renderNasab(chain)).toBe('Isa');
+    expect(chain.end).toEqual({ reason: 'FATHER_NOT_RECORDED', parentIds: ['aminah'] });
+  });
+
+  it('stops when a parent has no recorded gender', () => {
+    const graph = buildGraph();
+    graph.addPerson({ personId: 'parent', name: 'Unknown', gender: 'UNKNOWN' });
+    graph.addParentChildRelationship('parent', 'abdullah');
+    expect(graph.getNasab('umar', 10).end).toEqual({ reason: 'PARENT_GENDER_UNKNOWN', parentIds: ['parent'] });
+  });
+
+  it('stops when two fathers are recorded', () => {
+    const graph = buildGraph();
+    graph.addPerson({ personId: 'yusuf', name: 'Yusuf', gender: 'MALE' });
+    graph.addParentChildRelationship('yusuf', 'umar');
+    const chain = graph.getNasab('ahmad', 10);
+    expect(chain.links.map((l) => l.personId)).toEqual(['ahmad', 'umar']);
+    expect(chain.end.reason).toBe('MULTIPLE_FATHERS');
+    expect(chain.end.parentIds.sort()).toEqual(['abdullah', 'yusuf']);
+  });
+
+  it('stops at the depth limit while more fathers are recorded', () => {
+    const chain = buildGraph().getNasab('ahmad', 1);
+    expect(renderNasab(chain)).toBe('Ahmad bin Umar');
+    expect(chain.end).toEqual({ reason: 'DEPTH_LIMIT', parentIds: ['abdullah'] });
+  });
+
+  it('uses the ism of the primary structured name', () => {
+    const graph = buildGraph();
+    graph.updatePerson('umar', {
+      names: [
+        PersonName.create({
+          type: 'BIRTH',
+          parts: [
+            { type: 'KUNYA', value: 'Abu Hafs' },
+            { type: 'ISM', value: 'Umar' },
+            { type: 'LAQAB', value: 'al-Faruq' },
+          ],
+        }),
+      ],
+      name: 'Abu Hafs Umar al-Faruq',
+    });
+    expect(renderNasab(graph.getNasab('ahmad', 10))).toBe('Ahmad bin Umar bin Abdullah');
+  });
+
+  it('rejects an unknown person', () => {
+    expect(() => buildGraph().getNasab('nobody', 10)).toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Parent-child subtypes - Test Suite
+ *
+ * Tests cover:
+ * - Parent limit applied per subtype
+ * - Cycle and age checks across all subtypes
+ * - Subtype in persistence snapshots
+ * - Nasab following biological parents only
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { GenealogyGraph } from '../src/domain/genealogy-graph';
+import { GenealogicalDate } from '../src/domain/genealogical-date';
+import {
+  AgeInconsistencyError,
+  CycleDetectedError,
+  DuplicateRelationshipError,
+  InvariantViolationError,
+  ParentLimitExceededError,
+} from '../src/domain/errors';
+import type { Gender } from '../src/domain/person';
+
+const buildGraph = () => {
+  const graph = new GenealogyGraph('tree-types');
+  const add = (personId: string, gender: Gender, birth?: string) =>
+    graph.addPerson({ personId, name: personId, gender, birthDate: birth ? GenealogicalDate.parse(birth) : null });
+  add('father', 'MALE', '1950');
+  add('mother', 'FEMALE', '1952');
+  add('adoptive-father', 'MALE', '1948');
+  add('adoptive-mother', 'FEMALE', '1949');
+  add('guardian-1', 'FEMALE');
+  add('guardian-2', 'MALE');
+  add('guardian-3', 'MALE');
+  add('child', 'MALE', '1980');
+  graph.addParentChildRelationship('father', 'child');
+  graph.addParentChildRelationship('mother', 'child', 'BIOLOGICAL');
+  return graph;
+};
+
+describe('Parent-child subtypes', () => {
+  it('allows adoptive parents alongside two biological parents', () => {
+    const graph = buildGraph();
+    graph.addParentChildRelationship('adoptive-father', 'child', 'ADOPTIVE');
+    graph.addParentChildRelationship('adoptive-mother', 'child', 'ADOPTIVE');
+    expect(graph.getAncestors('child').sort()).toEqual(['adoptive-father', 'adoptive-mother', 'father', 'mother']);
+  });
+
+  it('limits biological and adoptive parents to two each', () => {
+    const graph = buildGraph();
+    expect(() => graph.addParentChildRelationship('guardian-2', 'child')).toThrow(ParentLimitExceededError);
+    graph.addParentChildRelationship('adoptive-father', 'child', 'ADOPTIVE');
+    graph.addParentChildRelationship('adoptive-mother', 'child', 'ADOPTIVE');
+    expect(() => graph.addParentChildRelationship('guardian-2', 'child', 'ADOPTIVE')).toThrow(ParentLimitExceededError);
+  });
+
+  it('allows any number of guardians, step and foster parents', () => {
+    const graph = buildGraph();
+    graph.addParentChildRelationship('guardian-1', 'child', 'GUARDIAN');
+    graph.addParentChildRelationship('guardian-2', 'child', 'GUARDIAN');
+    graph.addParentChildRelationship('guardian-3', 'child', 'GUARDIAN');
+    expect(graph.getAncestors('child')).toHaveLength(5);
+  });
+
+  it('rejects a second edge between the same pair whatever the subtype', () => {
+    const graph = buildGraph();
+    expect(() => graph.addParentChildRelationship('father', 'child', 'STEP')).toThrow(DuplicateRelationshipError);
+  });
+
+  it('detects cycles across subtypes', () => {
+    const graph = buildGraph();
+    graph.addParentChildRelationship('child', 'guardian-3', 'FOSTER');
+    expect(() => graph.addParentChildRelationship('guardian-3', 'father', 'GUARDIAN')).toThrow(CycleDetectedError);
+  });
+
+  it('checks age consistency for every subtype', () => {
+    const graph = buildGraph();
+    expect(() => graph.addParentChildRelationship('child', 'adoptive-father', 'STEP')).toThrow(AgeInconsistencyError);
+  });
+
+  it('rejects an unknown subtype', () => {
+    const graph = buildGraph();
+    expect(() => graph.addParentChildRelationship('guardian-1', 'child', 'GODPARENT' as any)).toThrow(
+      InvariantViolationError,
+    );
+  });
+
+  it('records the subtype in snapshots', () => {
+    const graph = buildGraph();
+    graph.addParentChildRelationship('guardian-1', 'child', 'GUARDIAN');
+    expect(graph.getParentChildEdgesSnapshot()).toEqual(
+      expect.arrayContaining([
+        { parentId: 'father', childId: 'child', type: 'BIOLOGICAL' },
+        { parentId: 'guardian-1', childId: 'child', type: 'GUARDIAN' },
+      ]),
+    );
+  });
+
+  it('follows only biological fathers in a nasab', () => {
+    const graph = buildGraph();
+    graph.addParentChildRelationship('adoptive-father', 'child', 'ADOPTIVE');
+    const chain = graph.getNasab('child', 10);
+    expect(chain.links.map((l) => l.personId)).toEqual(['child', 'father']);
+
+    graph.removeRelationship('father', 'child');
+    expect(graph.getNasab('child', 10).end).toEqual({ reason: 'FATHER_NOT_RECORDED', parentIds: ['mother'] });
+  });
+});
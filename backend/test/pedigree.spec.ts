@@ -0,0 +1,122 @@
+/**
+ * Pedigree - Test Suite
+ *
+ * Tests cover:
+ * - Ancestors reached through more than one line, with generations and path counts
+ * - Collapse ratio of a pedigree
+ * - Path counts that double every generation without the work doing so
+ * - Most recent common ancestors of two and three persons, with distances
+ * - A person as the common ancestor of their own descendant
+ * - Biological parents only; invalid and unknown persons
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { GenealogyGraph } from '../src/domain/genealogy-graph';
+import { InvariantViolationError, NotFoundError } from '../src/domain/errors';
+import { buildLineage, COUSIN_MARRIAGES } from './fixtures/lineage';
+
+const graph = buildLineage('tree-pedigree', COUSIN_MARRIAGES);
+const mrca = (...personIds: string[]) => graph.getCommonAncestors(personIds).map((a) => a.ancestorId);
+
+describe('Pedigree collapse', () => {
+  it('lists ancestors reached through both parents of a cousin marriage', () => {
+    const collapse = graph.getPedigreeCollapse('ali');
+    expect(collapse.repeated).toEqual([
+      { ancestorId: 'abdullah', generations: [3], paths: 2 },
+      { ancestorId: 'khadijah', generations: [3], paths: 2 },
+      { ancestorId: 'ibrahim', generations: [4], paths: 2 },
+    ]);
+    // 9 distinct ancestors fill 12 places
+    expect(collapse.distinctAncestors).toBe(9);
+    expect(collapse.ancestorSlots).toBe(12);
+    expect(collapse.collapse).toBeCloseTo(0.25);
+  });
+
+  it('records each generation an ancestor appears at', () => {
+    const abdullah = graph.getPedigreeCollapse('idris').repeated.find((line) => line.ancestorId === 'abdullah');
+    expect(abdullah).toEqual({ ancestorId: 'abdullah', generations: [2, 3], paths: 2 });
+  });
+
+  it('is empty without repeats, parents or biological links', () => {
+    expect(graph.getPedigreeCollapse('ahmad')).toMatchObject({ distinctAncestors: 5, collapse: 0, repeated: [] });
+    expect(graph.getPedigreeCollapse('hassan')).toEqual({
+      personId: 'hassan',
+      distinctAncestors: 0,
+      ancestorSlots: 0,
+      collapse: 0,
+      repeated: [],
+    });
+    expect(graph.getPedigreeCollapse('yusuf').distinctAncestors).toBe(0);
+  });
+
+  it('counts paths that double every generation', () => {
+    // Two founders; each generation's pair are both children of the pair before
+    const ladder = new GenealogyGraph('tree-ladder');
+    const depth = 40;
+    for (let g = 0; g <= depth; g++) {
+      ladder.addPerson({ personId: `m${g}`, name: `M${g}`, gender: 'MALE' });
+      ladder.addPerson({ personId: `f${g}`, name: `F${g}`, gender: 'FEMALE' });
+      if (g === 0) continue;
+      for (const parentId of [`m${g - 1}`, `f${g - 1}`]) {
+        ladder.addParentChildRelationship(parentId, `m${g}`);
+        ladder.addParentChildRelationship(parentId, `f${g}`);
+      }
+    }
+    const founder = ladder.getPedigreeCollapse(`m${depth}`).repeated.find((line) => line.ancestorId === 'm0');
+    expect(founder).toEqual({ ancestorId: 'm0', generations: [depth], paths: 2 ** (depth - 1) });
+  });
+
+  it('rejects unknown persons', () => {
+    expect(() => graph.getPedigreeCollapse('nobody')).toThrow(NotFoundError);
+  });
+});
+
+describe('Most recent common ancestors', () => {
+  it('finds the shared grandparents of first cousins with the distance to each', () => {
+    expect(graph.getCommonAncestors(['ahmad', 'maryam'])).toEqual([
+      {
+        ancestorId: 'abdullah',
+        distances: [
+          { personId: 'ahmad', generations: 2 },
+          { personId: 'maryam', generations: 2 },
+        ],
+      },
+      {
+        ancestorId: 'khadijah',
+        distances: [
+          { personId: 'ahmad', generations: 2 },
+          { personId: 'maryam', generations: 2 },
+        ],
+      },
+    ]);
+  });
+
+  it('leaves out common ancestors above a nearer one', () => {
+    // Half brothers by Maryam; Umar is Idris's father and Ali's grandfather
+    expect(mrca('ali', 'idris')).toEqual(['maryam', 'umar']);
+    expect(mrca('ahmad', 'maryam', 'idris')).toEqual(['abdullah', 'khadijah']);
+  });
+
+  it('takes a person in the set as the ancestor of their descendant', () => {
+    expect(graph.getCommonAncestors(['ali', 'umar'])).toEqual([
+      {
+        ancestorId: 'umar',
+        distances: [
+          { personId: 'ali', generations: 2 },
+          { personId: 'umar', generations: 0 },
+        ],
+      },
+    ]);
+  });
+
+  it('is empty for persons without a shared biological ancestor', () => {
+    expect(mrca('aminah', 'hassan')).toEqual([]);
+    expect(mrca('yusuf', 'ahmad')).toEqual([]);
+  });
+
+  it('needs two distinct known persons', () => {
+    expect(() => graph.getCommonAncestors(['ali'])).toThrow(InvariantViolationError);
+    expect(() => graph.getCommonAncestors(['ali', 'ali'])).toThrow(InvariantViolationError);
+    expect(() => graph.getCommonAncestors(['ali', 'nobody'])).toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * PersonName - Test Suite
+ *
+ * Tests cover:
+ * - Full text derivation from typed parts
+ * - Validation of types, parts and variants
+ * - Primary name normalization
+ * - GEDCOM NAME structure output (GIVN/SURN/NICK/ROMN/FONE)
+ * - Person integration (names carried through updates)
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { PersonName, normalizePrimaryName } from '../src/domain/person-name';
+import { Person } from '../src/domain/person';
+import { InvariantViolationError } from '../src/domain/errors';
+
+const abuBakr = () =>
+  PersonName.create({
+    type: 'BIRTH',
+    script: 'Latn',
+    parts: [
+      { type: 'KUNYA', value: 'Abu Bakr' },
+      { type: 'ISM', value: 'Abdullah' },
+      { type: 'NASAB', value: 'ibn Uthman' },
+      { type: 'NISBA', value: 'al-Taymi' },
+      { type: 'LAQAB', value: 'al-Siddiq' },
+    ],
+    variants: [{ kind: 'PHONETIC', text: 'AH-boo BAK-ur', method: 'English' }],
+  });
+
+describe('PersonName', () => {
+  describe('fullText', () => {
+    it('joins parts in their recorded order', () => {
+      expect(abuBakr().fullText).toBe('Abu Bakr Abdullah ibn Uthman al-Taymi al-Siddiq');
+    });
+
+    it('prefers explicit text over parts', () => {
+      const name = PersonName.create({
+        type: 'BIRTH',
+        text: 'عبد الله بن عثمان',
+        script: 'Arab',
+        parts: [{ type: 'ISM', value: 'عبد الله' }],
+      });
+      expect(name.fullText).toBe('عبد الله بن عثمان');
+    });
+
+    it('lists every written form for search', () => {
+      const name = PersonName.create({
+        type: 'BIRTH',
+        text: 'أحمد',
+        variants: [{ kind: 'ROMANIZED', text: 'Ahmad', script: 'Latn' }],
+      });
+      expect(name.searchTexts()).toEqual(['أحمد', 'Ahmad']);
+    });
+  });
+
+  describe('validation', () => {
+    it('requires text or parts', () => {
+      expect(() => PersonName.create({ type: 'BIRTH' })).toThrow(InvariantViolationError);
+    });
+
+    it('rejects unknown name and part types', () => {
+      expect(() => PersonName.create({ type: 'NOBLE' as any, text: 'X' })).toThrow(InvariantViolationError);
+      expect(() => PersonName.create({ type: 'BIRTH', parts: [{ type: 'CLAN' as any, value: 'X' }] })).toThrow(
+        InvariantViolationError,
+      );
+    });
+
+    it('rejects empty parts and variants', () => {
+      expect(() => PersonName.create({ type: 'BIRTH', parts: [{ type: 'ISM', value: '  ' }] })).toThrow(
+        InvariantViolationError,
+      );
+      expect(() =>
+        PersonName.create({ type: 'BIRTH', text: 'Ahmad', variants: [{ kind: 'ROMANIZED', text: '' }] }),
+      ).toThrow(InvariantViolationError);
+    });
+
+    it('rejects names longer than 255 characters', () => {
+      expect(() => PersonName.create({ type: 'BIRTH', text: 'a'.repeat(256) })).toThrow(InvariantViolationError);
+    });
+  });
+
+  describe('normalizePrimaryName', () => {
+    it('marks the first name primary when none is flagged', () => {
+      const names = normalizePrimaryName([abuBakr(), PersonName.create({ type: 'ALIAS', text: 'Atiq' })]);
+      expect(names.map((n) => n.primary)).toEqual([true, false]);
+    });
+
+    it('keeps only the first flagged primary', () => {
+      const names = normalizePrimaryName([
+        PersonName.create({ type: 'BIRTH', text: 'Aminah binti Ismail' }),
+        PersonName.create({ type: 'MARRIED', text: 'Aminah Ahmad', primary: true }),
+        PersonName.create({ type: 'ALIAS', text: 'Minah', primary: true }),
+      ]);
+      expect(names.map((n) => n.primary)).toEqual([false, true, false]);
+    });
+  });
+
+  describe('toGedcomLines', () => {
+    it('maps Arabic name parts onto GEDCOM name pieces', () => {
+      expect(abuBakr().toGedcomLines(1)).toEqual([
+        '1 NAME Abu Bakr Abdullah ibn Uthman /al-Taymi/ al-Siddiq',
+        '2 TYPE birth',
+        '2 GIVN Abdullah',
+        '2 NICK Abu Bakr, al-Siddiq',
+        '2 SURN al-Taymi',
+        '2 FONE AH-boo BAK-ur',
+        '3 TYPE English',
+      ]);
+    });
+
+    it('prefers SURNAME over NISBA for the slashed surname', () => {
+      const name = PersonName.create({
+        type: 'MARRIED',
+        parts: [
+          { type: 'PREFIX', value: 'Hajah' },
+          { type: 'GIVEN', value: 'Siti' },
+          { type: 'SURNAME', value: 'Rahman' },
+        ],
+      });
+      expect(name.toGedcomLines(1)).toEqual([
+        '1 NAME Hajah Siti /Rahman/',
+        '2 TYPE married',
+        '2 NPFX Hajah',
+        '2 GIVN Siti',
+        '2 SURN Rahman',
+      ]);
+    });
+
+    it('writes romanized variants as ROMN with the transliteration scheme', () => {
+      const name = PersonName.create({
+        type: 'RELIGIOUS',
+        text: 'محمد',
+        script: 'Arab',
+        variants: [{ kind: 'ROMANIZED', text: 'Muhammad', script: 'Latn', method: 'ALA-LC' }],
+      });
+      expect(name.toGedcomLines(1)).toEqual(['1 NAME محمد', '2 TYPE religious', '2 ROMN Muhammad', '3 TYPE ALA-LC']);
+    });
+  });
+
+  describe('Person integration', () => {
+    const person = () =>
+      new Person({
+        personId: 'p1',
+        name: 'Abu Bakr al-Siddiq',
+        names: [abuBakr(), PersonName.create({ type: 'ALIAS', text: 'Atiq' })],
+        gender: 'MALE',
+      });
+
+    it('normalizes a primary name on construction', () => {
+      expect(person().names.filter((n) => n.primary)).toHaveLength(1);
+    });
+
+    it('keeps names when other fields change and clears them with null', () => {
+      expect(person().withUpdates({ gender: 'MALE' }).names).toHaveLength(2);
+      expect(person().withUpdates({ names: null }).names).toEqual([]);
+    });
+
+    it('limits the number of names', () => {
+      const names = Array.from({ length: 21 }, (_, i) => PersonName.create({ type: 'ALIAS', text: `Name ${i}` }));
+      expect(() => new Person({ personId: 'p2', name: 'X', names, gender: 'UNKNOWN' })).toThrow(InvariantViolationError);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { MongoClient } from 'mongodb';
+import { AppModule } from '../src/app.module';
+
+describe('Places E2E', () => {
+  let app: INestApplication;
+  let mongoClient: MongoClient;
+  const treeId = 'place-tree';
+  const dbName = 'silsilah_place_test';
+  const apiBase = '/api/trees';
+  const tree = `${apiBase}/${treeId}`;
+
+  beforeAll(async () => {
+    process.env.MONGODB_DB_NAME = dbName;
+    process.env.MONGODB_URI = 'mongodb://localhost:27017';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+    mongoClient = moduleFixture.get('MONGO_CLIENT');
+
+    const db = mongoClient.db(dbName);
+    await db.collection('family_trees').deleteMany({});
+
+    await request(app.getHttpServer()).post(apiBase).send({ treeId }).expect(201);
+  });
+
+  afterAll(async () => {
+    const db = mongoClient.db(dbName);
+    await db.collection('family_trees').deleteMany({});
+    await app.close();
+    await mongoClient.close();
+  });
+
+  it('POST /trees/:id/places builds the hierarchy', async () => {
+    await request(app.getHttpServer()).post(`${tree}/places`).send({ name: 'Yemen', type: 'COUNTRY' }).expect(201);
+    await request(app.getHttpServer())
+      .post(`${tree}/places`)
+      .send({ name: 'Hadramaut', type: 'REGION', parentId: 'PL1' })
+      .expect(201);
+    const res = await request(app.getHttpServer())
+      .post(`${tree}/places`)
+      .send({
+        name: 'Tarim',
+        type: 'CITY',
+        parentId: 'PL2',
+        alternateNames: [{ name: 'تريم', script: 'Arab' }],
+        latitude: 16.05,
+        longitude: 49.0,
+      })
+      .expect(201);
+    expect(res.body).toEqual({
+      placeId: 'PL3',
+      name: 'Tarim',
+      type: 'CITY',
+      parentId: 'PL2',
+      alternateNames: [{ name: 'تريم', script: 'Arab', historical: false }],
+      latitude: 16.05,
+      longitude: 49,
+      fullName: 'Tarim, Hadramaut, Yemen',
+      personCount: 0,
+      totalPersonCount: 0,
+    });
+  });
+
+  it('POST /trees/:id/places refuses unknown parents and bad coordinates', async () => {
+    await request(app.getHttpServer()).post(`${tree}/places`).send({ name: 'Seiyun', parentId: 'PL9' }).expect(404);
+    await request(app.getHttpServer()).post(`${tree}/places`).send({ name: 'Seiyun', latitude: 15.9 }).expect(400);
+  });
+
+  it('links births and events to places by id', async () => {
+    const person = await request(app.getHttpServer())
+      .post(`${tree}/persons`)
+      .send({ personId: 'umar', name: 'Umar', gender: 'MALE', birthPlaceId: 'PL3' })
+      .expect(201);
+    expect(person.body.personId).toBe('umar');
+    await request(app.getHttpServer())
+      .post(`${tree}/persons/umar/events`)
+      .send({ type: 'RESIDENCE', placeId: 'PL2' })
+      .expect(201);
+
+    const res = await request(app.getHttpServer()).get(`${tree}/persons/umar`).expect(200);
+    expect(res.body).toMatchObject({ birthPlace: 'Tarim, Hadramaut, Yemen', birthPlaceId: 'PL3' });
+    expect(res.body.events[0]).toMatchObject({ place: 'Hadramaut, Yemen', placeId: 'PL2' });
+  });
+
+  it('GET /trees/:id/places lists places by full name with person counts', async () => {
+    const res = await request(app.getHttpServer()).get(`${tree}/places`).expect(200);
+    expect(res.body.map((p: any) => [p.fullName, p.personCount, p.totalPersonCount])).toEqual([
+      ['Hadramaut, Yemen', 1, 1],
+      ['Tarim, Hadramaut, Yemen', 1, 1],
+      ['Yemen', 0, 1],
+    ]);
+  });
+
+  it('POST /trees/:id/places/:placeId/rename renames the births and events there', async () => {
+    const res = await request(app.getHttpServer())
+      .post(`${tree}/places/PL2/rename`)
+      .send({ name: 'Hadhramaut', keepFormerName: true })
+      .expect(201);
+    expect(res.body.alternateNames).toEqual([{ name: 'Hadramaut', script: null, historical: true }]);
+
+    const person = await request(app.getHttpServer()).get(`${tree}/persons/umar`).expect(200);
+    expect(person.body.birthPlace).toBe('Tarim, Hadhramaut, Yemen');
+  });
+
+  it('POST /trees/:id/places/:placeId/merge folds a duplicate into a place', async () => {
+    await request(app.getHttpServer()).post(`${tree}/places`).send({ name: 'Terim', parentId: 'PL2' }).expect(201);
+    await request(app.getHttpServer())
+      .post(`${tree}/persons`)
+      .send({ personId: 'salim', name: 'Salim', gender: 'MALE', birthPlaceId: 'PL4' })
+      .expect(201);
+
+    const res = await request(app.getHttpServer())
+      .post(`${tree}/places/PL4/merge`)
+      .send({ intoPlaceId: 'PL3' })
+      .expect(201);
+    expect(res.body).toMatchObject({ placeId: 'PL3', personCount: 2 });
+    expect(res.body.alternateNames.map((n: any) => n.name)).toEqual(['تريم', 'Terim']);
+
+    const salim = await request(app.getHttpServer()).get(`${tree}/persons/salim`).expect(200);
+    expect(salim.body).toMatchObject({ birthPlace: 'Tarim, Hadhramaut, Yemen', birthPlaceId: 'PL3' });
+  });
+
+  it('DELETE /trees/:id/places/:placeId refuses places in use', async () => {
+    await request(app.getHttpServer()).delete(`${tree}/places/PL3`).expect(409);
+    await request(app.getHttpServer()).post(`${tree}/places`).send({ name: 'Seiyun', parentId: 'PL2' }).expect(201);
+    await request(app.getHttpServer()).delete(`${tree}/places/PL4`).expect(200);
+    await request(app.getHttpServer()).delete(`${tree}/places/PL4`).expect(404);
+  });
+
+  it('GET /trees/:id/export/gedcom writes full place names and coordinates', async () => {
+    const res = await request(app.getHttpServer()).get(`${tree}/export/gedcom`).expect(200);
+    expect(res.text).toContain('1 BIRT\n2 PLAC Tarim, Hadhramaut, Yemen\n3 MAP\n4 LATI N16.05\n4 LONG E49\n');
+    expect(res.text).toContain('1 RESI\n2 PLAC Hadhramaut, Yemen\n');
+  });
+
+  it('records renames and merges in the history of the persons concerned', async () => {
+    const res = await request(app.getHttpServer()).get(`${tree}/persons/umar/history`).expect(200);
+    const actions = res.body.entries.map((e: any) => e.action);
+    expect(actions).toEqual(expect.arrayContaining(['RENAME_PLACE', 'MERGE_PLACES']));
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Places - Test Suite
+ *
+ * Tests cover:
+ * - Place validation (names, scripts, coordinates)
+ * - The gazetteer hierarchy: full names, parents that must exist, no cycles
+ * - Births and events linked to places, kept in step with renames and moves
+ * - Merging duplicates and removing places in use
+ * - GEDCOM PLAC with MAP coordinates
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { GenealogyGraph } from '../src/domain/genealogy-graph';
+import { LifeEvent } from '../src/domain/life-event';
+import { Place } from '../src/domain/place';
+import { InvariantViolationError, NotFoundError, PlaceInUseError } from '../src/domain/errors';
+
+// Yemen > Hadramaut > Tarim, with Habib Umar born in Tarim
+const buildGraph = () => {
+  const graph = new GenealogyGraph('tree-places');
+  graph.addPlace({ name: 'Yemen', type: 'COUNTRY' });
+  graph.addPlace({ name: 'Hadramaut', type: 'REGION', parentId: 'PL1' });
+  graph.addPlace({
+    name: 'Tarim',
+    type: 'CITY',
+    parentId: 'PL2',
+    alternateNames: [{ name: 'تريم', script: 'Arab' }],
+    latitude: 16.05,
+    longitude: 49.0,
+  });
+  graph.addPerson({ personId: 'umar', name: 'Umar', gender: 'MALE', birthPlaceId: 'PL3' });
+  graph.addPerson({ personId: 'salim', name: 'Salim', gender: 'MALE', birthPlace: 'Tarim' });
+  return graph;
+};
+
+describe('Places', () => {
+  describe('validation', () => {
+    it('requires a name without the region in it', () => {
+      expect(() => Place.create({ placeId: 'PL1', name: ' ' })).toThrow(InvariantViolationError);
+      expect(() => Place.create({ placeId: 'PL1', name: 'Tarim, Hadramaut' })).toThrow(InvariantViolationError);
+    });
+
+    it('takes coordinates in range and together', () => {
+      expect(() => Place.create({ placeId: 'PL1', name: 'Tarim', latitude: 16.05 })).toThrow(InvariantViolationError);
+      expect(() => Place.create({ placeId: 'PL1', name: 'Tarim', latitude: 91, longitude: 49 })).toThrow(
+        InvariantViolationError,
+      );
+      expect(Place.create({ placeId: 'PL1', name: 'Lima', latitude: -12.05, longitude: -77.04 }).hasCoordinates).toBe(
+        true,
+      );
+    });
+
+    it('matches its names whatever their case, spacing or script', () => {
+      const tarim = Place.create({ placeId: 'PL1', name: 'Tarim', alternateNames: [{ name: 'تريم', script: 'Arab' }] });
+      expect(['tarim', ' TARIM ', 'تريم'].map((name) => tarim.isNamed(name))).toEqual([true, true, true]);
+      expect(tarim.isNamed('Seiyun')).toBe(false);
+      expect(() => Place.create({ placeId: 'PL1', name: 'Tarim', alternateNames: [{ name: 'تريم', script: 'arabic' }] })).toThrow(
+        InvariantViolationError,
+      );
+    });
+  });
+
+  describe('hierarchy', () => {
+    it('names a place with its parents', () => {
+      const graph = buildGraph();
+      expect(graph.getPlaceFullName('PL3')).toBe('Tarim, Hadramaut, Yemen');
+      expect(graph.findPlacesByName('تريم').map((p) => p.placeId)).toEqual(['PL3']);
+    });
+
+    it('requires the parent to exist and refuses cycles', () => {
+      const graph = buildGraph();
+      expect(() => graph.addPlace({ name: 'Seiyun', parentId: 'PL9' })).toThrow(NotFoundError);
+      expect(() => graph.updatePlace('PL1', { parentId: 'PL3' })).toThrow(InvariantViolationError);
+    });
+
+    it('lists parents before the places below them', () => {
+      const graph = new GenealogyGraph('tree-places');
+      graph.addPlace({ name: 'Tarim' });
+      graph.addPlace({ name: 'Hadramaut' });
+      graph.updatePlace('PL1', { parentId: 'PL2' });
+      expect(graph.getPlacesSnapshot().map((p) => p.placeId)).toEqual(['PL2', 'PL1']);
+    });
+  });
+
+  describe('linked births and events', () => {
+    it('writes the full name of a linked place', () => {
+      const graph = buildGraph();
+      expect(graph.getPerson('umar')).toMatchObject({ birthPlace: 'Tarim, Hadramaut, Yemen', birthPlaceId: 'PL3' });
+      const burial = graph.addPersonEvent('umar', { type: 'BURIAL', placeId: 'PL3' });
+      expect([burial.place, burial.placeId]).toEqual(['Tarim, Hadramaut, Yemen', 'PL3']);
+      expect(() => graph.addPersonEvent('umar', { type: 'HAJJ', placeId: 'PL9' })).toThrow(NotFoundError);
+    });
+
+    it('unlinks a place written differently, and keeps it written as is', () => {
+      const graph = buildGraph();
+      expect(graph.updatePerson('umar', { birthPlace: 'Seiyun' })).toMatchObject({ birthPlace: 'Seiyun', birthPlaceId: null });
+      graph.updatePerson('umar', { birthPlaceId: 'PL3' });
+      expect(graph.updatePerson('umar', { birthPlaceId: null })).toMatchObject({
+        birthPlace: 'Tarim, Hadramaut, Yemen',
+        birthPlaceId: null,
+      });
+    });
+
+    it('renames births and events along with the place and its parents', () => {
+      const graph = buildGraph();
+      graph.addPersonEvent('umar', { type: 'RESIDENCE', placeId: 'PL3' });
+      graph.renamePlace('PL2', 'Hadhramaut', true);
+
+      expect(graph.getPerson('umar')?.birthPlace).toBe('Tarim, Hadhramaut, Yemen');
+      expect(graph.getPersonEvent('umar', 'E1')?.place).toBe('Tarim, Hadhramaut, Yemen');
+      expect(graph.getPerson('salim')?.birthPlace).toBe('Tarim');
+      expect(graph.getPlace('PL2')?.alternateNames).toEqual([{ name: 'Hadramaut', script: null, historical: true }]);
+    });
+
+    it('counts the persons at a place and below it', () => {
+      const graph = buildGraph();
+      graph.addPersonEvent('salim', { type: 'MIGRATION', placeId: 'PL2' });
+      expect(graph.getPlacePersonIds('PL3')).toEqual(['umar']);
+      expect(graph.getPlacePersonIds('PL1')).toEqual([]);
+      expect(graph.getPlacePersonIds('PL1', true)).toEqual(['umar', 'salim']);
+    });
+  });
+
+  describe('merging and removing', () => {
+    it('moves births, events and places below a duplicate into the place kept', () => {
+      const graph = buildGraph();
+      graph.addPlace({ name: 'Terim', parentId: 'PL1' }); // PL4, filed under the country by mistake
+      graph.addPlace({ name: 'Ribat', type: 'SITE', parentId: 'PL4' });
+      graph.addPerson({ personId: 'hasan', name: 'Hasan', gender: 'MALE', birthPlaceId: 'PL4' });
+      graph.addPersonEvent('hasan', { type: 'EDUCATION', description: 'Ribat', placeId: 'PL5' });
+
+      const tarim = graph.mergePlaces('PL4', 'PL3');
+
+      expect(graph.getPlace('PL4')).toBeNull();
+      expect(tarim.alternateNames.map((n) => n.name)).toEqual(['تريم', 'Terim']);
+      expect(tarim.latitude).toBe(16.05);
+      expect(graph.getPerson('hasan')).toMatchObject({ birthPlace: 'Tarim, Hadramaut, Yemen', birthPlaceId: 'PL3' });
+      expect(graph.getPersonEvent('hasan', 'E1')?.place).toBe('Ribat, Tarim, Hadramaut, Yemen');
+      expect(graph.getPlacePersonIds('PL3')).toEqual(['umar', 'hasan']);
+    });
+
+    it('takes the coordinates of the duplicate when the place kept has none', () => {
+      const graph = buildGraph();
+      graph.addPlace({ name: 'Seiyun', latitude: 15.94, longitude: 48.79 });
+      graph.addPlace({ name: 'Say\'un', type: 'CITY', parentId: 'PL2' });
+      expect(graph.mergePlaces('PL4', 'PL5')).toMatchObject({ latitude: 15.94, longitude: 48.79, type: 'CITY' });
+    });
+
+    it('refuses to merge a place into itself or a place below it', () => {
+      const graph = buildGraph();
+      expect(() => graph.mergePlaces('PL3', 'PL3')).toThrow(InvariantViolationError);
+      expect(() => graph.mergePlaces('PL2', 'PL3')).toThrow(InvariantViolationError);
+    });
+
+    it('removes only places nothing refers to', () => {
+      const graph = buildGraph();
+      expect(() => graph.removePlace('PL3')).toThrow(PlaceInUseError);
+      expect(() => graph.removePlace('PL2')).toThrow(PlaceInUseError);
+      graph.updatePerson('umar', { birthPlaceId: null });
+      expect(graph.removePlace('PL3').name).toBe('Tarim');
+    });
+  });
+
+  describe('GEDCOM', () => {
+    it('writes the coordinates of a linked place under PLAC', () => {
+      const graph = buildGraph();
+      const burial = graph.addPersonEvent('umar', { type: 'BURIAL', placeId: 'PL3' });
+      expect(burial.toGedcomLines(1, graph.getPlace('PL3'))).toEqual([
+        '1 BURI',
+        '2 PLAC Tarim, Hadramaut, Yemen',
+        '3 MAP',
+        '4 LATI N16.05',
+        '4 LONG E49',
+      ]);
+      expect(LifeEvent.create({ eventId: 'E1', type: 'BURIAL', place: 'Tarim' }).toGedcomLines(1)).toEqual([
+        '1 BURI',
+        '2 PLAC Tarim',
+      ]);
+    });
+
+    it('writes south and west as S and W', () => {
+      const lima = Place.create({ placeId: 'PL1', name: 'Lima', latitude: -12.05, longitude: -77.04 });
+      expect(lima.toGedcomMapLines(3)).toEqual(['3 MAP', '4 LATI S12.05', '4 LONG W77.04']);
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { MongoClient } from 'mongodb';
+import { AppModule } from '../src/app.module';
+
+describe('Relationship E2E', () => {
+  let app: INestApplication;
+  let mongoClient: MongoClient;
+  const treeId = 'relationship-tree';
+  const dbName = 'silsilah_relationship_test';
+  const apiBase = '/api/trees';
+
+  // Umar and Aminah had Ahmad and Zainab; Zainab had Hafsah, who married Ismail
+  beforeAll(async () => {
+    process.env.MONGODB_DB_NAME = dbName;
+    process.env.MONGODB_URI = 'mongodb://localhost:27017';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+    mongoClient = moduleFixture.get('MONGO_CLIENT');
+
+    const db = mongoClient.db(dbName);
+    await db.collection('family_trees').deleteMany({});
+
+    await request(app.getHttpServer()).post(apiBase).send({ treeId }).expect(201);
+    for (const [personId, name, gender] of [
+      ['umar', 'Umar', 'MALE'],
+      ['aminah', 'Aminah', 'FEMALE'],
+      ['ahmad', 'Ahmad', 'MALE'],
+      ['zainab', 'Zainab', 'FEMALE'],
+      ['hafsah', 'Hafsah', 'FEMALE'],
+      ['ismail', 'Ismail', 'MALE'],
+    ]) {
+      await request(app.getHttpServer())
+        .post(`${apiBase}/${treeId}/persons`)
+        .send({ personId, name, gender })
+        .expect(201);
+    }
+    for (const [parentId, childId] of [
+      ['umar', 'ahmad'],
+      ['umar', 'zainab'],
+      ['aminah', 'ahmad'],
+      ['aminah', 'zainab'],
+      ['zainab', 'hafsah'],
+    ]) {
+      await request(app.getHttpServer())
+        .post(`${apiBase}/${treeId}/relationships/parent-child`)
+        .send({ parentId, childId })
+        .expect(201);
+    }
+    await request(app.getHttpServer())
+      .post(`${apiBase}/${treeId}/relationships/spouse`)
+      .send({ spouseA: 'hafsah', spouseB: 'ismail' })
+      .expect(201);
+  });
+
+  afterAll(async () => {
+    const db = mongoClient.db(dbName);
+    await db.collection('family_trees').deleteMany({});
+    await app.close();
+    await mongoClient.close();
+  });
+
+  it('GET /trees/:id/relationship names the relation and its path', async () => {
+    const res = await request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/relationship`)
+      .query({ from: 'ahmad', to: 'hafsah' })
+      .expect(200);
+    expect(res.body).toMatchObject({
+      kind: 'BLOOD',
+      label: 'niece',
+      blood: { up: 1, down: 2, half: false, commonAncestorIds: ['aminah', 'umar'] },
+    });
+    expect(res.body.path).toEqual([
+      { personId: 'ahmad', name: 'Ahmad', relation: null },
+      { personId: 'aminah', name: 'Aminah', relation: 'PARENT' },
+      { personId: 'zainab', name: 'Zainab', relation: 'CHILD' },
+      { personId: 'hafsah', name: 'Hafsah', relation: 'CHILD' },
+    ]);
+  });
+
+  it('GET /trees/:id/relationship requires both persons', () => {
+    return request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/relationship`)
+      .query({ from: 'ahmad' })
+      .expect(400);
+  });
+
+  it('GET /trees/:id/relationship returns 404 for an unknown person', () => {
+    return request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/relationship`)
+      .query({ from: 'ahmad', to: 'nobody' })
+      .expect(404);
+  });
+
+  it('GET /trees/:id/path returns the shortest chain of edges', async () => {
+    const res = await request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/path`)
+      .query({ from: 'ahmad', to: 'ismail' })
+      .expect(200);
+    expect(res.body).toMatchObject({ found: true, hops: 4, includeSpouses: true });
+    expect(res.body.path).toEqual([
+      { personId: 'ahmad', name: 'Ahmad', relation: null, type: null },
+      { personId: 'aminah', name: 'Aminah', relation: 'PARENT', type: 'BIOLOGICAL' },
+      { personId: 'zainab', name: 'Zainab', relation: 'CHILD', type: 'BIOLOGICAL' },
+      { personId: 'hafsah', name: 'Hafsah', relation: 'CHILD', type: 'BIOLOGICAL' },
+      { personId: 'ismail', name: 'Ismail', relation: 'SPOUSE', type: null },
+    ]);
+  });
+
+  it('GET /trees/:id/path can leave out spouse hops', async () => {
+    const res = await request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/path`)
+      .query({ from: 'ahmad', to: 'ismail', excludeSpouses: 'true' })
+      .expect(200);
+    expect(res.body).toEqual({
+      fromId: 'ahmad',
+      toId: 'ismail',
+      includeSpouses: false,
+      found: false,
+      hops: null,
+      path: [],
+    });
+  });
+
+  it('GET /trees/:id/path rejects a malformed excludeSpouses', () => {
+    return request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/path`)
+      .query({ from: 'ahmad', to: 'ismail', excludeSpouses: 'yes' })
+      .expect(400);
+  });
+
+  it('GET /trees/:id/common-ancestors returns the nearest shared ancestors with distances', async () => {
+    const res = await request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/common-ancestors`)
+      .query({ persons: 'ahmad,hafsah' })
+      .expect(200);
+    expect(res.body.personIds).toEqual(['ahmad', 'hafsah']);
+    expect(res.body.ancestors).toEqual([
+      {
+        ancestorId: 'aminah',
+        name: 'Aminah',
+        distances: [
+          { personId: 'ahmad', generations: 1 },
+          { personId: 'hafsah', generations: 2 },
+        ],
+      },
+      {
+        ancestorId: 'umar',
+        name: 'Umar',
+        distances: [
+          { personId: 'ahmad', generations: 1 },
+          { personId: 'hafsah', generations: 2 },
+        ],
+      },
+    ]);
+  });
+
+  it('GET /trees/:id/common-ancestors requires two persons', () => {
+    return request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/common-ancestors`)
+      .query({ persons: 'ahmad' })
+      .expect(400);
+  });
+
+  it('GET /trees/:id/persons/:personId/pedigree-collapse counts ancestor slots', async () => {
+    const res = await request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/persons/hafsah/pedigree-collapse`)
+      .expect(200);
+    expect(res.body).toEqual({
+      personId: 'hafsah',
+      distinctAncestors: 3,
+      ancestorSlots: 3,
+      collapse: 0,
+      repeated: [],
+    });
+  });
+
+  it('GET /trees/:id/relatedness returns the coefficient of relationship and its paths', async () => {
+    const res = await request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/relatedness`)
+      .query({ from: 'ahmad', to: 'hafsah' })
+      .expect(200);
+    expect(res.body).toMatchObject({
+      personIds: ['ahmad', 'hafsah'],
+      kinship: 0.125,
+      relationship: 0.25,
+      inbreeding: [0, 0],
+      truncated: false,
+    });
+    expect(res.body.paths.map((p: { ancestorId: string }) => p.ancestorId)).toEqual(['aminah', 'umar']);
+    expect(res.body.paths[0].path.map((step: { name: string }) => step.name)).toEqual([
+      'Ahmad',
+      'Aminah',
+      'Zainab',
+      'Hafsah',
+    ]);
+  });
+
+  it('GET /trees/:id/relatedness rejects the same person twice', () => {
+    return request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/relatedness`)
+      .query({ from: 'ahmad', to: 'ahmad' })
+      .expect(400);
+  });
+
+  it('GET /trees/:id/persons/:personId/inbreeding returns 0 for unrelated parents', async () => {
+    const res = await request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/persons/ahmad/inbreeding`)
+      .expect(200);
+    expect(res.body).toMatchObject({ personId: 'ahmad', inbreeding: 0, paths: [], truncated: false });
+  });
+
+  it('GET /trees/:id/mahram gives the rule and path that make two persons mahram', async () => {
+    const res = await request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/mahram`)
+      .query({ from: 'ahmad', to: 'hafsah' })
+      .expect(200);
+    expect(res.body).toMatchObject({
+      fromId: 'ahmad',
+      toId: 'hafsah',
+      mahram: true,
+      basis: 'BLOOD',
+      rule: 'SIBLING_DESCENDANT',
+      condition: null,
+    });
+    expect(res.body.path.map((step: { name: string }) => step.name)).toEqual(['Ahmad', 'Aminah', 'Zainab', 'Hafsah']);
+  });
+
+  it("GET /trees/:id/mahram answers no for a niece's husband", async () => {
+    const res = await request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/mahram`)
+      .query({ from: 'ahmad', to: 'ismail' })
+      .expect(200);
+    expect(res.body).toMatchObject({ mahram: false, rule: null, path: [] });
+  });
+
+  it('GET /trees/:id/mahram requires both persons', () => {
+    return request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/mahram`)
+      .query({ from: 'ahmad' })
+      .expect(400);
+  });
+
+  it('GET /trees/:id/persons/:personId/inheritance shares the estate among the heirs', async () => {
+    await request(app.getHttpServer())
+      .put(`${apiBase}/${treeId}/persons/zainab`)
+      .send({ deathDate: '2020-05-01' })
+      .expect(200);
+    const res = await request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/persons/zainab/inheritance`)
+      .expect(200);
+    expect(res.body).toMatchObject({ deceasedId: 'zainab', base: 6, adjustment: null, genderUnknown: [] });
+    const shares = Object.fromEntries(
+      res.body.heirs.map((heir: { name: string; rule: string; share: { numerator: number; denominator: number } }) => [
+        heir.name,
+        `${heir.rule} ${heir.share.numerator}/${heir.share.denominator}`,
+      ]),
+    );
+    expect(shares).toEqual({
+      Hafsah: 'HALF 1/2',
+      Umar: 'FATHER_SIXTH_AND_RESIDUE 1/3',
+      Aminah: 'MOTHER_SIXTH 1/6',
+      Ahmad: 'EXCLUDED 0/1',
+    });
+  });
+
+  it('GET /trees/:id/persons/:personId/inheritance requires a recorded death', () => {
+    return request(app.getHttpServer())
+      .get(`${apiBase}/${treeId}/persons/ahmad/inheritance`)
+      .expect(400);
+  });
+});
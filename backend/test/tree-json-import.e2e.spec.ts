@@ -0,0 +1,179 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { MongoClient } from 'mongodb';
+import { AppModule } from '../src/app.module';
+
+describe('Tree JSON Import E2E', () => {
+  let app: INestApplication;
+  let mongoClient: MongoClient;
+  const treeId = 'json-target-tree';
+  const dbName = 'silsilah_tree_json_import_test';
+  const apiBase = '/api/trees';
+
+  const treeJson = (data: Record<string, unknown>) =>
+    Buffer.from(JSON.stringify({ version: '1.0', tree: { id: 'banjar', name: 'Banjar Families' }, ...data }), 'utf8');
+
+  const family = () =>
+    treeJson({
+      persons: [
+        { id: 'p1', name: 'Ismail Banjari', gender: 'MALE', birthDate: '1865', birthPlace: 'Martapura' },
+        { id: 'p2', name: 'Aminah', gender: 'FEMALE', birthDate: 'ABT 1870' },
+        { id: 'p3', name: 'Charlie', gender: 'MALE', birthDate: '1892' },
+      ],
+      relationships: [
+        { type: 'spouse', personAId: 'p1', personBId: 'p2' },
+        { type: 'parent-child', personAId: 'p1', personBId: 'p3' },
+        { type: 'parent-child', personAId: 'p2', personBId: 'p3' },
+      ],
+    });
+
+  beforeAll(async () => {
+    process.env.MONGODB_DB_NAME = dbName;
+    process.env.MONGODB_URI = 'mongodb://localhost:27017';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    mongoClient = moduleFixture.get('MONGO_CLIENT');
+
+    const db = mongoClient.db(dbName);
+    await db.collection('family_trees').deleteMany({});
+
+    // Seed a tree already holding Ismail, without his birth place
+    await request(app.getHttpServer()).post(apiBase).send({ treeId }).expect(201);
+
+    await request(app.getHttpServer())
+      .post(`${apiBase}/${treeId}/persons`)
+      .send({ personId: 'ismail', name: 'Ismail Banjari', gender: 'MALE', birthDate: '1865' })
+      .expect(201);
+  });
+
+  afterAll(async () => {
+    const db = mongoClient.db(dbName);
+    await db.collection('family_trees').deleteMany({});
+    await app.close();
+    await mongoClient.close();
+  });
+
+  it('POST /trees/import/preview lists the persons already in the target tree', async () => {
+    const res = await request(app.getHttpServer())
+      .post(`${apiBase}/import/preview`)
+      .field('targetTreeId', treeId)
+      .attach('file', family(), 'banjar.json')
+      .expect(201);
+
+    expect(res.body.data.tree).toEqual({ id: treeId, name: 'Banjar Families' });
+    expect(res.body.data.persons.map((p: any) => p.id)).toEqual(['p2', 'p3']);
+    expect(res.body.validation.valid).toBe(true);
+    expect(res.body.validation.summary).toEqual({
+      personCount: 2,
+      relationshipCount: 3,
+      duplicateCount: 1,
+      conflictCount: 0,
+    });
+    expect(res.body.existingDuplicates).toEqual([
+      {
+        importId: 'p1',
+        importName: 'Ismail Banjari',
+        existingId: 'ismail',
+        existingName: 'Ismail Banjari',
+        similarity: 1,
+      },
+    ]);
+
+    const snapshot = await request(app.getHttpServer()).get(`${apiBase}/${treeId}/export/json`).expect(200);
+    expect(snapshot.body.persons).toHaveLength(1);
+  });
+
+  it('POST /trees/import/preview reports unreadable rows as errors with their row and field', async () => {
+    const res = await request(app.getHttpServer())
+      .post(`${apiBase}/import/preview`)
+      .attach(
+        'file',
+        treeJson({
+          persons: [{ id: 'p1', name: 'Ali', gender: 'M', shoeSize: 42 }],
+          relationships: [{ type: 'spouse', personAId: 'p1', personBId: 'p9' }],
+        }),
+        'broken.json',
+      )
+      .expect(201);
+
+    expect(res.body.validation.valid).toBe(false);
+    expect(res.body.validation.errors).toEqual([
+      { row: 1, field: 'persons.gender', message: 'person p1: gender must be MALE, FEMALE or UNKNOWN' },
+      { row: 1, field: 'relationships.personAId', message: 'relationship in row 1: person p1 was not imported' },
+      { row: 1, field: 'relationships.personBId', message: 'relationship in row 1: p9 is not a person in the file' },
+    ]);
+    expect(res.body.validation.warnings).toEqual([{ row: 1, message: 'person p1: shoeSize is not imported' }]);
+  });
+
+  it('POST /trees/import merges duplicates into the target tree', async () => {
+    const res = await request(app.getHttpServer())
+      .post(`${apiBase}/import`)
+      .field('createNewTree', 'false')
+      .field('targetTreeId', treeId)
+      .field('handleDuplicates', 'merge')
+      .attach('file', family(), 'banjar.json')
+      .expect(201);
+
+    expect(res.body).toEqual({ treeId, imported: 2, skipped: 0, merged: 1 });
+    const snapshot = await request(app.getHttpServer()).get(`${apiBase}/${treeId}/export/json`).expect(200);
+    expect(snapshot.body.persons.map((p: any) => [p.personId, p.birthPlace]).sort()).toEqual([
+      ['ismail', 'Martapura'],
+      ['p2', null],
+      ['p3', null],
+    ]);
+    expect(snapshot.body.parentChildEdges.map((e: any) => `${e.parentId}->${e.childId}`).sort()).toEqual([
+      'ismail->p3',
+      'p2->p3',
+    ]);
+
+    // Importing the same file again finds every person and relationship already there
+    const again = await request(app.getHttpServer())
+      .post(`${apiBase}/import`)
+      .field('createNewTree', 'false')
+      .field('targetTreeId', treeId)
+      .attach('file', family(), 'banjar.json')
+      .expect(201);
+    expect(again.body).toEqual({ treeId, imported: 0, skipped: 3, merged: 0 });
+  });
+
+  it('POST /trees/import names a new tree after the tree in the file', async () => {
+    const res = await request(app.getHttpServer())
+      .post(`${apiBase}/import`)
+      .field('createNewTree', 'true')
+      .attach('file', family(), 'export.json')
+      .expect(201);
+
+    expect(res.body).toEqual({ treeId: 'banjar-families', imported: 3, skipped: 0, merged: 0 });
+  });
+
+  it('POST /trees/import refuses files with errors and unknown duplicate handling, saving nothing', async () => {
+    await request(app.getHttpServer())
+      .post(`${apiBase}/import`)
+      .field('createNewTree', 'true')
+      .field('newTreeName', 'Broken')
+      .attach('file', treeJson({ persons: [{ id: 'p1', gender: 'MALE' }] }), 'broken.json')
+      .expect(400);
+    await request(app.getHttpServer()).get(`${apiBase}/broken/export/json`).expect(404);
+
+    await request(app.getHttpServer())
+      .post(`${apiBase}/import`)
+      .field('createNewTree', 'true')
+      .field('newTreeName', 'Unknown Handling')
+      .field('handleDuplicates', 'overwrite')
+      .attach('file', family(), 'banjar.json')
+      .expect(400);
+
+    await request(app.getHttpServer())
+      .post(`${apiBase}/import`)
+      .field('createNewTree', 'true')
+      .attach('file', Buffer.from('{"version":"2.0","persons":[]}'), 'future.json')
+      .expect(400);
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * Tree JSON Import - Test Suite
+ *
+ * Tests cover:
+ * - Persons and relationships read into the graph, ids kept or suffixed when taken
+ * - Files that are not tree data version 1.0 at all
+ * - Row-level errors: missing id or name, unknown gender, unreadable dates, duplicate ids,
+ *   relationships to unknown or refused persons, rows the graph refuses
+ * - Warnings: unknown fields, relationships already in the tree
+ * - Person matching by name, gender and birth year
+ * - Duplicates skipped, merged or replaced, their relationships attached to the tree's person
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { GenealogyGraph } from '../src/domain/genealogy-graph';
+import { GenealogicalDate } from '../src/domain/genealogical-date';
+import { DUPLICATE_SIMILARITY, nameSimilarity, personSimilarity } from '../src/domain/person-match';
+import { importTreeJson, treeJsonName } from '../src/domain/tree-json-import';
+
+const file = (data: Record<string, unknown>) =>
+  Buffer.from(JSON.stringify({ version: '1.0', tree: { id: 'hadhrami', name: 'Hadhrami Families' }, ...data }));
+
+const familyFile = () =>
+  file({
+    persons: [
+      { id: 'I1', name: 'Ahmad bin Ali', gender: 'MALE', birthDate: '1890', birthPlace: 'Tarim' },
+      { id: 'I2', name: 'Salmah binti Umar', gender: 'FEMALE', birthDate: 'ABT 1895' },
+      { id: 'I3', name: 'Yusuf bin Ahmad', gender: 'MALE', birthDate: '12 MAR 1920', deathDate: null },
+    ],
+    relationships: [
+      { id: 'R1', type: 'spouse', personAId: 'I1', personBId: 'I2' },
+      { type: 'parent-child', personAId: 'I1', personBId: 'I3' },
+      { type: 'parent-child', personAId: 'I2', personBId: 'I3' },
+    ],
+  });
+
+describe('Tree JSON import', () => {
+  it('reads persons and relationships into the graph', () => {
+    const graph = new GenealogyGraph('t1');
+    const report = importTreeJson(familyFile(), graph);
+
+    expect(report).toMatchObject({
+      treeName: 'Hadhrami Families',
+      personIds: ['I1', 'I2', 'I3'],
+      skipped: [],
+      merged: [],
+      duplicates: [],
+      rejected: [],
+      ignored: [],
+    });
+    expect(graph.getPerson('I1')).toMatchObject({ name: 'Ahmad bin Ali', gender: 'MALE', birthPlace: 'Tarim' });
+    expect(graph.getPerson('I2')!.birthDate!.toString()).toBe('ABT 1895');
+    expect(graph.getParentChildEdgesSnapshot()).toEqual([
+      { parentId: 'I1', childId: 'I3', type: 'BIOLOGICAL' },
+      { parentId: 'I2', childId: 'I3', type: 'BIOLOGICAL' },
+    ]);
+    expect(graph.getSpouseEdgesSnapshot().map(({ spouse1Id, spouse2Id }) => [spouse1Id, spouse2Id])).toEqual([
+      ['I1', 'I2'],
+    ]);
+  });
+
+  it('suffixes ids the graph already has and replaces characters not allowed in ids', () => {
+    const graph = new GenealogyGraph('t1');
+    graph.addPerson({ personId: 'I1', name: 'Khadijah binti Hasan', gender: 'FEMALE' });
+    const report = importTreeJson(
+      file({
+        persons: [
+          { id: 'I1', name: 'Ahmad bin Ali', gender: 'MALE' },
+          { id: 'abd al/rahman', name: 'Abd al-Rahman bin Ahmad', gender: 'MALE' },
+        ],
+        relationships: [{ type: 'parent-child', personAId: 'I1', personBId: 'abd al/rahman' }],
+      }),
+      graph,
+    );
+
+    expect(report.personIds).toEqual(['I1-2', 'abd_al_rahman']);
+    expect(graph.getParentChildEdgesSnapshot()).toEqual([
+      { parentId: 'I1-2', childId: 'abd_al_rahman', type: 'BIOLOGICAL' },
+    ]);
+  });
+
+  it('throws on files that are not tree data version 1.0', () => {
+    const graph = new GenealogyGraph('t1');
+    expect(() => importTreeJson(Buffer.from(''), graph)).toThrow('the file is empty');
+    expect(() => importTreeJson(Buffer.from('{"version":'), graph)).toThrow('the file is not JSON');
+    expect(() => importTreeJson(Buffer.from('[]'), graph)).toThrow('it is not a JSON object');
+    expect(() => importTreeJson(Buffer.from('{"version":"2.0","persons":[]}'), graph)).toThrow('version 1.0');
+    expect(() => importTreeJson(Buffer.from('{"version":"1.0"}'), graph)).toThrow('persons must be a list');
+    expect(() => importTreeJson(Buffer.from('{"version":"1.0","persons":[],"relationships":{}}'), graph)).toThrow(
+      'relationships must be a list',
+    );
+    expect(treeJsonName(Buffer.from('{"version":"1.0","persons":[]}'))).toBeNull();
+  });
+
+  it('rejects unreadable person rows with their row and field, every fault of a row reported', () => {
+    const graph = new GenealogyGraph('t1');
+    const report = importTreeJson(
+      file({
+        persons: [
+          { id: 'I1', name: 'Ahmad bin Ali', gender: 'MALE' },
+          { name: 'No id', gender: 'X' },
+          { id: 'I3', name: ' ', birthDate: '31 FOO 1890' },
+          'I4',
+          { id: 'I1', name: 'Ahmad again', gender: 'MALE' },
+          { id: 'I6', name: 'Dies first', birthDate: '1900', deathDate: '1890' },
+        ],
+      }),
+      graph,
+    );
+
+    expect(report.personIds).toEqual(['I1']);
+    expect(report.rejected.map(({ row, field }) => [row, field])).toEqual([
+      [2, 'persons.id'],
+      [2, 'persons.gender'],
+      [3, 'persons.name'],
+      [3, 'persons.birthDate'],
+      [4, 'persons'],
+      [5, 'persons.id'],
+      [6, 'persons'],
+    ]);
+    expect(report.rejected[1].message).toBe('person in row 2: gender must be MALE, FEMALE or UNKNOWN');
+    expect(report.rejected[3].message).toMatch(/^person I3: birth date "31 FOO 1890" cannot be read/);
+    expect(report.rejected[5].message).toBe('person I1: the id is used by an earlier person');
+    expect(report.rejected[6].message).toBe('person I6: deathDate must be after or equal to birthDate');
+  });
+
+  it('rejects relationships to unknown or refused persons and those the graph refuses', () => {
+    const graph = new GenealogyGraph('t1');
+    const report = importTreeJson(
+      file({
+        persons: [
+          { id: 'I1', name: 'Ahmad bin Ali', gender: 'MALE', birthDate: '1890' },
+          { id: 'I2', name: 'Yusuf bin Ahmad', gender: 'MALE', birthDate: '1920' },
+          { id: 'I3', gender: 'MALE' },
+        ],
+        relationships: [
+          { type: 'sibling', personAId: 'I1', personBId: 'I2' },
+          { type: 'parent-child', personAId: 'I1', personBId: 'I9' },
+          { type: 'parent-child', personAId: 'I3', personBId: 'I2' },
+          { type: 'parent-child', personAId: 'I2', personBId: 'I1' },
+          { type: 'spouse', personAId: 'I1' },
+        ],
+      }),
+      graph,
+    );
+
+    expect(report.rejected.filter(({ field }) => field.startsWith('relationships'))).toEqual([
+      { row: 1, field: 'relationships.type', message: 'relationship in row 1: type must be parent-child or spouse' },
+      { row: 2, field: 'relationships.personBId', message: 'relationship in row 2: I9 is not a person in the file' },
+      { row: 3, field: 'relationships.personAId', message: 'relationship in row 3: person I3 was not imported' },
+      {
+        row: 4,
+        field: 'relationships',
+        message: expect.stringMatching(/^parent-child of I2 and I1: /) as unknown as string,
+      },
+      { row: 5, field: 'relationships.personBId', message: 'relationship in row 5: personBId is required' },
+    ]);
+    expect(graph.getParentChildEdgesSnapshot()).toEqual([]);
+  });
+
+  it('warns of fields it does not import and relationships already in the tree', () => {
+    const graph = new GenealogyGraph('t1');
+    graph.addPerson({ personId: 'I1', name: 'Ahmad bin Ali', gender: 'MALE' });
+    graph.addPerson({ personId: 'I2', name: 'Yusuf bin Ahmad', gender: 'MALE' });
+    graph.addParentChildRelationship('I1', 'I2');
+    const report = importTreeJson(
+      file({
+        persons: [
+          { id: 'I1', name: 'Ahmad bin Ali', gender: 'MALE', notes: 'trader' },
+          { id: 'I2', name: 'Yusuf bin Ahmad', gender: 'MALE' },
+        ],
+        relationships: [{ type: 'parent-child', personAId: 'I1', personBId: 'I2', lineStyle: 'SOLID' }],
+      }),
+      graph,
+    );
+
+    expect(report.rejected).toEqual([]);
+    expect(report.ignored).toEqual([
+      { row: 1, field: 'persons.notes', message: 'person I1: notes is not imported' },
+      { row: 1, field: 'relationships.lineStyle', message: 'relationship in row 1: lineStyle is not imported' },
+      { row: 1, field: 'relationships', message: 'parent-child of I1 and I2: already in the tree' },
+    ]);
+  });
+});
+
+describe('Person matching', () => {
+  const born = (text: string) => GenealogicalDate.parse(text);
+
+  it('compares names without case, diacritics or transliteration marks', () => {
+    expect(nameSimilarity('ʿAbd al-Raḥmān', 'abd al rahman')).toBe(1);
+    expect(nameSimilarity('Ahmad bin Ali', 'Ahmed bin Ali')).toBeCloseTo(0.92, 2);
+    expect(nameSimilarity('', '')).toBe(0);
+  });
+
+  it('weighs the birth year and rules out distant years and different genders', () => {
+    const ahmad = { name: 'Ahmad bin Ali', gender: 'MALE' as const, birthDate: born('1890') };
+    expect(personSimilarity(ahmad, { ...ahmad })).toBe(1);
+    expect(personSimilarity(ahmad, { ...ahmad, birthDate: born('ABT 1891') })).toBe(0.9);
+    expect(personSimilarity(ahmad, { ...ahmad, birthDate: null })).toBe(0.9);
+    expect(personSimilarity(ahmad, { ...ahmad, birthDate: born('1895') })).toBe(0);
+    expect(personSimilarity(ahmad, { ...ahmad, gender: 'FEMALE' })).toBe(0);
+    expect(personSimilarity(ahmad, { ...ahmad, gender: 'UNKNOWN' })).toBe(1);
+    expect(personSimilarity(ahmad, { ...ahmad, name: 'Ahmed bin Ali' })).toBeGreaterThanOrEqual(DUPLICATE_SIMILARITY);
+    expect(personSimilarity(ahmad, { ...ahmad, name: 'Umar bin Ali' })).toBeLessThan(DUPLICATE_SIMILARITY);
+  });
+
+  it('compares Hijri birth dates by their Gregorian year', () => {
+    const ahmad = { name: 'Ahmad bin Ali', gender: 'MALE' as const };
+    expect(personSimilarity({ ...ahmad, birthDate: born('1320 AH') }, { ...ahmad, birthDate: born('1902') })).toBe(1);
+  });
+});
+
+describe('Tree JSON import duplicates', () => {
+  // A tree holding Ahmad (born 1890, no birth place) and his wife
+  const target = () => {
+    const graph = new GenealogyGraph('t1');
+    graph.addPerson({
+      personId: 'P1',
+      name: 'Ahmad bin Ali',
+      gender: 'MALE',
+      birthDate: GenealogicalDate.parse('1890'),
+    });
+    graph.addPerson({ personId: 'P2', name: 'Salmah binti Umar', gender: 'UNKNOWN' });
+    graph.addSpouseRelationship('P1', 'P2');
+    return graph;
+  };
+
+  it('skips persons already in the tree and attaches their relationships to them', () => {
+    const graph = target();
+    const report = importTreeJson(familyFile(), graph, 'skip');
+
+    expect(report.personIds).toEqual(['I3']);
+    expect(report.skipped).toEqual(['P1', 'P2']);
+    expect(report.duplicates).toEqual([
+      { importId: 'I1', importName: 'Ahmad bin Ali', existingId: 'P1', existingName: 'Ahmad bin Ali', similarity: 1 },
+      {
+        importId: 'I2',
+        importName: 'Salmah binti Umar',
+        existingId: 'P2',
+        existingName: 'Salmah binti Umar',
+        similarity: 0.9,
+      },
+    ]);
+    expect(report.ignored).toEqual([
+      { row: 1, field: 'relationships', message: 'spouse of I1 and I2: already in the tree' },
+    ]);
+    expect(graph.getParentChildEdgesSnapshot().map(({ parentId, childId }) => [parentId, childId])).toEqual([
+      ['P1', 'I3'],
+      ['P2', 'I3'],
+    ]);
+    expect(graph.getPerson('P1')!.birthPlace).toBeNull();
+    expect(graph.getPerson('P2')!.gender).toBe('UNKNOWN');
+  });
+
+  it('merges by filling only what the tree lacks', () => {
+    const graph = target();
+    const report = importTreeJson(familyFile(), graph, 'merge');
+
+    expect(report.merged).toEqual(['P1', 'P2']);
+    expect(report.skipped).toEqual([]);
+    expect(graph.getPerson('P1')).toMatchObject({ birthPlace: 'Tarim' });
+    expect(graph.getPerson('P1')!.birthDate!.toString()).toBe('1890');
+    expect(graph.getPerson('P2')!.gender).toBe('FEMALE');
+    expect(graph.getPerson('P2')!.birthDate!.toString()).toBe('ABT 1895');
+  });
+
+  it("replaces with the file's details, null clearing and absent fields kept", () => {
+    const graph = target();
+    graph.updatePerson('P1', { birthPlace: 'Seiyun', deathDate: GenealogicalDate.parse('1960') });
+    importTreeJson(
+      file({ persons: [{ id: 'I1', name: 'Ahmed bin Ali', gender: 'MALE', birthDate: 'ABT 1890', birthPlace: null }] }),
+      graph,
+      'replace',
+    );
+
+    const p1 = graph.getPerson('P1')!;
+    expect(p1).toMatchObject({ name: 'Ahmed bin Ali', birthPlace: null });
+    expect(p1.birthDate!.toString()).toBe('ABT 1890');
+    expect(p1.deathDate!.toString()).toBe('1960');
+  });
+
+  it('matches each person in the tree once and leaves persons of the file added in the same import alone', () => {
+    const graph = target();
+    const report = importTreeJson(
+      file({
+        persons: [
+          { id: 'I1', name: 'Ahmad bin Ali', gender: 'MALE' },
+          { id: 'I2', name: 'Ahmad bin Ali', gender: 'MALE' },
+          { id: 'I3', name: 'Ahmad bin Ali', gender: 'MALE' },
+        ],
+      }),
+      graph,
+    );
+
+    expect(report.skipped).toEqual(['P1']);
+    expect(report.personIds).toEqual(['I2', 'I3']);
+  });
+
+  it('rejects a merge the tree refuses', () => {
+    const graph = target();
+    graph.addPerson({
+      personId: 'P3',
+      name: 'Yusuf bin Ahmad',
+      gender: 'MALE',
+      birthDate: GenealogicalDate.parse('1920'),
+    });
+    graph.addParentChildRelationship('P2', 'P3');
+    const report = importTreeJson(
+      file({ persons: [{ id: 'I2', name: 'Salmah binti Umar', gender: 'FEMALE', birthDate: '1930' }] }),
+      graph,
+      'merge',
+    );
+
+    expect(report.merged).toEqual([]);
+    expect(report.rejected).toEqual([
+      {
+        row: 1,
+        field: 'persons',
+        message: expect.stringMatching(/^person I2: cannot merge into P2: /) as unknown as string,
+      },
+    ]);
+    expect(graph.getPerson('P2')!.birthDate).toBeNull();
+  });
+});
@@ -462,6 +462,114 @@ describe('Tree Render E2E', () => {
       expect(node.displayName).toBe('Alice');
     });
 
+    it('adds altNames for persons with other recorded names', async () => {
+      const db = client.db(dbName);
+      await db.collection('family_trees').insertOne({
+        _id: testTreeId as any,
+        treeId: testTreeId,
+        persons: [
+          {
+            personId: 'p1',
+            name: 'Ahmad',
+            names: [
+              { type: 'BIRTH', text: 'أحمد', variants: [{ kind: 'ROMANIZED', text: 'Ahmad' }] },
+              { type: 'ALIAS', parts: [{ type: 'KUNYA', value: 'Abu Ali' }] },
+            ],
+          },
+        ],
+        parentChildEdges: [],
+        spouseEdges: [],
+        version: 1,
+        ownerId: 'owner-1',
+        members: [],
+      } as any);
+
+      const res = await request(app.getHttpServer())
+        .get(`${apiBase}/${testTreeId}/render-data`)
+        .expect(HttpStatus.OK);
+
+      expect(res.body.nodes[0]).toEqual({ id: 'p1', displayName: 'Ahmad', altNames: ['أحمد', 'Abu Ali'] });
+    });
+
+    it('adds subtype to non-biological parent-child edges only', async () => {
+      const db = client.db(dbName);
+      await db.collection('family_trees').insertOne({
+        _id: testTreeId as any,
+        treeId: testTreeId,
+        persons: [
+          { personId: 'p1', name: 'Father' },
+          { personId: 'p2', name: 'Guardian' },
+          { personId: 'c1', name: 'Child' },
+        ],
+        parentChildEdges: [
+          { parentId: 'p1', childId: 'c1', type: 'BIOLOGICAL' },
+          { parentId: 'p2', childId: 'c1', type: 'GUARDIAN' },
+        ],
+        spouseEdges: [],
+        version: 1,
+        ownerId: 'owner-1',
+        members: [],
+      } as any);
+
+      const res = await request(app.getHttpServer())
+        .get(`${apiBase}/${testTreeId}/render-data`)
+        .expect(HttpStatus.OK);
+
+      expect(res.body.parentChildEdges).toEqual([
+        { personAId: 'p1', personBId: 'c1' },
+        { personAId: 'p2', personBId: 'c1', subtype: 'GUARDIAN' },
+      ]);
+    });
+
+    it('adds marriage details to spouse edges that record them', async () => {
+      const db = client.db(dbName);
+      await db.collection('family_trees').insertOne({
+        _id: testTreeId as any,
+        treeId: testTreeId,
+        persons: [
+          { personId: 'h1', name: 'Ismail' },
+          { personId: 'w1', name: 'Aminah' },
+          { personId: 'w2', name: 'Khadijah' },
+        ],
+        parentChildEdges: [],
+        spouseEdges: [
+          { spouse1Id: 'h1', spouse2Id: 'w1', status: 'MARRIED', spouse1Order: 1, spouse2Order: 1 },
+          {
+            spouse1Id: 'h1',
+            spouse2Id: 'w2',
+            status: 'DIVORCED',
+            marriagePlace: 'Kota Bharu',
+            spouse1Order: 2,
+            spouse2Order: 1,
+          },
+        ],
+        version: 1,
+        ownerId: 'owner-1',
+        members: [],
+      } as any);
+
+      const res = await request(app.getHttpServer())
+        .get(`${apiBase}/${testTreeId}/render-data`)
+        .expect(HttpStatus.OK);
+
+      expect(res.body.spouseEdges).toEqual([
+        { personAId: 'h1', personBId: 'w1' },
+        {
+          personAId: 'h1',
+          personBId: 'w2',
+          marriage: {
+            status: 'DIVORCED',
+            marriageDate: null,
+            marriagePlace: 'Kota Bharu',
+            divorceDate: null,
+            divorcePlace: null,
+            personAOrder: 2,
+            personBOrder: 1,
+          },
+        },
+      ]);
+    });
+
     it('returns RelationshipEdge with personAId and personBId fields only', async () => {
       const db = client.db(dbName);
       await db.collection('family_trees').insertOne({
@@ -3,6 +3,7 @@ import { Layout } from './components/Layout';
 import { TreeList } from './components/TreeList';
 import { TreeViewer } from './components/TreeViewer';
 import TreeSettingsPage from './components/TreeSettingsPage';
+import { InheritancePage } from './components/InheritancePage';
 import { ToastProvider } from './components/ToastNotification';
 import { CollaborationProvider } from './context/CollaborationContext';
 
@@ -15,6 +16,7 @@ export function App() {
             <Route path="/" element={<TreeList />} />
             <Route path="/trees/:treeId" element={<TreeViewer />} />
             <Route path="/trees/:treeId/settings" element={<TreeSettingsPage />} />
+            <Route path="/trees/:treeId/persons/:personId/inheritance" element={<InheritancePage />} />
           </Routes>
         </Layout>
       </ToastProvider>
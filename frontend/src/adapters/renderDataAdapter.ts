@@ -8,7 +8,7 @@
  * @module renderDataAdapter
  */
 
-import type { TreeRenderV1, RenderNode, RenderEdgeData } from '../api';
+import type { TreeRenderV1, RenderNode, RenderEdgeData, ParentChildType, MarriageDetails } from '../api';
 import type { GenealogyHierarchyResult } from '../utils/genealogyHierarchy';
 import { buildGenealogyHierarchy } from '../utils/genealogyHierarchy';
 
@@ -28,6 +28,9 @@ export interface TreeViewModel {
 export interface ViewNode {
   readonly id: string;
   readonly displayName: string;
+  readonly altNames?: readonly string[];
+  /** Media id of the person's portrait thumbnail, when they have one */
+  readonly portraitMediaId?: string;
 }
 
 /**
@@ -38,6 +41,10 @@ export interface ViewEdge {
   readonly source: string;
   readonly target: string;
   readonly type: 'spouse' | 'parent-child';
+  /** Non-biological parent-child edges only */
+  readonly subtype?: Exclude<ParentChildType, 'BIOLOGICAL'>;
+  /** Spouse edges with recorded marriage details only */
+  readonly marriage?: MarriageDetails;
 }
 
 /**
@@ -90,6 +97,8 @@ export class RenderDataAdapter {
     return Object.freeze({
       id: node.id,
       displayName: node.displayName,
+      ...(node.altNames && node.altNames.length > 0 ? { altNames: Object.freeze([...node.altNames]) } : {}),
+      ...(node.portraitMediaId ? { portraitMediaId: node.portraitMediaId } : {}),
     });
   }
 
@@ -102,6 +111,8 @@ export class RenderDataAdapter {
       source: edge.source,
       target: edge.target,
       type: edge.type,
+      ...(edge.subtype ? { subtype: edge.subtype } : {}),
+      ...(edge.marriage ? { marriage: edge.marriage } : {}),
     });
   }
 
@@ -128,6 +139,7 @@ export class RenderDataAdapter {
           source: edge.personAId,
           target: edge.personBId,
           type: 'parent-child',
+          ...(edge.subtype ? { subtype: edge.subtype } : {}),
         });
       }
     }
@@ -139,6 +151,7 @@ export class RenderDataAdapter {
           source: edge.personAId,
           target: edge.personBId,
           type: 'spouse',
+          ...(edge.marriage ? { marriage: edge.marriage } : {}),
         });
       }
     }
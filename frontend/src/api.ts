@@ -1,3 +1,5 @@
+import { formatGenealogicalDate, type GenealogicalDateValue } from './utils/genealogicalDate';
+
 export type TreeListItem = {
   treeId: string;
   name: string;
@@ -15,33 +17,147 @@ export type TreeListResponse = {
   total: number;
 };
 
+export type NameType = 'BIRTH' | 'MARRIED' | 'MAIDEN' | 'ALIAS' | 'RELIGIOUS';
+export type NamePartType =
+  | 'PREFIX'
+  | 'GIVEN'
+  | 'ISM'
+  | 'KUNYA'
+  | 'NASAB'
+  | 'LAQAB'
+  | 'NISBA'
+  | 'SURNAME'
+  | 'SUFFIX'
+  | 'NICKNAME';
+
+export type PersonNameInput = {
+  type: NameType;
+  parts?: { type: NamePartType; value: string }[] | null;
+  text?: string | null;
+  script?: string | null;
+  primary?: boolean;
+  variants?: { kind: 'ROMANIZED' | 'PHONETIC'; text: string; script?: string | null; method?: string | null }[] | null;
+};
+
+export type PersonNameValue = PersonNameInput & { fullText: string };
+
 export type PersonDetails = {
   personId: string;
   name: string;
+  names?: PersonNameValue[];
   gender: 'MALE' | 'FEMALE' | 'UNKNOWN';
-  birthDate?: Date | null;
+  birthDate?: GenealogicalDateValue | null;
   birthPlace?: string | null;
-  deathDate?: Date | null;
+  birthPlaceId?: string | null;
+  deathDate?: GenealogicalDateValue | null;
+  events?: LifeEvent[];
+};
+
+export type LifeEventType =
+  | 'BURIAL'
+  | 'MIGRATION'
+  | 'RESIDENCE'
+  | 'OCCUPATION'
+  | 'EDUCATION'
+  | 'HAJJ'
+  | 'CONVERSION'
+  | 'CUSTOM';
+
+// customType: CUSTOM only; description is required for OCCUPATION and EDUCATION
+export type LifeEvent = {
+  eventId: string;
+  type: LifeEventType;
+  customType: string | null;
+  date: GenealogicalDateValue | null;
+  place: string | null;
+  placeId: string | null;
+  description: string | null;
+};
+
+// Dates as genealogical date text; on update, omitted fields are kept and null clears.
+// placeId links a gazetteer place, whose full name then becomes the place text.
+export type LifeEventInput = {
+  type?: LifeEventType;
+  customType?: string | null;
+  date?: string | null;
+  place?: string | null;
+  placeId?: string | null;
+  description?: string | null;
 };
 
 export type CreatePersonPayload = {
   personId: string;
   name: string;
+  names?: PersonNameInput[];
   gender: 'MALE' | 'FEMALE' | 'UNKNOWN';
   birthDate?: string | null;
   birthPlace?: string | null;
+  birthPlaceId?: string | null;
   deathDate?: string | null;
 };
 
-export type RenderNode = { readonly id: string; readonly displayName: string };
-export type RenderEdgeData = { readonly id: string; readonly source: string; readonly target: string; readonly type: 'spouse' | 'parent-child' };
+// altNames: other recorded names and their variants, present only when the person has any
+// portraitMediaId: present when the person has a portrait with a thumbnail (see publicMediaThumbnailUrl)
+export type RenderNode = {
+  readonly id: string;
+  readonly displayName: string;
+  readonly altNames?: readonly string[];
+  readonly portraitMediaId?: string;
+};
+export type ParentChildType = 'BIOLOGICAL' | 'ADOPTIVE' | 'STEP' | 'FOSTER' | 'GUARDIAN' | 'MILK';
+export type MarriageStatus = 'MARRIED' | 'DIVORCED' | 'ANNULLED' | 'WIDOWED';
+// Orders count each spouse's marriages from 1 and follow the edge's personAId/personBId
+export type MarriageDetails = {
+  readonly status: MarriageStatus;
+  readonly marriageDate: GenealogicalDateValue | null;
+  readonly marriagePlace: string | null;
+  readonly divorceDate: GenealogicalDateValue | null;
+  readonly divorcePlace: string | null;
+  readonly personAOrder: number;
+  readonly personBOrder: number;
+};
+// Dates as genealogical date text; omitted orders become each spouse's next marriage
+export type MarriageInput = {
+  status?: MarriageStatus;
+  marriageDate?: string | null;
+  marriagePlace?: string | null;
+  divorceDate?: string | null;
+  divorcePlace?: string | null;
+  personAOrder?: number | null;
+  personBOrder?: number | null;
+};
+// subtype: parent-child edges only, absent for biological parents
+// marriage: spouse edges only, absent for a first marriage of both with nothing recorded
+export type RenderEdgeData = {
+  readonly id: string;
+  readonly source: string;
+  readonly target: string;
+  readonly type: 'spouse' | 'parent-child';
+  readonly subtype?: Exclude<ParentChildType, 'BIOLOGICAL'>;
+  readonly marriage?: MarriageDetails;
+};
 export type TreeRenderV1 = {
   readonly version: 'v1';
   readonly treeId: string;
   readonly nodes: readonly RenderNode[];
   readonly edges: readonly RenderEdgeData[];
-  readonly spouseEdges?: readonly { readonly personAId: string; readonly personBId: string }[]; // deprecated, kept for compatibility
-  readonly parentChildEdges?: readonly { readonly personAId: string; readonly personBId: string }[]; // deprecated, kept for compatibility
+  readonly spouseEdges?: readonly {
+    readonly personAId: string;
+    readonly personBId: string;
+    readonly marriage?: MarriageDetails;
+  }[]; // deprecated, kept for compatibility
+  readonly parentChildEdges?: readonly {
+    readonly personAId: string;
+    readonly personBId: string;
+    readonly subtype?: Exclude<ParentChildType, 'BIOLOGICAL'>;
+  }[]; // deprecated, kept for compatibility
+  readonly families?: readonly RenderFamilyData[]; // absent when the tree has no parent-child links
+};
+// A union (couple or single parent) and its children in birth order
+export type RenderFamilyData = {
+  readonly id: string;
+  readonly parentIds: readonly string[];
+  readonly childIds: readonly string[];
 };
 
 import { httpJson } from './utils/httpClient';
@@ -126,7 +242,7 @@ export async function createPerson(treeId: string, payload: CreatePersonPayload)
 
 export async function establishParentChild(
   treeId: string,
-  payload: { parentId: string; childId: string }
+  payload: { parentId: string; childId: string; type?: ParentChildType }
 ): Promise<{ message: string }> {
   const base = getBaseUrl();
   const token = getAuthToken();
@@ -142,7 +258,7 @@ export async function establishParentChild(
 
 export async function establishSpouseRelationship(
   treeId: string,
-  payload: { personAId: string; personBId: string }
+  payload: { personAId: string; personBId: string } & MarriageInput
 ): Promise<{ message: string }> {
   const base = getBaseUrl();
   const token = getAuthToken();
@@ -152,10 +268,50 @@ export async function establishSpouseRelationship(
       'Content-Type': 'application/json',
       ...(token ? { Authorization: `Bearer ${token}` } : {}),
     },
-    body: JSON.stringify(payload),
+    body: JSON.stringify(toSpouseRequest(payload)),
   });
 }
 
+export type SpouseDetails = {
+  spouse1Id: string;
+  spouse2Id: string;
+  status: MarriageStatus;
+  marriageDate: GenealogicalDateValue | null;
+  marriagePlace: string | null;
+  divorceDate: GenealogicalDateValue | null;
+  divorcePlace: string | null;
+  spouse1Order: number;
+  spouse2Order: number;
+};
+
+// Omitted fields are unchanged; null clears
+export async function updateSpouseRelationship(
+  treeId: string,
+  payload: { personAId: string; personBId: string } & MarriageInput
+): Promise<SpouseDetails> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/relationships/spouse`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(toSpouseRequest(payload)),
+  });
+}
+
+// The spouse endpoints name the pair spouseA/spouseB
+function toSpouseRequest({ personAId, personBId, personAOrder, personBOrder, ...details }: { personAId: string; personBId: string } & MarriageInput) {
+  return {
+    spouseA: personAId,
+    spouseB: personBId,
+    ...details,
+    ...(personAOrder !== undefined ? { spouseAOrder: personAOrder } : {}),
+    ...(personBOrder !== undefined ? { spouseBOrder: personBOrder } : {}),
+  };
+}
+
 export async function getPersonDetails(treeId: string, personId: string): Promise<PersonDetails> {
   const base = getBaseUrl();
   const res = await fetch(
@@ -168,8 +324,626 @@ export async function getPersonDetails(treeId: string, personId: string): Promis
   return res.json();
 }
 
-export function formatDate(date?: Date | string | null): string | null {
+export async function getPersonEvents(treeId: string, personId: string): Promise<LifeEvent[]> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/persons/${encodeURIComponent(personId)}/events`, {
+    method: 'GET',
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+}
+
+export async function addPersonEvent(
+  treeId: string,
+  personId: string,
+  payload: LifeEventInput & { type: LifeEventType; eventId?: string }
+): Promise<LifeEvent> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/persons/${encodeURIComponent(personId)}/events`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function updatePersonEvent(
+  treeId: string,
+  personId: string,
+  eventId: string,
+  payload: LifeEventInput
+): Promise<LifeEvent> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(
+    `${base}/api/trees/${encodeURIComponent(treeId)}/persons/${encodeURIComponent(personId)}/events/${encodeURIComponent(eventId)}`,
+    {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(payload),
+    }
+  );
+}
+
+export async function deletePersonEvent(treeId: string, personId: string, eventId: string): Promise<{ message: string }> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(
+    `${base}/api/trees/${encodeURIComponent(treeId)}/persons/${encodeURIComponent(personId)}/events/${encodeURIComponent(eventId)}`,
+    {
+      method: 'DELETE',
+      headers: {
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    }
+  );
+}
+
+export type NasabStyle = 'MALAY' | 'ARABIC';
+export type NasabEndReason =
+  | 'NO_PARENTS'
+  | 'FATHER_NOT_RECORDED'
+  | 'PARENT_GENDER_UNKNOWN'
+  | 'MULTIPLE_FATHERS'
+  | 'DEPTH_LIMIT';
+
+export type Nasab = {
+  personId: string;
+  style: NasabStyle;
+  text: string;
+  links: { personId: string; name: string; gender: 'MALE' | 'FEMALE' | 'UNKNOWN' }[];
+  end: { reason: NasabEndReason; parentIds: string[] };
+};
+
+export async function getNasab(
+  treeId: string,
+  personId: string,
+  options: { depth?: number; style?: NasabStyle } = {}
+): Promise<Nasab> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  const params = new URLSearchParams();
+  if (options.depth !== undefined) params.set('depth', String(options.depth));
+  if (options.style) params.set('style', options.style);
+  const query = params.toString() ? `?${params}` : '';
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/persons/${encodeURIComponent(personId)}/nasab${query}`, {
+    method: 'GET',
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+}
+
+// inferred: not recorded, grouped from the parent-child links
+export type FamilyDetails = {
+  familyId: string;
+  parentIds: string[];
+  childIds: string[];
+  inferred: boolean;
+};
+
+// Full siblings share both biological parents, half siblings one
+export type Siblings = {
+  personId: string;
+  full: string[];
+  half: string[];
+};
+
+export async function createFamily(
+  treeId: string,
+  payload: { familyId?: string; parent1Id: string; parent2Id?: string | null }
+): Promise<{ familyId: string }> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/families`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(payload),
+  });
+}
+
+// position: 0-based place among the union's children; appended when omitted
+export async function addChildToFamily(
+  treeId: string,
+  familyId: string,
+  payload: { childId: string; type?: ParentChildType; position?: number }
+): Promise<FamilyDetails> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/families/${encodeURIComponent(familyId)}/children`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function getFamilies(treeId: string): Promise<FamilyDetails[]> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/families`, {
+    method: 'GET',
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+}
+
+export async function getSiblings(treeId: string, personId: string): Promise<Siblings> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/persons/${encodeURIComponent(personId)}/siblings`, {
+    method: 'GET',
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+}
+
+export type KinshipKind = 'SELF' | 'SPOUSE' | 'NON_BIOLOGICAL' | 'BLOOD' | 'IN_LAW' | 'NONE';
+export type KinshipStepRelation = 'PARENT' | 'CHILD' | 'SPOUSE';
+
+// What `to` is to `from`. blood: generations up from `from` to the nearest
+// common ancestors and down to `to`; path: relation is what each person is
+// to the one before (null for `from`)
+export type Kinship = {
+  fromId: string;
+  toId: string;
+  kind: KinshipKind;
+  label: string | null;
+  blood: { up: number; down: number; half: boolean; commonAncestorIds: string[] } | null;
+  inLaw: { side: 'SPOUSE_RELATIVE' | 'RELATIVE_SPOUSE'; spouseId: string; relativeId: string } | null;
+  parentChildType: ParentChildType | null;
+  formerSpouse: boolean;
+  path: { personId: string; name: string; relation: KinshipStepRelation | null }[];
+};
+
+export type KinLocale = 'en' | 'ms' | 'ar';
+
+export async function getRelationship(
+  treeId: string,
+  fromId: string,
+  toId: string,
+  locale: KinLocale = 'en',
+): Promise<Kinship> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  const params = new URLSearchParams({ from: fromId, to: toId, locale });
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/relationship?${params}`, {
+    method: 'GET',
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+}
+
+export type KinPathStep = {
+  personId: string;
+  name: string;
+  relation: KinshipStepRelation | null;
+  type: ParentChildType | null;
+};
+
+export type KinPath = {
+  fromId: string;
+  toId: string;
+  includeSpouses: boolean;
+  found: boolean;
+  hops: number | null;
+  path: KinPathStep[];
+};
+
+export async function getKinPath(
+  treeId: string,
+  fromId: string,
+  toId: string,
+  options: { excludeSpouses?: boolean } = {},
+): Promise<KinPath> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  const params = new URLSearchParams({ from: fromId, to: toId, excludeSpouses: String(!!options.excludeSpouses) });
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/path?${params}`, {
+    method: 'GET',
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+}
+
+export type Source = {
+  sourceId: string;
+  title: string;
+  author: string | null;
+  repository: string | null; // archive, library or family holding it
+  reference: string | null; // call number or manuscript reference
+};
+
+export type SourceInput = {
+  title?: string;
+  author?: string | null;
+  repository?: string | null;
+  reference?: string | null;
+};
+
+export type PersonFact = 'NAME' | 'BIRTH' | 'DEATH';
+
+// PERSON without a fact cites the person as a whole; spouses come back in canonical order
+export type CitationTarget =
+  | { kind: 'PERSON'; personId: string; fact?: PersonFact | null }
+  | { kind: 'EVENT'; personId: string; eventId: string }
+  | { kind: 'PARENT_CHILD'; parentId: string; childId: string }
+  | { kind: 'SPOUSE'; spouse1Id: string; spouse2Id: string };
+
+// GEDCOM QUAY 0-3, in this order
+export type CitationQuality = 'UNRELIABLE' | 'QUESTIONABLE' | 'SECONDARY' | 'PRIMARY';
+
+export type Citation = {
+  citationId: string;
+  sourceId: string;
+  target: CitationTarget;
+  page: string | null;
+  quality: CitationQuality | null;
+  transcription: string | null;
+};
+
+export type CitationInput = {
+  page?: string | null;
+  quality?: CitationQuality | null;
+  transcription?: string | null;
+};
+
+export async function getSources(treeId: string): Promise<Source[]> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/sources`, {
+    method: 'GET',
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+}
+
+export async function createSource(
+  treeId: string,
+  payload: SourceInput & { title: string; sourceId?: string }
+): Promise<Source> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/sources`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function updateSource(treeId: string, sourceId: string, payload: SourceInput): Promise<Source> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/sources/${encodeURIComponent(sourceId)}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(payload),
+  });
+}
+
+// 409 while the source is still cited
+export async function deleteSource(treeId: string, sourceId: string): Promise<{ message: string }> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/sources/${encodeURIComponent(sourceId)}`, {
+    method: 'DELETE',
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+}
+
+export async function getPersonCitations(treeId: string, personId: string): Promise<Citation[]> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/persons/${encodeURIComponent(personId)}/citations`, {
+    method: 'GET',
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+}
+
+export async function addCitation(
+  treeId: string,
+  payload: CitationInput & { sourceId: string; target: CitationTarget; citationId?: string }
+): Promise<Citation> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/citations`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function updateCitation(treeId: string, citationId: string, payload: CitationInput): Promise<Citation> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/citations/${encodeURIComponent(citationId)}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function deleteCitation(treeId: string, citationId: string): Promise<{ message: string }> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/citations/${encodeURIComponent(citationId)}`, {
+    method: 'DELETE',
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+}
+
+// eventId: one of the person's events; primary: the person's portrait (images only, one per person)
+export type MediaLink = {
+  personId: string;
+  eventId?: string | null;
+  primary?: boolean;
+};
+
+export type MediaItem = {
+  mediaId: string;
+  fileName: string;
+  mimeType: string;
+  size: number; // bytes
+  hasThumbnail: boolean;
+  caption: string | null;
+  date: GenealogicalDateValue | null;
+  links: Required<MediaLink>[];
+};
+
+// Date as genealogical date text; on update, omitted fields are kept and null clears; links replace all
+export type MediaInput = {
+  caption?: string | null;
+  date?: string | null;
+  links?: MediaLink[] | null;
+};
+
+// Uploads may take longer than the default request timeout
+const MEDIA_UPLOAD_TIMEOUT_MS = 120000;
+
+export async function getMedia(treeId: string, personId?: string): Promise<MediaItem[]> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  const query = personId ? `?personId=${encodeURIComponent(personId)}` : '';
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/media${query}`, {
+    method: 'GET',
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+}
+
+export async function uploadMedia(
+  treeId: string,
+  file: File,
+  payload: Omit<MediaInput, 'links'> & { links?: MediaLink[]; mediaId?: string } = {}
+): Promise<MediaItem> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  const formData = new FormData();
+  formData.append('file', file);
+  if (payload.mediaId) formData.append('mediaId', payload.mediaId);
+  if (payload.caption) formData.append('caption', payload.caption);
+  if (payload.date) formData.append('date', payload.date);
+  if (payload.links) formData.append('links', JSON.stringify(payload.links));
+
+  // No Content-Type: the browser sets the multipart boundary
+  return httpJson(
+    `${base}/api/trees/${encodeURIComponent(treeId)}/media`,
+    {
+      method: 'POST',
+      headers: {
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: formData,
+    },
+    { retries: 0, requestTimeoutMs: MEDIA_UPLOAD_TIMEOUT_MS }
+  );
+}
+
+export async function updateMedia(treeId: string, mediaId: string, payload: MediaInput): Promise<MediaItem> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/media/${encodeURIComponent(mediaId)}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function deleteMedia(treeId: string, mediaId: string): Promise<{ message: string }> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/media/${encodeURIComponent(mediaId)}`, {
+    method: 'DELETE',
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+}
+
+// The file as uploaded, or its thumbnail
+export async function getMediaFile(
+  treeId: string,
+  mediaId: string,
+  variant: 'file' | 'thumbnail' = 'file'
+): Promise<Blob> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  const res = await fetch(`${base}/api/trees/${encodeURIComponent(treeId)}/media/${encodeURIComponent(mediaId)}/${variant}`, {
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(`Failed to load media: ${res.status} ${text}`);
+  }
+  return res.blob();
+}
+
+// Thumbnail URL usable as an <img> source, which cannot send a token
+export function publicMediaThumbnailUrl(treeId: string, mediaId: string): string {
+  return `${getBaseUrl()}/public/trees/${encodeURIComponent(treeId)}/media/${encodeURIComponent(mediaId)}/thumbnail`;
+}
+
+export type PlaceType = 'COUNTRY' | 'REGION' | 'DISTRICT' | 'CITY' | 'VILLAGE' | 'SITE' | 'OTHER';
+
+// script: ISO 15924 code such as Arab; historical: a former name
+export type PlaceName = {
+  name: string;
+  script?: string | null;
+  historical?: boolean;
+};
+
+// fullName runs up the hierarchy ("Tarim, Hadramaut, Yemen"); personCount counts births and
+// events linked to the place, totalPersonCount also those linked to places below it
+export type Place = {
+  placeId: string;
+  name: string;
+  type: PlaceType | null;
+  parentId: string | null;
+  alternateNames: Required<PlaceName>[];
+  latitude: number | null;
+  longitude: number | null;
+  fullName: string;
+  personCount: number;
+  totalPersonCount: number;
+};
+
+// On update, omitted fields are kept and null clears; alternateNames replace all
+export type PlaceInput = {
+  name?: string;
+  type?: PlaceType | null;
+  parentId?: string | null;
+  alternateNames?: PlaceName[] | null;
+  latitude?: number | null;
+  longitude?: number | null;
+};
+
+export async function getPlaces(treeId: string): Promise<Place[]> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/places`, {
+    method: 'GET',
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+}
+
+export async function createPlace(treeId: string, payload: PlaceInput & { name: string }): Promise<Place> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/places`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function updatePlace(treeId: string, placeId: string, payload: PlaceInput): Promise<Place> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/places/${encodeURIComponent(placeId)}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(payload),
+  });
+}
+
+// keepFormerName keeps the old name as a historical name of the place
+export async function renamePlace(
+  treeId: string,
+  placeId: string,
+  name: string,
+  keepFormerName = true
+): Promise<Place> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/places/${encodeURIComponent(placeId)}/rename`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify({ name, keepFormerName }),
+  });
+}
+
+// Folds placeId into intoPlaceId and returns the place kept
+export async function mergePlaces(treeId: string, placeId: string, intoPlaceId: string): Promise<Place> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/places/${encodeURIComponent(placeId)}/merge`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify({ intoPlaceId }),
+  });
+}
+
+// 409 while births, events or other places refer to the place
+export async function deletePlace(treeId: string, placeId: string): Promise<{ message: string }> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/places/${encodeURIComponent(placeId)}`, {
+    method: 'DELETE',
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+}
+
+export function formatDate(date?: GenealogicalDateValue | Date | string | null): string | null {
   if (!date) return null;
+  if (typeof date === 'object' && !(date instanceof Date)) return formatGenealogicalDate(date);
   const d = typeof date === 'string' ? new Date(date) : date;
   if (Number.isNaN(d.getTime())) return null;
   return d.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
@@ -183,6 +957,18 @@ export function formatGender(gender?: string): string {
   return 'Unknown';
 }
 
+const NAME_TYPE_LABELS: Record<NameType, string> = {
+  BIRTH: 'Birth name',
+  MARRIED: 'Married name',
+  MAIDEN: 'Maiden name',
+  ALIAS: 'Also known as',
+  RELIGIOUS: 'Religious name',
+};
+
+export function formatNameType(type: NameType): string {
+  return NAME_TYPE_LABELS[type] ?? type;
+}
+
 export async function findDuplicates(
   treeId: string,
   name: string,
@@ -399,8 +1185,16 @@ export async function importTree(
 export async function updatePerson(
   treeId: string,
   personId: string,
-  payload: { name: string; gender: 'MALE' | 'FEMALE' | 'UNKNOWN'; birthDate?: string | null; birthPlace?: string | null; deathDate?: string | null }
-): Promise<{ personId: string }> {
+  payload: {
+    name: string;
+    names?: PersonNameInput[] | null;
+    gender: 'MALE' | 'FEMALE' | 'UNKNOWN';
+    birthDate?: string | null;
+    birthPlace?: string | null;
+    birthPlaceId?: string | null;
+    deathDate?: string | null;
+  }
+): Promise<PersonDetails> {
   const base = getBaseUrl();
   const token = getAuthToken();
   return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/persons/${encodeURIComponent(personId)}`, {
@@ -525,3 +1319,224 @@ export async function getPersonHistory(
     }
   );
 }
+
+export type CommonAncestor = {
+  ancestorId: string;
+  name: string;
+  distances: { personId: string; generations: number }[];
+};
+
+export type CommonAncestors = {
+  personIds: string[];
+  ancestors: CommonAncestor[];
+};
+
+export async function getCommonAncestors(treeId: string, personIds: string[]): Promise<CommonAncestors> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  const params = new URLSearchParams({ persons: personIds.join(',') });
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/common-ancestors?${params}`, {
+    method: 'GET',
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+}
+
+export type RepeatedAncestor = {
+  ancestorId: string;
+  name: string;
+  generations: number[];
+  paths: number;
+};
+
+export type PedigreeCollapse = {
+  personId: string;
+  distinctAncestors: number;
+  ancestorSlots: number;
+  collapse: number;
+  repeated: RepeatedAncestor[];
+};
+
+export async function getPedigreeCollapse(treeId: string, personId: string): Promise<PedigreeCollapse> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(
+    `${base}/api/trees/${encodeURIComponent(treeId)}/persons/${encodeURIComponent(personId)}/pedigree-collapse`,
+    {
+      method: 'GET',
+      headers: {
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    },
+  );
+}
+
+export type ConsanguinityPath = {
+  ancestorId: string;
+  path: { personId: string; name: string }[];
+  ancestorInbreeding: number;
+  contribution: number;
+};
+
+export type Relatedness = {
+  personIds: [string, string];
+  kinship: number;
+  relationship: number;
+  inbreeding: [number, number];
+  paths: ConsanguinityPath[];
+  truncated: boolean;
+};
+
+export type Inbreeding = {
+  personId: string;
+  parentIds: string[];
+  inbreeding: number;
+  paths: ConsanguinityPath[];
+  truncated: boolean;
+};
+
+export async function getRelatedness(treeId: string, fromId: string, toId: string): Promise<Relatedness> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  const params = new URLSearchParams({ from: fromId, to: toId });
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/relatedness?${params}`, {
+    method: 'GET',
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+}
+
+export async function getInbreeding(treeId: string, personId: string): Promise<Inbreeding> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(
+    `${base}/api/trees/${encodeURIComponent(treeId)}/persons/${encodeURIComponent(personId)}/inbreeding`,
+    {
+      method: 'GET',
+      headers: {
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    },
+  );
+}
+
+export type MahramBasis = 'BLOOD' | 'MILK' | 'MARRIAGE';
+export type MahramRule =
+  | 'ASCENDANT'
+  | 'DESCENDANT'
+  | 'SIBLING'
+  | 'SIBLING_DESCENDANT'
+  | 'ASCENDANT_SIBLING'
+  | 'SPOUSE_ASCENDANT'
+  | 'SPOUSE_DESCENDANT'
+  | 'ASCENDANT_SPOUSE'
+  | 'DESCENDANT_SPOUSE';
+
+export type Mahram = {
+  fromId: string;
+  toId: string;
+  mahram: boolean;
+  basis: MahramBasis | null;
+  rule: MahramRule | null;
+  condition: 'CONSUMMATION' | null;
+  path: KinPathStep[];
+};
+
+export async function getMahram(treeId: string, fromId: string, toId: string): Promise<Mahram> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  const params = new URLSearchParams({ from: fromId, to: toId });
+  return httpJson(`${base}/api/trees/${encodeURIComponent(treeId)}/mahram?${params}`, {
+    method: 'GET',
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+}
+
+export type Fraction = { numerator: number; denominator: number };
+
+export type HeirRole =
+  | 'HUSBAND'
+  | 'WIFE'
+  | 'SON'
+  | 'DAUGHTER'
+  | 'SONS_SON'
+  | 'SONS_DAUGHTER'
+  | 'FATHER'
+  | 'MOTHER'
+  | 'PATERNAL_GRANDFATHER'
+  | 'PATERNAL_GRANDMOTHER'
+  | 'MATERNAL_GRANDMOTHER'
+  | 'FULL_BROTHER'
+  | 'FULL_SISTER'
+  | 'PATERNAL_BROTHER'
+  | 'PATERNAL_SISTER'
+  | 'MATERNAL_BROTHER'
+  | 'MATERNAL_SISTER'
+  | 'FULL_NEPHEW'
+  | 'PATERNAL_NEPHEW'
+  | 'FULL_UNCLE'
+  | 'PATERNAL_UNCLE'
+  | 'FULL_COUSIN'
+  | 'PATERNAL_COUSIN';
+
+export type ShareRule =
+  | 'HUSBAND_HALF'
+  | 'HUSBAND_QUARTER'
+  | 'WIFE_QUARTER'
+  | 'WIFE_EIGHTH'
+  | 'FATHER_SIXTH'
+  | 'FATHER_SIXTH_AND_RESIDUE'
+  | 'MOTHER_THIRD'
+  | 'MOTHER_SIXTH'
+  | 'MOTHER_THIRD_OF_REMAINDER'
+  | 'GRANDMOTHER_SIXTH'
+  | 'HALF'
+  | 'TWO_THIRDS'
+  | 'SIXTH_COMPLETING_TWO_THIRDS'
+  | 'MATERNAL_SIBLING_SIXTH'
+  | 'MATERNAL_SIBLINGS_THIRD'
+  | 'RESIDUARY'
+  | 'RESIDUARY_WITH_BROTHER'
+  | 'RESIDUARY_WITH_DAUGHTERS'
+  | 'EXCLUDED';
+
+export type InheritanceHeir = {
+  personId: string;
+  name: string;
+  role: HeirRole;
+  generation: number | null;
+  rule: ShareRule;
+  fixed: Fraction | null; // the group's fixed share before ʿawl or radd
+  excludedBy: HeirRole | null;
+  share: Fraction; // of the estate
+};
+
+export type Inheritance = {
+  deceasedId: string;
+  deceasedName: string;
+  deathDate: string;
+  heirs: InheritanceHeir[];
+  base: number;
+  adjustment: 'AWL' | 'RADD' | null;
+  unallocated: Fraction;
+  genderUnknown: { personId: string; name: string }[];
+  sideUnknown: { personId: string; name: string }[];
+};
+
+export async function getInheritance(treeId: string, personId: string): Promise<Inheritance> {
+  const base = getBaseUrl();
+  const token = getAuthToken();
+  return httpJson(
+    `${base}/api/trees/${encodeURIComponent(treeId)}/persons/${encodeURIComponent(personId)}/inheritance`,
+    {
+      method: 'GET',
+      headers: {
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    },
+  );
+}
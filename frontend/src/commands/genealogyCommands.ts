@@ -32,9 +32,11 @@ export interface AddPersonCommand {
   treeId: string;
   personId?: string;
   name: string;
+  names?: api.PersonNameInput[];
   gender: 'MALE' | 'FEMALE' | 'UNKNOWN';
   birthDate?: string | null;
   birthPlace?: string | null;
+  birthPlaceId?: string | null; // a gazetteer place; its full name becomes birthPlace
   deathDate?: string | null;
 }
 
@@ -45,6 +47,7 @@ export interface AddParentChildRelationshipCommand {
   treeId: string;
   parentId: string;
   childId: string;
+  type?: api.ParentChildType; // defaults to BIOLOGICAL on the server
 }
 
 /**
@@ -54,6 +57,41 @@ export interface AddSpouseRelationshipCommand {
   treeId: string;
   personAId: string;
   personBId: string;
+  marriage?: api.MarriageInput; // orders follow personAId/personBId
+}
+
+/**
+ * Spouse Update Command
+ * Omitted marriage fields are unchanged; null clears them.
+ */
+export interface UpdateSpouseRelationshipCommand {
+  treeId: string;
+  personAId: string;
+  personBId: string;
+  marriage: api.MarriageInput;
+}
+
+/**
+ * Family Creation Command
+ * A couple, or a single parent when parent2Id is omitted.
+ */
+export interface CreateFamilyCommand {
+  treeId: string;
+  familyId?: string; // generated by the server when omitted
+  parent1Id: string;
+  parent2Id?: string | null;
+}
+
+/**
+ * Family Child Command
+ * Links the child to every parent of the family.
+ */
+export interface AddChildToFamilyCommand {
+  treeId: string;
+  familyId: string;
+  childId: string;
+  type?: api.ParentChildType; // defaults to BIOLOGICAL on the server
+  position?: number; // 0-based birth order within the family; appended when omitted
 }
 
 /**
@@ -63,9 +101,11 @@ export interface UpdatePersonCommand {
   treeId: string;
   personId: string;
   name: string;
+  names?: api.PersonNameInput[] | null; // omit to keep the recorded names
   gender: 'MALE' | 'FEMALE' | 'UNKNOWN';
   birthDate?: string | null;
   birthPlace?: string | null;
+  birthPlaceId?: string | null; // a gazetteer place; its full name becomes birthPlace
   deathDate?: string | null;
 }
 
@@ -78,6 +118,128 @@ export interface DeletePersonCommand {
   cascade?: 'person-only' | 'with-children' | 'with-all-relationships';
 }
 
+/**
+ * Life Event Commands
+ * On update, omitted fields are unchanged; null clears them.
+ */
+export interface AddPersonEventCommand {
+  treeId: string;
+  personId: string;
+  eventId?: string; // generated by the server when omitted
+  event: api.LifeEventInput & { type: api.LifeEventType };
+}
+
+export interface UpdatePersonEventCommand {
+  treeId: string;
+  personId: string;
+  eventId: string;
+  event: api.LifeEventInput;
+}
+
+export interface RemovePersonEventCommand {
+  treeId: string;
+  personId: string;
+  eventId: string;
+}
+
+/**
+ * Source & Citation Commands
+ * On update, omitted fields are unchanged; null clears them. A citation's
+ * source and target are fixed once recorded.
+ */
+export interface CreateSourceCommand {
+  treeId: string;
+  sourceId?: string; // generated by the server when omitted
+  source: api.SourceInput & { title: string };
+}
+
+export interface UpdateSourceCommand {
+  treeId: string;
+  sourceId: string;
+  source: api.SourceInput;
+}
+
+export interface RemoveSourceCommand {
+  treeId: string;
+  sourceId: string;
+}
+
+export interface AddCitationCommand {
+  treeId: string;
+  citationId?: string; // generated by the server when omitted
+  sourceId: string;
+  target: api.CitationTarget;
+  citation?: api.CitationInput;
+}
+
+export interface UpdateCitationCommand {
+  treeId: string;
+  citationId: string;
+  citation: api.CitationInput;
+}
+
+export interface RemoveCitationCommand {
+  treeId: string;
+  citationId: string;
+}
+
+/**
+ * Media Commands
+ * The file itself is fixed once uploaded; caption, date and links can be
+ * updated, with links replaced as a whole.
+ */
+export interface UploadMediaCommand {
+  treeId: string;
+  mediaId?: string; // generated by the server when omitted
+  file: File;
+  media?: Omit<api.MediaInput, 'links'> & { links?: api.MediaLink[] };
+}
+
+export interface UpdateMediaCommand {
+  treeId: string;
+  mediaId: string;
+  media: api.MediaInput;
+}
+
+export interface RemoveMediaCommand {
+  treeId: string;
+  mediaId: string;
+}
+
+/**
+ * Place Commands
+ * On update, omitted fields are unchanged; null clears them. Renames and
+ * merges rewrite the place text of every birth and event linked to it.
+ */
+export interface CreatePlaceCommand {
+  treeId: string;
+  place: api.PlaceInput & { name: string };
+}
+
+export interface UpdatePlaceCommand {
+  treeId: string;
+  placeId: string;
+  place: api.PlaceInput;
+}
+
+export interface RenamePlaceCommand {
+  treeId: string;
+  placeId: string;
+  name: string;
+  keepFormerName?: boolean; // defaults to true
+}
+
+export interface MergePlacesCommand {
+  treeId: string;
+  placeId: string; // the duplicate, removed by the merge
+  intoPlaceId: string;
+}
+
+export interface RemovePlaceCommand {
+  treeId: string;
+  placeId: string;
+}
+
 /**
  * Tree Update Command
  */
@@ -107,9 +269,11 @@ export class GenealogyCommandBus {
       const result = await api.createPerson(cmd.treeId, {
         personId: cmd.personId ?? '', // Allow explicit personId; fallback to backend-generated
         name: cmd.name,
+        ...(cmd.names ? { names: cmd.names } : {}),
         gender: cmd.gender,
         birthDate: cmd.birthDate ?? null,
         birthPlace: cmd.birthPlace ?? null,
+        ...(cmd.birthPlaceId !== undefined ? { birthPlaceId: cmd.birthPlaceId } : {}),
         deathDate: cmd.deathDate ?? null,
       });
 
@@ -146,6 +310,7 @@ export class GenealogyCommandBus {
       const result = await api.establishParentChild(cmd.treeId, {
         parentId: cmd.parentId,
         childId: cmd.childId,
+        ...(cmd.type ? { type: cmd.type } : {}),
       });
 
       return {
@@ -177,6 +342,7 @@ export class GenealogyCommandBus {
       const result = await api.establishSpouseRelationship(cmd.treeId, {
         personAId: cmd.personAId,
         personBId: cmd.personBId,
+        ...cmd.marriage,
       });
 
       return {
@@ -192,20 +358,111 @@ export class GenealogyCommandBus {
     }
   }
 
+  /**
+   * Update the details of an existing marriage.
+   * 
+   * @param cmd - Marriage update payload
+   * @returns Marriage details after the update
+   * @throws Error if the two persons are not recorded as spouses
+   */
+  static async updateSpouseRelationship(
+    cmd: UpdateSpouseRelationshipCommand
+  ): Promise<CommandResult<api.SpouseDetails>> {
+    try {
+      const result = await api.updateSpouseRelationship(cmd.treeId, {
+        personAId: cmd.personAId,
+        personBId: cmd.personBId,
+        ...cmd.marriage,
+      });
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: this.parseApiError(err),
+        code: err?.code,
+      };
+    }
+  }
+
+  /**
+   * Record a family (union) so children can be attached to it.
+   * 
+   * @param cmd - Family payload
+   * @returns Family ID
+   * @throws Error if a parent doesn't exist or the union is already recorded
+   */
+  static async createFamily(cmd: CreateFamilyCommand): Promise<CommandResult<{ familyId: string }>> {
+    try {
+      const result = await api.createFamily(cmd.treeId, {
+        ...(cmd.familyId ? { familyId: cmd.familyId } : {}),
+        parent1Id: cmd.parent1Id,
+        ...(cmd.parent2Id ? { parent2Id: cmd.parent2Id } : {}),
+      });
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: this.parseApiError(err),
+        code: err?.code,
+      };
+    }
+  }
+
+  /**
+   * Attach a child to a specific family.
+   * 
+   * Validates the same constraints as addParentChildRelationship, for
+   * each parent of the family.
+   * 
+   * @param cmd - Family child payload
+   * @returns Family with its children in order
+   * @throws Error on constraint violation
+   */
+  static async addChildToFamily(cmd: AddChildToFamilyCommand): Promise<CommandResult<api.FamilyDetails>> {
+    try {
+      const result = await api.addChildToFamily(cmd.treeId, cmd.familyId, {
+        childId: cmd.childId,
+        ...(cmd.type ? { type: cmd.type } : {}),
+        ...(cmd.position !== undefined ? { position: cmd.position } : {}),
+      });
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: this.parseApiError(err),
+        code: err?.code,
+      };
+    }
+  }
+
   /**
    * Update person attributes.
    * 
    * @param cmd - Person update payload
-   * @returns Updated person ID
+   * @returns Updated person
    * @throws Error on validation failure
    */
-  static async updatePerson(cmd: UpdatePersonCommand): Promise<CommandResult<{ personId: string }>> {
+  static async updatePerson(cmd: UpdatePersonCommand): Promise<CommandResult<api.PersonDetails>> {
     try {
       const result = await api.updatePerson(cmd.treeId, cmd.personId, {
         name: cmd.name,
+        ...(cmd.names !== undefined ? { names: cmd.names } : {}),
         gender: cmd.gender,
         birthDate: cmd.birthDate ?? null,
         birthPlace: cmd.birthPlace ?? null,
+        ...(cmd.birthPlaceId !== undefined ? { birthPlaceId: cmd.birthPlaceId } : {}),
         deathDate: cmd.deathDate ?? null,
       });
 
@@ -253,6 +510,418 @@ export class GenealogyCommandBus {
     }
   }
 
+  /**
+   * Record a life event (burial, residence, occupation, Hajj, ...) for a person.
+   *
+   * @param cmd - Life event payload
+   * @returns The recorded event with its id
+   * @throws Error if the event date precedes the birth
+   */
+  static async addPersonEvent(cmd: AddPersonEventCommand): Promise<CommandResult<api.LifeEvent>> {
+    try {
+      const result = await api.addPersonEvent(cmd.treeId, cmd.personId, {
+        ...cmd.event,
+        ...(cmd.eventId ? { eventId: cmd.eventId } : {}),
+      });
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: this.parseApiError(err),
+        code: err?.code,
+      };
+    }
+  }
+
+  /**
+   * Update a life event.
+   *
+   * @param cmd - Life event update payload
+   * @returns Updated event
+   */
+  static async updatePersonEvent(cmd: UpdatePersonEventCommand): Promise<CommandResult<api.LifeEvent>> {
+    try {
+      const result = await api.updatePersonEvent(cmd.treeId, cmd.personId, cmd.eventId, cmd.event);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: this.parseApiError(err),
+        code: err?.code,
+      };
+    }
+  }
+
+  /**
+   * Remove a life event.
+   *
+   * @param cmd - Person and event ids
+   * @returns Success message
+   */
+  static async removePersonEvent(cmd: RemovePersonEventCommand): Promise<CommandResult<{ message: string }>> {
+    try {
+      const result = await api.deletePersonEvent(cmd.treeId, cmd.personId, cmd.eventId);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: this.parseApiError(err),
+        code: err?.code,
+      };
+    }
+  }
+
+  /**
+   * Record a source in the tree.
+   *
+   * @param cmd - Source payload
+   * @returns The recorded source with its id
+   */
+  static async createSource(cmd: CreateSourceCommand): Promise<CommandResult<api.Source>> {
+    try {
+      const result = await api.createSource(cmd.treeId, {
+        ...cmd.source,
+        ...(cmd.sourceId ? { sourceId: cmd.sourceId } : {}),
+      });
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: this.parseApiError(err),
+        code: err?.code,
+      };
+    }
+  }
+
+  /**
+   * Update a source.
+   *
+   * @param cmd - Source update payload
+   * @returns Updated source
+   */
+  static async updateSource(cmd: UpdateSourceCommand): Promise<CommandResult<api.Source>> {
+    try {
+      const result = await api.updateSource(cmd.treeId, cmd.sourceId, cmd.source);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: this.parseApiError(err),
+        code: err?.code,
+      };
+    }
+  }
+
+  /**
+   * Remove a source.
+   *
+   * @param cmd - Tree and source ids
+   * @returns Success message
+   * @throws Error while the source is still cited
+   */
+  static async removeSource(cmd: RemoveSourceCommand): Promise<CommandResult<{ message: string }>> {
+    try {
+      const result = await api.deleteSource(cmd.treeId, cmd.sourceId);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: this.parseApiError(err),
+        code: err?.code,
+      };
+    }
+  }
+
+  /**
+   * Cite a source for a person, fact, event or relationship.
+   *
+   * @param cmd - Source, target and citation details
+   * @returns The recorded citation with its id
+   * @throws Error if the source or the cited fact does not exist
+   */
+  static async addCitation(cmd: AddCitationCommand): Promise<CommandResult<api.Citation>> {
+    try {
+      const result = await api.addCitation(cmd.treeId, {
+        ...cmd.citation,
+        sourceId: cmd.sourceId,
+        target: cmd.target,
+        ...(cmd.citationId ? { citationId: cmd.citationId } : {}),
+      });
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: this.parseApiError(err),
+        code: err?.code,
+      };
+    }
+  }
+
+  /**
+   * Update a citation's page, quality or transcription.
+   *
+   * @param cmd - Citation update payload
+   * @returns Updated citation
+   */
+  static async updateCitation(cmd: UpdateCitationCommand): Promise<CommandResult<api.Citation>> {
+    try {
+      const result = await api.updateCitation(cmd.treeId, cmd.citationId, cmd.citation);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: this.parseApiError(err),
+        code: err?.code,
+      };
+    }
+  }
+
+  /**
+   * Remove a citation.
+   *
+   * @param cmd - Tree and citation ids
+   * @returns Success message
+   */
+  static async removeCitation(cmd: RemoveCitationCommand): Promise<CommandResult<{ message: string }>> {
+    try {
+      const result = await api.deleteCitation(cmd.treeId, cmd.citationId);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: this.parseApiError(err),
+        code: err?.code,
+      };
+    }
+  }
+
+  /**
+   * Upload a photo, scan or recording, linked to persons or their events.
+   *
+   * @param cmd - File, caption, date and links
+   * @returns The recorded media with its id
+   * @throws Error if the file type is not accepted or a linked person does not exist
+   */
+  static async uploadMedia(cmd: UploadMediaCommand): Promise<CommandResult<api.MediaItem>> {
+    try {
+      const result = await api.uploadMedia(cmd.treeId, cmd.file, {
+        ...cmd.media,
+        ...(cmd.mediaId ? { mediaId: cmd.mediaId } : {}),
+      });
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: this.parseApiError(err),
+        code: err?.code,
+      };
+    }
+  }
+
+  /**
+   * Update a media item's caption, date or links.
+   *
+   * @param cmd - Media update payload
+   * @returns Updated media
+   */
+  static async updateMedia(cmd: UpdateMediaCommand): Promise<CommandResult<api.MediaItem>> {
+    try {
+      const result = await api.updateMedia(cmd.treeId, cmd.mediaId, cmd.media);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: this.parseApiError(err),
+        code: err?.code,
+      };
+    }
+  }
+
+  /**
+   * Remove a media item and its stored file.
+   *
+   * @param cmd - Tree and media ids
+   * @returns Success message
+   */
+  static async removeMedia(cmd: RemoveMediaCommand): Promise<CommandResult<{ message: string }>> {
+    try {
+      const result = await api.deleteMedia(cmd.treeId, cmd.mediaId);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: this.parseApiError(err),
+        code: err?.code,
+      };
+    }
+  }
+
+  /**
+   * Add a place to the tree's gazetteer, under its parent place.
+   *
+   * @param cmd - Place payload
+   * @returns The recorded place with its id and full name
+   * @throws Error if the parent does not exist or the coordinates are invalid
+   */
+  static async createPlace(cmd: CreatePlaceCommand): Promise<CommandResult<api.Place>> {
+    try {
+      const result = await api.createPlace(cmd.treeId, cmd.place);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: this.parseApiError(err),
+        code: err?.code,
+      };
+    }
+  }
+
+  /**
+   * Update a place's type, parent, other names or coordinates.
+   *
+   * @param cmd - Place update payload
+   * @returns Updated place
+   */
+  static async updatePlace(cmd: UpdatePlaceCommand): Promise<CommandResult<api.Place>> {
+    try {
+      const result = await api.updatePlace(cmd.treeId, cmd.placeId, cmd.place);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: this.parseApiError(err),
+        code: err?.code,
+      };
+    }
+  }
+
+  /**
+   * Rename a place, by default keeping the old name as a historical name.
+   *
+   * @param cmd - Place id and new name
+   * @returns Renamed place
+   */
+  static async renamePlace(cmd: RenamePlaceCommand): Promise<CommandResult<api.Place>> {
+    try {
+      const result = await api.renamePlace(cmd.treeId, cmd.placeId, cmd.name, cmd.keepFormerName ?? true);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: this.parseApiError(err),
+        code: err?.code,
+      };
+    }
+  }
+
+  /**
+   * Merge a duplicate place into another, moving its births, events and
+   * sub-places and keeping its name as another name of the place kept.
+   *
+   * @param cmd - Duplicate and kept place ids
+   * @returns The place kept
+   */
+  static async mergePlaces(cmd: MergePlacesCommand): Promise<CommandResult<api.Place>> {
+    try {
+      const result = await api.mergePlaces(cmd.treeId, cmd.placeId, cmd.intoPlaceId);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: this.parseApiError(err),
+        code: err?.code,
+      };
+    }
+  }
+
+  /**
+   * Remove a place nothing refers to.
+   *
+   * @param cmd - Tree and place ids
+   * @returns Success message
+   * @throws Error while births, events or sub-places refer to the place
+   */
+  static async removePlace(cmd: RemovePlaceCommand): Promise<CommandResult<{ message: string }>> {
+    try {
+      const result = await api.deletePlace(cmd.treeId, cmd.placeId);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: this.parseApiError(err),
+        code: err?.code,
+      };
+    }
+  }
+
   /**
    * Update tree metadata.
    * 
@@ -17,6 +17,7 @@ const genders: Array<{ value: CreatePersonPayload['gender']; label: string }> =
 
 import { withErrorBoundary } from '../utils/withErrorBoundary';
 import { PersonForm } from './PersonForm';
+import { validateLifeDates } from '../utils/genealogicalDate';
 
 const AddPersonDrawerInner: React.FC<AddPersonDrawerProps> = ({
   treeId,
@@ -60,17 +61,11 @@ const AddPersonDrawerInner: React.FC<AddPersonDrawerProps> = ({
     if (key === 'gender') {
       if (!val) return 'Gender is required';
     }
-    if (key === 'birthDate' && val && form.deathDate) {
-      const b = new Date(val);
-      const d = new Date(form.deathDate);
-      if (Number.isNaN(b.getTime()) || Number.isNaN(d.getTime())) return null;
-      if (d < b) return 'Death date must be after birth date';
+    if (key === 'birthDate' && val) {
+      return validateLifeDates(val, form.deathDate);
     }
-    if (key === 'deathDate' && val && form.birthDate) {
-      const b = new Date(form.birthDate);
-      const d = new Date(val);
-      if (Number.isNaN(b.getTime()) || Number.isNaN(d.getTime())) return null;
-      if (d < b) return 'Death date must be after birth date';
+    if (key === 'deathDate' && val) {
+      return validateLifeDates(form.birthDate, val);
     }
     return null;
   };
@@ -95,15 +90,7 @@ const AddPersonDrawerInner: React.FC<AddPersonDrawerProps> = ({
     }
     if (!form.name || form.name.trim() === '') return 'Name is required';
     if (!form.gender) return 'Gender is required';
-    if (form.birthDate && form.deathDate) {
-      const b = new Date(form.birthDate);
-      const d = new Date(form.deathDate);
-      if (Number.isNaN(b.getTime()) || Number.isNaN(d.getTime())) {
-        return 'Invalid date format';
-      }
-      if (d < b) return 'Death date must be after or equal to birth date';
-    }
-    return null;
+    return validateLifeDates(form.birthDate, form.deathDate);
   };
 
   const handleSave = async () => {
@@ -1,6 +1,7 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { GenealogyCommandBus } from '../commands/genealogyCommands';
-import type { RenderNode } from '../api';
+import type { ParentChildType, RenderNode } from '../api';
+import { PARENT_CHILD_TYPE_OPTIONS } from '../utils/parentChildTypes';
 
 type AddRelationshipDrawerProps = {
   treeId: string;
@@ -23,6 +24,7 @@ const AddRelationshipDrawerInner: React.FC<AddRelationshipDrawerProps> = ({
 }) => {
   const [parentId, setParentId] = useState<string>('');
   const [childId, setChildId] = useState<string>('');
+  const [type, setType] = useState<ParentChildType>('BIOLOGICAL');
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -30,6 +32,7 @@ const AddRelationshipDrawerInner: React.FC<AddRelationshipDrawerProps> = ({
     if (open) {
       setParentId(prefill?.parentId || '');
       setChildId(prefill?.childId || '');
+      setType('BIOLOGICAL');
       setError(null);
     } else {
       // reset when closed
@@ -61,6 +64,7 @@ const AddRelationshipDrawerInner: React.FC<AddRelationshipDrawerProps> = ({
         treeId,
         parentId: parentId.trim(),
         childId: childId.trim(),
+        type,
       });
       
       if (!result.success) {
@@ -138,6 +142,21 @@ const AddRelationshipDrawerInner: React.FC<AddRelationshipDrawerProps> = ({
               </datalist>
 
               <div className="form-text">Typeahead: choose by ID; labels show names.</div>
+
+              <div className="mb-3 mt-3">
+                <label htmlFor="parentChildType" className="form-label">Relationship</label>
+                <select
+                  id="parentChildType"
+                  className="form-select"
+                  value={type}
+                  onChange={(e) => setType(e.target.value as ParentChildType)}
+                >
+                  {PARENT_CHILD_TYPE_OPTIONS.map((opt) => (
+                    <option key={opt.value} value={opt.value}>{opt.label}</option>
+                  ))}
+                </select>
+                <div className="form-text">A child can have two biological and two adoptive parents, and any number of step, foster or guardian parents.</div>
+              </div>
             </div>
 
             <div className="p-3 bg-light border-top d-flex justify-content-end gap-2">
@@ -0,0 +1,230 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { getInbreeding, getRelatedness, type ConsanguinityPath, type Inbreeding, type Relatedness } from '../api';
+import { coefficientFraction, coefficientPercent, pathText } from '../utils/consanguinity';
+
+type ConsanguinityPanelProps = {
+  open: boolean;
+  treeId: string;
+  nodes: ReadonlyArray<{ id: string; displayName: string }>;
+  initialPersonId?: string | null;
+  onClose: () => void;
+  onSelectPerson: (personId: string) => void;
+};
+
+type Mode = 'relationship' | 'inbreeding';
+
+const Coefficient: React.FC<{ label: string; value: number }> = ({ label, value }) => {
+  const fraction = coefficientFraction(value);
+  return (
+    <div>
+      <div className="small text-muted">{label}</div>
+      <div className="fs-4 fw-semibold">
+        {coefficientPercent(value)}
+        {fraction && value !== 0 && <span className="fs-6 text-muted ms-2">({fraction})</span>}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Consanguinity: Wright's coefficient of relationship between two persons
+ * or the inbreeding coefficient of one, with the paths through common
+ * ancestors that make it up.
+ */
+export const ConsanguinityPanel: React.FC<ConsanguinityPanelProps> = ({
+  open,
+  treeId,
+  nodes,
+  initialPersonId,
+  onClose,
+  onSelectPerson,
+}) => {
+  const [mode, setMode] = useState<Mode>('relationship');
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [relatedness, setRelatedness] = useState<Relatedness | null>(null);
+  const [inbreeding, setInbreeding] = useState<Inbreeding | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const people = useMemo(() => [...nodes].sort((a, b) => a.displayName.localeCompare(b.displayName)), [nodes]);
+  const nameOf = (id: string) => nodes.find((n) => n.id === id)?.displayName ?? id;
+
+  useEffect(() => {
+    if (open) setFromId(initialPersonId ?? '');
+  }, [open, initialPersonId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRelatedness(null);
+    setInbreeding(null);
+    setError(null);
+    if (!open || !fromId || (mode === 'relationship' && (!toId || toId === fromId))) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    const request =
+      mode === 'relationship'
+        ? getRelatedness(treeId, fromId, toId).then((res) => {
+            if (!cancelled) setRelatedness(res);
+          })
+        : getInbreeding(treeId, fromId).then((res) => {
+            if (!cancelled) setInbreeding(res);
+          });
+    request
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to compute the coefficient');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, treeId, mode, fromId, toId]);
+
+  const picker = (id: string, label: string, value: string, onChange: (personId: string) => void) => (
+    <div className="flex-grow-1">
+      <label htmlFor={id} className="form-label small text-muted">
+        {label}
+      </label>
+      <select id={id} className="form-select" value={value} onChange={(e) => onChange(e.target.value)}>
+        <option value="">Choose a person…</option>
+        {people.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.displayName}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  const pathList = (paths: ConsanguinityPath[], truncated: boolean, share: string) => (
+    <>
+      <h6 className="text-muted mt-3">Paths through common ancestors</h6>
+      <p className="small text-muted">
+        Each path runs up from one person to an ancestor they share and back down to the other. A path through n
+        persons adds ½ⁿ, more when that ancestor is inbred; its {share} is shown on the right.
+      </p>
+      <ul className="list-group list-group-flush">
+        {paths.map((path) => (
+          <li
+            key={path.path.map((step) => step.personId).join('|')}
+            className="list-group-item d-flex justify-content-between align-items-start gap-2 px-0"
+          >
+            <div>
+              <button
+                type="button"
+                className="btn btn-link btn-sm p-0"
+                onClick={() => onSelectPerson(path.ancestorId)}
+              >
+                {path.path.find((step) => step.personId === path.ancestorId)?.name ?? path.ancestorId}
+              </button>
+              <div className="small text-muted">{pathText(path)}</div>
+              {path.ancestorInbreeding > 0 && (
+                <div className="small text-muted">
+                  Inbred ancestor: F = {coefficientPercent(path.ancestorInbreeding)}
+                </div>
+              )}
+            </div>
+            <span className="badge text-bg-light">{coefficientPercent(path.contribution)}</span>
+          </li>
+        ))}
+      </ul>
+      {truncated && (
+        <div className="small text-muted mt-2">
+          Only the {paths.length} largest paths are listed; the coefficient counts them all.
+        </div>
+      )}
+    </>
+  );
+
+  return (
+    <>
+      <div
+        className={`offcanvas offcanvas-end ${open ? 'show' : ''}`}
+        tabIndex={-1}
+        id="consanguinityOffcanvas"
+        aria-labelledby="consanguinityOffcanvasLabel"
+        style={{ visibility: open ? 'visible' : 'hidden', maxWidth: '480px', width: '100%' }}
+      >
+        <div className="offcanvas-header border-bottom">
+          <h5 className="offcanvas-title" id="consanguinityOffcanvasLabel">
+            Consanguinity
+          </h5>
+          <button type="button" className="btn-close text-reset" onClick={onClose} aria-label="Close"></button>
+        </div>
+        <div className="offcanvas-body">
+          <div className="btn-group btn-group-sm mb-3" role="group" aria-label="Coefficient">
+            <button
+              type="button"
+              className={`btn ${mode === 'relationship' ? 'btn-primary' : 'btn-outline-primary'}`}
+              onClick={() => setMode('relationship')}
+            >
+              Between two persons
+            </button>
+            <button
+              type="button"
+              className={`btn ${mode === 'inbreeding' ? 'btn-primary' : 'btn-outline-primary'}`}
+              onClick={() => setMode('inbreeding')}
+            >
+              Inbreeding of a person
+            </button>
+          </div>
+
+          <div className="d-flex align-items-end gap-2 mb-3">
+            {picker('consanguinityFrom', 'Person', fromId, setFromId)}
+            {mode === 'relationship' && picker('consanguinityTo', 'Relative', toId, setToId)}
+          </div>
+
+          {mode === 'relationship' && fromId && fromId === toId && (
+            <div className="small text-muted">Choose two different persons.</div>
+          )}
+          {loading && <div className="text-muted small">Computing…</div>}
+          {error && <div className="alert alert-danger">{error}</div>}
+
+          {relatedness && (
+            <div className="card">
+              <div className="card-body">
+                <Coefficient label="Coefficient of relationship (r)" value={relatedness.relationship} />
+                <div className="small text-muted mt-1">
+                  Kinship φ {coefficientPercent(relatedness.kinship)} · inbreeding of {nameOf(fromId)}{' '}
+                  {coefficientPercent(relatedness.inbreeding[0])}, of {nameOf(toId)}{' '}
+                  {coefficientPercent(relatedness.inbreeding[1])}
+                </div>
+                {relatedness.paths.length === 0 ? (
+                  <div className="small text-muted mt-3">No common biological ancestor is recorded.</div>
+                ) : (
+                  pathList(relatedness.paths, relatedness.truncated, 'share of r')
+                )}
+              </div>
+            </div>
+          )}
+
+          {inbreeding && (
+            <div className="card">
+              <div className="card-body">
+                <Coefficient label="Inbreeding coefficient (F)" value={inbreeding.inbreeding} />
+                {inbreeding.parentIds.length < 2 ? (
+                  <div className="small text-muted mt-1">Both biological parents must be recorded.</div>
+                ) : (
+                  <div className="small text-muted mt-1">
+                    The kinship of {inbreeding.parentIds.map(nameOf).join(' and ')}
+                  </div>
+                )}
+                {inbreeding.parentIds.length === 2 &&
+                  (inbreeding.paths.length === 0 ? (
+                    <div className="small text-muted mt-3">The parents share no recorded biological ancestor.</div>
+                  ) : (
+                    pathList(inbreeding.paths, inbreeding.truncated, 'share of F')
+                  ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      {open && <div className="offcanvas-backdrop fade show" onClick={onClose}></div>}
+    </>
+  );
+};
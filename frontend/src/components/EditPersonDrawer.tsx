@@ -3,6 +3,7 @@ import { PersonForm, validatePersonForm } from './PersonForm';
 import { getPersonDetails, findDuplicates, mergePerson, type PersonDetails, type CreatePersonPayload, type RenderEdgeData } from '../api';
 import { GenealogyCommandBus } from '../commands/genealogyCommands';
 import { MergeDialog } from './MergeDialog';
+import { toDateInputText } from '../utils/genealogicalDate';
 
 // These are no longer directly called; use GenealogyCommandBus instead
 // Previously imported: updatePerson, deletePerson
@@ -54,9 +55,9 @@ const EditPersonDrawerInner: React.FC<EditPersonDrawerProps> = ({ treeId, person
           personId: p.personId,
           name: p.name || '',
           gender: (p.gender as any) || 'UNKNOWN',
-          birthDate: p.birthDate ? new Date(p.birthDate).toISOString().slice(0, 10) : null,
+          birthDate: p.birthDate ? toDateInputText(p.birthDate) : null,
           birthPlace: p.birthPlace || null,
-          deathDate: p.deathDate ? new Date(p.deathDate).toISOString().slice(0, 10) : null,
+          deathDate: p.deathDate ? toDateInputText(p.deathDate) : null,
         });
       })
       .catch((e) => {
@@ -25,6 +25,11 @@ function defaultFormatDate(date?: string | Date | null): string | null {
   return d.toLocaleDateString('en-US', { year: 'numeric' });
 }
 
+// Element ids must be unique in the document and free of spaces and quotes
+function photoClipId(id: string): string {
+  return `portrait-clip-${id.replace(/[^A-Za-z0-9_-]/g, '_')}`;
+}
+
 export function renderGenealogyNode(
   selection: d3.Selection<SVGGElement, d3.HierarchyPointNode<GenealogyNodeDatum>, SVGGElement, unknown>,
   options: GenealogyNodeOptions = {}
@@ -71,6 +76,28 @@ export function renderGenealogyNode(
     .attr('fill', '#fff')
     .attr('stroke', 'var(--bs-secondary)');
 
+  // Portrait, cropped to the circle
+  const withPhoto = photoGroup.filter((d) => !!d.data.photoUrl);
+  withPhoto
+    .append('clipPath')
+    .attr('id', (d) => photoClipId(d.data.id))
+    .append('circle')
+    .attr('r', 10);
+  withPhoto
+    .append('image')
+    .attr('href', (d) => d.data.photoUrl ?? '')
+    .attr('x', -10)
+    .attr('y', -10)
+    .attr('width', 20)
+    .attr('height', 20)
+    .attr('preserveAspectRatio', 'xMidYMid slice')
+    .attr('clip-path', (d) => `url(#${photoClipId(d.data.id)})`);
+  withPhoto
+    .append('circle')
+    .attr('r', 10)
+    .attr('fill', 'none')
+    .attr('stroke', 'var(--bs-secondary)');
+
   // Name line
   node
     .append('text')
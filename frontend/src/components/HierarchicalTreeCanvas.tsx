@@ -12,6 +12,7 @@
  * - Expand/collapse subtrees (stores hidden children in _children)
  * - Pan and zoom
  * - Selection highlighting with auto-centering
+ * - Path highlighting, framed to fit
  * - Generation-aligned layout
  * 
  * @module HierarchicalTreeCanvas
@@ -20,6 +21,8 @@
 import React, { useEffect, useRef } from 'react';
 import * as d3 from 'd3';
 import type { GenealogyHierarchyNode } from '../utils/genealogyHierarchy';
+import { parentChildDashArray } from '../utils/parentChildTypes';
+import { frameTransform, pathPairKey, pathPairs } from '../utils/kinPath';
 
 // NOTE: HierarchyViewModel type imported from adapter, not raw DTO
 import type { HierarchyViewModel } from '../adapters/renderDataAdapter';
@@ -46,6 +49,9 @@ export interface HierarchicalTreeCanvasProps {
   /** Callback when user clicks a person node */
   onSelectPerson: (personId: string) => void;
   
+  /** Persons on a highlighted path, in order; the view is framed on them */
+  pathPersonIds?: readonly string[];
+  
   /** Layout configuration */
   layout?: {
     nodeSpacingX?: number;
@@ -65,6 +71,7 @@ export interface HierarchicalTreeCanvasProps {
     rootColor?: string;
     edgeColor?: string;
     spouseEdgeColor?: string;
+    pathColor?: string;
   };
   
   /** Canvas dimensions */
@@ -155,8 +162,11 @@ const DEFAULT_THEME = {
   rootColor: '#10b981',
   edgeColor: '#94a3b8',
   spouseEdgeColor: '#f59e0b', // Distinct color for spouse relationships
+  pathColor: '#0d6efd',
 };
 
+const NO_PATH: readonly string[] = [];
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -166,6 +176,7 @@ export const HierarchicalTreeCanvas: React.FC<HierarchicalTreeCanvasProps> = ({
   orientation = 'vertical',
   selectedPersonId,
   onSelectPerson,
+  pathPersonIds = NO_PATH,
   layout: layoutConfig,
   theme: themeConfig,
   width: containerWidth,
@@ -278,13 +289,51 @@ export const HierarchicalTreeCanvas: React.FC<HierarchicalTreeCanvasProps> = ({
       selectedPersonId,
       onSelectPerson,
       onToggleCollapse: toggleCollapse,
+      pathPersonIds,
       rootPersonId: hierarchy.isSyntheticRoot ? null : hierarchy.root.personId,
       orientation,
       spouseNodes,
       spouseLinks,
     });
     
-  }, [hierarchy, selectedPersonId, layout, theme, orientation]);
+  }, [hierarchy, selectedPersonId, pathPersonIds, layout, theme, orientation]);
+  
+  // ============================================================================
+  // FRAME A HIGHLIGHTED PATH
+  // ============================================================================
+  
+  useEffect(() => {
+    if (pathPersonIds.length === 0 || !svgRef.current || !rootNode.current || !zoomBehavior.current) return;
+    
+    // Persons on the path, in the hierarchy or drawn beside a partner
+    const isVertical = orientation === 'vertical';
+    const onPath = new Set(pathPersonIds);
+    const points: { x: number; y: number }[] = [];
+    rootNode.current.each((node: TreeNode) => {
+      if (onPath.has(node.data.personId)) points.push(node);
+    });
+    if (layout.showSpouseEdges) {
+      const { spouseNodes } = calculateSpousePositions(rootNode.current, hierarchy.nodeMap, layout.spouseOffset, isVertical);
+      points.push(...spouseNodes.filter((n) => onPath.has(n.personId)));
+    }
+    const frame = frameTransform(
+      points.map((p) => ({ x: isVertical ? p.x : p.y, y: isVertical ? p.y : p.x })),
+      width,
+      height,
+      { maxScale: 1.5 }
+    );
+    if (!frame) return;
+    
+    if (rafIdRef.current != null) {
+      cancelAnimationFrame(rafIdRef.current);
+      rafIdRef.current = null;
+    }
+    d3.select(svgRef.current)
+      .transition()
+      .duration(Math.max(150, Math.min(600, layout.transitionDuration)))
+      .call(zoomBehavior.current.transform, d3.zoomIdentity.translate(frame.x, frame.y).scale(frame.k));
+    
+  }, [pathPersonIds, hierarchy, orientation, width, height, layout.showSpouseEdges, layout.spouseOffset, layout.transitionDuration]);
   
   // ============================================================================
   // EXPAND/COLLAPSE HANDLING
@@ -326,6 +375,7 @@ export const HierarchicalTreeCanvas: React.FC<HierarchicalTreeCanvasProps> = ({
       selectedPersonId,
       onSelectPerson,
       onToggleCollapse: toggleCollapse,
+      pathPersonIds,
       rootPersonId: hierarchy.isSyntheticRoot ? null : hierarchy.root.personId,
       orientation,
       spouseNodes,
@@ -519,6 +569,7 @@ interface RenderOptions {
   selectedPersonId: string | null;
   onSelectPerson: (personId: string) => void;
   onToggleCollapse: (node: TreeNode) => void;
+  pathPersonIds: readonly string[];
   rootPersonId: string | null;
   orientation: 'vertical' | 'horizontal';
   spouseNodes: SpouseNode[];
@@ -536,7 +587,10 @@ function renderTree(
   root: TreeNode,
   options: RenderOptions
 ) {
-  const { layout, theme, selectedPersonId, onSelectPerson, onToggleCollapse, rootPersonId, spouseNodes, spouseLinks, orientation } = options;
+  const { layout, theme, selectedPersonId, onSelectPerson, onToggleCollapse, pathPersonIds, rootPersonId, spouseNodes, spouseLinks, orientation } = options;
+  const onPath = new Set(pathPersonIds);
+  const pathLinks = pathPairs(pathPersonIds);
+  const isPathLink = (a: string, b: string) => pathLinks.has(pathPairKey(a, b));
   const duration = layout.transitionDuration;
   const isVertical = orientation === 'vertical';
   const PX = (x: number, y: number) => (isVertical ? x : y);
@@ -556,6 +610,10 @@ function renderTree(
     linksGroup = g.append('g').attr('class', 'links');
   }
   
+  // Adoptive, step, foster and guardian links are dashed; biological links stay solid
+  const linkDash = (d: d3.HierarchyLink<GenealogyHierarchyNode>) =>
+    parentChildDashArray(d.target.data.parentSubtypes?.[d.source.data.personId]);
+  
   // Bind data to links (using source+target IDs as key)
   const linkSelection = linksGroup
     .selectAll<SVGPathElement, d3.HierarchyPointLink<GenealogyHierarchyNode>>('path.link')
@@ -569,6 +627,7 @@ function renderTree(
     .attr('fill', 'none')
     .attr('stroke', theme.edgeColor)
     .attr('stroke-width', 2)
+    .attr('stroke-dasharray', linkDash)
     .attr('d', (d: any) => {
       // Start from parent position (for smooth enter transition)
       const source = d.source as TreeNode;
@@ -580,6 +639,8 @@ function renderTree(
   // UPDATE: Update existing links
   const linkUpdate = linkEnter.merge(linkSelection);
   
+  linkUpdate.attr('stroke-dasharray', linkDash);
+  
   linkUpdate
     .transition()
     .duration(duration)
@@ -594,9 +655,12 @@ function renderTree(
       return diagonalPath(sx, sy, tx, ty, isVertical);
     })
     .attr('stroke', d => {
-      // Highlight links connected to selected node
+      // Highlight links on the path, then links connected to selected node
       const source = d.source as TreeNode;
       const target = d.target as TreeNode;
+      if (isPathLink(source.data.personId, target.data.personId)) {
+        return theme.pathColor;
+      }
       if (
         selectedPersonId &&
         (source.data.personId === selectedPersonId || target.data.personId === selectedPersonId)
@@ -606,9 +670,12 @@ function renderTree(
       return theme.edgeColor;
     })
     .attr('stroke-width', d => {
-      // Thicker stroke for selected links
+      // Thicker stroke for path and selected links
       const source = d.source as TreeNode;
       const target = d.target as TreeNode;
+      if (isPathLink(source.data.personId, target.data.personId)) {
+        return 4;
+      }
       if (
         selectedPersonId &&
         (source.data.personId === selectedPersonId || target.data.personId === selectedPersonId)
@@ -731,8 +798,11 @@ function renderTree(
     .duration(duration)
     .attr('r', d => (d.data.personId === selectedPersonId ? layout.nodeRadius + 3 : layout.nodeRadius))
     .attr('fill', d => (d.data.personId === selectedPersonId ? theme.selectedColor : getNodeColor(d.data, theme)))
-    .attr('stroke', d => (rootPersonId && d.data.personId === rootPersonId ? theme.rootColor : '#fff'))
-    .attr('stroke-width', d => (d.data.personId === selectedPersonId ? 3 : 2));
+    .attr('stroke', d => {
+      if (onPath.has(d.data.personId)) return theme.pathColor;
+      return rootPersonId && d.data.personId === rootPersonId ? theme.rootColor : '#fff';
+    })
+    .attr('stroke-width', d => (d.data.personId === selectedPersonId || onPath.has(d.data.personId) ? 3 : 2));
   
   // Update expand/collapse button icon
   nodeUpdate
@@ -787,7 +857,9 @@ function renderTree(
       .attr('y1', d => PY(d.x1, d.y1))
       .attr('x2', d => PX(d.x2, d.y2))
       .attr('y2', d => PY(d.x2, d.y2))
-      .style('opacity', 0.7);
+      .attr('stroke', d => (isPathLink(d.sourceId, d.targetId) ? theme.pathColor : theme.spouseEdgeColor))
+      .attr('stroke-width', d => (isPathLink(d.sourceId, d.targetId) ? 4 : 2))
+      .style('opacity', d => (isPathLink(d.sourceId, d.targetId) ? 1 : 0.7));
     
     // EXIT: Remove old spouse links
     spouseLinkSelection
@@ -869,7 +941,8 @@ function renderTree(
       .duration(duration)
       .attr('r', d => (d.personId === selectedPersonId ? layout.nodeRadius + 3 : layout.nodeRadius))
       .attr('fill', d => (d.personId === selectedPersonId ? theme.selectedColor : getNodeColor(d.data, theme)))
-      .attr('stroke-width', d => (d.personId === selectedPersonId ? 3 : 2));
+      .attr('stroke', d => (onPath.has(d.personId) ? theme.pathColor : '#fff'))
+      .attr('stroke-width', d => (d.personId === selectedPersonId || onPath.has(d.personId) ? 3 : 2));
     
     // EXIT: Remove old spouse nodes
     spouseNodeSelection
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { formatDate, getInheritance, type Inheritance } from '../api';
+import {
+  baseParts,
+  fractionPercent,
+  fractionText,
+  heirRoleLabel,
+  inheritanceNotes,
+  shareRuleText,
+} from '../utils/faraid';
+
+/**
+ * Farāʾiḍ shares of a deceased person's estate as a printable sheet: each
+ * heir, what they are to the deceased, the rule applied and their share,
+ * heirs who inherit first and those excluded after.
+ */
+export const InheritancePage: React.FC = () => {
+  const { treeId, personId } = useParams<{ treeId: string; personId: string }>();
+  const [inheritance, setInheritance] = useState<Inheritance | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!treeId || !personId) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getInheritance(treeId, personId)
+      .then((res) => {
+        if (!cancelled) setInheritance(res);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to calculate the shares');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [treeId, personId]);
+
+  const heirs = inheritance?.heirs.filter((heir) => heir.rule !== 'EXCLUDED') ?? [];
+  const excluded = inheritance?.heirs.filter((heir) => heir.rule === 'EXCLUDED') ?? [];
+  const notes = inheritance ? inheritanceNotes(inheritance) : [];
+
+  return (
+    <div className="container" style={{ maxWidth: '960px' }}>
+      <div className="d-flex justify-content-between align-items-center mb-3 d-print-none">
+        <Link to={`/trees/${treeId}`} className="btn btn-link px-0">
+          ← Back to tree
+        </Link>
+        <button
+          type="button"
+          className="btn btn-outline-primary"
+          onClick={() => window.print()}
+          disabled={!inheritance}
+        >
+          🖨 Print
+        </button>
+      </div>
+
+      {loading && <div className="text-muted">Calculating…</div>}
+      {error && <div className="alert alert-danger">{error}</div>}
+
+      {inheritance && (
+        <article>
+          <h1 className="h3 mb-1">Inheritance shares (farāʾiḍ)</h1>
+          <p className="text-muted mb-4">
+            Estate of <strong>{inheritance.deceasedName}</strong>, died{' '}
+            {formatDate(inheritance.deathDate) ?? inheritance.deathDate}
+          </p>
+
+          {heirs.length === 0 ? (
+            <p>No surviving heir is recorded in the tree.</p>
+          ) : (
+            <table className="table align-middle">
+              <thead>
+                <tr>
+                  <th scope="col">Heir</th>
+                  <th scope="col">Relation</th>
+                  <th scope="col">Rule applied</th>
+                  <th scope="col" className="text-end">
+                    Share
+                  </th>
+                  <th scope="col" className="text-end">
+                    Parts of {inheritance.base}
+                  </th>
+                  <th scope="col" className="text-end">
+                    %
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {heirs.map((heir) => (
+                  <tr key={heir.personId}>
+                    <td className="fw-semibold">{heir.name}</td>
+                    <td>{heirRoleLabel(heir)}</td>
+                    <td className="small">{shareRuleText(heir)}</td>
+                    <td className="text-end fw-semibold">{fractionText(heir.share)}</td>
+                    <td className="text-end">{baseParts(heir.share, inheritance.base)}</td>
+                    <td className="text-end text-muted">{fractionPercent(heir.share)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {notes.map((note) => (
+            <p key={note} className="small">
+              {note}
+            </p>
+          ))}
+
+          {excluded.length > 0 && (
+            <>
+              <h2 className="h6 text-muted mt-4">Excluded (maḥjūb)</h2>
+              <ul className="list-unstyled small">
+                {excluded.map((heir) => (
+                  <li key={heir.personId}>
+                    {heir.name}, {heirRoleLabel(heir).toLowerCase()}: {shareRuleText(heir).toLowerCase()}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          <p className="small text-muted border-top pt-3 mt-4">
+            Calculated from the relatives, marriages and death dates recorded in this tree under the Sunni rules where
+            the schools agree. Bequests, debts and funeral costs come out of the estate first; confirm the result with a
+            qualified scholar or court before dividing an estate.
+          </p>
+        </article>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { getKinPath, type KinPath } from '../api';
+import { PATH_STEP_ICONS } from '../utils/kinship';
+
+type KinPathPanelProps = {
+  treeId: string;
+  nodes: ReadonlyArray<{ id: string; displayName: string }>;
+  selectedPersonId: string | null;
+  onPathChange: (path: KinPath | null) => void;
+  onClose: () => void;
+};
+
+/**
+ * Pick two persons and see the shortest chain of parent, child and spouse
+ * edges between them; the canvas highlights and frames it.
+ */
+export const KinPathPanel: React.FC<KinPathPanelProps> = ({
+  treeId,
+  nodes,
+  selectedPersonId,
+  onPathChange,
+  onClose,
+}) => {
+  const [fromId, setFromId] = useState(selectedPersonId ?? '');
+  const [toId, setToId] = useState('');
+  const [excludeSpouses, setExcludeSpouses] = useState(false);
+  const [path, setPath] = useState<KinPath | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const people = useMemo(() => [...nodes].sort((a, b) => a.displayName.localeCompare(b.displayName)), [nodes]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPath(null);
+    setError(null);
+    if (!fromId || !toId) return;
+    getKinPath(treeId, fromId, toId, { excludeSpouses })
+      .then((res) => {
+        if (!cancelled) setPath(res);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to find a path');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [treeId, fromId, toId, excludeSpouses]);
+
+  useEffect(() => {
+    onPathChange(path?.found ? path : null);
+  }, [path, onPathChange]);
+
+  const picker = (id: string, label: string, value: string, onChange: (personId: string) => void) => (
+    <div className="input-group input-group-sm mb-2">
+      <label htmlFor={id} className="input-group-text" style={{ width: '3.5em' }}>
+        {label}
+      </label>
+      <select id={id} className="form-select" value={value} onChange={(e) => onChange(e.target.value)}>
+        <option value="">Choose a person…</option>
+        {people.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.displayName}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        className="btn btn-outline-secondary"
+        disabled={!selectedPersonId}
+        onClick={() => selectedPersonId && onChange(selectedPersonId)}
+        title="Use the selected person"
+        aria-label={`Use the selected person as ${label.toLowerCase()}`}
+      >
+        ◎
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="card shadow-sm" style={{ width: '320px' }}>
+      <div className="card-header d-flex align-items-center justify-content-between py-2">
+        <span className="fw-semibold small">Path between two persons</span>
+        <button
+          type="button"
+          className="btn-close btn-sm"
+          onClick={() => {
+            onPathChange(null);
+            onClose();
+          }}
+          aria-label="Close"
+        ></button>
+      </div>
+      <div className="card-body py-2">
+        {picker('kinPathFrom', 'From', fromId, setFromId)}
+        {picker('kinPathTo', 'To', toId, setToId)}
+        <div className="form-check form-switch small mb-2">
+          <input
+            id="kinPathExcludeSpouses"
+            className="form-check-input"
+            type="checkbox"
+            checked={excludeSpouses}
+            onChange={(e) => setExcludeSpouses(e.target.checked)}
+          />
+          <label className="form-check-label" htmlFor="kinPathExcludeSpouses">
+            By descent only (no spouse steps)
+          </label>
+        </div>
+
+        {error && <div className="alert alert-danger py-1 small mb-0">{error}</div>}
+        {path && !path.found && <div className="small text-muted">These two persons are not connected.</div>}
+        {path?.found && (
+          <div className="small">
+            <div className="text-muted mb-1">
+              {path.hops === 1 ? '1 step' : `${path.hops} steps`}
+            </div>
+            <div>
+              {path.path.map((step) => (
+                <span key={step.personId}>
+                  {step.relation && <span className="text-muted mx-1">{PATH_STEP_ICONS[step.relation]}</span>}
+                  {step.name}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -4,7 +4,7 @@ import { PropsWithChildren } from 'react';
 export function Layout({ children }: PropsWithChildren) {
   return (
     <div className="vh-100 d-flex flex-column">
-      <header className="navbar navbar-expand-lg navbar-light bg-white border-bottom shadow-sm">
+      <header className="navbar navbar-expand-lg navbar-light bg-white border-bottom shadow-sm d-print-none">
         <div className="container-fluid">
           <Link to="/" className="navbar-brand d-flex align-items-center">
             <svg
@@ -0,0 +1,162 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { getMahram, type Mahram } from '../api';
+import { PATH_STEP_ICONS, PATH_STEP_LABELS } from '../utils/kinship';
+import { mahramConditionNote, mahramSentence } from '../utils/mahram';
+
+type MahramCheckerProps = {
+  open: boolean;
+  treeId: string;
+  nodes: ReadonlyArray<{ id: string; displayName: string }>;
+  initialFromId?: string | null;
+  onClose: () => void;
+  onSelectPerson: (personId: string) => void;
+};
+
+/**
+ * "Is X mahram to Y?": pick two persons, see whether they are mahram by
+ * blood, milk kinship or marriage, the rule and the path behind it.
+ */
+export const MahramChecker: React.FC<MahramCheckerProps> = ({
+  open,
+  treeId,
+  nodes,
+  initialFromId,
+  onClose,
+  onSelectPerson,
+}) => {
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [mahram, setMahram] = useState<Mahram | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const people = useMemo(() => [...nodes].sort((a, b) => a.displayName.localeCompare(b.displayName)), [nodes]);
+  const nameOf = (id: string) => nodes.find((n) => n.id === id)?.displayName ?? id;
+
+  useEffect(() => {
+    if (open) setFromId(initialFromId ?? '');
+  }, [open, initialFromId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setMahram(null);
+    setError(null);
+    if (!open || !fromId || !toId || fromId === toId) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    getMahram(treeId, fromId, toId)
+      .then((res) => {
+        if (!cancelled) setMahram(res);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to check');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, treeId, fromId, toId]);
+
+  const swap = () => {
+    setFromId(toId);
+    setToId(fromId);
+  };
+
+  const note = mahram ? mahramConditionNote(mahram) : null;
+
+  const picker = (id: string, label: string, value: string, onChange: (personId: string) => void) => (
+    <div className="flex-grow-1">
+      <label htmlFor={id} className="form-label small text-muted">
+        {label}
+      </label>
+      <select id={id} className="form-select" value={value} onChange={(e) => onChange(e.target.value)}>
+        <option value="">Choose a person…</option>
+        {people.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.displayName}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <>
+      <div
+        className={`offcanvas offcanvas-end ${open ? 'show' : ''}`}
+        tabIndex={-1}
+        id="mahramCheckerOffcanvas"
+        aria-labelledby="mahramCheckerOffcanvasLabel"
+        style={{ visibility: open ? 'visible' : 'hidden', maxWidth: '480px', width: '100%' }}
+      >
+        <div className="offcanvas-header border-bottom">
+          <h5 className="offcanvas-title" id="mahramCheckerOffcanvasLabel">
+            Is this person mahram?
+          </h5>
+          <button type="button" className="btn-close text-reset" onClick={onClose} aria-label="Close"></button>
+        </div>
+        <div className="offcanvas-body">
+          <div className="d-flex align-items-end gap-2 mb-3">
+            {picker('mahramFrom', 'Person', fromId, setFromId)}
+            <button
+              type="button"
+              className="btn btn-outline-secondary"
+              onClick={swap}
+              title="Swap the two persons"
+              aria-label="Swap the two persons"
+            >
+              ⇄
+            </button>
+            {picker('mahramTo', 'Other person', toId, setToId)}
+          </div>
+
+          {fromId && fromId === toId && <div className="small text-muted">Choose two different persons.</div>}
+          {loading && <div className="text-muted small">Checking…</div>}
+          {error && <div className="alert alert-danger">{error}</div>}
+
+          {mahram && (
+            <div className={`card border-${mahram.mahram ? 'success' : 'secondary'}`}>
+              <div className="card-body">
+                <span className={`badge mb-2 ${mahram.mahram ? 'text-bg-success' : 'text-bg-secondary'}`}>
+                  {mahram.mahram ? 'Mahram' : 'Not mahram'}
+                </span>
+                <div className="fw-semibold mb-1">{mahramSentence(mahram, nameOf(fromId), nameOf(toId))}</div>
+                {note && <div className="small text-warning-emphasis">{note}</div>}
+
+                {mahram.path.length > 1 && (
+                  <ol className="list-unstyled mt-3 mb-0">
+                    {mahram.path.map((step, i) => (
+                      <li key={step.personId} className="d-flex align-items-center gap-2 py-1">
+                        <span className="text-muted" style={{ width: '1.5em', textAlign: 'center' }}>
+                          {step.relation ? PATH_STEP_ICONS[step.relation] : '•'}
+                        </span>
+                        <button
+                          type="button"
+                          className="btn btn-link btn-sm p-0"
+                          onClick={() => onSelectPerson(step.personId)}
+                        >
+                          {step.name}
+                        </button>
+                        {step.relation && (
+                          <span className="small text-muted">
+                            {mahram.path[i - 1].name}'s {step.type === 'MILK' ? 'milk ' : ''}
+                            {PATH_STEP_LABELS[step.relation]}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      {open && <div className="offcanvas-backdrop fade show" onClick={onClose}></div>}
+    </>
+  );
+};
@@ -0,0 +1,353 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { feature } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import land110m from 'world-atlas/land-110m.json';
+import type { TreeViewModel } from '../adapters/renderDataAdapter';
+import type { Place } from '../api';
+import {
+  buildMapData,
+  filterMapData,
+  mapYearRange,
+  type MapArc,
+  type MapPerson,
+  type MapPoint,
+  type UnplacedPlace,
+} from '../utils/mapData';
+import type { Coordinates } from '../utils/placeCoordinates';
+
+type MapViewProps = {
+  data: TreeViewModel;
+  selectedPersonId: string | null;
+  onNodeClick: (personId: string) => void;
+  // Recorded births, burials and events, when loaded
+  persons?: ReadonlyMap<string, MapPerson>;
+  places?: readonly Place[];
+  // Saves coordinates for a place the map cannot place; omitted for readers
+  onPinPlace?: (place: UnplacedPlace, coordinates: Coordinates) => Promise<void>;
+};
+
+// Drawing size; the SVG scales to its container
+const WIDTH = 960;
+const HEIGHT = 600;
+
+const POINT_COLORS: Record<MapPoint['kind'], string> = {
+  birth: '#2ca02c',
+  death: '#495057',
+  event: '#1f77b4',
+};
+
+const ARC_COLORS: Record<MapArc['kind'], string> = {
+  life: '#6f42c1',
+  generation: '#fd7e14',
+};
+
+// Bundled coastlines, so the map needs no tile server
+const topology = land110m as unknown as Topology<{ land: GeometryCollection }>;
+const LAND = feature(topology, topology.objects.land);
+const GRATICULE = d3.geoGraticule10();
+
+/** Fits the projection to the family's places, with room around them; the world when there are none */
+function fitProjection(points: readonly Coordinates[]): d3.GeoProjection {
+  const projection = d3.geoNaturalEarth1();
+  const extent: [[number, number], [number, number]] = [
+    [20, 20],
+    [WIDTH - 20, HEIGHT - 20],
+  ];
+  if (points.length === 0) return projection.fitExtent(extent, { type: 'Sphere' });
+  const lons = points.map((p) => p.longitude);
+  const lats = points.map((p) => p.latitude);
+  const pad = (min: number, max: number) => Math.max(3, (max - min) * 0.2);
+  const lonPad = pad(Math.min(...lons), Math.max(...lons));
+  const latPad = pad(Math.min(...lats), Math.max(...lats));
+  const corners: GeoJSON.MultiPoint = {
+    type: 'MultiPoint',
+    coordinates: [
+      [Math.max(-180, Math.min(...lons) - lonPad), Math.max(-85, Math.min(...lats) - latPad)],
+      [Math.min(180, Math.max(...lons) + lonPad), Math.min(85, Math.max(...lats) + latPad)],
+    ],
+  };
+  return projection.fitExtent(extent, corners);
+}
+
+/** A gentle curve from one place to another, bending left of the direction of travel */
+function arcPath(from: [number, number], to: [number, number]): string {
+  const [x1, y1] = from;
+  const [x2, y2] = to;
+  const bend = 0.2;
+  const cx = (x1 + x2) / 2 - (y2 - y1) * bend;
+  const cy = (y1 + y2) / 2 + (x2 - x1) * bend;
+  return `M${x1},${y1} Q${cx},${cy} ${x2},${y2}`;
+}
+
+export const MapView: React.FC<MapViewProps> = ({
+  data,
+  selectedPersonId,
+  onNodeClick,
+  persons,
+  places = [],
+  onPinPlace,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const layerRef = useRef<SVGGElement>(null);
+  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  const [transform, setTransform] = useState<d3.ZoomTransform>(d3.zoomIdentity);
+  const [untilYear, setUntilYear] = useState<number | null>(null);
+  const [pinning, setPinning] = useState<UnplacedPlace | null>(null);
+  const [savingPin, setSavingPin] = useState(false);
+
+  const mapData = useMemo(() => {
+    if (!persons) return null;
+    const parentChild = data.edges
+      .filter((edge) => edge.type === 'parent-child')
+      .map((edge) => ({ parentId: edge.source, childId: edge.target }));
+    return buildMapData(data.nodes, persons, parentChild, places);
+  }, [data, persons, places]);
+
+  const yearRange = useMemo(() => (mapData ? mapYearRange(mapData) : null), [mapData]);
+  const visible = useMemo(() => (mapData ? filterMapData(mapData, untilYear) : null), [mapData, untilYear]);
+
+  // Fitted to every place, so that moving the slider does not move the map
+  const projection = useMemo(() => fitProjection(mapData?.points ?? []), [mapData]);
+  const path = useMemo(() => d3.geoPath(projection), [projection]);
+  const landPath = useMemo(() => path(LAND) ?? '', [path]);
+  const graticulePath = useMemo(() => path(GRATICULE) ?? '', [path]);
+
+  const ready = mapData !== null;
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const zoom = d3
+      .zoom<SVGSVGElement, unknown>()
+      .scaleExtent([1, 40])
+      .on('zoom', (event) => setTransform(event.transform));
+    zoomRef.current = zoom;
+    const svg = d3.select(svgRef.current);
+    svg.call(zoom);
+    return () => {
+      svg.on('.zoom', null);
+    };
+  }, [ready]);
+
+  // A new fit starts from the whole view again
+  useEffect(() => {
+    if (svgRef.current && zoomRef.current) {
+      d3.select(svgRef.current).call(zoomRef.current.transform, d3.zoomIdentity);
+    }
+  }, [projection]);
+
+  const zoomBy = (factor: number) => {
+    if (!svgRef.current || !zoomRef.current) return;
+    d3.select(svgRef.current).transition().duration(300).call(zoomRef.current.scaleBy, factor);
+  };
+
+  const handleZoomReset = () => {
+    if (!svgRef.current || !zoomRef.current) return;
+    d3.select(svgRef.current).transition().duration(300).call(zoomRef.current.transform, d3.zoomIdentity);
+  };
+
+  const handleMapClick = async (event: React.MouseEvent<SVGSVGElement>) => {
+    if (!pinning || !onPinPlace || !layerRef.current || savingPin) return;
+    const [x, y] = d3.pointer(event.nativeEvent, layerRef.current);
+    const lonLat = projection.invert?.([x, y]);
+    if (!lonLat) return;
+    const round = (value: number) => Math.round(value * 10000) / 10000;
+    setSavingPin(true);
+    try {
+      await onPinPlace(pinning, { latitude: round(lonLat[1]), longitude: round(lonLat[0]) });
+      setPinning(null);
+    } finally {
+      setSavingPin(false);
+    }
+  };
+
+  if (!mapData || !visible) {
+    return (
+      <div className="d-flex align-items-center justify-content-center h-100">
+        <div className="text-center">
+          <div className="spinner-border text-primary" role="status">
+            <span className="visually-hidden">Loading places...</span>
+          </div>
+          <p className="mt-2 text-muted">Loading places…</p>
+        </div>
+      </div>
+    );
+  }
+
+  const k = transform.k;
+  const project = (c: Coordinates) => projection([c.longitude, c.latitude]) ?? [0, 0];
+  const describe = (p: MapPoint) =>
+    `${p.displayName} — ${p.label}${p.year !== null ? ` ${p.year}` : ''}: ${p.place}` +
+    (p.approximate ? ' (approximate location)' : '');
+
+  return (
+    <div className="position-relative h-100">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="xMidYMid meet"
+        style={{ width: '100%', height: '100%', background: '#e8f1f8', cursor: pinning ? 'crosshair' : 'grab' }}
+        onClick={handleMapClick}
+        role="img"
+        aria-label="Map of births, burials and migrations"
+      >
+        <defs>
+          {Object.entries(ARC_COLORS).map(([kind, color]) => (
+            <marker
+              key={kind}
+              id={`map-arrow-${kind}`}
+              viewBox="0 0 10 10"
+              refX="9"
+              refY="5"
+              markerWidth="5"
+              markerHeight="5"
+              orient="auto-start-reverse"
+            >
+              <path d="M0,0 L10,5 L0,10 z" fill={color} />
+            </marker>
+          ))}
+        </defs>
+        <g ref={layerRef} transform={transform.toString()}>
+          <path d={graticulePath} fill="none" stroke="#c9d6e3" strokeWidth={0.5 / k} />
+          <path d={landPath} fill="#f8f9fa" stroke="#adb5bd" strokeWidth={0.6 / k} />
+
+          {visible.arcs.map((arc) => {
+            const highlighted = arc.personId === selectedPersonId;
+            return (
+              <path
+                key={arc.id}
+                d={arcPath(project(arc.from), project(arc.to))}
+                fill="none"
+                stroke={ARC_COLORS[arc.kind]}
+                strokeWidth={(highlighted ? 2.5 : 1.5) / k}
+                strokeOpacity={highlighted ? 0.95 : 0.6}
+                markerEnd={`url(#map-arrow-${arc.kind})`}
+                style={{ pointerEvents: 'none' }}
+              />
+            );
+          })}
+
+          {visible.points.map((point) => {
+            const [x, y] = project(point);
+            const selected = point.personId === selectedPersonId;
+            return (
+              <circle
+                key={point.id}
+                cx={x}
+                cy={y}
+                r={(selected ? 6 : 4) / k}
+                fill={POINT_COLORS[point.kind]}
+                fillOpacity={point.approximate ? 0.5 : 0.9}
+                stroke={selected ? '#ffc107' : '#fff'}
+                strokeWidth={(selected ? 2 : 1) / k}
+                strokeDasharray={point.approximate ? `${2 / k}` : undefined}
+                style={{ cursor: 'pointer' }}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (!pinning) onNodeClick(point.personId);
+                }}
+              >
+                <title>{describe(point)}</title>
+              </circle>
+            );
+          })}
+        </g>
+      </svg>
+
+      {/* Time slider and legend */}
+      <div className="position-absolute card shadow-sm small" style={{ top: 10, left: 10, zIndex: 10, width: 260 }}>
+        <div className="card-body p-2">
+          {yearRange ? (
+            <>
+              <div className="d-flex justify-content-between align-items-center mb-1">
+                <label htmlFor="mapYear" className="form-label mb-0">
+                  {untilYear === null ? 'All years' : `Up to ${untilYear}`}
+                </label>
+                {untilYear !== null && (
+                  <button type="button" className="btn btn-link btn-sm p-0" onClick={() => setUntilYear(null)}>
+                    Show all
+                  </button>
+                )}
+              </div>
+              <input
+                id="mapYear"
+                type="range"
+                className="form-range"
+                min={yearRange.min}
+                max={yearRange.max}
+                value={untilYear ?? yearRange.max}
+                onChange={(e) => setUntilYear(Number(e.target.value))}
+              />
+            </>
+          ) : (
+            <div className="text-muted mb-1">No dated places to filter by year</div>
+          )}
+          <div className="d-flex flex-wrap gap-2 mt-1">
+            <span><span style={{ color: POINT_COLORS.birth }}>●</span> Birth</span>
+            <span><span style={{ color: POINT_COLORS.death }}>●</span> Burial</span>
+            <span><span style={{ color: POINT_COLORS.event }}>●</span> Event</span>
+            <span><span style={{ color: ARC_COLORS.life }}>➝</span> Life</span>
+            <span><span style={{ color: ARC_COLORS.generation }}>➝</span> Parent to child</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Zoom controls */}
+      <div className="position-absolute" style={{ top: 10, right: 10, zIndex: 10 }}>
+        <div className="btn-group-vertical" role="group">
+          <button className="btn btn-sm btn-outline-secondary bg-white" onClick={() => zoomBy(1.3)} title="Zoom In">
+            +
+          </button>
+          <button className="btn btn-sm btn-outline-secondary bg-white" onClick={handleZoomReset} title="Reset Zoom">
+            ⊙
+          </button>
+          <button className="btn btn-sm btn-outline-secondary bg-white" onClick={() => zoomBy(0.77)} title="Zoom Out">
+            −
+          </button>
+        </div>
+      </div>
+
+      {/* Places the map cannot place yet */}
+      {mapData.unplaced.length > 0 && (
+        <div
+          className="position-absolute card shadow-sm small"
+          style={{ bottom: 10, left: 10, zIndex: 10, width: 260, maxHeight: '40%' }}
+        >
+          <div className="card-header py-1 px-2">Not on the map ({mapData.unplaced.length})</div>
+          <ul className="list-group list-group-flush overflow-auto">
+            {mapData.unplaced.map((place) => (
+              <li
+                key={place.placeId ?? place.place}
+                className="list-group-item d-flex justify-content-between align-items-center py-1 px-2"
+              >
+                <span className="text-truncate" title={place.place}>
+                  {place.place} <span className="text-muted">×{place.count}</span>
+                </span>
+                {onPinPlace && (
+                  <button
+                    type="button"
+                    className={`btn btn-sm py-0 ${pinning === place ? 'btn-primary' : 'btn-outline-primary'}`}
+                    onClick={() => setPinning(pinning === place ? null : place)}
+                    disabled={savingPin}
+                  >
+                    📍 Pin
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {pinning && (
+        <div className="position-absolute top-0 start-50 translate-middle-x mt-2" style={{ zIndex: 11 }}>
+          <div className="alert alert-info py-1 px-2 mb-0 small d-flex align-items-center gap-2">
+            {savingPin ? 'Saving…' : `Click the map where ${pinning.place} is`}
+            <button type="button" className="btn btn-sm btn-link p-0" onClick={() => setPinning(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
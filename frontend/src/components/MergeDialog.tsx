@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import type { PersonDetails } from '../api';
+import { formatGenealogicalDate } from '../utils/genealogicalDate';
 
 type MergeDialogProps = {
   open: boolean;
@@ -75,8 +76,8 @@ export const MergeDialog: React.FC<MergeDialogProps> = ({ open, currentPerson, d
             <p className="mb-3 text-muted">Select which person's data to keep for each field. Click a card to change selection.</p>
             {renderField('Name', 'name', currentPerson.name, duplicatePerson.name)}
             {renderField('Gender', 'gender', currentPerson.gender, duplicatePerson.gender)}
-            {renderField('Birth Date', 'birthDate', currentPerson.birthDate, duplicatePerson.birthDate)}
-            {renderField('Death Date', 'deathDate', currentPerson.deathDate, duplicatePerson.deathDate)}
+            {renderField('Birth Date', 'birthDate', formatGenealogicalDate(currentPerson.birthDate), formatGenealogicalDate(duplicatePerson.birthDate))}
+            {renderField('Death Date', 'deathDate', formatGenealogicalDate(currentPerson.deathDate), formatGenealogicalDate(duplicatePerson.deathDate))}
             {renderField('Birth Place', 'birthPlace', currentPerson.birthPlace, duplicatePerson.birthPlace)}
             <div className="alert alert-info mt-4 p-2">
               <strong>Note:</strong> The duplicate person will be merged into the current person, and all relationships will be updated.
@@ -1,9 +1,108 @@
 import React, { useEffect, useState } from 'react';
-import { PersonDetails, formatDate, formatGender, getPersonDetails, getPersonChangeHistory } from '../api';
+import { Link } from 'react-router-dom';
+import {
+  Citation,
+  CitationQuality,
+  CommonAncestors,
+  LifeEventType,
+  MediaItem,
+  Nasab,
+  NasabEndReason,
+  NasabStyle,
+  PedigreeCollapse,
+  PersonDetails,
+  Place,
+  Source,
+  formatDate,
+  formatGender,
+  formatNameType,
+  getMedia,
+  getCommonAncestors,
+  getMediaFile,
+  getNasab,
+  getPedigreeCollapse,
+  getPersonCitations,
+  getPersonDetails,
+  getPlaces,
+  getSiblings,
+  getSources,
+  getPersonChangeHistory,
+  publicMediaThumbnailUrl,
+} from '../api';
 import { GenealogyCommandBus } from '../commands/genealogyCommands';
 import { FamilyNode, PersonRelationships } from './PersonRelationships';
 import { EditPersonDrawer } from './EditPersonDrawer';
 import TreeActivityFeed from './TreeActivityFeed';
+import { DATE_INPUT_PLACEHOLDER, formatAlternateCalendar } from '../utils/genealogicalDate';
+import {
+  LIFE_EVENT_TYPE_OPTIONS,
+  formatLifeEventSummary,
+  lifeEventLabel,
+  requiresDescription,
+  sortLifeEvents,
+  validateLifeEventInput,
+} from '../utils/lifeEvents';
+import {
+  CITATION_QUALITY_OPTIONS,
+  citableFacts,
+  citationTargetKey,
+  formatCitationSummary,
+  groupCitationsByFact,
+} from '../utils/citations';
+import {
+  MEDIA_ACCEPT,
+  formatFileSize,
+  isImageMedia,
+  isPortraitOf,
+  mediaContextLabel,
+  validateMediaFile,
+  withPortraitLink,
+} from '../utils/media';
+import { placeFields } from '../utils/places';
+import { collapseSummary, commonAncestorRoles, repeatedAncestorText } from '../utils/pedigree';
+
+// Why the father line stopped, shown under the nasab; a line that simply
+// reaches its earliest recorded ancestor needs no note
+const NASAB_END_NOTES: Record<NasabEndReason, string | null> = {
+  NO_PARENTS: null,
+  FATHER_NOT_RECORDED: 'Father not recorded; only the mother is known at this point.',
+  PARENT_GENDER_UNKNOWN: 'A parent has no recorded gender, so the father cannot be identified.',
+  MULTIPLE_FATHERS: 'More than one father is recorded; the line stops here.',
+  DEPTH_LIMIT: 'Shortened; more generations are recorded.',
+};
+
+type LifeEventForm = {
+  type: LifeEventType;
+  customType: string;
+  date: string;
+  place: string;
+  description: string;
+};
+
+const EMPTY_EVENT_FORM: LifeEventForm = { type: 'RESIDENCE', customType: '', date: '', place: '', description: '' };
+
+// sourceId NEW_SOURCE records the source from newSourceTitle before citing it
+const NEW_SOURCE = '__new__';
+
+type CitationForm = {
+  factKey: string;
+  sourceId: string;
+  newSourceTitle: string;
+  page: string;
+  quality: CitationQuality | '';
+  transcription: string;
+};
+
+// eventId '' links the file to the person itself
+type MediaForm = {
+  file: File | null;
+  caption: string;
+  date: string;
+  eventId: string;
+  portrait: boolean;
+};
+
+const EMPTY_MEDIA_FORM: MediaForm = { file: null, caption: '', date: '', eventId: '', portrait: false };
 
 type PersonDetailsDrawerProps = {
   treeId: string;
@@ -11,6 +110,7 @@ type PersonDetailsDrawerProps = {
   parents: FamilyNode[];
   children: FamilyNode[];
   spouses: FamilyNode[];
+  people?: ReadonlyArray<{ id: string; displayName: string }>;
   onClose: () => void;
   onSelectPerson: (personId: string) => void;
   onAddRelationship?: (prefill: { parentId?: string; childId?: string }) => void;
@@ -25,6 +125,7 @@ export const PersonDetailsDrawer: React.FC<PersonDetailsDrawerProps> = ({
   parents,
   children,
   spouses,
+  people = [],
   onClose,
   onSelectPerson,
   onAddRelationship,
@@ -54,8 +155,34 @@ export const PersonDetailsDrawer: React.FC<PersonDetailsDrawerProps> = ({
   const [connectError, setConnectError] = useState<string | null>(null);
   const [connectSuccess, setConnectSuccess] = useState<string | null>(null);
 
+  const [nasab, setNasab] = useState<Nasab | null>(null);
+  const [nasabStyle, setNasabStyle] = useState<NasabStyle>('MALAY');
+  const [siblings, setSiblings] = useState<{ full: FamilyNode[]; half: FamilyNode[] } | null>(null);
+  const [pedigree, setPedigree] = useState<PedigreeCollapse | null>(null);
+  const [commonWithId, setCommonWithId] = useState('');
+  const [commonAncestors, setCommonAncestors] = useState<CommonAncestors | null>(null);
+
+  // Life event form state
+  const [eventForm, setEventForm] = useState<LifeEventForm | null>(null);
+  const [savingEvent, setSavingEvent] = useState(false);
+  const [eventError, setEventError] = useState<string | null>(null);
+  const [places, setPlaces] = useState<Place[]>([]);
+
+  // Sources tab state
+  const [sources, setSources] = useState<Source[]>([]);
+  const [citations, setCitations] = useState<Citation[]>([]);
+  const [citationForm, setCitationForm] = useState<CitationForm | null>(null);
+  const [savingCitation, setSavingCitation] = useState(false);
+  const [citationError, setCitationError] = useState<string | null>(null);
+
+  // Media tab state
+  const [media, setMedia] = useState<MediaItem[]>([]);
+  const [mediaForm, setMediaForm] = useState<MediaForm | null>(null);
+  const [savingMedia, setSavingMedia] = useState(false);
+  const [mediaError, setMediaError] = useState<string | null>(null);
+
   const isOpen = personId !== null;
-  const [activeTab, setActiveTab] = useState<'details' | 'history'>('details');
+  const [activeTab, setActiveTab] = useState<'details' | 'sources' | 'media' | 'history'>('details');
   const [lastModified, setLastModified] = useState<{
     username: string;
     timestamp: string;
@@ -65,8 +192,63 @@ export const PersonDetailsDrawer: React.FC<PersonDetailsDrawerProps> = ({
   // Reset to Details tab when switching person
   useEffect(() => {
     setActiveTab('details');
+    setCitationForm(null);
+    setCitationError(null);
+    setMediaForm(null);
+    setMediaError(null);
   }, [personId]);
 
+  // Load this person's media when the Media tab is open
+  useEffect(() => {
+    let cancelled = false;
+    if (!personId || activeTab !== 'media') return;
+    getMedia(treeId, personId)
+      .then((personMedia) => {
+        if (!cancelled) setMedia(personMedia);
+      })
+      .catch((err) => {
+        if (!cancelled) setMediaError(err instanceof Error ? err.message : 'Failed to load media');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [treeId, personId, activeTab, person]);
+
+  // Load the tree's places for the event form; without them the place is kept as typed
+  const eventFormOpen = eventForm !== null;
+  useEffect(() => {
+    let cancelled = false;
+    if (!eventFormOpen) return;
+    getPlaces(treeId)
+      .then((treePlaces) => {
+        if (!cancelled) setPlaces(treePlaces);
+      })
+      .catch(() => {
+        if (!cancelled) setPlaces([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [treeId, eventFormOpen]);
+
+  // Load the tree's sources and this person's citations when the Sources tab is open
+  useEffect(() => {
+    let cancelled = false;
+    if (!personId || activeTab !== 'sources') return;
+    Promise.all([getSources(treeId), getPersonCitations(treeId, personId)])
+      .then(([treeSources, personCitations]) => {
+        if (cancelled) return;
+        setSources(treeSources);
+        setCitations(personCitations);
+      })
+      .catch((err) => {
+        if (!cancelled) setCitationError(err instanceof Error ? err.message : 'Failed to load sources');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [treeId, personId, activeTab, person]);
+
   // Load last modified info from audit history (limit 1)
   useEffect(() => {
     let cancelled = false;
@@ -98,6 +280,93 @@ export const PersonDetailsDrawer: React.FC<PersonDetailsDrawerProps> = ({
     };
   }, [treeId, personId]);
 
+  // Load the nasab (father line); failures just hide the section
+  useEffect(() => {
+    let cancelled = false;
+    if (!personId) {
+      setNasab(null);
+      return;
+    }
+    getNasab(treeId, personId, { style: nasabStyle })
+      .then((res) => {
+        if (!cancelled) setNasab(res);
+      })
+      .catch(() => {
+        if (!cancelled) setNasab(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [treeId, personId, nasabStyle, person]);
+
+  // Load full and half siblings with their names; failures just hide the section
+  useEffect(() => {
+    let cancelled = false;
+    if (!personId) {
+      setSiblings(null);
+      return;
+    }
+    const named = (ids: string[]) =>
+      Promise.all(
+        ids.map((id) =>
+          getPersonDetails(treeId, id)
+            .then((p): FamilyNode => ({ personId: id, displayName: p.name }))
+            .catch((): FamilyNode => ({ personId: id, displayName: id }))
+        )
+      );
+    getSiblings(treeId, personId)
+      .then(async (res) => {
+        const [full, half] = await Promise.all([named(res.full), named(res.half)]);
+        if (!cancelled) setSiblings({ full, half });
+      })
+      .catch(() => {
+        if (!cancelled) setSiblings(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [treeId, personId, person]);
+
+  // Load repeated ancestors of a collapsed pedigree; failures just hide them
+  useEffect(() => {
+    let cancelled = false;
+    setCommonWithId('');
+    if (!personId) {
+      setPedigree(null);
+      return;
+    }
+    getPedigreeCollapse(treeId, personId)
+      .then((res) => {
+        if (!cancelled) setPedigree(res);
+      })
+      .catch(() => {
+        if (!cancelled) setPedigree(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [treeId, personId, person]);
+
+  // Nearest common ancestors with the person picked under Shared ancestry
+  useEffect(() => {
+    let cancelled = false;
+    setCommonAncestors(null);
+    if (!personId || !commonWithId) return;
+    getCommonAncestors(treeId, [personId, commonWithId])
+      .then((res) => {
+        if (!cancelled) setCommonAncestors(res);
+      })
+      .catch(() => {
+        if (!cancelled) setCommonAncestors(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [treeId, personId, commonWithId]);
+
+  const nameOf = (id: string) =>
+    id === personId && person ? person.name : (people.find((p) => p.id === id)?.displayName ?? id);
+
   // Generate auto name for new child
   const generateChildName = (parentName: string): string => {
     return `Child of ${parentName}`;
@@ -154,6 +423,207 @@ export const PersonDetailsDrawer: React.FC<PersonDetailsDrawerProps> = ({
     }
   };
 
+  // Re-read the person after an event changes, so the list and dates stay in step with the server
+  const reloadPerson = async () => {
+    if (!personId) return;
+    try {
+      setPerson(await getPersonDetails(treeId, personId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load person details');
+    }
+  };
+
+  const handleSaveEvent = async () => {
+    if (!personId || !eventForm) return;
+    const validation = validateLifeEventInput(eventForm);
+    if (validation) {
+      setEventError(validation);
+      return;
+    }
+    setSavingEvent(true);
+    setEventError(null);
+    const result = await GenealogyCommandBus.addPersonEvent({
+      treeId,
+      personId,
+      event: {
+        type: eventForm.type,
+        customType: eventForm.type === 'CUSTOM' ? eventForm.customType.trim() : null,
+        date: eventForm.date.trim() || null,
+        ...placeFields(eventForm.place, places),
+        description: eventForm.description.trim() || null,
+      },
+    });
+    setSavingEvent(false);
+    if (!result.success) {
+      setEventError(result.error || 'Failed to add event');
+      return;
+    }
+    setEventForm(null);
+    await reloadPerson();
+    if (onRefresh) onRefresh();
+  };
+
+  const handleRemoveEvent = async (eventId: string) => {
+    if (!personId) return;
+    setEventError(null);
+    const result = await GenealogyCommandBus.removePersonEvent({ treeId, personId, eventId });
+    if (!result.success) {
+      setEventError(result.error || 'Failed to remove event');
+      return;
+    }
+    await reloadPerson();
+    if (onRefresh) onRefresh();
+  };
+
+  const reloadCitations = async () => {
+    if (!personId) return;
+    try {
+      const [treeSources, personCitations] = await Promise.all([getSources(treeId), getPersonCitations(treeId, personId)]);
+      setSources(treeSources);
+      setCitations(personCitations);
+    } catch (err) {
+      setCitationError(err instanceof Error ? err.message : 'Failed to load sources');
+    }
+  };
+
+  const handleSaveCitation = async () => {
+    if (!personId || !citationForm) return;
+    const fact = facts.find((f) => f.key === citationForm.factKey);
+    if (!fact) {
+      setCitationError('Choose the fact to cite');
+      return;
+    }
+    if (!citationForm.sourceId || (citationForm.sourceId === NEW_SOURCE && !citationForm.newSourceTitle.trim())) {
+      setCitationError('Choose a source or name a new one');
+      return;
+    }
+    setSavingCitation(true);
+    setCitationError(null);
+    let sourceId = citationForm.sourceId;
+    if (sourceId === NEW_SOURCE) {
+      const created = await GenealogyCommandBus.createSource({
+        treeId,
+        source: { title: citationForm.newSourceTitle.trim() },
+      });
+      if (!created.success || !created.data) {
+        setSavingCitation(false);
+        setCitationError(created.error || 'Failed to add source');
+        return;
+      }
+      sourceId = created.data.sourceId;
+    }
+    const result = await GenealogyCommandBus.addCitation({
+      treeId,
+      sourceId,
+      target: fact.target,
+      citation: {
+        page: citationForm.page.trim() || null,
+        quality: citationForm.quality || null,
+        transcription: citationForm.transcription.trim() || null,
+      },
+    });
+    setSavingCitation(false);
+    if (!result.success) {
+      setCitationError(result.error || 'Failed to add citation');
+      await reloadCitations();
+      return;
+    }
+    setCitationForm(null);
+    await reloadCitations();
+  };
+
+  const handleRemoveCitation = async (citationId: string) => {
+    setCitationError(null);
+    const result = await GenealogyCommandBus.removeCitation({ treeId, citationId });
+    if (!result.success) {
+      setCitationError(result.error || 'Failed to remove citation');
+      return;
+    }
+    await reloadCitations();
+  };
+
+  const reloadMedia = async () => {
+    if (!personId) return;
+    try {
+      setMedia(await getMedia(treeId, personId));
+    } catch (err) {
+      setMediaError(err instanceof Error ? err.message : 'Failed to load media');
+    }
+  };
+
+  const handleUploadMedia = async () => {
+    if (!personId || !mediaForm) return;
+    if (!mediaForm.file) {
+      setMediaError('Choose a file to attach');
+      return;
+    }
+    const invalid = validateMediaFile(mediaForm.file);
+    if (invalid) {
+      setMediaError(invalid);
+      return;
+    }
+    setSavingMedia(true);
+    setMediaError(null);
+    const portrait = mediaForm.portrait && !mediaForm.eventId && isImageMedia(mediaForm.file.type);
+    const result = await GenealogyCommandBus.uploadMedia({
+      treeId,
+      file: mediaForm.file,
+      media: {
+        caption: mediaForm.caption.trim() || null,
+        date: mediaForm.date.trim() || null,
+        links: [{ personId, eventId: mediaForm.eventId || null, primary: portrait }],
+      },
+    });
+    setSavingMedia(false);
+    if (!result.success) {
+      setMediaError(result.error || 'Failed to upload file');
+      return;
+    }
+    setMediaForm(null);
+    await reloadMedia();
+    if (portrait) onRefresh?.();
+  };
+
+  const handleSetPortrait = async (item: MediaItem) => {
+    if (!personId) return;
+    setMediaError(null);
+    const result = await GenealogyCommandBus.updateMedia({
+      treeId,
+      mediaId: item.mediaId,
+      media: { links: withPortraitLink(item.links, personId) },
+    });
+    if (!result.success) {
+      setMediaError(result.error || 'Failed to set portrait');
+      return;
+    }
+    await reloadMedia();
+    onRefresh?.();
+  };
+
+  const handleRemoveMedia = async (item: MediaItem) => {
+    if (!window.confirm(`Remove ${item.fileName}? The file is deleted for every person it is linked to.`)) return;
+    setMediaError(null);
+    const result = await GenealogyCommandBus.removeMedia({ treeId, mediaId: item.mediaId });
+    if (!result.success) {
+      setMediaError(result.error || 'Failed to remove file');
+      return;
+    }
+    await reloadMedia();
+    if (personId && isPortraitOf(item, personId)) onRefresh?.();
+  };
+
+  // Files need the auth token, so they are fetched and opened from a blob
+  const handleOpenMedia = async (item: MediaItem) => {
+    try {
+      const blob = await getMediaFile(treeId, item.mediaId);
+      const url = URL.createObjectURL(blob);
+      window.open(url, '_blank', 'noopener');
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (err) {
+      setMediaError(err instanceof Error ? err.message : 'Failed to open file');
+    }
+  };
+
   // Handle edit child inline
   const handleEditChildName = async () => {
     if (!newChildName.trim()) {
@@ -185,8 +655,35 @@ export const PersonDetailsDrawer: React.FC<PersonDetailsDrawerProps> = ({
       setPerson(null);
       setError(null);
     }
+    setEventForm(null);
+    setEventError(null);
   }, [treeId, personId]);
 
+  // Facts of the person with the citations supporting each, for the Sources tab
+  const facts = person ? citableFacts(person, { parents, spouses }) : [];
+  const factCitations = groupCitationsByFact(facts, citations);
+  const generalCitations = personId
+    ? citations.filter((c) => citationTargetKey(c.target) === citationTargetKey({ kind: 'PERSON', personId }))
+    : [];
+  const renderCitation = (c: Citation) => (
+    <li key={c.citationId} className="small">
+      <div className="d-flex w-100 justify-content-between align-items-start">
+        <span>{formatCitationSummary(c, sources.find((s) => s.sourceId === c.sourceId))}</span>
+        <button
+          type="button"
+          className="btn btn-link btn-sm text-danger p-0 ms-2"
+          aria-label={`Remove citation ${c.citationId}`}
+          onClick={() => handleRemoveCitation(c.citationId)}
+        >
+          Remove
+        </button>
+      </div>
+      {c.transcription && (
+        <div className="text-muted fst-italic" style={{ whiteSpace: 'pre-line' }}>{c.transcription}</div>
+      )}
+    </li>
+  );
+
   return (
     <>
       <div
@@ -316,7 +813,7 @@ export const PersonDetailsDrawer: React.FC<PersonDetailsDrawerProps> = ({
           {loading && <div className="text-center text-muted">Loading Details...</div>}
           {error && <div className="alert alert-danger">{error}</div>}
 
-          {/* Tabs: Details | History */}
+          {/* Tabs: Details | Sources | Media | History */}
           <ul className="nav nav-tabs mb-3" role="tablist" aria-label="Person details tabs">
             <li className="nav-item" role="presentation">
               <button
@@ -330,6 +827,32 @@ export const PersonDetailsDrawer: React.FC<PersonDetailsDrawerProps> = ({
                 Details
               </button>
             </li>
+            <li className="nav-item" role="presentation">
+              <button
+                id="tab-sources"
+                className={`nav-link ${activeTab === 'sources' ? 'active' : ''}`}
+                role="tab"
+                aria-selected={activeTab === 'sources'}
+                aria-controls="panel-sources"
+                onClick={() => setActiveTab('sources')}
+                disabled={!personId}
+              >
+                Sources
+              </button>
+            </li>
+            <li className="nav-item" role="presentation">
+              <button
+                id="tab-media"
+                className={`nav-link ${activeTab === 'media' ? 'active' : ''}`}
+                role="tab"
+                aria-selected={activeTab === 'media'}
+                aria-controls="panel-media"
+                onClick={() => setActiveTab('media')}
+                disabled={!personId}
+              >
+                Media
+              </button>
+            </li>
             <li className="nav-item" role="presentation">
               <button
                 id="tab-history"
@@ -421,20 +944,236 @@ export const PersonDetailsDrawer: React.FC<PersonDetailsDrawerProps> = ({
                     <li className="list-group-item">
                       <div className="d-flex w-100 justify-content-between">
                         <h6 className="mb-1">Born</h6>
-                        <small>{formatDate(person.birthDate)}</small>
+                        <small className="text-end">
+                          {formatDate(person.birthDate)}
+                          {formatAlternateCalendar(person.birthDate) && (
+                            <div className="text-muted">{formatAlternateCalendar(person.birthDate)}</div>
+                          )}
+                        </small>
                       </div>
                       {person.birthPlace && <p className="mb-1 text-muted">{person.birthPlace}</p>}
                     </li>
                   )}
                   {person.deathDate && (
-                    <li className="list-group-item d-flex justify-content-between align-items-center">
-                      Died
-                      <small>{formatDate(person.deathDate)}</small>
+                    <li className="list-group-item">
+                      <div className="d-flex justify-content-between align-items-center">
+                        Died
+                        <small className="text-end">
+                          {formatDate(person.deathDate)}
+                          {formatAlternateCalendar(person.deathDate) && (
+                            <div className="text-muted">{formatAlternateCalendar(person.deathDate)}</div>
+                          )}
+                        </small>
+                      </div>
+                      <Link to={`/trees/${treeId}/persons/${personId}/inheritance`} className="small">
+                        Inheritance shares (farāʾiḍ)
+                      </Link>
                     </li>
                   )}
                 </ul>
               </div>
 
+              <div className="mb-4">
+                <div className="d-flex justify-content-between align-items-center mb-2">
+                  <h6 className="text-muted mb-0">Life Events</h6>
+                  {!eventForm && (
+                    <button
+                      type="button"
+                      className="btn btn-outline-primary btn-sm"
+                      onClick={() => {
+                        setEventForm(EMPTY_EVENT_FORM);
+                        setEventError(null);
+                      }}
+                    >
+                      + Add Event
+                    </button>
+                  )}
+                </div>
+                {eventError && <div className="alert alert-danger py-1 small">{eventError}</div>}
+                {(person.events ?? []).length > 0 ? (
+                  <ul className="list-group">
+                    {sortLifeEvents(person.events ?? []).map((event) => (
+                      <li key={event.eventId} className="list-group-item">
+                        <div className="d-flex w-100 justify-content-between align-items-start">
+                          <span>{formatLifeEventSummary(event)}</span>
+                          <button
+                            type="button"
+                            className="btn btn-link btn-sm text-danger p-0 ms-2"
+                            aria-label={`Remove ${lifeEventLabel(event)}`}
+                            onClick={() => handleRemoveEvent(event.eventId)}
+                          >
+                            Remove
+                          </button>
+                        </div>
+                        {event.date && formatAlternateCalendar(event.date) && (
+                          <div className="small text-muted">{formatAlternateCalendar(event.date)}</div>
+                        )}
+                        {event.description && !requiresDescription(event.type) && (
+                          <div className="small text-muted" style={{ whiteSpace: 'pre-line' }}>{event.description}</div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  !eventForm && <div className="small text-muted">No events recorded.</div>
+                )}
+                {eventForm && (
+                  <div className="card mt-2">
+                    <div className="card-body">
+                      <div className="mb-2">
+                        <label htmlFor="eventType" className="form-label small">Type</label>
+                        <select
+                          id="eventType"
+                          className="form-select form-select-sm"
+                          value={eventForm.type}
+                          onChange={(e) => setEventForm({ ...eventForm, type: e.target.value as LifeEventType })}
+                        >
+                          {LIFE_EVENT_TYPE_OPTIONS.map((o) => (
+                            <option key={o.value} value={o.value}>{o.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      {eventForm.type === 'CUSTOM' && (
+                        <div className="mb-2">
+                          <label htmlFor="eventCustomType" className="form-label small">Fact</label>
+                          <input
+                            id="eventCustomType"
+                            className="form-control form-control-sm"
+                            value={eventForm.customType}
+                            onChange={(e) => setEventForm({ ...eventForm, customType: e.target.value })}
+                            placeholder="e.g. Umrah, Circumcision"
+                          />
+                        </div>
+                      )}
+                      <div className="mb-2">
+                        <label htmlFor="eventDate" className="form-label small">Date</label>
+                        <input
+                          id="eventDate"
+                          className="form-control form-control-sm"
+                          value={eventForm.date}
+                          onChange={(e) => setEventForm({ ...eventForm, date: e.target.value })}
+                          placeholder={DATE_INPUT_PLACEHOLDER}
+                        />
+                      </div>
+                      <div className="mb-2">
+                        <label htmlFor="eventPlace" className="form-label small">Place</label>
+                        <input
+                          id="eventPlace"
+                          className="form-control form-control-sm"
+                          value={eventForm.place}
+                          onChange={(e) => setEventForm({ ...eventForm, place: e.target.value })}
+                          list="eventPlaceOptions"
+                          autoComplete="off"
+                        />
+                        <datalist id="eventPlaceOptions">
+                          {places.map((p) => (
+                            <option key={p.placeId} value={p.fullName} />
+                          ))}
+                        </datalist>
+                      </div>
+                      <div className="mb-2">
+                        <label htmlFor="eventDescription" className="form-label small">
+                          {requiresDescription(eventForm.type) ? lifeEventLabel(eventForm) : 'Description'}
+                        </label>
+                        <textarea
+                          id="eventDescription"
+                          className="form-control form-control-sm"
+                          rows={2}
+                          value={eventForm.description}
+                          onChange={(e) => setEventForm({ ...eventForm, description: e.target.value })}
+                        />
+                      </div>
+                      <div className="d-flex gap-2">
+                        <button
+                          type="button"
+                          className="btn btn-primary btn-sm flex-grow-1"
+                          disabled={savingEvent}
+                          onClick={handleSaveEvent}
+                        >
+                          {savingEvent ? 'Saving...' : 'Save Event'}
+                        </button>
+                        <button
+                          type="button"
+                          className="btn btn-outline-secondary btn-sm"
+                          onClick={() => {
+                            setEventForm(null);
+                            setEventError(null);
+                          }}
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {person.names && person.names.length > 0 && (
+                <div className="mb-4">
+                  <h6 className="text-muted">Names</h6>
+                  <ul className="list-group">
+                    {person.names.map((n, i) => (
+                      <li key={i} className="list-group-item">
+                        <div className="d-flex w-100 justify-content-between">
+                          <span dir="auto">{n.fullText}</span>
+                          <small className="text-muted">
+                            {formatNameType(n.type)}
+                            {n.primary && ' · primary'}
+                          </small>
+                        </div>
+                        {(n.variants ?? []).map((v, j) => (
+                          <div key={j} className="small text-muted">
+                            {v.kind === 'ROMANIZED' ? 'Romanized' : 'Pronounced'}: {v.text}
+                            {(v.method || v.script) && ` (${v.method ?? v.script})`}
+                          </div>
+                        ))}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {nasab && (nasab.links.length > 1 || nasab.end.reason !== 'NO_PARENTS') && (
+                <div className="mb-4">
+                  <div className="d-flex justify-content-between align-items-center mb-2">
+                    <h6 className="text-muted mb-0">Nasab</h6>
+                    <select
+                      className="form-select form-select-sm w-auto"
+                      aria-label="Nasab style"
+                      value={nasabStyle}
+                      onChange={(e) => setNasabStyle(e.target.value as NasabStyle)}
+                    >
+                      <option value="MALAY">bin / binti</option>
+                      <option value="ARABIC">ibn / bint</option>
+                    </select>
+                  </div>
+                  <div className="card">
+                    <div className="card-body py-2">
+                      <div className="fw-semibold" dir="auto">{nasab.text}</div>
+                      {nasab.links.length > 1 && (
+                        <div className="small mt-1">
+                          {nasab.links.slice(1).map((link, i) => (
+                            <React.Fragment key={link.personId}>
+                              {i > 0 && <span className="text-muted"> › </span>}
+                              <button
+                                type="button"
+                                className="btn btn-link btn-sm p-0 align-baseline"
+                                onClick={() => onSelectPerson(link.personId)}
+                              >
+                                {link.name}
+                              </button>
+                            </React.Fragment>
+                          ))}
+                        </div>
+                      )}
+                      {NASAB_END_NOTES[nasab.end.reason] && (
+                        <div className="small text-muted mt-1">{NASAB_END_NOTES[nasab.end.reason]}</div>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
+
               <div className="mb-4">
                 <div className="d-flex justify-content-between align-items-center mb-2">
                   <h6 className="text-muted mb-0">Family</h6>
@@ -467,8 +1206,403 @@ export const PersonDetailsDrawer: React.FC<PersonDetailsDrawerProps> = ({
                   onSelectPerson={onSelectPerson}
                 />
               </div>
+
+              {siblings && (siblings.full.length > 0 || siblings.half.length > 0) && (
+                <div className="mb-4">
+                  <h6 className="text-muted">Siblings</h6>
+                  <div className="list-group list-group-flush">
+                    {[
+                      ...siblings.full.map((s) => ({ ...s, label: 'Full' })),
+                      ...siblings.half.map((s) => ({ ...s, label: 'Half' })),
+                    ].map((sibling) => (
+                      <button
+                        key={sibling.personId}
+                        type="button"
+                        onClick={() => onSelectPerson(sibling.personId)}
+                        className="list-group-item list-group-item-action d-flex justify-content-between align-items-center"
+                      >
+                        {sibling.displayName}
+                        <small className="text-muted">{sibling.label}</small>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {((pedigree && pedigree.repeated.length > 0) || people.length > 1) && (
+                <div className="mb-4">
+                  <h6 className="text-muted">Shared ancestry</h6>
+                  {pedigree && pedigree.repeated.length > 0 && (
+                    <>
+                      <small className="text-muted d-block mb-1">{collapseSummary(pedigree)}</small>
+                      <div className="list-group list-group-flush mb-2">
+                        {pedigree.repeated.map((ancestor) => (
+                          <button
+                            key={ancestor.ancestorId}
+                            type="button"
+                            onClick={() => onSelectPerson(ancestor.ancestorId)}
+                            className="list-group-item list-group-item-action d-flex justify-content-between align-items-center"
+                          >
+                            {ancestor.name}
+                            <small className="text-muted">{repeatedAncestorText(ancestor)}</small>
+                          </button>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                  {people.length > 1 && (
+                    <>
+                      <label htmlFor="commonAncestorWith" className="form-label small text-muted mb-1">
+                        Nearest common ancestor with
+                      </label>
+                      <select
+                        id="commonAncestorWith"
+                        className="form-select form-select-sm mb-2"
+                        value={commonWithId}
+                        onChange={(e) => setCommonWithId(e.target.value)}
+                      >
+                        <option value="">Choose a person…</option>
+                        {[...people]
+                          .filter((p) => p.id !== personId)
+                          .sort((a, b) => a.displayName.localeCompare(b.displayName))
+                          .map((p) => (
+                            <option key={p.id} value={p.id}>
+                              {p.displayName}
+                            </option>
+                          ))}
+                      </select>
+                      {commonAncestors && commonAncestors.ancestors.length === 0 && (
+                        <small className="text-muted">No common ancestor is recorded.</small>
+                      )}
+                      {commonAncestors && commonAncestors.ancestors.length > 0 && (
+                        <div className="list-group list-group-flush">
+                          {commonAncestors.ancestors.map((ancestor) => (
+                            <button
+                              key={ancestor.ancestorId}
+                              type="button"
+                              onClick={() => onSelectPerson(ancestor.ancestorId)}
+                              className="list-group-item list-group-item-action"
+                            >
+                              {ancestor.name}
+                              <small className="text-muted d-block">{commonAncestorRoles(ancestor, nameOf)}</small>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
             </div>
           )}
+
+          {/* Sources Panel */}
+          {activeTab === 'sources' && personId && person && (
+            <div id="panel-sources" role="tabpanel" aria-labelledby="tab-sources">
+              <div className="d-flex justify-content-between align-items-center mb-2">
+                <small className="text-muted">Where each fact about this person comes from.</small>
+                {!citationForm && (
+                  <button
+                    type="button"
+                    className="btn btn-outline-primary btn-sm"
+                    onClick={() => {
+                      setCitationForm({
+                        factKey: facts[0]?.key ?? '',
+                        sourceId: sources[0]?.sourceId ?? NEW_SOURCE,
+                        newSourceTitle: '',
+                        page: '',
+                        quality: '',
+                        transcription: '',
+                      });
+                      setCitationError(null);
+                    }}
+                  >
+                    + Cite Source
+                  </button>
+                )}
+              </div>
+              {citationError && <div className="alert alert-danger py-1 small">{citationError}</div>}
+              <ul className="list-group mb-3">
+                {factCitations.map(({ fact, citations: cited }) => (
+                  <li key={fact.key} className="list-group-item">
+                    <div className="d-flex w-100 justify-content-between align-items-center">
+                      <strong className="small">{fact.label}</strong>
+                      {cited.length === 0 && (
+                        <span className="badge bg-warning text-dark" title="No citation supports this fact">No source</span>
+                      )}
+                    </div>
+                    {cited.length > 0 && <ul className="list-unstyled mb-0 mt-1">{cited.map(renderCitation)}</ul>}
+                  </li>
+                ))}
+                {generalCitations.length > 0 && (
+                  <li className="list-group-item">
+                    <strong className="small">The person generally</strong>
+                    <ul className="list-unstyled mb-0 mt-1">{generalCitations.map(renderCitation)}</ul>
+                  </li>
+                )}
+              </ul>
+              {citationForm && (
+                <div className="card">
+                  <div className="card-body">
+                    <div className="mb-2">
+                      <label htmlFor="citationFact" className="form-label small">Fact</label>
+                      <select
+                        id="citationFact"
+                        className="form-select form-select-sm"
+                        value={citationForm.factKey}
+                        onChange={(e) => setCitationForm({ ...citationForm, factKey: e.target.value })}
+                      >
+                        {facts.map((f) => (
+                          <option key={f.key} value={f.key}>{f.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="mb-2">
+                      <label htmlFor="citationSource" className="form-label small">Source</label>
+                      <select
+                        id="citationSource"
+                        className="form-select form-select-sm"
+                        value={citationForm.sourceId}
+                        onChange={(e) => setCitationForm({ ...citationForm, sourceId: e.target.value })}
+                      >
+                        {sources.map((s) => (
+                          <option key={s.sourceId} value={s.sourceId}>{s.title}</option>
+                        ))}
+                        <option value={NEW_SOURCE}>New source...</option>
+                      </select>
+                    </div>
+                    {citationForm.sourceId === NEW_SOURCE && (
+                      <div className="mb-2">
+                        <label htmlFor="citationNewSource" className="form-label small">Source title</label>
+                        <input
+                          id="citationNewSource"
+                          className="form-control form-control-sm"
+                          value={citationForm.newSourceTitle}
+                          onChange={(e) => setCitationForm({ ...citationForm, newSourceTitle: e.target.value })}
+                          placeholder="e.g. Salasilah Keluarga, birth register"
+                        />
+                      </div>
+                    )}
+                    <div className="row g-2 mb-2">
+                      <div className="col">
+                        <label htmlFor="citationPage" className="form-label small">Page</label>
+                        <input
+                          id="citationPage"
+                          className="form-control form-control-sm"
+                          value={citationForm.page}
+                          onChange={(e) => setCitationForm({ ...citationForm, page: e.target.value })}
+                          placeholder="e.g. f. 3, entry 12"
+                        />
+                      </div>
+                      <div className="col">
+                        <label htmlFor="citationQuality" className="form-label small">Quality</label>
+                        <select
+                          id="citationQuality"
+                          className="form-select form-select-sm"
+                          value={citationForm.quality}
+                          onChange={(e) => setCitationForm({ ...citationForm, quality: e.target.value as CitationQuality | '' })}
+                        >
+                          <option value="">Not assessed</option>
+                          {CITATION_QUALITY_OPTIONS.map((o) => (
+                            <option key={o.value} value={o.value}>{o.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                    <div className="mb-2">
+                      <label htmlFor="citationTranscription" className="form-label small">Transcription</label>
+                      <textarea
+                        id="citationTranscription"
+                        className="form-control form-control-sm"
+                        rows={2}
+                        value={citationForm.transcription}
+                        onChange={(e) => setCitationForm({ ...citationForm, transcription: e.target.value })}
+                      />
+                    </div>
+                    <div className="d-flex gap-2">
+                      <button
+                        type="button"
+                        className="btn btn-primary btn-sm"
+                        onClick={handleSaveCitation}
+                        disabled={savingCitation}
+                      >
+                        {savingCitation ? 'Saving...' : 'Save Citation'}
+                      </button>
+                      <button
+                        type="button"
+                        className="btn btn-outline-secondary btn-sm"
+                        onClick={() => {
+                          setCitationForm(null);
+                          setCitationError(null);
+                        }}
+                        disabled={savingCitation}
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Media Panel */}
+          {activeTab === 'media' && personId && person && (
+            <div id="panel-media" role="tabpanel" aria-labelledby="tab-media">
+              <div className="d-flex justify-content-between align-items-center mb-2">
+                <small className="text-muted">Photos, scanned documents and recordings.</small>
+                {!mediaForm && (
+                  <button
+                    type="button"
+                    className="btn btn-outline-primary btn-sm"
+                    onClick={() => {
+                      setMediaForm(EMPTY_MEDIA_FORM);
+                      setMediaError(null);
+                    }}
+                  >
+                    + Add File
+                  </button>
+                )}
+              </div>
+              {mediaError && <div className="alert alert-danger py-1 small">{mediaError}</div>}
+              {media.length === 0 && !mediaForm && <p className="text-muted small">No files attached yet.</p>}
+              {media.length > 0 && (
+                <ul className="list-group mb-3">
+                  {media.map((item) => (
+                    <li key={item.mediaId} className="list-group-item d-flex gap-2 align-items-start">
+                      {item.hasThumbnail ? (
+                        <img
+                          src={publicMediaThumbnailUrl(treeId, item.mediaId)}
+                          alt={item.caption ?? item.fileName}
+                          width={48}
+                          height={48}
+                          className="rounded border"
+                          style={{ objectFit: 'cover' }}
+                        />
+                      ) : (
+                        <span className="rounded border d-inline-flex align-items-center justify-content-center text-muted small" style={{ width: 48, height: 48 }}>
+                          {item.mimeType.split('/')[1]?.toUpperCase()}
+                        </span>
+                      )}
+                      <div className="flex-grow-1 small">
+                        <div className="d-flex justify-content-between">
+                          <strong>{item.caption ?? item.fileName}</strong>
+                          <span className={`badge ${isPortraitOf(item, personId) ? 'bg-primary' : 'bg-secondary'}`}>
+                            {mediaContextLabel(item, personId, person.events)}
+                          </span>
+                        </div>
+                        <div className="text-muted">
+                          {[formatDate(item.date), item.fileName, formatFileSize(item.size)].filter(Boolean).join(' · ')}
+                        </div>
+                        <div className="d-flex gap-1 mt-1">
+                          <button type="button" className="btn btn-link btn-sm p-0" onClick={() => handleOpenMedia(item)}>
+                            Open
+                          </button>
+                          {isImageMedia(item.mimeType) && !isPortraitOf(item, personId) && (
+                            <button type="button" className="btn btn-link btn-sm p-0 ms-2" onClick={() => handleSetPortrait(item)}>
+                              Set as portrait
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            className="btn btn-link btn-sm p-0 ms-2 text-danger"
+                            onClick={() => handleRemoveMedia(item)}
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {mediaForm && (
+                <div className="card">
+                  <div className="card-body">
+                    <div className="mb-2">
+                      <label htmlFor="mediaFile" className="form-label small">File</label>
+                      <input
+                        id="mediaFile"
+                        type="file"
+                        className="form-control form-control-sm"
+                        accept={MEDIA_ACCEPT}
+                        onChange={(e) => setMediaForm({ ...mediaForm, file: e.target.files?.[0] ?? null })}
+                      />
+                    </div>
+                    <div className="mb-2">
+                      <label htmlFor="mediaCaption" className="form-label small">Caption</label>
+                      <input
+                        id="mediaCaption"
+                        className="form-control form-control-sm"
+                        value={mediaForm.caption}
+                        onChange={(e) => setMediaForm({ ...mediaForm, caption: e.target.value })}
+                        placeholder="e.g. Gravestone at Kampung Baru"
+                      />
+                    </div>
+                    <div className="row g-2 mb-2">
+                      <div className="col">
+                        <label htmlFor="mediaDate" className="form-label small">Date</label>
+                        <input
+                          id="mediaDate"
+                          className="form-control form-control-sm"
+                          value={mediaForm.date}
+                          onChange={(e) => setMediaForm({ ...mediaForm, date: e.target.value })}
+                          placeholder={DATE_INPUT_PLACEHOLDER}
+                        />
+                      </div>
+                      <div className="col">
+                        <label htmlFor="mediaEvent" className="form-label small">Shows</label>
+                        <select
+                          id="mediaEvent"
+                          className="form-select form-select-sm"
+                          value={mediaForm.eventId}
+                          onChange={(e) => setMediaForm({ ...mediaForm, eventId: e.target.value })}
+                        >
+                          <option value="">{person.name}</option>
+                          {sortLifeEvents(person.events ?? []).map((event) => (
+                            <option key={event.eventId} value={event.eventId}>{lifeEventLabel(event)}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                    {!mediaForm.eventId && (!mediaForm.file || isImageMedia(mediaForm.file.type)) && (
+                      <div className="form-check mb-2">
+                        <input
+                          id="mediaPortrait"
+                          type="checkbox"
+                          className="form-check-input"
+                          checked={mediaForm.portrait}
+                          onChange={(e) => setMediaForm({ ...mediaForm, portrait: e.target.checked })}
+                        />
+                        <label htmlFor="mediaPortrait" className="form-check-label small">Use as portrait on the tree</label>
+                      </div>
+                    )}
+                    <div className="d-flex gap-2">
+                      <button
+                        type="button"
+                        className="btn btn-primary btn-sm"
+                        onClick={handleUploadMedia}
+                        disabled={savingMedia}
+                      >
+                        {savingMedia ? 'Uploading...' : 'Upload'}
+                      </button>
+                      <button
+                        type="button"
+                        className="btn btn-outline-secondary btn-sm"
+                        onClick={() => {
+                          setMediaForm(null);
+                          setMediaError(null);
+                        }}
+                        disabled={savingMedia}
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -1,5 +1,6 @@
 import React from 'react';
 import type { CreatePersonPayload } from '../api';
+import { DATE_INPUT_HELP, DATE_INPUT_PLACEHOLDER, validateLifeDates } from '../utils/genealogicalDate';
 
 export type PersonFormProps = {
   value: CreatePersonPayload;
@@ -17,15 +18,7 @@ export function validatePersonForm(value: CreatePersonPayload): string | null {
   }
   if (!value.name || value.name.trim() === '') return 'Name is required';
   if (!value.gender) return 'Gender is required';
-  if (value.birthDate && value.deathDate) {
-    const b = new Date(value.birthDate);
-    const d = new Date(value.deathDate);
-    if (Number.isNaN(b.getTime()) || Number.isNaN(d.getTime())) {
-      return 'Invalid date format';
-    }
-    if (d < b) return 'Death date must be after or equal to birth date';
-  }
-  return null;
+  return validateLifeDates(value.birthDate, value.deathDate);
 }
 
 export const PersonForm: React.FC<PersonFormProps> = ({ value, onChange, disabled, showPersonId = true, readonlyPersonId = false, errors = {} }) => {
@@ -99,12 +92,12 @@ export const PersonForm: React.FC<PersonFormProps> = ({ value, onChange, disable
             Birth Date
           </label>
           <input
-            type="date"
             id="pf_birthDate"
             className={getClassName('birthDate')}
             value={value.birthDate || ''}
             onChange={(e) => update('birthDate', e.target.value)}
             disabled={disabled}
+            placeholder={DATE_INPUT_PLACEHOLDER}
           />
           {errors.birthDate && <div className="invalid-feedback d-block">{errors.birthDate}</div>}
         </div>
@@ -113,16 +106,17 @@ export const PersonForm: React.FC<PersonFormProps> = ({ value, onChange, disable
             Death Date
           </label>
           <input
-            type="date"
             id="pf_deathDate"
             className={getClassName('deathDate')}
             value={value.deathDate || ''}
             onChange={(e) => update('deathDate', e.target.value)}
             disabled={disabled}
+            placeholder={DATE_INPUT_PLACEHOLDER}
           />
           {errors.deathDate && <div className="invalid-feedback d-block">{errors.deathDate}</div>}
         </div>
       </div>
+      <div className="form-text">{DATE_INPUT_HELP}</div>
 
       <div className="mt-3">
         <label htmlFor="pf_birthPlace" className="form-label">
@@ -83,9 +83,21 @@ export const PersonSearch: React.FC<PersonSearchProps> = ({
   const filtered = useMemo(() => {
     const q = query.trim().toLowerCase();
     if (!q) return nodes;
-    return nodes.filter((n) => n.displayName.toLowerCase().includes(q) || n.id.toLowerCase().includes(q));
+    return nodes.filter(
+      (n) =>
+        n.displayName.toLowerCase().includes(q) ||
+        n.id.toLowerCase().includes(q) ||
+        (n.altNames ?? []).some((alt) => alt.toLowerCase().includes(q)),
+    );
   }, [nodes, query]);
 
+  // Show which other name matched when the display name itself did not
+  const matchedAltName = (n: RenderNode): string | null => {
+    const q = query.trim().toLowerCase();
+    if (!q || n.displayName.toLowerCase().includes(q)) return null;
+    return (n.altNames ?? []).find((alt) => alt.toLowerCase().includes(q)) ?? null;
+  };
+
   const total = filtered.length;
   const visibleCount = Math.max(1, Math.floor(height / itemHeight));
   const startIndex = Math.max(0, Math.floor(scrollTop / itemHeight));
@@ -153,6 +165,7 @@ export const PersonSearch: React.FC<PersonSearchProps> = ({
           const selected = globalIndex === highlightIndex;
           const related = isRelated(n.id);
           const pathText = getPathText(n.id);
+          const altName = matchedAltName(n);
           return (
             <div
               key={n.id}
@@ -168,7 +181,14 @@ export const PersonSearch: React.FC<PersonSearchProps> = ({
                 <div className="rounded-circle" style={{ width: 40, height: 40, background: '#ccc' }} />
               </div>
               <div className="flex-grow-1">
-                <div className="fw-semibold">{n.displayName}</div>
+                <div className="fw-semibold">
+                  {n.displayName}
+                  {altName && (
+                    <span className={`fw-normal small ms-2 ${selected ? 'text-white-50' : 'text-muted'}`}>
+                      also known as {altName}
+                    </span>
+                  )}
+                </div>
                 <div className={`small ${selected ? 'text-white-50' : 'text-muted'}`}>
                   {/* Birth/Death not available in render nodes; placeholder only */}
                   Birth/Death: —
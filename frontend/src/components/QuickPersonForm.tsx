@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import type { CreatePersonPayload } from '../api';
+import { DATE_INPUT_PLACEHOLDER } from '../utils/genealogicalDate';
 
 export type QuickPersonFormProps = {
   onSubmit: (payload: CreatePersonPayload) => Promise<void>;
@@ -36,8 +37,8 @@ export const QuickPersonForm: React.FC<QuickPersonFormProps> = ({ onSubmit, load
         <option value="FEMALE">Female</option>
         <option value="UNKNOWN">Unknown</option>
       </select>
-      <input type="date" className="form-control" value={birthDate} onChange={e => setBirthDate(e.target.value)} placeholder="Birth Date" />
-      <input type="date" className="form-control" value={deathDate} onChange={e => setDeathDate(e.target.value)} placeholder="Death Date" />
+      <input className="form-control" value={birthDate} onChange={e => setBirthDate(e.target.value)} placeholder={`Birth Date (${DATE_INPUT_PLACEHOLDER})`} />
+      <input className="form-control" value={deathDate} onChange={e => setDeathDate(e.target.value)} placeholder="Death Date" />
       <button type="submit" className="btn btn-success" disabled={loading}>{loading ? 'Creating…' : 'Create and Link'}</button>
     </form>
   );
@@ -1,17 +1,92 @@
-import React from 'react';
-import type { RenderEdgeData } from '../api';
+import React, { useEffect, useState } from 'react';
+import type { MarriageStatus, RenderEdgeData } from '../api';
+import { GenealogyCommandBus } from '../commands/genealogyCommands';
+import { toDateInputText } from '../utils/genealogicalDate';
+import { MARRIAGE_STATUS_OPTIONS, hasDivorceDetails, validateMarriageDates } from '../utils/marriage';
 
 type RelationshipEditDrawerProps = {
   open: boolean;
   edge: RenderEdgeData | null;
+  treeId?: string; // required to edit marriage details on spouse edges
   onClose: () => void;
   onDelete?: (edge: RenderEdgeData) => Promise<void> | void;
+  onSaved?: (edge: RenderEdgeData) => Promise<void> | void;
 };
 
 import { withErrorBoundary } from '../utils/withErrorBoundary';
 
-const RelationshipEditDrawerInner: React.FC<RelationshipEditDrawerProps> = ({ open, edge, onClose, onDelete }) => {
+type MarriageForm = {
+  status: MarriageStatus;
+  marriageDate: string;
+  marriagePlace: string;
+  divorceDate: string;
+  divorcePlace: string;
+  personAOrder: string;
+  personBOrder: string;
+};
+
+const toMarriageForm = (edge: RenderEdgeData | null): MarriageForm => {
+  const m = edge?.marriage;
+  return {
+    status: m?.status ?? 'MARRIED',
+    marriageDate: toDateInputText(m?.marriageDate ?? null),
+    marriagePlace: m?.marriagePlace ?? '',
+    divorceDate: toDateInputText(m?.divorceDate ?? null),
+    divorcePlace: m?.divorcePlace ?? '',
+    personAOrder: String(m?.personAOrder ?? 1),
+    personBOrder: String(m?.personBOrder ?? 1),
+  };
+};
+
+const RelationshipEditDrawerInner: React.FC<RelationshipEditDrawerProps> = ({ open, edge, treeId, onClose, onDelete, onSaved }) => {
   const canDelete = !!onDelete && !!edge;
+  const canEditMarriage = edge?.type === 'spouse' && !!treeId;
+  const [form, setForm] = useState<MarriageForm>(() => toMarriageForm(edge));
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setForm(toMarriageForm(edge));
+    setError(null);
+  }, [edge]);
+
+  const set = (field: keyof MarriageForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setForm((f) => ({ ...f, [field]: e.target.value }));
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!edge || !treeId) return;
+    const divorced = hasDivorceDetails(form.status);
+    const invalid = validateMarriageDates(form.marriageDate || null, divorced ? form.divorceDate || null : null);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    const order = (value: string) => (value.trim() ? Number(value) : undefined);
+    setSaving(true);
+    setError(null);
+    const result = await GenealogyCommandBus.updateSpouseRelationship({
+      treeId,
+      personAId: edge.source,
+      personBId: edge.target,
+      marriage: {
+        status: form.status,
+        marriageDate: form.marriageDate.trim() || null,
+        marriagePlace: form.marriagePlace.trim() || null,
+        divorceDate: divorced ? form.divorceDate.trim() || null : null,
+        divorcePlace: divorced ? form.divorcePlace.trim() || null : null,
+        personAOrder: order(form.personAOrder),
+        personBOrder: order(form.personBOrder),
+      },
+    });
+    setSaving(false);
+    if (!result.success) {
+      setError(result.error || 'Failed to update marriage');
+      return;
+    }
+    await onSaved?.(edge);
+  };
+
   return (
     <>
       <div
@@ -36,6 +111,57 @@ const RelationshipEditDrawerInner: React.FC<RelationshipEditDrawerProps> = ({ op
                 <li className="list-group-item">Source: {edge.source}</li>
                 <li className="list-group-item">Target: {edge.target}</li>
               </ul>
+              {canEditMarriage && (
+                <form className="mt-3" onSubmit={handleSave}>
+                  <h6>Marriage</h6>
+                  {error && <div className="alert alert-danger">{error}</div>}
+                  <div className="mb-2">
+                    <label htmlFor="re_status" className="form-label">Status</label>
+                    <select id="re_status" className="form-select" value={form.status} onChange={set('status')} disabled={saving}>
+                      {MARRIAGE_STATUS_OPTIONS.map((o) => (
+                        <option key={o.value} value={o.value}>{o.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="row g-2 mb-2">
+                    <div className="col-6">
+                      <label htmlFor="re_marriageDate" className="form-label">Married</label>
+                      <input id="re_marriageDate" className="form-control" placeholder="e.g. 12 MAR 1950" value={form.marriageDate} onChange={set('marriageDate')} disabled={saving} />
+                    </div>
+                    <div className="col-6">
+                      <label htmlFor="re_marriagePlace" className="form-label">Place</label>
+                      <input id="re_marriagePlace" className="form-control" value={form.marriagePlace} onChange={set('marriagePlace')} disabled={saving} />
+                    </div>
+                  </div>
+                  {hasDivorceDetails(form.status) && (
+                    <div className="row g-2 mb-2">
+                      <div className="col-6">
+                        <label htmlFor="re_divorceDate" className="form-label">Ended</label>
+                        <input id="re_divorceDate" className="form-control" placeholder="e.g. ABT 1958" value={form.divorceDate} onChange={set('divorceDate')} disabled={saving} />
+                      </div>
+                      <div className="col-6">
+                        <label htmlFor="re_divorcePlace" className="form-label">Place</label>
+                        <input id="re_divorcePlace" className="form-control" value={form.divorcePlace} onChange={set('divorcePlace')} disabled={saving} />
+                      </div>
+                    </div>
+                  )}
+                  <div className="row g-2 mb-2">
+                    <div className="col-6">
+                      <label htmlFor="re_personAOrder" className="form-label">Marriage no. for source</label>
+                      <input id="re_personAOrder" type="number" min={1} className="form-control" value={form.personAOrder} onChange={set('personAOrder')} disabled={saving} />
+                    </div>
+                    <div className="col-6">
+                      <label htmlFor="re_personBOrder" className="form-label">Marriage no. for target</label>
+                      <input id="re_personBOrder" type="number" min={1} className="form-control" value={form.personBOrder} onChange={set('personBOrder')} disabled={saving} />
+                    </div>
+                  </div>
+                  <div className="d-flex justify-content-end">
+                    <button type="submit" className="btn btn-primary" disabled={saving}>
+                      {saving ? 'Saving…' : 'Save Marriage'}
+                    </button>
+                  </div>
+                </form>
+              )}
               <div className="mt-3 d-flex justify-content-end gap-2">
                 <button className="btn btn-secondary" onClick={onClose}>Close</button>
                 <button className="btn btn-danger" disabled={!canDelete} onClick={async () => { if (onDelete && edge) await onDelete(edge); }}>
@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { getRelationship, type KinLocale, type Kinship } from '../api';
+import {
+  KIN_LOCALE_NAMES,
+  PATH_STEP_ICONS,
+  PATH_STEP_LABELS,
+  commonAncestorText,
+  kinshipSentence,
+} from '../utils/kinship';
+
+type RelationshipFinderProps = {
+  open: boolean;
+  treeId: string;
+  nodes: ReadonlyArray<{ id: string; displayName: string }>;
+  initialFromId?: string | null;
+  onClose: () => void;
+  onSelectPerson: (personId: string) => void;
+};
+
+/**
+ * "How are we related?": pick two persons, see what the second is to the
+ * first and the path that connects them.
+ */
+export const RelationshipFinder: React.FC<RelationshipFinderProps> = ({
+  open,
+  treeId,
+  nodes,
+  initialFromId,
+  onClose,
+  onSelectPerson,
+}) => {
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [locale, setLocale] = useState<KinLocale>('en');
+  const [kinship, setKinship] = useState<Kinship | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const people = useMemo(() => [...nodes].sort((a, b) => a.displayName.localeCompare(b.displayName)), [nodes]);
+  const nameOf = (id: string) => nodes.find((n) => n.id === id)?.displayName ?? id;
+
+  useEffect(() => {
+    if (open) setFromId(initialFromId ?? '');
+  }, [open, initialFromId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setKinship(null);
+    setError(null);
+    if (!open || !fromId || !toId) return;
+    setLoading(true);
+    getRelationship(treeId, fromId, toId, locale)
+      .then((res) => {
+        if (!cancelled) setKinship(res);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to find the relationship');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, treeId, fromId, toId, locale]);
+
+  const swap = () => {
+    setFromId(toId);
+    setToId(fromId);
+  };
+
+  const through = kinship ? commonAncestorText(kinship) : null;
+
+  return (
+    <>
+      <div
+        className={`offcanvas offcanvas-end ${open ? 'show' : ''}`}
+        tabIndex={-1}
+        id="relationshipFinderOffcanvas"
+        aria-labelledby="relationshipFinderOffcanvasLabel"
+        style={{ visibility: open ? 'visible' : 'hidden', maxWidth: '480px', width: '100%' }}
+      >
+        <div className="offcanvas-header border-bottom">
+          <h5 className="offcanvas-title" id="relationshipFinderOffcanvasLabel">
+            How are we related?
+          </h5>
+          <button type="button" className="btn-close text-reset" onClick={onClose} aria-label="Close"></button>
+        </div>
+        <div className="offcanvas-body">
+          <div className="d-flex align-items-end gap-2 mb-3">
+            <div className="flex-grow-1">
+              <label htmlFor="kinshipFrom" className="form-label small text-muted">
+                Person
+              </label>
+              <select id="kinshipFrom" className="form-select" value={fromId} onChange={(e) => setFromId(e.target.value)}>
+                <option value="">Choose a person…</option>
+                {people.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.displayName}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="button"
+              className="btn btn-outline-secondary"
+              onClick={swap}
+              title="Swap the two persons"
+              aria-label="Swap the two persons"
+            >
+              ⇄
+            </button>
+            <div className="flex-grow-1">
+              <label htmlFor="kinshipTo" className="form-label small text-muted">
+                Relative
+              </label>
+              <select id="kinshipTo" className="form-select" value={toId} onChange={(e) => setToId(e.target.value)}>
+                <option value="">Choose a person…</option>
+                {people.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.displayName}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="d-flex align-items-center gap-2 mb-3">
+            <label htmlFor="kinshipLocale" className="form-label small text-muted mb-0">
+              Kinship terms
+            </label>
+            <select
+              id="kinshipLocale"
+              className="form-select form-select-sm w-auto"
+              value={locale}
+              onChange={(e) => setLocale(e.target.value as KinLocale)}
+            >
+              {(Object.keys(KIN_LOCALE_NAMES) as KinLocale[]).map((l) => (
+                <option key={l} value={l}>
+                  {KIN_LOCALE_NAMES[l]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {loading && <div className="text-muted small">Finding the relationship…</div>}
+          {error && <div className="alert alert-danger">{error}</div>}
+
+          {kinship && (
+            <div className="card">
+              <div className="card-body">
+                {locale !== 'en' && kinship.label && kinship.kind !== 'SELF' ? (
+                  <>
+                    <div className="small text-muted">
+                      What {nameOf(toId)} is to {nameOf(fromId)}:
+                    </div>
+                    <div className="fs-5 fw-semibold mb-1" dir="auto" lang={locale}>
+                      {kinship.label}
+                    </div>
+                  </>
+                ) : (
+                  <div className="fw-semibold mb-1">{kinshipSentence(kinship, nameOf(fromId), nameOf(toId))}</div>
+                )}
+                {kinship.formerSpouse && <div className="small text-muted">Through a marriage that has ended.</div>}
+                {through && <div className="small text-muted">Nearest common ancestor: {through}</div>}
+
+                {kinship.path.length > 1 && (
+                  <ol className="list-unstyled mt-3 mb-0">
+                    {kinship.path.map((step, i) => (
+                      <li key={step.personId} className="d-flex align-items-center gap-2 py-1">
+                        <span className="text-muted" style={{ width: '1.5em', textAlign: 'center' }}>
+                          {step.relation ? PATH_STEP_ICONS[step.relation] : '•'}
+                        </span>
+                        <button
+                          type="button"
+                          className="btn btn-link btn-sm p-0"
+                          onClick={() => onSelectPerson(step.personId)}
+                        >
+                          {step.name}
+                        </button>
+                        {step.relation && (
+                          <span className="small text-muted">
+                            {kinship.path[i - 1].name}'s {PATH_STEP_LABELS[step.relation]}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      {open && <div className="offcanvas-backdrop fade show" onClick={onClose}></div>}
+    </>
+  );
+};
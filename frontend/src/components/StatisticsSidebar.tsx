@@ -8,7 +8,7 @@ interface StatisticsSidebarProps {
 }
 
 const StatisticsSidebar: React.FC<StatisticsSidebarProps> = ({ statistics, treeName, isLoading = false }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'relationships' | 'gender' | 'lifespan' | 'timeline'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'relationships' | 'gender' | 'lifespan' | 'places' | 'timeline'>('overview');
 
   const handleExportCSV = useCallback(() => {
     if (!statistics) return;
@@ -90,6 +90,14 @@ const StatisticsSidebar: React.FC<StatisticsSidebarProps> = ({ statistics, treeN
               Lifespan
             </button>
           </li>
+          <li className="nav-item">
+            <button
+              className={`nav-link ${activeTab === 'places' ? 'active' : ''}`}
+              onClick={() => setActiveTab('places')}
+            >
+              Places
+            </button>
+          </li>
           <li className="nav-item">
             <button
               className={`nav-link ${activeTab === 'timeline' ? 'active' : ''}`}
@@ -105,6 +113,7 @@ const StatisticsSidebar: React.FC<StatisticsSidebarProps> = ({ statistics, treeN
         {activeTab === 'relationships' && <RelationshipsTab stats={statistics} />}
         {activeTab === 'gender' && <GenderTab stats={statistics} />}
         {activeTab === 'lifespan' && <LifespanTab stats={statistics} />}
+        {activeTab === 'places' && <PlacesTab stats={statistics} />}
         {activeTab === 'timeline' && <TimelineTab stats={statistics} />}
       </div>
     </div>
@@ -289,6 +298,47 @@ const LifespanTab: React.FC<{ stats: TreeStatistics }> = ({ stats }) => (
 );
 
 // Timeline Tab Component
+// Places Tab Component
+const PlacesTab: React.FC<{ stats: TreeStatistics }> = ({ stats }) => (
+  <div>
+    {stats.placeStats.totalPlaces === 0 ? (
+      <p className="text-muted small">No places recorded</p>
+    ) : (
+      <>
+        <div className="mb-3 p-2 bg-light rounded">
+          <small className="text-muted">Places</small>
+          <h6 className="text-dark mb-0">{stats.placeStats.totalPlaces}</h6>
+          <small className="text-muted">{stats.placeStats.placesWithCoordinates} with coordinates</small>
+        </div>
+
+        {stats.placeStats.topPlaces.length > 0 && (
+          <div className="mb-3">
+            <small className="text-muted d-block mb-2">Most Recorded Places</small>
+            {stats.placeStats.topPlaces.map(place => (
+              <div key={place.id} className="d-flex justify-content-between align-items-start mb-1 small">
+                <span>{place.name}</span>
+                <span className="badge bg-primary ms-2">{place.count}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {stats.placeStats.topRegions.length > 0 && (
+          <div className="mb-3">
+            <small className="text-muted d-block mb-2">By Country or Region</small>
+            {stats.placeStats.topRegions.map(region => (
+              <div key={region.id} className="d-flex justify-content-between align-items-start mb-1 small">
+                <span>{region.name}</span>
+                <span className="badge bg-success ms-2">{region.count}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </>
+    )}
+  </div>
+);
+
 const TimelineTab: React.FC<{ stats: TreeStatistics }> = ({ stats }) => (
   <div>
     {stats.timelineEvents.length === 0 ? (
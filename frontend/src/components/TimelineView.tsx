@@ -1,6 +1,21 @@
 import React, { useEffect, useRef, useState, useMemo } from 'react';
 import * as d3 from 'd3';
 import type { TreeViewModel } from '../adapters/renderDataAdapter';
+import type { LifeEvent } from '../api';
+import {
+  dateYear,
+  formatAlternateCalendar,
+  formatGenealogicalDate,
+  type GenealogicalDateValue,
+} from '../utils/genealogicalDate';
+import { formatLifeEventSummary } from '../utils/lifeEvents';
+
+/** Recorded dates for a person, when loaded */
+export type PersonDates = {
+  birthDate?: GenealogicalDateValue | null;
+  deathDate?: GenealogicalDateValue | null;
+  events?: readonly LifeEvent[];
+};
 
 type TimelineViewProps = {
   data: TreeViewModel;
@@ -8,6 +23,7 @@ type TimelineViewProps = {
   onNodeClick: (personId: string) => void;
   relatedEdgeIds: Set<string>;
   directRelativeIds?: Set<string>;
+  personDates?: ReadonlyMap<string, PersonDates>;
 };
 
 type PersonLifespan = {
@@ -15,10 +31,20 @@ type PersonLifespan = {
   displayName: string;
   birthYear: number | null;
   deathYear: number | null;
+  birthLabel: string;
+  deathLabel: string | null;
   generation: number;
-  events: Array<{ type: 'birth' | 'marriage' | 'death'; year: number; label: string }>;
+  // 'event': a dated life event (burial, residence, Hajj, ...)
+  events: Array<{ type: 'birth' | 'marriage' | 'death' | 'event'; year: number; label: string }>;
 };
 
+/** "12 Rabi' al-Awwal 1320 AH (19 Jun 1902)" */
+function formatBothCalendars(value: GenealogicalDateValue): string {
+  const alternate = formatAlternateCalendar(value);
+  const primary = formatGenealogicalDate(value);
+  return alternate ? `${primary} (${alternate})` : primary;
+}
+
 const COLORS = [
   '#1f77b4', '#ff7f0e', '#2ca02c', '#d62728', '#9467bd',
   '#8c564b', '#e377c2', '#7f7f7f', '#bcbd22', '#17becf'
@@ -30,6 +56,7 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
   onNodeClick,
   relatedEdgeIds,
   directRelativeIds,
+  personDates,
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const [currentTransform, setCurrentTransform] = useState<d3.ZoomTransform>(d3.zoomIdentity);
@@ -73,23 +100,33 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
     return data.nodes.map(node => {
       const events: PersonLifespan['events'] = [];
 
-      // For now, generate estimated dates based on generation
-      // In a real implementation, this would come from the API with full person data
+      // Recorded dates win; otherwise estimate from generation
+      const recorded = personDates?.get(node.id);
       const generation = generations.get(node.id) ?? 0;
       const baseYear = 1920;
       const generationSpan = 30;
       const estimatedBirth = baseYear + (generation * generationSpan) + Math.floor(Math.random() * 20);
       const estimatedDeath = estimatedBirth + 70 + Math.floor(Math.random() * 20);
 
-      const birthYear = estimatedBirth;
-      const deathYear = estimatedDeath > new Date().getFullYear() ? null : estimatedDeath;
+      const recordedBirth = dateYear(recorded?.birthDate);
+      const recordedDeath = dateYear(recorded?.deathDate);
+      const birthYear = recordedBirth ?? estimatedBirth;
+      const deathYear = recordedDeath ?? (recordedBirth !== null || estimatedDeath > new Date().getFullYear() ? null : estimatedDeath);
+      const birthLabel = recordedBirth !== null ? formatBothCalendars(recorded!.birthDate!) : `${birthYear}`;
+      const deathLabel = recordedDeath !== null ? formatBothCalendars(recorded!.deathDate!) : deathYear ? `${deathYear}` : null;
 
       if (birthYear) {
-        events.push({ type: 'birth', year: birthYear, label: `Born ${birthYear}` });
+        events.push({ type: 'birth', year: birthYear, label: `Born ${birthLabel}` });
       }
 
       if (deathYear) {
-        events.push({ type: 'death', year: deathYear, label: `Died ${deathYear}` });
+        events.push({ type: 'death', year: deathYear, label: `Died ${deathLabel}` });
+      }
+
+      // Undated life events have no place on the axis
+      for (const event of recorded?.events ?? []) {
+        const year = dateYear(event.date);
+        if (year !== null) events.push({ type: 'event', year, label: formatLifeEventSummary(event) });
       }
 
       // Find marriage years from spouse edges
@@ -110,11 +147,13 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
         displayName: node.displayName,
         birthYear,
         deathYear,
+        birthLabel,
+        deathLabel,
         generation: generations.get(node.id) ?? 0,
         events,
       };
     }); // Show all people with estimated dates
-  }, [data.nodes, data.edges, generations]);
+  }, [data.nodes, data.edges, generations, personDates]);
 
   // Calculate year range
   const yearRange = useMemo(() => {
@@ -233,8 +272,8 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
     // Add tooltips
     bars.append('title')
       .text(d => {
-        const birth = d.birthYear || '?';
-        const death = d.deathYear || 'present';
+        const birth = d.birthYear ? d.birthLabel : '?';
+        const death = d.deathLabel || 'present';
         return `${d.displayName}\n${birth} - ${death}`;
       });
 
@@ -255,7 +294,7 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
       const size = 4;
 
       // Clear any previous shapes
-      group.selectAll('path, circle').remove();
+      group.selectAll('path, circle, rect').remove();
 
       let marker;
       switch (d.type) {
@@ -273,11 +312,18 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
             .attr('stroke-width', 2)
             .attr('stroke-linecap', 'round');
           break;
+        case 'event':
+          marker = group.append('rect')
+            .attr('x', -size + 1)
+            .attr('y', -size + 1)
+            .attr('width', (size - 1) * 2)
+            .attr('height', (size - 1) * 2);
+          break;
       }
       
       if (marker) {
         marker
-          .attr('fill', d.type === 'death' ? 'none' : (d.type === 'birth' ? '#28a745' : '#ffc107'))
+          .attr('fill', d.type === 'death' ? 'none' : (d.type === 'birth' ? '#28a745' : d.type === 'event' ? '#6f42c1' : '#ffc107'))
           .attr('stroke', d.type === 'death' ? '#dc3545' : '#fff')
           .attr('stroke-width', 1.5)
           .style('cursor', 'pointer');
@@ -296,6 +342,7 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
       { type: 'birth', label: 'Birth', color: '#28a745' },
       { type: 'marriage', label: 'Marriage', color: '#ffc107' },
       { type: 'death', label: 'Death', color: '#dc3545' },
+      { type: 'event', label: 'Life event', color: '#6f42c1' },
     ];
 
     legendData.forEach((item, i) => {
@@ -327,6 +374,16 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
             .attr('fill', 'none')
             .attr('stroke', item.color);
           break;
+        case 'event':
+          legendRow.append('rect')
+            .attr('x', -size + 1)
+            .attr('y', -size + 1)
+            .attr('width', (size - 1) * 2)
+            .attr('height', (size - 1) * 2)
+            .attr('fill', item.color)
+            .attr('stroke', '#fff')
+            .attr('stroke-width', 1.5);
+          break;
       }
 
       legendRow.append('text')
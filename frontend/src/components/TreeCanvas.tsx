@@ -10,6 +10,9 @@ import { getLODLevel, shouldRenderNode, filterEdgesForLOD, getNodeLabel, calcula
 import { getGlobalLayoutCache, generateCacheKey } from '../utils/layoutCache';
 import { getGlobalMonitor } from '../utils/performanceMonitor';
 import { VirtualRenderer, RenderQueue, IntersectionDetector } from '../utils/virtualRendering';
+import { parentChildDashArray, parentChildTypeLabel } from '../utils/parentChildTypes';
+import { spouseDashArray, spouseEdgeTitle } from '../utils/marriage';
+import { frameTransform } from '../utils/kinPath';
 
 export type TreeCanvasRef = {
   exportSVG: (filename: string, includeMetadata?: boolean) => void;
@@ -21,6 +24,8 @@ type TreeCanvasProps = {
   data: TreeViewModel;
   selectedPersonId: string | null;
   relatedEdgeIds: Set<string>;
+  /** Persons on a highlighted path, in order; the view is framed on them */
+  pathPersonIds?: readonly string[];
   onNodeClick: (personId: string) => void;
   onEdgeClick?: (edge: ViewEdge) => void;
   directRelativeIds?: Set<string>;
@@ -39,12 +44,13 @@ type NodeDatum = d3.SimulationNodeDatum & {
   displayName: string;
 };
 
-type EdgeDatum = d3.SimulationLinkDatum<NodeDatum> & RenderEdgeData;
+type EdgeDatum = d3.SimulationLinkDatum<NodeDatum> & ViewEdge;
 
 export const TreeCanvas = forwardRef<TreeCanvasRef, TreeCanvasProps>(({
   data,
   selectedPersonId,
   relatedEdgeIds,
+  pathPersonIds,
   onNodeClick,
   onEdgeClick,
   directRelativeIds,
@@ -599,6 +605,7 @@ export const TreeCanvas = forwardRef<TreeCanvasRef, TreeCanvasProps>(({
       svg.selectAll('*').remove();
 
       const nodesData: NodeDatum[] = filteredNodes.map((d) => ({ ...d }));
+      const onPath = new Set(pathPersonIds ?? []);
       const edgesData: EdgeDatum[] = filteredEdges.map((d) => ({ ...d }));
 
       // Apply orientation-specific force configuration
@@ -642,6 +649,29 @@ export const TreeCanvas = forwardRef<TreeCanvasRef, TreeCanvasProps>(({
       const g = svg.append('g').attr('class', 'main-group');
 
       const edgesGroup = g.append('g').attr('class', 'edges');
+      // Parent-child lines are dashed by subtype (adoptive, step, foster, guardian, milk);
+      // spouse lines are dotted once the marriage has ended
+      const edges = edgesGroup
+        .selectAll<SVGLineElement, EdgeDatum>('line.edge')
+        .data(layoutEdges)
+        .join('line')
+        .attr('class', (d) => `edge edge-${d.type}${d.subtype ? ` edge-${d.subtype.toLowerCase()}` : ''}`)
+        .attr('stroke', (d) => (relatedEdgeIds.has(d.id) ? ACCENT_COLOR : d.type === 'spouse' ? 'var(--bs-info)' : '#999'))
+        .attr('stroke-width', (d) => (relatedEdgeIds.has(d.id) ? 2.5 : 1.5))
+        .attr('stroke-dasharray', (d) =>
+          d.type === 'parent-child' ? parentChildDashArray(d.subtype) : spouseDashArray(d.marriage)
+        )
+        .attr('cursor', onEdgeClick ? 'pointer' : null)
+        .on('click', (_, d) => onEdgeClick?.(d));
+
+      edges
+        .filter((d) => d.type === 'parent-child')
+        .append('title')
+        .text((d) => `${parentChildTypeLabel(d.subtype)} parent`);
+      edges
+        .filter((d) => d.type === 'spouse')
+        .append('title')
+        .text((d) => spouseEdgeTitle(d.marriage));
       const nodesGroup = g
         .append('g')
         .selectAll('g.node')
@@ -720,9 +750,10 @@ export const TreeCanvas = forwardRef<TreeCanvasRef, TreeCanvasProps>(({
             ? 'var(--bs-primary-bg-subtle)'
             : 'var(--bs-light)'
         )
-        .attr('stroke', (d) => (d.id === selectedPersonId ? ACCENT_COLOR : 'var(--bs-primary)'))
-        .attr('stroke-width', (d) => (d.id === selectedPersonId ? 2.5 : 1.5))
+        .attr('stroke', (d) => (d.id === selectedPersonId || onPath.has(d.id) ? ACCENT_COLOR : 'var(--bs-primary)'))
+        .attr('stroke-width', (d) => (d.id === selectedPersonId || onPath.has(d.id) ? 2.5 : 1.5))
         .attr('opacity', (d) => {
+          if (onPath.size > 0) return onPath.has(d.id) ? 1 : 0.35;
           if (!selectedPersonId) return 1;
           return d.id === selectedPersonId || (directRelativeIds && directRelativeIds.has(d.id)) ? 1 : 0.35;
         });
@@ -883,6 +914,19 @@ export const TreeCanvas = forwardRef<TreeCanvasRef, TreeCanvasProps>(({
       svg.call(zoom as any);
       svg.style('opacity', 1);
 
+      // Frame a highlighted path
+      const frame = frameTransform(
+        layoutNodes.filter((d) => onPath.has(d.id)).map((d) => ({ x: d.x ?? 0, y: d.y ?? 0 })),
+        width,
+        height,
+      );
+      if (frame) {
+        svg
+          .transition()
+          .duration(500)
+          .call(zoom.transform as any, d3.zoomIdentity.translate(frame.x, frame.y).scale(frame.k));
+      }
+
       // End performance measurement
       monitor.endOperation(renderOpId);
       const duration = monitor.getOperationMetrics(`render-tree-${data.nodes.length}-nodes`)?.duration || 0;
@@ -894,7 +938,7 @@ export const TreeCanvas = forwardRef<TreeCanvasRef, TreeCanvasProps>(({
     return () => {
       // Cleanup handled by D3 selections
     };
-  }, [filteredNodes, filteredEdges, selectedPersonId, relatedEdgeIds, onNodeClick, layoutOrientation, collapsedNodes, parentNodes, descendantCounts, toggleCollapse]);
+  }, [filteredNodes, filteredEdges, selectedPersonId, relatedEdgeIds, pathPersonIds, onNodeClick, onEdgeClick, layoutOrientation, collapsedNodes, parentNodes, descendantCounts, toggleCollapse]);
 
   return (
     <>
@@ -2,6 +2,7 @@ import React, { useEffect, useMemo, useRef, useState, forwardRef, useImperativeH
 import * as d3 from 'd3';
 import type { TreeViewModel } from '../adapters/renderDataAdapter';
 import { renderGenealogyNode } from './GenealogyNodeRenderer';
+import { publicMediaThumbnailUrl } from '../api';
 import type { LayoutResponse } from '../workers/treeLayoutWorker';
 // For very large trees, offload layout computation to a worker
 // Worker will accept nodes/edges and orientation, and return positioned hierarchy
@@ -98,6 +99,14 @@ export const TreeHierarchicalCanvas = forwardRef<TreeHierarchicalCanvasRef, Tree
     return m;
   }, [data.nodes]);
 
+  const idToPhotoUrl = useMemo(() => {
+    const m = new Map<string, string>();
+    data.nodes.forEach((n) => {
+      if (n.portraitMediaId) m.set(n.id, publicMediaThumbnailUrl(data.treeId, n.portraitMediaId));
+    });
+    return m;
+  }, [data.treeId, data.nodes]);
+
   const rootId = useMemo(() => {
     if (rootPersonId) return rootPersonId;
     const children = new Set(parentChildEdges.map((e) => e.target));
@@ -335,7 +344,7 @@ export const TreeHierarchicalCanvas = forwardRef<TreeHierarchicalCanvasRef, Tree
       depth: d.depth,
       x: d.x,
       y: d.y,
-      data: { id: d.id, name: d.name },
+      data: { id: d.id, name: d.name, photoUrl: idToPhotoUrl.get(d.id) ?? null },
     }));
 
     // Early return if no layout data available yet
@@ -1,17 +1,23 @@
 import React, { useMemo, useState, useEffect, useCallback, useRef } from 'react';
 import { Link, useParams } from 'react-router-dom';
-import { getPublicRenderData } from '../api';
+import { getPublicRenderData, getPersonDetails, getPlaces, type KinPath, type PersonDetails, type Place } from '../api';
 import { GenealogyCommandBus } from '../commands/genealogyCommands';
 import { RenderDataAdapter, type TreeViewModel, type HierarchyViewModel } from '../adapters/renderDataAdapter';
 import { TreeCanvas, TreeCanvasRef } from './TreeCanvas';
 import { HierarchicalTreeCanvas } from './HierarchicalTreeCanvas';
 import { PersonDetailsDrawer } from './PersonDetailsDrawer';
+import { RelationshipFinder } from './RelationshipFinder';
+import { ConsanguinityPanel } from './ConsanguinityPanel';
+import { MahramChecker } from './MahramChecker';
+import { KinPathPanel } from './KinPathPanel';
+import { pathEdgeIds } from '../utils/kinPath';
 import { AddPersonDrawer } from './AddPersonDrawer';
 import { RelationshipManager } from './RelationshipManager';
 import { FamilyNode } from './PersonRelationships';
 import { RelationshipEditDrawer } from './RelationshipEditDrawer';
 import { EditPersonDrawer } from './EditPersonDrawer';
 import { TimelineView } from './TimelineView';
+import { MapView } from './MapView';
 import { useUndoRedo, UndoRedoAction } from '../hooks/useUndoRedo';
 import { useToast } from './ToastNotification';
 import { useCollaboration } from '../context/CollaborationContext';
@@ -21,13 +27,20 @@ import TreeActivityFeed from './TreeActivityFeed';
 import { EditConflictWarning, EditConflictModal, PersonEditingIndicator } from './EditConflictWarning';
 import StatisticsSidebar from './StatisticsSidebar';
 import { calculateTreeStatistics, type TreeStatistics, type PersonStats } from '../utils/statisticsCalculator';
+import type { UnplacedPlace } from '../utils/mapData';
+import type { Coordinates } from '../utils/placeCoordinates';
+import { matchPlace } from '../utils/places';
 
-type ViewMode = 'network' | 'tree-vertical' | 'tree-horizontal' | 'timeline';
+type ViewMode = 'network' | 'tree-vertical' | 'tree-horizontal' | 'timeline' | 'map';
 
 function Toolbar({ 
   treeId, 
   onAddPerson, 
   onAddRelationship,
+  onFindRelationship,
+  onFindPath,
+  onConsanguinity,
+  onCheckMahram,
   viewMode, 
   onChangeView,
   onZoomIn,
@@ -53,6 +66,10 @@ function Toolbar({
   treeId: string; 
   onAddPerson: () => void; 
   onAddRelationship: () => void;
+  onFindRelationship: () => void;
+  onFindPath: () => void;
+  onConsanguinity: () => void;
+  onCheckMahram: () => void;
   viewMode: ViewMode; 
   onChangeView: (m: ViewMode) => void;
   onZoomIn: () => void;
@@ -165,6 +182,14 @@ function Toolbar({
             >
               📅 Timeline
             </button>
+            <button
+              type="button"
+              className={`btn btn-outline-secondary ${viewMode === 'map' ? 'active' : ''}`}
+              onClick={() => onChangeView('map')}
+              title="Map View"
+            >
+              🗺️ Map
+            </button>
           </div>
           {viewMode === 'network' && onLayoutChange && (
             <div className="btn-group" role="group" aria-label="Network layout orientation">
@@ -308,6 +333,38 @@ function Toolbar({
                 ↷ Redo
               </button>
             </div>
+            <button
+              type="button"
+              className="btn btn-outline-secondary"
+              onClick={onFindRelationship}
+              title="How are we related?"
+            >
+              🔗 Related?
+            </button>
+            <button
+              type="button"
+              className="btn btn-outline-secondary"
+              onClick={onFindPath}
+              title="Shortest path between two persons"
+            >
+              🧭 Path
+            </button>
+            <button
+              type="button"
+              className="btn btn-outline-secondary"
+              onClick={onConsanguinity}
+              title="Coefficients of relationship and inbreeding"
+            >
+              🧬 Consanguinity
+            </button>
+            <button
+              type="button"
+              className="btn btn-outline-secondary"
+              onClick={onCheckMahram}
+              title="Is this person mahram? (blood, milk kinship, marriage)"
+            >
+              Mahram?
+            </button>
             <div className="btn-group" role="group" aria-label="Add actions">
               <button onClick={onAddPerson} className="btn btn-primary">
                 + Add Person
@@ -384,6 +441,11 @@ export function TreeViewer() {
   const [selectedPersonId, setSelectedPersonId] = useState<string | null>(null);
   const [addDrawerOpen, setAddDrawerOpen] = useState(false);
   const [relationshipManagerOpen, setRelationshipManagerOpen] = useState(false);
+  const [relationshipFinderOpen, setRelationshipFinderOpen] = useState(false);
+  const [kinPathOpen, setKinPathOpen] = useState(false);
+  const [consanguinityOpen, setConsanguinityOpen] = useState(false);
+  const [mahramCheckerOpen, setMahramCheckerOpen] = useState(false);
+  const [kinPath, setKinPath] = useState<KinPath | null>(null);
   const [edgeEditorOpen, setEdgeEditorOpen] = useState(false);
   const [selectedEdge, setSelectedEdge] = useState<RenderEdgeData | null>(null);
   const [editDrawerOpen, setEditDrawerOpen] = useState(false);
@@ -411,6 +473,8 @@ export function TreeViewer() {
 
   // Statistics state
   const [statistics, setStatistics] = useState<TreeStatistics | null>(null);
+  const [personDetails, setPersonDetails] = useState<Map<string, PersonDetails> | undefined>(undefined);
+  const [mapPlaces, setMapPlaces] = useState<Place[]>([]);
   const [statisticsLoading, setStatisticsLoading] = useState(false);
   const [showStatistics, setShowStatistics] = useState(true);
   const [sidebarTab, setSidebarTab] = useState<'activity' | 'help'>('activity');
@@ -560,6 +624,59 @@ export function TreeViewer() {
     };
   }, [editDrawerOpen, selectedPersonId, treeId, collaboration, addToast]);
 
+  // Load recorded dates and places for the timeline and map (render data carries structure only)
+  useEffect(() => {
+    if ((viewMode !== 'timeline' && viewMode !== 'map') || !data || data.nodes.length === 0) return;
+    let cancelled = false;
+    Promise.all(
+      data.nodes.map((node) =>
+        getPersonDetails(treeId, node.id)
+          .then((p) => [node.id, p] as const)
+          .catch(() => null)
+      )
+    ).then((entries) => {
+      if (cancelled) return;
+      const details = new Map<string, PersonDetails>();
+      entries.forEach((entry) => entry && details.set(entry[0], entry[1]));
+      setPersonDetails(details);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [viewMode, data, treeId]);
+
+  // Load the gazetteer for the map; without it places come from the bundled lookup only
+  const loadMapPlaces = useCallback(async () => {
+    setMapPlaces(await getPlaces(treeId).catch(() => []));
+  }, [treeId]);
+
+  useEffect(() => {
+    if (viewMode === 'map') loadMapPlaces();
+  }, [viewMode, loadMapPlaces]);
+
+  // Pins a place the map cannot place: its gazetteer place gets the coordinates,
+  // or a new place is made from the most specific part of the text
+  const handlePinPlace = useCallback(
+    async (unplaced: UnplacedPlace, coordinates: Coordinates) => {
+      const existing = unplaced.placeId
+        ? mapPlaces.find((p) => p.placeId === unplaced.placeId)
+        : matchPlace(unplaced.place, mapPlaces);
+      const result = existing
+        ? await GenealogyCommandBus.updatePlace({ treeId, placeId: existing.placeId, place: coordinates })
+        : await GenealogyCommandBus.createPlace({
+            treeId,
+            place: { name: unplaced.place.split(',')[0].trim(), ...coordinates },
+          });
+      if (!result.success) {
+        addToast(result.error || 'Failed to pin place', 'error');
+        return;
+      }
+      addToast(`Pinned ${unplaced.place}`, 'success');
+      await loadMapPlaces();
+    },
+    [treeId, mapPlaces, addToast, loadMapPlaces]
+  );
+
   // Calculate statistics from tree data
   useEffect(() => {
     if (!data || data.nodes.length === 0) {
@@ -582,7 +699,9 @@ export function TreeViewer() {
           });
         });
 
-        const stats = calculateTreeStatistics(data, personStatsMap);
+        // Place counts come from the gazetteer; a tree without one just has no places
+        const places = await getPlaces(treeId).catch(() => []);
+        const stats = calculateTreeStatistics(data, personStatsMap, places);
         setStatistics(stats);
       } catch (error) {
         console.error('Failed to calculate statistics:', error);
@@ -593,7 +712,7 @@ export function TreeViewer() {
     };
 
     calculateStats();
-  }, [data]);
+  }, [data, treeId]);
 
   const directRelativeIds = useMemo(() => {
     const set = new Set<string>();
@@ -604,6 +723,17 @@ export function TreeViewer() {
     return set;
   }, [selectedPersonId, parents, children, spouses]);
 
+  // A path, when one is shown, takes over the highlight from the selected person's edges
+  const relatedEdgeIds = useMemo(() => {
+    if (!data) return new Set<string>();
+    if (kinPath) return pathEdgeIds(kinPath.path, data.edges);
+    return new Set(
+      data.edges.filter((e) => e.source === selectedPersonId || e.target === selectedPersonId).map((e) => e.id),
+    );
+  }, [data, kinPath, selectedPersonId]);
+
+  const pathPersonIds = useMemo(() => kinPath?.path.map((step) => step.personId), [kinPath]);
+
   const handleEdgeClick = useCallback((edge: RenderEdgeData) => {
     setSelectedEdge(edge);
     setEdgeEditorOpen(true);
@@ -654,12 +784,16 @@ export function TreeViewer() {
         onAddRelationship={() => {
           setRelationshipManagerOpen(true);
         }}
+        onFindRelationship={() => setRelationshipFinderOpen(true)}
+        onFindPath={() => setKinPathOpen((open) => !open)}
+        onConsanguinity={() => setConsanguinityOpen(true)}
+        onCheckMahram={() => setMahramCheckerOpen(true)}
         viewMode={viewMode}
         onChangeView={setViewMode}
         onZoomIn={handleZoomIn}
         onZoomOut={handleZoomOut}
         onZoomReset={handleZoomReset}
-        showZoomControls={viewMode !== 'network' && viewMode !== 'timeline'}
+        showZoomControls={viewMode !== 'network' && viewMode !== 'timeline' && viewMode !== 'map'}
         onExportSVG={viewMode === 'network' ? handleNetworkExportSVG : handleExportSVG}
         onExportPNG={viewMode === 'network' ? handleNetworkExportPNG : handleExportPNG}
         onExportPDF={viewMode === 'network' ? handleNetworkExportPDF : undefined}
@@ -714,12 +848,24 @@ export function TreeViewer() {
         {data && !loading && !error && (
           <div className="row g-0 h-100">
             <div className="col-9 h-100 position-relative">
+              {kinPathOpen && (
+                <div className="position-absolute top-0 start-0 m-2" style={{ zIndex: 5 }}>
+                  <KinPathPanel
+                    treeId={treeId}
+                    nodes={data.nodes}
+                    selectedPersonId={selectedPersonId}
+                    onPathChange={setKinPath}
+                    onClose={() => setKinPathOpen(false)}
+                  />
+                </div>
+              )}
               {viewMode === 'network' ? (
                 <TreeCanvas
                   ref={networkCanvasRef}
                   data={data}
                   selectedPersonId={selectedPersonId}
                   relatedEdgeIds={relatedEdgeIds}
+                  pathPersonIds={pathPersonIds}
                   onNodeClick={setSelectedPersonId}
                   onEdgeClick={handleEdgeClick}
                   directRelativeIds={directRelativeIds}
@@ -746,6 +892,16 @@ export function TreeViewer() {
                   onNodeClick={setSelectedPersonId}
                   relatedEdgeIds={relatedEdgeIds}
                   directRelativeIds={directRelativeIds}
+                  personDates={personDetails}
+                />
+              ) : viewMode === 'map' ? (
+                <MapView
+                  data={data}
+                  selectedPersonId={selectedPersonId}
+                  onNodeClick={setSelectedPersonId}
+                  persons={personDetails}
+                  places={mapPlaces}
+                  onPinPlace={handlePinPlace}
                 />
               ) : (
                 hierarchy && (
@@ -754,6 +910,7 @@ export function TreeViewer() {
                     orientation={viewMode === 'tree-vertical' ? 'vertical' : 'horizontal'}
                     selectedPersonId={selectedPersonId}
                     onSelectPerson={setSelectedPersonId}
+                    pathPersonIds={pathPersonIds}
                     layout={{ showSpouseEdges: true }}
                   />
                 )
@@ -857,6 +1014,7 @@ export function TreeViewer() {
         parents={parents}
         children={children}
         spouses={spouses}
+        people={data?.nodes}
         onClose={() => setSelectedPersonId(null)}
         onSelectPerson={setSelectedPersonId}
         onAddRelationship={() => {
@@ -946,7 +1104,13 @@ export function TreeViewer() {
       <RelationshipEditDrawer
         open={edgeEditorOpen}
         edge={selectedEdge}
+        treeId={treeId}
         onClose={() => setEdgeEditorOpen(false)}
+        onSaved={async () => {
+          setEdgeEditorOpen(false);
+          setSelectedEdge(null);
+          await fetchRenderData(selectedPersonId);
+        }}
         onDelete={async (edge) => {
           // Record undo action for delete relationship
           undoRedo.recordAction({
@@ -1021,6 +1185,42 @@ export function TreeViewer() {
         edges={data?.edges || []}
       />
 
+      <RelationshipFinder
+        open={relationshipFinderOpen}
+        treeId={treeId}
+        nodes={data?.nodes || []}
+        initialFromId={selectedPersonId}
+        onClose={() => setRelationshipFinderOpen(false)}
+        onSelectPerson={(personId) => {
+          setRelationshipFinderOpen(false);
+          setSelectedPersonId(personId);
+        }}
+      />
+
+      <ConsanguinityPanel
+        open={consanguinityOpen}
+        treeId={treeId}
+        nodes={data?.nodes || []}
+        initialPersonId={selectedPersonId}
+        onClose={() => setConsanguinityOpen(false)}
+        onSelectPerson={(personId) => {
+          setConsanguinityOpen(false);
+          setSelectedPersonId(personId);
+        }}
+      />
+
+      <MahramChecker
+        open={mahramCheckerOpen}
+        treeId={treeId}
+        nodes={data?.nodes || []}
+        initialFromId={selectedPersonId}
+        onClose={() => setMahramCheckerOpen(false)}
+        onSelectPerson={(personId) => {
+          setMahramCheckerOpen(false);
+          setSelectedPersonId(personId);
+        }}
+      />
+
       {/* Edit Conflict Modal */}
       {collaboration.activeConflicts.length > 0 && (
         <EditConflictModal
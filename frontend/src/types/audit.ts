@@ -46,11 +46,33 @@ export interface PersonHistoryResponse {
 export const ACTION_LABELS: Record<string, string> = {
   'CREATE_FAMILY_TREE': 'Created family tree',
   'CREATE_PERSON': 'Added person',
+  'UPDATE_PERSON': 'Updated person',
+  'ADD_PERSON_EVENT': 'Added life event',
+  'UPDATE_PERSON_EVENT': 'Updated life event',
+  'REMOVE_PERSON_EVENT': 'Removed life event',
+  'CREATE_SOURCE': 'Added source',
+  'UPDATE_SOURCE': 'Updated source',
+  'REMOVE_SOURCE': 'Removed source',
+  'ADD_CITATION': 'Cited source',
+  'UPDATE_CITATION': 'Updated citation',
+  'REMOVE_CITATION': 'Removed citation',
+  'ADD_MEDIA': 'Added media',
+  'UPDATE_MEDIA': 'Updated media',
+  'REMOVE_MEDIA': 'Removed media',
+  'CREATE_PLACE': 'Added place',
+  'UPDATE_PLACE': 'Updated place',
+  'RENAME_PLACE': 'Renamed place',
+  'MERGE_PLACES': 'Merged places',
+  'REMOVE_PLACE': 'Removed place',
   'ESTABLISH_PARENT_CHILD': 'Established parent-child relationship',
   'ESTABLISH_SPOUSE': 'Established spouse relationship',
+  'UPDATE_SPOUSE': 'Updated marriage details',
+  'CREATE_FAMILY': 'Recorded family',
+  'ADD_CHILD_TO_FAMILY': 'Added child to family',
   'REMOVE_RELATIONSHIP': 'Removed relationship',
   'REMOVE_PERSON': 'Removed person',
   'IMPORT_PERSONS': 'Imported persons',
+  'IMPORT_TREE': 'Imported tree',
   'ADD_MEMBER': 'Added member',
   'REMOVE_MEMBER': 'Removed member',
   'CHANGE_MEMBER_ROLE': 'Changed member role',
@@ -70,11 +92,33 @@ export function getActionLabel(action: string): string {
 export function getActionIcon(action: string): string {
   const iconMap: Record<string, string> = {
     'CREATE_PERSON': '👤',
+    'UPDATE_PERSON': '✏️',
+    'ADD_PERSON_EVENT': '📅',
+    'UPDATE_PERSON_EVENT': '📅',
+    'REMOVE_PERSON_EVENT': '🗓️',
+    'CREATE_SOURCE': '📜',
+    'UPDATE_SOURCE': '📜',
+    'REMOVE_SOURCE': '📜',
+    'ADD_CITATION': '📎',
+    'UPDATE_CITATION': '📎',
+    'REMOVE_CITATION': '📎',
+    'ADD_MEDIA': '🖼️',
+    'UPDATE_MEDIA': '🖼️',
+    'REMOVE_MEDIA': '🖼️',
+    'CREATE_PLACE': '📍',
+    'UPDATE_PLACE': '📍',
+    'RENAME_PLACE': '📍',
+    'MERGE_PLACES': '📍',
+    'REMOVE_PLACE': '📍',
     'ESTABLISH_PARENT_CHILD': '👨‍👧‍👦',
     'ESTABLISH_SPOUSE': '💑',
+    'UPDATE_SPOUSE': '💍',
+    'CREATE_FAMILY': '🏠',
+    'ADD_CHILD_TO_FAMILY': '👶',
     'REMOVE_RELATIONSHIP': '💔',
     'REMOVE_PERSON': '🗑️',
     'IMPORT_PERSONS': '📥',
+    'IMPORT_TREE': '📥',
     'CREATE_FAMILY_TREE': '🌳',
     'ADD_MEMBER': '➕',
     'REMOVE_MEMBER': '➖',
@@ -90,10 +134,32 @@ export function getActionIcon(action: string): string {
 export function getActionColor(action: string): string {
   const colorMap: Record<string, string> = {
     'CREATE_PERSON': '#28a745', // green - success
+    'UPDATE_PERSON': '#0d6efd', // blue - info
+    'ADD_PERSON_EVENT': '#28a745', // green
+    'UPDATE_PERSON_EVENT': '#0d6efd', // blue - info
+    'REMOVE_PERSON_EVENT': '#dc3545', // red - danger
+    'CREATE_SOURCE': '#28a745', // green
+    'UPDATE_SOURCE': '#0d6efd', // blue - info
+    'REMOVE_SOURCE': '#dc3545', // red - danger
+    'ADD_CITATION': '#28a745', // green
+    'UPDATE_CITATION': '#0d6efd', // blue - info
+    'REMOVE_CITATION': '#dc3545', // red - danger
+    'ADD_MEDIA': '#28a745', // green
+    'UPDATE_MEDIA': '#0d6efd', // blue - info
+    'REMOVE_MEDIA': '#dc3545', // red - danger
+    'CREATE_PLACE': '#28a745', // green
+    'UPDATE_PLACE': '#0d6efd', // blue - info
+    'RENAME_PLACE': '#0d6efd', // blue - info
+    'MERGE_PLACES': '#fd7e14', // orange - merge
+    'REMOVE_PLACE': '#dc3545', // red - danger
     'CREATE_FAMILY_TREE': '#28a745', // green
     'ESTABLISH_PARENT_CHILD': '#0d6efd', // blue - info
     'ESTABLISH_SPOUSE': '#17a2b8', // cyan - info
+    'UPDATE_SPOUSE': '#17a2b8', // cyan - info
+    'CREATE_FAMILY': '#0d6efd', // blue - info
+    'ADD_CHILD_TO_FAMILY': '#0d6efd', // blue - info
     'IMPORT_PERSONS': '#0d6efd', // blue
+    'IMPORT_TREE': '#0d6efd', // blue
     'ADD_MEMBER': '#198754', // green
     'CHANGE_MEMBER_ROLE': '#fd7e14', // orange - warning
     'TRANSFER_OWNERSHIP': '#fd7e14', // orange
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for source citation helpers
+ *
+ * @module citations.test
+ * @pure No mocks, no snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { citableFacts, citationTargetKey, formatCitationSummary, groupCitationsByFact, uncitedFacts } from './citations';
+import type { Citation, LifeEvent, Source } from '../api';
+
+const hajj: LifeEvent = {
+  eventId: 'E1',
+  type: 'HAJJ',
+  customType: null,
+  date: null,
+  place: 'Makkah',
+  placeId: null,
+  description: null,
+};
+
+const ismail = { personId: 'ismail', birthDate: '1901', deathDate: null, events: [hajj] };
+const links = {
+  parents: [{ personId: 'daud', displayName: 'Daud' }],
+  spouses: [{ personId: 'aminah', displayName: 'Aminah' }],
+};
+
+const salasilah: Source = {
+  sourceId: 'S1',
+  title: 'Salasilah Keluarga Daud',
+  author: null,
+  repository: 'Family of Haji Ismail',
+  reference: 'MS 1',
+};
+
+const citation = (citationId: string, target: Citation['target'], extra: Partial<Citation> = {}): Citation => ({
+  citationId,
+  sourceId: 'S1',
+  target,
+  page: null,
+  quality: null,
+  transcription: null,
+  ...extra,
+});
+
+describe('citableFacts', () => {
+  it('lists the recorded facts and links of a person', () => {
+    expect(citableFacts(ismail, links).map((f) => f.label)).toEqual([
+      'Name',
+      'Birth',
+      'Hajj',
+      'Child of Daud',
+      'Spouse of Aminah',
+    ]);
+  });
+
+  it('keys facts as the server does', () => {
+    expect(citableFacts(ismail, links).map((f) => f.key)).toEqual([
+      'PERSON:ismail:NAME',
+      'PERSON:ismail:BIRTH',
+      'EVENT:ismail:E1',
+      'PARENT_CHILD:daud->ismail',
+      'SPOUSE:aminah~ismail',
+    ]);
+    expect(citationTargetKey({ kind: 'PERSON', personId: 'ismail' })).toBe('PERSON:ismail');
+  });
+});
+
+describe('uncited facts', () => {
+  it('flags facts no citation supports', () => {
+    const facts = citableFacts(ismail, links);
+    const citations = [
+      citation('C1', { kind: 'PERSON', personId: 'ismail', fact: 'BIRTH' }),
+      citation('C2', { kind: 'SPOUSE', spouse1Id: 'aminah', spouse2Id: 'ismail' }),
+      citation('C3', { kind: 'PERSON', personId: 'ismail' }),
+    ];
+    expect(uncitedFacts(facts, citations).map((f) => f.label)).toEqual(['Name', 'Hajj', 'Child of Daud']);
+    expect(groupCitationsByFact(facts, citations)[1].citations.map((c) => c.citationId)).toEqual(['C1']);
+  });
+});
+
+describe('formatCitationSummary', () => {
+  it('names the source, page and quality', () => {
+    const cited = citation('C1', { kind: 'PERSON', personId: 'ismail' }, { page: 'f. 3', quality: 'SECONDARY' });
+    expect(formatCitationSummary(cited, salasilah)).toBe('Salasilah Keluarga Daud, f. 3 (Secondary)');
+    expect(formatCitationSummary({ ...cited, page: null, quality: null }, null)).toBe('S1');
+  });
+});
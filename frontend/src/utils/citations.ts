@@ -0,0 +1,122 @@
+/**
+ * Sources and citations: quality labels for forms, the facts of a person
+ * that can be cited, and which of them no source supports yet.
+ *
+ * @module citations
+ */
+
+import type { Citation, CitationQuality, CitationTarget, LifeEvent, Source } from '../api';
+import { lifeEventLabel } from './lifeEvents';
+
+// In GEDCOM QUAY order, least to most reliable
+export const CITATION_QUALITY_OPTIONS: ReadonlyArray<{ value: CitationQuality; label: string }> = [
+  { value: 'UNRELIABLE', label: 'Unreliable' },
+  { value: 'QUESTIONABLE', label: 'Questionable' },
+  { value: 'SECONDARY', label: 'Secondary' },
+  { value: 'PRIMARY', label: 'Primary' },
+];
+
+export function citationQualityLabel(quality: CitationQuality | null): string | null {
+  if (!quality) return null;
+  return CITATION_QUALITY_OPTIONS.find((o) => o.value === quality)?.label ?? quality;
+}
+
+/**
+ * Same key as the server gives every citation of one fact: "PERSON:p1:BIRTH",
+ * "EVENT:p1:E2", "PARENT_CHILD:p1->p2", "SPOUSE:p1~p2".
+ */
+export function citationTargetKey(target: CitationTarget): string {
+  switch (target.kind) {
+    case 'PERSON':
+      return target.fact ? `PERSON:${target.personId}:${target.fact}` : `PERSON:${target.personId}`;
+    case 'EVENT':
+      return `EVENT:${target.personId}:${target.eventId}`;
+    case 'PARENT_CHILD':
+      return `PARENT_CHILD:${target.parentId}->${target.childId}`;
+    case 'SPOUSE': {
+      const [a, b] = [target.spouse1Id, target.spouse2Id].sort();
+      return `SPOUSE:${a}~${b}`;
+    }
+  }
+}
+
+export type CitableFact = {
+  key: string;
+  label: string;
+  target: CitationTarget;
+};
+
+type NamedPerson = { personId: string; displayName: string };
+
+/**
+ * The facts recorded for a person, in drawer order: name, birth and death
+ * when recorded, each life event, then the links to each parent and spouse.
+ */
+export function citableFacts(
+  person: {
+    personId: string;
+    birthDate?: unknown;
+    birthPlace?: string | null;
+    deathDate?: unknown;
+    events?: readonly LifeEvent[];
+  },
+  links: { parents?: readonly NamedPerson[]; spouses?: readonly NamedPerson[] } = {}
+): CitableFact[] {
+  const { personId } = person;
+  const targets: Array<{ label: string; target: CitationTarget }> = [
+    { label: 'Name', target: { kind: 'PERSON', personId, fact: 'NAME' } },
+  ];
+  if (person.birthDate || person.birthPlace) {
+    targets.push({ label: 'Birth', target: { kind: 'PERSON', personId, fact: 'BIRTH' } });
+  }
+  if (person.deathDate) {
+    targets.push({ label: 'Death', target: { kind: 'PERSON', personId, fact: 'DEATH' } });
+  }
+  for (const event of person.events ?? []) {
+    targets.push({ label: lifeEventLabel(event), target: { kind: 'EVENT', personId, eventId: event.eventId } });
+  }
+  for (const parent of links.parents ?? []) {
+    targets.push({
+      label: `Child of ${parent.displayName}`,
+      target: { kind: 'PARENT_CHILD', parentId: parent.personId, childId: personId },
+    });
+  }
+  for (const spouse of links.spouses ?? []) {
+    targets.push({
+      label: `Spouse of ${spouse.displayName}`,
+      target: { kind: 'SPOUSE', spouse1Id: personId, spouse2Id: spouse.personId },
+    });
+  }
+  return targets.map(({ label, target }) => ({ key: citationTargetKey(target), label, target }));
+}
+
+/**
+ * Each fact with the citations supporting it. Citations of the person as a
+ * whole support no single fact and are left to the caller.
+ */
+export function groupCitationsByFact(
+  facts: readonly CitableFact[],
+  citations: readonly Citation[]
+): Array<{ fact: CitableFact; citations: Citation[] }> {
+  return facts.map((fact) => ({
+    fact,
+    citations: citations.filter((c) => citationTargetKey(c.target) === fact.key),
+  }));
+}
+
+/** Facts no source supports yet */
+export function uncitedFacts(facts: readonly CitableFact[], citations: readonly Citation[]): CitableFact[] {
+  return groupCitationsByFact(facts, citations)
+    .filter((group) => group.citations.length === 0)
+    .map((group) => group.fact);
+}
+
+/**
+ * One-line reference: "Salasilah Keluarga Daud, f. 3 (Secondary)".
+ */
+export function formatCitationSummary(citation: Citation, source?: Source | null): string {
+  const title = source?.title ?? citation.sourceId;
+  const where = citation.page ? `${title}, ${citation.page}` : title;
+  const quality = citationQualityLabel(citation.quality);
+  return quality ? `${where} (${quality})` : where;
+}
@@ -0,0 +1,49 @@
+/**
+ * Unit tests for consanguinity texts
+ *
+ * @module consanguinity.test
+ * @pure No mocks, no snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { coefficientFraction, coefficientPercent, pathText } from './consanguinity';
+
+const path = (ancestorId: string, names: string[]) => ({
+  ancestorId,
+  path: names.map((name) => ({ personId: name.toLowerCase(), name })),
+  ancestorInbreeding: 0,
+  contribution: 0.5 ** names.length,
+});
+
+describe('coefficientPercent', () => {
+  it('keeps three significant figures', () => {
+    expect(coefficientPercent(0.5)).toBe('50%');
+    expect(coefficientPercent(1 / 16)).toBe('6.25%');
+    expect(coefficientPercent(1 / 256)).toBe('0.391%');
+    expect(coefficientPercent(0)).toBe('0%');
+  });
+});
+
+describe('coefficientFraction', () => {
+  it('writes power-of-two fractions exactly', () => {
+    expect(coefficientFraction(1 / 8)).toBe('1/8');
+    expect(coefficientFraction(9 / 32)).toBe('9/32');
+    expect(coefficientFraction(0)).toBe('0');
+  });
+
+  it('is null for anything else', () => {
+    expect(coefficientFraction(9 / 16 / Math.sqrt(17 / 16))).toBeNull();
+  });
+});
+
+describe('pathText', () => {
+  it('goes up to the common ancestor and down to the other person', () => {
+    expect(pathText(path('abdullah', ['Ahmad', 'Umar', 'Abdullah', 'Zainab', 'Maryam']))).toBe(
+      'Ahmad ↑ Umar ↑ Abdullah ↓ Zainab ↓ Maryam',
+    );
+  });
+
+  it('goes only down from an ancestor at one end', () => {
+    expect(pathText(path('umar', ['Umar', 'Ahmad', 'Ali']))).toBe('Umar ↓ Ahmad ↓ Ali');
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Coefficients of relationship and inbreeding as shown in the consanguinity
+ * panel: as a percentage, as an exact fraction where there is one, and the
+ * path through a common ancestor behind each share.
+ *
+ * @module consanguinity
+ */
+
+import type { ConsanguinityPath } from '../api';
+import { PATH_STEP_ICONS } from './kinship';
+
+/** "12.5%", "6.25%", "0.391%"; three significant figures */
+export function coefficientPercent(value: number): string {
+  if (value === 0) return '0%';
+  return `${Number((value * 100).toPrecision(3))}%`;
+}
+
+/** "1/8", "9/32"; null unless the value is a fraction with a power-of-two denominator up to 2^16 */
+export function coefficientFraction(value: number): string | null {
+  if (value === 0) return '0';
+  if (value === 1) return '1';
+  for (let denominator = 2; denominator <= 2 ** 16; denominator *= 2) {
+    const numerator = value * denominator;
+    if (Math.abs(numerator - Math.round(numerator)) < 1e-9) return `${Math.round(numerator)}/${denominator}`;
+  }
+  return null;
+}
+
+/** "Ahmad ↑ Umar ↑ Abdullah ↓ Zainab ↓ Maryam": up to the common ancestor, then down */
+export function pathText(path: ConsanguinityPath): string {
+  const top = path.path.findIndex((step) => step.personId === path.ancestorId);
+  return path.path
+    .map((step, i) => (i === 0 ? step.name : `${i <= top ? PATH_STEP_ICONS.PARENT : PATH_STEP_ICONS.CHILD} ${step.name}`))
+    .join(' ');
+}
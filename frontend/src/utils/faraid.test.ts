@@ -0,0 +1,96 @@
+/**
+ * Unit tests for farāʾiḍ results
+ *
+ * @module faraid.test
+ * @pure No mocks, no snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { baseParts, fractionPercent, fractionText, heirRoleLabel, inheritanceNotes, shareRuleText } from './faraid';
+import type { Inheritance } from '../api';
+
+const inheritance = (overrides: Partial<Inheritance>): Inheritance => ({
+  deceasedId: 'yusuf',
+  deceasedName: 'Yusuf',
+  deathDate: '3 MAR 2000',
+  heirs: [],
+  base: 24,
+  adjustment: null,
+  unallocated: { numerator: 0, denominator: 1 },
+  genderUnknown: [],
+  sideUnknown: [],
+  ...overrides,
+});
+
+describe('fractionText', () => {
+  it('writes a fraction, the whole and nothing', () => {
+    expect(fractionText({ numerator: 7, denominator: 24 })).toBe('7/24');
+    expect(fractionText({ numerator: 1, denominator: 1 })).toBe('1');
+    expect(fractionText({ numerator: 0, denominator: 1 })).toBe('0');
+  });
+});
+
+describe('fractionPercent and baseParts', () => {
+  it('gives the percentage and the parts of the base', () => {
+    expect(fractionPercent({ numerator: 1, denominator: 8 })).toBe('12.5%');
+    expect(fractionPercent({ numerator: 1, denominator: 3 })).toBe('33.33%');
+    expect(baseParts({ numerator: 1, denominator: 8 }, 24)).toBe(3);
+    expect(baseParts({ numerator: 8, denominator: 27 }, 27)).toBe(8);
+  });
+});
+
+describe('heirRoleLabel', () => {
+  it('names the role, counting further generations of the male line', () => {
+    expect(heirRoleLabel({ role: 'WIFE', generation: null })).toBe('Wife');
+    expect(heirRoleLabel({ role: 'SONS_DAUGHTER', generation: 2 })).toBe("Son's daughter");
+    expect(heirRoleLabel({ role: 'SONS_SON', generation: 3 })).toBe("Son's son's son");
+    expect(heirRoleLabel({ role: 'PATERNAL_GRANDFATHER', generation: 4 })).toBe('Paternal great-great-grandfather');
+  });
+});
+
+describe('shareRuleText', () => {
+  it('explains the rule applied', () => {
+    expect(shareRuleText({ rule: 'WIFE_EIGHTH', excludedBy: null })).toBe(
+      '1/8 between the wives: there are descendants',
+    );
+    expect(shareRuleText({ rule: 'RESIDUARY_WITH_BROTHER', excludedBy: null })).toBe(
+      'The residue with her brother, half his share',
+    );
+  });
+
+  it('names who excludes an heir', () => {
+    expect(shareRuleText({ rule: 'EXCLUDED', excludedBy: 'SON' })).toBe('Excluded by the son');
+    expect(shareRuleText({ rule: 'EXCLUDED', excludedBy: 'FULL_SISTER' })).toBe('Excluded by the full sister');
+  });
+});
+
+describe('inheritanceNotes', () => {
+  it('is empty when the shares add up as they stand', () => {
+    expect(inheritanceNotes(inheritance({}))).toEqual([]);
+  });
+
+  it('explains ʿawl with the raised base, and radd', () => {
+    expect(inheritanceNotes(inheritance({ adjustment: 'AWL', base: 27 }))).toEqual([
+      'The fixed shares exceed the estate, so each is reduced in proportion (ʿawl): the estate is divided into 27 parts.',
+    ]);
+    expect(inheritanceNotes(inheritance({ adjustment: 'RADD' }))[0]).toMatch(/spouses excepted \(radd\)/);
+  });
+
+  it('notes what is left unallocated and who was left out', () => {
+    const notes = inheritanceNotes(
+      inheritance({
+        unallocated: { numerator: 1, denominator: 2 },
+        genderUnknown: [{ personId: 'child', name: 'Child' }],
+        sideUnknown: [
+          { personId: 'tariq', name: 'Tariq' },
+          { personId: 'sana', name: 'Sana' },
+        ],
+      }),
+    );
+    expect(notes).toEqual([
+      '1/2 of the estate has no heir here to take it; it passes to distant kindred (dhawū al-arḥām) or the public treasury.',
+      'Left out because their gender is not recorded: Child.',
+      'Left out because a parent not recorded leaves it open whether they are full or half kin: Tariq, Sana.',
+    ]);
+  });
+});
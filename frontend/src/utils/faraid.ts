@@ -0,0 +1,125 @@
+/**
+ * Farāʾiḍ results for reading and printing: fractions, what each heir is
+ * to the deceased, the rule behind each share and the notes on ʿawl, radd
+ * and what is left unallocated.
+ *
+ * @module faraid
+ */
+
+import type { Fraction, HeirRole, Inheritance, InheritanceHeir, ShareRule } from '../api';
+
+export const HEIR_ROLE_LABELS: Record<HeirRole, string> = {
+  HUSBAND: 'Husband',
+  WIFE: 'Wife',
+  SON: 'Son',
+  DAUGHTER: 'Daughter',
+  SONS_SON: "Son's son",
+  SONS_DAUGHTER: "Son's daughter",
+  FATHER: 'Father',
+  MOTHER: 'Mother',
+  PATERNAL_GRANDFATHER: 'Paternal grandfather',
+  PATERNAL_GRANDMOTHER: 'Paternal grandmother',
+  MATERNAL_GRANDMOTHER: 'Maternal grandmother',
+  FULL_BROTHER: 'Full brother',
+  FULL_SISTER: 'Full sister',
+  PATERNAL_BROTHER: 'Paternal half-brother',
+  PATERNAL_SISTER: 'Paternal half-sister',
+  MATERNAL_BROTHER: 'Maternal half-brother',
+  MATERNAL_SISTER: 'Maternal half-sister',
+  FULL_NEPHEW: "Full brother's son",
+  PATERNAL_NEPHEW: "Paternal half-brother's son",
+  FULL_UNCLE: 'Paternal uncle',
+  PATERNAL_UNCLE: "Father's paternal half-brother",
+  FULL_COUSIN: "Paternal uncle's son",
+  PATERNAL_COUSIN: "Son of the father's paternal half-brother",
+};
+
+const RULE_TEXTS: Record<Exclude<ShareRule, 'EXCLUDED'>, string> = {
+  HUSBAND_HALF: '1/2: no descendants',
+  HUSBAND_QUARTER: '1/4: there are descendants',
+  WIFE_QUARTER: '1/4 between the wives: no descendants',
+  WIFE_EIGHTH: '1/8 between the wives: there are descendants',
+  FATHER_SIXTH: '1/6: there is a male descendant',
+  FATHER_SIXTH_AND_RESIDUE: '1/6 and the residue: the descendants are all female',
+  MOTHER_THIRD: '1/3: no descendants and fewer than two siblings',
+  MOTHER_SIXTH: '1/6: there are descendants or two or more siblings',
+  MOTHER_THIRD_OF_REMAINDER: '1/3 of what the spouse leaves, beside the father (al-ʿUmariyyatān)',
+  GRANDMOTHER_SIXTH: '1/6 between the grandmothers',
+  HALF: '1/2: alone in her line',
+  TWO_THIRDS: '2/3 between two or more',
+  SIXTH_COMPLETING_TWO_THIRDS: '1/6, completing two thirds after the 1/2 of the line above',
+  MATERNAL_SIBLING_SIXTH: '1/6: the only maternal sibling',
+  MATERNAL_SIBLINGS_THIRD: '1/3 equally between the maternal siblings',
+  RESIDUARY: 'The residue (ʿaṣaba)',
+  RESIDUARY_WITH_BROTHER: 'The residue with her brother, half his share',
+  RESIDUARY_WITH_DAUGHTERS: 'The residue beside the daughters',
+};
+
+/** "1/8", "1" for the whole estate, "0" for nothing */
+export function fractionText({ numerator, denominator }: Fraction): string {
+  if (numerator === 0) return '0';
+  if (numerator === denominator) return '1';
+  return `${numerator}/${denominator}`;
+}
+
+/** "12.5%", rounded to two decimals */
+export function fractionPercent({ numerator, denominator }: Fraction): string {
+  return `${Number(((numerator / denominator) * 100).toFixed(2))}%`;
+}
+
+/** The share in parts of the common base: 3 of 24 for 1/8 */
+export function baseParts({ numerator, denominator }: Fraction, base: number): number {
+  return (numerator * base) / denominator;
+}
+
+/** "Son's son's son", "Paternal great-grandfather": the role, with generations below or above */
+export function heirRoleLabel(heir: Pick<InheritanceHeir, 'role' | 'generation'>): string {
+  const generation = heir.generation ?? 0;
+  if ((heir.role === 'SONS_SON' || heir.role === 'SONS_DAUGHTER') && generation > 2) {
+    const child = heir.role === 'SONS_SON' ? 'son' : 'daughter';
+    return `Son's ${"son's ".repeat(generation - 2)}${child}`;
+  }
+  if (heir.role === 'PATERNAL_GRANDFATHER' && generation > 2) {
+    return `Paternal ${'great-'.repeat(generation - 2)}grandfather`;
+  }
+  return HEIR_ROLE_LABELS[heir.role];
+}
+
+/** Why the heir takes what they take: "1/8 between the wives: there are descendants" */
+export function shareRuleText(heir: Pick<InheritanceHeir, 'rule' | 'excludedBy'>): string {
+  if (heir.rule === 'EXCLUDED') {
+    return heir.excludedBy ? `Excluded by the ${HEIR_ROLE_LABELS[heir.excludedBy].toLowerCase()}` : 'Excluded';
+  }
+  return RULE_TEXTS[heir.rule];
+}
+
+/** Notes on how the shares were adjusted and what is left; empty when they add up as they stand */
+export function inheritanceNotes(inheritance: Inheritance): string[] {
+  const notes: string[] = [];
+  if (inheritance.adjustment === 'AWL') {
+    notes.push(
+      `The fixed shares exceed the estate, so each is reduced in proportion (ʿawl): the estate is divided into ${inheritance.base} parts.`,
+    );
+  }
+  if (inheritance.adjustment === 'RADD') {
+    notes.push(
+      'No residuary heir: the surplus returns to the fixed sharers in proportion to their shares, spouses excepted (radd).',
+    );
+  }
+  if (inheritance.unallocated.numerator !== 0) {
+    notes.push(
+      `${fractionText(inheritance.unallocated)} of the estate has no heir here to take it; it passes to distant kindred (dhawū al-arḥām) or the public treasury.`,
+    );
+  }
+  if (inheritance.genderUnknown.length > 0) {
+    notes.push(
+      `Left out because their gender is not recorded: ${inheritance.genderUnknown.map((p) => p.name).join(', ')}.`,
+    );
+  }
+  if (inheritance.sideUnknown.length > 0) {
+    notes.push(
+      `Left out because a parent not recorded leaves it open whether they are full or half kin: ${inheritance.sideUnknown.map((p) => p.name).join(', ')}.`,
+    );
+  }
+  return notes;
+}
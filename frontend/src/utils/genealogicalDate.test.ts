@@ -0,0 +1,120 @@
+/**
+ * Unit tests for genealogical date helpers
+ *
+ * @module genealogicalDate.test
+ * @pure No mocks, no snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatAlternateCalendar,
+  formatGenealogicalDate,
+  parseDateInput,
+  toDateInputText,
+  validateLifeDates,
+  type GenealogicalDateValue,
+} from './genealogicalDate';
+
+const iso = (date: Date | null | undefined) => (date ? date.toISOString().slice(0, 10) : null);
+
+const hijriBirth: GenealogicalDateValue = {
+  qualifier: 'EXACT',
+  start: { year: 1320, month: 3, day: 12 },
+  end: null,
+  original: "12 Rabi' al-Awwal 1320 AH",
+  calendar: 'HIJRI',
+  precision: 'DAY',
+  text: '@#DHIJRI@ 12 RABIA 1320',
+  earliest: '1902-06-19',
+  latest: '1902-06-19',
+};
+
+describe('parseDateInput', () => {
+  it('accepts exact, partial and qualified Gregorian dates', () => {
+    expect(iso(parseDateInput('1890-03-12')?.earliest)).toBe('1890-03-12');
+    expect(iso(parseDateInput('MAR 1890')?.latest)).toBe('1890-03-31');
+    expect(iso(parseDateInput('ABT 1890')?.earliest)).toBe('1885-01-01');
+    expect(iso(parseDateInput('EST 1890')?.earliest)).toBe('1885-01-01');
+    expect(iso(parseDateInput('CAL 1890')?.latest)).toBe('1895-12-31');
+    expect(parseDateInput('BEF 1750')?.earliest).toBeNull();
+    expect(iso(parseDateInput('BET 1850 AND 1860')?.latest)).toBe('1860-12-31');
+  });
+
+  it('accepts Hijri dates with a suffix or calendar escape', () => {
+    expect(iso(parseDateInput("12 Rabi' al-Awwal 1320 AH")?.earliest)).toBe('1902-06-19');
+    expect(iso(parseDateInput('@#DHIJRI@ 1 RAMAD 1445')?.earliest)).toBe('2024-03-11');
+  });
+
+  it('rejects unrecognized input', () => {
+    expect(parseDateInput('sometime in spring')).toBeNull();
+    expect(parseDateInput('31 FEB 1890')).toBeNull();
+    expect(parseDateInput('30 Safar 1320 AH')).toBeNull();
+    expect(parseDateInput('@#DJULIAN@ 1700')).toBeNull();
+  });
+});
+
+describe('validateLifeDates', () => {
+  it('allows overlapping estimates', () => {
+    expect(validateLifeDates('1890', 'ABT 1888')).toBeNull();
+  });
+
+  it('rejects a death certainly before birth', () => {
+    expect(validateLifeDates('1890', '1880')).toMatch(/Death date/);
+  });
+
+  it('compares across calendars', () => {
+    expect(validateLifeDates('1320 AH', '1899')).toMatch(/Death date/);
+    expect(validateLifeDates('1320 AH', '1950')).toBeNull();
+  });
+});
+
+describe('formatting', () => {
+  it('formats qualified dates for display', () => {
+    expect(
+      formatGenealogicalDate({
+        qualifier: 'ABOUT',
+        start: { year: 1890 },
+        precision: 'YEAR',
+        text: 'ABT 1890',
+        earliest: '1885-01-01',
+        latest: '1895-12-31',
+      }),
+    ).toBe('about 1890');
+    expect(
+      formatGenealogicalDate({
+        qualifier: 'ESTIMATED',
+        start: { year: 1850 },
+        precision: 'YEAR',
+        text: 'EST 1850',
+        earliest: '1845-01-01',
+        latest: '1855-12-31',
+      }),
+    ).toBe('estimated 1850');
+  });
+
+  it('shows Hijri dates in both calendars', () => {
+    expect(formatGenealogicalDate(hijriBirth)).toBe("12 Rabi' al-Awwal 1320 AH");
+    expect(formatAlternateCalendar(hijriBirth)).toBe('19 Jun 1902');
+  });
+
+  it('reduces uncertain dates to a year range in the other calendar', () => {
+    expect(
+      formatAlternateCalendar({ ...hijriBirth, start: { year: 1320 }, precision: 'YEAR', earliest: '1902-04-10', latest: '1903-03-29' }),
+    ).toBe('1902–1903');
+    expect(
+      formatAlternateCalendar({
+        qualifier: 'EXACT',
+        start: { year: 1902, month: 6, day: 19 },
+        precision: 'DAY',
+        text: '19 JUN 1902',
+        earliest: '1902-06-19',
+        latest: '1902-06-19',
+      }),
+    ).toBe("12 Rabi' al-Awwal 1320 AH");
+  });
+
+  it('pre-fills edit forms with the original text', () => {
+    expect(toDateInputText(hijriBirth)).toBe("12 Rabi' al-Awwal 1320 AH");
+    expect(toDateInputText('1985-03-20T00:00:00.000Z')).toBe('1985-03-20');
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Client-side helpers for genealogical dates (exact, partial or qualified,
+ * Gregorian or Hijri). The backend is authoritative; parsing here only
+ * drives form validation.
+ */
+
+import { HIJRI_MONTH_NAMES, dateToHijri, hijriDaysInMonth, hijriToDate, parseHijriMonth } from './hijriCalendar';
+
+export type DateQualifier = 'EXACT' | 'ABOUT' | 'ESTIMATED' | 'CALCULATED' | 'BEFORE' | 'AFTER' | 'BETWEEN';
+export type DatePrecision = 'DAY' | 'MONTH' | 'YEAR';
+export type DateCalendar = 'GREGORIAN' | 'HIJRI';
+
+export type DateParts = {
+  year: number;
+  month?: number | null;
+  day?: number | null;
+};
+
+/** Serialized GenealogicalDate as returned by the API */
+export type GenealogicalDateValue = {
+  qualifier: DateQualifier;
+  start: DateParts;
+  end?: DateParts | null;
+  original?: string | null;
+  calendar?: DateCalendar;
+  precision: DatePrecision;
+  text: string;
+  earliest: string | null;
+  latest: string | null;
+};
+
+export type DateBounds = {
+  earliest: Date | null;
+  latest: Date | null;
+};
+
+const ABOUT_MARGIN_YEARS = 5;
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const QUALIFIERS: Record<string, DateQualifier> = {
+  ABT: 'ABOUT', ABOUT: 'ABOUT', CA: 'ABOUT', CIRCA: 'ABOUT', C: 'ABOUT',
+  EST: 'ESTIMATED', ESTIMATED: 'ESTIMATED', CAL: 'CALCULATED', CALCULATED: 'CALCULATED',
+  BEF: 'BEFORE', BEFORE: 'BEFORE',
+  AFT: 'AFTER', AFTER: 'AFTER',
+};
+
+const HIJRI_SUFFIX = / (?:A\.?H\.?|H|HIJRI)$/;
+
+export const DATE_INPUT_PLACEHOLDER = "e.g. 1890, ABT 1890, 12 MAR 1823, 12 Rabi' al-Awwal 1320 AH";
+export const DATE_INPUT_HELP =
+  'Exact or partial dates; prefix ABT, BEF, AFT or use BET 1850 AND 1860 when unsure. Add AH for Hijri dates.';
+
+function utcDate(year: number, month: number, day: number): Date {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return date;
+}
+
+function parseHijriParts(body: string): DateParts | null {
+  const match = /^(?:(\d{1,2}) )?(?:(\D+?) )?(\d{1,4})$/.exec(body);
+  if (!match) return null;
+  const month = match[2] ? parseHijriMonth(match[2]) : null;
+  if (month === 0 || (match[1] && !month)) return null;
+  const parts = { year: Number(match[3]), month, day: match[1] ? Number(match[1]) : null };
+  if (parts.year < 1 || (parts.day && parts.day > hijriDaysInMonth(parts.year, month!))) return null;
+  return parts;
+}
+
+function parseParts(body: string, calendar: DateCalendar): DateParts | null {
+  if (calendar === 'HIJRI') return parseHijriParts(body);
+  const iso = /^(\d{1,4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(body);
+  const gedcom = iso ? null : /^(?:(\d{1,2}) )?(?:([A-Z]{3,9})\.? )?(\d{1,4})$/.exec(body);
+  let parts: DateParts;
+  if (iso) {
+    parts = { year: Number(iso[1]), month: iso[2] ? Number(iso[2]) : null, day: iso[3] ? Number(iso[3]) : null };
+  } else if (gedcom) {
+    const month = gedcom[2] ? MONTHS.indexOf(gedcom[2].slice(0, 3)) + 1 : null;
+    if (month === 0 || (gedcom[1] && !month)) return null;
+    parts = { year: Number(gedcom[3]), month, day: gedcom[1] ? Number(gedcom[1]) : null };
+  } else {
+    return null;
+  }
+
+  if (parts.year < 1) return null;
+  if (parts.month && (parts.month < 1 || parts.month > 12)) return null;
+  if (parts.day && parts.day > utcDate(parts.year, parts.month! + 1, 0).getUTCDate()) return null;
+  return parts;
+}
+
+function periodStart(parts: DateParts, calendar: DateCalendar): Date {
+  if (calendar === 'HIJRI') return hijriToDate(parts.year, parts.month ?? 1, parts.day ?? 1);
+  return utcDate(parts.year, parts.month ?? 1, parts.day ?? 1);
+}
+
+function periodEnd(parts: DateParts, calendar: DateCalendar): Date {
+  if (calendar === 'HIJRI') {
+    const month = parts.month ?? 12;
+    return hijriToDate(parts.year, month, parts.day ?? hijriDaysInMonth(parts.year, month));
+  }
+  if (parts.day) return utcDate(parts.year, parts.month!, parts.day);
+  if (parts.month) return utcDate(parts.year, parts.month + 1, 0);
+  return utcDate(parts.year, 12, 31);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Parse date input text into its earliest/latest bounds.
+ * Returns null when the text is not a recognizable date.
+ */
+export function parseDateInput(text: string): DateBounds | null {
+  let body = text.trim().toUpperCase().replace(/\s+/g, ' ').replace(/T[\d:.]+Z?$/, '');
+  if (!body) return null;
+
+  const escapes = new Set(body.match(/@#D[^@]*@/g) ?? []);
+  if ([...escapes].some((e) => e !== '@#DHIJRI@' && e !== '@#DGREGORIAN@') || escapes.size > 1) return null;
+  let calendar: DateCalendar = escapes.has('@#DHIJRI@') ? 'HIJRI' : 'GREGORIAN';
+  body = body.replace(/@#D[^@]*@ ?/g, '').trim();
+  if (HIJRI_SUFFIX.test(body)) {
+    calendar = 'HIJRI';
+    body = body.replace(HIJRI_SUFFIX, '');
+  }
+
+  const between = /^(?:BET|BETWEEN) (.+?) AND (.+)$/.exec(body);
+  if (between) {
+    const start = parseParts(between[1], calendar);
+    const end = parseParts(between[2], calendar);
+    if (!start || !end || periodEnd(end, calendar) < periodStart(start, calendar)) return null;
+    return { earliest: periodStart(start, calendar), latest: periodEnd(end, calendar) };
+  }
+
+  const [first, ...rest] = body.split(' ');
+  const qualifier = QUALIFIERS[first.replace(/\.$/, '')];
+  const parts = parseParts(qualifier ? rest.join(' ') : body, calendar);
+  if (!parts) return null;
+
+  switch (qualifier) {
+    case 'ABOUT':
+    case 'ESTIMATED':
+    case 'CALCULATED':
+      return {
+        earliest: periodStart({ ...parts, year: Math.max(1, parts.year - ABOUT_MARGIN_YEARS) }, calendar),
+        latest: periodEnd({ ...parts, year: parts.year + ABOUT_MARGIN_YEARS }, calendar),
+      };
+    case 'BEFORE':
+      return { earliest: null, latest: addDays(periodStart(parts, calendar), -1) };
+    case 'AFTER':
+      return { earliest: addDays(periodEnd(parts, calendar), 1), latest: null };
+    default:
+      return { earliest: periodStart(parts, calendar), latest: periodEnd(parts, calendar) };
+  }
+}
+
+/** True when `a` lies entirely before `b`; overlapping estimates are never ordered */
+export function isCertainlyBefore(a: DateBounds, b: DateBounds): boolean {
+  return a.latest !== null && b.earliest !== null && a.latest < b.earliest;
+}
+
+/**
+ * Validate a pair of birth/death inputs. Returns an error message or null.
+ */
+export function validateLifeDates(birthDate?: string | null, deathDate?: string | null): string | null {
+  const birth = birthDate ? parseDateInput(birthDate) : null;
+  const death = deathDate ? parseDateInput(deathDate) : null;
+  if ((birthDate && !birth) || (deathDate && !death)) return 'Invalid date format';
+  if (birth && death && isCertainlyBefore(death, birth)) {
+    return 'Death date must be after or equal to birth date';
+  }
+  return null;
+}
+
+function formatParts(parts: DateParts, calendar: DateCalendar = 'GREGORIAN'): string {
+  const months = calendar === 'HIJRI' ? HIJRI_MONTH_NAMES : MONTH_LABELS;
+  const text = [parts.day, parts.month ? months[parts.month - 1] : null, parts.year]
+    .filter((part) => part !== null && part !== undefined)
+    .join(' ');
+  return calendar === 'HIJRI' ? `${text} AH` : text;
+}
+
+/**
+ * Human-readable form: "12 Mar 1823", "about 1890", "between 1850 and 1860".
+ * Legacy ISO strings and Date values are shown as exact days.
+ */
+export function formatGenealogicalDate(value: GenealogicalDateValue | string | Date | null | undefined): string {
+  if (!value) return '';
+  if (typeof value === 'string' || value instanceof Date) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? String(value) : date.toLocaleDateString();
+  }
+
+  const calendar = value.calendar ?? 'GREGORIAN';
+  const start = formatParts(value.start, calendar);
+  switch (value.qualifier) {
+    case 'ABOUT':
+      return `about ${start}`;
+    case 'ESTIMATED':
+      return `estimated ${start}`;
+    case 'CALCULATED':
+      return `calculated ${start}`;
+    case 'BEFORE':
+      return `before ${start}`;
+    case 'AFTER':
+      return `after ${start}`;
+    case 'BETWEEN':
+      return `between ${start} and ${value.end ? formatParts(value.end, calendar) : '?'}`;
+    default:
+      return start;
+  }
+}
+
+function boundsText(earliest: string | null, latest: string | null, calendar: DateCalendar): string | null {
+  const format = (iso: string, precision: DatePrecision) => {
+    const date = new Date(`${iso}T00:00:00Z`);
+    if (calendar === 'HIJRI') {
+      const h = dateToHijri(date);
+      return formatParts({ year: h.year, month: precision === 'YEAR' ? null : h.month, day: precision === 'DAY' ? h.day : null }, 'HIJRI');
+    }
+    return formatParts({
+      year: date.getUTCFullYear(),
+      month: precision === 'YEAR' ? null : date.getUTCMonth() + 1,
+      day: precision === 'DAY' ? date.getUTCDate() : null,
+    });
+  };
+
+  if (earliest && latest) {
+    if (earliest === latest) return format(earliest, 'DAY');
+    const from = format(earliest, 'YEAR');
+    const to = format(latest, 'YEAR');
+    if (from === to) return from;
+    return calendar === 'HIJRI' ? `${from.replace(/ AH$/, '')}–${to}` : `${from}–${to}`;
+  }
+  if (latest) return `before ${format(latest, 'YEAR')}`;
+  if (earliest) return `after ${format(earliest, 'YEAR')}`;
+  return null;
+}
+
+/**
+ * The same date in the other calendar, derived from its Gregorian bounds:
+ * Hijri dates get their Gregorian equivalent and vice versa.
+ * Uncertain dates are reduced to a year range, e.g. "1902–1903".
+ */
+export function formatAlternateCalendar(value: GenealogicalDateValue | null | undefined): string | null {
+  if (!value || typeof value !== 'object') return null;
+  const target: DateCalendar = value.calendar === 'HIJRI' ? 'GREGORIAN' : 'HIJRI';
+  return boundsText(value.earliest, value.latest, target);
+}
+
+/** Text to pre-fill an edit form with: what the user typed, else the GEDCOM form */
+export function toDateInputText(value: GenealogicalDateValue | string | null | undefined): string {
+  if (!value) return '';
+  if (typeof value === 'string') return value.slice(0, 10);
+  return value.original || value.text;
+}
+
+/** Representative Gregorian year (start of the range) for compact displays */
+export function dateYear(value: GenealogicalDateValue | string | Date | null | undefined): number | null {
+  if (!value) return null;
+  if (typeof value === 'string' || value instanceof Date) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date.getUTCFullYear();
+  }
+  const bound = value.earliest ?? value.latest;
+  return bound ? Number(bound.slice(0, 4)) : value.start.year;
+}
@@ -459,4 +459,107 @@ describe('buildGenealogyHierarchy', () => {
     const bobFromHierarchy = result.root.children[0];
     expect(bobFromMap).toBe(bobFromHierarchy); // Same reference
   });
+
+  // ============================================================================
+  // TEST: Parent-child subtypes
+  // ============================================================================
+
+  it('should record non-biological parent links on the child node', () => {
+    const dto: TreeRenderV1 = {
+      version: 'v1',
+      treeId: 'test-tree-13',
+      nodes: [
+        { id: 'alice', displayName: 'Alice' },
+        { id: 'bob', displayName: 'Bob' },
+        { id: 'carol', displayName: 'Carol' },
+      ],
+      edges: [
+        { id: 'e1', source: 'alice', target: 'bob', type: 'parent-child' },
+        { id: 'e2', source: 'alice', target: 'carol', type: 'parent-child', subtype: 'ADOPTIVE' },
+      ],
+    };
+
+    const result = buildGenealogyHierarchy(dto);
+
+    expect(result.nodeMap.get('bob')?.parentSubtypes).toBeUndefined();
+    expect(result.nodeMap.get('carol')?.parentSubtypes).toEqual({ alice: 'ADOPTIVE' });
+  });
+
+  // ============================================================================
+  // TEST: Children grouped by union
+  // ============================================================================
+
+  it('should order spouses by marriage and group children by union', () => {
+    // Scenario: Ismail married Aminah (2nd) and Khadijah (1st); Omar has no recorded mother
+    const marriage = (personAOrder: number, personBOrder: number) => ({
+      status: 'MARRIED' as const,
+      marriageDate: null,
+      marriagePlace: null,
+      divorceDate: null,
+      divorcePlace: null,
+      personAOrder,
+      personBOrder,
+    });
+    const dto: TreeRenderV1 = {
+      version: 'v1',
+      treeId: 'test-tree-14',
+      nodes: [
+        { id: 'ismail', displayName: 'Ismail' },
+        { id: 'aminah', displayName: 'Aminah' },
+        { id: 'khadijah', displayName: 'Khadijah' },
+        { id: 'ali', displayName: 'Ali' },
+        { id: 'omar', displayName: 'Omar' },
+        { id: 'hasan', displayName: 'Hasan' },
+      ],
+      edges: [
+        { id: 's1', source: 'ismail', target: 'aminah', type: 'spouse', marriage: marriage(2, 1) },
+        { id: 's2', source: 'ismail', target: 'khadijah', type: 'spouse' },
+        { id: 'e1', source: 'ismail', target: 'ali', type: 'parent-child' },
+        { id: 'e2', source: 'aminah', target: 'ali', type: 'parent-child' },
+        { id: 'e3', source: 'ismail', target: 'omar', type: 'parent-child' },
+        { id: 'e4', source: 'ismail', target: 'hasan', type: 'parent-child' },
+        { id: 'e5', source: 'khadijah', target: 'hasan', type: 'parent-child' },
+      ],
+    };
+
+    const result = buildGenealogyHierarchy(dto, { rootPersonId: 'ismail' });
+
+    expect(result.root.spouses).toEqual(['khadijah', 'aminah']);
+    expect(result.root.children.map((c) => c.personId)).toEqual(['hasan', 'ali', 'omar']);
+  });
+
+  it('should follow family birth order and attribution when families are listed', () => {
+    // Scenario: Yusuf and Aminah's younger son Husin is listed after Hasan;
+    // Zahra's family is Yusuf and Khadijah even though both are his spouses
+    const dto: TreeRenderV1 = {
+      version: 'v1',
+      treeId: 'test-tree-15',
+      nodes: [
+        { id: 'yusuf', displayName: 'Yusuf' },
+        { id: 'aminah', displayName: 'Aminah' },
+        { id: 'khadijah', displayName: 'Khadijah' },
+        { id: 'husin', displayName: 'Husin' },
+        { id: 'zahra', displayName: 'Zahra' },
+        { id: 'hasan', displayName: 'Hasan' },
+      ],
+      edges: [
+        { id: 's1', source: 'yusuf', target: 'aminah', type: 'spouse' },
+        { id: 's2', source: 'yusuf', target: 'khadijah', type: 'spouse' },
+        { id: 'e1', source: 'yusuf', target: 'zahra', type: 'parent-child' },
+        { id: 'e2', source: 'khadijah', target: 'zahra', type: 'parent-child' },
+        { id: 'e3', source: 'yusuf', target: 'husin', type: 'parent-child' },
+        { id: 'e4', source: 'aminah', target: 'husin', type: 'parent-child' },
+        { id: 'e5', source: 'yusuf', target: 'hasan', type: 'parent-child' },
+        { id: 'e6', source: 'aminah', target: 'hasan', type: 'parent-child' },
+      ],
+      families: [
+        { id: 'F1', parentIds: ['aminah', 'yusuf'], childIds: ['hasan', 'husin'] },
+        { id: 'F2', parentIds: ['khadijah', 'yusuf'], childIds: ['zahra'] },
+      ],
+    };
+
+    const result = buildGenealogyHierarchy(dto, { rootPersonId: 'yusuf' });
+
+    expect(result.root.children.map((c) => c.personId)).toEqual(['hasan', 'husin', 'zahra']);
+  });
 });
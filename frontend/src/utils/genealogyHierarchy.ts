@@ -7,7 +7,7 @@
  * @complexity O(N + E) where N = nodes, E = edges
  */
 
-import type { TreeRenderV1, RenderNode } from '../api';
+import type { TreeRenderV1, RenderNode, ParentChildType, MarriageDetails } from '../api';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -33,7 +33,8 @@ export interface GenealogyHierarchyNode {
   
   /**
    * Array of spouse person IDs at the same generation level.
-   * Derived from spouseEdges where this person is involved.
+   * Derived from spouseEdges where this person is involved, in this
+   * person's marriage order (first marriage first).
    * Used for horizontal layout grouping, not hierarchical structure.
    */
   readonly spouses: readonly string[];
@@ -45,9 +46,18 @@ export interface GenealogyHierarchyNode {
    */
   readonly parents: readonly string[];
   
+  /**
+   * Subtype of each non-biological parent link, keyed by parent person ID.
+   * Omitted when every parent is biological. Used for edge styling.
+   */
+  readonly parentSubtypes?: Readonly<Record<string, Exclude<ParentChildType, 'BIOLOGICAL'>>>;
+  
   /**
    * Recursive children array forming the hierarchy.
    * Each child is a full GenealogyHierarchyNode with generation = parent.generation + 1
+   * Grouped by union: children of this person's first marriage first, then
+   * later marriages, then children with no recorded co-parent spouse.
+   * Within a union, in the family's birth order when the DTO lists families.
    * This is the primary hierarchical structure for D3.hierarchy()
    */
   readonly children: readonly GenealogyHierarchyNode[];
@@ -200,10 +210,22 @@ export function buildGenealogyHierarchy(
 interface AdjacencyMaps {
   parentToChildren: Map<string, string[]>;
   childToParents: Map<string, string[]>;
+  /** child ID → parent ID → subtype, non-biological links only */
+  parentSubtypes: Map<string, Record<string, Exclude<ParentChildType, 'BIOLOGICAL'>>>;
   spouseMap: Map<string, string[]>;
+  /** person ID → spouse ID → marriage order for that person (absent = 1) */
+  marriageOrders: Map<string, Map<string, number>>;
+  /** parent ID → child ID → the family they share: its index, other parent and birth position */
+  childUnions: Map<string, Map<string, ChildUnion>>;
   nodeDataMap: Map<string, RenderNode>;
 }
 
+interface ChildUnion {
+  familyIndex: number;
+  coParentId: string | null;
+  position: number;
+}
+
 interface BuildContext {
   nodeMap: Map<string, GenealogyHierarchyNode>;
   generations: Generation[];
@@ -225,8 +247,20 @@ interface BuildContext {
 function buildAdjacencyMaps(dto: TreeRenderV1): AdjacencyMaps {
   const parentToChildren = new Map<string, string[]>();
   const childToParents = new Map<string, string[]>();
+  const parentSubtypes = new Map<string, Record<string, Exclude<ParentChildType, 'BIOLOGICAL'>>>();
   const spouseMap = new Map<string, string[]>();
+  const marriageOrders = new Map<string, Map<string, number>>();
   const nodeDataMap = new Map<string, RenderNode>();
+  const childUnions = new Map<string, Map<string, ChildUnion>>();
+  const addMarriage = (a: string, b: string, marriage?: MarriageDetails) => {
+    addEdge(spouseMap, a, b);
+    addEdge(spouseMap, b, a);
+    if (!marriage) return;
+    if (!marriageOrders.has(a)) marriageOrders.set(a, new Map());
+    if (!marriageOrders.has(b)) marriageOrders.set(b, new Map());
+    marriageOrders.get(a)!.set(b, marriage.personAOrder);
+    marriageOrders.get(b)!.set(a, marriage.personBOrder);
+  };
   
   // Build node data map
   for (const node of dto.nodes) {
@@ -240,9 +274,11 @@ function buildAdjacencyMaps(dto: TreeRenderV1): AdjacencyMaps {
       if (edge.type === 'parent-child') {
         addEdge(parentToChildren, edge.source, edge.target);
         addEdge(childToParents, edge.target, edge.source);
+        if (edge.subtype) {
+          parentSubtypes.set(edge.target, { ...parentSubtypes.get(edge.target), [edge.source]: edge.subtype });
+        }
       } else if (edge.type === 'spouse') {
-        addEdge(spouseMap, edge.source, edge.target);
-        addEdge(spouseMap, edge.target, edge.source);
+        addMarriage(edge.source, edge.target, edge.marriage);
       }
     }
   } else {
@@ -251,17 +287,73 @@ function buildAdjacencyMaps(dto: TreeRenderV1): AdjacencyMaps {
       for (const edge of dto.parentChildEdges) {
         addEdge(parentToChildren, edge.personAId, edge.personBId);
         addEdge(childToParents, edge.personBId, edge.personAId);
+        if (edge.subtype) {
+          parentSubtypes.set(edge.personBId, { ...parentSubtypes.get(edge.personBId), [edge.personAId]: edge.subtype });
+        }
       }
     }
     if (dto.spouseEdges) {
       for (const edge of dto.spouseEdges) {
-        addEdge(spouseMap, edge.personAId, edge.personBId);
-        addEdge(spouseMap, edge.personBId, edge.personAId);
+        addMarriage(edge.personAId, edge.personBId, edge.marriage);
       }
     }
   }
   
-  return { parentToChildren, childToParents, spouseMap, nodeDataMap };
+  // Families: the first one listing a parent and child decides their union
+  (dto.families ?? []).forEach((family, familyIndex) => {
+    for (const parentId of family.parentIds) {
+      if (!childUnions.has(parentId)) childUnions.set(parentId, new Map());
+      const unions = childUnions.get(parentId)!;
+      const coParentId = family.parentIds.find((id) => id !== parentId) ?? null;
+      family.childIds.forEach((childId, position) => {
+        if (!unions.has(childId)) unions.set(childId, { familyIndex, coParentId, position });
+      });
+    }
+  });
+  
+  return { parentToChildren, childToParents, parentSubtypes, spouseMap, marriageOrders, childUnions, nodeDataMap };
+}
+
+/**
+ * Orders a person's spouses by marriage and their children by union.
+ * A child's union is the family it is listed in with this person; without
+ * families, the spouse among its other parents. Families of spouses with
+ * the same marriage order stay apart, and within a family children follow
+ * its birth order; sorting is stable, so input order is kept otherwise.
+ *
+ * @complexity O(C log C) per person, C = children
+ */
+function orderByUnion(
+  personId: string,
+  spouses: readonly string[],
+  childIds: readonly string[],
+  adjacency: AdjacencyMaps
+): { spouses: string[]; childIds: string[] } {
+  const orders = adjacency.marriageOrders.get(personId);
+  const orderOf = (spouseId: string) => orders?.get(spouseId) ?? 1;
+  const spouseSet = new Set(spouses);
+  const families = adjacency.childUnions.get(personId);
+  const unionOf = (childId: string) => {
+    const family = families?.get(childId);
+    if (family) {
+      return family.coParentId && spouseSet.has(family.coParentId) ? orderOf(family.coParentId) : Infinity;
+    }
+    const coParents = (adjacency.childToParents.get(childId) || []).filter((p) => spouseSet.has(p));
+    return coParents.length > 0 ? Math.min(...coParents.map(orderOf)) : Infinity;
+  };
+  const compare = (a: number, b: number) => (a === b ? 0 : a < b ? -1 : 1);
+  return {
+    spouses: [...spouses].sort((a, b) => orderOf(a) - orderOf(b)),
+    childIds: [...childIds]
+      .map((childId) => ({
+        childId,
+        union: unionOf(childId),
+        family: families?.get(childId)?.familyIndex ?? Infinity,
+        position: families?.get(childId)?.position ?? Infinity,
+      }))
+      .sort((a, b) => compare(a.union, b.union) || compare(a.family, b.family) || compare(a.position, b.position))
+      .map(({ childId }) => childId),
+  };
 }
 
 /**
@@ -363,8 +455,13 @@ function buildHierarchyNode(
   
   // Get relationships
   const parents = context.adjacency.childToParents.get(personId) || [];
-  const spouses = context.adjacency.spouseMap.get(personId) || [];
-  const childIds = context.adjacency.parentToChildren.get(personId) || [];
+  const { spouses, childIds } = orderByUnion(
+    personId,
+    context.adjacency.spouseMap.get(personId) || [],
+    context.adjacency.parentToChildren.get(personId) || [],
+    context.adjacency
+  );
+  const parentSubtypes = context.adjacency.parentSubtypes.get(personId);
   
   // Recursively build children
   const children: GenealogyHierarchyNode[] = [];
@@ -387,8 +484,9 @@ function buildHierarchyNode(
     personId,
     displayName: nodeData.displayName,
     generation,
-    spouses: [...spouses], // Clone array for immutability
+    spouses, // Fresh array from orderByUnion
     parents: [...parents], // Clone array for immutability
+    ...(parentSubtypes ? { parentSubtypes: { ...parentSubtypes } } : {}),
     children,
     data: nodeData,
   };
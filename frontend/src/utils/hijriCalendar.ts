@@ -0,0 +1,75 @@
+/**
+ * Tabular Islamic calendar conversions, matching the backend's
+ * domain/hijri-calendar so client-side validation agrees with the server.
+ */
+
+export const HIJRI_MONTH_NAMES = [
+  'Muharram',
+  'Safar',
+  "Rabi' al-Awwal",
+  "Rabi' al-Thani",
+  'Jumada al-Ula',
+  'Jumada al-Thaniyah',
+  'Rajab',
+  "Sha'ban",
+  'Ramadan',
+  'Shawwal',
+  "Dhu al-Qi'dah",
+  'Dhu al-Hijjah',
+];
+
+const HIJRI_MONTH_CODES = ['MUHAR', 'SAFAR', 'RABIA', 'RABIT', 'JUMAA', 'JUMAT', 'RAJAB', 'SHAAB', 'RAMAD', 'SHAWW', 'DHUAQ', 'DHUAH'];
+
+const HIJRI_MONTH_ALIASES: Record<string, number> = {
+  muharram: 1, muharam: 1,
+  safar: 2,
+  rabialawwal: 3, rabiulawwal: 3, rabiulawal: 3, rabialawal: 3, rabii: 3, rabi1: 3,
+  rabialthani: 4, rabiulthani: 4, rabiuthani: 4, rabialakhir: 4, rabiulakhir: 4, rabiii: 4, rabi2: 4,
+  jumadaalula: 5, jumadaalawwal: 5, jumadalawal: 5, jumadilawal: 5, jumadai: 5, jumada1: 5,
+  jumadaalthaniyah: 6, jumadaalthani: 6, jumadaalakhirah: 6, jumadalakhir: 6, jumadilakhir: 6, jumadaii: 6, jumada2: 6,
+  rajab: 7,
+  shaban: 8, syaban: 8,
+  ramadan: 9, ramadhan: 9,
+  shawwal: 10, syawal: 10,
+  dhualqidah: 11, dhulqidah: 11, dhulqadah: 11, zulkaedah: 11,
+  dhualhijjah: 12, dhulhijjah: 12, zulhijjah: 12,
+};
+
+const EPOCH_JDN = 1948440;
+const UNIX_EPOCH_JDN = 2440588;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export function isHijriLeapYear(year: number): boolean {
+  return (14 + 11 * year) % 30 < 11;
+}
+
+export function hijriDaysInMonth(year: number, month: number): number {
+  if (month === 12 && isHijriLeapYear(year)) return 30;
+  return month % 2 === 1 ? 30 : 29;
+}
+
+function hijriToJdn(year: number, month: number, day: number): number {
+  return day + Math.ceil(29.5 * (month - 1)) + (year - 1) * 354 + Math.floor((3 + 11 * year) / 30) + EPOCH_JDN - 1;
+}
+
+/** UTC midnight of a Hijri calendar day */
+export function hijriToDate(year: number, month: number, day: number): Date {
+  return new Date((hijriToJdn(year, month, day) - UNIX_EPOCH_JDN) * MS_PER_DAY);
+}
+
+/** Hijri calendar day containing a UTC date */
+export function dateToHijri(date: Date): { year: number; month: number; day: number } {
+  const jdn = Math.floor(date.getTime() / MS_PER_DAY) + UNIX_EPOCH_JDN;
+  const year = Math.floor((30 * (jdn - EPOCH_JDN) + 10646) / 10631);
+  const month = Math.min(12, Math.ceil((jdn - 29 - hijriToJdn(year, 1, 1)) / 29.5) + 1);
+  const day = jdn - hijriToJdn(year, month, 1) + 1;
+  return { year, month, day };
+}
+
+/** Month number (1-12) for a GEDCOM code or transliterated name, or 0 */
+export function parseHijriMonth(text: string): number {
+  const code = HIJRI_MONTH_CODES.indexOf(text.toUpperCase());
+  if (code !== -1) return code + 1;
+  const normalized = text.normalize('NFD').toLowerCase().replace(/[^a-z0-9]/g, '');
+  return HIJRI_MONTH_ALIASES[normalized] ?? 0;
+}
@@ -0,0 +1,80 @@
+/**
+ * Unit tests for path highlighting and framing
+ *
+ * @module kinPath.test
+ * @pure No mocks, no snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { frameTransform, pathEdgeIds, pathPairKey, pathPairs } from './kinPath';
+import type { KinPathStep } from '../api';
+
+const step = (personId: string, relation: KinPathStep['relation'] = null): KinPathStep => ({
+  personId,
+  name: personId,
+  relation,
+  type: relation === 'PARENT' || relation === 'CHILD' ? 'BIOLOGICAL' : null,
+});
+
+const edges = [
+  { id: 'e1', source: 'umar', target: 'ahmad', type: 'parent-child' as const },
+  { id: 'e2', source: 'umar', target: 'fatimah', type: 'parent-child' as const },
+  { id: 'e3', source: 'fatimah', target: 'rashid', type: 'spouse' as const },
+  { id: 'e4', source: 'ahmad', target: 'umar', type: 'spouse' as const },
+];
+
+describe('pathEdgeIds', () => {
+  it('finds the parent-child edge the right way round for each step', () => {
+    const path = [step('ahmad'), step('umar', 'PARENT'), step('fatimah', 'CHILD')];
+    expect([...pathEdgeIds(path, edges)]).toEqual(['e1', 'e2']);
+  });
+
+  it('finds spouse edges whichever way they are stored', () => {
+    const path = [step('rashid'), step('fatimah', 'SPOUSE')];
+    expect([...pathEdgeIds(path, edges)]).toEqual(['e3']);
+  });
+
+  it('reads endpoints resolved to nodes by the layout', () => {
+    const resolved = [{ id: 'e1', source: { id: 'umar' }, target: { id: 'ahmad' }, type: 'parent-child' as const }];
+    expect([...pathEdgeIds([step('umar'), step('ahmad', 'CHILD')], resolved)]).toEqual(['e1']);
+  });
+
+  it('is empty for a single person', () => {
+    expect(pathEdgeIds([step('ahmad')], edges).size).toBe(0);
+  });
+});
+
+describe('pathPairs', () => {
+  it('keys consecutive persons regardless of direction', () => {
+    const pairs = pathPairs(['ahmad', 'umar', 'fatimah']);
+    expect(pairs.has(pathPairKey('umar', 'ahmad'))).toBe(true);
+    expect(pairs.has(pathPairKey('fatimah', 'umar'))).toBe(true);
+    expect(pairs.has(pathPairKey('ahmad', 'fatimah'))).toBe(false);
+  });
+});
+
+describe('frameTransform', () => {
+  it('centres and scales the points into the viewport', () => {
+    const t = frameTransform(
+      [
+        { x: 0, y: 0 },
+        { x: 200, y: 100 },
+      ],
+      520,
+      320,
+      { padding: 60 },
+    )!;
+    expect(t.k).toBe(2);
+    expect(t.x).toBe(260 - 100 * 2);
+    expect(t.y).toBe(160 - 50 * 2);
+  });
+
+  it('zooms out to fit a long path and caps the zoom for a short one', () => {
+    expect(frameTransform([{ x: 0, y: 0 }, { x: 2000, y: 0 }], 1000, 800, { padding: 0 })!.k).toBe(0.5);
+    expect(frameTransform([{ x: 10, y: 10 }], 1000, 800)!.k).toBe(2);
+  });
+
+  it('is null without points', () => {
+    expect(frameTransform([], 800, 600)).toBeNull();
+  });
+});
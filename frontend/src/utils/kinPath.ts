@@ -0,0 +1,74 @@
+/**
+ * The shortest path between two persons on the canvas: the edges it runs
+ * along, for highlighting, and the zoom that frames the persons on it.
+ *
+ * @module kinPath
+ */
+
+import type { KinPathStep } from '../api';
+
+type PathEdge = { id: string; source: unknown; target: unknown; type: 'spouse' | 'parent-child' };
+
+const endpointId = (endpoint: unknown) =>
+  typeof endpoint === 'string' ? endpoint : (endpoint as { id: string }).id;
+
+/** Key of the edge between two persons, the same whichever way it is walked */
+export const pathPairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+/** The pairs of consecutive persons on a path, as pathPairKey keys */
+export function pathPairs(personIds: readonly string[]): Set<string> {
+  const pairs = new Set<string>();
+  for (let i = 1; i < personIds.length; i++) pairs.add(pathPairKey(personIds[i - 1], personIds[i]));
+  return pairs;
+}
+
+/**
+ * Ids of the canvas edges a path runs along: the spouse edge for a spouse
+ * step, the parent-child edge the right way round for a parent or child step.
+ */
+export function pathEdgeIds(path: readonly KinPathStep[], edges: readonly PathEdge[]): Set<string> {
+  const ids = new Set<string>();
+  for (let i = 1; i < path.length; i++) {
+    const prev = path[i - 1].personId;
+    const { personId, relation } = path[i];
+    const [parentId, childId] = relation === 'PARENT' ? [personId, prev] : [prev, personId];
+    const edge = edges.find((e) => {
+      const source = endpointId(e.source);
+      const target = endpointId(e.target);
+      if (relation === 'SPOUSE') {
+        return e.type === 'spouse' && pathPairKey(source, target) === pathPairKey(prev, personId);
+      }
+      return e.type === 'parent-child' && source === parentId && target === childId;
+    });
+    if (edge) ids.add(edge.id);
+  }
+  return ids;
+}
+
+export type FrameTransform = { x: number; y: number; k: number };
+
+/**
+ * Translate and scale that fit `points` into a `width` × `height` viewport
+ * with `padding` around them, centred; never zooming in past `maxScale`.
+ * Null without points.
+ */
+export function frameTransform(
+  points: ReadonlyArray<{ x: number; y: number }>,
+  width: number,
+  height: number,
+  { padding = 60, minScale = 0.1, maxScale = 2 }: { padding?: number; minScale?: number; maxScale?: number } = {},
+): FrameTransform | null {
+  if (points.length === 0) return null;
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const spanX = Math.max(maxX - minX, 1);
+  const spanY = Math.max(maxY - minY, 1);
+  const fit = Math.min((width - 2 * padding) / spanX, (height - 2 * padding) / spanY);
+  const k = Math.max(minScale, Math.min(maxScale, fit));
+  return {
+    x: width / 2 - ((minX + maxX) / 2) * k,
+    y: height / 2 - ((minY + maxY) / 2) * k,
+    k,
+  };
+}
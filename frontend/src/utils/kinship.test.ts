@@ -0,0 +1,70 @@
+/**
+ * Unit tests for relationship sentences and paths
+ *
+ * @module kinship.test
+ * @pure No mocks, no snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { commonAncestorText, kinshipSentence } from './kinship';
+import type { Kinship } from '../api';
+
+const kinship = (overrides: Partial<Kinship>): Kinship => ({
+  fromId: 'ali',
+  toId: 'hafsah',
+  kind: 'BLOOD',
+  label: 'first cousin once removed',
+  blood: { up: 3, down: 2, half: false, commonAncestorIds: ['abdullah', 'maryam'] },
+  inLaw: null,
+  parentChildType: null,
+  formerSpouse: false,
+  path: [
+    { personId: 'ali', name: 'Ali', relation: null },
+    { personId: 'ahmad', name: 'Ahmad', relation: 'PARENT' },
+    { personId: 'umar', name: 'Umar', relation: 'PARENT' },
+    { personId: 'abdullah', name: 'Abdullah', relation: 'PARENT' },
+    { personId: 'zainab', name: 'Zainab', relation: 'CHILD' },
+    { personId: 'hafsah', name: 'Hafsah', relation: 'CHILD' },
+  ],
+  ...overrides,
+});
+
+describe('kinshipSentence', () => {
+  it('names what the second person is to the first', () => {
+    expect(kinshipSentence(kinship({}), 'Ali', 'Hafsah')).toBe("Hafsah is Ali's first cousin once removed.");
+  });
+
+  it('says so when nothing connects them', () => {
+    expect(kinshipSentence(kinship({ kind: 'NONE', label: null, path: [] }), 'Ali', 'Yusuf')).toBe(
+      'No relationship between Ali and Yusuf was found in this tree.'
+    );
+    expect(kinshipSentence(kinship({ kind: 'SELF', label: 'self' }), 'Ali', 'Ali')).toBe('Ali is the same person.');
+  });
+});
+
+describe('commonAncestorText', () => {
+  it('names the ancestor where the line turns, with a spouse who shares it', () => {
+    expect(commonAncestorText(kinship({}))).toBe('Abdullah and spouse');
+  });
+
+  it('skips the spouse step for a relative of a spouse', () => {
+    const wifesCousin = kinship({
+      kind: 'IN_LAW',
+      blood: { up: 2, down: 2, half: true, commonAncestorIds: ['hamid'] },
+      inLaw: { side: 'SPOUSE_RELATIVE', spouseId: 'sarah', relativeId: 'rahim' },
+      path: [
+        { personId: 'ahmad', name: 'Ahmad', relation: null },
+        { personId: 'sarah', name: 'Sarah', relation: 'SPOUSE' },
+        { personId: 'hamid', name: 'Hamid', relation: 'PARENT' },
+        { personId: 'karim', name: 'Karim', relation: 'PARENT' },
+        { personId: 'musa', name: 'Musa', relation: 'CHILD' },
+        { personId: 'rahim', name: 'Rahim', relation: 'CHILD' },
+      ],
+    });
+    expect(commonAncestorText(wifesCousin)).toBe('Karim');
+  });
+
+  it('is null for lineal relations', () => {
+    expect(commonAncestorText(kinship({ blood: { up: 2, down: 0, half: false, commonAncestorIds: ['umar'] } }))).toBeNull();
+  });
+});
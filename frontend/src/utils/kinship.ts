@@ -0,0 +1,50 @@
+/**
+ * "How are we related?": the sentence naming a relationship, the steps of
+ * the path between the two persons and the nearest common ancestor it
+ * passes through.
+ *
+ * @module kinship
+ */
+
+import type { KinLocale, Kinship, KinshipStepRelation } from '../api';
+
+export const KIN_LOCALE_NAMES: Record<KinLocale, string> = {
+  en: 'English',
+  ms: 'Bahasa Melayu',
+  ar: 'العربية',
+};
+
+export const PATH_STEP_LABELS: Record<KinshipStepRelation, string> = {
+  PARENT: 'parent',
+  CHILD: 'child',
+  SPOUSE: 'spouse',
+};
+
+export const PATH_STEP_ICONS: Record<KinshipStepRelation, string> = {
+  PARENT: '↑',
+  CHILD: '↓',
+  SPOUSE: '⚭',
+};
+
+/** "Hafsah is Ali's first cousin once removed." */
+export function kinshipSentence(kinship: Kinship, fromName: string, toName: string): string {
+  if (kinship.kind === 'SELF') return `${fromName} is the same person.`;
+  if (kinship.kind === 'NONE' || !kinship.label) return `No relationship between ${fromName} and ${toName} was found in this tree.`;
+  return `${toName} is ${fromName}'s ${kinship.label}.`;
+}
+
+/**
+ * The nearest common ancestor where a collateral blood line turns from up
+ * to down, e.g. "Abdullah and spouse"; null for lineal, spouse and other
+ * relations.
+ */
+export function commonAncestorText(kinship: Kinship): string | null {
+  const { blood } = kinship;
+  if (!blood || blood.up === 0 || blood.down === 0) return null;
+  const offset = kinship.inLaw?.side === 'SPOUSE_RELATIVE' ? 1 : 0;
+  const apex = kinship.path[blood.up + offset];
+  if (!apex) return null;
+  const others = blood.commonAncestorIds.length - 1;
+  if (others === 0) return apex.name;
+  return others === 1 ? `${apex.name} and spouse` : `${apex.name} and ${others} others`;
+}
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for life event helpers
+ *
+ * @module lifeEvents.test
+ * @pure No mocks, no snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatLifeEventSummary, lifeEventLabel, sortLifeEvents, validateLifeEventInput } from './lifeEvents';
+import type { LifeEvent } from '../api';
+
+const hajj: LifeEvent = {
+  eventId: 'E2',
+  type: 'HAJJ',
+  customType: null,
+  date: {
+    qualifier: 'ABOUT',
+    start: { year: 1925 },
+    precision: 'YEAR',
+    text: 'ABT 1925',
+    earliest: '1920-01-01',
+    latest: '1930-12-31',
+  },
+  place: 'Makkah',
+  placeId: null,
+  description: null,
+};
+
+const occupation: LifeEvent = {
+  eventId: 'E1',
+  type: 'OCCUPATION',
+  customType: null,
+  date: null,
+  place: 'Kota Bharu',
+  placeId: null,
+  description: 'Rubber trader',
+};
+
+const burial: LifeEvent = {
+  eventId: 'E3',
+  type: 'BURIAL',
+  customType: null,
+  date: {
+    qualifier: 'EXACT',
+    start: { year: 1952, month: 3, day: 4 },
+    precision: 'DAY',
+    text: '4 MAR 1952',
+    earliest: '1952-03-04',
+    latest: '1952-03-04',
+  },
+  place: null,
+  placeId: null,
+  description: 'Beside his father',
+};
+
+describe('formatLifeEventSummary', () => {
+  it('summarizes the date and place', () => {
+    expect(formatLifeEventSummary(hajj)).toBe('Hajj: about 1925, Makkah');
+    expect(formatLifeEventSummary(burial)).toBe('Burial: 4 Mar 1952');
+  });
+
+  it('leads with the description when it is the fact itself', () => {
+    expect(formatLifeEventSummary(occupation)).toBe('Occupation: Rubber trader, Kota Bharu');
+  });
+
+  it('names custom facts by their own name', () => {
+    expect(lifeEventLabel({ type: 'CUSTOM', customType: 'Umrah' })).toBe('Umrah');
+    expect(formatLifeEventSummary({ ...hajj, type: 'CUSTOM', customType: 'Umrah', date: null, place: null })).toBe('Umrah');
+  });
+});
+
+describe('life event helpers', () => {
+  it('orders dated events first, undated ones as recorded', () => {
+    expect(sortLifeEvents([occupation, burial, hajj]).map((e) => e.eventId)).toEqual(['E2', 'E3', 'E1']);
+  });
+
+  it('validates the form like the server', () => {
+    expect(validateLifeEventInput({ type: 'CUSTOM', customType: ' ' })).toBe('Name the fact');
+    expect(validateLifeEventInput({ type: 'EDUCATION' })).toBe('Education needs a description');
+    expect(validateLifeEventInput({ type: 'HAJJ', date: 'someday' })).toBe('Invalid date format');
+    expect(validateLifeEventInput({ type: 'HAJJ', date: 'ABT 1925' })).toBeNull();
+  });
+});
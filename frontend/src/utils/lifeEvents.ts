@@ -0,0 +1,78 @@
+/**
+ * Life events beyond birth and death: labels for forms, the one-line
+ * summary shown in the person drawer, and chronological ordering.
+ *
+ * @module lifeEvents
+ */
+
+import type { LifeEvent, LifeEventType } from '../api';
+import { formatGenealogicalDate, parseDateInput } from './genealogicalDate';
+
+export const LIFE_EVENT_TYPE_OPTIONS: ReadonlyArray<{ value: LifeEventType; label: string }> = [
+  { value: 'BURIAL', label: 'Burial' },
+  { value: 'MIGRATION', label: 'Migration' },
+  { value: 'RESIDENCE', label: 'Residence' },
+  { value: 'OCCUPATION', label: 'Occupation' },
+  { value: 'EDUCATION', label: 'Education' },
+  { value: 'HAJJ', label: 'Hajj' },
+  { value: 'CONVERSION', label: 'Conversion' },
+  { value: 'CUSTOM', label: 'Other fact' },
+];
+
+/** Types whose description is the fact itself, and so required */
+export function requiresDescription(type: LifeEventType): boolean {
+  return type === 'OCCUPATION' || type === 'EDUCATION';
+}
+
+/** "Hajj", or the custom fact's own name */
+export function lifeEventLabel(event: Pick<LifeEvent, 'type' | 'customType'>): string {
+  if (event.type === 'CUSTOM' && event.customType) return event.customType;
+  return LIFE_EVENT_TYPE_OPTIONS.find((o) => o.value === event.type)?.label ?? event.type;
+}
+
+/**
+ * One-line summary: "Occupation: Rubber trader, about 1920, Kota Bharu".
+ */
+export function formatLifeEventSummary(event: LifeEvent): string {
+  const details = [
+    requiresDescription(event.type) ? event.description : null,
+    event.date ? formatGenealogicalDate(event.date) : null,
+    event.place,
+  ].filter(Boolean);
+  const label = lifeEventLabel(event);
+  return details.length ? `${label}: ${details.join(', ')}` : label;
+}
+
+/**
+ * Events in date order; undated events keep their recorded order after
+ * the dated ones.
+ */
+export function sortLifeEvents(events: readonly LifeEvent[]): LifeEvent[] {
+  const key = (event: LifeEvent) => event.date?.earliest ?? event.date?.latest ?? null;
+  return events
+    .map((event, index) => ({ event, index, key: key(event) }))
+    .sort((a, b) => {
+      if (a.key && b.key && a.key !== b.key) return a.key < b.key ? -1 : 1;
+      if (a.key && !b.key) return -1;
+      if (!a.key && b.key) return 1;
+      return a.index - b.index;
+    })
+    .map(({ event }) => event);
+}
+
+/**
+ * Client-side check mirroring the server. Returns an error message or null.
+ */
+export function validateLifeEventInput(input: {
+  type: LifeEventType;
+  customType?: string | null;
+  date?: string | null;
+  description?: string | null;
+}): string | null {
+  if (input.type === 'CUSTOM' && !input.customType?.trim()) return 'Name the fact';
+  if (requiresDescription(input.type) && !input.description?.trim()) {
+    return `${lifeEventLabel({ type: input.type, customType: null })} needs a description`;
+  }
+  if (input.date && !parseDateInput(input.date)) return 'Invalid date format';
+  return null;
+}
@@ -0,0 +1,53 @@
+/**
+ * Unit tests for mahram answers
+ *
+ * @module mahram.test
+ * @pure No mocks, no snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mahramConditionNote, mahramSentence } from './mahram';
+import type { Mahram } from '../api';
+
+const answer = (overrides: Partial<Mahram>): Mahram => ({
+  fromId: 'ahmad',
+  toId: 'hafsah',
+  mahram: true,
+  basis: 'BLOOD',
+  rule: 'SIBLING_DESCENDANT',
+  condition: null,
+  path: [],
+  ...overrides,
+});
+
+describe('mahramSentence', () => {
+  it('names the basis and the rule from the first person', () => {
+    expect(mahramSentence(answer({}), 'Ahmad', 'Hafsah')).toBe(
+      "Hafsah is mahram to Ahmad by blood (nasab): a descendant of Ahmad's sibling.",
+    );
+    expect(mahramSentence(answer({ basis: 'MILK', rule: 'SIBLING' }), 'Ali', 'Shayma')).toBe(
+      "Shayma is mahram to Ali by milk kinship (raḍāʿa): Ali's sibling.",
+    );
+  });
+
+  it('says so when the two are not mahram', () => {
+    expect(mahramSentence(answer({ mahram: false, basis: null, rule: null }), 'Hana', 'Zaid')).toBe(
+      'Zaid is not mahram to Hana.',
+    );
+  });
+});
+
+describe('mahramConditionNote', () => {
+  it('notes the consummation condition only when there is one', () => {
+    expect(
+      mahramConditionNote(
+        answer({
+          basis: 'MARRIAGE',
+          rule: 'SPOUSE_DESCENDANT',
+          condition: 'CONSUMMATION',
+        }),
+      ),
+    ).toMatch(/consummated/);
+    expect(mahramConditionNote(answer({}))).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * "Is X mahram to Y?": the answer as a sentence naming the basis and the
+ * rule, and the note on a prohibition that needs a consummated marriage.
+ *
+ * @module mahram
+ */
+
+import type { Mahram, MahramBasis, MahramRule } from '../api';
+
+export const MAHRAM_BASIS_LABELS: Record<MahramBasis, string> = {
+  BLOOD: 'by blood (nasab)',
+  MILK: 'by milk kinship (raḍāʿa)',
+  MARRIAGE: 'by marriage (muṣāhara)',
+};
+
+const RULE_PHRASES: Record<MahramRule, (fromName: string) => string> = {
+  ASCENDANT: (from) => `an ascendant of ${from}`,
+  DESCENDANT: (from) => `a descendant of ${from}`,
+  SIBLING: (from) => `${from}'s sibling`,
+  SIBLING_DESCENDANT: (from) => `a descendant of ${from}'s sibling`,
+  ASCENDANT_SIBLING: (from) => `a sibling of ${from}'s ascendant`,
+  SPOUSE_ASCENDANT: (from) => `an ascendant of ${from}'s spouse`,
+  SPOUSE_DESCENDANT: (from) => `a descendant of ${from}'s spouse`,
+  ASCENDANT_SPOUSE: (from) => `the spouse of ${from}'s ascendant`,
+  DESCENDANT_SPOUSE: (from) => `the spouse of ${from}'s descendant`,
+};
+
+/** "Hafsah is mahram to Ahmad by blood (nasab): a descendant of Ahmad's sibling." */
+export function mahramSentence(mahram: Mahram, fromName: string, toName: string): string {
+  if (!mahram.mahram || !mahram.basis || !mahram.rule) return `${toName} is not mahram to ${fromName}.`;
+  return `${toName} is mahram to ${fromName} ${MAHRAM_BASIS_LABELS[mahram.basis]}: ${RULE_PHRASES[mahram.rule](fromName)}.`;
+}
+
+/** The condition a marriage-based answer rests on; null when there is none */
+export function mahramConditionNote(mahram: Mahram): string | null {
+  return mahram.condition === 'CONSUMMATION'
+    ? 'Only once the marriage on this path was consummated; the tree does not record that.'
+    : null;
+}
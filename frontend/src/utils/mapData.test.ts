@@ -0,0 +1,93 @@
+/**
+ * Unit tests for map points, arcs and the year filter
+ *
+ * @module mapData.test
+ * @pure No mocks, no snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildMapData, filterMapData, mapYearRange, type MapPerson } from './mapData';
+import type { GenealogicalDateValue } from './genealogicalDate';
+import type { LifeEvent } from '../api';
+
+const date = (year: string): GenealogicalDateValue => ({
+  qualifier: 'EXACT',
+  start: { year: Number(year) },
+  precision: 'YEAR',
+  text: year,
+  earliest: `${year}-01-01`,
+  latest: `${year}-12-31`,
+});
+
+const event = (eventId: string, type: LifeEvent['type'], place: string, year?: string): LifeEvent => ({
+  eventId,
+  type,
+  customType: null,
+  date: year ? date(year) : null,
+  place,
+  placeId: null,
+  description: null,
+});
+
+// Grandfather born in Tarim, buried in Singapore; his son born in Singapore
+const nodes = [
+  { id: 'ahmad', displayName: 'Ahmad' },
+  { id: 'ali', displayName: 'Ali' },
+  { id: 'fatimah', displayName: 'Fatimah' },
+];
+
+const persons = new Map<string, MapPerson>([
+  [
+    'ahmad',
+    {
+      birthDate: date('1880'),
+      birthPlace: 'Tarim, Hadramaut',
+      deathDate: date('1941'),
+      events: [event('E1', 'MIGRATION', 'Singapore', '1905'), event('E2', 'BURIAL', 'Singapore')],
+    },
+  ],
+  ['ali', { birthDate: date('1910'), birthPlace: 'Singapore', events: [] }],
+  ['fatimah', { birthPlace: 'Kampung Hulu', events: [] }],
+]);
+
+const parentChild = [
+  { parentId: 'ahmad', childId: 'ali' },
+  { parentId: 'ahmad', childId: 'fatimah' },
+];
+
+describe('buildMapData', () => {
+  it('places births, burials and events, dating a burial by the death', () => {
+    const data = buildMapData(nodes, persons, parentChild);
+    expect(data.points.map((p) => [p.id, p.kind, p.label, p.year])).toEqual([
+      ['ahmad:birth', 'birth', 'Birth', 1880],
+      ['ahmad:E1', 'event', 'Migration', 1905],
+      ['ahmad:E2', 'death', 'Burial', 1941],
+      ['ali:birth', 'birth', 'Birth', 1910],
+    ]);
+  });
+
+  it('draws arcs from birth to burial and from parent to child birthplaces', () => {
+    const data = buildMapData(nodes, persons, parentChild);
+    expect(data.arcs.map((a) => [a.id, a.kind, a.personId, a.year])).toEqual([
+      ['ahmad:life', 'life', 'ahmad', 1941],
+      ['ahmad>ali', 'generation', 'ali', 1910],
+    ]);
+  });
+
+  it('lists the places it cannot place, for pinning', () => {
+    expect(buildMapData(nodes, persons, parentChild).unplaced).toEqual([
+      { place: 'Kampung Hulu', placeId: null, count: 1 },
+    ]);
+  });
+});
+
+describe('filterMapData', () => {
+  it('keeps what had happened by the year, and undated items only when unfiltered', () => {
+    const data = buildMapData(nodes, persons, parentChild);
+    expect(mapYearRange(data)).toEqual({ min: 1880, max: 1941 });
+    const in1910 = filterMapData(data, 1910);
+    expect(in1910.points.map((p) => p.id)).toEqual(['ahmad:birth', 'ahmad:E1', 'ali:birth']);
+    expect(in1910.arcs.map((a) => a.id)).toEqual(['ahmad>ali']);
+    expect(filterMapData(data, null)).toBe(data);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * What the map shows: births, burials and other events at their places,
+ * arcs from a person's birthplace to where they were buried and from a
+ * parent's birthplace to their child's, and the places still to be
+ * pinned. Filtering by year keeps what had happened by then.
+ *
+ * @module mapData
+ */
+
+import type { PersonDetails, Place } from '../api';
+import { dateYear } from './genealogicalDate';
+import { lifeEventLabel } from './lifeEvents';
+import { normalizePlaceName } from './places';
+import { resolvePlaceCoordinates, type Coordinates } from './placeCoordinates';
+
+export type MapPerson = Pick<PersonDetails, 'birthDate' | 'birthPlace' | 'birthPlaceId' | 'deathDate' | 'events'>;
+
+// 'death': the burial, the place a life is recorded to end
+export type MapPointKind = 'birth' | 'death' | 'event';
+
+export type MapPoint = Coordinates & {
+  id: string;
+  personId: string;
+  displayName: string;
+  kind: MapPointKind;
+  label: string; // "Birth", "Burial", "Migration", ...
+  place: string;
+  year: number | null;
+  approximate: boolean;
+};
+
+// 'life': birth to burial of personId; 'generation': a parent's birthplace to personId's
+export type MapArc = {
+  id: string;
+  personId: string;
+  kind: 'life' | 'generation';
+  from: Coordinates;
+  to: Coordinates;
+  year: number | null;
+};
+
+// Recorded places the map cannot place, with how often they are recorded
+export type UnplacedPlace = { place: string; placeId: string | null; count: number };
+
+export type MapData = {
+  points: MapPoint[];
+  arcs: MapArc[];
+  unplaced: UnplacedPlace[];
+};
+
+const sameSpot = (a: Coordinates, b: Coordinates) => a.latitude === b.latitude && a.longitude === b.longitude;
+
+export function buildMapData(
+  nodes: ReadonlyArray<{ id: string; displayName: string }>,
+  persons: ReadonlyMap<string, MapPerson>,
+  parentChild: ReadonlyArray<{ parentId: string; childId: string }>,
+  places: readonly Place[] = []
+): MapData {
+  const points: MapPoint[] = [];
+  const unplaced = new Map<string, UnplacedPlace>();
+  const births = new Map<string, MapPoint>();
+  const burials = new Map<string, MapPoint>();
+
+  const place = (
+    node: { id: string; displayName: string },
+    id: string,
+    kind: MapPointKind,
+    label: string,
+    text: string | null | undefined,
+    placeId: string | null | undefined,
+    year: number | null
+  ): MapPoint | null => {
+    if (!text?.trim()) return null;
+    const resolved = resolvePlaceCoordinates(text, placeId, places);
+    if (!resolved) {
+      const key = placeId ?? normalizePlaceName(text);
+      const entry = unplaced.get(key) ?? { place: text.trim(), placeId: placeId ?? null, count: 0 };
+      entry.count++;
+      unplaced.set(key, entry);
+      return null;
+    }
+    const point: MapPoint = {
+      id,
+      personId: node.id,
+      displayName: node.displayName,
+      kind,
+      label,
+      place: text.trim(),
+      year,
+      latitude: resolved.latitude,
+      longitude: resolved.longitude,
+      approximate: resolved.approximate,
+    };
+    points.push(point);
+    return point;
+  };
+
+  for (const node of nodes) {
+    const person = persons.get(node.id);
+    if (!person) continue;
+    const birthYear = dateYear(person.birthDate);
+    const birth = place(node, `${node.id}:birth`, 'birth', 'Birth', person.birthPlace, person.birthPlaceId, birthYear);
+    if (birth) births.set(node.id, birth);
+    for (const event of person.events ?? []) {
+      const isBurial = event.type === 'BURIAL';
+      const year = dateYear(event.date) ?? (isBurial ? dateYear(person.deathDate) : null);
+      const kind = isBurial ? 'death' : 'event';
+      const point = place(node, `${node.id}:${event.eventId}`, kind, lifeEventLabel(event), event.place, event.placeId, year);
+      if (point && isBurial && !burials.has(node.id)) burials.set(node.id, point);
+    }
+  }
+
+  const arcs: MapArc[] = [];
+  for (const [personId, burial] of burials) {
+    const birth = births.get(personId);
+    if (birth && !sameSpot(birth, burial)) {
+      arcs.push({ id: `${personId}:life`, personId, kind: 'life', from: birth, to: burial, year: burial.year });
+    }
+  }
+  for (const { parentId, childId } of parentChild) {
+    const from = births.get(parentId);
+    const to = births.get(childId);
+    if (from && to && !sameSpot(from, to)) {
+      arcs.push({ id: `${parentId}>${childId}`, personId: childId, kind: 'generation', from, to, year: to.year });
+    }
+  }
+
+  return {
+    points,
+    arcs,
+    unplaced: [...unplaced.values()].sort((a, b) => b.count - a.count || a.place.localeCompare(b.place)),
+  };
+}
+
+/** Earliest and latest dated point or arc, or null when nothing is dated */
+export function mapYearRange(data: MapData): { min: number; max: number } | null {
+  const years = [...data.points, ...data.arcs].map((item) => item.year).filter((y): y is number => y !== null);
+  if (years.length === 0) return null;
+  return { min: Math.min(...years), max: Math.max(...years) };
+}
+
+/**
+ * What had happened by the end of `untilYear`; undated points and arcs
+ * show only when nothing is filtered (`untilYear` null).
+ */
+export function filterMapData(data: MapData, untilYear: number | null): MapData {
+  if (untilYear === null) return data;
+  const until = <T extends { year: number | null }>(item: T) => item.year !== null && item.year <= untilYear;
+  return { ...data, points: data.points.filter(until), arcs: data.arcs.filter(until) };
+}
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for marriage helpers
+ *
+ * @module marriage.test
+ * @pure No mocks, no snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatMarriageSummary, ordinal, spouseDashArray, spouseEdgeTitle, validateMarriageDates } from './marriage';
+import type { MarriageDetails } from '../api';
+
+const divorced: MarriageDetails = {
+  status: 'DIVORCED',
+  marriageDate: {
+    qualifier: 'EXACT',
+    start: { year: 1950, month: 3, day: 12 },
+    precision: 'DAY',
+    text: '12 MAR 1950',
+    earliest: '1950-03-12',
+    latest: '1950-03-12',
+  },
+  marriagePlace: 'Kota Bharu',
+  divorceDate: {
+    qualifier: 'ABOUT',
+    start: { year: 1958 },
+    precision: 'YEAR',
+    text: 'ABT 1958',
+    earliest: '1953-01-01',
+    latest: '1963-12-31',
+  },
+  divorcePlace: null,
+  personAOrder: 1,
+  personBOrder: 2,
+};
+
+describe('formatMarriageSummary', () => {
+  it('summarizes the marriage and how it ended', () => {
+    expect(formatMarriageSummary(divorced)).toBe('m. 12 Mar 1950, Kota Bharu; divorced about 1958');
+  });
+
+  it('shows the status alone when nothing else is recorded', () => {
+    expect(formatMarriageSummary({ ...divorced, status: 'WIDOWED', marriageDate: null, marriagePlace: null, divorceDate: null })).toBe(
+      'widowed',
+    );
+    expect(formatMarriageSummary(undefined)).toBe('');
+  });
+});
+
+describe('marriage helpers', () => {
+  it('draws marriages in force solid and ended ones dotted', () => {
+    expect(spouseDashArray(undefined)).toBeNull();
+    expect(spouseDashArray(divorced)).toBe('2,6');
+  });
+
+  it('titles spouse edges with the summary and marriage orders', () => {
+    expect(spouseEdgeTitle(undefined)).toBe('Spouse');
+    expect(spouseEdgeTitle(divorced)).toBe('Spouse: m. 12 Mar 1950, Kota Bharu; divorced about 1958 (1st / 2nd marriage)');
+  });
+
+  it('writes ordinals', () => {
+    expect([1, 2, 3, 4, 11, 12, 21].map(ordinal)).toEqual(['1st', '2nd', '3rd', '4th', '11th', '12th', '21st']);
+  });
+
+  it('rejects a divorce certainly before the marriage', () => {
+    expect(validateMarriageDates('1955', '1950')).toMatch(/Divorce date/);
+    expect(validateMarriageDates('ABT 1955', '1953')).toBeNull();
+    expect(validateMarriageDates('someday', null)).toBe('Invalid date format');
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Marriage details on spouse links: labels for forms, the summary shown
+ * on spouse edges, and the line style for marriages that have ended.
+ *
+ * @module marriage
+ */
+
+import type { MarriageDetails, MarriageStatus } from '../api';
+import { formatGenealogicalDate, isCertainlyBefore, parseDateInput } from './genealogicalDate';
+
+export const MARRIAGE_STATUS_OPTIONS: ReadonlyArray<{ value: MarriageStatus; label: string }> = [
+  { value: 'MARRIED', label: 'Married' },
+  { value: 'DIVORCED', label: 'Divorced' },
+  { value: 'ANNULLED', label: 'Annulled' },
+  { value: 'WIDOWED', label: 'Widowed' },
+];
+
+/** Statuses that record a divorce date and place */
+export function hasDivorceDetails(status: MarriageStatus): boolean {
+  return status === 'DIVORCED' || status === 'ANNULLED';
+}
+
+export function marriageStatusLabel(status: MarriageStatus): string {
+  return MARRIAGE_STATUS_OPTIONS.find((o) => o.value === status)?.label ?? status;
+}
+
+/**
+ * SVG stroke-dasharray for a spouse link: solid while the marriage is in
+ * force, dotted once it has ended.
+ */
+export function spouseDashArray(marriage?: MarriageDetails | null): string | null {
+  return !marriage || marriage.status === 'MARRIED' ? null : '2,6';
+}
+
+/**
+ * One-line summary for a spouse edge: "m. 12 Mar 1950, Kota Bharu; divorced about 1958".
+ * Empty when nothing is recorded.
+ */
+export function formatMarriageSummary(marriage?: MarriageDetails | null): string {
+  if (!marriage) return '';
+  const parts: string[] = [];
+  const married = [marriage.marriageDate ? formatGenealogicalDate(marriage.marriageDate) : null, marriage.marriagePlace]
+    .filter(Boolean)
+    .join(', ');
+  if (married) parts.push(`m. ${married}`);
+  if (marriage.status !== 'MARRIED') {
+    const ended = [marriage.divorceDate ? formatGenealogicalDate(marriage.divorceDate) : null, marriage.divorcePlace]
+      .filter(Boolean)
+      .join(', ');
+    parts.push([marriageStatusLabel(marriage.status).toLowerCase(), ended].filter(Boolean).join(' '));
+  }
+  return parts.join('; ');
+}
+
+/**
+ * Tooltip for a spouse edge: the summary, plus the marriage orders when
+ * this is not a first marriage for both ("Spouse (2nd / 1st marriage)").
+ */
+export function spouseEdgeTitle(marriage?: MarriageDetails | null): string {
+  const summary = formatMarriageSummary(marriage);
+  const title = summary ? `Spouse: ${summary}` : 'Spouse';
+  if (!marriage || (marriage.personAOrder === 1 && marriage.personBOrder === 1)) return title;
+  return `${title} (${ordinal(marriage.personAOrder)} / ${ordinal(marriage.personBOrder)} marriage)`;
+}
+
+/** "1st", "2nd", "3rd", "4th" ... for marriage orders */
+export function ordinal(n: number): string {
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  return `${n}${['th', 'st', 'nd', 'rd'][n % 10] ?? 'th'}`;
+}
+
+/**
+ * Client-side check mirroring the server: a divorce cannot certainly
+ * precede the marriage. Returns an error message or null.
+ */
+export function validateMarriageDates(marriageDate?: string | null, divorceDate?: string | null): string | null {
+  const married = marriageDate ? parseDateInput(marriageDate) : null;
+  const divorced = divorceDate ? parseDateInput(divorceDate) : null;
+  if ((marriageDate && !married) || (divorceDate && !divorced)) return 'Invalid date format';
+  if (married && divorced && isCertainlyBefore(divorced, married)) {
+    return 'Divorce date must be after or equal to marriage date';
+  }
+  return null;
+}
@@ -0,0 +1,71 @@
+/**
+ * Unit tests for media attachment helpers
+ *
+ * @module media.test
+ * @pure No mocks, no snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatFileSize, mediaContextLabel, validateMediaFile, withPortraitLink } from './media';
+import type { LifeEvent, MediaItem } from '../api';
+
+const burial: LifeEvent = {
+  eventId: 'E2',
+  type: 'BURIAL',
+  customType: null,
+  date: null,
+  place: 'Kampung Baru',
+  placeId: null,
+  description: null,
+};
+
+const item = (mimeType: string, links: MediaItem['links']): MediaItem => ({
+  mediaId: 'M1',
+  fileName: 'file',
+  mimeType,
+  size: 1024,
+  hasThumbnail: mimeType.startsWith('image/'),
+  caption: null,
+  date: null,
+  links,
+});
+
+describe('validateMediaFile', () => {
+  it('accepts the types and sizes the server accepts', () => {
+    expect(validateMediaFile({ type: 'image/jpeg', size: 482113 })).toBeNull();
+    expect(validateMediaFile({ type: 'image/svg+xml', size: 100 })).toMatch(/can be attached/);
+    expect(validateMediaFile({ type: '', size: 100 })).toMatch(/can be attached/);
+    expect(validateMediaFile({ type: 'application/pdf', size: 21 * 1024 * 1024 })).toBe('Files can be at most 20.0 MB');
+  });
+});
+
+describe('formatFileSize', () => {
+  it('uses the largest unit below the size', () => {
+    expect([820, 14540, 3670016].map(formatFileSize)).toEqual(['820 B', '14.2 KB', '3.5 MB']);
+  });
+});
+
+describe('mediaContextLabel', () => {
+  it('names the portrait, the linked events, or the kind of file', () => {
+    const own = { personId: 'ismail', eventId: null, primary: false };
+    expect(mediaContextLabel(item('image/jpeg', [{ ...own, primary: true }]), 'ismail')).toBe('Portrait');
+    expect(
+      mediaContextLabel(item('application/pdf', [{ ...own, eventId: 'E2' }]), 'ismail', [burial])
+    ).toBe('Burial');
+    expect(mediaContextLabel(item('image/jpeg', [own]), 'ismail')).toBe('Photo');
+    expect(mediaContextLabel(item('application/pdf', [own]), 'ismail')).toBe('Document');
+  });
+});
+
+describe('withPortraitLink', () => {
+  it('marks the person link primary, adding it when only events are linked', () => {
+    expect(withPortraitLink([{ personId: 'ismail' }, { personId: 'aminah' }], 'ismail')).toEqual([
+      { personId: 'ismail', primary: true },
+      { personId: 'aminah' },
+    ]);
+    expect(withPortraitLink([{ personId: 'ismail', eventId: 'E2' }], 'ismail')).toEqual([
+      { personId: 'ismail', eventId: 'E2' },
+      { personId: 'ismail', eventId: null, primary: true },
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Media attachments: the files the server accepts, sizes for display, and
+ * the links between a file and the person it is shown for.
+ *
+ * @module media
+ */
+
+import type { LifeEvent, MediaItem, MediaLink } from '../api';
+import { lifeEventLabel } from './lifeEvents';
+
+// Same list and limit as the server
+export const MEDIA_MIME_TYPES: readonly string[] = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/tiff',
+  'application/pdf',
+  'audio/mpeg',
+  'audio/wav',
+  'video/mp4',
+];
+
+export const MAX_MEDIA_SIZE = 20 * 1024 * 1024; // bytes
+
+// For the accept attribute of a file input
+export const MEDIA_ACCEPT = MEDIA_MIME_TYPES.join(',');
+
+export function isImageMedia(mimeType: string): boolean {
+  return mimeType.startsWith('image/');
+}
+
+/** "820 B", "14.2 KB", "3.5 MB" */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Why a file cannot be uploaded, or null when it can. Browsers leave the
+ * type empty for files they do not recognise.
+ */
+export function validateMediaFile(file: { size: number; type: string }): string | null {
+  if (!MEDIA_MIME_TYPES.includes(file.type)) {
+    return 'Only photos (JPEG, PNG, GIF, WebP, TIFF), PDF, MP3, WAV and MP4 files can be attached';
+  }
+  if (file.size > MAX_MEDIA_SIZE) {
+    return `Files can be at most ${formatFileSize(MAX_MEDIA_SIZE)}`;
+  }
+  return null;
+}
+
+export function isPortraitOf(item: MediaItem, personId: string): boolean {
+  return item.links.some((link) => link.personId === personId && link.primary);
+}
+
+/**
+ * What the file shows of the person: "Portrait", the events it is linked
+ * to ("Burial"), or "Photo"/"Document" when linked to the person itself.
+ */
+export function mediaContextLabel(item: MediaItem, personId: string, events: readonly LifeEvent[] = []): string {
+  if (isPortraitOf(item, personId)) return 'Portrait';
+  const eventLabels = item.links
+    .filter((link) => link.personId === personId && link.eventId)
+    .map((link) => {
+      const event = events.find((e) => e.eventId === link.eventId);
+      return event ? lifeEventLabel(event) : link.eventId;
+    });
+  if (eventLabels.length > 0) return eventLabels.join(', ');
+  return isImageMedia(item.mimeType) ? 'Photo' : 'Document';
+}
+
+/**
+ * The links of a file with it made the person's portrait: their own link
+ * (added when the file is only linked to their events) becomes primary.
+ */
+export function withPortraitLink(links: readonly MediaLink[], personId: string): MediaLink[] {
+  const own = links.some((link) => link.personId === personId && !link.eventId);
+  const updated = links.map((link) =>
+    link.personId === personId && !link.eventId ? { ...link, primary: true } : { ...link }
+  );
+  return own ? updated : [...updated, { personId, eventId: null, primary: true }];
+}
@@ -0,0 +1,38 @@
+/**
+ * Parent-child relationship subtypes: labels for forms and line styles
+ * shared by the tree canvases.
+ *
+ * @module parentChildTypes
+ */
+
+import type { ParentChildType } from '../api';
+
+export const PARENT_CHILD_TYPE_OPTIONS: ReadonlyArray<{ value: ParentChildType; label: string }> = [
+  { value: 'BIOLOGICAL', label: 'Biological' },
+  { value: 'ADOPTIVE', label: 'Adoptive' },
+  { value: 'STEP', label: 'Step' },
+  { value: 'FOSTER', label: 'Foster' },
+  { value: 'GUARDIAN', label: 'Guardian' },
+  { value: 'MILK', label: 'Milk (nursing)' },
+];
+
+/**
+ * SVG stroke-dasharray per subtype; biological links stay solid.
+ * Kept distinct from the 5,5 dash used for spouse links.
+ */
+const DASH_ARRAYS: Record<ParentChildType, string | null> = {
+  BIOLOGICAL: null,
+  ADOPTIVE: '10,4',
+  STEP: '2,4',
+  FOSTER: '10,4,2,4',
+  GUARDIAN: '1,6',
+  MILK: '6,3,1,3',
+};
+
+export function parentChildDashArray(subtype?: ParentChildType | null): string | null {
+  return DASH_ARRAYS[subtype ?? 'BIOLOGICAL'];
+}
+
+export function parentChildTypeLabel(subtype?: ParentChildType | null): string {
+  return PARENT_CHILD_TYPE_OPTIONS.find((o) => o.value === (subtype ?? 'BIOLOGICAL'))?.label ?? 'Biological';
+}
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for shared ancestry texts
+ *
+ * @module pedigree.test
+ * @pure No mocks, no snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ancestorDegree, collapseSummary, commonAncestorRoles, repeatedAncestorText } from './pedigree';
+
+describe('ancestorDegree', () => {
+  it('names the first generations and counts greats after that', () => {
+    expect([1, 2, 3, 4, 6].map(ancestorDegree)).toEqual([
+      'parent',
+      'grandparent',
+      'great-grandparent',
+      '2× great-grandparent',
+      '4× great-grandparent',
+    ]);
+    expect(ancestorDegree(0)).toBeNull();
+  });
+});
+
+describe('repeatedAncestorText', () => {
+  it('gives the number of lines and each place the ancestor fills', () => {
+    expect(repeatedAncestorText({ ancestorId: 'a', name: 'A', generations: [3], paths: 2 })).toBe(
+      '2 lines, as great-grandparent',
+    );
+    expect(repeatedAncestorText({ ancestorId: 'a', name: 'A', generations: [2, 3, 4], paths: 3 })).toBe(
+      '3 lines, as grandparent, great-grandparent and 2× great-grandparent',
+    );
+  });
+});
+
+describe('collapseSummary', () => {
+  it('rounds the collapse to a percentage', () => {
+    expect(
+      collapseSummary({ personId: 'ali', distinctAncestors: 9, ancestorSlots: 12, collapse: 0.25, repeated: [] }),
+    ).toBe('9 ancestors fill 12 places (25% collapse)');
+  });
+});
+
+describe('commonAncestorRoles', () => {
+  const names: Record<string, string> = { ahmad: 'Ahmad', maryam: 'Maryam', umar: 'Umar' };
+  const nameOf = (id: string) => names[id];
+
+  it('says how far the ancestor is from each person', () => {
+    const ancestor = {
+      ancestorId: 'abdullah',
+      name: 'Abdullah',
+      distances: [
+        { personId: 'ahmad', generations: 2 },
+        { personId: 'maryam', generations: 3 },
+      ],
+    };
+    expect(commonAncestorRoles(ancestor, nameOf)).toBe('grandparent of Ahmad, great-grandparent of Maryam');
+  });
+
+  it('leaves out the person who is the ancestor', () => {
+    const ancestor = {
+      ancestorId: 'umar',
+      name: 'Umar',
+      distances: [
+        { personId: 'ahmad', generations: 1 },
+        { personId: 'umar', generations: 0 },
+      ],
+    };
+    expect(commonAncestorRoles(ancestor, nameOf)).toBe('parent of Ahmad');
+  });
+});
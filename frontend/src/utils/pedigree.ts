@@ -0,0 +1,42 @@
+/**
+ * Shared ancestry in the person drawer: where an ancestor sits relative to
+ * a person, how often a repeated ancestor appears in a collapsed pedigree
+ * and how far a common ancestor is from each person.
+ *
+ * @module pedigree
+ */
+
+import type { CommonAncestor, PedigreeCollapse, RepeatedAncestor } from '../api';
+
+/** "parent", "grandparent", "great-grandparent", "2× great-grandparent"; null for the person themself */
+export function ancestorDegree(generations: number): string | null {
+  if (generations <= 0) return null;
+  if (generations === 1) return 'parent';
+  if (generations === 2) return 'grandparent';
+  if (generations === 3) return 'great-grandparent';
+  return `${generations - 2}× great-grandparent`;
+}
+
+/** "2 lines, as great-grandparent" or "3 lines, as grandparent and great-grandparent" */
+export function repeatedAncestorText(ancestor: RepeatedAncestor): string {
+  const degrees = ancestor.generations.map(ancestorDegree).filter((d): d is string => d !== null);
+  const as = degrees.length > 1 ? `${degrees.slice(0, -1).join(', ')} and ${degrees[degrees.length - 1]}` : degrees[0];
+  return `${ancestor.paths} lines, as ${as}`;
+}
+
+/** "9 ancestors fill 12 places (25% collapse)" */
+export function collapseSummary(collapse: PedigreeCollapse): string {
+  const percent = Math.round(collapse.collapse * 100);
+  return `${collapse.distinctAncestors} ancestors fill ${collapse.ancestorSlots} places (${percent}% collapse)`;
+}
+
+/**
+ * "grandparent of Ahmad, great-grandparent of Maryam"; a person who is
+ * themself the common ancestor is left out.
+ */
+export function commonAncestorRoles(ancestor: CommonAncestor, nameOf: (personId: string) => string): string {
+  return ancestor.distances
+    .filter((d) => d.generations > 0)
+    .map((d) => `${ancestorDegree(d.generations)} of ${nameOf(d.personId)}`)
+    .join(', ');
+}
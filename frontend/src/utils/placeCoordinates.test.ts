@@ -0,0 +1,77 @@
+/**
+ * Unit tests for place coordinates
+ *
+ * @module placeCoordinates.test
+ * @pure No mocks, no snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { lookupKnownPlace, resolvePlaceCoordinates } from './placeCoordinates';
+import type { Place } from '../api';
+
+const place = (placeId: string, name: string, fullName: string, extra: Partial<Place> = {}): Place => ({
+  placeId,
+  name,
+  type: null,
+  parentId: null,
+  alternateNames: [],
+  latitude: null,
+  longitude: null,
+  fullName,
+  personCount: 0,
+  totalPersonCount: 0,
+  ...extra,
+});
+
+// A village pinned in the tree, under a town that is not
+const places: Place[] = [
+  place('PL1', 'Kota Bharu', 'Kota Bharu'),
+  place('PL2', 'Kampung Laut', 'Kampung Laut, Kota Bharu', { parentId: 'PL1', latitude: 6.13, longitude: 102.25 }),
+  place('PL3', 'Pasir Mas', 'Pasir Mas, Kota Bharu', { parentId: 'PL1' }),
+];
+
+describe('lookupKnownPlace', () => {
+  it('knows places by their usual name, older names and other scripts', () => {
+    expect(lookupKnownPlace('batavia')).toMatchObject({ name: 'Jakarta', latitude: -6.2088 });
+    expect(lookupKnownPlace('تريم')?.name).toBe('Tarim');
+    expect(lookupKnownPlace('Atlantis')).toBeNull();
+  });
+});
+
+describe('resolvePlaceCoordinates', () => {
+  it('takes a pinned gazetteer place, by link or by name', () => {
+    expect(resolvePlaceCoordinates('Kampung Laut, Kota Bharu', 'PL2', places)).toEqual({
+      latitude: 6.13,
+      longitude: 102.25,
+      source: 'gazetteer',
+      matched: 'Kampung Laut, Kota Bharu',
+      approximate: false,
+    });
+    expect(resolvePlaceCoordinates('kampung laut', null, places)?.matched).toBe('Kampung Laut, Kota Bharu');
+  });
+
+  it('falls back to the bundled lookup, most specific part first', () => {
+    expect(resolvePlaceCoordinates('Tarim, Hadramaut, Yemen', null)).toMatchObject({
+      matched: 'Tarim',
+      source: 'bundled',
+      approximate: false,
+    });
+    expect(resolvePlaceCoordinates('Kampung Baru, Kuala Lumpur', null)).toMatchObject({
+      matched: 'Kuala Lumpur',
+      approximate: true,
+    });
+  });
+
+  it('places a linked place not pinned yet at its town', () => {
+    expect(resolvePlaceCoordinates('Pasir Mas, Kota Bharu', 'PL3', places)).toMatchObject({
+      matched: 'Kota Bharu',
+      source: 'bundled',
+      approximate: true,
+    });
+  });
+
+  it('returns null for places nobody knows', () => {
+    expect(resolvePlaceCoordinates('Kampung Hulu', null, places)).toBeNull();
+    expect(resolvePlaceCoordinates(null, null, places)).toBeNull();
+  });
+});
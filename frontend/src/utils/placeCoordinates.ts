@@ -0,0 +1,269 @@
+/**
+ * Coordinates for place text: from the tree's gazetteer when a place has
+ * been pinned there, else from a small lookup bundled with the app, so
+ * that the map works without any geocoding service.
+ *
+ * Place text is read most specific first: "Kampung Baru, Kota Bharu,
+ * Kelantan" is placed at Kota Bharu when Kampung Baru is not known, and
+ * marked approximate.
+ *
+ * @module placeCoordinates
+ */
+
+import type { Place } from '../api';
+import { matchPlace, normalizePlaceName } from './places';
+
+export type Coordinates = { latitude: number; longitude: number };
+
+export type ResolvedPlace = Coordinates & {
+  // 'gazetteer': pinned in the tree; 'bundled': the lookup below
+  source: 'gazetteer' | 'bundled';
+  // The name the coordinates belong to
+  matched: string;
+  // Placed at a larger place than the one recorded
+  approximate: boolean;
+};
+
+type KnownPlace = { name: string; aliases?: readonly string[]; latitude: number; longitude: number };
+
+// Towns, states and countries the families in these trees mostly come
+// from and moved between, with the spellings found in records
+const KNOWN_PLACES: readonly KnownPlace[] = [
+  // Malaysia
+  { name: 'Malaysia', aliases: ['Malaya', 'Tanah Melayu'], latitude: 4.2105, longitude: 101.9758 },
+  { name: 'Kuala Lumpur', aliases: ['KL'], latitude: 3.139, longitude: 101.6869 },
+  { name: 'George Town', aliases: ['Georgetown', 'Tanjung'], latitude: 5.4141, longitude: 100.3288 },
+  { name: 'Penang', aliases: ['Pulau Pinang', 'Pinang'], latitude: 5.4164, longitude: 100.3327 },
+  { name: 'Ipoh', latitude: 4.5975, longitude: 101.0901 },
+  { name: 'Johor Bahru', aliases: ['Johor Baharu', 'Johore Bahru'], latitude: 1.4927, longitude: 103.7414 },
+  { name: 'Melaka', aliases: ['Malacca', 'Bandar Melaka'], latitude: 2.1896, longitude: 102.2501 },
+  { name: 'Kota Bharu', aliases: ['Kota Baharu'], latitude: 6.1254, longitude: 102.2381 },
+  { name: 'Kuala Terengganu', aliases: ['Kuala Trengganu'], latitude: 5.3296, longitude: 103.137 },
+  { name: 'Alor Setar', aliases: ['Alor Star'], latitude: 6.1248, longitude: 100.3678 },
+  { name: 'Kangar', latitude: 6.4414, longitude: 100.1986 },
+  { name: 'Seremban', latitude: 2.7259, longitude: 101.9378 },
+  { name: 'Kuantan', latitude: 3.8077, longitude: 103.326 },
+  { name: 'Shah Alam', latitude: 3.0733, longitude: 101.5185 },
+  { name: 'Klang', aliases: ['Kelang'], latitude: 3.0449, longitude: 101.4456 },
+  { name: 'Putrajaya', latitude: 2.9264, longitude: 101.6964 },
+  { name: 'Kuala Kangsar', latitude: 4.7728, longitude: 100.9372 },
+  { name: 'Taiping', latitude: 4.85, longitude: 100.7333 },
+  { name: 'Muar', aliases: ['Bandar Maharani'], latitude: 2.0442, longitude: 102.5689 },
+  { name: 'Batu Pahat', latitude: 1.8548, longitude: 102.9325 },
+  { name: 'Kuching', latitude: 1.5533, longitude: 110.3592 },
+  { name: 'Kota Kinabalu', aliases: ['Jesselton'], latitude: 5.9804, longitude: 116.0735 },
+  { name: 'Sandakan', latitude: 5.8402, longitude: 118.1179 },
+  { name: 'Labuan', latitude: 5.2831, longitude: 115.2308 },
+  { name: 'Kelantan', latitude: 5.2, longitude: 102.0 },
+  { name: 'Terengganu', aliases: ['Trengganu'], latitude: 4.7565, longitude: 103.0 },
+  { name: 'Kedah', latitude: 6.1184, longitude: 100.6 },
+  { name: 'Perlis', latitude: 6.4449, longitude: 100.2048 },
+  { name: 'Perak', latitude: 4.5921, longitude: 101.0901 },
+  { name: 'Selangor', latitude: 3.3, longitude: 101.5 },
+  { name: 'Negeri Sembilan', aliases: ['Negri Sembilan'], latitude: 2.7258, longitude: 102.2 },
+  { name: 'Pahang', latitude: 3.8126, longitude: 102.8 },
+  { name: 'Johor', aliases: ['Johore'], latitude: 1.9344, longitude: 103.3587 },
+  { name: 'Sabah', aliases: ['North Borneo'], latitude: 5.4204, longitude: 116.7968 },
+  { name: 'Sarawak', latitude: 2.4709, longitude: 113.0 },
+  // Singapore and Brunei
+  { name: 'Singapore', aliases: ['Singapura', 'Temasek'], latitude: 1.3521, longitude: 103.8198 },
+  { name: 'Brunei', aliases: ['Brunei Darussalam'], latitude: 4.5353, longitude: 114.7277 },
+  { name: 'Bandar Seri Begawan', latitude: 4.9031, longitude: 114.9398 },
+  // Indonesia
+  { name: 'Indonesia', aliases: ['Dutch East Indies', 'Hindia Belanda'], latitude: -0.7893, longitude: 113.9213 },
+  { name: 'Jakarta', aliases: ['Batavia', 'Betawi', 'Djakarta'], latitude: -6.2088, longitude: 106.8456 },
+  { name: 'Bogor', aliases: ['Buitenzorg'], latitude: -6.5971, longitude: 106.806 },
+  { name: 'Bandung', latitude: -6.9175, longitude: 107.6191 },
+  { name: 'Cirebon', aliases: ['Cheribon'], latitude: -6.7063, longitude: 108.557 },
+  { name: 'Semarang', latitude: -6.9667, longitude: 110.4167 },
+  { name: 'Pekalongan', latitude: -6.8898, longitude: 109.6746 },
+  { name: 'Yogyakarta', aliases: ['Jogjakarta', 'Jogja'], latitude: -7.7956, longitude: 110.3695 },
+  { name: 'Surakarta', aliases: ['Solo'], latitude: -7.5755, longitude: 110.8243 },
+  { name: 'Surabaya', aliases: ['Soerabaja'], latitude: -7.2575, longitude: 112.7521 },
+  { name: 'Gresik', latitude: -7.1567, longitude: 112.6555 },
+  { name: 'Medan', latitude: 3.5952, longitude: 98.6722 },
+  { name: 'Banda Aceh', aliases: ['Kutaraja', 'Aceh'], latitude: 5.5483, longitude: 95.3238 },
+  { name: 'Padang', latitude: -0.9471, longitude: 100.4172 },
+  { name: 'Bukittinggi', aliases: ['Fort de Kock'], latitude: -0.3055, longitude: 100.3692 },
+  { name: 'Pekanbaru', latitude: 0.5071, longitude: 101.4478 },
+  { name: 'Palembang', latitude: -2.9761, longitude: 104.7754 },
+  { name: 'Jambi', latitude: -1.6101, longitude: 103.6131 },
+  { name: 'Tanjung Pinang', aliases: ['Tanjungpinang'], latitude: 0.9186, longitude: 104.4554 },
+  { name: 'Pontianak', latitude: -0.0263, longitude: 109.3425 },
+  { name: 'Banjarmasin', latitude: -3.3186, longitude: 114.5944 },
+  { name: 'Makassar', aliases: ['Ujung Pandang', 'Macassar'], latitude: -5.1477, longitude: 119.4327 },
+  { name: 'Ambon', latitude: -3.6954, longitude: 128.1814 },
+  { name: 'Denpasar', latitude: -8.6705, longitude: 115.2126 },
+  { name: 'Mataram', latitude: -8.5833, longitude: 116.1167 },
+  // Southern Thailand, the Philippines and the mainland
+  { name: 'Thailand', aliases: ['Siam'], latitude: 15.87, longitude: 100.9925 },
+  { name: 'Bangkok', latitude: 13.7563, longitude: 100.5018 },
+  { name: 'Pattani', aliases: ['Patani'], latitude: 6.8694, longitude: 101.2502 },
+  { name: 'Yala', latitude: 6.5411, longitude: 101.2804 },
+  { name: 'Narathiwat', latitude: 6.4255, longitude: 101.8253 },
+  { name: 'Satun', aliases: ['Setul'], latitude: 6.6238, longitude: 100.0674 },
+  { name: 'Hat Yai', latitude: 7.0084, longitude: 100.4747 },
+  { name: 'Phnom Penh', latitude: 11.5564, longitude: 104.9282 },
+  { name: 'Yangon', aliases: ['Rangoon'], latitude: 16.8409, longitude: 96.1735 },
+  { name: 'Philippines', latitude: 12.8797, longitude: 121.774 },
+  { name: 'Manila', latitude: 14.5995, longitude: 120.9842 },
+  { name: 'Zamboanga', latitude: 6.9214, longitude: 122.079 },
+  { name: 'Cotabato', latitude: 7.2236, longitude: 124.2464 },
+  { name: 'Marawi', latitude: 7.9986, longitude: 124.2928 },
+  { name: 'Jolo', latitude: 6.0535, longitude: 121.0022 },
+  // Yemen and Hadramaut
+  { name: 'Yemen', aliases: ['اليمن'], latitude: 15.5527, longitude: 48.5164 },
+  { name: 'Hadramaut', aliases: ['Hadhramaut', 'Hadramawt', 'Hadhramawt', 'حضرموت'], latitude: 15.93, longitude: 48.79 },
+  { name: 'Tarim', aliases: ['Tareem', 'تريم'], latitude: 16.0567, longitude: 48.9989 },
+  { name: 'Seiyun', aliases: ["Say'un", 'Sayun', 'Seiwun', 'سيئون'], latitude: 15.943, longitude: 48.7873 },
+  { name: 'Shibam', aliases: ['شبام'], latitude: 15.9266, longitude: 48.6267 },
+  { name: 'Mukalla', aliases: ['Al Mukalla', 'المكلا'], latitude: 14.5425, longitude: 49.1242 },
+  { name: 'Shihr', aliases: ['Ash Shihr', 'الشحر'], latitude: 14.7593, longitude: 49.6059 },
+  { name: 'Aden', aliases: ['عدن'], latitude: 12.7855, longitude: 45.0187 },
+  { name: "Sana'a", aliases: ['Sanaa', 'Sana', 'صنعاء'], latitude: 15.3694, longitude: 44.191 },
+  { name: 'Zabid', aliases: ['Zebid', 'زبيد'], latitude: 14.1951, longitude: 43.3152 },
+  { name: 'Hudaydah', aliases: ['Al Hudaydah', 'Hodeidah', 'الحديدة'], latitude: 14.7978, longitude: 42.9545 },
+  { name: 'Taiz', aliases: ["Ta'izz", 'تعز'], latitude: 13.5795, longitude: 44.0209 },
+  // Arabia and the Middle East
+  { name: 'Saudi Arabia', aliases: ['Hejaz', 'Hijaz'], latitude: 23.8859, longitude: 45.0792 },
+  { name: 'Makkah', aliases: ['Mecca', 'Mekah', 'Mekkah', 'مكة'], latitude: 21.3891, longitude: 39.8579 },
+  { name: 'Madinah', aliases: ['Medina', 'Madinah al-Munawwarah', 'المدينة'], latitude: 24.5247, longitude: 39.5692 },
+  { name: 'Jeddah', aliases: ['Jiddah', 'Jedda', 'جدة'], latitude: 21.4858, longitude: 39.1925 },
+  { name: 'Taif', aliases: ["Ta'if", 'الطائف'], latitude: 21.2703, longitude: 40.4158 },
+  { name: 'Riyadh', aliases: ['الرياض'], latitude: 24.7136, longitude: 46.6753 },
+  { name: 'Oman', latitude: 21.4735, longitude: 55.9754 },
+  { name: 'Muscat', aliases: ['مسقط'], latitude: 23.588, longitude: 58.3829 },
+  { name: 'United Arab Emirates', aliases: ['UAE'], latitude: 23.4241, longitude: 53.8478 },
+  { name: 'Dubai', latitude: 25.2048, longitude: 55.2708 },
+  { name: 'Doha', latitude: 25.2854, longitude: 51.531 },
+  { name: 'Kuwait', aliases: ['Kuwait City'], latitude: 29.3759, longitude: 47.9774 },
+  { name: 'Manama', aliases: ['Bahrain'], latitude: 26.2285, longitude: 50.586 },
+  { name: 'Iraq', latitude: 33.2232, longitude: 43.6793 },
+  { name: 'Baghdad', aliases: ['بغداد'], latitude: 33.3152, longitude: 44.3661 },
+  { name: 'Basra', aliases: ['Basrah', 'البصرة'], latitude: 30.5085, longitude: 47.7804 },
+  { name: 'Syria', aliases: ['Sham', 'Syam'], latitude: 34.8021, longitude: 38.9968 },
+  { name: 'Damascus', aliases: ['Dimashq', 'دمشق'], latitude: 33.5138, longitude: 36.2765 },
+  { name: 'Jerusalem', aliases: ['Al-Quds', 'Baitulmaqdis', 'القدس'], latitude: 31.7683, longitude: 35.2137 },
+  { name: 'Amman', latitude: 31.9454, longitude: 35.9284 },
+  { name: 'Beirut', latitude: 33.8938, longitude: 35.5018 },
+  { name: 'Egypt', aliases: ['Mesir', 'مصر'], latitude: 26.8206, longitude: 30.8025 },
+  { name: 'Cairo', aliases: ['Kaherah', 'القاهرة'], latitude: 30.0444, longitude: 31.2357 },
+  { name: 'Alexandria', aliases: ['Iskandariah', 'الإسكندرية'], latitude: 31.2001, longitude: 29.9187 },
+  { name: 'Turkey', aliases: ['Turki', 'Türkiye'], latitude: 38.9637, longitude: 35.2433 },
+  { name: 'Istanbul', aliases: ['Constantinople'], latitude: 41.0082, longitude: 28.9784 },
+  { name: 'Iran', aliases: ['Persia'], latitude: 32.4279, longitude: 53.688 },
+  { name: 'Tehran', latitude: 35.6892, longitude: 51.389 },
+  // South Asia
+  { name: 'India', latitude: 20.5937, longitude: 78.9629 },
+  { name: 'Delhi', aliases: ['New Delhi'], latitude: 28.7041, longitude: 77.1025 },
+  { name: 'Mumbai', aliases: ['Bombay'], latitude: 19.076, longitude: 72.8777 },
+  { name: 'Surat', latitude: 21.1702, longitude: 72.8311 },
+  { name: 'Kolkata', aliases: ['Calcutta'], latitude: 22.5726, longitude: 88.3639 },
+  { name: 'Chennai', aliases: ['Madras'], latitude: 13.0827, longitude: 80.2707 },
+  { name: 'Kozhikode', aliases: ['Calicut'], latitude: 11.2588, longitude: 75.7804 },
+  { name: 'Nagapattinam', aliases: ['Negapatam'], latitude: 10.7672, longitude: 79.8449 },
+  { name: 'Kayalpatnam', aliases: ['Kayalpattinam'], latitude: 8.5694, longitude: 78.1217 },
+  { name: 'Pakistan', latitude: 30.3753, longitude: 69.3451 },
+  { name: 'Karachi', latitude: 24.8607, longitude: 67.0011 },
+  { name: 'Lahore', latitude: 31.5204, longitude: 74.3587 },
+  { name: 'Bangladesh', latitude: 23.685, longitude: 90.3563 },
+  { name: 'Dhaka', aliases: ['Dacca'], latitude: 23.8103, longitude: 90.4125 },
+  { name: 'Sri Lanka', aliases: ['Ceylon'], latitude: 7.8731, longitude: 80.7718 },
+  { name: 'Colombo', latitude: 6.9271, longitude: 79.8612 },
+  // East Asia
+  { name: 'China', aliases: ['Tiongkok', 'Cina'], latitude: 35.8617, longitude: 104.1954 },
+  { name: 'Beijing', aliases: ['Peking'], latitude: 39.9042, longitude: 116.4074 },
+  { name: 'Guangzhou', aliases: ['Canton'], latitude: 23.1291, longitude: 113.2644 },
+  { name: 'Xiamen', aliases: ['Amoy'], latitude: 24.4798, longitude: 118.0894 },
+  { name: 'Quanzhou', latitude: 24.8741, longitude: 118.6757 },
+  { name: 'Hong Kong', latitude: 22.3193, longitude: 114.1694 },
+  { name: 'Tokyo', latitude: 35.6762, longitude: 139.6503 },
+  // East Africa
+  { name: 'Mombasa', latitude: -4.0435, longitude: 39.6682 },
+  { name: 'Lamu', latitude: -2.2696, longitude: 40.902 },
+  { name: 'Zanzibar', latitude: -6.1659, longitude: 39.2026 },
+  { name: 'Mogadishu', latitude: 2.0469, longitude: 45.3182 },
+  { name: 'Nairobi', latitude: -1.2921, longitude: 36.8219 },
+  { name: 'Cape Town', latitude: -33.9249, longitude: 18.4241 },
+  // Europe, Australia and America
+  { name: 'United Kingdom', aliases: ['UK', 'England', 'Great Britain'], latitude: 52.3555, longitude: -1.1743 },
+  { name: 'London', latitude: 51.5074, longitude: -0.1278 },
+  { name: 'Netherlands', aliases: ['Holland', 'Belanda'], latitude: 52.1326, longitude: 5.2913 },
+  { name: 'Amsterdam', latitude: 52.3676, longitude: 4.9041 },
+  { name: 'The Hague', aliases: ['Den Haag'], latitude: 52.0705, longitude: 4.3007 },
+  { name: 'Leiden', latitude: 52.1601, longitude: 4.497 },
+  { name: 'Paris', latitude: 48.8566, longitude: 2.3522 },
+  { name: 'Australia', latitude: -25.2744, longitude: 133.7751 },
+  { name: 'Sydney', latitude: -33.8688, longitude: 151.2093 },
+  { name: 'Melbourne', latitude: -37.8136, longitude: 144.9631 },
+  { name: 'Perth', latitude: -31.9505, longitude: 115.8605 },
+  { name: 'New York', latitude: 40.7128, longitude: -74.006 },
+];
+
+const KNOWN_PLACES_BY_NAME: ReadonlyMap<string, KnownPlace> = new Map(
+  KNOWN_PLACES.flatMap((place) =>
+    [place.name, ...(place.aliases ?? [])].map((name) => [normalizePlaceName(name), place] as const)
+  )
+);
+
+/** Coordinates of a place name in the bundled lookup, with its usual name */
+export function lookupKnownPlace(name: string): (Coordinates & { name: string }) | null {
+  const place = KNOWN_PLACES_BY_NAME.get(normalizePlaceName(name));
+  return place ? { name: place.name, latitude: place.latitude, longitude: place.longitude } : null;
+}
+
+function pinned(place: Place, approximate: boolean): ResolvedPlace | null {
+  if (place.latitude === null || place.longitude === null) return null;
+  return {
+    latitude: place.latitude,
+    longitude: place.longitude,
+    source: 'gazetteer',
+    matched: place.fullName,
+    approximate,
+  };
+}
+
+/**
+ * Where to put a recorded place on the map: its linked gazetteer place or
+ * the one its text names, else the parts of the text from the most
+ * specific, in the gazetteer then the bundled lookup, else the nearest
+ * pinned place above the linked one. Null when nothing is known.
+ */
+export function resolvePlaceCoordinates(
+  text: string | null | undefined,
+  placeId: string | null | undefined,
+  places: readonly Place[] = []
+): ResolvedPlace | null {
+  const byId = (id: string | null | undefined) => (id ? places.find((p) => p.placeId === id) : undefined);
+  const linked = byId(placeId) ?? matchPlace(text, places);
+  const exact = linked ? pinned(linked, false) : null;
+  if (exact) return exact;
+
+  const parts = (text ?? '')
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+  for (const [i, part] of parts.entries()) {
+    const match = matchPlace(part, places);
+    const fromGazetteer = match ? pinned(match, i > 0) : null;
+    if (fromGazetteer) return fromGazetteer;
+    const known = lookupKnownPlace(part);
+    if (known) {
+      return {
+        latitude: known.latitude,
+        longitude: known.longitude,
+        source: 'bundled',
+        matched: known.name,
+        approximate: i > 0,
+      };
+    }
+  }
+
+  // The gazetteer has no cycles, but stop after as many steps as there are places
+  let parent = byId(linked?.parentId);
+  for (let steps = 0; parent && steps < places.length; steps++, parent = byId(parent.parentId)) {
+    const above = pinned(parent, true);
+    if (above) return above;
+  }
+  return null;
+}
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for gazetteer place helpers
+ *
+ * @module places.test
+ * @pure No mocks, no snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { matchPlace, mostUsedPlaces, placeFields, placeTypeLabel } from './places';
+import type { Place } from '../api';
+
+const place = (placeId: string, name: string, fullName: string, extra: Partial<Place> = {}): Place => ({
+  placeId,
+  name,
+  type: null,
+  parentId: null,
+  alternateNames: [],
+  latitude: null,
+  longitude: null,
+  fullName,
+  personCount: 0,
+  totalPersonCount: 0,
+  ...extra,
+});
+
+const places: Place[] = [
+  place('PL1', 'Yemen', 'Yemen', { type: 'COUNTRY', totalPersonCount: 3 }),
+  place('PL2', 'Hadramaut', 'Hadramaut, Yemen', { personCount: 1, totalPersonCount: 3 }),
+  place('PL3', 'Tarim', 'Tarim, Hadramaut, Yemen', {
+    alternateNames: [{ name: 'تريم', script: 'Arab', historical: false }],
+    personCount: 2,
+    totalPersonCount: 2,
+  }),
+  place('PL4', 'Kampung Baru', 'Kampung Baru, Kuala Lumpur'),
+  place('PL5', 'Kampung Baru', 'Kampung Baru, Kota Bharu'),
+];
+
+describe('matchPlace', () => {
+  it('matches a full name, or a name or other name held by one place only', () => {
+    expect(matchPlace(' tarim, hadramaut, YEMEN', places)?.placeId).toBe('PL3');
+    expect(matchPlace('Tarim', places)?.placeId).toBe('PL3');
+    expect(matchPlace('تريم', places)?.placeId).toBe('PL3');
+    expect(matchPlace('Kampung Baru', places)).toBeNull();
+    expect(matchPlace('Kampung Baru, Kota Bharu', places)?.placeId).toBe('PL5');
+    expect(matchPlace('', places)).toBeNull();
+  });
+});
+
+describe('placeFields', () => {
+  it('links a matched place under its full name and keeps other text as typed', () => {
+    expect(placeFields('Tarim', places)).toEqual({ place: 'Tarim, Hadramaut, Yemen', placeId: 'PL3' });
+    expect(placeFields(' Seiyun ', places)).toEqual({ place: 'Seiyun', placeId: null });
+    expect(placeFields('  ', places)).toEqual({ place: null, placeId: null });
+  });
+});
+
+describe('placeTypeLabel', () => {
+  it('labels the type, or nothing when there is none', () => {
+    expect([placeTypeLabel('COUNTRY'), placeTypeLabel(null)]).toEqual(['Country', null]);
+  });
+});
+
+describe('mostUsedPlaces', () => {
+  it('orders places in use by how many persons they have', () => {
+    expect(mostUsedPlaces(places).map((p) => p.placeId)).toEqual(['PL3', 'PL2']);
+    expect(mostUsedPlaces(places, 1).map((p) => p.placeId)).toEqual(['PL3']);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Gazetteer places: labels for forms, and matching the place text typed in
+ * a form to a place so that births and events are linked to it.
+ *
+ * @module places
+ */
+
+import type { Place, PlaceType } from '../api';
+
+export const PLACE_TYPE_OPTIONS: ReadonlyArray<{ value: PlaceType; label: string }> = [
+  { value: 'COUNTRY', label: 'Country' },
+  { value: 'REGION', label: 'Region' },
+  { value: 'DISTRICT', label: 'District' },
+  { value: 'CITY', label: 'City' },
+  { value: 'VILLAGE', label: 'Village' },
+  { value: 'SITE', label: 'Site' },
+  { value: 'OTHER', label: 'Other' },
+];
+
+export function placeTypeLabel(type: PlaceType | null): string | null {
+  if (!type) return null;
+  return PLACE_TYPE_OPTIONS.find((o) => o.value === type)?.label ?? type;
+}
+
+/** Same comparison form as the server: "Tarim" and " TARIM " are one name */
+export function normalizePlaceName(name: string): string {
+  return name.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * The place a typed text stands for: the place with that full name, else
+ * the only place with that name or other name. Null when no place or
+ * several places match.
+ */
+export function matchPlace(text: string | null | undefined, places: readonly Place[]): Place | null {
+  if (!text?.trim()) return null;
+  const wanted = normalizePlaceName(text);
+  const byFullName = places.find((p) => normalizePlaceName(p.fullName) === wanted);
+  if (byFullName) return byFullName;
+  const named = places.filter((p) =>
+    [p.name, ...p.alternateNames.map((alt) => alt.name)].some((n) => normalizePlaceName(n) === wanted)
+  );
+  return named.length === 1 ? named[0] : null;
+}
+
+/**
+ * Place text and link for a form: a matched place is linked and written
+ * with its full name, other text is kept as typed and left unlinked.
+ */
+export function placeFields(
+  text: string | null | undefined,
+  places: readonly Place[]
+): { place: string | null; placeId: string | null } {
+  const match = matchPlace(text, places);
+  if (match) return { place: match.fullName, placeId: match.placeId };
+  return { place: text?.trim() || null, placeId: null };
+}
+
+/**
+ * Places with the most births and events linked to them, most first,
+ * ties by full name; unused places are left out.
+ */
+export function mostUsedPlaces(places: readonly Place[], limit = 5): Place[] {
+  return places
+    .filter((p) => p.personCount > 0)
+    .sort((a, b) => b.personCount - a.personCount || a.fullName.localeCompare(b.fullName))
+    .slice(0, limit);
+}
@@ -1,4 +1,5 @@
-import { TreeRenderV1, RenderNode } from '../api';
+import { TreeRenderV1, RenderNode, Place } from '../api';
+import { mostUsedPlaces } from './places';
 
 export interface PersonStats {
   id: string;
@@ -59,11 +60,21 @@ export interface FamilyEvent {
   description?: string;
 }
 
+export interface PlaceStats {
+  totalPlaces: number;
+  placesWithCoordinates: number;
+  // Births and events linked to the place itself
+  topPlaces: Array<{ id: string; name: string; count: number }>;
+  // Top-level places (countries, usually) with everyone linked to places below them
+  topRegions: Array<{ id: string; name: string; count: number }>;
+}
+
 export interface TreeStatistics {
   basicStats: BasicStats;
   relationshipStats: RelationshipStats;
   genderStats: GenderStats;
   lifespanStats: LifespanStats;
+  placeStats: PlaceStats;
   timelineEvents: FamilyEvent[];
   calculatedAt: Date;
 }
@@ -351,15 +362,37 @@ function calculateAge(birthDate?: string | null, deathDate?: string | null): num
   return age >= 0 ? age : undefined;
 }
 
+/**
+ * Calculate place statistics from the tree's gazetteer
+ */
+export function calculatePlaceStats(places: readonly Place[]): PlaceStats {
+  const count = (p: Place, n: number) => ({ id: p.placeId, name: p.fullName, count: n });
+  return {
+    totalPlaces: places.length,
+    placesWithCoordinates: places.filter(p => p.latitude !== null && p.longitude !== null).length,
+    topPlaces: mostUsedPlaces(places).map(p => count(p, p.personCount)),
+    topRegions: places
+      .filter(p => p.parentId === null && p.totalPersonCount > 0)
+      .sort((a, b) => b.totalPersonCount - a.totalPersonCount || a.fullName.localeCompare(b.fullName))
+      .slice(0, 5)
+      .map(p => count(p, p.totalPersonCount)),
+  };
+}
+
 /**
  * Calculate all statistics for the tree
  */
-export function calculateTreeStatistics(data: TreeRenderV1, personStatsMap: Map<string, PersonStats>): TreeStatistics {
+export function calculateTreeStatistics(
+  data: TreeRenderV1,
+  personStatsMap: Map<string, PersonStats>,
+  places: readonly Place[] = []
+): TreeStatistics {
   return {
     basicStats: calculateBasicStats(data, personStatsMap),
     relationshipStats: calculateRelationshipStats(data),
     genderStats: calculateGenderStats(personStatsMap),
     lifespanStats: calculateLifespanStats(personStatsMap),
+    placeStats: calculatePlaceStats(places),
     timelineEvents: generateTimelineEvents(personStatsMap),
     calculatedAt: new Date(),
   };
@@ -430,6 +463,17 @@ export function exportStatisticsAsCSV(stats: TreeStatistics, treeName: string):
   }
   lines.push('');
 
+  // Places (if any)
+  if (stats.placeStats.totalPlaces > 0) {
+    lines.push('=== PLACES ===');
+    lines.push(`Total Places,${stats.placeStats.totalPlaces}`);
+    lines.push(`Places with Coordinates,${stats.placeStats.placesWithCoordinates}`);
+    stats.placeStats.topPlaces.forEach(place => {
+      lines.push(`"${place.name}",${place.count}`);
+    });
+    lines.push('');
+  }
+
   // Timeline Events (if any)
   if (stats.timelineEvents.length > 0) {
     lines.push('=== TIMELINE EVENTS ===');